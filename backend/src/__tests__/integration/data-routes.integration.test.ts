@@ -36,14 +36,22 @@ describeIfEmulator('Data routes integration (Firestore emulator)', () => {
         inspectionId,
         status: 'queued' as const,
         provider: 'local' as const,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+        attempts: 0,
+        maxAttempts: 5,
+        createdAt: new Date(),
+        updatedAt: new Date(),
       }
     },
-    getReportJob() {
+    async getReportJob() {
       return null
     },
-    getLatestReportJobForInspection() {
+    async getLatestReportJobForInspection() {
+      return null
+    },
+    async listReportJobs() {
+      return []
+    },
+    async requeueReportJob() {
       return null
     },
   }
@@ -145,14 +153,14 @@ describeIfEmulator('Data routes integration (Firestore emulator)', () => {
 
     const listRes = await request(app).get('/api/v1/inspections')
     expect(listRes.status).toBe(200)
-    expect(Array.isArray(listRes.body)).toBe(true)
-    expect(listRes.body.some((i: { id: string }) => i.id === inspectionId)).toBe(true)
+    expect(Array.isArray(listRes.body.items)).toBe(true)
+    expect(listRes.body.items.some((i: { id: string }) => i.id === inspectionId)).toBe(true)
 
     const statusRes = await request(app)
       .patch(`/api/v1/inspections/${inspectionId}/status`)
       .send({ status: 'completed', summary: 'Inspection completed successfully.' })
     expect(statusRes.status).toBe(200)
-    expect(statusRes.body.status).toBe('completed')
+    expect(statusRes.body.status).toBe('pending_review')
 
     const signedRes = await request(app)
       .post(`/api/v1/inspections/${inspectionId}/snapshots/signed-url`)
@@ -217,6 +225,98 @@ describeIfEmulator('Data routes integration (Firestore emulator)', () => {
     expect(reportWithWorkflowRes.body.workflowSummary.length).toBeGreaterThan(0)
   })
 
+  it('should keep report versions and diff them', async () => {
+    const inspectionRes = await request(app).post('/api/v1/inspections').send({
+      technicianId: 'tech-versions',
+      siteId: 'site-versions',
+    })
+    const inspectionId = inspectionRes.body.id as string
+
+    await request(app).post(`/api/v1/inspections/${inspectionId}/report?mode=sync`)
+    await request(app).patch(`/api/v1/inspections/${inspectionId}/status`).send({ status: 'completed' })
+    await request(app).post(`/api/v1/inspections/${inspectionId}/report?mode=sync`)
+
+    const versionsRes = await request(app).get(`/api/v1/inspections/${inspectionId}/report/versions`)
+    expect(versionsRes.body.items.map((item: { version: number }) => item.version)).toEqual([1, 2, 3])
+
+    const firstRes = await request(app).get(`/api/v1/inspections/${inspectionId}/report/versions/1`)
+    expect(firstRes.body).toMatchObject({ version: 1, status: 'in_progress' })
+
+    const pdfRes = await request(app).get(`/api/v1/inspections/${inspectionId}/report/versions/1.pdf`)
+    expect(pdfRes.headers['content-disposition']).toContain(`inspection-report-${inspectionId}-v1.pdf`)
+
+    const diffRes = await request(app).get(`/api/v1/inspections/${inspectionId}/report/diff?from=1&to=2`)
+    expect(diffRes.body.changes).toContainEqual({ field: 'status', before: 'in_progress', after: 'pending_review' })
+
+    const missingRes = await request(app).get(`/api/v1/inspections/${inspectionId}/report/versions/3`)
+    expect(missingRes.status).toBe(404)
+  })
+
+  it('should export reports in the format named by the path or the Accept header', async () => {
+    const inspectionRes = await request(app).post('/api/v1/inspections').send({
+      technicianId: 'tech-formats',
+      siteId: 'site-formats',
+    })
+    const inspectionId = inspectionRes.body.id as string
+    await request(app).post(`/api/v1/inspections/${inspectionId}/report?mode=sync`)
+
+    const csvRes = await request(app).get(`/api/v1/inspections/${inspectionId}/report.csv`)
+    expect(csvRes.status).toBe(200)
+    expect(csvRes.headers['content-type']).toContain('text/csv')
+    expect(csvRes.text.split('\r\n')[0]).toMatch(/^record_type,inspection_id,report_version/)
+
+    const docxRes = await request(app)
+      .get(`/api/v1/inspections/${inspectionId}/report/versions/1`)
+      .set('Accept', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')
+    expect(docxRes.headers['content-disposition']).toContain(`inspection-report-${inspectionId}-v1.docx`)
+
+    const htmlRes = await request(app).get(`/api/v1/inspections/${inspectionId}/report`).set('Accept', 'text/html')
+    expect(htmlRes.headers['content-type']).toContain('text/html')
+
+    const unknownRes = await request(app).get(`/api/v1/inspections/${inspectionId}/report.xlsx`)
+    expect(unknownRes.status).toBe(404)
+    expect(unknownRes.body.formats).toEqual(['json', 'pdf', 'html', 'docx', 'csv'])
+
+    const unacceptableRes = await request(app).get(`/api/v1/inspections/${inspectionId}/report`).set('Accept', 'image/png')
+    expect(unacceptableRes.status).toBe(406)
+  })
+
+  it('should serve inspection ETags and reject status changes made against a stale one', async () => {
+    const inspectionRes = await request(app).post('/api/v1/inspections').send({
+      technicianId: 'tech-etag',
+      siteId: 'site-etag',
+    })
+    const inspectionId = inspectionRes.body.id as string
+
+    const readRes = await request(app).get(`/api/v1/inspections/${inspectionId}`)
+    expect(readRes.headers.etag).toBe(`"${readRes.body.version}"`)
+
+    await request(app)
+      .post(`/api/v1/inspections/${inspectionId}/workflow-actions`)
+      .send({ action: 'log_issue', note: 'Written from another device' })
+
+    const staleRes = await request(app)
+      .patch(`/api/v1/inspections/${inspectionId}/status`)
+      .set('If-Match', readRes.headers.etag)
+      .send({ status: 'completed' })
+    expect(staleRes.status).toBe(409)
+    expect(staleRes.body).toMatchObject({ code: 'version_conflict', currentVersion: readRes.body.version + 1 })
+
+    const retryRes = await request(app)
+      .patch(`/api/v1/inspections/${inspectionId}/status`)
+      .set('If-Match', staleRes.headers.etag)
+      .send({ status: 'completed' })
+    expect(retryRes.status).toBe(200)
+    // Submitting for review writes the status, then the review it pins
+    expect(retryRes.headers.etag).toBe(`"${readRes.body.version + 3}"`)
+
+    const malformedRes = await request(app)
+      .patch(`/api/v1/inspections/${inspectionId}/status`)
+      .set('If-Match', 'v3')
+      .send({ status: 'completed' })
+    expect(malformedRes.status).toBe(400)
+  })
+
   async function clearCollection(collectionName: string): Promise<void> {
     const snapshot = await firestore.collection(collectionName).get()
     const batch = firestore.batch()
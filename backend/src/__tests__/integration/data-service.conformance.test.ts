@@ -0,0 +1,811 @@
+import { Firestore } from '@google-cloud/firestore'
+import { v4 as uuidv4 } from 'uuid'
+import { AuditSequenceConflictError } from '../../services/audit-chain'
+import { AuditService } from '../../services/audit.service'
+import type { PartitionedDataService } from '../../services/data-service'
+import { InspectionVersionConflictError } from '../../services/inspection-version'
+import { FirestoreDataService } from '../../services/firestore-data.service'
+import { MemoryDataService } from '../../services/memory-data.service'
+import { OrganizationExistsError } from '../../services/organization-context'
+import { PostgresDataService } from '../../services/postgres-data.service'
+import { TimeEntryStateError } from '../../services/time-tracking.service'
+import type { AssetRiskAssessment, Inspection } from '../../types'
+
+/**
+ * One behavioural contract for every DataService provider. The in-memory
+ * provider always runs; Postgres runs when POSTGRES_TEST_URL points at a
+ * disposable database and Firestore when FIRESTORE_EMULATOR_HOST is set.
+ * Records are scoped by fresh ids, so the suite tolerates pre-existing data.
+ */
+const providers: Array<{ name: string; enabled: boolean; create: () => PartitionedDataService }> = [
+  { name: 'memory', enabled: true, create: () => new MemoryDataService() },
+  {
+    name: 'postgres',
+    enabled: Boolean(process.env.POSTGRES_TEST_URL),
+    create: () => {
+      process.env.POSTGRES_URL = process.env.POSTGRES_TEST_URL
+      process.env.POSTGRES_MIGRATE_ON_START = 'true'
+      return new PostgresDataService()
+    },
+  },
+  {
+    name: 'firestore',
+    enabled: Boolean(process.env.FIRESTORE_EMULATOR_HOST),
+    create: () => new FirestoreDataService(new Firestore({ projectId: 'fieldsightlive-test' })),
+  },
+]
+
+const pause = () => new Promise((resolve) => setTimeout(resolve, 5))
+
+for (const provider of providers) {
+  const describeProvider = provider.enabled ? describe : describe.skip
+
+  describeProvider(`DataService conformance (${provider.name})`, () => {
+    jest.setTimeout(30_000)
+    let dataService: PartitionedDataService
+
+    beforeAll(async () => {
+      dataService = provider.create()
+      await dataService.ready?.()
+    })
+
+    afterAll(async () => {
+      await dataService?.close?.()
+    })
+
+    async function createInspection(siteId = `site-${uuidv4()}`): Promise<Inspection> {
+      return dataService.createInspection({ technicianId: `tech-${uuidv4()}`, siteId, assetIds: ['a-1', 'a-1'] })
+    }
+
+    it('creates and lists technicians and sites', async () => {
+      const technician = await dataService.createTechnician({
+        name: 'Ada Field',
+        email: `${uuidv4()}@example.com`,
+        role: 'technician',
+      })
+      const site = await dataService.createSite({
+        name: 'North Substation',
+        type: 'power',
+        location: { latitude: 51.5, longitude: -0.12, address: '1 Grid Road' },
+        technicianIds: [technician.id],
+      })
+
+      expect((await dataService.listTechnicians()).find((item) => item.id === technician.id)).toEqual(technician)
+      expect(await dataService.getTechnicianByEmail(technician.email.toUpperCase())).toEqual(technician)
+      expect((await dataService.listSites()).find((item) => item.id === site.id)).toEqual(site)
+      expect(await dataService.getSiteById(site.id)).toEqual(site)
+      expect(await dataService.getSiteById(uuidv4())).toBeNull()
+    })
+
+    it('updates, reassigns and soft-deletes technicians and sites', async () => {
+      const technician = await dataService.createTechnician({
+        name: 'Grace Field',
+        email: `${uuidv4()}@example.com`,
+        role: 'technician',
+      })
+      const site = await dataService.createSite({
+        name: 'Solar Farm',
+        type: 'solar',
+        location: { latitude: 1, longitude: 2 },
+        technicianIds: [],
+      })
+      await pause()
+
+      const renamed = await dataService.updateTechnician(technician.id, { ...technician, role: 'admin' })
+      expect(renamed).toMatchObject({ id: technician.id, role: 'admin', createdAt: technician.createdAt })
+      expect(renamed?.updatedAt.getTime()).toBeGreaterThan(technician.updatedAt.getTime())
+      expect(await dataService.updateSite(site.id, { name: 'Solar Farm East', type: 'solar', location: site.location }))
+        .toMatchObject({ name: 'Solar Farm East', technicianIds: [] })
+      expect((await dataService.setSiteTechnicians(site.id, [technician.id]))?.technicianIds).toEqual([technician.id])
+
+      const deactivated = await dataService.deactivateTechnician(technician.id)
+      expect(deactivated?.deletedAt).toBeInstanceOf(Date)
+      await pause()
+      expect((await dataService.deactivateTechnician(technician.id))?.deletedAt).toEqual(deactivated?.deletedAt)
+      await dataService.deactivateSite(site.id)
+
+      expect((await dataService.listTechnicians()).some((item) => item.id === technician.id)).toBe(false)
+      expect((await dataService.listSites()).some((item) => item.id === site.id)).toBe(false)
+      expect(
+        (await dataService.listTechnicians({ includeDeleted: true })).some((item) => item.id === technician.id),
+      ).toBe(true)
+      expect(await dataService.getTechnicianById(technician.id)).toMatchObject({ name: 'Grace Field' })
+      expect(await dataService.getTechnicianByEmail(technician.email)).toBeNull()
+      expect((await dataService.getSiteById(site.id))?.deletedAt).toBeInstanceOf(Date)
+
+      expect(await dataService.getTechnicianById(uuidv4())).toBeNull()
+      expect(await dataService.updateSite(uuidv4(), site)).toBeNull()
+      expect(await dataService.deactivateSite(uuidv4())).toBeNull()
+      expect(await dataService.setSiteTechnicians(uuidv4(), [])).toBeNull()
+    })
+
+    it('records everything captured during an inspection', async () => {
+      const inspection = await createInspection()
+      expect(inspection).toMatchObject({ status: 'in_progress', assetIds: ['a-1'], transcript: '' })
+
+      const flaggedAt = new Date('2026-03-01T10:00:00.000Z')
+      await dataService.appendInspectionSafetyFlags(inspection.id, [
+        { type: 'leak', severity: 'high', description: 'Oil weeping at flange', timestamp: flaggedAt },
+      ])
+      await dataService.appendInspectionDetectedFaults(inspection.id, [
+        { component: 'flange', faultType: 'leak', confidence: 0.82, description: 'Oil weeping', recommendedActions: ['Tighten'] },
+      ])
+      await dataService.appendInspectionTranscript(inspection.id, {
+        speaker: 'user',
+        text: '  Starting walkdown  ',
+        source: 'live',
+      })
+      await expect(
+        dataService.appendInspectionTranscript(inspection.id, { speaker: 'agent', text: '   ', source: 'live' }),
+      ).rejects.toThrow('Transcript entry text is required')
+      await dataService.appendInspectionTranscript(inspection.id, { speaker: 'agent', text: 'Flange is wet', source: 'fallback' })
+      await dataService.appendInspectionImage(inspection.id, 'https://cdn.example.com/1.jpg')
+      await dataService.appendInspectionOcrFinding(inspection.id, {
+        imageUrl: 'https://cdn.example.com/1.jpg',
+        extractedText: 'SN-1 220psi',
+        serialNumbers: ['SN-1'],
+        partCodes: [],
+        meterReadings: ['220psi'],
+        warningLabels: [],
+        confidence: 0.9,
+      })
+      const event = await dataService.appendInspectionWorkflowEvent(inspection.id, {
+        action: 'create_ticket',
+        status: 'completed',
+        resultMessage: 'Ticket opened',
+        externalReferenceId: 'T-1',
+      })
+      await dataService.setInspectionChecklist(inspection.id, {
+        templateId: 'tpl-1',
+        templateName: 'Walkdown',
+        items: [{ id: 'flange', label: 'Flange', required: true, requiresPhoto: false, keywords: [], status: 'failed' }],
+      })
+
+      const stored = await dataService.getInspectionById(inspection.id)
+      expect(stored).toMatchObject({
+        safetyFlags: [{ type: 'leak', severity: 'high', description: 'Oil weeping at flange', timestamp: flaggedAt }],
+        detectedFaults: [{ component: 'flange', faultType: 'leak', confidence: 0.82, recommendedActions: ['Tighten'] }],
+        transcript: 'user: Starting walkdown\nagent: Flange is wet',
+        images: ['https://cdn.example.com/1.jpg'],
+        ocrFindings: [{ serialNumbers: ['SN-1'], meterReadings: ['220psi'] }],
+        workflowEvents: [{ id: event.id, action: 'create_ticket', externalReferenceId: 'T-1' }],
+        checklist: { templateId: 'tpl-1', items: [{ id: 'flange', status: 'failed' }] },
+      })
+      expect(stored?.ocrFindings[0].createdAt).toBeInstanceOf(Date)
+
+      const linked = await dataService.linkInspectionAssets(inspection.id, ['a-1', 'a-2'])
+      expect(linked?.assetIds).toEqual(['a-1', 'a-2'])
+
+      const completed = await dataService.updateInspectionStatus(inspection.id, {
+        status: 'completed',
+        summary: 'Flange leak logged',
+        checklistOverrideReason: 'Access blocked',
+      })
+      expect(completed).toMatchObject({ status: 'completed', summary: 'Flange leak logged', checklistOverrideReason: 'Access blocked' })
+      const reopened = await dataService.updateInspectionStatus(inspection.id, { status: 'in_progress' })
+      expect(reopened).toMatchObject({ status: 'in_progress', summary: 'Flange leak logged' })
+    })
+
+    it('stores the review alongside the status and keeps it through later status writes', async () => {
+      const inspection = await createInspection()
+      const approvedAt = new Date('2026-03-01T10:00:00.000Z')
+      const review = {
+        reportVersion: 2,
+        submittedBy: { uid: 'uid-tech', email: 'ada@example.com', role: 'technician' as const },
+        submittedAt: new Date('2026-03-01T09:00:00.000Z'),
+        decidedBy: { uid: 'uid-sup', role: 'supervisor' as const },
+        decidedAt: approvedAt,
+        comments: [
+          {
+            id: 'c-1',
+            author: { uid: 'uid-sup', role: 'supervisor' as const },
+            text: 'Confirm torque',
+            reportVersion: 1,
+            finding: { section: 'findings' as const, index: 0, text: 'valve corrosion' },
+            createdAt: new Date('2026-02-28T12:00:00.000Z'),
+          },
+        ],
+        approval: {
+          reportVersion: 2,
+          reportContentHash: 'a'.repeat(64),
+          approvedBy: { uid: 'uid-sup', role: 'supervisor' as const },
+          approvedAt,
+          verificationHash: 'b'.repeat(64),
+        },
+      }
+
+      const approved = await dataService.updateInspectionStatus(inspection.id, { status: 'approved', review })
+      expect(approved).toMatchObject({ status: 'approved', review })
+      expect(await dataService.getInspectionById(inspection.id)).toMatchObject({ status: 'approved', review })
+      const stored = await dataService.getInspectionById(inspection.id)
+      expect(stored?.review?.comments[0].createdAt).toBeInstanceOf(Date)
+      expect(stored?.review?.approval?.approvedAt).toEqual(approvedAt)
+
+      const reopened = await dataService.updateInspectionStatus(inspection.id, { status: 'changes_requested' })
+      expect(reopened).toMatchObject({ status: 'changes_requested', review: { reportVersion: 2 } })
+    })
+
+    it('treats unknown inspections the same way', async () => {
+      const missing = uuidv4()
+      expect(await dataService.getInspectionById(missing)).toBeNull()
+      expect(await dataService.updateInspectionStatus(missing, { status: 'completed' })).toBeNull()
+      expect(await dataService.linkInspectionAssets(missing, ['a-1'])).toBeNull()
+      expect(await dataService.generateInspectionReport(missing)).toBeNull()
+      await expect(dataService.appendInspectionImage(missing, 'x')).rejects.toThrow('Inspection not found')
+      await expect(
+        dataService.appendInspectionTranscript(missing, { speaker: 'user', text: 'hello', source: 'live' }),
+      ).rejects.toThrow('Inspection not found')
+      expect(await dataService.listTranscriptEntries(missing)).toEqual([])
+      await expect(
+        dataService.appendInspectionWorkflowEvent(missing, { action: 'log_issue', status: 'completed', resultMessage: 'ok' }),
+      ).rejects.toThrow('Inspection not found')
+      await expect(dataService.appendInspectionSafetyFlags(missing, [])).resolves.toBeUndefined()
+    })
+
+    it('bumps the inspection version on every write and rejects stale expected versions', async () => {
+      const inspection = await createInspection()
+      expect(inspection.version).toBe(1)
+
+      await Promise.all(
+        ['1', '2', '3'].map((n) => dataService.appendInspectionImage(inspection.id, `https://cdn.example.com/${n}.jpg`)),
+      )
+      await dataService.appendInspectionTranscript(inspection.id, { speaker: 'user', text: 'Panel open', source: 'live' })
+      const current = await dataService.getInspectionById(inspection.id)
+      expect(current?.images).toHaveLength(3)
+      expect(current?.version).toBe(5)
+
+      await expect(
+        dataService.updateInspectionStatus(inspection.id, { status: 'completed', expectedVersion: 1 }),
+      ).rejects.toMatchObject({ name: 'InspectionVersionConflictError', currentVersion: 5 })
+      await expect(dataService.linkInspectionAssets(inspection.id, ['a-2'], 4)).rejects.toBeInstanceOf(
+        InspectionVersionConflictError,
+      )
+      await expect(
+        dataService.setInspectionChecklist(inspection.id, { templateId: 'tpl-1', templateName: 'Walkdown', items: [] }, 4),
+      ).rejects.toBeInstanceOf(InspectionVersionConflictError)
+      expect(await dataService.getInspectionById(inspection.id)).toMatchObject({
+        status: 'in_progress',
+        assetIds: ['a-1'],
+        version: 5,
+      })
+
+      const linked = await dataService.linkInspectionAssets(inspection.id, ['a-2'], 5)
+      expect(linked).toMatchObject({ assetIds: ['a-1', 'a-2'], version: 6 })
+      const completed = await dataService.updateInspectionStatus(inspection.id, { status: 'completed', expectedVersion: 6 })
+      expect(completed).toMatchObject({ status: 'completed', version: 7 })
+      expect(await dataService.updateInspectionStatus(uuidv4(), { status: 'completed', expectedVersion: 1 })).toBeNull()
+    })
+
+    it('lists, filters, pages and searches inspections', async () => {
+      const siteId = `site-${uuidv4()}`
+      const first = await createInspection(siteId)
+      await pause()
+      const second = await createInspection(siteId)
+      await dataService.appendInspectionTranscript(second.id, {
+        speaker: 'user',
+        text: 'Corroded busbar near panel',
+        source: 'live',
+      })
+      await dataService.updateInspectionStatus(second.id, { status: 'completed' })
+
+      expect((await dataService.listInspections({ siteId })).map((item) => item.id)).toEqual([second.id, first.id])
+      expect((await dataService.listInspections({ siteId, status: 'completed' })).map((item) => item.id)).toEqual([second.id])
+
+      const firstPage = await dataService.searchInspections({ siteId, limit: 1 })
+      expect(firstPage.items.map((item) => item.id)).toEqual([second.id])
+      const secondPage = await dataService.searchInspections({ siteId, limit: 1, cursor: firstPage.nextCursor ?? undefined })
+      expect(secondPage).toMatchObject({ items: [{ id: first.id }], nextCursor: null })
+
+      const ascending = await dataService.searchInspections({ siteId, sortOrder: 'asc' })
+      expect(ascending.items.map((item) => item.id)).toEqual([first.id, second.id])
+
+      const found = await dataService.searchInspections({ siteId, search: 'corroded busbar' })
+      expect(found.items.map((item) => item.id)).toEqual([second.id])
+    })
+
+    it('stores transcript entries in order and pages, filters and searches them', async () => {
+      const inspection = await createInspection()
+      const spokenAt = new Date('2026-03-01T10:00:05.000Z')
+      const first = await dataService.appendInspectionTranscript(inspection.id, {
+        speaker: 'user',
+        text: 'Checking the breaker panel',
+        source: 'live',
+        language: 'es',
+        timestamp: spokenAt,
+      })
+      await dataService.appendInspectionTranscript(inspection.id, {
+        speaker: 'agent',
+        text: 'The BREAKER label reads 40A',
+        source: 'live',
+      })
+      await dataService.appendInspectionTranscript(inspection.id, {
+        speaker: 'user',
+        text: 'Moving to the transformer',
+        source: 'fallback',
+      })
+
+      expect(first).toMatchObject({ inspectionId: inspection.id, sequence: 1, language: 'es', timestamp: spokenAt })
+      const firstPage = await dataService.listTranscriptEntries(inspection.id, { limit: 2 })
+      expect(firstPage.map((entry) => entry.sequence)).toEqual([1, 2])
+      expect(firstPage[0]).toEqual(first)
+      expect(await dataService.listTranscriptEntries(inspection.id, { afterSequence: 2 })).toMatchObject([
+        { sequence: 3, speaker: 'user', text: 'Moving to the transformer', source: 'fallback' },
+      ])
+      expect(
+        (await dataService.listTranscriptEntries(inspection.id, { speaker: 'user' })).map((entry) => entry.sequence),
+      ).toEqual([1, 3])
+      expect(
+        (await dataService.listTranscriptEntries(inspection.id, { search: 'breaker' })).map((entry) => entry.sequence),
+      ).toEqual([1, 2])
+      expect((await dataService.getInspectionById(inspection.id))?.transcript).toBe(
+        'user: Checking the breaker panel\nagent: The BREAKER label reads 40A\nuser: Moving to the transformer',
+      )
+
+      await dataService.putArchiveRecord('transcript', {
+        ...first,
+        id: uuidv4(),
+        sequence: 10,
+        text: 'Imported line',
+      })
+      const next = await dataService.appendInspectionTranscript(inspection.id, {
+        speaker: 'agent',
+        text: 'Noted',
+        source: 'live',
+      })
+      expect(next.sequence).toBe(11)
+
+      const report = await dataService.generateInspectionReport(inspection.id)
+      expect(report?.transcriptExcerpt[0]).toBe('10:00:05 Technician: "Checking the breaker panel"')
+      expect(report?.transcriptExcerpt).toHaveLength(5)
+    })
+
+    it('generates and stores reports from the inspection and its related records', async () => {
+      const inspection = await createInspection()
+      await dataService.appendInspectionDetectedFaults(inspection.id, [
+        { component: 'pump', faultType: 'vibration', confidence: 0.5, description: 'Shaking', recommendedActions: [] },
+      ])
+      await dataService.appendInspectionImage(inspection.id, 'https://cdn.example.com/2.jpg')
+      await dataService.createTimeEntry({
+        inspectionId: inspection.id,
+        taskName: 'Pump check',
+        status: 'completed',
+        startedAt: new Date('2026-03-01T10:00:00.000Z'),
+        endedAt: new Date('2026-03-01T10:30:00.000Z'),
+        durationSeconds: 1800,
+      })
+      await dataService.createPartOrder({
+        inspectionId: inspection.id,
+        partNumber: 'BRG-6205',
+        quantity: 2,
+        urgency: 'urgent',
+        status: 'ordered',
+        supplierProvider: 'generic',
+      })
+      await dataService.createAnnotation({
+        inspectionId: inspection.id,
+        authorRole: 'expert',
+        tool: 'circle',
+        color: '#ff0000',
+        points: [{ x: 0.5, y: 0.5 }],
+        text: 'Check coupling',
+      })
+
+      const report = await dataService.generateInspectionReport(inspection.id)
+      expect(report).toMatchObject({
+        inspectionId: inspection.id,
+        findings: ['pump: vibration (50% confidence)'],
+        imageCount: 1,
+        totalTrackedMinutes: 30,
+        summaryText: `Inspection ${inspection.id} has 1 findings, 0 safety flags, and 1 captured images.`,
+      })
+      expect(report?.openPartOrders).toHaveLength(1)
+      expect(report?.annotationSummary).toHaveLength(1)
+      expect(await dataService.getInspectionReport(inspection.id)).toEqual(report)
+    })
+
+    it('keeps every generated report as a numbered version', async () => {
+      const inspection = await createInspection()
+      const first = await dataService.generateInspectionReport(inspection.id)
+      await dataService.appendInspectionImage(inspection.id, 'https://cdn.example.com/3.jpg')
+      const second = await dataService.generateInspectionReport(inspection.id)
+
+      expect(first).toMatchObject({ version: 1, contentHash: expect.stringMatching(/^[0-9a-f]{64}$/) })
+      expect(second).toMatchObject({ version: 2, imageCount: 1 })
+      expect(second?.contentHash).not.toBe(first?.contentHash)
+      expect(await dataService.getInspectionReport(inspection.id)).toEqual(second)
+      expect(await dataService.getInspectionReport(inspection.id, 1)).toEqual(first)
+      expect(await dataService.getInspectionReport(inspection.id, 3)).toBeNull()
+      expect(await dataService.listInspectionReportVersions(inspection.id)).toEqual([first, second])
+
+      await dataService.purgeInspectionData(inspection.id, ['reports'])
+      expect(await dataService.listInspectionReportVersions(inspection.id)).toEqual([])
+    })
+
+    it('stores report jobs and hands each due attempt to one claimant, who alone may settle it', async () => {
+      // A fresh organization keeps the queue free of other runs' jobs
+      const organization = await dataService.createOrganization({ id: `jobs-${uuidv4().slice(0, 8)}`, name: 'Jobs' })
+      const jobs = dataService.forOrganization(organization.id)
+      await jobs.ready?.()
+      const now = new Date()
+      const first = await jobs.createReportJob({ inspectionId: 'insp-a', provider: 'local', maxAttempts: 3 })
+      await pause()
+      const later = await jobs.createReportJob({
+        inspectionId: 'insp-a',
+        provider: 'pubsub',
+        maxAttempts: 3,
+        nextAttemptAt: new Date(now.getTime() + 60_000),
+      })
+
+      expect(first).toMatchObject({ status: 'queued', attempts: 0 })
+      expect(await jobs.getReportJob(first.jobId)).toEqual(first)
+      expect((await jobs.listReportJobs({ inspectionId: 'insp-a' })).map((job) => job.jobId)).toEqual([
+        later.jobId,
+        first.jobId,
+      ])
+
+      const [claimed, concurrent] = await Promise.all([
+        jobs.claimReportJob({ now, leaseMs: 30_000 }),
+        jobs.claimReportJob({ now, leaseMs: 30_000 }),
+      ])
+      expect([claimed?.jobId, concurrent?.jobId].filter(Boolean)).toEqual([first.jobId])
+      expect(await jobs.getReportJob(first.jobId)).toMatchObject({
+        status: 'processing',
+        attempts: 1,
+        leaseExpiresAt: new Date(now.getTime() + 30_000),
+      })
+      expect(await jobs.claimReportJob({ now, leaseMs: 30_000 })).toBeNull()
+      expect(await jobs.claimReportJob({ now: new Date(now.getTime() + 31_000), leaseMs: 30_000 })).toMatchObject({
+        jobId: first.jobId,
+        attempts: 2,
+      })
+      expect(await jobs.claimReportJob({ now, leaseMs: 30_000, jobId: later.jobId })).toMatchObject({ attempts: 1 })
+
+      const stale = { status: 'processing' as const, attempts: 1 }
+      expect(await jobs.updateReportJob(first.jobId, stale, { status: 'completed', provider: 'local', attempts: 1 }))
+        .toBeNull()
+      const failed = await jobs.updateReportJob(first.jobId, { status: 'processing', attempts: 2 }, {
+        status: 'dead_letter',
+        provider: 'local',
+        attempts: 2,
+        error: 'database unavailable',
+      })
+      expect(failed).toMatchObject({ status: 'dead_letter', error: 'database unavailable', maxAttempts: 3 })
+      expect(failed?.leaseExpiresAt).toBeUndefined()
+      expect((await jobs.listReportJobs({ statuses: ['dead_letter'] })).map((job) => job.jobId)).toEqual([first.jobId])
+      expect(await jobs.listReportJobs({ inspectionId: 'insp-a', limit: 1 })).toHaveLength(1)
+      const fresh = { status: 'queued' as const, attempts: 0 }
+      expect(await jobs.updateReportJob(uuidv4(), fresh, { ...fresh, provider: 'local' })).toBeNull()
+      expect(await dataService.getReportJob(first.jobId)).toBeNull()
+    })
+
+    it('purges data classes from an inspection and keeps the rest', async () => {
+      const inspection = await createInspection()
+      await dataService.appendInspectionTranscript(inspection.id, { speaker: 'user', text: 'Ada here', source: 'live' })
+      await dataService.appendInspectionTranscript(inspection.id, { speaker: 'agent', text: 'Hello Ada', source: 'live' })
+      await dataService.appendInspectionImage(inspection.id, 'https://cdn.example.com/ada.jpg')
+      await dataService.appendInspectionOcrFinding(inspection.id, {
+        imageUrl: 'https://cdn.example.com/ada.jpg',
+        extractedText: 'SN-PURGE-1',
+        serialNumbers: ['SN-PURGE-1'],
+        partCodes: [],
+        meterReadings: [],
+        warningLabels: [],
+        confidence: 0.9,
+      })
+      await dataService.appendInspectionWorkflowEvent(inspection.id, {
+        action: 'log_issue',
+        status: 'completed',
+        resultMessage: 'Logged',
+      })
+      await dataService.generateInspectionReport(inspection.id)
+
+      await expect(dataService.purgeInspectionData(inspection.id, ['transcripts', 'images'])).resolves.toEqual({
+        transcriptEntries: 2,
+        images: 1,
+        ocrFindings: 0,
+        report: false,
+      })
+      expect(await dataService.getInspectionById(inspection.id)).toMatchObject({
+        transcript: '',
+        images: [],
+        ocrFindings: [{ extractedText: 'SN-PURGE-1' }],
+        workflowEvents: [{ action: 'log_issue' }],
+        version: 7,
+      })
+      expect(await dataService.listTranscriptEntries(inspection.id)).toEqual([])
+      expect((await dataService.getInspectionReport(inspection.id))?.transcriptExcerpt).toEqual([])
+      const search = await dataService.searchInspections({ search: 'Ada', technicianId: inspection.technicianId })
+      expect(search.items).toEqual([])
+
+      await expect(dataService.purgeInspectionData(inspection.id, ['ocr', 'reports'])).resolves.toEqual({
+        transcriptEntries: 0,
+        images: 0,
+        ocrFindings: 1,
+        report: true,
+      })
+      expect(await dataService.getInspectionReport(inspection.id)).toBeNull()
+      expect(await dataService.purgeInspectionData(uuidv4(), ['images'])).toBeNull()
+    })
+
+    it('stores and clears site retention overrides', async () => {
+      const site = await dataService.createSite({
+        name: 'Retention yard',
+        type: 'solar',
+        location: { latitude: 1, longitude: 2 },
+        technicianIds: [],
+      })
+
+      expect(await dataService.setSiteRetention(site.id, { transcripts: 30, images: 90 })).toMatchObject({
+        retention: { transcripts: 30, images: 90 },
+      })
+      expect((await dataService.getSiteById(site.id))?.retention).toEqual({ transcripts: 30, images: 90 })
+      expect((await dataService.setSiteRetention(site.id, null))?.retention).toBeUndefined()
+      expect(await dataService.setSiteRetention(uuidv4(), { ocr: 1 })).toBeNull()
+    })
+
+    it('stores and clears site report templates', async () => {
+      const site = await dataService.createSite({
+        name: 'Branded yard',
+        type: 'solar',
+        location: { latitude: 1, longitude: 2 },
+        technicianIds: [],
+      })
+      const template = { title: 'Yard inspection', accentColor: '#336699', showPageNumbers: false }
+
+      expect(await dataService.setSiteReportTemplate(site.id, template)).toMatchObject({ reportTemplate: template })
+      expect((await dataService.getSiteById(site.id))?.reportTemplate).toEqual(template)
+      expect((await dataService.setSiteReportTemplate(site.id, null))?.reportTemplate).toBeUndefined()
+      expect(await dataService.setSiteReportTemplate(uuidv4(), { title: 'Missing' })).toBeNull()
+    })
+
+    it('manages site assets and their risk assessments', async () => {
+      const siteId = `site-${uuidv4()}`
+      const asset = await dataService.createSiteAsset({ siteId, name: 'Pump 1', assetType: 'pump', serialNumber: 'SN-9' })
+      const assessment: AssetRiskAssessment = {
+        assetId: asset.id,
+        siteId,
+        riskScore: 42,
+        riskLevel: 'medium',
+        inspectionCount: 2,
+        contributions: { faults: 1, safetyFlags: 0, readingAnomalies: 0, recurrence: 0 },
+        predictedFailures: [],
+        maintenanceRecommendations: [],
+        sparesToOrder: [],
+        computedAt: new Date('2026-03-02T00:00:00.000Z'),
+      }
+
+      expect(await dataService.listSiteAssets(siteId)).toEqual([asset])
+      await dataService.updateSiteAssetRisk(asset.id, assessment)
+      expect((await dataService.getSiteAsset(asset.id))?.riskAssessment).toMatchObject({ riskScore: 42, computedAt: assessment.computedAt })
+      await expect(dataService.updateSiteAssetRisk(uuidv4(), assessment)).rejects.toThrow('Site asset not found')
+
+      await dataService.deleteSiteAsset(asset.id)
+      expect(await dataService.getSiteAsset(asset.id)).toBeNull()
+    })
+
+    it('updates time entries, part orders, escalations and share sessions', async () => {
+      const inspection = await createInspection()
+      const entry = await dataService.createTimeEntry({
+        inspectionId: inspection.id,
+        taskName: 'Survey',
+        status: 'running',
+        startedAt: new Date('2026-03-01T09:00:00.000Z'),
+        durationSeconds: 0,
+      })
+      expect(await dataService.updateTimeEntry(entry.id, { status: 'paused', durationSeconds: 60 })).toMatchObject({
+        status: 'paused',
+        durationSeconds: 60,
+      })
+      expect(await dataService.listTimeEntries(inspection.id)).toHaveLength(1)
+      expect(await dataService.updateTimeEntry(uuidv4(), { status: 'paused', durationSeconds: 1 })).toBeNull()
+
+      const startTask = (taskName: string) =>
+        dataService.createTimeEntry({
+          inspectionId: inspection.id,
+          taskName,
+          status: 'running',
+          startedAt: new Date('2026-03-01T10:00:00.000Z'),
+          durationSeconds: 0,
+        })
+      const starts = await Promise.allSettled([startTask('Valve'), startTask('Gauge')])
+      expect(starts.filter((start) => start.status === 'fulfilled')).toHaveLength(1)
+      expect(starts.find((start) => start.status === 'rejected')).toMatchObject({
+        reason: expect.any(TimeEntryStateError),
+      })
+      await expect(
+        dataService.updateTimeEntry(entry.id, { status: 'running', resumedAt: new Date(), durationSeconds: 60 }),
+      ).rejects.toBeInstanceOf(TimeEntryStateError)
+
+      const order = await dataService.createPartOrder({
+        inspectionId: inspection.id,
+        partNumber: 'VLV-1',
+        quantity: 1,
+        urgency: 'routine',
+        status: 'pending',
+        supplierProvider: 'generic',
+      })
+      await dataService.updatePartOrder(order.id, { status: 'shipped', externalReferenceId: 'PO-7' })
+      expect(await dataService.getPartOrderById(order.id)).toMatchObject({ status: 'shipped', externalReferenceId: 'PO-7' })
+      expect(await dataService.listPartOrders({ inspectionId: inspection.id, statuses: ['pending'] })).toEqual([])
+
+      const escalation = await dataService.createExpertEscalation({
+        inspectionId: inspection.id,
+        reason: 'Unknown alarm',
+        priority: 'high',
+        requiredExpertise: ['electrical'],
+        status: 'queued',
+        context: { failedAttempts: 2 },
+        contactedExpertIds: [],
+      })
+      const acknowledgedAt = new Date('2026-03-01T11:00:00.000Z')
+      const queued = { status: 'queued', assignedExpertId: undefined } as const
+      await dataService.updateExpertEscalation(escalation.id, queued, {
+        status: 'acknowledged',
+        contactedExpertIds: ['exp-1'],
+        assignedExpertId: 'exp-1',
+        acknowledgedAt,
+      })
+      expect(
+        await dataService.updateExpertEscalation(escalation.id, queued, { status: 'resolved', contactedExpertIds: [] }),
+      ).toBeNull()
+      expect(await dataService.getExpertEscalationById(escalation.id)).toMatchObject({
+        status: 'acknowledged',
+        assignedExpertId: 'exp-1',
+        acknowledgedAt,
+        context: { failedAttempts: 2 },
+      })
+      expect((await dataService.listExpertEscalations({ inspectionId: inspection.id })).map((item) => item.id)).toEqual([
+        escalation.id,
+      ])
+
+      const session = await dataService.createShareSession({
+        inspectionId: inspection.id,
+        hostTechnicianId: inspection.technicianId,
+        expertEmail: 'expert@example.com',
+        status: 'active',
+        accessToken: uuidv4(),
+        expiresAt: new Date('2026-03-01T12:00:00.000Z'),
+      })
+      const endedAt = new Date('2026-03-01T11:30:00.000Z')
+      expect(await dataService.updateShareSessionStatus(session.id, 'completed', endedAt)).toMatchObject({
+        status: 'completed',
+        endedAt,
+      })
+      expect(await dataService.listShareSessions({ inspectionId: inspection.id, statuses: ['active'] })).toEqual([])
+    })
+
+    it('manages experts, annotations and checklist templates', async () => {
+      const expert = await dataService.createExpertContact({
+        name: `Expert ${uuidv4()}`,
+        role: 'Electrical engineer',
+        specialty: ['electrical'],
+        availability: 'online',
+        contactMethod: 'email',
+      })
+      expect(await dataService.updateExpertContactAvailability(expert.id, 'busy')).toMatchObject({ availability: 'busy' })
+      expect((await dataService.listExpertContacts()).find((item) => item.id === expert.id)?.availability).toBe('busy')
+
+      const inspection = await createInspection()
+      const annotation = await dataService.createAnnotation({
+        inspectionId: inspection.id,
+        authorRole: 'technician',
+        tool: 'arrow',
+        color: '#00ff00',
+        points: [{ x: 0.1, y: 0.2 }, { x: 0.3, y: 0.4 }],
+      })
+      expect(await dataService.listAnnotations(inspection.id)).toEqual([annotation])
+      expect(await dataService.deleteAnnotation(uuidv4(), annotation.id)).toBe(false)
+      expect(await dataService.deleteAnnotation(inspection.id, annotation.id)).toBe(true)
+      expect(await dataService.listAnnotations(inspection.id)).toEqual([])
+
+      const template = await dataService.createChecklistTemplate({
+        name: `Solar ${uuidv4()}`,
+        siteType: 'solar',
+        items: [{ id: 'panels', label: 'Panels', required: true, requiresPhoto: true, keywords: ['glass'] }],
+      })
+      expect(await dataService.getChecklistTemplate(template.id)).toEqual(template)
+      expect((await dataService.listChecklistTemplates('solar')).some((item) => item.id === template.id)).toBe(true)
+      expect((await dataService.listChecklistTemplates('power')).some((item) => item.id === template.id)).toBe(false)
+      expect(await dataService.deleteChecklistTemplate(template.id)).toBe(true)
+      expect(await dataService.deleteChecklistTemplate(template.id)).toBe(false)
+    })
+
+    it('appends, filters and pages audit entries in sequence order', async () => {
+      const auditService = new AuditService(dataService)
+      const entityId = `site-${uuidv4()}`
+      const actorUid = `uid-${uuidv4()}`
+      const first = await auditService.record({
+        actor: { uid: actorUid, organizationId: 'default', roles: ['admin'] },
+        action: 'PATCH /api/v1/sites/:siteId',
+        entityType: 'site',
+        entityId,
+        changes: [{ field: 'updatedAt', before: '2026-01-01T00:00:00.000Z', after: '2026-01-02T00:00:00.000Z' }],
+        source: 'http',
+      })
+      const second = await auditService.record({
+        action: 'DELETE /api/v1/sites/:siteId',
+        entityType: 'site',
+        entityId,
+        source: 'http',
+      })
+
+      expect(await dataService.getLatestAuditEntry()).toEqual(second)
+      expect(await dataService.listAuditEntries({ entityType: 'site', entityId })).toEqual([first, second])
+      expect(await dataService.listAuditEntries({ actorUid })).toEqual([first])
+      expect(await dataService.listAuditEntries({ entityId, afterSequence: first.sequence })).toEqual([second])
+      expect(await dataService.listAuditEntries({ entityId, to: new Date(first.occurredAt.getTime() - 1) })).toEqual([])
+      await expect(dataService.appendAuditEntry({ ...second, id: uuidv4() })).rejects.toBeInstanceOf(
+        AuditSequenceConflictError,
+      )
+    })
+
+    it('writes and pages archive records with their original ids', async () => {
+      const prefix = `zz-${uuidv4()}`
+      const createdAt = new Date('2026-01-01T00:00:00.000Z')
+      for (const suffix of ['a', 'b', 'c']) {
+        await dataService.putArchiveRecord('technician', {
+          id: `${prefix}-${suffix}`,
+          name: `Tech ${suffix}`,
+          email: `${suffix}@example.com`,
+          role: 'viewer',
+          createdAt,
+          updatedAt: createdAt,
+        })
+      }
+
+      const page = await dataService.listArchiveRecords('technician', `${prefix}-a`, 2)
+      expect(page.map((item) => item.id)).toEqual([`${prefix}-b`, `${prefix}-c`])
+      expect(await dataService.getArchiveRecord('technician', `${prefix}-b`)).toMatchObject({ name: 'Tech b', createdAt })
+      expect(await dataService.getArchiveRecord('report', uuidv4())).toBeNull()
+    })
+
+    it('keeps every record of an organization out of the others', async () => {
+      const organizationId = `org-${uuidv4().slice(0, 8)}`
+      const organization = await dataService.createOrganization({ id: organizationId, name: 'Acme Field Ops' })
+      await expect(dataService.createOrganization({ id: organizationId, name: 'Again' })).rejects.toBeInstanceOf(
+        OrganizationExistsError,
+      )
+      const acme = dataService.forOrganization(organizationId)
+      const marker = `marker${uuidv4().replace(/-/g, '')}`
+      const site = await acme.createSite({
+        name: 'Acme Yard',
+        type: 'power',
+        location: { latitude: 0, longitude: 0 },
+        technicianIds: [],
+      })
+      const inspection = await acme.createInspection({ technicianId: `tech-${uuidv4()}`, siteId: site.id })
+      await acme.appendInspectionTranscript(inspection.id, { speaker: 'user', text: marker, source: 'live' })
+
+      expect(await acme.getInspectionById(inspection.id)).toMatchObject({ id: inspection.id, siteId: site.id })
+      expect(await dataService.getInspectionById(inspection.id)).toBeNull()
+      expect(await dataService.getSiteById(site.id)).toBeNull()
+      expect((await dataService.listSites()).some((item) => item.id === site.id)).toBe(false)
+      expect((await dataService.searchInspections({ search: marker })).items).toEqual([])
+      expect(await dataService.listTranscriptEntries(inspection.id)).toEqual([])
+      expect((await acme.searchInspections({ search: marker })).items.map((item) => item.id)).toEqual([inspection.id])
+
+      await dataService.putArchiveRecord('site', { ...site, name: 'Default copy' })
+      expect((await acme.getSiteById(site.id))?.name).toBe('Acme Yard')
+      expect(await dataService.listOrganizations()).toEqual(
+        expect.arrayContaining([organization, expect.objectContaining({ id: 'default' })]),
+      )
+      expect(await dataService.getOrganization(organizationId)).toEqual(organization)
+      expect(await dataService.getOrganization(`org-${uuidv4().slice(0, 8)}`)).toBeNull()
+    })
+
+    it('updates organization names and settings, including the default organization', async () => {
+      const organizationId = `org-${uuidv4().slice(0, 8)}`
+      await dataService.createOrganization({ id: organizationId, name: 'Before' })
+      const settings = { workflow: { ticket: { url: 'https://tickets.example.com/hook', provider: 'jira' as const } } }
+
+      const updated = await dataService.updateOrganization(organizationId, { name: 'After', settings })
+
+      expect(updated).toMatchObject({ id: organizationId, name: 'After', settings })
+      expect(await dataService.getOrganization(organizationId)).toMatchObject({ name: 'After', settings })
+      expect(await dataService.updateOrganization('missing-org', { name: 'Nobody' })).toBeNull()
+      const renamedDefault = await dataService.updateOrganization('default', { name: 'Operator' })
+      expect(renamedDefault).toMatchObject({ id: 'default', name: 'Operator' })
+      expect(await dataService.getOrganization('default')).toMatchObject({ name: 'Operator' })
+    })
+  })
+}
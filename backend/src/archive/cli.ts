@@ -0,0 +1,104 @@
+import 'dotenv/config'
+import { createReadStream, createWriteStream } from 'fs'
+import { once } from 'events'
+import { createInterface } from 'readline'
+import { DataArchiveService, type ArchiveImportResult } from '../services/data-archive.service'
+import {
+  createDataService,
+  isDataProvider,
+  resolveDataProvider,
+  type DataProvider,
+} from '../services/data-service-factory'
+import { assertOrganizationId, DEFAULT_ORGANIZATION_ID } from '../services/organization-context'
+
+const USAGE =
+  'Usage: npm run archive -- <export <file> | import <file> [--dry-run]> [--provider firestore|postgres|memory]' +
+  ' [--organization <id>]'
+
+interface CliOptions {
+  command?: string
+  file?: string
+  provider: DataProvider
+  organizationId: string
+  dryRun: boolean
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const positional: string[] = []
+  let provider = resolveDataProvider()
+  let organizationId = DEFAULT_ORGANIZATION_ID
+  let dryRun = false
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index]
+    if (arg === '--dry-run') {
+      dryRun = true
+    } else if (arg === '--provider') {
+      const value = args[++index]?.trim().toLowerCase()
+      if (!isDataProvider(value)) {
+        throw new Error('--provider must be firestore, postgres or memory')
+      }
+      provider = value
+    } else if (arg === '--organization') {
+      organizationId = args[++index]?.trim() ?? ''
+      assertOrganizationId(organizationId)
+    } else {
+      positional.push(arg)
+    }
+  }
+
+  return { command: positional[0], file: positional[1], provider, organizationId, dryRun }
+}
+
+function printImportResult(result: ArchiveImportResult): void {
+  console.log(result.dryRun ? 'Dry run; nothing was written' : 'Import complete')
+  for (const [type, counts] of Object.entries(result.counts)) {
+    console.log(`  ${type.padEnd(10)} create ${counts.create}  update ${counts.update}  unchanged ${counts.unchanged}`)
+  }
+  for (const change of result.changes) {
+    const fields = change.fields ? ` (${change.fields.join(', ')})` : ''
+    console.log(`  ${change.action.padEnd(6)} ${change.type} ${change.id}${fields}`)
+  }
+}
+
+async function main(args: string[]): Promise<void> {
+  const options = parseArgs(args)
+  if ((options.command !== 'export' && options.command !== 'import') || !options.file) {
+    throw new Error(USAGE)
+  }
+
+  const directory = createDataService(options.provider)
+
+  try {
+    await directory.ready?.()
+    if (!(await directory.getOrganization(options.organizationId))) {
+      throw new Error(`Unknown organization: ${options.organizationId}`)
+    }
+    const dataService = directory.forOrganization(options.organizationId)
+    await dataService.ready?.()
+    const archive = new DataArchiveService(dataService)
+    if (options.command === 'export') {
+      const output = createWriteStream(options.file)
+      let records = -1
+      for await (const line of archive.exportLines()) {
+        if (!output.write(`${line}\n`)) {
+          await once(output, 'drain')
+        }
+        records += 1
+      }
+      output.end()
+      await once(output, 'finish')
+      console.log(`Exported ${records} records of ${options.organizationId} from ${options.provider} to ${options.file}`)
+    } else {
+      const lines = createInterface({ input: createReadStream(options.file), crlfDelay: Infinity })
+      printImportResult(await archive.importLines(lines, { dryRun: options.dryRun }))
+    }
+  } finally {
+    await directory.close?.()
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -5,6 +5,8 @@ import { generateInspectionReportFromPubSub } from './report-generation.function
 function createReport(inspectionId: string): InspectionReport {
   return {
     inspectionId,
+    version: 1,
+    contentHash: 'hash',
     generatedAt: new Date(),
     technicianId: 'tech-1',
     siteId: 'site-1',
@@ -14,6 +16,11 @@ function createReport(inspectionId: string): InspectionReport {
     workflowSummary: [],
     recommendedActions: [],
     imageCount: 0,
+    totalTrackedMinutes: 0,
+    timeSummary: [],
+    openPartOrders: [],
+    annotationSummary: [],
+    transcriptExcerpt: [],
     summaryText: 'Generated',
   }
 }
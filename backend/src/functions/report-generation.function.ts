@@ -1,6 +1,7 @@
 import type { DataService } from '../services/data-service'
-import { FirestoreDataService } from '../services/firestore-data.service'
-import { PostgresDataService } from '../services/postgres-data.service'
+import { createDataService } from '../services/data-service-factory'
+import { assertOrganizationId, DEFAULT_ORGANIZATION_ID } from '../services/organization-context'
+import { ReportJobRunner } from '../services/report-job-runner'
 
 interface PubSubEnvelope {
   data?: string
@@ -10,6 +11,8 @@ interface PubSubEnvelope {
 }
 
 interface ReportPubSubPayload {
+  /** Absent on messages published before organizations existed. */
+  organizationId?: string
   inspectionId: string
   jobId?: string
   requestedAt?: string
@@ -20,30 +23,25 @@ export async function generateInspectionReportFromPubSub(
   dataServiceOverride?: DataService,
 ): Promise<void> {
   const payload = decodePubSubPayload(event)
-  const dataService = dataServiceOverride || createDataService()
+  const dataService = dataServiceOverride || createDataService().forOrganization(payload.organizationId)
+  const job = payload.jobId ? await dataService.getReportJob(payload.jobId) : null
+  if (job) {
+    // run() skips a job that is already settled or held by another runner, so redeliveries are harmless
+    const settled = await new ReportJobRunner(dataService).run(job.jobId)
+    if (settled?.status === 'queued') {
+      throw new Error(`Report job ${job.jobId} will be retried: ${settled.error}`)
+    }
+    return
+  }
+
+  // Messages published before jobs were stored carry no job to record the outcome on
   const report = await dataService.generateInspectionReport(payload.inspectionId)
   if (!report) {
     throw new Error(`Inspection not found for report generation: ${payload.inspectionId}`)
   }
 }
 
-function createDataService(): DataService {
-  const provider = resolveDataProvider()
-  if (provider === 'firestore') {
-    return new FirestoreDataService()
-  }
-  return new PostgresDataService()
-}
-
-function resolveDataProvider(): 'firestore' | 'postgres' {
-  const configured = process.env.DATA_PROVIDER?.trim().toLowerCase()
-  if (configured === 'firestore' || configured === 'postgres') {
-    return configured
-  }
-  return process.env.NODE_ENV === 'production' ? 'firestore' : 'postgres'
-}
-
-function decodePubSubPayload(event: PubSubEnvelope): ReportPubSubPayload {
+function decodePubSubPayload(event: PubSubEnvelope): ReportPubSubPayload & { organizationId: string } {
   const encoded = event.message?.data || event.data
   if (!encoded) {
     throw new Error('Missing Pub/Sub message data')
@@ -56,7 +54,11 @@ function decodePubSubPayload(event: PubSubEnvelope): ReportPubSubPayload {
     throw new Error('Invalid Pub/Sub payload: inspectionId is required')
   }
 
+  const organizationId = parsed.organizationId?.trim() || DEFAULT_ORGANIZATION_ID
+  assertOrganizationId(organizationId)
+
   return {
+    organizationId,
     inspectionId: parsed.inspectionId.trim(),
     jobId: parsed.jobId,
     requestedAt: parsed.requestedAt,
@@ -7,24 +7,48 @@ import { createServer } from 'http'
 import { v4 as uuidv4 } from 'uuid'
 import winston from 'winston'
 import { GeminiLiveService, type LiveResponseEvent } from './services/gemini-live.service'
-import { AuthService } from './services/auth.service'
-import type { DataService } from './services/data-service'
+import { AnnotationService, AnnotationValidationError } from './services/annotation.service'
+import { AssetLinkingService } from './services/asset-linking.service'
+import { AuditService, diffRecords, type AuditEvent } from './services/audit.service'
+import { ChecklistService } from './services/checklist.service'
+import { AuthService, type AuthUser } from './services/auth.service'
+import { AuthorizationError, AuthorizationService } from './services/authorization.service'
+import type { DataService, PartitionedDataService } from './services/data-service'
+import { createDataService, resolveDataProvider } from './services/data-service-factory'
 import { EquipmentOcrService } from './services/equipment-ocr.service'
-import { FirestoreDataService } from './services/firestore-data.service'
+import { ExpertRoutingService, escalationResponseTokenOrganization } from './services/expert-routing.service'
 import { MinioStorageService } from './services/minio-storage.service'
-import { PostgresDataService } from './services/postgres-data.service'
+import {
+  createOrganizationScopedDataService,
+  currentOrganizationId,
+  DEFAULT_ORGANIZATION_ID,
+  isOrganizationId,
+  requireOrganizationId,
+  runInOrganization,
+  type ScopedTaskRunner,
+} from './services/organization-context'
+import { PartsOrderingService } from './services/parts-ordering.service'
+import { ReportExportService } from './services/report-export.service'
 import { ReportPdfService } from './services/report-pdf.service'
+import { ReportJobRunner } from './services/report-job-runner'
 import { ReportPipelineService } from './services/report-pipeline.service'
+import { createReportRendererRegistry, type ReportRendererRegistry } from './services/report-renderer'
+import { RetentionService } from './services/retention.service'
 import { StorageService } from './services/storage.service'
 import { WorkflowAutomationService } from './services/workflow-automation.service'
 import { AdkAgentService } from './services/adk-agent.service'
+import { ShareSessionAccessError, TeamCollaborationService } from './services/team-collaboration.service'
 import { createDataRouter } from './routes/data.routes'
+import { createPartsOrderCallbackRouter } from './routes/parts-order-callback.routes'
+import { createExpertResponseRouter } from './routes/expert-response.routes'
 import { incomingMessageSchema, type IncomingMessage } from './utils/ws-validation'
 import { SlidingWindowRateLimiter } from './utils/rate-limiter'
 import type {
   AudioMessage,
   AudioStreamEndMessage,
   GeminiResponse,
+  TranscriptSource,
+  TranscriptSpeaker,
   WorkflowActionType,
   VideoFrameMessage,
   WebSocketMessage,
@@ -45,6 +69,14 @@ interface WebSocketClient {
   id: string
   ws: WebSocket
   sessionId?: string
+  authUser: AuthUser | null
+  /** Every message and live event from this client is handled inside this organization's scope. */
+  organizationId: string
+  ipAddress: string | null
+  /** Language from the latest `inspection_context` message. */
+  language?: string
+  shareViewerOnly: boolean
+  shareSession?: { id: string; inspectionId: string; expertEmail: string }
 }
 
 interface PendingVoiceWorkflowConfirmation {
@@ -67,17 +99,37 @@ class App {
   private geminiLiveService = new GeminiLiveService()
   private authService = new AuthService()
   private ocrService = new EquipmentOcrService()
+  private organizations: PartitionedDataService
+  /** Organizations are never deleted, so an id seen once stays valid. */
+  private knownOrganizationIds = new Set<string>([DEFAULT_ORGANIZATION_ID])
   private dataService: DataService
-  private reportPdfService = new ReportPdfService()
+  private authorizationService: AuthorizationService
+  private assetLinkingService: AssetLinkingService
+  private auditService: AuditService
+  private reportPdfService: ReportPdfService
+  private reportRenderers: ReportRendererRegistry
+  private reportJobRunner: ReportJobRunner
   private reportPipelineService: ReportPipelineService
   private storageService: StorageService | MinioStorageService
-  private workflowAutomationService = new WorkflowAutomationService()
+  private workflowAutomationService: WorkflowAutomationService
   private adkAgentService: AdkAgentService
+  private expertRoutingService: ExpertRoutingService
+  private teamCollaborationService: TeamCollaborationService
+  private annotationService: AnnotationService
+  private checklistService: ChecklistService
+  private retentionService: RetentionService
   private rateLimiter: SlidingWindowRateLimiter
 
   private readonly RATE_WINDOW_MS = 10_000
   private readonly RATE_MAX_MESSAGES = 400
   private readonly VOICE_CONFIRM_TTL_MS = 30_000
+  private readonly SHARE_JOIN_TIMEOUT_MS = 10_000
+  private readonly REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+  private readonly SHARE_RELAYED_TYPES = new Set([
+    'live_transcript',
+    'gemini_response',
+    'gemini_response_chunk',
+  ])
 
   constructor() {
     this.app = express()
@@ -85,14 +137,78 @@ class App {
     this.wss = new WebSocketServer({
       server: this.server,
     })
-    this.dataService = this.createDataService()
-    this.reportPipelineService = new ReportPipelineService(this.dataService, logger)
+    this.organizations = createDataService()
+    this.dataService = createOrganizationScopedDataService(this.organizations)
+    this.workflowAutomationService = new WorkflowAutomationService({
+      resolveSettings: async () => {
+        const organization = await this.organizations.getOrganization(requireOrganizationId())
+        // WORKFLOW_* variables only ever speak for the default organization
+        return organization?.settings.workflow ?? (organization?.id === DEFAULT_ORGANIZATION_ID ? undefined : {})
+      },
+    })
+    this.authorizationService = new AuthorizationService(this.dataService)
+    this.assetLinkingService = new AssetLinkingService(this.dataService)
+    this.auditService = new AuditService(this.dataService, logger)
+    this.reportJobRunner = new ReportJobRunner(this.dataService, { logger })
+    this.reportPipelineService = new ReportPipelineService(this.dataService, logger, this.reportJobRunner)
     this.storageService = this.createStorageService()
+    const resolveOrganizationTemplate = async () =>
+      (await this.organizations.getOrganization(requireOrganizationId()))?.settings.report
+    this.reportPdfService = new ReportPdfService(this.dataService, this.storageService, {
+      logger,
+      resolveOrganizationTemplate,
+    })
+    this.reportRenderers = createReportRendererRegistry(
+      this.reportPdfService,
+      new ReportExportService(this.dataService, { resolveOrganizationTemplate }),
+    )
     this.adkAgentService = new AdkAgentService(
       this.dataService,
       this.workflowAutomationService,
       this.ocrService,
     )
+    this.expertRoutingService = new ExpertRoutingService(this.dataService, {
+      onEscalationUpdated: (escalation, expert) => {
+        this.broadcastToInspection(escalation.inspectionId, {
+          type: 'expert_escalation',
+          escalationId: escalation.id,
+          inspectionId: escalation.inspectionId,
+          status: escalation.status,
+          expertName: expert?.name ?? null,
+          acknowledgeBy: escalation.acknowledgeBy?.toISOString() ?? null,
+          resolutionNote: escalation.resolutionNote ?? null,
+        })
+      },
+    })
+    this.teamCollaborationService = new TeamCollaborationService(this.dataService, {
+      onSessionClosed: (session) => {
+        this.clients.forEach((client) => {
+          const bound = client.shareSession?.id === session.id || client.sessionId === session.id
+          if (!bound || !this.inScopedOrganization(client)) return
+          this.sendToClient(client.id, { type: 'share_session_ended', sessionId: session.id, status: session.status })
+          client.ws.close(4403, `Share session ${session.status}`)
+        })
+      },
+    })
+    this.annotationService = new AnnotationService(this.dataService, {
+      onAnnotationChanged: (change) => {
+        const inspectionId = change.type === 'added' ? change.annotation.inspectionId : change.inspectionId
+        const message =
+          change.type === 'added'
+            ? { type: 'annotation_added', annotation: change.annotation }
+            : { type: 'annotation_removed', inspectionId, annotationId: change.annotationId }
+        this.broadcastToInspection(inspectionId, message)
+        this.broadcastToShareViewers(inspectionId, message)
+      },
+    })
+    this.checklistService = new ChecklistService(this.dataService, {
+      onChecklistUpdated: (inspectionId, checklist) => {
+        const message = { type: 'checklist_updated', inspectionId, checklist }
+        this.broadcastToInspection(inspectionId, message)
+        this.broadcastToShareViewers(inspectionId, message)
+      },
+    })
+    this.retentionService = new RetentionService(this.dataService, this.storageService, { logger })
     this.rateLimiter = new SlidingWindowRateLimiter(this.RATE_WINDOW_MS, this.RATE_MAX_MESSAGES)
 
     this.middleware()
@@ -100,23 +216,66 @@ class App {
     this.websocket()
   }
 
-  public start(port: number = 8080): void {
+  public async start(port: number = 8080): Promise<void> {
+    try {
+      await this.organizations.ready?.()
+      for (const organization of await this.organizations.listOrganizations()) {
+        await this.organizations.forOrganization(organization.id).ready?.()
+        this.knownOrganizationIds.add(organization.id)
+      }
+    } catch (error) {
+      logger.error('Data store is not ready; refusing to start', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+      process.exit(1)
+    }
+
     this.server.listen(port, () => {
       logger.info(`Server running on port ${port}`)
       logger.info(`Auth required: ${this.authService.isAuthRequired()}`)
       logger.info(`WebSocket available at ws://localhost:${port}/ws`)
       logger.info(`WebSocket also accepts ws://localhost:${port}`)
-      logger.info(`Data provider: ${this.getDataProvider()}`)
+      logger.info(`Data provider: ${resolveDataProvider()}`)
       logger.info(`Storage provider: ${this.getStorageProvider()}`)
     })
+    const forEachOrganization: ScopedTaskRunner = this.forEachOrganization.bind(this)
+    this.expertRoutingService.startAcknowledgementMonitor(undefined, forEachOrganization)
+    this.teamCollaborationService.startExpiryMonitor(undefined, forEachOrganization)
+    const purgeIntervalHours = Number(process.env.RETENTION_PURGE_INTERVAL_HOURS ?? 24)
+    if (purgeIntervalHours > 0) {
+      this.retentionService.startPurgeSchedule(purgeIntervalHours * 60 * 60 * 1000, forEachOrganization)
+    }
+    const reportPollSeconds = Number(process.env.REPORT_WORKER_POLL_SECONDS ?? 5)
+    if (reportPollSeconds > 0 && this.reportPipelineService.runsQueueInProcess()) {
+      this.reportJobRunner.startPolling(reportPollSeconds * 1000, forEachOrganization)
+    }
   }
 
-  private getDataProvider(): 'firestore' | 'postgres' {
-    const configured = process.env.DATA_PROVIDER?.trim().toLowerCase()
-    if (configured === 'firestore' || configured === 'postgres') {
-      return configured
+  /** Background jobs visit organizations one after another so one slow partition cannot starve the rest. */
+  private async forEachOrganization(task: () => Promise<unknown>): Promise<void> {
+    let organizations
+    try {
+      organizations = await this.organizations.listOrganizations()
+    } catch (error) {
+      logger.warn('Could not list organizations for background work', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+      return
+    }
+    for (const organization of organizations) {
+      await runInOrganization(organization.id, task)
+    }
+  }
+
+  private async isKnownOrganization(organizationId: string): Promise<boolean> {
+    if (this.knownOrganizationIds.has(organizationId)) {
+      return true
+    }
+    if (!isOrganizationId(organizationId) || !(await this.organizations.getOrganization(organizationId))) {
+      return false
     }
-    return process.env.NODE_ENV === 'production' ? 'firestore' : 'postgres'
+    this.knownOrganizationIds.add(organizationId)
+    return true
   }
 
   private getStorageProvider(): 'gcs' | 'minio' {
@@ -127,14 +286,6 @@ class App {
     return process.env.NODE_ENV === 'production' ? 'gcs' : 'minio'
   }
 
-  private createDataService(): DataService {
-    const provider = this.getDataProvider()
-    if (provider === 'firestore') {
-      return new FirestoreDataService()
-    }
-    return new PostgresDataService()
-  }
-
   private createStorageService(): StorageService | MinioStorageService {
     const provider = this.getStorageProvider()
     if (provider === 'gcs') {
@@ -144,6 +295,8 @@ class App {
   }
 
   private middleware(): void {
+    this.app.use(this.requestIdMiddleware.bind(this))
+
     this.app.use(helmet({
       contentSecurityPolicy: {
         directives: {
@@ -164,9 +317,16 @@ class App {
     const corsOrigin = process.env.CORS_ORIGIN?.trim() || '*'
     this.app.use(cors({
       origin: corsOrigin === '*' ? true : corsOrigin.split(',').map(o => o.trim()),
-      methods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-      exposedHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining'],
+      methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+      allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'X-Requested-With',
+        'X-Request-Id',
+        'If-Match',
+        'X-Organization-Id',
+      ],
+      exposedHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-Request-Id', 'ETag'],
       credentials: true,
       maxAge: 86400,
     }))
@@ -196,7 +356,7 @@ class App {
         clients: this.clients.size,
         version: '1.0.0',
         providers: {
-          data: this.getDataProvider(),
+          data: resolveDataProvider(),
           storage: this.getStorageProvider(),
           storageConfigured:
             typeof this.storageService.isConfigured === 'function'
@@ -245,6 +405,22 @@ class App {
       })
     })
 
+    this.app.use(
+      '/webhooks',
+      this.webhookOrganizationMiddleware.bind(this),
+      createPartsOrderCallbackRouter(new PartsOrderingService(this.dataService), {
+        auditService: this.auditService,
+        dataService: this.dataService,
+      }),
+    )
+    this.app.use(
+      '/expert',
+      this.expertResponseOrganizationMiddleware.bind(this),
+      createExpertResponseRouter(this.expertRoutingService, {
+        auditService: this.auditService,
+        dataService: this.dataService,
+      }),
+    )
     this.app.use('/api/v1', this.httpAuthMiddleware.bind(this))
     this.app.use(
       '/api/v1',
@@ -256,6 +432,14 @@ class App {
         this.ocrService,
         this.workflowAutomationService,
         this.adkAgentService,
+        this.expertRoutingService,
+        this.teamCollaborationService,
+        this.annotationService,
+        this.checklistService,
+        this.auditService,
+        this.retentionService,
+        this.organizations,
+        this.reportRenderers,
       ),
     )
 
@@ -268,9 +452,11 @@ class App {
   private websocket(): void {
     this.wss.on('connection', async (ws: WebSocket, request) => {
       const tokenFromQuery = this.extractTokenFromRequestUrl(request.url)
+      const shareViewerOnly = Boolean(this.extractTokenFromRequestUrl(request.url, 'shareToken'))
+      let authUser: AuthUser | null
       try {
-        const authUser = await this.authService.authenticateToken(tokenFromQuery)
-        if (this.authService.isAuthRequired() && !authUser) {
+        authUser = await this.authService.authenticateToken(tokenFromQuery)
+        if (this.authService.isAuthRequired() && !authUser && !shareViewerOnly) {
           ws.close(4401, 'Unauthorized')
           return
         }
@@ -279,28 +465,56 @@ class App {
         return
       }
 
+      // Share viewers have no account; their invite link names the organization instead
+      const organizationId =
+        (shareViewerOnly ? this.extractTokenFromRequestUrl(request.url, 'organizationId') : undefined) ??
+        authUser?.organizationId ??
+        DEFAULT_ORGANIZATION_ID
+      if (!(await this.isKnownOrganization(organizationId))) {
+        ws.close(4403, 'Unknown organization')
+        return
+      }
+
       const clientId = uuidv4()
-      const client: WebSocketClient = { id: clientId, ws }
+      const client: WebSocketClient = {
+        id: clientId,
+        ws,
+        authUser,
+        organizationId,
+        ipAddress: request.socket.remoteAddress ?? null,
+        shareViewerOnly,
+      }
       this.clients.set(clientId, client)
 
-      void this.geminiLiveService
-        .startLiveSession(clientId, (event) => {
-          this.forwardLiveEventToClient(clientId, event)
-        })
-        .then((enabled) => {
-          this.liveSessionEnabled.set(clientId, enabled)
-          this.logWithContext(clientId, 'session.init', {
-            liveEnabled: enabled,
-          })
-          if (!enabled) {
-            logger.warn(`Live API disabled for ${clientId}; using direct fallback mode`)
+      if (shareViewerOnly) {
+        setTimeout(() => {
+          if (!client.shareSession && ws.readyState === WebSocket.OPEN) {
+            ws.close(4403, 'Share session join timed out')
           }
-        })
+        }, this.SHARE_JOIN_TIMEOUT_MS).unref()
+      }
+
+      // Share viewers only watch the technician's stream, so they never need a live model session.
+      if (!shareViewerOnly) {
+        void this.geminiLiveService
+          .startLiveSession(clientId, (event) => {
+            runInOrganization(organizationId, () => this.forwardLiveEventToClient(clientId, event))
+          })
+          .then((enabled) => {
+            this.liveSessionEnabled.set(clientId, enabled)
+            this.logWithContext(clientId, 'session.init', {
+              liveEnabled: enabled,
+            })
+            if (!enabled) {
+              logger.warn(`Live API disabled for ${clientId}; using direct fallback mode`)
+            }
+          })
+      }
 
       logger.info(`WebSocket client connected: ${clientId}`)
 
       ws.on('message', (data: Buffer) => {
-        this.handleMessage(clientId, data)
+        runInOrganization(organizationId, () => this.handleMessage(clientId, data))
       })
 
       ws.on('close', () => {
@@ -351,10 +565,25 @@ class App {
         type: message.type,
       })
 
+      if (
+        (client.shareViewerOnly || client.shareSession) &&
+        message.type !== 'join_session' &&
+        message.type !== 'annotation'
+      ) {
+        this.sendToClient(clientId, {
+          type: 'error',
+          message: 'Share session viewers can only view and annotate.',
+        })
+        return
+      }
+
       switch (message.type) {
         case 'join_session':
-          client.sessionId = message.sessionId
-          logger.info(`Client ${clientId} joined session ${message.sessionId}`)
+          if (message.accessToken || client.shareViewerOnly) {
+            void this.processShareSessionJoin(client, message.sessionId, message.accessToken)
+            break
+          }
+          void this.processSessionJoin(client, message.sessionId)
           break
 
         case 'video_frame':
@@ -375,12 +604,11 @@ class App {
           break
 
         case 'inspection_context':
-          this.inspectionContextByClient.set(clientId, message.inspectionId)
-          this.pendingVoiceConfirmations.delete(clientId)
-          this.sendToClient(clientId, {
-            type: 'gemini_response',
-            text: `Inspection context set to ${message.inspectionId}`,
-          })
+          void this.processInspectionContext(client, message.inspectionId, message.language)
+          break
+
+        case 'annotation':
+          void this.processAnnotation(client, message.annotation)
           break
       }
     } catch (error) {
@@ -388,23 +616,191 @@ class App {
     }
   }
 
+  private requestIdMiddleware(req: Request, res: Response, next: NextFunction): void {
+    const supplied = req.header('x-request-id')
+    req.requestId = supplied && this.REQUEST_ID_PATTERN.test(supplied) ? supplied : uuidv4()
+    res.setHeader('X-Request-Id', req.requestId)
+    next()
+  }
+
+  /** Socket side effects use one request id per connection, so a session's changes group together. */
+  private auditSocketChange(
+    clientId: string,
+    event: Pick<AuditEvent, 'action' | 'entityType' | 'entityId' | 'changes'>,
+  ): void {
+    const client = this.clients.get(clientId)
+    this.auditService.track({
+      ...event,
+      actor: client?.authUser,
+      ipAddress: client?.ipAddress ?? null,
+      requestId: `ws:${clientId}`,
+      source: 'websocket',
+    })
+  }
+
   private async httpAuthMiddleware(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const authHeader = req.headers.authorization
       const authUser = await this.authService.authenticateBearerHeader(authHeader)
       req.authUser = authUser
-      next()
     } catch {
       res.status(401).json({ error: 'Unauthorized' })
+      return
+    }
+
+    const organizationId = req.authUser?.organizationId ?? DEFAULT_ORGANIZATION_ID
+    if (!(await this.isKnownOrganization(organizationId))) {
+      res.status(403).json({ error: 'Unknown organization', code: 'unknown_organization' })
+      return
+    }
+    runInOrganization(organizationId, next)
+  }
+
+  /**
+   * Supplier callbacks carry no user token; they echo the X-Organization-Id header sent with the order.
+   * The callback route then checks X-Callback-Token against that organization's own token.
+   */
+  private async webhookOrganizationMiddleware(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const organizationId = req.header('x-organization-id')?.trim() || DEFAULT_ORGANIZATION_ID
+    if (!(await this.isKnownOrganization(organizationId))) {
+      res.status(404).json({ error: 'Unknown organization' })
+      return
+    }
+    runInOrganization(organizationId, next)
+  }
+
+  /** Expert response tokens name the organization they were issued in; the router then verifies them there. */
+  private async expertResponseOrganizationMiddleware(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const organizationId = escalationResponseTokenOrganization(req.header('x-escalation-token'))
+    if (!organizationId || !(await this.isKnownOrganization(organizationId))) {
+      res.status(401).json({ error: 'Escalation response token is invalid or no longer assigned' })
+      return
+    }
+    runInOrganization(organizationId, next)
+  }
+
+  /** Share session ids are only joined with their access token, so a plain join may not take one. */
+  private async processSessionJoin(client: WebSocketClient, sessionId: string): Promise<void> {
+    try {
+      if (await this.teamCollaborationService.getSession(sessionId)) {
+        this.sendToClient(client.id, {
+          type: 'error',
+          message: 'Share sessions can only be joined with their access token',
+          code: 'share_session_denied',
+        })
+        return
+      }
+      client.sessionId = sessionId
+      logger.info(`Client ${client.id} joined session ${sessionId}`)
+    } catch {
+      this.sendToClient(client.id, { type: 'error', message: 'Failed to join session' })
     }
   }
 
-  private extractTokenFromRequestUrl(rawUrl?: string): string | undefined {
+  private async processShareSessionJoin(
+    client: WebSocketClient,
+    sessionId: string,
+    accessToken: string | undefined,
+  ): Promise<void> {
+    try {
+      const session = await this.teamCollaborationService.joinSession(sessionId, accessToken)
+      const inspection = await this.dataService.getInspectionById(session.inspectionId)
+      client.sessionId = session.id
+      client.shareSession = { id: session.id, inspectionId: session.inspectionId, expertEmail: session.expertEmail }
+      logger.info(`Client ${client.id} joined share session ${session.id}`)
+      this.auditSocketChange(client.id, {
+        action: 'ws.share_session.join',
+        entityType: 'share_session',
+        entityId: session.id,
+      })
+
+      this.sendToClient(client.id, {
+        type: 'share_session_joined',
+        session: this.teamCollaborationService.toPublicSession(session),
+        inspection: inspection
+          ? {
+              id: inspection.id,
+              status: inspection.status,
+              transcript: inspection.transcript,
+              safetyFlags: inspection.safetyFlags,
+              detectedFaults: inspection.detectedFaults,
+            }
+          : null,
+        annotations: await this.annotationService.listAnnotations(session.inspectionId),
+      })
+    } catch (error) {
+      const message =
+        error instanceof ShareSessionAccessError ? error.message : 'Failed to join share session'
+      this.sendToClient(client.id, { type: 'error', message, code: 'share_session_denied' })
+      if (client.shareViewerOnly) {
+        client.ws.close(4403, message)
+      }
+    }
+  }
+
+  private async processAnnotation(
+    client: WebSocketClient,
+    annotation: Extract<IncomingMessage, { type: 'annotation' }>['annotation'],
+  ): Promise<void> {
+    const inspectionId = client.shareSession?.inspectionId ?? this.inspectionContextByClient.get(client.id)
+    if (!inspectionId) {
+      this.sendToClient(client.id, {
+        type: 'error',
+        message: 'Set an inspection context before annotating.',
+      })
+      return
+    }
+
+    try {
+      const saved = await this.annotationService.addAnnotation(inspectionId, {
+        ...annotation,
+        authorRole: client.shareSession ? 'expert' : 'technician',
+        authorId: client.shareSession?.expertEmail ?? client.authUser?.technicianId,
+      })
+      this.auditSocketChange(client.id, {
+        action: 'ws.annotation.add',
+        entityType: 'annotation',
+        entityId: saved.id,
+        changes: diffRecords(null, saved),
+      })
+    } catch (error) {
+      if (!(error instanceof AnnotationValidationError)) {
+        logger.error(`Annotation failed for ${client.id}:`, error)
+      }
+      this.sendToClient(client.id, {
+        type: 'error',
+        message: error instanceof AnnotationValidationError ? error.message : 'Could not save annotation.',
+      })
+    }
+  }
+
+  private relayToShareViewers(technicianClientId: string, data: unknown): void {
+    const inspectionId = this.inspectionContextByClient.get(technicianClientId)
+    if (inspectionId) {
+      this.broadcastToShareViewers(inspectionId, data)
+    }
+  }
+
+  /** Only sockets that joined a share session with its access token receive the relayed stream. */
+  private broadcastToShareViewers(inspectionId: string, data: unknown): void {
+    const message = JSON.stringify(data)
+    this.clients.forEach((client) => {
+      if (
+        client.shareSession?.inspectionId === inspectionId &&
+        this.inScopedOrganization(client) &&
+        client.ws.readyState === WebSocket.OPEN
+      ) {
+        client.ws.send(message)
+      }
+    })
+  }
+
+  private extractTokenFromRequestUrl(rawUrl?: string, param: string = 'token'): string | undefined {
     if (!rawUrl) {
       return undefined
     }
     const parsed = new URL(rawUrl, 'http://localhost')
-    const token = parsed.searchParams.get('token')
+    const token = parsed.searchParams.get(param)
     return token || undefined
   }
 
@@ -416,6 +812,11 @@ class App {
     logger.debug(`Processing video frame for client ${client.id}`)
     try {
       const response = await this.geminiLiveService.analyzeVideoFrame(message)
+      this.relayToShareViewers(client.id, {
+        type: 'video_frame',
+        frame: message.frame,
+        timestamp: message.timestamp,
+      })
       this.sendToClient(client.id, response)
       void this.persistGeminiResponse(client.id, response)
     } catch (error) {
@@ -507,6 +908,50 @@ class App {
     }
   }
 
+  private async processInspectionContext(
+    client: WebSocketClient,
+    inspectionId: string,
+    language?: string,
+  ): Promise<void> {
+    try {
+      const inspection = await this.dataService.getInspectionById(inspectionId)
+      if (!inspection) {
+        this.sendToClient(client.id, {
+          type: 'error',
+          message: `Inspection ${inspectionId} not found.`,
+        })
+        return
+      }
+
+      const actor = await this.authorizationService.resolveActor(client.authUser)
+      this.authorizationService.assertCanModifyInspection(actor, inspection)
+    } catch (error) {
+      if (error instanceof AuthorizationError) {
+        this.logWithContext(client.id, 'ws.forbidden', { code: error.code, inspectionId })
+        this.sendToClient(client.id, {
+          type: 'error',
+          message: error.message,
+          code: error.code,
+        })
+        return
+      }
+      logger.error(`Inspection context update failed for ${client.id}:`, error)
+      this.sendToClient(client.id, {
+        type: 'error',
+        message: 'Could not set inspection context.',
+      })
+      return
+    }
+
+    this.inspectionContextByClient.set(client.id, inspectionId)
+    client.language = language
+    this.pendingVoiceConfirmations.delete(client.id)
+    this.sendToClient(client.id, {
+      type: 'gemini_response',
+      text: `Inspection context set to ${inspectionId}`,
+    })
+  }
+
   private async processInterrupt(client: WebSocketClient): Promise<void> {
     const response = await this.geminiLiveService.handleInterrupt()
     this.sendToClient(client.id, response)
@@ -527,7 +972,7 @@ class App {
         type: 'gemini_response',
         text: event.text,
       })
-      void this.persistTranscriptEntry(clientId, 'agent', event.text)
+      void this.persistTranscriptEntry(clientId, 'agent', event.text, 'live')
       return
     }
 
@@ -550,8 +995,9 @@ class App {
         speaker: 'user',
         text: event.text,
       })
-      void this.persistTranscriptEntry(clientId, 'user', event.text)
+      void this.persistTranscriptEntry(clientId, 'user', event.text, 'live')
       void this.triggerWorkflowFromTranscript(clientId, event.text)
+      void this.applyChecklistFromTranscript(clientId, event.text)
     }
   }
 
@@ -562,16 +1008,22 @@ class App {
     }
 
     try {
-      if (typeof response.text === 'string' && response.text.trim().length > 0) {
-        await this.dataService.appendInspectionTranscript(inspectionId, `agent: ${response.text.trim()}`)
+      if (typeof response.text === 'string') {
+        await this.persistTranscriptEntry(clientId, 'agent', response.text, 'fallback')
       }
 
       if (Array.isArray(response.safetyFlags) && response.safetyFlags.length > 0) {
         await this.dataService.appendInspectionSafetyFlags(inspectionId, response.safetyFlags)
+        this.auditInspectionAppend(clientId, inspectionId, 'ws.safety_flags.append', 'safetyFlags', response.safetyFlags)
       }
 
       if (Array.isArray(response.detectedFaults) && response.detectedFaults.length > 0) {
-        await this.dataService.appendInspectionDetectedFaults(inspectionId, response.detectedFaults)
+        const faults = await this.assetLinkingService.recordDetectedFaults(inspectionId, response.detectedFaults)
+        this.auditInspectionAppend(clientId, inspectionId, 'ws.detected_faults.append', 'detectedFaults', faults)
+        const items = await this.checklistService.applyDetectedFaults(inspectionId, response.detectedFaults)
+        if (items.length > 0) {
+          this.auditInspectionAppend(clientId, inspectionId, 'ws.checklist.apply', 'checklist.items', items)
+        }
       }
     } catch (error) {
       this.logPersistenceError(clientId, inspectionId, error)
@@ -580,8 +1032,9 @@ class App {
 
   private async persistTranscriptEntry(
     clientId: string,
-    speaker: 'user' | 'agent',
+    speaker: TranscriptSpeaker,
     text: string,
+    source: TranscriptSource,
   ): Promise<void> {
     const inspectionId = this.inspectionContextByClient.get(clientId)
     if (!inspectionId) {
@@ -593,12 +1046,50 @@ class App {
       if (!trimmed) {
         return
       }
-      await this.dataService.appendInspectionTranscript(inspectionId, `${speaker}: ${trimmed}`)
+      const entry = await this.dataService.appendInspectionTranscript(inspectionId, {
+        speaker,
+        text: trimmed,
+        source,
+        language: this.clients.get(clientId)?.language,
+      })
+      this.auditInspectionAppend(clientId, inspectionId, 'ws.transcript.append', 'transcriptEntries', entry)
     } catch (error) {
       this.logPersistenceError(clientId, inspectionId, error)
     }
   }
 
+  private async applyChecklistFromTranscript(clientId: string, text: string): Promise<void> {
+    const inspectionId = this.inspectionContextByClient.get(clientId)
+    if (!inspectionId) {
+      return
+    }
+
+    try {
+      const items = await this.checklistService.applyTranscript(inspectionId, text)
+      if (items.length > 0) {
+        this.auditInspectionAppend(clientId, inspectionId, 'ws.checklist.apply', 'checklist.items', items)
+      }
+    } catch (error) {
+      this.logPersistenceError(clientId, inspectionId, error)
+    }
+  }
+
+  /** Appends only add to an inspection, so the entry records what was added rather than the whole field. */
+  private auditInspectionAppend(
+    clientId: string,
+    inspectionId: string,
+    action: string,
+    field: string,
+    added: unknown,
+  ): void {
+    this.auditSocketChange(clientId, {
+      action,
+      entityType: 'inspection',
+      entityId: inspectionId,
+      changes: [{ field, after: added }],
+    })
+  }
+
   private logPersistenceError(clientId: string, inspectionId: string, error: unknown): void {
     logger.warn('Failed to persist inspection update', {
       clientId,
@@ -609,22 +1100,31 @@ class App {
 
   private async triggerWorkflowFromTranscript(clientId: string, transcript: string): Promise<void> {
     try {
+      const client = this.clients.get(clientId)
       const inspectionId = this.inspectionContextByClient.get(clientId)
-      if (!inspectionId) {
+      if (!client || !inspectionId) {
         return
       }
 
       const pending = this.pendingVoiceConfirmations.get(clientId)
+      const actor = await this.authorizationService.resolveActor(client.authUser)
 
       const result = await this.adkAgentService.processVoiceTranscript(
         transcript,
         inspectionId,
+        actor,
         pending?.action,
       )
 
       if (!result.result) {
         return
       }
+      this.auditSocketChange(clientId, {
+        action: 'ws.agent.voice_command',
+        entityType: 'inspection',
+        entityId: inspectionId,
+        changes: [{ field: 'agentResult', after: { action: result.action, confirmed: result.confirmed, ...result.result } }],
+      })
 
       if (result.requiresConfirmation && result.action) {
         if (result.confirmed === true) {
@@ -703,7 +1203,7 @@ class App {
       },
     })
 
-    await this.dataService.appendInspectionWorkflowEvent(inspectionId, {
+    const event = await this.dataService.appendInspectionWorkflowEvent(inspectionId, {
       action,
       note: transcript,
       metadata: {
@@ -714,6 +1214,12 @@ class App {
       resultMessage: result.resultMessage,
       externalReferenceId: result.externalReferenceId,
     })
+    this.auditSocketChange(clientId, {
+      action: 'ws.workflow_action.run',
+      entityType: 'workflow_event',
+      entityId: event.id,
+      changes: diffRecords(null, { ...event, inspectionId }),
+    })
 
     this.sendToClient(clientId, {
       type: 'gemini_response',
@@ -730,6 +1236,9 @@ class App {
           : 'unknown'
       this.logWithContext(clientId, 'ws.outgoing', { type: payloadType })
       client.ws.send(JSON.stringify(data))
+      if (!client.shareSession && this.SHARE_RELAYED_TYPES.has(String(payloadType))) {
+        this.relayToShareViewers(clientId, data)
+      }
     }
   }
 
@@ -743,16 +1252,34 @@ class App {
     })
   }
 
+  public broadcastToInspection(inspectionId: string, data: unknown): void {
+    this.inspectionContextByClient.forEach((contextInspectionId, clientId) => {
+      const client = this.clients.get(clientId)
+      if (contextInspectionId === inspectionId && client && this.inScopedOrganization(client)) {
+        this.sendToClient(clientId, data)
+      }
+    })
+  }
+
   public broadcastToSession(sessionId: string, data: unknown): void {
     const message = JSON.stringify(data)
     this.clients.forEach((client) => {
-      if (client.sessionId === sessionId && client.ws.readyState === WebSocket.OPEN) {
+      if (
+        client.sessionId === sessionId &&
+        this.inScopedOrganization(client) &&
+        client.ws.readyState === WebSocket.OPEN
+      ) {
         client.ws.send(message)
       }
     })
   }
+
+  /** Ids are only unique within an organization, so broadcasts stay inside the one in scope. */
+  private inScopedOrganization(client: WebSocketClient): boolean {
+    return client.organizationId === (currentOrganizationId() ?? DEFAULT_ORGANIZATION_ID)
+  }
 }
 
 const app = new App()
-app.start()
+void app.start()
 export default app
@@ -0,0 +1,208 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/**
+ * The schema as it stood before versioned migrations. Every statement is
+ * idempotent so databases created by the old startup bootstrap adopt it as-is.
+ */
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up: `
+    CREATE TABLE IF NOT EXISTS technicians (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      email TEXT NOT NULL,
+      role TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS sites (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL,
+      location JSONB NOT NULL,
+      technician_ids TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS inspections (
+      id TEXT PRIMARY KEY,
+      technician_id TEXT NOT NULL,
+      site_id TEXT NOT NULL,
+      timestamp TIMESTAMPTZ NOT NULL,
+      status TEXT NOT NULL,
+      images TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+      safety_flags JSONB NOT NULL DEFAULT '[]'::jsonb,
+      detected_faults JSONB NOT NULL DEFAULT '[]'::jsonb,
+      recommended_actions TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+      ocr_findings JSONB NOT NULL DEFAULT '[]'::jsonb,
+      workflow_events JSONB NOT NULL DEFAULT '[]'::jsonb,
+      transcript TEXT NOT NULL DEFAULT '',
+      summary TEXT
+    );
+    ALTER TABLE inspections ADD COLUMN IF NOT EXISTS anomaly_findings JSONB NOT NULL DEFAULT '[]'::jsonb;
+    ALTER TABLE inspections ADD COLUMN IF NOT EXISTS asset_ids TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+    CREATE INDEX IF NOT EXISTS idx_inspections_asset_ids ON inspections USING GIN (asset_ids);
+    ALTER TABLE inspections ADD COLUMN IF NOT EXISTS checklist JSONB;
+    ALTER TABLE inspections ADD COLUMN IF NOT EXISTS checklist_override_reason TEXT;
+    ALTER TABLE inspections ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', COALESCE(summary, '')), 'A') ||
+      setweight(to_tsvector('english', jsonb_path_query_array(detected_faults, '$[*].description')::text), 'B') ||
+      to_tsvector('english', jsonb_path_query_array(ocr_findings, '$[*].extractedText')::text) ||
+      to_tsvector('english', transcript)
+    ) STORED;
+    CREATE INDEX IF NOT EXISTS idx_inspections_search ON inspections USING GIN (search_vector);
+    CREATE INDEX IF NOT EXISTS idx_inspections_timestamp ON inspections (timestamp DESC, id DESC);
+
+    CREATE TABLE IF NOT EXISTS inspection_reports (
+      inspection_id TEXT PRIMARY KEY,
+      generated_at TIMESTAMPTZ NOT NULL,
+      technician_id TEXT NOT NULL,
+      site_id TEXT NOT NULL,
+      status TEXT NOT NULL,
+      findings TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+      safety_summary TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+      workflow_summary TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+      recommended_actions TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+      image_count INTEGER NOT NULL DEFAULT 0,
+      summary_text TEXT NOT NULL DEFAULT ''
+    );
+    ALTER TABLE inspection_reports ADD COLUMN IF NOT EXISTS total_tracked_minutes INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE inspection_reports ADD COLUMN IF NOT EXISTS time_summary TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+    ALTER TABLE inspection_reports ADD COLUMN IF NOT EXISTS open_part_orders TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+    ALTER TABLE inspection_reports ADD COLUMN IF NOT EXISTS annotation_summary TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+    CREATE TABLE IF NOT EXISTS site_assets (
+      id TEXT PRIMARY KEY,
+      site_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      asset_type TEXT NOT NULL,
+      serial_number TEXT,
+      location TEXT,
+      notes TEXT,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_site_assets_site_id ON site_assets(site_id);
+    ALTER TABLE site_assets ADD COLUMN IF NOT EXISTS risk_assessment JSONB;
+
+    CREATE TABLE IF NOT EXISTS time_entries (
+      id TEXT PRIMARY KEY,
+      inspection_id TEXT NOT NULL,
+      task_name TEXT NOT NULL,
+      notes TEXT,
+      status TEXT NOT NULL,
+      started_at TIMESTAMPTZ NOT NULL,
+      resumed_at TIMESTAMPTZ,
+      ended_at TIMESTAMPTZ,
+      duration_seconds INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_time_entries_inspection_id ON time_entries(inspection_id);
+
+    CREATE TABLE IF NOT EXISTS part_orders (
+      id TEXT PRIMARY KEY,
+      inspection_id TEXT NOT NULL,
+      part_number TEXT NOT NULL,
+      quantity INTEGER NOT NULL,
+      urgency TEXT NOT NULL,
+      status TEXT NOT NULL,
+      supplier_provider TEXT NOT NULL DEFAULT 'generic',
+      notes TEXT,
+      status_note TEXT,
+      external_reference_id TEXT,
+      estimated_delivery TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_part_orders_inspection_id ON part_orders(inspection_id);
+    CREATE INDEX IF NOT EXISTS idx_part_orders_status ON part_orders(status);
+
+    CREATE TABLE IF NOT EXISTS expert_contacts (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      email TEXT,
+      role TEXT NOT NULL,
+      specialty TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+      availability TEXT NOT NULL,
+      contact_method TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS expert_escalations (
+      id TEXT PRIMARY KEY,
+      inspection_id TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      priority TEXT NOT NULL,
+      required_expertise TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+      status TEXT NOT NULL,
+      context JSONB NOT NULL DEFAULT '{}'::jsonb,
+      assigned_expert_id TEXT,
+      contacted_expert_ids TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+      acknowledge_by TIMESTAMPTZ,
+      acknowledged_at TIMESTAMPTZ,
+      resolved_at TIMESTAMPTZ,
+      resolution_note TEXT,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_expert_escalations_inspection_id ON expert_escalations(inspection_id);
+    CREATE INDEX IF NOT EXISTS idx_expert_escalations_status ON expert_escalations(status);
+
+    CREATE TABLE IF NOT EXISTS share_sessions (
+      id TEXT PRIMARY KEY,
+      inspection_id TEXT NOT NULL,
+      host_technician_id TEXT NOT NULL,
+      expert_email TEXT NOT NULL,
+      status TEXT NOT NULL,
+      access_token TEXT NOT NULL,
+      reason TEXT,
+      created_at TIMESTAMPTZ NOT NULL,
+      expires_at TIMESTAMPTZ NOT NULL,
+      ended_at TIMESTAMPTZ
+    );
+    CREATE INDEX IF NOT EXISTS idx_share_sessions_inspection_id ON share_sessions(inspection_id);
+    CREATE INDEX IF NOT EXISTS idx_share_sessions_status ON share_sessions(status);
+
+    CREATE TABLE IF NOT EXISTS inspection_annotations (
+      id TEXT PRIMARY KEY,
+      inspection_id TEXT NOT NULL,
+      snapshot_url TEXT,
+      author_role TEXT NOT NULL,
+      author_id TEXT,
+      tool TEXT NOT NULL,
+      color TEXT NOT NULL,
+      points JSONB NOT NULL DEFAULT '[]'::jsonb,
+      text TEXT,
+      created_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_inspection_annotations_inspection_id ON inspection_annotations(inspection_id);
+
+    CREATE TABLE IF NOT EXISTS checklist_templates (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      site_type TEXT NOT NULL,
+      items JSONB NOT NULL DEFAULT '[]'::jsonb,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_checklist_templates_site_type ON checklist_templates(site_type);
+  `,
+  down: `
+    DROP TABLE IF EXISTS checklist_templates;
+    DROP TABLE IF EXISTS inspection_annotations;
+    DROP TABLE IF EXISTS share_sessions;
+    DROP TABLE IF EXISTS expert_escalations;
+    DROP TABLE IF EXISTS expert_contacts;
+    DROP TABLE IF EXISTS part_orders;
+    DROP TABLE IF EXISTS time_entries;
+    DROP TABLE IF EXISTS site_assets;
+    DROP TABLE IF EXISTS inspection_reports;
+    DROP TABLE IF EXISTS inspections;
+    DROP TABLE IF EXISTS sites;
+    DROP TABLE IF EXISTS technicians;
+  `,
+}
@@ -0,0 +1,15 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/** Deactivated technicians and sites keep their rows so past inspections still resolve them. */
+export const softDeleteDirectory: Migration = {
+  version: 2,
+  name: 'soft_delete_directory',
+  up: `
+    ALTER TABLE technicians ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+    ALTER TABLE sites ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+  `,
+  down: `
+    ALTER TABLE sites DROP COLUMN IF EXISTS deleted_at;
+    ALTER TABLE technicians DROP COLUMN IF EXISTS deleted_at;
+  `,
+}
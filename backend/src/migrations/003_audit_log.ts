@@ -0,0 +1,48 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/** Hash-chained audit trail. Triggers refuse updates, deletes and truncation so the table stays append-only. */
+export const auditLog: Migration = {
+  version: 3,
+  name: 'audit_log',
+  up: `
+    CREATE TABLE IF NOT EXISTS audit_log (
+      sequence BIGINT PRIMARY KEY,
+      id TEXT NOT NULL UNIQUE,
+      occurred_at TIMESTAMPTZ NOT NULL,
+      actor JSONB,
+      action TEXT NOT NULL,
+      entity_type TEXT NOT NULL,
+      entity_id TEXT,
+      changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+      ip_address TEXT,
+      request_id TEXT,
+      source TEXT NOT NULL,
+      previous_hash TEXT NOT NULL,
+      hash TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log (entity_type, entity_id, sequence);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log ((actor->>'uid'), sequence);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log (occurred_at);
+
+    CREATE OR REPLACE FUNCTION audit_log_reject_change() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'audit_log is append-only';
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+    CREATE TRIGGER audit_log_append_only
+      BEFORE UPDATE OR DELETE ON audit_log
+      FOR EACH ROW EXECUTE FUNCTION audit_log_reject_change();
+
+    DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+    CREATE TRIGGER audit_log_no_truncate
+      BEFORE TRUNCATE ON audit_log
+      FOR EACH STATEMENT EXECUTE FUNCTION audit_log_reject_change();
+  `,
+  down: `
+    DROP TABLE IF EXISTS audit_log;
+    DROP FUNCTION IF EXISTS audit_log_reject_change();
+  `,
+}
@@ -0,0 +1,68 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/**
+ * Transcript lines become rows. Existing transcripts are split the way
+ * `parseLegacyTranscript` does it: a `user: ` or `agent: ` line starts an
+ * entry and other lines continue it. `inspections.transcript` stays as the
+ * search text.
+ */
+export const transcriptEntries: Migration = {
+  version: 4,
+  name: 'transcript_entries',
+  up: `
+    CREATE TABLE IF NOT EXISTS transcript_entries (
+      id TEXT PRIMARY KEY,
+      inspection_id TEXT NOT NULL,
+      sequence INTEGER NOT NULL,
+      speaker TEXT NOT NULL,
+      text TEXT NOT NULL,
+      timestamp TIMESTAMPTZ NOT NULL,
+      language TEXT,
+      source TEXT NOT NULL,
+      UNIQUE (inspection_id, sequence)
+    );
+    ALTER TABLE inspections ADD COLUMN IF NOT EXISTS transcript_entry_count INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE inspection_reports ADD COLUMN IF NOT EXISTS transcript_excerpt TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+    WITH lines AS (
+      SELECT i.id AS inspection_id, i.timestamp, line.text, line.n
+      FROM inspections i
+      CROSS JOIN LATERAL regexp_split_to_table(i.transcript, E'\\n') WITH ORDINALITY AS line(text, n)
+      WHERE btrim(i.transcript) <> ''
+    ),
+    numbered AS (
+      SELECT *,
+        SUM(CASE WHEN n = 1 OR text ~ '^(user|agent): ' THEN 1 ELSE 0 END)
+          OVER (PARTITION BY inspection_id ORDER BY n) AS sequence
+      FROM lines
+    ),
+    grouped AS (
+      SELECT inspection_id, sequence, MIN(timestamp) AS timestamp,
+        string_agg(text, E'\\n' ORDER BY n) AS body
+      FROM numbered
+      GROUP BY inspection_id, sequence
+    )
+    INSERT INTO transcript_entries (id, inspection_id, sequence, speaker, text, timestamp, language, source)
+    SELECT
+      md5(inspection_id || ':' || sequence)::uuid::text,
+      inspection_id,
+      sequence,
+      COALESCE(substring(body FROM '^(user|agent): '), 'system'),
+      regexp_replace(body, '^(user|agent): ', ''),
+      timestamp,
+      NULL,
+      'legacy'
+    FROM grouped
+    ON CONFLICT DO NOTHING;
+
+    UPDATE inspections i
+    SET transcript_entry_count = counts.total
+    FROM (SELECT inspection_id, MAX(sequence) AS total FROM transcript_entries GROUP BY inspection_id) counts
+    WHERE counts.inspection_id = i.id;
+  `,
+  down: `
+    ALTER TABLE inspection_reports DROP COLUMN IF EXISTS transcript_excerpt;
+    ALTER TABLE inspections DROP COLUMN IF EXISTS transcript_entry_count;
+    DROP TABLE IF EXISTS transcript_entries;
+  `,
+}
@@ -0,0 +1,13 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/** Write counter behind inspection ETags; existing rows start at version 1. */
+export const inspectionVersion: Migration = {
+  version: 5,
+  name: 'inspection_version',
+  up: `
+    ALTER TABLE inspections ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+  `,
+  down: `
+    ALTER TABLE inspections DROP COLUMN IF EXISTS version;
+  `,
+}
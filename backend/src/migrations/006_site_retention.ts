@@ -0,0 +1,13 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/** Per-site retention overrides; null means the deployment defaults apply. */
+export const siteRetention: Migration = {
+  version: 6,
+  name: 'site_retention',
+  up: `
+    ALTER TABLE sites ADD COLUMN IF NOT EXISTS retention JSONB;
+  `,
+  down: `
+    ALTER TABLE sites DROP COLUMN IF EXISTS retention;
+  `,
+}
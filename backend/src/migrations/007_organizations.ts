@@ -0,0 +1,22 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/**
+ * The organization directory. Only the default schema's table is read;
+ * organization schemas run the same migrations, so each gets an unused copy.
+ */
+export const organizations: Migration = {
+  version: 7,
+  name: 'organizations',
+  up: `
+    CREATE TABLE IF NOT EXISTS organizations (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS organizations;
+  `,
+}
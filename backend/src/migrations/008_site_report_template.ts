@@ -0,0 +1,13 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/** Per-site report branding; null means the organization's template applies. */
+export const siteReportTemplate: Migration = {
+  version: 8,
+  name: 'site_report_template',
+  up: `
+    ALTER TABLE sites ADD COLUMN IF NOT EXISTS report_template JSONB;
+  `,
+  down: `
+    ALTER TABLE sites DROP COLUMN IF EXISTS report_template;
+  `,
+}
@@ -0,0 +1,26 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/**
+ * Reports become a version history: each generation adds a row instead of
+ * replacing the inspection's one report. Existing reports are version 1;
+ * their content hash is filled in when they are read.
+ */
+export const reportVersions: Migration = {
+  version: 9,
+  name: 'report_versions',
+  up: `
+    ALTER TABLE inspection_reports ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+    ALTER TABLE inspection_reports ADD COLUMN IF NOT EXISTS content_hash TEXT;
+    ALTER TABLE inspection_reports DROP CONSTRAINT IF EXISTS inspection_reports_pkey;
+    ALTER TABLE inspection_reports ADD PRIMARY KEY (inspection_id, version);
+  `,
+  down: `
+    DELETE FROM inspection_reports r
+    USING inspection_reports newer
+    WHERE newer.inspection_id = r.inspection_id AND newer.version > r.version;
+    ALTER TABLE inspection_reports DROP CONSTRAINT IF EXISTS inspection_reports_pkey;
+    ALTER TABLE inspection_reports DROP COLUMN IF EXISTS content_hash;
+    ALTER TABLE inspection_reports DROP COLUMN IF EXISTS version;
+    ALTER TABLE inspection_reports ADD PRIMARY KEY (inspection_id);
+  `,
+}
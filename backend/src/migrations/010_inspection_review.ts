@@ -0,0 +1,14 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/** Supervisor review of an inspection: comments, decision and approval signature. */
+export const inspectionReview: Migration = {
+  version: 10,
+  name: 'inspection_review',
+  up: `
+    ALTER TABLE inspections ADD COLUMN IF NOT EXISTS review JSONB;
+  `,
+  down: `
+    UPDATE inspections SET status = 'completed' WHERE status IN ('pending_review', 'changes_requested', 'approved');
+    ALTER TABLE inspections DROP COLUMN IF EXISTS review;
+  `,
+}
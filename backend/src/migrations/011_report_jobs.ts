@@ -0,0 +1,29 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/** Report generation jobs, which double as the queue the report worker claims from. */
+export const reportJobs: Migration = {
+  version: 11,
+  name: 'report_jobs',
+  up: `
+    CREATE TABLE IF NOT EXISTS report_jobs (
+      id TEXT PRIMARY KEY,
+      inspection_id TEXT NOT NULL,
+      status TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL,
+      next_attempt_at TIMESTAMPTZ,
+      lease_expires_at TIMESTAMPTZ,
+      report_generated_at TIMESTAMPTZ,
+      error TEXT,
+      created_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_report_jobs_inspection ON report_jobs(inspection_id, created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_report_jobs_due ON report_jobs(status, next_attempt_at)
+      WHERE status IN ('queued', 'processing');
+  `,
+  down: `
+    DROP TABLE IF EXISTS report_jobs;
+  `,
+}
@@ -0,0 +1,13 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/** Request authorization resolves the caller's technician record by email on every request. */
+export const technicianEmailLookup: Migration = {
+  version: 12,
+  name: 'technician_email_lookup',
+  up: `
+    CREATE INDEX IF NOT EXISTS idx_technicians_email ON technicians(LOWER(email)) WHERE deleted_at IS NULL;
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_technicians_email;
+  `,
+}
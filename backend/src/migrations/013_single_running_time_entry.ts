@@ -0,0 +1,31 @@
+import type { Migration } from '../services/postgres-migrator'
+
+/**
+ * At most one running time entry per inspection, so two concurrent starts cannot both
+ * succeed. Extra running entries left by earlier races are paused first.
+ */
+export const singleRunningTimeEntry: Migration = {
+  version: 13,
+  name: 'single_running_time_entry',
+  up: `
+    UPDATE time_entries AS entry
+    SET status = 'paused',
+        duration_seconds = entry.duration_seconds
+          + GREATEST(0, FLOOR(EXTRACT(EPOCH FROM NOW() - COALESCE(entry.resumed_at, NOW()))))::INTEGER,
+        resumed_at = NULL,
+        ended_at = NOW(),
+        updated_at = NOW()
+    WHERE entry.status = 'running'
+      AND EXISTS (
+        SELECT 1 FROM time_entries AS newer
+        WHERE newer.inspection_id = entry.inspection_id
+          AND newer.status = 'running'
+          AND (newer.started_at, newer.id) > (entry.started_at, entry.id)
+      );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running ON time_entries(inspection_id)
+      WHERE status = 'running';
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_time_entries_running;
+  `,
+}
@@ -0,0 +1,99 @@
+import 'dotenv/config'
+import { Pool } from 'pg'
+import { DEFAULT_ORGANIZATION_ID } from '../services/organization-context'
+import { createOrganizationPool } from '../services/postgres-data.service'
+import { PostgresMigrator, type MigrationStatus } from '../services/postgres-migrator'
+
+const USAGE = 'Usage: npm run migrate -- <up [version] | down [steps] | status>'
+
+function parsePositiveInt(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer`)
+  }
+  return parsed
+}
+
+function printStatus(status: MigrationStatus): void {
+  console.log(`Schema version ${status.currentVersion} of ${status.latestVersion}`)
+  for (const applied of status.applied) {
+    const flag = status.modified.includes(applied) ? ' (modified since applied)' : ''
+    console.log(`  applied  ${applied.version} ${applied.name} at ${applied.appliedAt.toISOString()}${flag}`)
+  }
+  for (const pending of status.pending) {
+    console.log(`  pending  ${pending.version} ${pending.name}`)
+  }
+  for (const unknown of status.unknown) {
+    console.log(`  unknown  ${unknown.version} ${unknown.name} (newer than this build)`)
+  }
+}
+
+/** Organizations other than the default one; each keeps its tables in a schema of its own. */
+async function listOrganizationIds(pool: Pool): Promise<string[]> {
+  const table = await pool.query(`SELECT to_regclass('organizations') AS name`)
+  if (!table.rows[0]?.name) {
+    return []
+  }
+  const result = await pool.query('SELECT id FROM organizations WHERE id <> $1 ORDER BY id', [DEFAULT_ORGANIZATION_ID])
+  return result.rows.map((row: { id: string }) => row.id)
+}
+
+async function runCommand(migrator: PostgresMigrator, command: string, argument: string | undefined): Promise<void> {
+  switch (command) {
+    case 'up': {
+      const applied = await migrator.up(parsePositiveInt(argument, 'version'))
+      console.log(applied.length > 0 ? `Applied ${applied.map((m) => `${m.version} ${m.name}`).join(', ')}` : 'Schema is up to date')
+      break
+    }
+    case 'down': {
+      const reverted = await migrator.down(parsePositiveInt(argument, 'steps'))
+      console.log(reverted.length > 0 ? `Rolled back ${reverted.map((m) => `${m.version} ${m.name}`).join(', ')}` : 'Nothing to roll back')
+      break
+    }
+    case 'status':
+      printStatus(await migrator.status())
+      break
+    default:
+      throw new Error(USAGE)
+  }
+}
+
+async function main(args: string[]): Promise<void> {
+  const [command, argument] = args
+  if (command !== 'up' && command !== 'down' && command !== 'status') {
+    throw new Error(USAGE)
+  }
+
+  const pool = new Pool({ connectionString: process.env.POSTGRES_URL?.trim() || undefined })
+  try {
+    const organizationIds = await listOrganizationIds(pool)
+    // The default schema holds the organization list, so it goes first on the way up and last on the way down
+    const order =
+      command === 'down'
+        ? [...organizationIds, DEFAULT_ORGANIZATION_ID]
+        : [DEFAULT_ORGANIZATION_ID, ...organizationIds]
+    for (const organizationId of order) {
+      if (organizationIds.length > 0) {
+        console.log(`Organization ${organizationId}`)
+      }
+      const organizationPool = organizationId === DEFAULT_ORGANIZATION_ID ? pool : createOrganizationPool(organizationId)
+      try {
+        await runCommand(new PostgresMigrator(organizationPool), command, argument)
+      } finally {
+        if (organizationPool !== pool) {
+          await organizationPool.end()
+        }
+      }
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
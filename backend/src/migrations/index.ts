@@ -0,0 +1,31 @@
+import type { Migration } from '../services/postgres-migrator'
+import { initialSchema } from './001_initial_schema'
+import { softDeleteDirectory } from './002_soft_delete_directory'
+import { auditLog } from './003_audit_log'
+import { transcriptEntries } from './004_transcript_entries'
+import { inspectionVersion } from './005_inspection_version'
+import { siteRetention } from './006_site_retention'
+import { organizations } from './007_organizations'
+import { siteReportTemplate } from './008_site_report_template'
+import { reportVersions } from './009_report_versions'
+import { inspectionReview } from './010_inspection_review'
+import { reportJobs } from './011_report_jobs'
+import { technicianEmailLookup } from './012_technician_email_lookup'
+import { singleRunningTimeEntry } from './013_single_running_time_entry'
+
+/** Every Postgres schema change, in order. Append new migrations; never edit one that has shipped. */
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  softDeleteDirectory,
+  auditLog,
+  transcriptEntries,
+  inspectionVersion,
+  siteRetention,
+  organizations,
+  siteReportTemplate,
+  reportVersions,
+  inspectionReview,
+  reportJobs,
+  technicianEmailLookup,
+  singleRunningTimeEntry,
+]
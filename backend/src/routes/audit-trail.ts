@@ -0,0 +1,189 @@
+import type { Request, Response, Router } from 'express'
+import { diffRecords, type AuditService } from '../services/audit.service'
+import type { DataService } from '../services/data-service'
+import type { AuditFieldChange } from '../types'
+
+type AuditedDataService = Pick<
+  DataService,
+  | 'getSiteAsset'
+  | 'listTimeEntries'
+  | 'getPartOrderById'
+  | 'getReportJob'
+  | 'getExpertEscalationById'
+  | 'getShareSessionById'
+  | 'listAnnotations'
+  | 'getChecklistTemplate'
+  | 'listExpertContacts'
+  | 'getTechnicianById'
+  | 'getSiteById'
+  | 'getInspectionById'
+>
+
+export interface AuditTrail {
+  auditService: AuditService
+  dataService: AuditedDataService
+}
+
+interface AuditTarget {
+  entityType: string
+  entityId: string
+  before: unknown
+  load: () => Promise<unknown>
+}
+
+interface EntityParam {
+  param: string
+  entityType: string
+  load: (dataService: AuditedDataService, params: Record<string, string>) => Promise<unknown>
+}
+
+/** Route params that identify an entity, most specific first. */
+const ENTITY_PARAMS: EntityParam[] = [
+  { param: 'assetId', entityType: 'site_asset', load: (data, p) => data.getSiteAsset(p.assetId) },
+  {
+    param: 'entryId',
+    entityType: 'time_entry',
+    load: async (data, p) => (await data.listTimeEntries(p.inspectionId)).find((entry) => entry.id === p.entryId),
+  },
+  { param: 'orderId', entityType: 'part_order', load: (data, p) => data.getPartOrderById(p.orderId) },
+  { param: 'jobId', entityType: 'report_job', load: (data, p) => data.getReportJob(p.jobId) },
+  {
+    param: 'escalationId',
+    entityType: 'expert_escalation',
+    load: (data, p) => data.getExpertEscalationById(p.escalationId),
+  },
+  { param: 'sessionId', entityType: 'share_session', load: (data, p) => data.getShareSessionById(p.sessionId) },
+  {
+    param: 'annotationId',
+    entityType: 'annotation',
+    load: async (data, p) => (await data.listAnnotations(p.inspectionId)).find((item) => item.id === p.annotationId),
+  },
+  {
+    param: 'templateId',
+    entityType: 'checklist_template',
+    load: (data, p) => data.getChecklistTemplate(p.templateId),
+  },
+  {
+    param: 'expertId',
+    entityType: 'expert',
+    load: async (data, p) => (await data.listExpertContacts()).find((expert) => expert.id === p.expertId),
+  },
+  { param: 'technicianId', entityType: 'technician', load: (data, p) => data.getTechnicianById(p.technicianId) },
+  { param: 'siteId', entityType: 'site', load: (data, p) => data.getSiteById(p.siteId) },
+  { param: 'inspectionId', entityType: 'inspection', load: (data, p) => data.getInspectionById(p.inspectionId) },
+]
+
+/** What a `201 Created` response body is, keyed by the route's last path segment. */
+const CREATED_ENTITIES: Record<string, { entityType: string; idField: string }> = {
+  technicians: { entityType: 'technician', idField: 'id' },
+  sites: { entityType: 'site', idField: 'id' },
+  inspections: { entityType: 'inspection', idField: 'id' },
+  assets: { entityType: 'site_asset', idField: 'id' },
+  report: { entityType: 'inspection_report', idField: 'inspectionId' },
+  'workflow-actions': { entityType: 'workflow_event', idField: 'id' },
+  'time-entries': { entityType: 'time_entry', idField: 'id' },
+  'parts-orders': { entityType: 'part_order', idField: 'id' },
+  experts: { entityType: 'expert', idField: 'id' },
+  escalations: { entityType: 'expert_escalation', idField: 'escalationId' },
+  'share-sessions': { entityType: 'share_session', idField: 'id' },
+  annotations: { entityType: 'annotation', idField: 'id' },
+  'checklist-templates': { entityType: 'checklist_template', idField: 'id' },
+  'erasure-requests': { entityType: 'erasure_certificate', idField: 'id' },
+  organizations: { entityType: 'organization', idField: 'id' },
+}
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE'])
+
+function lastStaticSegment(path: string): string {
+  return path.split('/').filter((segment) => segment && !segment.startsWith(':')).pop() || ''
+}
+
+function firstSegment(path: string): string {
+  return path.split('/').filter(Boolean)[0] || 'unknown'
+}
+
+/**
+ * Audits every successful mutating request on `router`; call it before any
+ * routes are added. The entity named by the route's most specific param is
+ * loaded before the handler runs and again once the response is sent, and the
+ * entry stores the difference. `201` responses are recorded as the created record.
+ */
+export function registerAuditTrail(router: Router, { auditService, dataService }: AuditTrail): void {
+  router.use((req, res, next) => {
+    if (!MUTATING_METHODS.has(req.method)) {
+      next()
+      return
+    }
+
+    let responseBody: unknown
+    const json = res.json.bind(res)
+    res.json = (body: unknown) => {
+      responseBody = body
+      return json(body)
+    }
+    res.on('finish', () => {
+      if (res.statusCode >= 400 || !req.route) {
+        return
+      }
+      void recordRequest(req, res, responseBody)
+    })
+    next()
+  })
+
+  for (const { param } of ENTITY_PARAMS) {
+    router.param(param, (req, res, next) => {
+      if (!MUTATING_METHODS.has(req.method) || res.locals.auditTarget !== undefined) {
+        next()
+        return
+      }
+      res.locals.auditTarget = null
+      const params = req.params as Record<string, string>
+      const entity = ENTITY_PARAMS.find((candidate) => params[candidate.param])
+      if (!entity) {
+        next()
+        return
+      }
+
+      const load = () => entity.load(dataService, params).then((record) => record ?? null)
+      load()
+        .then((before) => {
+          res.locals.auditTarget = { entityType: entity.entityType, entityId: params[entity.param], before, load }
+        })
+        .catch(() => undefined)
+        .finally(() => next())
+    })
+  }
+
+  async function recordRequest(req: Request, res: Response, responseBody: unknown): Promise<void> {
+    const routePath = String(req.route.path)
+    const target = (res.locals.auditTarget as AuditTarget | null | undefined) ?? null
+    const created = res.statusCode === 201 ? CREATED_ENTITIES[lastStaticSegment(routePath)] : undefined
+    const body = responseBody && typeof responseBody === 'object' ? (responseBody as Record<string, unknown>) : null
+
+    let entityType = target?.entityType ?? firstSegment(routePath)
+    let entityId = target?.entityId ?? null
+    let changes: AuditFieldChange[] = []
+    try {
+      if (created && body) {
+        entityType = created.entityType
+        entityId = typeof body[created.idField] === 'string' ? (body[created.idField] as string) : entityId
+        changes = diffRecords(null, body)
+      } else if (target) {
+        changes = diffRecords(target.before, await target.load())
+      }
+    } catch {
+      // The change already happened; record it even if the after-image cannot be read
+    }
+
+    auditService.track({
+      actor: req.authUser,
+      action: `${req.method} ${req.baseUrl}${routePath}`,
+      entityType,
+      entityId,
+      changes,
+      ipAddress: req.ip ?? null,
+      requestId: req.requestId ?? null,
+      source: 'http',
+    })
+  }
+}
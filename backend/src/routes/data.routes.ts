@@ -1,27 +1,102 @@
-import { Router } from 'express'
+import { Router, text, type NextFunction, type Request, type RequestHandler, type Response } from 'express'
 import { z } from 'zod'
-import type { DataService } from '../services/data-service'
+import { AnomalyDetectionService } from '../services/anomaly-detection.service'
+import type { DataService, ListReportJobFilters, OrganizationDirectory } from '../services/data-service'
 import type { InspectionReport } from '../services/firestore-data.service'
 import type { OcrExtractionResult } from '../services/equipment-ocr.service'
-import type { ReportGenerationJob } from '../services/report-pipeline.service'
+import { ReportExportService } from '../services/report-export.service'
+import type { RenderReportPdfOptions } from '../services/report-pdf.service'
+import {
+  createReportRendererRegistry,
+  type ReportRenderer,
+  type ReportRendererRegistry,
+} from '../services/report-renderer'
 import type { WorkflowActionResult } from '../services/workflow-automation.service'
 import type { AgentExecutionResult } from '../services/adk-agent.service'
+import {
+  AnnotationValidationError,
+  type AnnotationInput,
+} from '../services/annotation.service'
+import { AssetLinkError, AssetLinkingService } from '../services/asset-linking.service'
+import { DEFAULT_AUDIT_PAGE_SIZE, MAX_AUDIT_PAGE_SIZE } from '../services/audit-chain'
+import { AuditService } from '../services/audit.service'
+import { DataArchiveError, DataArchiveService } from '../services/data-archive.service'
+import {
+  DEFAULT_INSPECTION_PAGE_SIZE,
+  InspectionQueryError,
+  MAX_INSPECTION_PAGE_SIZE,
+} from '../services/inspection-query'
+import { InspectionVersionConflictError, inspectionEtag, parseIfMatch } from '../services/inspection-version'
+import {
+  InspectionReviewService,
+  REVIEW_LOCKED_STATUSES,
+  ReviewCommentError,
+  ReviewTransitionError,
+  type Reviewer,
+} from '../services/inspection-review.service'
+import {
+  ChecklistIncompleteError,
+  ChecklistService,
+  ChecklistValidationError,
+} from '../services/checklist.service'
+import {
+  EscalationStateError,
+  type ExpertEscalationRequest,
+  type ExpertEscalationResult,
+} from '../services/expert-routing.service'
+import {
+  AuthorizationError,
+  AuthorizationService,
+  type AccessRole,
+} from '../services/authorization.service'
+import {
+  currentOrganizationId,
+  DEFAULT_ORGANIZATION_ID,
+  isOrganizationId,
+  OrganizationExistsError,
+} from '../services/organization-context'
+import { PartOrderTransitionError, PartsOrderingService } from '../services/parts-ordering.service'
+import { PredictiveMaintenanceService } from '../services/predictive-maintenance.service'
+import { ReportJobStateError } from '../services/report-job-runner'
+import { REPORT_JOB_STATUSES } from '../services/report-jobs'
+import { ACCENT_COLOR_PATTERN, LOGO_DATA_URL_PATTERN, MAX_LOGO_DATA_URL_LENGTH } from '../services/report-template'
+import { diffInspectionReports, summarizeReportVersion } from '../services/report-version'
+import { ErasureError, RetentionService } from '../services/retention.service'
 import { StorageService } from '../services/storage.service'
-import type { WorkflowActionType } from '../types'
+import type { PublicShareSession, ShareSessionInvite } from '../services/team-collaboration.service'
+import { TimeEntryStateError, TimeTrackingService } from '../services/time-tracking.service'
+import { DEFAULT_TRANSCRIPT_PAGE_SIZE, MAX_TRANSCRIPT_PAGE_SIZE } from '../services/transcript'
+import { registerAuditTrail } from './audit-trail'
+import type {
+  ExpertEscalation,
+  Inspection,
+  InspectionAnnotation,
+  Organization,
+  OrganizationSettings,
+  ReadingAnomaly,
+  ReportGenerationJob,
+  ReportJobStatus,
+  WorkflowActionType,
+  WorkflowWebhookSettings,
+} from '../types'
 
 interface StorageServiceLike {
   createSignedUploadUrl: StorageService['createSignedUploadUrl']
   getSignedReadUrl?: (objectPath: string, expiresInSeconds?: number) => Promise<{ url: string; expiresAt: string }>
+  isConfigured?: () => boolean
+  deleteInspectionImages?: (inspectionId: string) => Promise<number>
 }
 
 interface ReportPdfServiceLike {
-  renderInspectionReportPdf: (report: InspectionReport) => Promise<Buffer>
+  renderInspectionReportPdf: (report: InspectionReport, options?: RenderReportPdfOptions) => Promise<Buffer>
 }
 
 interface ReportPipelineServiceLike {
   enqueueReportGeneration: (inspectionId: string) => Promise<ReportGenerationJob>
-  getReportJob: (jobId: string) => ReportGenerationJob | null
-  getLatestReportJobForInspection: (inspectionId: string) => ReportGenerationJob | null
+  getReportJob: (jobId: string) => Promise<ReportGenerationJob | null>
+  getLatestReportJobForInspection: (inspectionId: string) => Promise<ReportGenerationJob | null>
+  listReportJobs: (filters: ListReportJobFilters) => Promise<ReportGenerationJob[]>
+  requeueReportJob: (jobId: string) => Promise<ReportGenerationJob | null>
 }
 
 interface EquipmentOcrServiceLike {
@@ -38,10 +113,35 @@ interface WorkflowAutomationServiceLike {
   }) => Promise<WorkflowActionResult>
 }
 
+interface ExpertRoutingServiceLike {
+  escalateToExpert: (request: ExpertEscalationRequest) => Promise<ExpertEscalationResult>
+  listEscalations: (inspectionId?: string, openOnly?: boolean) => Promise<ExpertEscalation[]>
+  resolve: (escalationId: string, resolutionNote: string) => Promise<ExpertEscalation>
+}
+
+interface TeamCollaborationServiceLike {
+  createSession: (
+    inspectionId: string,
+    hostTechnicianId: string,
+    expertEmail: string,
+    durationMinutes?: number,
+    reason?: string,
+  ) => Promise<ShareSessionInvite>
+  listSessions: (inspectionId: string) => Promise<PublicShareSession[]>
+  getSession: (sessionId: string) => Promise<{ id: string; inspectionId: string } | null>
+  endSession: (sessionId: string) => Promise<unknown>
+}
+
+interface AnnotationServiceLike {
+  addAnnotation: (inspectionId: string, input: AnnotationInput) => Promise<InspectionAnnotation>
+  listAnnotations: (inspectionId: string) => Promise<InspectionAnnotation[]>
+  removeAnnotation: (inspectionId: string, annotationId: string) => Promise<boolean>
+}
+
 const createTechnicianSchema = z.object({
   name: z.string().min(1),
   email: z.string().email(),
-  role: z.enum(['admin', 'technician', 'viewer']),
+  role: z.enum(['admin', 'supervisor', 'technician', 'viewer']),
 })
 
 const createSiteSchema = z.object({
@@ -55,14 +155,83 @@ const createSiteSchema = z.object({
   technicianIds: z.array(z.string()).default([]),
 })
 
+const updateTechnicianSchema = createTechnicianSchema
+  .partial()
+  .refine((input) => Object.keys(input).length > 0, { message: 'Provide at least one field to update' })
+
+const updateSiteSchema = createSiteSchema
+  .omit({ technicianIds: true })
+  .partial()
+  .refine((input) => Object.keys(input).length > 0, { message: 'Provide at least one field to update' })
+
+const siteTechniciansSchema = z.object({
+  technicianIds: z.array(z.string().min(1)).max(200),
+})
+
+const listDirectoryQuerySchema = z.object({
+  includeDeleted: z.enum(['true', 'false']).optional(),
+})
+
 const createInspectionSchema = z.object({
   technicianId: z.string().min(1),
   siteId: z.string().min(1),
+  assetIds: z.array(z.string().min(1)).max(50).optional(),
 })
 
+const linkInspectionAssetsSchema = z.object({
+  assetIds: z.array(z.string().min(1)).min(1).max(50),
+})
+
+const listInspectionsQuerySchema = z
+  .object({
+    technicianId: z.string().min(1).optional(),
+    siteId: z.string().min(1).optional(),
+    assetId: z.string().min(1).optional(),
+    status: z.enum(['in_progress', 'completed', 'pending_review', 'changes_requested', 'approved']).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    q: z.string().trim().min(1).max(200).optional(),
+    sortBy: z.enum(['timestamp', 'status', 'siteId', 'technicianId']).default('timestamp'),
+    sortOrder: z.enum(['asc', 'desc']).default('desc'),
+    limit: z.coerce.number().int().min(1).max(MAX_INSPECTION_PAGE_SIZE).default(DEFAULT_INSPECTION_PAGE_SIZE),
+    cursor: z.string().min(1).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  })
+
 const updateInspectionStatusSchema = z.object({
   status: z.enum(['in_progress', 'completed']),
   summary: z.string().optional(),
+  overrideReason: z.string().trim().min(1).max(1000).optional(),
+})
+
+const submitForReviewSchema = z.object({
+  summary: z.string().optional(),
+  overrideReason: z.string().trim().min(1).max(1000).optional(),
+})
+
+const reviewCommentSchema = z.object({
+  text: z.string().trim().min(1).max(2000),
+  finding: z
+    .object({
+      section: z.enum(['findings', 'safetySummary', 'recommendedActions']),
+      index: z.number().int().min(0),
+    })
+    .optional(),
+})
+
+const reviewDecisionSchema = z.object({
+  comments: z.array(reviewCommentSchema).max(50).optional(),
+})
+
+const reviewCommentsSchema = z.object({
+  comments: z.array(reviewCommentSchema).min(1).max(50),
+})
+
+const verifyApprovalQuerySchema = z.object({
+  hash: z.string().regex(/^[0-9a-fA-F]{64}$/, 'hash must be a SHA-256 hex digest'),
 })
 
 const signedUploadSchema = z.object({
@@ -85,6 +254,361 @@ const workflowActionSchema = z.object({
   idempotencyKey: z.string().trim().min(1).max(128).optional(),
 })
 
+const startTimeEntrySchema = z.object({
+  taskName: z.string().trim().min(1).max(200),
+  notes: z.string().trim().max(500).optional(),
+})
+
+const createPartOrderSchema = z.object({
+  partNumber: z.string().trim().min(1).max(100),
+  quantity: z.number().int().positive().max(10000),
+  urgency: z.enum(['routine', 'urgent', 'critical']).default('routine'),
+  notes: z.string().trim().max(500).optional(),
+  supplierProvider: z.enum(['generic', 'sap_ariba', 'coupa']).optional(),
+})
+
+const cancelPartOrderSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+})
+
+const createExpertSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().email().optional(),
+  role: z.string().trim().min(1).max(100),
+  specialty: z.array(z.string().trim().toLowerCase().min(1)).min(1),
+  availability: z.enum(['online', 'offline', 'busy']).default('offline'),
+  contactMethod: z.enum(['email', 'sms', 'push']).default('email'),
+})
+
+const updateExpertAvailabilitySchema = z.object({
+  availability: z.enum(['online', 'offline', 'busy']),
+})
+
+const createEscalationSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+  priority: z.enum(['low', 'medium', 'high', 'critical']).default('medium'),
+  context: z
+    .object({
+      faultDescription: z.string().trim().max(1000).optional(),
+      failedAttempts: z.number().int().min(0).optional(),
+      technicianNotes: z.string().trim().max(1000).optional(),
+      attachedImages: z.array(z.string().url()).max(20).optional(),
+    })
+    .default({}),
+})
+
+const resolveEscalationSchema = z.object({
+  resolutionNote: z.string().trim().min(1).max(2000),
+})
+
+const createShareSessionSchema = z.object({
+  expertEmail: z.string().email(),
+  durationMinutes: z.number().int().min(1).max(240).default(30),
+  reason: z.string().trim().max(500).optional(),
+})
+
+const createAnnotationSchema = z.object({
+  tool: z.enum(['arrow', 'circle', 'rectangle', 'text', 'highlight']),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  points: z
+    .array(z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) }))
+    .min(1)
+    .max(500),
+  text: z.string().trim().max(200).optional(),
+  snapshotUrl: z.string().url().optional(),
+})
+
+const expectedReadingSchema = z.object({
+  unit: z.string().trim().max(20).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  target: z.number().optional(),
+  tolerance: z.number().min(0).optional(),
+})
+
+const createChecklistTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  siteType: z.enum(['oil_gas', 'power', 'telecom', 'manufacturing', 'solar']),
+  items: z
+    .array(
+      z.object({
+        id: z.string().trim().min(1).max(100).optional(),
+        label: z.string().trim().min(1).max(200),
+        description: z.string().trim().max(1000).optional(),
+        required: z.boolean().default(true),
+        expectedReading: expectedReadingSchema.optional(),
+        requiresPhoto: z.boolean().optional(),
+        keywords: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+      }),
+    )
+    .min(1)
+    .max(200),
+})
+
+const attachChecklistSchema = z.object({
+  templateId: z.string().min(1),
+})
+
+const updateChecklistItemSchema = z
+  .object({
+    status: z.enum(['open', 'passed', 'failed', 'not_applicable']).optional(),
+    reading: z.number().optional(),
+    photoUrl: z.string().url().optional(),
+    note: z.string().trim().max(1000).optional(),
+  })
+  .refine((value) => value.status !== undefined || value.reading !== undefined, {
+    message: 'status or reading is required',
+  })
+
+const listAuditQuerySchema = z
+  .object({
+    actorUid: z.string().min(1).optional(),
+    action: z.string().min(1).max(300).optional(),
+    entityType: z.string().min(1).max(100).optional(),
+    entityId: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    afterSequence: z.coerce.number().int().min(0).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_AUDIT_PAGE_SIZE).default(DEFAULT_AUDIT_PAGE_SIZE),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  })
+
+const listTranscriptQuerySchema = z.object({
+  afterSequence: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_TRANSCRIPT_PAGE_SIZE).default(DEFAULT_TRANSCRIPT_PAGE_SIZE),
+  speaker: z.enum(['user', 'agent', 'system']).optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+})
+
+const importArchiveQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional(),
+})
+
+const reportVersionSchema = z.coerce.number().int().positive()
+
+const reportDiffQuerySchema = z.object({
+  from: reportVersionSchema,
+  to: reportVersionSchema,
+})
+
+const retentionDays = z.number().int().positive().max(36_500).optional()
+
+const retentionPolicySchema = z
+  .object({
+    transcripts: retentionDays,
+    images: retentionDays,
+    ocr: retentionDays,
+    reports: retentionDays,
+  })
+  .strict()
+
+const listReportJobsQuerySchema = z.object({
+  inspectionId: z.string().min(1).optional(),
+  status: z
+    .string()
+    .transform((value) => value.split(',').map((item) => item.trim()))
+    .pipe(z.array(z.enum(REPORT_JOB_STATUSES as [ReportJobStatus, ...ReportJobStatus[]])))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
+
+const erasureRequestSchema = z.object({
+  technicianId: z.string().min(1),
+})
+
+const workflowWebhookSettingsSchema = z
+  .object({
+    url: z.string().url(),
+    provider: z.enum(['generic', 'jira', 'servicenow']).optional(),
+    authType: z.enum(['none', 'bearer', 'basic']).optional(),
+    authToken: z.string().min(1).optional(),
+    authUsername: z.string().min(1).optional(),
+    authPassword: z.string().min(1).optional(),
+    jiraProjectKey: z.string().min(1).optional(),
+    jiraIssueType: z.string().min(1).optional(),
+    jiraUseAdf: z.boolean().optional(),
+    serviceNowTable: z.string().min(1).optional(),
+  })
+  .strict()
+
+const reportTemplateSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200).optional(),
+    logoDataUrl: z
+      .string()
+      .max(MAX_LOGO_DATA_URL_LENGTH)
+      .regex(LOGO_DATA_URL_PATTERN, 'Use a base64 PNG or JPEG data URL')
+      .optional(),
+    headerText: z.string().trim().min(1).max(200).optional(),
+    footerText: z.string().trim().min(1).max(200).optional(),
+    accentColor: z.string().regex(ACCENT_COLOR_PATTERN, 'Use a #rrggbb color').optional(),
+    showPageNumbers: z.boolean().optional(),
+  })
+  .strict()
+
+const organizationSettingsSchema = z
+  .object({
+    report: reportTemplateSchema.optional(),
+    workflow: z
+      .object({
+        ticket: workflowWebhookSettingsSchema.optional(),
+        notify: workflowWebhookSettingsSchema.optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+
+const updateOrganizationSchema = z
+  .object({
+    name: z.string().trim().min(1).max(200).optional(),
+    settings: organizationSettingsSchema.optional(),
+  })
+  .strict()
+
+const createOrganizationSchema = z.object({
+  id: z.string().refine(isOrganizationId, 'Use 3-40 lowercase letters, digits and hyphens, starting with a letter'),
+  name: z.string().trim().min(1).max(200),
+  settings: organizationSettingsSchema.optional(),
+})
+
+const REDACTED_SECRET = '[redacted]'
+
+/** Webhook credentials are write-only; reads only say whether they are set. */
+function toPublicOrganization(organization: Organization): Organization {
+  const redact = (webhook?: WorkflowWebhookSettings) =>
+    webhook && {
+      ...webhook,
+      authToken: webhook.authToken ? REDACTED_SECRET : undefined,
+      authPassword: webhook.authPassword ? REDACTED_SECRET : undefined,
+    }
+  const workflow = organization.settings.workflow
+  return {
+    ...organization,
+    settings: {
+      ...organization.settings,
+      workflow: workflow && { ticket: redact(workflow.ticket), notify: redact(workflow.notify) },
+    },
+  }
+}
+
+/** Lets clients send back what they read: redacted credentials keep their stored value. */
+function restoreRedactedSecrets(settings: OrganizationSettings, current: OrganizationSettings): OrganizationSettings {
+  const restore = (webhook?: WorkflowWebhookSettings, stored?: WorkflowWebhookSettings) =>
+    webhook && {
+      ...webhook,
+      authToken: webhook.authToken === REDACTED_SECRET ? stored?.authToken : webhook.authToken,
+      authPassword: webhook.authPassword === REDACTED_SECRET ? stored?.authPassword : webhook.authPassword,
+    }
+  const workflow = settings.workflow
+  return {
+    ...settings,
+    workflow: workflow && {
+      ticket: restore(workflow.ticket, current.workflow?.ticket),
+      notify: restore(workflow.notify, current.workflow?.notify),
+    },
+  }
+}
+
+function handleAuthorizationError(error: unknown, res: Response, next: NextFunction): void {
+  if (error instanceof AuthorizationError) {
+    res.status(403).json(error.toJSON())
+    return
+  }
+  next(error)
+}
+
+function sendTimeEntryError(error: unknown, res: Response): void {
+  const message = error instanceof Error ? error.message : 'Failed to update time entry'
+  const statusCode =
+    error instanceof TimeEntryStateError ? 409 : message.includes('not found') ? 404 : 500
+  res.status(statusCode).json({ error: message })
+}
+
+function sendPartOrderError(error: unknown, res: Response): void {
+  const message = error instanceof Error ? error.message : 'Failed to update part order'
+  const statusCode =
+    error instanceof PartOrderTransitionError ? 409 : message.includes('not found') ? 404 : 500
+  res.status(statusCode).json({ error: message })
+}
+
+function sendAnnotationError(error: unknown, res: Response): void {
+  const message = error instanceof Error ? error.message : 'Failed to save annotation'
+  const statusCode =
+    error instanceof AnnotationValidationError ? 400 : message.includes('not found') ? 404 : 500
+  res.status(statusCode).json({ error: message })
+}
+
+/** Reads `If-Match` as an inspection version; answers 400 and returns null when it is not one. */
+function readExpectedVersion(req: Request, res: Response): number | null | undefined {
+  const expectedVersion = parseIfMatch(req.header('if-match'))
+  if (expectedVersion === null) {
+    res.status(400).json({ error: 'If-Match must be a single inspection ETag' })
+  }
+  return expectedVersion
+}
+
+function sendInspection(inspection: Inspection, res: Response): void {
+  res.setHeader('ETag', inspectionEtag(inspection.version))
+  res.json(inspection)
+}
+
+function sendVersionConflict(error: unknown, res: Response): boolean {
+  if (!(error instanceof InspectionVersionConflictError)) {
+    return false
+  }
+  res.setHeader('ETag', inspectionEtag(error.currentVersion))
+  res.status(409).json({ error: error.message, code: 'version_conflict', currentVersion: error.currentVersion })
+  return true
+}
+
+function sendAssetLinkError(error: unknown, res: Response): void {
+  if (sendVersionConflict(error, res)) {
+    return
+  }
+  const message = error instanceof Error ? error.message : 'Failed to link assets'
+  const statusCode = error instanceof AssetLinkError ? 400 : message.includes('not found') ? 404 : 500
+  res.status(statusCode).json({ error: message })
+}
+
+function sendChecklistError(error: unknown, res: Response): void {
+  if (sendVersionConflict(error, res)) {
+    return
+  }
+  if (error instanceof ChecklistIncompleteError) {
+    res.status(409).json({ error: error.message, openItems: error.openItems })
+    return
+  }
+  const message = error instanceof Error ? error.message : 'Failed to update checklist'
+  const statusCode =
+    error instanceof ChecklistValidationError ? 400 : message.includes('not found') ? 404 : 500
+  res.status(statusCode).json({ error: message })
+}
+
+function sendReviewError(error: unknown, res: Response): void {
+  if (sendVersionConflict(error, res)) {
+    return
+  }
+  if (error instanceof ChecklistIncompleteError) {
+    res.status(409).json({ error: error.message, openItems: error.openItems })
+    return
+  }
+  const message = error instanceof Error ? error.message : 'Failed to update review'
+  const statusCode =
+    error instanceof ReviewTransitionError ? 409 : error instanceof ReviewCommentError ? 400 : 500
+  res.status(statusCode).json({ error: message })
+}
+
+function sendEscalationError(error: unknown, res: Response): void {
+  const message = error instanceof Error ? error.message : 'Failed to update escalation'
+  const statusCode =
+    error instanceof EscalationStateError ? 409 : message.includes('not found') ? 404 : 500
+  res.status(statusCode).json({ error: message })
+}
+
 export function createDataRouter(
   dataService: DataService,
   storageService: StorageServiceLike,
@@ -94,10 +618,99 @@ export function createDataRouter(
   workflowAutomationService: WorkflowAutomationServiceLike,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   adkAgentService?: any,
+  expertRoutingService?: ExpertRoutingServiceLike,
+  teamCollaborationService?: TeamCollaborationServiceLike,
+  annotationService?: AnnotationServiceLike,
+  injectedChecklistService?: ChecklistService,
+  injectedAuditService?: AuditService,
+  injectedRetentionService?: RetentionService,
+  organizationDirectory?: OrganizationDirectory,
+  injectedReportRenderers?: ReportRendererRegistry,
 ): Router {
   const router = Router()
+  const auditService = injectedAuditService ?? new AuditService(dataService)
+  registerAuditTrail(router, { auditService, dataService })
+  const authorizationService = new AuthorizationService(dataService)
+  const timeTrackingService = new TimeTrackingService(dataService)
+  const partsOrderingService = new PartsOrderingService(dataService)
+  const anomalyDetectionService = new AnomalyDetectionService(dataService)
+  const predictiveMaintenanceService = new PredictiveMaintenanceService(dataService)
+  const assetLinkingService = new AssetLinkingService(dataService)
+  const checklistService = injectedChecklistService ?? new ChecklistService(dataService)
+  const dataArchiveService = new DataArchiveService(dataService)
+  const retentionService = injectedRetentionService ?? new RetentionService(dataService, storageService)
+  const inspectionReviewService = new InspectionReviewService(dataService)
+  const reportRenderers =
+    injectedReportRenderers ?? createReportRendererRegistry(reportPdfService, new ReportExportService(dataService))
+
+  const requireRole = (allowedRoles: AccessRole[], action: string): RequestHandler => {
+    return async (req, res, next) => {
+      try {
+        const actor = await authorizationService.resolveActor(req.authUser)
+        authorizationService.assertRole(actor, allowedRoles, action)
+        next()
+      } catch (error) {
+        handleAuthorizationError(error, res, next)
+      }
+    }
+  }
+
+  const requireInspectionOwner: RequestHandler = async (req, res, next) => {
+    try {
+      const inspection = await dataService.getInspectionById(req.params.inspectionId)
+      if (!inspection) {
+        res.status(404).json({ error: 'Inspection not found' })
+        return
+      }
+
+      const actor = await authorizationService.resolveActor(req.authUser)
+      authorizationService.assertCanModifyInspection(actor, inspection)
+      next()
+    } catch (error) {
+      handleAuthorizationError(error, res, next)
+    }
+  }
+
+  /** Escalations are resolved by whoever may modify the inspection that raised them. */
+  const requireEscalationOwner: RequestHandler = async (req, res, next) => {
+    try {
+      const escalation = await dataService.getExpertEscalationById(req.params.escalationId)
+      const inspection = escalation ? await dataService.getInspectionById(escalation.inspectionId) : null
+      if (!inspection) {
+        res.status(404).json({ error: escalation ? 'Inspection not found' : 'Escalation not found' })
+        return
+      }
 
-  router.post('/technicians', async (req, res) => {
+      const actor = await authorizationService.resolveActor(req.authUser)
+      authorizationService.assertCanModifyInspection(actor, inspection)
+      next()
+    } catch (error) {
+      handleAuthorizationError(error, res, next)
+    }
+  }
+
+  const requireInspectionReviewer: RequestHandler = async (req, res, next) => {
+    try {
+      const inspection = await dataService.getInspectionById(req.params.inspectionId)
+      if (!inspection) {
+        res.status(404).json({ error: 'Inspection not found' })
+        return
+      }
+
+      const actor = await authorizationService.resolveActor(req.authUser)
+      authorizationService.assertCanReviewInspection(actor, inspection)
+      next()
+    } catch (error) {
+      handleAuthorizationError(error, res, next)
+    }
+  }
+
+  const resolveReviewer = async (req: Request): Promise<Reviewer> => ({
+    ...(await authorizationService.resolveActor(req.authUser)),
+    email: req.authUser?.email,
+  })
+
+  router.post('/technicians', requireRole(['admin'], 'create technicians'), async (req, res) => {
     const parsed = createTechnicianSchema.safeParse(req.body)
     if (!parsed.success) {
       res.status(400).json({ error: 'Invalid technician payload', details: parsed.error.flatten() })
@@ -108,12 +721,61 @@ export function createDataRouter(
     res.status(201).json(technician)
   })
 
-  router.get('/technicians', async (_req, res) => {
-    const technicians = await dataService.listTechnicians()
+  router.get('/technicians', async (req, res) => {
+    const parsed = listDirectoryQuerySchema.safeParse(req.query)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid technician query', details: parsed.error.flatten() })
+      return
+    }
+
+    const technicians = await dataService.listTechnicians({ includeDeleted: parsed.data.includeDeleted === 'true' })
     res.json(technicians)
   })
 
-  router.post('/sites', async (req, res) => {
+  router.get('/technicians/:technicianId', async (req, res) => {
+    const technician = await dataService.getTechnicianById(req.params.technicianId)
+    if (!technician) {
+      res.status(404).json({ error: 'Technician not found' })
+      return
+    }
+    res.json(technician)
+  })
+
+  router.patch('/technicians/:technicianId', requireRole(['admin'], 'update technicians'), async (req, res) => {
+    const parsed = updateTechnicianSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid technician payload', details: parsed.error.flatten() })
+      return
+    }
+
+    const current = await dataService.getTechnicianById(req.params.technicianId)
+    if (!current) {
+      res.status(404).json({ error: 'Technician not found' })
+      return
+    }
+    if (current.deletedAt) {
+      res.status(409).json({ error: 'Technician is deactivated' })
+      return
+    }
+
+    const technician = await dataService.updateTechnician(current.id, {
+      name: parsed.data.name ?? current.name,
+      email: parsed.data.email ?? current.email,
+      role: parsed.data.role ?? current.role,
+    })
+    res.json(technician)
+  })
+
+  router.delete('/technicians/:technicianId', requireRole(['admin'], 'deactivate technicians'), async (req, res) => {
+    const technician = await dataService.deactivateTechnician(req.params.technicianId)
+    if (!technician) {
+      res.status(404).json({ error: 'Technician not found' })
+      return
+    }
+    res.status(204).send()
+  })
+
+  router.post('/sites', requireRole(['admin'], 'create sites'), async (req, res) => {
     const parsed = createSiteSchema.safeParse(req.body)
     if (!parsed.success) {
       res.status(400).json({ error: 'Invalid site payload', details: parsed.error.flatten() })
@@ -124,105 +786,474 @@ export function createDataRouter(
     res.status(201).json(site)
   })
 
-  router.get('/sites', async (_req, res) => {
-    const sites = await dataService.listSites()
+  router.get('/sites', async (req, res) => {
+    const parsed = listDirectoryQuerySchema.safeParse(req.query)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid site query', details: parsed.error.flatten() })
+      return
+    }
+
+    const sites = await dataService.listSites({ includeDeleted: parsed.data.includeDeleted === 'true' })
     res.json(sites)
   })
 
-  router.post('/inspections', async (req, res) => {
-    const parsed = createInspectionSchema.safeParse(req.body)
+  router.get('/sites/:siteId', async (req, res) => {
+    const site = await dataService.getSiteById(req.params.siteId)
+    if (!site) {
+      res.status(404).json({ error: 'Site not found' })
+      return
+    }
+    res.json(site)
+  })
+
+  router.patch('/sites/:siteId', requireRole(['admin'], 'update sites'), async (req, res) => {
+    const parsed = updateSiteSchema.safeParse(req.body || {})
     if (!parsed.success) {
-      res.status(400).json({ error: 'Invalid inspection payload', details: parsed.error.flatten() })
+      res.status(400).json({ error: 'Invalid site payload', details: parsed.error.flatten() })
       return
     }
 
-    const inspection = await dataService.createInspection(parsed.data)
-    res.status(201).json(inspection)
-  })
+    const current = await dataService.getSiteById(req.params.siteId)
+    if (!current) {
+      res.status(404).json({ error: 'Site not found' })
+      return
+    }
+    if (current.deletedAt) {
+      res.status(409).json({ error: 'Site is deactivated' })
+      return
+    }
 
-  router.get('/inspections', async (req, res) => {
-    const inspections = await dataService.listInspections({
-      technicianId: typeof req.query.technicianId === 'string' ? req.query.technicianId : undefined,
-      siteId: typeof req.query.siteId === 'string' ? req.query.siteId : undefined,
-      status:
-        req.query.status === 'in_progress' || req.query.status === 'completed'
-          ? req.query.status
-          : undefined,
+    const site = await dataService.updateSite(current.id, {
+      name: parsed.data.name ?? current.name,
+      type: parsed.data.type ?? current.type,
+      location: parsed.data.location ?? current.location,
     })
-    res.json(inspections)
+    res.json(site)
   })
 
-  router.get('/inspections/:inspectionId', async (req, res) => {
-    const inspection = await dataService.getInspectionById(req.params.inspectionId)
-    if (!inspection) {
-      res.status(404).json({ error: 'Inspection not found' })
+  router.delete('/sites/:siteId', requireRole(['admin'], 'deactivate sites'), async (req, res) => {
+    const site = await dataService.deactivateSite(req.params.siteId)
+    if (!site) {
+      res.status(404).json({ error: 'Site not found' })
       return
     }
-    res.json(inspection)
+    res.status(204).send()
   })
 
-  router.patch('/inspections/:inspectionId/status', async (req, res) => {
-    const parsed = updateInspectionStatusSchema.safeParse(req.body)
+  router.put('/sites/:siteId/technicians', requireRole(['admin'], 'assign site technicians'), async (req, res) => {
+    const parsed = siteTechniciansSchema.safeParse(req.body || {})
     if (!parsed.success) {
-      res.status(400).json({ error: 'Invalid status payload', details: parsed.error.flatten() })
+      res.status(400).json({ error: 'Invalid site technicians payload', details: parsed.error.flatten() })
       return
     }
 
-    const updated = await dataService.updateInspectionStatus(req.params.inspectionId, parsed.data)
-    if (!updated) {
-      res.status(404).json({ error: 'Inspection not found' })
+    const current = await dataService.getSiteById(req.params.siteId)
+    if (!current) {
+      res.status(404).json({ error: 'Site not found' })
+      return
+    }
+    if (current.deletedAt) {
+      res.status(409).json({ error: 'Site is deactivated' })
       return
     }
 
-    if (parsed.data.status === 'completed') {
-      try {
-        await reportPipelineService.enqueueReportGeneration(req.params.inspectionId)
-      } catch {
-        // Async report generation failed, but status update succeeded
-      }
+    const technicianIds = [...new Set(parsed.data.technicianIds)]
+    const technicians = await Promise.all(technicianIds.map((id) => dataService.getTechnicianById(id)))
+    const unavailable = technicianIds.filter((_id, index) => !technicians[index] || technicians[index]?.deletedAt)
+    if (unavailable.length > 0) {
+      res.status(400).json({ error: 'Unknown or deactivated technicians', technicianIds: unavailable })
+      return
     }
 
-    res.json(updated)
+    const site = await dataService.setSiteTechnicians(current.id, technicianIds)
+    res.json(site)
   })
 
-  router.post('/inspections/:inspectionId/snapshots/signed-url', async (req, res) => {
-    const parsed = signedUploadSchema.safeParse(req.body)
+  router.put('/sites/:siteId/retention', requireRole(['admin'], 'set site retention'), async (req, res) => {
+    const parsed = retentionPolicySchema.safeParse(req.body || {})
     if (!parsed.success) {
-      res.status(400).json({ error: 'Invalid upload payload', details: parsed.error.flatten() })
+      res.status(400).json({ error: 'Invalid retention policy', details: parsed.error.flatten() })
+      return
+    }
+
+    const retention = Object.keys(parsed.data).length > 0 ? parsed.data : null
+    const site = await dataService.setSiteRetention(req.params.siteId, retention)
+    if (!site) {
+      res.status(404).json({ error: 'Site not found' })
+      return
+    }
+    res.json(site)
+  })
+
+  router.put('/sites/:siteId/report-template', requireRole(['admin'], 'set site report template'), async (req, res) => {
+    const parsed = reportTemplateSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid report template', details: parsed.error.flatten() })
+      return
+    }
+
+    const template = Object.keys(parsed.data).length > 0 ? parsed.data : null
+    const site = await dataService.setSiteReportTemplate(req.params.siteId, template)
+    if (!site) {
+      res.status(404).json({ error: 'Site not found' })
+      return
+    }
+    res.json(site)
+  })
+
+  router.post('/inspections', async (req, res, next) => {
+    const parsed = createInspectionSchema.safeParse(req.body)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid inspection payload', details: parsed.error.flatten() })
       return
     }
 
     try {
-      const signed = await storageService.createSignedUploadUrl(
-        req.params.inspectionId,
-        parsed.data.fileName,
-        parsed.data.contentType,
-      )
-      res.json(signed)
+      const actor = await authorizationService.resolveActor(req.authUser)
+      authorizationService.assertCanActAsTechnician(actor, parsed.data.technicianId)
     } catch (error) {
-      res.status(500).json({
-        error: error instanceof Error ? error.message : 'Failed to create signed upload URL',
-      })
+      handleAuthorizationError(error, res, next)
+      return
+    }
+
+    const [technician, site] = await Promise.all([
+      dataService.getTechnicianById(parsed.data.technicianId),
+      dataService.getSiteById(parsed.data.siteId),
+    ])
+    if (technician?.deletedAt || site?.deletedAt) {
+      res.status(409).json({ error: technician?.deletedAt ? 'Technician is deactivated' : 'Site is deactivated' })
+      return
+    }
+
+    try {
+      await assetLinkingService.assertSiteAssets(parsed.data.siteId, parsed.data.assetIds || [])
+    } catch (error) {
+      sendAssetLinkError(error, res)
+      return
+    }
+
+    let inspection = await dataService.createInspection(parsed.data)
+    try {
+      if (await checklistService.attachTemplate(inspection.id)) {
+        // Attaching wrote the inspection again, so re-read it for the current version
+        inspection = (await dataService.getInspectionById(inspection.id)) ?? inspection
+      }
+    } catch {
+      // The inspection is usable without a checklist; one can be attached later
     }
+    res.status(201)
+    sendInspection(inspection, res)
   })
 
-  router.post('/inspections/:inspectionId/snapshots/attach', async (req, res) => {
-    const parsed = attachImageSchema.safeParse(req.body)
+  router.get('/inspections', async (req, res) => {
+    const parsed = listInspectionsQuerySchema.safeParse(req.query)
     if (!parsed.success) {
-      res.status(400).json({ error: 'Invalid attach payload', details: parsed.error.flatten() })
+      res.status(400).json({ error: 'Invalid inspection query', details: parsed.error.flatten() })
       return
     }
 
+    const { q, ...query } = parsed.data
     try {
-      let imageUrlToStore = parsed.data.imageUrl
+      res.json(await dataService.searchInspections({ ...query, search: q }))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to list inspections'
+      res.status(error instanceof InspectionQueryError ? 400 : 500).json({ error: message })
+    }
+  })
 
-      // Try to extract object path and generate signed read URL
-      // This handles MinIO URLs that need signed access
-      try {
-        const url = new URL(parsed.data.imageUrl)
-        const pathname = url.pathname
-        
-        // Check if this looks like a MinIO/GCS path
+  router.get('/inspections/:inspectionId', async (req, res) => {
+    const inspection = await dataService.getInspectionById(req.params.inspectionId)
+    if (!inspection) {
+      res.status(404).json({ error: 'Inspection not found' })
+      return
+    }
+    sendInspection(inspection, res)
+  })
+
+  router.get('/inspections/:inspectionId/transcript', async (req, res) => {
+    const parsed = listTranscriptQuerySchema.safeParse(req.query)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid transcript query', details: parsed.error.flatten() })
+      return
+    }
+
+    const { q, ...query } = parsed.data
+    if (!(await dataService.getInspectionById(req.params.inspectionId))) {
+      res.status(404).json({ error: 'Inspection not found' })
+      return
+    }
+
+    const items = await dataService.listTranscriptEntries(req.params.inspectionId, { ...query, search: q })
+    res.json({
+      items,
+      nextAfterSequence: items.length === query.limit ? items[items.length - 1].sequence : null,
+    })
+  })
+
+  router.patch('/inspections/:inspectionId/status', requireInspectionOwner, async (req, res) => {
+    const parsed = updateInspectionStatusSchema.safeParse(req.body)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid status payload', details: parsed.error.flatten() })
+      return
+    }
+    const expectedVersion = readExpectedVersion(req, res)
+    if (expectedVersion === null) {
+      return
+    }
+    // Completing submits the inspection for review, so it only ends up approved through a reviewer
+    const completing = parsed.data.status === 'completed'
+    const current = await dataService.getInspectionById(req.params.inspectionId)
+    if (!completing && current && REVIEW_LOCKED_STATUSES.includes(current.status)) {
+      res.status(409).json({
+        error: `Inspection is ${current.status}; its status changes through the review endpoints`,
+      })
+      return
+    }
+
+    let updated: Inspection | null
+    try {
+      if (completing) {
+        const { summary, overrideReason } = parsed.data
+        updated = await inspectionReviewService.submitForReview(
+          req.params.inspectionId,
+          await resolveReviewer(req),
+          { summary, overrideReason, expectedVersion },
+        )
+      } else {
+        updated = await dataService.updateInspectionStatus(req.params.inspectionId, { ...parsed.data, expectedVersion })
+      }
+    } catch (error) {
+      sendReviewError(error, res)
+      return
+    }
+    if (!updated) {
+      res.status(404).json({ error: 'Inspection not found' })
+      return
+    }
+
+    if (completing) {
+      try {
+        await predictiveMaintenanceService.recalculateForInspection(req.params.inspectionId)
+      } catch {
+        // Asset risk scores are refreshed again on the next completion or lookup
+      }
+    }
+
+    sendInspection(updated, res)
+  })
+
+  router.post('/inspections/:inspectionId/review/submit', requireInspectionOwner, async (req, res) => {
+    const parsed = submitForReviewSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid review submission', details: parsed.error.flatten() })
+      return
+    }
+    const expectedVersion = readExpectedVersion(req, res)
+    if (expectedVersion === null) {
+      return
+    }
+
+    try {
+      const inspection = await inspectionReviewService.submitForReview(
+        req.params.inspectionId,
+        await resolveReviewer(req),
+        { ...parsed.data, expectedVersion },
+      )
+      if (!inspection) {
+        res.status(404).json({ error: 'Inspection not found' })
+        return
+      }
+      sendInspection(inspection, res)
+    } catch (error) {
+      sendReviewError(error, res)
+    }
+  })
+
+  const reviewDecisionRoute = (
+    decide: 'requestChanges' | 'approve' | 'addComments',
+    schema: typeof reviewDecisionSchema | typeof reviewCommentsSchema,
+  ): RequestHandler => {
+    return async (req, res) => {
+      const parsed = schema.safeParse(req.body || {})
+      if (!parsed.success) {
+        res.status(400).json({ error: 'Invalid review payload', details: parsed.error.flatten() })
+        return
+      }
+      const expectedVersion = readExpectedVersion(req, res)
+      if (expectedVersion === null) {
+        return
+      }
+
+      try {
+        const inspection = await inspectionReviewService[decide](
+          req.params.inspectionId,
+          await resolveReviewer(req),
+          { ...parsed.data, expectedVersion },
+        )
+        if (!inspection) {
+          res.status(404).json({ error: 'Inspection not found' })
+          return
+        }
+        sendInspection(inspection, res)
+      } catch (error) {
+        sendReviewError(error, res)
+      }
+    }
+  }
+
+  router.post(
+    '/inspections/:inspectionId/review/request-changes',
+    requireInspectionReviewer,
+    reviewDecisionRoute('requestChanges', reviewDecisionSchema),
+  )
+  router.post(
+    '/inspections/:inspectionId/review/approve',
+    requireInspectionReviewer,
+    reviewDecisionRoute('approve', reviewDecisionSchema),
+  )
+  router.post(
+    '/inspections/:inspectionId/review/comments',
+    requireInspectionReviewer,
+    reviewDecisionRoute('addComments', reviewCommentsSchema),
+  )
+
+  router.get('/inspections/:inspectionId/review/verify', async (req, res) => {
+    const parsed = verifyApprovalQuerySchema.safeParse(req.query)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid verification query', details: parsed.error.flatten() })
+      return
+    }
+
+    const verification = await inspectionReviewService.verify(req.params.inspectionId, parsed.data.hash)
+    if (!verification) {
+      res.status(404).json({ error: 'Inspection not found' })
+      return
+    }
+    res.json(verification)
+  })
+
+  router.post('/inspections/:inspectionId/assets', requireInspectionOwner, async (req, res) => {
+    const parsed = linkInspectionAssetsSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid asset link payload', details: parsed.error.flatten() })
+      return
+    }
+    const expectedVersion = readExpectedVersion(req, res)
+    if (expectedVersion === null) {
+      return
+    }
+
+    try {
+      const inspection = await assetLinkingService.linkAssets(
+        req.params.inspectionId,
+        parsed.data.assetIds,
+        expectedVersion,
+      )
+      sendInspection(inspection, res)
+    } catch (error) {
+      sendAssetLinkError(error, res)
+    }
+  })
+
+  router.get('/inspections/:inspectionId/checklist', async (req, res) => {
+    try {
+      const checklist = await checklistService.getChecklist(req.params.inspectionId)
+      if (!checklist) {
+        res.status(404).json({ error: 'Checklist not found' })
+        return
+      }
+      res.json(checklist)
+    } catch (error) {
+      sendChecklistError(error, res)
+    }
+  })
+
+  router.put('/inspections/:inspectionId/checklist', requireInspectionOwner, async (req, res) => {
+    const parsed = attachChecklistSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid checklist payload', details: parsed.error.flatten() })
+      return
+    }
+    const expectedVersion = readExpectedVersion(req, res)
+    if (expectedVersion === null) {
+      return
+    }
+
+    try {
+      const checklist = await checklistService.attachTemplate(
+        req.params.inspectionId,
+        parsed.data.templateId,
+        expectedVersion,
+      )
+      res.json(checklist)
+    } catch (error) {
+      sendChecklistError(error, res)
+    }
+  })
+
+  router.patch('/inspections/:inspectionId/checklist/items/:itemId', requireInspectionOwner, async (req, res) => {
+    const parsed = updateChecklistItemSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid checklist item payload', details: parsed.error.flatten() })
+      return
+    }
+    const expectedVersion = readExpectedVersion(req, res)
+    if (expectedVersion === null) {
+      return
+    }
+
+    try {
+      const checklist = await checklistService.updateItem(
+        req.params.inspectionId,
+        req.params.itemId,
+        parsed.data,
+        'technician',
+        expectedVersion,
+      )
+      res.json(checklist)
+    } catch (error) {
+      sendChecklistError(error, res)
+    }
+  })
+
+  router.post('/inspections/:inspectionId/snapshots/signed-url', requireInspectionOwner, async (req, res) => {
+    const parsed = signedUploadSchema.safeParse(req.body)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid upload payload', details: parsed.error.flatten() })
+      return
+    }
+
+    try {
+      const signed = await storageService.createSignedUploadUrl(
+        req.params.inspectionId,
+        parsed.data.fileName,
+        parsed.data.contentType,
+      )
+      res.json(signed)
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to create signed upload URL',
+      })
+    }
+  })
+
+  router.post('/inspections/:inspectionId/snapshots/attach', requireInspectionOwner, async (req, res) => {
+    const parsed = attachImageSchema.safeParse(req.body)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid attach payload', details: parsed.error.flatten() })
+      return
+    }
+
+    try {
+      let imageUrlToStore = parsed.data.imageUrl
+
+      // Try to extract object path and generate signed read URL
+      // This handles MinIO URLs that need signed access
+      try {
+        const url = new URL(parsed.data.imageUrl)
+        const pathname = url.pathname
+        
+        // Check if this looks like a MinIO/GCS path
         if (pathname.includes('/inspections/')) {
           // Extract object path (remove leading slash and bucket name if present)
           let objectPath = pathname.startsWith('/') ? pathname.slice(1) : pathname
@@ -252,7 +1283,7 @@ export function createDataRouter(
     }
   })
 
-  router.post('/inspections/:inspectionId/report', async (req, res) => {
+  router.post('/inspections/:inspectionId/report', requireInspectionOwner, async (req, res) => {
     const inspection = await dataService.getInspectionById(req.params.inspectionId)
     if (!inspection) {
       res.status(404).json({ error: 'Inspection not found' })
@@ -280,8 +1311,8 @@ export function createDataRouter(
     }
   })
 
-  router.get('/inspections/:inspectionId/report/jobs/latest', (req, res) => {
-    const job = reportPipelineService.getLatestReportJobForInspection(req.params.inspectionId)
+  router.get('/inspections/:inspectionId/report/jobs/latest', async (req, res) => {
+    const job = await reportPipelineService.getLatestReportJobForInspection(req.params.inspectionId)
     if (!job) {
       res.status(404).json({ error: 'Report job not found' })
       return
@@ -290,8 +1321,8 @@ export function createDataRouter(
     res.json(job)
   })
 
-  router.get('/inspections/:inspectionId/report/jobs/:jobId', (req, res) => {
-    const job = reportPipelineService.getReportJob(req.params.jobId)
+  router.get('/inspections/:inspectionId/report/jobs/:jobId', async (req, res) => {
+    const job = await reportPipelineService.getReportJob(req.params.jobId)
     if (!job || job.inspectionId !== req.params.inspectionId) {
       res.status(404).json({ error: 'Report job not found' })
       return
@@ -300,7 +1331,39 @@ export function createDataRouter(
     res.json(job)
   })
 
+  /** The renderer `Accept` asks for; answers 406 and returns null when none is registered. */
+  const negotiateReportRenderer = (req: Request, res: Response): ReportRenderer | null => {
+    const mediaType = req.accepts(reportRenderers.mediaTypes())
+    const renderer = mediaType ? reportRenderers.byMediaType(mediaType) : null
+    if (!renderer) {
+      res.status(406).json({ error: 'No report format matches the Accept header', formats: reportRenderers.formats() })
+    }
+    return renderer
+  }
+
+  const pathReportRenderer = (req: Request, res: Response): ReportRenderer | null => {
+    const renderer = reportRenderers.get(req.params.format)
+    if (!renderer) {
+      res.status(404).json({
+        error: `Unknown report format '${req.params.format}'`,
+        formats: reportRenderers.formats(),
+      })
+    }
+    return renderer
+  }
+
+  const sendReport = async (res: Response, report: InspectionReport, renderer: ReportRenderer, filename: string) => {
+    const body = await renderer.render(report)
+    res.type(renderer.mediaType)
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.${renderer.format}"`)
+    res.status(200).send(body)
+  }
+
   router.get('/inspections/:inspectionId/report', async (req, res) => {
+    const renderer = negotiateReportRenderer(req, res)
+    if (!renderer) {
+      return
+    }
     let report = await dataService.getInspectionReport(req.params.inspectionId)
     
     if (!report) {
@@ -316,24 +1379,111 @@ export function createDataRouter(
       res.status(404).json({ error: 'Report not found. Try generating it first with POST /inspections/:inspectionId/report' })
       return
     }
-    res.json(report)
+    if (renderer.format === 'json') {
+      res.json(report)
+      return
+    }
+    await sendReport(res, report, renderer, `inspection-report-${report.inspectionId}`)
   })
 
-  router.get('/inspections/:inspectionId/report.pdf', async (req, res) => {
+  router.get('/inspections/:inspectionId/report.:format', async (req, res) => {
+    const renderer = pathReportRenderer(req, res)
+    if (!renderer) {
+      return
+    }
     const report = await dataService.getInspectionReport(req.params.inspectionId)
     if (!report) {
       res.status(404).json({ error: 'Report not found' })
       return
     }
 
-    const pdfBuffer = await reportPdfService.renderInspectionReportPdf(report)
-    const filename = `inspection-report-${report.inspectionId}.pdf`
+    await sendReport(res, report, renderer, `inspection-report-${report.inspectionId}`)
+  })
+
+  router.get('/inspections/:inspectionId/review/signed.pdf', async (req, res) => {
+    let signed: Awaited<ReturnType<InspectionReviewService['getSignedReport']>>
+    try {
+      signed = await inspectionReviewService.getSignedReport(req.params.inspectionId)
+    } catch (error) {
+      sendReviewError(error, res)
+      return
+    }
+    if (!signed) {
+      res.status(404).json({ error: 'Inspection not found' })
+      return
+    }
+
+    const { report, approval } = signed
+    const options: RenderReportPdfOptions = { approval }
+    const pdfBuffer = await reportPdfService.renderInspectionReportPdf(report, options)
+    const filename = `inspection-report-${report.inspectionId}-v${report.version}-signed.pdf`
     res.setHeader('Content-Type', 'application/pdf')
     res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
     res.status(200).send(pdfBuffer)
   })
 
-  router.post('/inspections/:inspectionId/ocr', async (req, res) => {
+  router.get('/inspections/:inspectionId/report/versions', async (req, res) => {
+    const versions = await dataService.listInspectionReportVersions(req.params.inspectionId)
+    res.json({ items: versions.map(summarizeReportVersion) })
+  })
+
+  router.get('/inspections/:inspectionId/report/diff', async (req, res) => {
+    const parsed = reportDiffQuerySchema.safeParse(req.query)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid report diff query', details: parsed.error.flatten() })
+      return
+    }
+
+    const [from, to] = await Promise.all([
+      dataService.getInspectionReport(req.params.inspectionId, parsed.data.from),
+      dataService.getInspectionReport(req.params.inspectionId, parsed.data.to),
+    ])
+    if (!from || !to) {
+      res.status(404).json({ error: 'Report version not found' })
+      return
+    }
+    res.json(diffInspectionReports(from, to))
+  })
+
+  // Registered before the JSON route, whose :version would otherwise take the format suffix
+  router.get('/inspections/:inspectionId/report/versions/:version.:format', async (req, res) => {
+    const renderer = pathReportRenderer(req, res)
+    if (!renderer) {
+      return
+    }
+    const version = reportVersionSchema.safeParse(req.params.version)
+    const report = version.success
+      ? await dataService.getInspectionReport(req.params.inspectionId, version.data)
+      : null
+    if (!report) {
+      res.status(404).json({ error: 'Report version not found' })
+      return
+    }
+
+    await sendReport(res, report, renderer, `inspection-report-${report.inspectionId}-v${report.version}`)
+  })
+
+  router.get('/inspections/:inspectionId/report/versions/:version', async (req, res) => {
+    const renderer = negotiateReportRenderer(req, res)
+    if (!renderer) {
+      return
+    }
+    const version = reportVersionSchema.safeParse(req.params.version)
+    const report = version.success
+      ? await dataService.getInspectionReport(req.params.inspectionId, version.data)
+      : null
+    if (!report) {
+      res.status(404).json({ error: 'Report version not found' })
+      return
+    }
+    if (renderer.format === 'json') {
+      res.json(report)
+      return
+    }
+    await sendReport(res, report, renderer, `inspection-report-${report.inspectionId}-v${report.version}`)
+  })
+
+  router.post('/inspections/:inspectionId/ocr', requireInspectionOwner, async (req, res) => {
     const parsed = ocrRequestSchema.safeParse(req.body || {})
     if (!parsed.success) {
       res.status(400).json({ error: 'Invalid OCR payload', details: parsed.error.flatten() })
@@ -354,7 +1504,14 @@ export function createDataRouter(
 
     try {
       const extracted = await ocrService.extractFromImageUrl(imageUrl)
-      await dataService.appendInspectionOcrFinding(req.params.inspectionId, {
+      // Scored before the finding is stored so the new reading is not part of its own baseline.
+      let anomalies: ReadingAnomaly[] = []
+      try {
+        anomalies = await anomalyDetectionService.analyzeOcrFinding(req.params.inspectionId, extracted)
+      } catch {
+        anomalies = []
+      }
+      const assetId = await assetLinkingService.recordOcrFinding(req.params.inspectionId, {
         imageUrl: extracted.imageUrl,
         extractedText: extracted.extractedText,
         serialNumbers: extracted.serialNumbers,
@@ -363,7 +1520,7 @@ export function createDataRouter(
         warningLabels: extracted.warningLabels,
         confidence: extracted.confidence,
       })
-      res.json(extracted)
+      res.json({ ...extracted, assetId, anomalies })
     } catch (error) {
       res.status(500).json({
         error: error instanceof Error ? error.message : 'Failed to run OCR extraction',
@@ -371,7 +1528,7 @@ export function createDataRouter(
     }
   })
 
-  router.post('/inspections/:inspectionId/workflow-actions', async (req, res) => {
+  router.post('/inspections/:inspectionId/workflow-actions', requireInspectionOwner, async (req, res) => {
     const parsed = workflowActionSchema.safeParse(req.body || {})
     if (!parsed.success) {
       res.status(400).json({ error: 'Invalid workflow action payload', details: parsed.error.flatten() })
@@ -410,6 +1567,410 @@ export function createDataRouter(
     res.status(201).json(event)
   })
 
+  router.get('/inspections/:inspectionId/time-entries', async (req, res) => {
+    try {
+      const summary = await timeTrackingService.getSummary(req.params.inspectionId)
+      res.json(summary)
+    } catch (error) {
+      sendTimeEntryError(error, res)
+    }
+  })
+
+  router.post('/inspections/:inspectionId/time-entries', requireInspectionOwner, async (req, res) => {
+    const parsed = startTimeEntrySchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid time entry payload', details: parsed.error.flatten() })
+      return
+    }
+
+    try {
+      const entry = await timeTrackingService.startTask(
+        req.params.inspectionId,
+        parsed.data.taskName,
+        parsed.data.notes,
+      )
+      res.status(201).json(entry)
+    } catch (error) {
+      sendTimeEntryError(error, res)
+    }
+  })
+
+  router.post('/inspections/:inspectionId/time-entries/:entryId/pause', requireInspectionOwner, async (req, res) => {
+    try {
+      const entry = await timeTrackingService.pauseTask(req.params.inspectionId, req.params.entryId)
+      res.json(entry)
+    } catch (error) {
+      sendTimeEntryError(error, res)
+    }
+  })
+
+  router.post('/inspections/:inspectionId/time-entries/:entryId/resume', requireInspectionOwner, async (req, res) => {
+    try {
+      const entry = await timeTrackingService.resumeTask(req.params.inspectionId, req.params.entryId)
+      res.json(entry)
+    } catch (error) {
+      sendTimeEntryError(error, res)
+    }
+  })
+
+  router.post('/inspections/:inspectionId/time-entries/:entryId/complete', requireInspectionOwner, async (req, res) => {
+    try {
+      const entry = await timeTrackingService.completeTask(req.params.inspectionId, req.params.entryId)
+      res.json(entry)
+    } catch (error) {
+      sendTimeEntryError(error, res)
+    }
+  })
+
+  router.get('/parts-orders', async (req, res) => {
+    try {
+      const inspectionId = typeof req.query.inspectionId === 'string' ? req.query.inspectionId : undefined
+      const orders =
+        req.query.status === 'open'
+          ? await partsOrderingService.listOpenOrders(inspectionId)
+          : await dataService.listPartOrders({ inspectionId })
+      res.json(orders)
+    } catch (error) {
+      sendPartOrderError(error, res)
+    }
+  })
+
+  router.get('/inspections/:inspectionId/parts-orders', async (req, res) => {
+    const inspection = await dataService.getInspectionById(req.params.inspectionId)
+    if (!inspection) {
+      res.status(404).json({ error: 'Inspection not found' })
+      return
+    }
+
+    const orders = await partsOrderingService.getOrdersForInspection(req.params.inspectionId)
+    res.json(orders)
+  })
+
+  router.post('/inspections/:inspectionId/parts-orders', requireInspectionOwner, async (req, res) => {
+    const parsed = createPartOrderSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid part order payload', details: parsed.error.flatten() })
+      return
+    }
+
+    try {
+      const order = await partsOrderingService.orderPart(
+        req.params.inspectionId,
+        parsed.data.partNumber,
+        parsed.data.quantity,
+        parsed.data.urgency,
+        parsed.data.notes,
+        parsed.data.supplierProvider,
+      )
+      res.status(201).json(order)
+    } catch (error) {
+      sendPartOrderError(error, res)
+    }
+  })
+
+  router.post('/inspections/:inspectionId/parts-orders/:orderId/cancel', requireInspectionOwner, async (req, res) => {
+    const parsed = cancelPartOrderSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid part order payload', details: parsed.error.flatten() })
+      return
+    }
+
+    try {
+      const existing = await partsOrderingService.getOrder(req.params.orderId)
+      if (!existing || existing.inspectionId !== req.params.inspectionId) {
+        res.status(404).json({ error: 'Part order not found' })
+        return
+      }
+
+      const order = await partsOrderingService.cancelOrder(req.params.orderId, parsed.data.note)
+      res.json(order)
+    } catch (error) {
+      sendPartOrderError(error, res)
+    }
+  })
+
+  const getExpertRoutingService = (res: Response): ExpertRoutingServiceLike | null => {
+    if (!expertRoutingService) {
+      res.status(503).json({ error: 'Expert routing service is not available' })
+      return null
+    }
+    return expertRoutingService
+  }
+
+  router.get('/experts', async (_req, res) => {
+    const experts = await dataService.listExpertContacts()
+    res.json(experts)
+  })
+
+  router.post('/experts', requireRole(['admin'], 'manage experts'), async (req, res) => {
+    const parsed = createExpertSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid expert payload', details: parsed.error.flatten() })
+      return
+    }
+
+    const expert = await dataService.createExpertContact(parsed.data)
+    res.status(201).json(expert)
+  })
+
+  router.patch(
+    '/experts/:expertId/availability',
+    requireRole(['admin'], 'update expert availability'),
+    async (req, res) => {
+      const parsed = updateExpertAvailabilitySchema.safeParse(req.body || {})
+      if (!parsed.success) {
+        res.status(400).json({ error: 'Invalid expert payload', details: parsed.error.flatten() })
+        return
+      }
+
+      const expert = await dataService.updateExpertContactAvailability(req.params.expertId, parsed.data.availability)
+      if (!expert) {
+        res.status(404).json({ error: 'Expert not found' })
+        return
+      }
+      res.json(expert)
+    },
+  )
+
+  router.get('/escalations', async (req, res) => {
+    const routing = getExpertRoutingService(res)
+    if (!routing) {
+      return
+    }
+
+    const escalations = await routing.listEscalations(undefined, req.query.status === 'open')
+    res.json(escalations)
+  })
+
+  router.get('/inspections/:inspectionId/escalations', async (req, res) => {
+    const routing = getExpertRoutingService(res)
+    if (!routing) {
+      return
+    }
+
+    const escalations = await routing.listEscalations(req.params.inspectionId)
+    res.json(escalations)
+  })
+
+  router.post(
+    '/inspections/:inspectionId/escalations',
+    requireInspectionOwner,
+    async (req, res) => {
+      const routing = getExpertRoutingService(res)
+      if (!routing) {
+        return
+      }
+
+      const parsed = createEscalationSchema.safeParse(req.body || {})
+      if (!parsed.success) {
+        res.status(400).json({ error: 'Invalid escalation payload', details: parsed.error.flatten() })
+        return
+      }
+
+      try {
+        const result = await routing.escalateToExpert({
+          inspectionId: req.params.inspectionId,
+          ...parsed.data,
+        })
+        res.status(201).json(result)
+      } catch (error) {
+        sendEscalationError(error, res)
+      }
+    },
+  )
+
+  router.post(
+    '/escalations/:escalationId/resolve',
+    requireEscalationOwner,
+    async (req, res) => {
+      const routing = getExpertRoutingService(res)
+      if (!routing) {
+        return
+      }
+
+      const parsed = resolveEscalationSchema.safeParse(req.body || {})
+      if (!parsed.success) {
+        res.status(400).json({ error: 'Invalid escalation payload', details: parsed.error.flatten() })
+        return
+      }
+
+      try {
+        res.json(await routing.resolve(req.params.escalationId, parsed.data.resolutionNote))
+      } catch (error) {
+        sendEscalationError(error, res)
+      }
+    },
+  )
+
+  const getTeamCollaborationService = (res: Response): TeamCollaborationServiceLike | null => {
+    if (!teamCollaborationService) {
+      res.status(503).json({ error: 'Share sessions are not available' })
+      return null
+    }
+    return teamCollaborationService
+  }
+
+  router.get('/inspections/:inspectionId/share-sessions', requireInspectionOwner, async (req, res) => {
+    const collaboration = getTeamCollaborationService(res)
+    if (!collaboration) {
+      return
+    }
+
+    const sessions = await collaboration.listSessions(req.params.inspectionId)
+    res.json(sessions)
+  })
+
+  router.post('/inspections/:inspectionId/share-sessions', requireInspectionOwner, async (req, res) => {
+    const collaboration = getTeamCollaborationService(res)
+    if (!collaboration) {
+      return
+    }
+
+    const parsed = createShareSessionSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid share session payload', details: parsed.error.flatten() })
+      return
+    }
+
+    const inspection = await dataService.getInspectionById(req.params.inspectionId)
+    if (!inspection) {
+      res.status(404).json({ error: 'Inspection not found' })
+      return
+    }
+
+    const session = await collaboration.createSession(
+      inspection.id,
+      inspection.technicianId,
+      parsed.data.expertEmail,
+      parsed.data.durationMinutes,
+      parsed.data.reason,
+    )
+    res.status(201).json(session)
+  })
+
+  router.post(
+    '/inspections/:inspectionId/share-sessions/:sessionId/end',
+    requireInspectionOwner,
+    async (req, res) => {
+      const collaboration = getTeamCollaborationService(res)
+      if (!collaboration) {
+        return
+      }
+
+      const session = await collaboration.getSession(req.params.sessionId)
+      if (!session || session.inspectionId !== req.params.inspectionId) {
+        res.status(404).json({ error: 'Share session not found' })
+        return
+      }
+
+      await collaboration.endSession(session.id)
+      res.status(204).send()
+    },
+  )
+
+  const getAnnotationService = (res: Response): AnnotationServiceLike | null => {
+    if (!annotationService) {
+      res.status(503).json({ error: 'Annotations are not available' })
+      return null
+    }
+    return annotationService
+  }
+
+  router.get('/inspections/:inspectionId/annotations', async (req, res) => {
+    const annotations = getAnnotationService(res)
+    if (!annotations) {
+      return
+    }
+
+    res.json(await annotations.listAnnotations(req.params.inspectionId))
+  })
+
+  router.post('/inspections/:inspectionId/annotations', requireInspectionOwner, async (req, res) => {
+    const annotations = getAnnotationService(res)
+    if (!annotations) {
+      return
+    }
+
+    const parsed = createAnnotationSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid annotation payload', details: parsed.error.flatten() })
+      return
+    }
+
+    try {
+      const actor = await authorizationService.resolveActor(req.authUser)
+      const annotation = await annotations.addAnnotation(req.params.inspectionId, {
+        ...parsed.data,
+        authorRole: 'technician',
+        authorId: actor.technicianId || undefined,
+      })
+      res.status(201).json(annotation)
+    } catch (error) {
+      sendAnnotationError(error, res)
+    }
+  })
+
+  router.delete(
+    '/inspections/:inspectionId/annotations/:annotationId',
+    requireInspectionOwner,
+    async (req, res) => {
+      const annotations = getAnnotationService(res)
+      if (!annotations) {
+        return
+      }
+
+      const removed = await annotations.removeAnnotation(req.params.inspectionId, req.params.annotationId)
+      if (!removed) {
+        res.status(404).json({ error: 'Annotation not found' })
+        return
+      }
+      res.status(204).send()
+    },
+  )
+
+  router.get('/checklist-templates', async (req, res) => {
+    const siteType = createChecklistTemplateSchema.shape.siteType.safeParse(req.query.siteType)
+    const templates = await dataService.listChecklistTemplates(siteType.success ? siteType.data : undefined)
+    res.json(templates)
+  })
+
+  router.get('/checklist-templates/:templateId', async (req, res) => {
+    const template = await dataService.getChecklistTemplate(req.params.templateId)
+    if (!template) {
+      res.status(404).json({ error: 'Checklist template not found' })
+      return
+    }
+    res.json(template)
+  })
+
+  router.post('/checklist-templates', requireRole(['admin'], 'manage checklist templates'), async (req, res) => {
+    const parsed = createChecklistTemplateSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid checklist template payload', details: parsed.error.flatten() })
+      return
+    }
+
+    try {
+      const template = await checklistService.createTemplate(parsed.data)
+      res.status(201).json(template)
+    } catch (error) {
+      sendChecklistError(error, res)
+    }
+  })
+
+  router.delete(
+    '/checklist-templates/:templateId',
+    requireRole(['admin'], 'manage checklist templates'),
+    async (req, res) => {
+      const deleted = await dataService.deleteChecklistTemplate(req.params.templateId)
+      if (!deleted) {
+        res.status(404).json({ error: 'Checklist template not found' })
+        return
+      }
+      res.status(204).send()
+    },
+  )
+
   const siteAssetSchema = z.object({
     siteId: z.string().min(1),
     name: z.string().min(1).max(200),
@@ -419,7 +1980,7 @@ export function createDataRouter(
     notes: z.string().max(1000).optional(),
   })
 
-  router.post('/sites/:siteId/assets', async (req, res) => {
+  router.post('/sites/:siteId/assets', requireRole(['admin', 'technician'], 'create site assets'), async (req, res) => {
     const parsed = siteAssetSchema.safeParse(req.body || {})
     if (!parsed.success) {
       res.status(400).json({ error: 'Invalid asset payload', details: parsed.error.flatten() })
@@ -435,12 +1996,43 @@ export function createDataRouter(
     res.json(assets)
   })
 
-  router.delete('/sites/:siteId/assets/:assetId', async (req, res) => {
+  router.get('/sites/:siteId/assets/risk', async (req, res) => {
+    try {
+      const assets = await predictiveMaintenanceService.rankSiteAssets(req.params.siteId)
+      res.json(assets)
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to rank site assets',
+      })
+    }
+  })
+
+  router.get('/sites/:siteId/assets/:assetId/risk', async (req, res) => {
+    try {
+      const assessment = await predictiveMaintenanceService.getAssetRisk(req.params.siteId, req.params.assetId)
+      res.json(assessment)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to assess asset risk'
+      res.status(message.includes('not found') ? 404 : 500).json({ error: message })
+    }
+  })
+
+  router.get('/sites/:siteId/assets/:assetId/timeline', async (req, res) => {
+    try {
+      const timeline = await assetLinkingService.getAssetTimeline(req.params.siteId, req.params.assetId)
+      res.json(timeline)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load asset timeline'
+      res.status(message.includes('not found') ? 404 : 500).json({ error: message })
+    }
+  })
+
+  router.delete('/sites/:siteId/assets/:assetId', requireRole(['admin'], 'delete site assets'), async (req, res) => {
     await dataService.deleteSiteAsset(req.params.assetId)
     res.status(204).send()
   })
 
-  router.post('/agent/execute', async (req, res) => {
+  router.post('/agent/execute', requireRole(['admin', 'technician'], 'execute agent tools'), async (req, res) => {
     if (!adkAgentService) {
       res.status(503).json({ error: 'ADK Agent service is not available' })
       return
@@ -453,7 +2045,8 @@ export function createDataRouter(
     }
 
     try {
-      const result = await adkAgentService.executeWithTools(message, history || [])
+      const actor = await authorizationService.resolveActor(req.authUser)
+      const result = await adkAgentService.executeWithTools(message, actor, history || [])
       res.json(result)
     } catch (error) {
       res.status(500).json({
@@ -474,5 +2067,205 @@ export function createDataRouter(
     })
   })
 
+  router.get('/audit', requireRole(['admin'], 'read the audit log'), async (req, res) => {
+    const parsed = listAuditQuerySchema.safeParse(req.query)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid audit query', details: parsed.error.flatten() })
+      return
+    }
+
+    res.json(await auditService.list(parsed.data))
+  })
+
+  router.get('/audit/verify', requireRole(['admin'], 'verify the audit log'), async (_req, res) => {
+    res.json(await auditService.verify())
+  })
+
+  router.get('/admin/export', requireRole(['admin'], 'export data'), async (_req, res) => {
+    res.setHeader('Content-Type', 'application/x-ndjson')
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="fieldsight-archive-${new Date().toISOString().slice(0, 10)}.ndjson"`,
+    )
+    try {
+      for await (const line of dataArchiveService.exportLines()) {
+        res.write(`${line}\n`)
+      }
+      res.end()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to export data'
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : new Error(message))
+        return
+      }
+      res.status(500).json({ error: message })
+    }
+  })
+
+  router.get('/admin/retention', requireRole(['admin'], 'read retention settings'), (_req, res) => {
+    res.json({ defaults: retentionService.getDefaults() })
+  })
+
+  router.post('/admin/retention/purge', requireRole(['admin'], 'purge expired data'), async (_req, res) => {
+    res.json(await retentionService.purgeExpired())
+  })
+
+  router.get('/admin/report-jobs', requireRole(['admin'], 'list report jobs'), async (req, res) => {
+    const parsed = listReportJobsQuerySchema.safeParse(req.query)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid report job query', details: parsed.error.flatten() })
+      return
+    }
+
+    const { inspectionId, status, limit } = parsed.data
+    res.json(await reportPipelineService.listReportJobs({ inspectionId, statuses: status, limit }))
+  })
+
+  router.post('/admin/report-jobs/:jobId/requeue', requireRole(['admin'], 'requeue report jobs'), async (req, res) => {
+    try {
+      const job = await reportPipelineService.requeueReportJob(req.params.jobId)
+      if (!job) {
+        res.status(404).json({ error: 'Report job not found' })
+        return
+      }
+      res.json(job)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to requeue report job'
+      res.status(error instanceof ReportJobStateError ? 409 : 500).json({ error: message })
+    }
+  })
+
+  router.post('/admin/erasure-requests', requireRole(['admin'], 'erase technician data'), async (req, res) => {
+    const parsed = erasureRequestSchema.safeParse(req.body)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid erasure request', details: parsed.error.flatten() })
+      return
+    }
+
+    try {
+      const certificate = await retentionService.eraseTechnician(parsed.data.technicianId, req.authUser)
+      if (!certificate) {
+        res.status(404).json({ error: 'Technician not found' })
+        return
+      }
+      res.status(201).json(certificate)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to erase technician data'
+      res.status(error instanceof ErasureError ? 503 : 500).json({ error: message })
+    }
+  })
+
+  router.post(
+    '/admin/import',
+    requireRole(['admin'], 'import data'),
+    text({ type: ['application/x-ndjson', 'text/plain'], limit: '100mb' }),
+    async (req, res) => {
+      const parsed = importArchiveQuerySchema.safeParse(req.query)
+      if (!parsed.success) {
+        res.status(400).json({ error: 'Invalid import query', details: parsed.error.flatten() })
+        return
+      }
+      if (typeof req.body !== 'string') {
+        res.status(415).json({ error: 'Archive must be sent as application/x-ndjson' })
+        return
+      }
+
+      try {
+        const result = await dataArchiveService.importLines(req.body.split('\n'), {
+          dryRun: parsed.data.dryRun === 'true',
+        })
+        res.json(result)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to import data'
+        res.status(error instanceof DataArchiveError ? 400 : 500).json({ error: message })
+      }
+    },
+  )
+
+  const getOrganizationDirectory = (res: Response): OrganizationDirectory | null => {
+    if (!organizationDirectory) {
+      res.status(503).json({ error: 'Organizations are not available' })
+      return null
+    }
+    return organizationDirectory
+  }
+
+  /** Only admins of the default organization manage the list of organizations. */
+  const requireOperator: RequestHandler = (req, res, next) => {
+    if ((currentOrganizationId() ?? DEFAULT_ORGANIZATION_ID) !== DEFAULT_ORGANIZATION_ID) {
+      res.status(403).json({
+        error: 'Only the default organization manages organizations',
+        code: 'not_default_organization',
+      })
+      return
+    }
+    next()
+  }
+
+  router.get('/organization', async (_req, res) => {
+    const directory = getOrganizationDirectory(res)
+    if (!directory) return
+
+    const organization = await directory.getOrganization(currentOrganizationId() ?? DEFAULT_ORGANIZATION_ID)
+    if (!organization) {
+      res.status(404).json({ error: 'Organization not found' })
+      return
+    }
+    res.json(toPublicOrganization(organization))
+  })
+
+  router.patch('/organization', requireRole(['admin'], 'update the organization'), async (req, res) => {
+    const directory = getOrganizationDirectory(res)
+    if (!directory) return
+
+    const parsed = updateOrganizationSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid organization payload', details: parsed.error.flatten() })
+      return
+    }
+
+    const current = await directory.getOrganization(currentOrganizationId() ?? DEFAULT_ORGANIZATION_ID)
+    if (!current) {
+      res.status(404).json({ error: 'Organization not found' })
+      return
+    }
+
+    const organization = await directory.updateOrganization(current.id, {
+      ...(parsed.data.name ? { name: parsed.data.name } : {}),
+      ...(parsed.data.settings ? { settings: restoreRedactedSecrets(parsed.data.settings, current.settings) } : {}),
+    })
+    if (!organization) {
+      res.status(404).json({ error: 'Organization not found' })
+      return
+    }
+    res.json(toPublicOrganization(organization))
+  })
+
+  router.get('/organizations', requireOperator, requireRole(['admin'], 'list organizations'), async (_req, res) => {
+    const directory = getOrganizationDirectory(res)
+    if (!directory) return
+
+    res.json((await directory.listOrganizations()).map(toPublicOrganization))
+  })
+
+  router.post('/organizations', requireOperator, requireRole(['admin'], 'create organizations'), async (req, res) => {
+    const directory = getOrganizationDirectory(res)
+    if (!directory) return
+
+    const parsed = createOrganizationSchema.safeParse(req.body)
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid organization payload', details: parsed.error.flatten() })
+      return
+    }
+
+    try {
+      const organization = await directory.createOrganization(parsed.data)
+      res.status(201).json(toPublicOrganization(organization))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to create organization'
+      res.status(error instanceof OrganizationExistsError ? 409 : 500).json({ error: message })
+    }
+  })
+
   return router
 }
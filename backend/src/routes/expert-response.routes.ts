@@ -0,0 +1,84 @@
+import { Router, type Response } from 'express'
+import { z } from 'zod'
+import type { ExpertEscalation } from '../types'
+import { EscalationAccessError, EscalationStateError } from '../services/expert-routing.service'
+import { registerAuditTrail, type AuditTrail } from './audit-trail'
+
+interface ExpertResponseServiceLike {
+  isResponseConfigured: () => boolean
+  acknowledge: (escalationId: string, responseToken: string | undefined) => Promise<ExpertEscalation>
+  resolveAsExpert: (
+    escalationId: string,
+    resolutionNote: string,
+    responseToken: string | undefined,
+  ) => Promise<ExpertEscalation>
+}
+
+const expertResolutionSchema = z.object({
+  resolutionNote: z.string().trim().min(1).max(2000),
+})
+
+function sendExpertResponseError(error: unknown, res: Response): void {
+  const message = error instanceof Error ? error.message : 'Failed to update escalation'
+  const statusCode =
+    error instanceof EscalationAccessError
+      ? 401
+      : error instanceof EscalationStateError
+        ? 409
+        : message.includes('not found')
+          ? 404
+          : 500
+  res.status(statusCode).json({ error: message })
+}
+
+/**
+ * Responses from paged experts. Mounted outside `/api/v1` because experts have
+ * no account; they act with the `X-Escalation-Token` sent with their page,
+ * which names the escalation's assigned expert.
+ */
+export function createExpertResponseRouter(
+  expertRoutingService: ExpertResponseServiceLike,
+  auditTrail?: AuditTrail,
+): Router {
+  const router = Router()
+  if (auditTrail) {
+    registerAuditTrail(router, auditTrail)
+  }
+
+  router.use((_req, res, next) => {
+    if (!expertRoutingService.isResponseConfigured()) {
+      res.status(503).json({ error: 'Expert responses are not configured' })
+      return
+    }
+    next()
+  })
+
+  router.post('/escalations/:escalationId/acknowledge', async (req, res) => {
+    try {
+      res.json(await expertRoutingService.acknowledge(req.params.escalationId, req.header('x-escalation-token')))
+    } catch (error) {
+      sendExpertResponseError(error, res)
+    }
+  })
+
+  router.post('/escalations/:escalationId/resolve', async (req, res) => {
+    const parsed = expertResolutionSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid escalation payload', details: parsed.error.flatten() })
+      return
+    }
+
+    try {
+      const escalation = await expertRoutingService.resolveAsExpert(
+        req.params.escalationId,
+        parsed.data.resolutionNote,
+        req.header('x-escalation-token'),
+      )
+      res.json(escalation)
+    } catch (error) {
+      sendExpertResponseError(error, res)
+    }
+  })
+
+  return router
+}
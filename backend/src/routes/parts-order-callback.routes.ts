@@ -0,0 +1,70 @@
+import { Router } from 'express'
+import { z } from 'zod'
+import type { PartOrder } from '../types'
+import {
+  PartOrderTransitionError,
+  type PartOrderStatusUpdate,
+} from '../services/parts-ordering.service'
+import { registerAuditTrail, type AuditTrail } from './audit-trail'
+
+interface PartsOrderingServiceLike {
+  isCallbackConfigured: () => boolean
+  verifyCallbackToken: (token: string | undefined) => boolean
+  applyStatusUpdate: (orderId: string, update: PartOrderStatusUpdate) => Promise<PartOrder>
+}
+
+const partOrderStatusCallbackSchema = z.object({
+  status: z.enum(['pending', 'ordered', 'shipped', 'delivered', 'cancelled']),
+  note: z.string().trim().max(500).optional(),
+  externalReferenceId: z.string().trim().min(1).max(128).optional(),
+  estimatedDelivery: z.string().datetime().optional(),
+})
+
+/**
+ * Inbound supplier callbacks. Mounted outside `/api/v1` because suppliers
+ * authenticate with the organization's `X-Callback-Token` rather than user tokens.
+ */
+export function createPartsOrderCallbackRouter(
+  partsOrderingService: PartsOrderingServiceLike,
+  auditTrail?: AuditTrail,
+): Router {
+  const router = Router()
+  if (auditTrail) {
+    registerAuditTrail(router, auditTrail)
+  }
+
+  router.post('/parts-orders/:orderId/status', async (req, res) => {
+    if (!partsOrderingService.isCallbackConfigured()) {
+      res.status(503).json({ error: 'Parts order callbacks are not configured' })
+      return
+    }
+
+    if (!partsOrderingService.verifyCallbackToken(req.header('x-callback-token'))) {
+      res.status(401).json({ error: 'Invalid callback token' })
+      return
+    }
+
+    const parsed = partOrderStatusCallbackSchema.safeParse(req.body || {})
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid part order status payload', details: parsed.error.flatten() })
+      return
+    }
+
+    try {
+      const order = await partsOrderingService.applyStatusUpdate(req.params.orderId, {
+        status: parsed.data.status,
+        note: parsed.data.note,
+        externalReferenceId: parsed.data.externalReferenceId,
+        estimatedDelivery: parsed.data.estimatedDelivery ? new Date(parsed.data.estimatedDelivery) : undefined,
+      })
+      res.json(order)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update part order'
+      const statusCode =
+        error instanceof PartOrderTransitionError ? 409 : message.includes('not found') ? 404 : 500
+      res.status(statusCode).json({ error: message })
+    }
+  })
+
+  return router
+}
@@ -2,6 +2,10 @@ import { AdkAgentService } from '../services/adk-agent.service'
 import type { DataService } from '../services/data-service'
 import type { WorkflowAutomationService } from '../services/workflow-automation.service'
 import type { EquipmentOcrService } from '../services/equipment-ocr.service'
+import type { AccessActor } from '../services/authorization.service'
+import type { Inspection } from '../types'
+
+const owner: AccessActor = { role: 'technician', uid: 'uid-1', technicianId: 'tech-1' }
 
 describe('AdkAgentService', () => {
   let mockDataService: jest.Mocked<DataService>
@@ -13,6 +17,10 @@ describe('AdkAgentService', () => {
       appendInspectionWorkflowEvent: jest.fn(),
       appendInspectionOcrFinding: jest.fn(),
       getInspectionById: jest.fn(),
+      listSiteAssets: jest.fn().mockResolvedValue([]),
+      linkInspectionAssets: jest.fn(),
+      createTimeEntry: jest.fn(),
+      listTimeEntries: jest.fn(),
     } as unknown as jest.Mocked<DataService>
 
     mockWorkflowService = {
@@ -52,7 +60,7 @@ describe('AdkAgentService', () => {
         mockOcrService,
       )
 
-      const result = await service.executeWithTools('Hello')
+      const result = await service.executeWithTools('Hello', owner)
 
       expect(result.success).toBe(false)
       expect(result.message).toContain('GEMINI_API_KEY')
@@ -95,7 +103,7 @@ describe('AdkAgentService', () => {
         mockOcrService,
       )
 
-      const result = await service.executeTool('unknown_tool', {})
+      const result = await service.executeTool('unknown_tool', {}, owner)
 
       expect(result.success).toBe(false)
       expect(result.message).toContain('Unknown tool')
@@ -108,7 +116,7 @@ describe('AdkAgentService', () => {
         mockOcrService,
       )
 
-      const result = await service.executeTool('log_issue', {})
+      const result = await service.executeTool('log_issue', {}, owner)
 
       expect(result.success).toBe(false)
       expect(result.message).toContain('inspectionId is required')
@@ -121,6 +129,7 @@ describe('AdkAgentService', () => {
         mockOcrService,
       )
 
+      mockDataService.getInspectionById.mockResolvedValue({ id: 'inspection-123', technicianId: 'tech-1' } as Inspection)
       mockDataService.appendInspectionWorkflowEvent.mockResolvedValue({
         id: 'event-1',
         action: 'log_issue',
@@ -133,7 +142,7 @@ describe('AdkAgentService', () => {
       const result = await service.executeTool('log_issue', {
         inspectionId: 'inspection-123',
         note: 'Test issue',
-      })
+      }, owner)
 
       expect(result.success).toBe(true)
       expect(result.toolName).toBe('log_issue')
@@ -147,6 +156,31 @@ describe('AdkAgentService', () => {
       )
     })
 
+    it('should refuse to write to an inspection owned by another technician', async () => {
+      const service = new AdkAgentService(
+        mockDataService,
+        mockWorkflowService,
+        mockOcrService,
+      )
+
+      mockDataService.getInspectionById.mockResolvedValue({ id: 'inspection-123', technicianId: 'tech-2' } as Inspection)
+
+      const toolNames = [
+        'log_issue', 'create_ticket', 'add_to_history', 'run_ocr', 'capture_location', 'track_time', 'order_part',
+        'start_share_session',
+      ]
+      for (const toolName of toolNames) {
+        const params = { inspectionId: 'inspection-123', partNumber: 'VLV-200', expertEmail: 'expert@example.com' }
+        const result = await service.executeTool(toolName, params, owner)
+        expect(result).toEqual(expect.objectContaining({ success: false, toolName }))
+        expect(result.message).toContain('only modify their own inspections')
+      }
+      expect(mockDataService.appendInspectionWorkflowEvent).not.toHaveBeenCalled()
+      expect(mockWorkflowService.runAction).not.toHaveBeenCalled()
+      expect(mockOcrService.extractFromImageUrl).not.toHaveBeenCalled()
+      expect(mockDataService.createTimeEntry).not.toHaveBeenCalled()
+    })
+
     it('should run OCR when inspectionId and imageUrl provided', async () => {
       const service = new AdkAgentService(
         mockDataService,
@@ -157,6 +191,7 @@ describe('AdkAgentService', () => {
       mockDataService.getInspectionById.mockResolvedValue({
         id: 'inspection-123',
         status: 'in_progress',
+        assetIds: [],
         images: ['https://example.com/image.jpg'],
         technicianId: 'tech-1',
         siteId: 'site-1',
@@ -165,8 +200,10 @@ describe('AdkAgentService', () => {
         detectedFaults: [],
         recommendedActions: [],
         ocrFindings: [],
+        anomalyFindings: [],
         workflowEvents: [],
         transcript: '',
+        version: 1,
         summary: '',
       })
 
@@ -183,7 +220,7 @@ describe('AdkAgentService', () => {
       const result = await service.executeTool('run_ocr', {
         inspectionId: 'inspection-123',
         imageUrl: 'https://example.com/image.jpg',
-      })
+      }, owner)
 
       expect(result.success).toBe(true)
       expect(result.toolName).toBe('run_ocr')
@@ -207,6 +244,7 @@ describe('AdkAgentService', () => {
       mockDataService.getInspectionById.mockResolvedValue({
         id: 'inspection-123',
         status: 'in_progress',
+        assetIds: [],
         images: [],
         technicianId: 'tech-1',
         siteId: 'site-1',
@@ -215,17 +253,68 @@ describe('AdkAgentService', () => {
         detectedFaults: [],
         recommendedActions: [],
         ocrFindings: [],
+        anomalyFindings: [],
         workflowEvents: [],
         transcript: '',
+        version: 1,
         summary: '',
       })
 
       const result = await service.executeTool('run_ocr', {
         inspectionId: 'inspection-123',
-      })
+      }, owner)
 
       expect(result.success).toBe(false)
       expect(result.message).toContain('No image found')
     })
+
+    it('should start a persisted time entry for track_time', async () => {
+      const service = new AdkAgentService(
+        mockDataService,
+        mockWorkflowService,
+        mockOcrService,
+      )
+
+      mockDataService.getInspectionById.mockResolvedValue({
+        id: 'inspection-123',
+        status: 'in_progress',
+        assetIds: [],
+        images: [],
+        technicianId: 'tech-1',
+        siteId: 'site-1',
+        timestamp: new Date(),
+        safetyFlags: [],
+        detectedFaults: [],
+        recommendedActions: [],
+        ocrFindings: [],
+        anomalyFindings: [],
+        workflowEvents: [],
+        transcript: '',
+        version: 1,
+      })
+      mockDataService.listTimeEntries.mockResolvedValue([])
+      mockDataService.createTimeEntry.mockImplementation(async (input) => ({
+        id: 'time-1',
+        ...input,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }))
+
+      const result = await service.executeTool('track_time', {
+        inspectionId: 'inspection-123',
+        taskName: 'Valve replacement',
+        duration: 'started',
+      }, owner)
+
+      expect(result.success).toBe(true)
+      expect(result.toolName).toBe('track_time')
+      expect(mockDataService.createTimeEntry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          inspectionId: 'inspection-123',
+          taskName: 'Valve replacement',
+          status: 'running',
+        }),
+      )
+    })
   })
 })
@@ -1,11 +1,16 @@
 import { GoogleGenAI, Content } from '@google/genai'
 import type { DataService } from './data-service'
 import type { WorkflowAutomationService } from './workflow-automation.service'
+import { AssetLinkingService } from './asset-linking.service'
 import type { EquipmentOcrService } from './equipment-ocr.service'
 import { LocationService } from './location.service'
 import { PushNotificationService } from './push-notification.service'
+import { PartsOrderingService } from './parts-ordering.service'
+import { TeamCollaborationService } from './team-collaboration.service'
+import { TimeTrackingService } from './time-tracking.service'
+import { AuthorizationError, AuthorizationService, type AccessActor } from './authorization.service'
 import { ALL_ADK_FUNCTIONS, type AdkFunctionDeclaration } from '../agents/tools'
-import type { WorkflowActionType } from '../types'
+import type { Inspection, WorkflowActionType } from '../types'
 
 export interface AgentExecutionResult {
   success: boolean
@@ -76,6 +81,11 @@ export class AdkAgentService {
   private readonly ocrService: EquipmentOcrService
   private readonly locationService: LocationService
   private readonly notificationService: PushNotificationService
+  private readonly timeTrackingService: TimeTrackingService
+  private readonly partsOrderingService: PartsOrderingService
+  private readonly teamCollaborationService: TeamCollaborationService
+  private readonly assetLinkingService: AssetLinkingService
+  private readonly authorizationService: AuthorizationService
   private readonly config: Required<AgentConfig>
   private lowBandwidthMode: string = 'auto'
 
@@ -92,6 +102,11 @@ export class AdkAgentService {
     this.ocrService = ocrService
     this.locationService = new LocationService()
     this.notificationService = new PushNotificationService()
+    this.timeTrackingService = new TimeTrackingService(dataService)
+    this.partsOrderingService = new PartsOrderingService(dataService)
+    this.teamCollaborationService = new TeamCollaborationService(dataService)
+    this.assetLinkingService = new AssetLinkingService(dataService)
+    this.authorizationService = new AuthorizationService(dataService)
     this.config = {
       systemPrompt: config?.systemPrompt || DEFAULT_SYSTEM_PROMPT,
       model: config?.model || process.env.GEMINI_MODEL?.trim() || 'gemini-2.0-flash',
@@ -109,6 +124,7 @@ export class AdkAgentService {
 
   public async executeWithTools(
     userMessage: string,
+    actor: AccessActor,
     conversationHistory: Content[] = [],
   ): Promise<AgentExecutionResult> {
     if (!this.client) {
@@ -159,7 +175,7 @@ export class AdkAgentService {
             message: 'Function call name is missing',
           }
         }
-        const toolResult = await this.executeTool(functionCall.name, functionCall.args || {})
+        const toolResult = await this.executeTool(functionCall.name, functionCall.args || {}, actor)
 
         const toolMessage: Content = {
           role: 'user',
@@ -209,27 +225,28 @@ export class AdkAgentService {
   public async executeTool(
     toolName: string,
     params: Record<string, unknown>,
+    actor: AccessActor,
   ): Promise<AgentExecutionResult> {
     try {
       switch (toolName) {
         case 'log_issue': {
-          const result = await this.handleLogIssue(params)
+          const result = await this.handleLogIssue(params, actor)
           return { ...result, toolName }
         }
         case 'create_ticket': {
-          const result = await this.handleCreateTicket(params)
+          const result = await this.handleCreateTicket(params, actor)
           return { ...result, toolName }
         }
         case 'notify_supervisor': {
-          const result = await this.handleNotifySupervisor(params)
+          const result = await this.handleNotifySupervisor(params, actor)
           return { ...result, toolName }
         }
         case 'add_to_history': {
-          const result = await this.handleAddToHistory(params)
+          const result = await this.handleAddToHistory(params, actor)
           return { ...result, toolName }
         }
         case 'run_ocr': {
-          const result = await this.handleRunOcr(params)
+          const result = await this.handleRunOcr(params, actor)
           return { ...result, toolName }
         }
         case 'enable_low_bandwidth': {
@@ -245,7 +262,19 @@ export class AdkAgentService {
           return { ...result, toolName }
         }
         case 'capture_location': {
-          const result = await this.handleCaptureLocation(params)
+          const result = await this.handleCaptureLocation(params, actor)
+          return { ...result, toolName }
+        }
+        case 'track_time': {
+          const result = await this.handleTrackTime(params, actor)
+          return { ...result, toolName }
+        }
+        case 'order_part': {
+          const result = await this.handleOrderPart(params, actor)
+          return { ...result, toolName }
+        }
+        case 'start_share_session': {
+          const result = await this.handleStartShareSession(params, actor)
           return { ...result, toolName }
         }
         default:
@@ -255,6 +284,9 @@ export class AdkAgentService {
           }
       }
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return { success: false, message: error.message, toolName }
+      }
       console.error(`ADK tool execution failed for ${toolName}:`, error)
       return {
         success: false,
@@ -263,12 +295,16 @@ export class AdkAgentService {
     }
   }
 
-  private async handleLogIssue(params: Record<string, unknown>): Promise<AgentExecutionResult> {
+  private async handleLogIssue(params: Record<string, unknown>, actor: AccessActor): Promise<AgentExecutionResult> {
     const inspectionId = this.validateRequiredString(params.inspectionId, 'inspectionId')
     if (!inspectionId) {
       return { success: false, message: 'inspectionId is required for log_issue' }
     }
 
+    if (!(await this.loadInspectionForWrite(inspectionId, actor))) {
+      return { success: false, message: `Inspection ${inspectionId} not found` }
+    }
+
     const note = typeof params.note === 'string' ? params.note : 'Issue logged via AI assistant'
 
     const event = await this.dataService.appendInspectionWorkflowEvent(inspectionId, {
@@ -285,12 +321,16 @@ export class AdkAgentService {
     }
   }
 
-  private async handleCreateTicket(params: Record<string, unknown>): Promise<AgentExecutionResult> {
+  private async handleCreateTicket(params: Record<string, unknown>, actor: AccessActor): Promise<AgentExecutionResult> {
     const inspectionId = this.validateRequiredString(params.inspectionId, 'inspectionId')
     if (!inspectionId) {
       return { success: false, message: 'inspectionId is required for create_ticket' }
     }
 
+    if (!(await this.loadInspectionForWrite(inspectionId, actor))) {
+      return { success: false, message: `Inspection ${inspectionId} not found` }
+    }
+
     const note = typeof params.note === 'string' ? params.note : 'Ticket created via AI assistant'
 
     const result = await this.workflowService.runAction({
@@ -306,12 +346,16 @@ export class AdkAgentService {
     }
   }
 
-  private async handleNotifySupervisor(params: Record<string, unknown>): Promise<AgentExecutionResult> {
+  private async handleNotifySupervisor(params: Record<string, unknown>, actor: AccessActor): Promise<AgentExecutionResult> {
     const inspectionId = this.validateRequiredString(params.inspectionId, 'inspectionId')
     if (!inspectionId) {
       return { success: false, message: 'inspectionId is required for notify_supervisor' }
     }
 
+    if (!(await this.loadInspectionForWrite(inspectionId, actor))) {
+      return { success: false, message: `Inspection ${inspectionId} not found` }
+    }
+
     const note = typeof params.note === 'string' ? params.note : 'Notification sent via AI assistant'
 
     const result = await this.workflowService.runAction({
@@ -326,12 +370,16 @@ export class AdkAgentService {
     }
   }
 
-  private async handleAddToHistory(params: Record<string, unknown>): Promise<AgentExecutionResult> {
+  private async handleAddToHistory(params: Record<string, unknown>, actor: AccessActor): Promise<AgentExecutionResult> {
     const inspectionId = this.validateRequiredString(params.inspectionId, 'inspectionId')
     if (!inspectionId) {
       return { success: false, message: 'inspectionId is required for add_to_history' }
     }
 
+    if (!(await this.loadInspectionForWrite(inspectionId, actor))) {
+      return { success: false, message: `Inspection ${inspectionId} not found` }
+    }
+
     const note = typeof params.note === 'string' ? params.note : 'Inspection completed via AI assistant'
 
     const event = await this.dataService.appendInspectionWorkflowEvent(inspectionId, {
@@ -348,7 +396,7 @@ export class AdkAgentService {
     }
   }
 
-  private async handleRunOcr(params: Record<string, unknown>): Promise<AgentExecutionResult> {
+  private async handleRunOcr(params: Record<string, unknown>, actor: AccessActor): Promise<AgentExecutionResult> {
     const inspectionId = this.validateRequiredString(params.inspectionId, 'inspectionId')
     if (!inspectionId) {
       return { success: false, message: 'inspectionId is required for run_ocr' }
@@ -356,7 +404,7 @@ export class AdkAgentService {
 
     const imageUrl = typeof params.imageUrl === 'string' ? params.imageUrl : undefined
 
-    const inspection = await this.dataService.getInspectionById(inspectionId)
+    const inspection = await this.loadInspectionForWrite(inspectionId, actor)
     if (!inspection) {
       return { success: false, message: `Inspection ${inspectionId} not found` }
     }
@@ -368,7 +416,7 @@ export class AdkAgentService {
 
     const extracted = await this.ocrService.extractFromImageUrl(targetImageUrl)
 
-    await this.dataService.appendInspectionOcrFinding(inspectionId, {
+    await this.assetLinkingService.recordOcrFinding(inspectionId, {
       imageUrl: extracted.imageUrl,
       extractedText: extracted.extractedText,
       serialNumbers: extracted.serialNumbers,
@@ -469,12 +517,16 @@ export class AdkAgentService {
     }
   }
 
-  private async handleCaptureLocation(params: Record<string, unknown>): Promise<AgentExecutionResult> {
+  private async handleCaptureLocation(params: Record<string, unknown>, actor: AccessActor): Promise<AgentExecutionResult> {
     const inspectionId = this.validateRequiredString(params.inspectionId, 'inspectionId')
     if (!inspectionId) {
       return { success: false, message: 'inspectionId is required for capture_location' }
     }
 
+    if (!(await this.loadInspectionForWrite(inspectionId, actor))) {
+      return { success: false, message: `Inspection ${inspectionId} not found` }
+    }
+
     const label = typeof params.label === 'string' ? params.label : undefined
 
     const location = await this.locationService.captureLocation(inspectionId, label)
@@ -493,6 +545,129 @@ export class AdkAgentService {
     }
   }
 
+  private async handleTrackTime(params: Record<string, unknown>, actor: AccessActor): Promise<AgentExecutionResult> {
+    const inspectionId = this.validateRequiredString(params.inspectionId, 'inspectionId')
+    if (!inspectionId) {
+      return { success: false, message: 'inspectionId is required for track_time' }
+    }
+
+    if (!(await this.loadInspectionForWrite(inspectionId, actor))) {
+      return { success: false, message: `Inspection ${inspectionId} not found` }
+    }
+
+    const taskName = this.validateRequiredString(params.taskName, 'taskName') || 'Inspection task'
+    const notes = typeof params.notes === 'string' ? params.notes : undefined
+    const duration = String(params.duration ?? '').trim().toLowerCase()
+
+    if (duration === 'start' || duration === 'started') {
+      const entry = await this.timeTrackingService.startTask(inspectionId, taskName, notes)
+      return { success: true, message: `Started tracking time for "${taskName}".`, data: entry }
+    }
+
+    if (duration === 'pause' || duration === 'paused') {
+      const entry = await this.timeTrackingService.pauseTask(inspectionId)
+      if (!entry) {
+        return { success: false, message: `No running task to pause for inspection ${inspectionId}.` }
+      }
+      return { success: true, message: `Paused "${entry.taskName}".`, data: entry }
+    }
+
+    if (duration === 'complete' || duration === 'completed' || duration === 'stop' || duration === 'stopped') {
+      const entry = await this.timeTrackingService.completeTask(inspectionId)
+      if (!entry) {
+        return { success: false, message: `No open task to complete for inspection ${inspectionId}.` }
+      }
+      const minutes = Math.floor(entry.durationSeconds / 60)
+      return {
+        success: true,
+        message: `Completed "${entry.taskName}" after ${this.timeTrackingService.formatDuration(minutes)}.`,
+        data: entry,
+      }
+    }
+
+    const minutes = Number.parseFloat(duration)
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+      return {
+        success: false,
+        message: 'duration must be a number of minutes or one of: started, paused, completed',
+      }
+    }
+
+    const entry = await this.timeTrackingService.logTime(inspectionId, taskName, minutes, notes)
+    return {
+      success: true,
+      message: `Logged ${this.timeTrackingService.formatDuration(Math.round(minutes))} for "${taskName}".`,
+      data: entry,
+    }
+  }
+
+  private async handleOrderPart(params: Record<string, unknown>, actor: AccessActor): Promise<AgentExecutionResult> {
+    const inspectionId = this.validateRequiredString(params.inspectionId, 'inspectionId')
+    const partNumber = this.validateRequiredString(params.partNumber, 'partNumber')
+    if (!inspectionId || !partNumber) {
+      return { success: false, message: 'inspectionId and partNumber are required for order_part' }
+    }
+
+    if (!(await this.loadInspectionForWrite(inspectionId, actor))) {
+      return { success: false, message: `Inspection ${inspectionId} not found` }
+    }
+
+    const quantity = Number(params.quantity ?? 1)
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      return { success: false, message: 'quantity must be a positive whole number' }
+    }
+
+    const rawUrgency = typeof params.urgency === 'string' ? params.urgency.trim().toLowerCase() : ''
+    const urgency = rawUrgency === 'urgent' || rawUrgency === 'critical' ? rawUrgency : 'routine'
+    const notes = typeof params.notes === 'string' ? params.notes : undefined
+
+    const order = await this.partsOrderingService.orderPart(inspectionId, partNumber, quantity, urgency, notes)
+    const reference = order.externalReferenceId ? ` Reference: ${order.externalReferenceId}.` : ''
+    return {
+      success: true,
+      message: `Order for ${quantity} x ${partNumber} is ${order.status}.${reference}`,
+      data: order,
+    }
+  }
+
+  private async handleStartShareSession(params: Record<string, unknown>, actor: AccessActor): Promise<AgentExecutionResult> {
+    const inspectionId = this.validateRequiredString(params.inspectionId, 'inspectionId')
+    const expertEmail = this.validateRequiredString(params.expertEmail, 'expertEmail')
+    if (!inspectionId || !expertEmail) {
+      return { success: false, message: 'inspectionId and expertEmail are required for start_share_session' }
+    }
+
+    const inspection = await this.loadInspectionForWrite(inspectionId, actor)
+    if (!inspection) {
+      return { success: false, message: `Inspection ${inspectionId} not found` }
+    }
+
+    const duration = Number.parseInt(String(params.duration ?? '30'), 10)
+    const reason = typeof params.reason === 'string' ? params.reason : undefined
+    const session = await this.teamCollaborationService.createSession(
+      inspectionId,
+      inspection.technicianId,
+      expertEmail,
+      Number.isFinite(duration) ? duration : 30,
+      reason,
+    )
+
+    return {
+      success: true,
+      message: `Share session created for ${expertEmail}. Invite link: ${session.inviteUrl}`,
+      data: session,
+    }
+  }
+
+  /** Loads the inspection a tool writes to, refusing callers who may not modify it. */
+  private async loadInspectionForWrite(inspectionId: string, actor: AccessActor): Promise<Inspection | null> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (inspection) {
+      this.authorizationService.assertCanModifyInspection(actor, inspection)
+    }
+    return inspection
+  }
+
   private validateRequiredString(value: unknown, fieldName: string): string | null {
     if (typeof value === 'string' && value.trim().length > 0) {
       return value.trim()
@@ -503,6 +678,7 @@ export class AdkAgentService {
   public async processVoiceTranscript(
     transcript: string,
     inspectionId: string,
+    actor: AccessActor,
     pendingAction?: WorkflowActionType,
   ): Promise<VoiceWorkflowResult> {
     if (!this.client) {
@@ -550,7 +726,11 @@ export class AdkAgentService {
         const cancelPatterns = /\b(cancel|stop|never mind|abort|don't|no)\b/i
 
         if (confirmPatterns.test(transcript)) {
-          const result = await this.executeTool(pendingAction, { inspectionId, note: `Voice confirmed: ${transcript}` })
+          const result = await this.executeTool(
+            pendingAction,
+            { inspectionId, note: `Voice confirmed: ${transcript}` },
+            actor,
+          )
           return {
             action: pendingAction,
             requiresConfirmation: false,
@@ -600,7 +780,7 @@ export class AdkAgentService {
           const result = await this.executeTool(functionCall.name, {
             inspectionId,
             note: functionCall.args?.note || `Voice command: ${transcript}`,
-          })
+          }, actor)
           return {
             action,
             requiresConfirmation: true,
@@ -614,7 +794,7 @@ export class AdkAgentService {
         const result = await this.executeTool(functionCall.name, {
           inspectionId,
           note: functionCall.args?.note || `Voice command: ${transcript}`,
-        })
+        }, actor)
 
         return {
           action,
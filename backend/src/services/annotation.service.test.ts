@@ -0,0 +1,106 @@
+import {
+  AnnotationService,
+  AnnotationValidationError,
+  summarizeAnnotations,
+  type AnnotationChange,
+} from './annotation.service'
+import type { DataService } from './data-service'
+import type { Inspection, InspectionAnnotation } from '../types'
+
+function createDataService(): Pick<
+  DataService,
+  'getInspectionById' | 'createAnnotation' | 'listAnnotations' | 'deleteAnnotation'
+> {
+  const annotations = new Map<string, InspectionAnnotation>()
+  let nextId = 1
+
+  return {
+    async getInspectionById(id: string) {
+      return id === 'insp-1'
+        ? ({ id, technicianId: 'tech-1', images: ['https://cdn.example.com/snapshots/frame-2.jpg'] } as Inspection)
+        : null
+    },
+    async createAnnotation(input) {
+      const annotation: InspectionAnnotation = { id: `ann-${nextId++}`, ...input, createdAt: new Date() }
+      annotations.set(annotation.id, annotation)
+      return annotation
+    },
+    async listAnnotations(inspectionId) {
+      return Array.from(annotations.values()).filter((annotation) => annotation.inspectionId === inspectionId)
+    },
+    async deleteAnnotation(inspectionId, annotationId) {
+      const current = annotations.get(annotationId)
+      if (!current || current.inspectionId !== inspectionId) {
+        return false
+      }
+      return annotations.delete(annotationId)
+    },
+  }
+}
+
+describe('AnnotationService', () => {
+  it('clamps points, attaches the latest snapshot and notifies listeners', async () => {
+    const changes: AnnotationChange[] = []
+    const service = new AnnotationService(createDataService(), {
+      onAnnotationChanged: (change) => changes.push(change),
+    })
+
+    const annotation = await service.addAnnotation('insp-1', {
+      tool: 'rectangle',
+      color: '#00ff00',
+      points: [
+        { x: -0.2, y: 0.123456 },
+        { x: 0.5, y: 1.4 },
+      ],
+      authorRole: 'expert',
+      authorId: 'expert@example.com',
+    })
+
+    expect(annotation.points).toEqual([
+      { x: 0, y: 0.1235 },
+      { x: 0.5, y: 1 },
+    ])
+    expect(annotation.snapshotUrl).toBe('https://cdn.example.com/snapshots/frame-2.jpg')
+    expect(changes).toEqual([{ type: 'added', annotation }])
+
+    await expect(service.removeAnnotation('insp-1', annotation.id)).resolves.toBe(true)
+    expect(changes[1]).toEqual({ type: 'removed', inspectionId: 'insp-1', annotationId: annotation.id })
+    await expect(service.listAnnotations('insp-1')).resolves.toEqual([])
+  })
+
+  it('rejects shapes without enough points and unknown inspections', async () => {
+    const service = new AnnotationService(createDataService())
+
+    await expect(
+      service.addAnnotation('insp-1', {
+        tool: 'arrow',
+        color: '#ff0000',
+        points: [{ x: 0.2, y: 0.2 }],
+        authorRole: 'technician',
+      }),
+    ).rejects.toBeInstanceOf(AnnotationValidationError)
+    await expect(
+      service.addAnnotation('missing', {
+        tool: 'text',
+        color: '#ff0000',
+        points: [{ x: 0.2, y: 0.2 }],
+        text: 'Valve',
+        authorRole: 'technician',
+      }),
+    ).rejects.toThrow('Inspection not found')
+  })
+
+  it('summarizes annotations per snapshot for reports', () => {
+    const base = { inspectionId: 'insp-1', color: '#ff0000', points: [], createdAt: new Date() }
+    const summary = summarizeAnnotations([
+      { ...base, id: 'a', tool: 'arrow', authorRole: 'expert', snapshotUrl: 'https://cdn/x/frame-1.jpg?sig=1' },
+      { ...base, id: 'b', tool: 'text', text: 'Check seal', authorRole: 'technician', snapshotUrl: 'https://cdn/x/frame-1.jpg?sig=1' },
+      { ...base, id: 'c', tool: 'circle', authorRole: 'technician' },
+    ])
+
+    expect(summary).toEqual([
+      'frame-1.jpg: 2 annotations (arrow by expert, text "Check seal" by technician)',
+      'Live view: 1 annotation (circle by technician)',
+    ])
+  })
+})
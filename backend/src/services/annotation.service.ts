@@ -0,0 +1,106 @@
+import type { DataService } from './data-service'
+import type { AnnotationPoint, InspectionAnnotation } from '../types'
+
+export type AnnotationInput = Omit<InspectionAnnotation, 'id' | 'inspectionId' | 'createdAt'>
+
+export type AnnotationChange =
+  | { type: 'added'; annotation: InspectionAnnotation }
+  | { type: 'removed'; inspectionId: string; annotationId: string }
+
+export class AnnotationValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AnnotationValidationError'
+  }
+}
+
+type AnnotationDataService = Pick<
+  DataService,
+  'getInspectionById' | 'createAnnotation' | 'listAnnotations' | 'deleteAnnotation'
+>
+
+interface AnnotationServiceOptions {
+  onAnnotationChanged?: (change: AnnotationChange) => void
+}
+
+function describeSnapshot(snapshotUrl?: string): string {
+  if (!snapshotUrl) {
+    return 'Live view'
+  }
+  const path = snapshotUrl.split('?')[0]
+  return path.slice(path.lastIndexOf('/') + 1) || snapshotUrl
+}
+
+export function summarizeAnnotations(annotations: InspectionAnnotation[]): string[] {
+  const bySnapshot = new Map<string, InspectionAnnotation[]>()
+  for (const annotation of annotations) {
+    const key = describeSnapshot(annotation.snapshotUrl)
+    bySnapshot.set(key, [...(bySnapshot.get(key) || []), annotation])
+  }
+
+  return Array.from(bySnapshot.entries()).map(([snapshot, group]) => {
+    const details = group.map((annotation) => {
+      const label = annotation.text ? ` "${annotation.text}"` : ''
+      return `${annotation.tool}${label} by ${annotation.authorRole}`
+    })
+    const noun = group.length === 1 ? 'annotation' : 'annotations'
+    return `${snapshot}: ${group.length} ${noun} (${details.join(', ')})`
+  })
+}
+
+export class AnnotationService {
+  private readonly dataService: AnnotationDataService
+  private readonly onAnnotationChanged?: AnnotationServiceOptions['onAnnotationChanged']
+
+  constructor(dataService: AnnotationDataService, options: AnnotationServiceOptions = {}) {
+    this.dataService = dataService
+    this.onAnnotationChanged = options.onAnnotationChanged
+  }
+
+  /**
+   * Stores an annotation drawn by the technician or a remote expert. Without an
+   * explicit snapshot it is attached to the latest image on the inspection,
+   * which is the frame share viewers are looking at.
+   */
+  public async addAnnotation(inspectionId: string, input: AnnotationInput): Promise<InspectionAnnotation> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      throw new Error('Inspection not found')
+    }
+
+    const minimumPoints = input.tool === 'text' ? 1 : 2
+    if (input.points.length < minimumPoints) {
+      throw new AnnotationValidationError(`A ${input.tool} annotation needs at least ${minimumPoints} points`)
+    }
+    if (input.tool === 'text' && !input.text?.trim()) {
+      throw new AnnotationValidationError('A text annotation needs a label')
+    }
+
+    const annotation = await this.dataService.createAnnotation({
+      ...input,
+      inspectionId,
+      snapshotUrl: input.snapshotUrl || inspection.images[inspection.images.length - 1],
+      points: input.points.map((point) => this.normalizePoint(point)),
+      text: input.text?.trim() || undefined,
+    })
+    this.onAnnotationChanged?.({ type: 'added', annotation })
+    return annotation
+  }
+
+  public async listAnnotations(inspectionId: string): Promise<InspectionAnnotation[]> {
+    return this.dataService.listAnnotations(inspectionId)
+  }
+
+  public async removeAnnotation(inspectionId: string, annotationId: string): Promise<boolean> {
+    const removed = await this.dataService.deleteAnnotation(inspectionId, annotationId)
+    if (removed) {
+      this.onAnnotationChanged?.({ type: 'removed', inspectionId, annotationId })
+    }
+    return removed
+  }
+
+  private normalizePoint(point: AnnotationPoint): AnnotationPoint {
+    const clamp = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 10000) / 10000
+    return { x: clamp(point.x), y: clamp(point.y) }
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  AnomalyDetectionService,
+  evaluateReading,
+  parseMeterReading,
+} from './anomaly-detection.service'
+import type { DataService } from './data-service'
+import type { Inspection, OcrFinding, ReadingAnomaly } from '../types'
+
+function ocrFinding(serial: string, reading: string, createdAt: string): OcrFinding {
+  return {
+    imageUrl: 'https://cdn.example.com/frame.jpg',
+    extractedText: reading,
+    serialNumbers: [serial],
+    partCodes: [],
+    meterReadings: [reading],
+    warningLabels: [],
+    confidence: 0.9,
+    createdAt: new Date(createdAt),
+  }
+}
+
+function createDataService(history: OcrFinding[]): Pick<
+  DataService,
+  'getInspectionById' | 'listInspections' | 'appendInspectionAnomalyFindings'
+> & { stored: ReadingAnomaly[] } {
+  const stored: ReadingAnomaly[] = []
+  const inspection = { id: 'insp-2', siteId: 'site-1', ocrFindings: [] as OcrFinding[] } as Inspection
+  const prior = { id: 'insp-1', siteId: 'site-1', ocrFindings: history } as Inspection
+
+  return {
+    stored,
+    async getInspectionById(id: string) {
+      return id === inspection.id ? inspection : null
+    },
+    async listInspections(filters) {
+      return filters.siteId === 'site-1' ? [inspection, prior] : []
+    },
+    async appendInspectionAnomalyFindings(_inspectionId, findings) {
+      stored.push(...findings)
+    },
+  }
+}
+
+describe('AnomalyDetectionService', () => {
+  const originalKey = process.env.GEMINI_API_KEY
+
+  beforeEach(() => {
+    delete process.env.GEMINI_API_KEY
+  })
+
+  afterAll(() => {
+    process.env.GEMINI_API_KEY = originalKey
+  })
+
+  it('parses labelled meter readings with units and thousands separators', () => {
+    expect(parseMeterReading('Discharge pressure: 1,250.5 psi')).toEqual({
+      metric: 'discharge pressure psi',
+      value: 1250.5,
+    })
+    expect(parseMeterReading('-4 °C')).toEqual({ metric: '°c', value: -4 })
+    expect(parseMeterReading('no digits here')).toBeNull()
+  })
+
+  it('flags outliers against rolling, EWMA and rate-of-change baselines', () => {
+    const history = [100, 101, 99, 100, 102, 98].map((value, index) => ({
+      value,
+      recordedAt: new Date(Date.UTC(2026, 0, index + 1)),
+    }))
+
+    const normal = evaluateReading({ value: 101, recordedAt: new Date(Date.UTC(2026, 0, 8)) }, history)
+    const spike = evaluateReading({ value: 130, recordedAt: new Date(Date.UTC(2026, 0, 8)) }, history)
+
+    expect(normal.isAnomaly).toBe(false)
+    expect(normal.baseline?.mean).toBe(100)
+    expect(spike.isAnomaly).toBe(true)
+    expect(spike.severity).toBe('critical')
+    expect(spike.reasons).toHaveLength(3)
+    expect(spike.baseline?.ratePerDay).toBe(16)
+  })
+
+  it('needs a minimum history before scoring', () => {
+    const result = evaluateReading({ value: 500, recordedAt: new Date() }, [{ value: 1, recordedAt: new Date(0) }])
+
+    expect(result).toMatchObject({ isAnomaly: false, baseline: null })
+  })
+
+  it('builds history from prior OCR findings for the same serial and stores results without Gemini', async () => {
+    const dataService = createDataService([
+      ocrFinding('pmp-7', 'Pressure 120 psi', '2026-01-01T00:00:00.000Z'),
+      ocrFinding('PMP-7', 'Pressure 121 psi', '2026-01-02T00:00:00.000Z'),
+      ocrFinding('PMP-7', 'Pressure 119 psi', '2026-01-03T00:00:00.000Z'),
+      ocrFinding('PMP-9', 'Pressure 300 psi', '2026-01-03T00:00:00.000Z'),
+    ])
+    const service = new AnomalyDetectionService(dataService)
+
+    const results = await service.analyzeOcrFinding(
+      'insp-2',
+      { serialNumbers: [' PMP-7 '], meterReadings: ['Pressure 180 psi'] },
+      new Date('2026-01-04T00:00:00.000Z'),
+    )
+
+    expect(results).toHaveLength(1)
+    expect(results[0]).toMatchObject({
+      assetSerial: 'PMP-7',
+      metric: 'pressure psi',
+      isAnomaly: true,
+      severity: 'critical',
+    })
+    expect(results[0].baseline?.sampleSize).toBe(3)
+    expect(results[0].explanation).toBeUndefined()
+    expect(dataService.stored).toEqual(results)
+  })
+})
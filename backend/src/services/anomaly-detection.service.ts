@@ -1,4 +1,7 @@
 import { GoogleGenAI } from '@google/genai'
+import { v4 as uuidv4 } from 'uuid'
+import type { DataService } from './data-service'
+import type { OcrFinding, ReadingAnomaly, ReadingBaseline } from '../types'
 
 export interface AnomalyDetectionResult {
   isAnomaly: boolean
@@ -14,167 +17,325 @@ export interface AnomalyDetectionResult {
   recommendations: string[]
 }
 
-interface AnomalyPayload {
-  isAnomaly?: boolean
-  anomalyType?: string
-  severity?: string
-  description?: string
-  confidence?: number
-  historicalBaseline?: {
-    normalValue?: string
-    deviation?: number
-    deviationPercent?: number
+export interface ReadingSample {
+  value: number
+  recordedAt: Date
+}
+
+export interface ParsedMeterReading {
+  metric: string
+  value: number
+}
+
+export interface ReadingEvaluation {
+  isAnomaly: boolean
+  severity: ReadingAnomaly['severity']
+  reasons: string[]
+  baseline: ReadingBaseline | null
+}
+
+type AnomalyDetectionDataService = Pick<
+  DataService,
+  'getInspectionById' | 'listInspections' | 'appendInspectionAnomalyFindings'
+>
+
+const ROLLING_WINDOW = 20
+const MIN_HISTORY = 3
+const EWMA_ALPHA = 0.3
+const SIGMA_THRESHOLD = 3
+const RATE_RATIO_THRESHOLD = 5
+const DAY_MS = 86_400_000
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * Pulls the first numeric value out of an OCR meter reading such as
+ * "Discharge pressure: 1,250.5 psi". The label and unit form the metric so
+ * readings are only compared with like readings.
+ */
+export function parseMeterReading(raw: string): ParsedMeterReading | null {
+  const normalized = raw.replace(/(\d),(\d{3})(?!\d)/g, '$1$2')
+  const match = normalized.match(/^(.*?)(-?\d+(?:\.\d+)?)\s*([a-z°%µ/]+)?/i)
+  if (!match) {
+    return null
+  }
+
+  const value = Number(match[2])
+  if (!Number.isFinite(value)) {
+    return null
+  }
+
+  const label = match[1]
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  const unit = (match[3] || '').toLowerCase()
+
+  return {
+    metric: [label, unit].filter(Boolean).join(' ') || 'reading',
+    value,
+  }
+}
+
+export function computeReadingBaseline(current: ReadingSample, history: ReadingSample[]): ReadingBaseline | null {
+  const window = [...history]
+    .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+    .slice(-ROLLING_WINDOW)
+  if (window.length < MIN_HISTORY) {
+    return null
+  }
+
+  const values = window.map((sample) => sample.value)
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const stdDev = Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length)
+  // A perfectly flat history would make any change infinitely unusual, so σ is floored at 1% of the mean.
+  const scale = Math.max(stdDev, Math.abs(mean) * 0.01, 1e-6)
+  const ewma = values.slice(1).reduce((smoothed, value) => EWMA_ALPHA * value + (1 - EWMA_ALPHA) * smoothed, values[0])
+
+  const rates: number[] = []
+  for (let i = 1; i < window.length; i += 1) {
+    const days = (window[i].recordedAt.getTime() - window[i - 1].recordedAt.getTime()) / DAY_MS
+    if (days > 0) {
+      rates.push(Math.abs(window[i].value - window[i - 1].value) / days)
+    }
+  }
+
+  const last = window[window.length - 1]
+  const daysSinceLast = (current.recordedAt.getTime() - last.recordedAt.getTime()) / DAY_MS
+
+  return {
+    sampleSize: window.length,
+    mean: round(mean),
+    stdDev: round(stdDev),
+    ewma: round(ewma),
+    zScore: round((current.value - mean) / scale),
+    ewmaDeviation: round((current.value - ewma) / scale),
+    ratePerDay: daysSinceLast > 0 ? round((current.value - last.value) / daysSinceLast) : undefined,
+    typicalRatePerDay: rates.length > 0 ? round(rates.reduce((sum, rate) => sum + rate, 0) / rates.length) : undefined,
+  }
+}
+
+export function evaluateReading(current: ReadingSample, history: ReadingSample[]): ReadingEvaluation {
+  const baseline = computeReadingBaseline(current, history)
+  if (!baseline) {
+    return {
+      isAnomaly: false,
+      severity: 'low',
+      reasons: [`Only ${history.length} prior readings; at least ${MIN_HISTORY} are needed for a baseline`],
+      baseline: null,
+    }
+  }
+
+  const reasons: string[] = []
+  if (Math.abs(baseline.zScore) >= SIGMA_THRESHOLD) {
+    reasons.push(`${baseline.zScore}σ from the rolling mean of ${baseline.mean} (σ ${baseline.stdDev})`)
+  }
+  if (Math.abs(baseline.ewmaDeviation) >= SIGMA_THRESHOLD) {
+    reasons.push(`${baseline.ewmaDeviation}σ from the EWMA of ${baseline.ewma}`)
+  }
+
+  const rateFlagged =
+    baseline.ratePerDay !== undefined &&
+    baseline.typicalRatePerDay !== undefined &&
+    baseline.typicalRatePerDay > 0 &&
+    Math.abs(baseline.ratePerDay) / baseline.typicalRatePerDay >= RATE_RATIO_THRESHOLD
+  if (rateFlagged) {
+    reasons.push(`Changing ${baseline.ratePerDay}/day against a typical ${baseline.typicalRatePerDay}/day`)
+  }
+
+  const maxSigma = Math.max(Math.abs(baseline.zScore), Math.abs(baseline.ewmaDeviation))
+  let severity: ReadingAnomaly['severity'] = 'low'
+  if (maxSigma >= 6) {
+    severity = 'critical'
+  } else if (maxSigma >= 4.5) {
+    severity = 'high'
+  } else if (maxSigma >= SIGMA_THRESHOLD || rateFlagged) {
+    severity = 'medium'
+  }
+
+  return {
+    isAnomaly: reasons.length > 0,
+    severity,
+    reasons: reasons.length > 0 ? reasons : [`Within ${SIGMA_THRESHOLD}σ of ${baseline.sampleSize} prior readings`],
+    baseline,
+  }
+}
+
+function recommendationsFor(evaluation: ReadingEvaluation): string[] {
+  if (!evaluation.isAnomaly) {
+    return ['Continue monitoring']
+  }
+
+  const recommendations = [
+    'Re-read the meter to rule out an OCR or gauge error',
+    'Compare the reading against the equipment rated operating range',
+  ]
+  if (evaluation.severity === 'high' || evaluation.severity === 'critical') {
+    recommendations.push('Escalate to a specialist before returning the asset to service')
   }
-  recommendations?: string[]
+  return recommendations
 }
 
 export class AnomalyDetectionService {
   private readonly client: GoogleGenAI | null
+  private readonly dataService: AnomalyDetectionDataService
 
-  constructor() {
+  constructor(dataService: AnomalyDetectionDataService) {
+    this.dataService = dataService
     const apiKey = process.env.GEMINI_API_KEY?.trim()
     this.client = apiKey ? new GoogleGenAI({ apiKey }) : null
   }
 
-  public async detectAnomaly(
-    currentReading: number,
-    equipmentType: string,
-    historicalData?: number[],
-  ): Promise<AnomalyDetectionResult> {
-    if (!this.client) {
-      return this.fallbackResult('Anomaly detection service unavailable')
+  /**
+   * Compares each meter reading in a new OCR finding against prior readings of
+   * the same asset (matched by serial number across inspections at the site)
+   * and stores the results on the inspection. Call it before the finding
+   * itself is stored so the reading is not part of its own baseline.
+   */
+  public async analyzeOcrFinding(
+    inspectionId: string,
+    finding: Pick<OcrFinding, 'serialNumbers' | 'meterReadings'>,
+    recordedAt: Date = new Date(),
+  ): Promise<ReadingAnomaly[]> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      throw new Error('Inspection not found')
     }
 
-    const baselineStats = this.calculateBaselineStats(historicalData || [])
-    const prompt = this.buildAnomalyPrompt(equipmentType, currentReading, baselineStats)
+    const assetSerial = finding.serialNumbers.map((serial) => this.normalizeSerial(serial)).find(Boolean)
+    if (!assetSerial || finding.meterReadings.length === 0) {
+      return []
+    }
 
-    try {
-      const result = await this.client.models.generateContent({
-        model: process.env.GEMINI_MODEL || 'gemini-2.0-flash',
-        contents: [{ text: prompt }],
-        config: {
-          responseMimeType: 'application/json',
-          temperature: 0.1,
-        },
-      })
+    const history = await this.loadReadingHistory(inspection.siteId, assetSerial)
+    const anomalies: ReadingAnomaly[] = []
+
+    for (const rawReading of finding.meterReadings) {
+      const parsed = parseMeterReading(rawReading)
+      if (!parsed) {
+        continue
+      }
 
-      return this.parseAnomalyResult(result.text || '{}', currentReading, baselineStats)
-    } catch (error) {
-      return this.fallbackResult(
-        error instanceof Error ? error.message : 'Anomaly detection failed',
-      )
+      const evaluation = evaluateReading({ value: parsed.value, recordedAt }, history.get(parsed.metric) || [])
+      const anomaly: ReadingAnomaly = {
+        id: uuidv4(),
+        assetSerial,
+        metric: parsed.metric,
+        rawReading,
+        value: parsed.value,
+        ...evaluation,
+        createdAt: recordedAt,
+      }
+      if (anomaly.isAnomaly) {
+        anomaly.explanation = await this.explainAnomaly(anomaly)
+      }
+      anomalies.push(anomaly)
     }
-  }
 
-  private calculateBaselineStats(data: number[]): {
-    mean: number
-    stdDev: number
-    min: number
-    max: number
-  } {
-    if (data.length === 0) {
-      return { mean: 0, stdDev: 0, min: 0, max: 0 }
+    if (anomalies.length > 0) {
+      await this.dataService.appendInspectionAnomalyFindings(inspectionId, anomalies)
     }
+    return anomalies
+  }
 
-    const mean = data.reduce((a, b) => a + b, 0) / data.length
-    const variance = data.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / data.length
-    const stdDev = Math.sqrt(variance)
+  /**
+   * Scores a single reading against caller-supplied history, oldest first and
+   * treated as daily readings. Gemini, when configured, only rewrites the description.
+   */
+  public async detectAnomaly(
+    currentReading: number,
+    equipmentType: string,
+    historicalData: number[] = [],
+  ): Promise<AnomalyDetectionResult> {
+    const now = Date.now()
+    const history = historicalData.map((value, index) => ({
+      value,
+      recordedAt: new Date(now - (historicalData.length - index) * DAY_MS),
+    }))
+    const evaluation = evaluateReading({ value: currentReading, recordedAt: new Date(now) }, history)
+    const baseline = evaluation.baseline
+    const explanation = evaluation.isAnomaly
+      ? await this.explainAnomaly({ ...evaluation, metric: equipmentType, value: currentReading })
+      : undefined
 
     return {
-      mean,
-      stdDev,
-      min: Math.min(...data),
-      max: Math.max(...data),
+      isAnomaly: evaluation.isAnomaly,
+      anomalyType: evaluation.isAnomaly ? 'statistical' : undefined,
+      severity: evaluation.severity,
+      description: explanation || evaluation.reasons.join('; '),
+      confidence: baseline ? round(Math.min(0.95, 0.5 + baseline.sampleSize / 40)) : 0.2,
+      historicalBaseline: baseline
+        ? {
+            normalValue: baseline.mean.toFixed(2),
+            deviation: baseline.zScore,
+            deviationPercent:
+              baseline.mean !== 0 ? round((Math.abs(currentReading - baseline.mean) / Math.abs(baseline.mean)) * 100) : 0,
+          }
+        : undefined,
+      recommendations: recommendationsFor(evaluation),
     }
   }
 
-  private buildAnomalyPrompt(
-    equipmentType: string,
-    currentReading: number,
-    baseline: { mean: number; stdDev: number; min: number; max: number },
-  ): string {
-    const hasHistory = baseline.stdDev > 0
-    const zScore = hasHistory ? (currentReading - baseline.mean) / baseline.stdDev : 0
-
-    return `Analyze the following equipment reading for anomalies:
-
-Equipment Type: ${equipmentType}
-Current Reading: ${currentReading}
-${hasHistory ? `
-Historical Data:
-- Mean: ${baseline.mean.toFixed(2)}
-- Standard Deviation: ${baseline.stdDev.toFixed(2)}
-- Min: ${baseline.min.toFixed(2)}
-- Max: ${baseline.max.toFixed(2)}
-- Z-Score: ${zScore.toFixed(2)}
-` : 'No historical data available.'}
-
-Return JSON with:
-{
-  "isAnomaly": boolean,
-  "anomalyType": "statistical" | "visual" | "behavioral" | null,
-  "severity": "low" | "medium" | "high" | "critical",
-  "description": "string",
-  "confidence": 0-1,
-  "historicalBaseline": {
-    "normalValue": "string",
-    "deviation": number,
-    "deviationPercent": number
-  } | null,
-  "recommendations": ["string"]
-}`
-  }
-
-  private parseAnomalyResult(
-    rawText: string,
-    currentReading: number,
-    baseline: { mean: number; stdDev: number },
-  ): AnomalyDetectionResult {
-    const cleaned = rawText.trim().replace(/^```json\s*/i, '').replace(/```$/i, '').trim()
+  private async loadReadingHistory(siteId: string, assetSerial: string): Promise<Map<string, ReadingSample[]>> {
+    const inspections = await this.dataService.listInspections({ siteId })
+    const history = new Map<string, ReadingSample[]>()
 
-    try {
-      const payload = JSON.parse(cleaned) as AnomalyPayload
-      const zScore = baseline.stdDev > 0 ? (currentReading - baseline.mean) / baseline.stdDev : 0
-
-      return {
-        isAnomaly: payload.isAnomaly ?? false,
-        anomalyType: payload.anomalyType as AnomalyDetectionResult['anomalyType'] || undefined,
-        severity: this.validateSeverity(payload.severity),
-        description: payload.description || 'Analysis complete',
-        confidence: Math.max(0, Math.min(1, payload.confidence || 0)),
-        historicalBaseline: payload.historicalBaseline
-          ? {
-              normalValue: payload.historicalBaseline.normalValue || baseline.mean.toFixed(2),
-              deviation: payload.historicalBaseline.deviation ?? zScore,
-              deviationPercent: payload.historicalBaseline.deviationPercent ?? Math.abs(zScore * 10),
-            }
-          : undefined,
-        recommendations: payload.recommendations || [],
-      }
-    } catch {
-      return {
-        isAnomaly: false,
-        severity: 'low',
-        description: 'Analysis complete',
-        confidence: 0.5,
-        recommendations: ['Continue monitoring'],
+    for (const inspection of inspections) {
+      for (const ocrFinding of inspection.ocrFindings) {
+        if (!ocrFinding.serialNumbers.some((serial) => this.normalizeSerial(serial) === assetSerial)) {
+          continue
+        }
+        for (const rawReading of ocrFinding.meterReadings) {
+          const parsed = parseMeterReading(rawReading)
+          if (!parsed) {
+            continue
+          }
+          history.set(parsed.metric, [
+            ...(history.get(parsed.metric) || []),
+            { value: parsed.value, recordedAt: ocrFinding.createdAt },
+          ])
+        }
       }
     }
+
+    return history
   }
 
-  private validateSeverity(severity?: string): AnomalyDetectionResult['severity'] {
-    if (!severity) return 'low'
-    const valid = ['low', 'medium', 'high', 'critical']
-    return valid.includes(severity.toLowerCase()) ? severity.toLowerCase() as AnomalyDetectionResult['severity'] : 'low'
+  private normalizeSerial(serial: string): string {
+    return serial.trim().toUpperCase()
   }
 
-  private fallbackResult(message: string): AnomalyDetectionResult {
-    return {
-      isAnomaly: false,
-      severity: 'low',
-      description: message,
-      confidence: 0,
-      recommendations: ['Retry later'],
+  private async explainAnomaly(
+    anomaly: Pick<ReadingAnomaly, 'metric' | 'value' | 'severity' | 'reasons'>,
+  ): Promise<string | undefined> {
+    if (!this.client) {
+      return undefined
+    }
+
+    const prompt = `A field inspection meter reading was flagged by statistical checks.
+
+Metric: ${anomaly.metric}
+Reading: ${anomaly.value}
+Severity: ${anomaly.severity}
+Signals:
+${anomaly.reasons.map((reason) => `- ${reason}`).join('\n')}
+
+In two sentences, explain the likely cause and what the technician should check next.`
+
+    try {
+      const result = await this.client.models.generateContent({
+        model: process.env.GEMINI_MODEL || 'gemini-2.0-flash',
+        contents: [{ text: prompt }],
+        config: {
+          temperature: 0.2,
+        },
+      })
+      return result.text?.trim() || undefined
+    } catch {
+      return undefined
     }
   }
 }
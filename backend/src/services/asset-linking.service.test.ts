@@ -0,0 +1,148 @@
+import { AssetLinkError, AssetLinkingService } from './asset-linking.service'
+import type { DataService } from './data-service'
+import type { DetectedFault, Inspection, OcrFinding, SiteAsset } from '../types'
+
+function asset(id: string, name: string, serialNumber?: string, siteId = 'site-1'): SiteAsset {
+  return { id, siteId, name, assetType: 'pump', serialNumber, createdAt: new Date(), updatedAt: new Date() }
+}
+
+function fault(component: string, assetId?: string): DetectedFault {
+  return { component, faultType: 'leak', confidence: 0.7, description: 'Seal weeping', recommendedActions: [], assetId }
+}
+
+function createDataService(assets: SiteAsset[], initial: Partial<Inspection> = {}) {
+  const inspection: Inspection = {
+    id: 'insp-1',
+    technicianId: 'tech-1',
+    siteId: 'site-1',
+    timestamp: new Date('2026-02-01T08:00:00.000Z'),
+    status: 'in_progress',
+    assetIds: [],
+    images: [],
+    safetyFlags: [],
+    detectedFaults: [],
+    recommendedActions: [],
+    ocrFindings: [],
+    anomalyFindings: [],
+    workflowEvents: [],
+    transcript: '',
+    version: 1,
+    ...initial,
+  }
+
+  const dataService: Pick<
+    DataService,
+    | 'getInspectionById'
+    | 'listInspections'
+    | 'linkInspectionAssets'
+    | 'appendInspectionDetectedFaults'
+    | 'appendInspectionOcrFinding'
+    | 'listSiteAssets'
+    | 'getSiteAsset'
+  > = {
+    async getInspectionById(id) {
+      return id === inspection.id ? { ...inspection } : null
+    },
+    async listInspections(filters) {
+      return filters.assetId && !inspection.assetIds.includes(filters.assetId) ? [] : [{ ...inspection }]
+    },
+    async linkInspectionAssets(_id, assetIds) {
+      inspection.assetIds = [...new Set([...inspection.assetIds, ...assetIds])]
+      return { ...inspection }
+    },
+    async appendInspectionDetectedFaults(_id, faults) {
+      inspection.detectedFaults.push(...faults)
+    },
+    async appendInspectionOcrFinding(_id, finding) {
+      inspection.ocrFindings.push({ ...finding, createdAt: new Date('2026-02-01T09:00:00.000Z') } as OcrFinding)
+    },
+    async listSiteAssets(siteId) {
+      return assets.filter((item) => item.siteId === siteId)
+    },
+    async getSiteAsset(assetId) {
+      return assets.find((item) => item.id === assetId) ?? null
+    },
+  }
+
+  return { dataService, inspection }
+}
+
+describe('AssetLinkingService', () => {
+  it('tags OCR findings with the asset whose serial was read and links it to the inspection', async () => {
+    const { dataService, inspection } = createDataService([asset('asset-1', 'Feed pump', 'SN-100')])
+    const service = new AssetLinkingService(dataService)
+
+    const assetId = await service.recordOcrFinding('insp-1', {
+      imageUrl: 'https://cdn.example.com/plate.jpg',
+      extractedText: 'S/N sn-100',
+      serialNumbers: [' sn-100'],
+      partCodes: [],
+      meterReadings: ['Pressure 42 psi'],
+      warningLabels: [],
+      confidence: 0.9,
+    })
+
+    expect(assetId).toBe('asset-1')
+    expect(inspection.ocrFindings[0].assetId).toBe('asset-1')
+    expect(inspection.assetIds).toEqual(['asset-1'])
+  })
+
+  it('attributes faults by name, then by the single targeted asset', async () => {
+    const assets = [asset('asset-1', 'Feed pump'), asset('asset-2', 'Cooling fan')]
+    const { dataService, inspection } = createDataService(assets, { assetIds: ['asset-1'] })
+    const service = new AssetLinkingService(dataService)
+
+    const attributed = await service.recordDetectedFaults('insp-1', [
+      fault('cooling fan shroud'),
+      fault('coupling'),
+      fault('gearbox', 'asset-9'),
+    ])
+
+    expect(attributed.map((item) => item.assetId)).toEqual(['asset-2', 'asset-1', 'asset-9'])
+    expect(inspection.assetIds).toEqual(['asset-1', 'asset-2', 'asset-9'])
+  })
+
+  it('builds a newest-first timeline of the asset history', async () => {
+    const { dataService } = createDataService([asset('asset-1', 'Feed pump'), asset('asset-2', 'Cooling fan')], {
+      assetIds: ['asset-1', 'asset-2'],
+      detectedFaults: [fault('impeller', 'asset-1'), fault('blade', 'asset-2')],
+      ocrFindings: [
+        {
+          imageUrl: 'https://cdn.example.com/plate.jpg',
+          extractedText: '',
+          serialNumbers: [],
+          partCodes: [],
+          meterReadings: ['Pressure 42 psi'],
+          warningLabels: [],
+          confidence: 0.9,
+          assetId: 'asset-1',
+          createdAt: new Date('2026-02-01T09:00:00.000Z'),
+        },
+      ],
+      workflowEvents: [
+        {
+          id: 'evt-1',
+          action: 'create_ticket',
+          status: 'completed',
+          resultMessage: 'Ticket created',
+          createdAt: new Date('2026-02-01T10:00:00.000Z'),
+        },
+      ],
+    })
+    const service = new AssetLinkingService(dataService)
+
+    const timeline = await service.getAssetTimeline('site-1', 'asset-1')
+
+    expect(timeline.map((entry) => entry.type)).toEqual(['workflow_event', 'reading', 'inspection', 'fault'])
+    expect(timeline[3].fault?.component).toBe('impeller')
+    await expect(service.getAssetTimeline('site-2', 'asset-1')).rejects.toThrow('Site asset not found')
+  })
+
+  it('rejects assets registered at another site', async () => {
+    const { dataService } = createDataService([asset('asset-1', 'Feed pump'), asset('asset-x', 'Pump', undefined, 'site-2')])
+    const service = new AssetLinkingService(dataService)
+
+    await expect(service.linkAssets('insp-1', ['asset-1', 'asset-x'])).rejects.toBeInstanceOf(AssetLinkError)
+    await expect(service.linkAssets('insp-1', ['asset-1'])).resolves.toMatchObject({ assetIds: ['asset-1'] })
+  })
+})
@@ -0,0 +1,200 @@
+import type { DataService } from './data-service'
+import type { AssetTimelineEntry, DetectedFault, Inspection, OcrFinding, SiteAsset } from '../types'
+
+export class AssetLinkError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AssetLinkError'
+  }
+}
+
+type AssetLinkingDataService = Pick<
+  DataService,
+  | 'getInspectionById'
+  | 'listInspections'
+  | 'linkInspectionAssets'
+  | 'appendInspectionDetectedFaults'
+  | 'appendInspectionOcrFinding'
+  | 'listSiteAssets'
+  | 'getSiteAsset'
+>
+
+function normalizeSerial(serial: string): string {
+  return serial.trim().toUpperCase()
+}
+
+export function matchAssetBySerial(assets: SiteAsset[], serialNumbers: string[]): SiteAsset | undefined {
+  const serials = new Set(serialNumbers.map(normalizeSerial).filter(Boolean))
+  return assets.find((asset) => asset.serialNumber && serials.has(normalizeSerial(asset.serialNumber)))
+}
+
+/**
+ * Picks the asset a fault is about: one named (or whose serial appears) in the
+ * fault's component or description, otherwise the inspection's only target.
+ */
+export function attributeFault(
+  fault: DetectedFault,
+  assets: SiteAsset[],
+  targetAssetIds: string[],
+): string | undefined {
+  if (fault.assetId) {
+    return fault.assetId
+  }
+
+  const text = `${fault.component} ${fault.description}`.toLowerCase()
+  const named = assets.find((asset) => {
+    const name = asset.name.trim().toLowerCase()
+    const serial = asset.serialNumber ? asset.serialNumber.trim().toLowerCase() : ''
+    return (name !== '' && text.includes(name)) || (serial !== '' && text.includes(serial))
+  })
+  if (named) {
+    return named.id
+  }
+
+  return targetAssetIds.length === 1 ? targetAssetIds[0] : undefined
+}
+
+function belongsToAsset(fault: DetectedFault, inspection: Inspection, assetId: string): boolean {
+  return fault.assetId ? fault.assetId === assetId : inspection.assetIds.length === 1 && inspection.assetIds[0] === assetId
+}
+
+export function buildAssetTimeline(assetId: string, inspections: Inspection[]): AssetTimelineEntry[] {
+  const entries: AssetTimelineEntry[] = []
+
+  for (const inspection of inspections) {
+    entries.push({
+      type: 'inspection',
+      inspectionId: inspection.id,
+      occurredAt: inspection.timestamp,
+      summary: `Inspection ${inspection.status.replace(/_/g, ' ')}${
+        inspection.summary ? `: ${inspection.summary}` : ''
+      }`,
+    })
+
+    for (const fault of inspection.detectedFaults.filter((item) => belongsToAsset(item, inspection, assetId))) {
+      entries.push({
+        type: 'fault',
+        inspectionId: inspection.id,
+        occurredAt: inspection.timestamp,
+        summary: `${fault.faultType} on ${fault.component} (${Math.round(fault.confidence * 100)}% confidence)`,
+        fault,
+      })
+    }
+
+    for (const reading of inspection.ocrFindings.filter((item) => item.assetId === assetId)) {
+      entries.push({
+        type: 'reading',
+        inspectionId: inspection.id,
+        occurredAt: reading.createdAt,
+        summary: reading.meterReadings.length > 0 ? reading.meterReadings.join(', ') : 'Nameplate read',
+        reading,
+      })
+    }
+
+    for (const workflowEvent of inspection.workflowEvents) {
+      entries.push({
+        type: 'workflow_event',
+        inspectionId: inspection.id,
+        occurredAt: workflowEvent.createdAt,
+        summary: `${workflowEvent.action}: ${workflowEvent.resultMessage}`,
+        workflowEvent,
+      })
+    }
+  }
+
+  return entries.sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())
+}
+
+export class AssetLinkingService {
+  private readonly dataService: AssetLinkingDataService
+
+  constructor(dataService: AssetLinkingDataService) {
+    this.dataService = dataService
+  }
+
+  /** Rejects asset ids that are unknown or registered at another site. */
+  public async assertSiteAssets(siteId: string, assetIds: string[]): Promise<void> {
+    if (assetIds.length === 0) {
+      return
+    }
+
+    const known = new Set((await this.dataService.listSiteAssets(siteId)).map((asset) => asset.id))
+    const unknown = assetIds.filter((assetId) => !known.has(assetId))
+    if (unknown.length > 0) {
+      throw new AssetLinkError(`Assets not registered at site ${siteId}: ${unknown.join(', ')}`)
+    }
+  }
+
+  public async linkAssets(inspectionId: string, assetIds: string[], expectedVersion?: number): Promise<Inspection> {
+    const inspection = await this.requireInspection(inspectionId)
+    await this.assertSiteAssets(inspection.siteId, assetIds)
+
+    const updated = await this.dataService.linkInspectionAssets(inspectionId, assetIds, expectedVersion)
+    if (!updated) {
+      throw new Error('Inspection not found')
+    }
+    return updated
+  }
+
+  /**
+   * Stores an OCR finding, tagging it with the site asset whose serial number
+   * it read and adding that asset to the inspection's targets.
+   */
+  public async recordOcrFinding(
+    inspectionId: string,
+    finding: Omit<OcrFinding, 'createdAt' | 'assetId'>,
+  ): Promise<string | undefined> {
+    const inspection = await this.requireInspection(inspectionId)
+    const asset = matchAssetBySerial(await this.dataService.listSiteAssets(inspection.siteId), finding.serialNumbers)
+
+    await this.dataService.appendInspectionOcrFinding(inspectionId, { ...finding, assetId: asset?.id })
+    if (asset && !inspection.assetIds.includes(asset.id)) {
+      await this.dataService.linkInspectionAssets(inspectionId, [asset.id])
+    }
+    return asset?.id
+  }
+
+  public async recordDetectedFaults(inspectionId: string, faults: DetectedFault[]): Promise<DetectedFault[]> {
+    if (faults.length === 0) {
+      return []
+    }
+
+    const inspection = await this.requireInspection(inspectionId)
+    const assets = await this.dataService.listSiteAssets(inspection.siteId)
+    const attributed = faults.map((fault) => ({
+      ...fault,
+      assetId: attributeFault(fault, assets, inspection.assetIds),
+    }))
+
+    await this.dataService.appendInspectionDetectedFaults(inspectionId, attributed)
+    const newAssetIds = [
+      ...new Set(
+        attributed
+          .map((fault) => fault.assetId)
+          .filter((assetId): assetId is string => !!assetId && !inspection.assetIds.includes(assetId)),
+      ),
+    ]
+    if (newAssetIds.length > 0) {
+      await this.dataService.linkInspectionAssets(inspectionId, newAssetIds)
+    }
+    return attributed
+  }
+
+  public async getAssetTimeline(siteId: string, assetId: string): Promise<AssetTimelineEntry[]> {
+    const asset = await this.dataService.getSiteAsset(assetId)
+    if (!asset || asset.siteId !== siteId) {
+      throw new Error('Site asset not found')
+    }
+
+    const inspections = await this.dataService.listInspections({ siteId, assetId })
+    return buildAssetTimeline(assetId, inspections)
+  }
+
+  private async requireInspection(inspectionId: string): Promise<Inspection> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      throw new Error('Inspection not found')
+    }
+    return inspection
+  }
+}
@@ -0,0 +1,71 @@
+import { createHash } from 'crypto'
+import type { AuditEntry } from '../types'
+import { canonicalJson } from '../utils/canonical-json'
+
+export const AUDIT_GENESIS_HASH = '0'.repeat(64)
+export const DEFAULT_AUDIT_PAGE_SIZE = 100
+export const MAX_AUDIT_PAGE_SIZE = 500
+
+/** Another writer already holds the chain position; re-read the head and retry. */
+export class AuditSequenceConflictError extends Error {
+  constructor(sequence: number) {
+    super(`Audit sequence ${sequence} is already taken`)
+    this.name = 'AuditSequenceConflictError'
+  }
+}
+
+export function normalizeAuditPageSize(limit?: number): number {
+  if (!limit || !Number.isFinite(limit) || limit < 1) {
+    return DEFAULT_AUDIT_PAGE_SIZE
+  }
+  return Math.min(Math.floor(limit), MAX_AUDIT_PAGE_SIZE)
+}
+
+/**
+ * SHA-256 over every field except the hash itself. Dates hash as ISO strings
+ * and keys are sorted, so a stored entry re-hashes identically in any provider.
+ */
+export function computeAuditHash(entry: Omit<AuditEntry, 'hash'>): string {
+  const content: Record<string, unknown> = { ...entry, occurredAt: entry.occurredAt.toISOString() }
+  delete content.hash
+  return createHash('sha256').update(canonicalJson(content)).digest('hex')
+}
+
+/** Round-trips a value through JSON so it stores and re-hashes the same way everywhere. */
+export function toAuditJson<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T)
+}
+
+export type AuditChainBreakReason = 'hash_mismatch' | 'broken_link' | 'sequence_gap'
+
+export interface AuditChainBreak {
+  sequence: number
+  reason: AuditChainBreakReason
+}
+
+/**
+ * Checks entries in chain order against each other and against `previous`,
+ * the entry just before them (null when they start the chain).
+ */
+export function findAuditChainBreak(
+  entries: AuditEntry[],
+  previous: Pick<AuditEntry, 'sequence' | 'hash'> | null,
+): AuditChainBreak | null {
+  let expectedSequence = previous ? previous.sequence + 1 : 1
+  let expectedPreviousHash = previous ? previous.hash : AUDIT_GENESIS_HASH
+
+  for (const entry of entries) {
+    if (entry.sequence !== expectedSequence) {
+      return { sequence: expectedSequence, reason: 'sequence_gap' }
+    }
+    if (entry.previousHash !== expectedPreviousHash) {
+      return { sequence: entry.sequence, reason: 'broken_link' }
+    }
+    if (computeAuditHash(entry) !== entry.hash) {
+      return { sequence: entry.sequence, reason: 'hash_mismatch' }
+    }
+    expectedSequence += 1
+    expectedPreviousHash = entry.hash
+  }
+  return null
+}
@@ -0,0 +1,197 @@
+import { AUDIT_GENESIS_HASH, AuditSequenceConflictError, computeAuditHash } from './audit-chain'
+import { AuditService, diffRecords } from './audit.service'
+import { MemoryDataService } from './memory-data.service'
+
+const technician = {
+  uid: 'uid-1',
+  email: 'ada@example.com',
+  roles: ['technician'],
+  technicianId: 'tech-1',
+  organizationId: 'default',
+}
+
+describe('AuditService', () => {
+  it('chains each entry to the hash of the one before it', async () => {
+    const service = new AuditService(new MemoryDataService())
+
+    const first = await service.record({
+      actor: technician,
+      action: 'PATCH /api/v1/sites/:siteId',
+      entityType: 'site',
+      entityId: 'site-1',
+      changes: diffRecords({ name: 'North' }, { name: 'North yard' }),
+      ipAddress: '10.0.0.4',
+      requestId: 'req-1',
+      source: 'http',
+    })
+    const second = await service.record({
+      action: 'ws.transcript.append',
+      entityType: 'inspection',
+      entityId: 'insp-1',
+      source: 'websocket',
+    })
+
+    expect(first).toMatchObject({
+      sequence: 1,
+      previousHash: AUDIT_GENESIS_HASH,
+      actor: { uid: 'uid-1', email: 'ada@example.com', technicianId: 'tech-1' },
+      changes: [{ field: 'name', before: 'North', after: 'North yard' }],
+    })
+    expect(first.hash).toBe(computeAuditHash(first))
+    expect(second).toMatchObject({
+      sequence: 2,
+      previousHash: first.hash,
+      actor: null,
+      changes: [],
+    })
+    await expect(service.verify()).resolves.toEqual({
+      valid: true,
+      checked: 2,
+    })
+  })
+
+  it('reports where a tampered or missing entry breaks the chain', async () => {
+    const dataService = new MemoryDataService()
+    const service = new AuditService(dataService)
+    for (const entityId of ['site-1', 'site-2', 'site-3']) {
+      await service.record({
+        action: 'DELETE /api/v1/sites/:siteId',
+        entityType: 'site',
+        entityId,
+        source: 'http',
+      })
+    }
+    const entries = await dataService.listAuditEntries({})
+
+    const tampered = new AuditService({
+      appendAuditEntry: dataService.appendAuditEntry.bind(dataService),
+      getLatestAuditEntry: dataService.getLatestAuditEntry.bind(dataService),
+      listAuditEntries: async () =>
+        entries.map((entry) => (entry.sequence === 2 ? { ...entry, entityId: 'site-9' } : entry)),
+    })
+    await expect(tampered.verify()).resolves.toEqual({
+      valid: false,
+      checked: 1,
+      brokenAt: { sequence: 2, reason: 'hash_mismatch' },
+    })
+
+    const removed = new AuditService({
+      appendAuditEntry: dataService.appendAuditEntry.bind(dataService),
+      getLatestAuditEntry: dataService.getLatestAuditEntry.bind(dataService),
+      listAuditEntries: async () => entries.filter((entry) => entry.sequence !== 2),
+    })
+    await expect(removed.verify()).resolves.toEqual({
+      valid: false,
+      checked: 1,
+      brokenAt: { sequence: 2, reason: 'sequence_gap' },
+    })
+  })
+
+  it('re-reads the head and retries when another writer took the sequence', async () => {
+    const dataService = new MemoryDataService()
+    const otherProcess = new AuditService(dataService)
+    const service = new AuditService(dataService)
+
+    await service.record({
+      action: 'POST /api/v1/sites',
+      entityType: 'site',
+      entityId: 'site-1',
+      source: 'http',
+    })
+    await otherProcess.record({
+      action: 'POST /api/v1/sites',
+      entityType: 'site',
+      entityId: 'site-2',
+      source: 'http',
+    })
+    const appendSpy = jest.spyOn(dataService, 'appendAuditEntry')
+
+    const entry = await service.record({
+      action: 'POST /api/v1/sites',
+      entityType: 'site',
+      entityId: 'site-3',
+      source: 'http',
+    })
+
+    expect(entry.sequence).toBe(3)
+    await expect(appendSpy.mock.results[0].value).rejects.toBeInstanceOf(AuditSequenceConflictError)
+    await expect(service.verify()).resolves.toEqual({
+      valid: true,
+      checked: 3,
+    })
+  })
+
+  it('logs instead of throwing when a tracked entry cannot be written', async () => {
+    const warn = jest.fn()
+    const service = new AuditService(
+      {
+        appendAuditEntry: async () => {
+          throw new Error('store offline')
+        },
+        getLatestAuditEntry: async () => null,
+        listAuditEntries: async () => [],
+      },
+      { warn },
+    )
+
+    service.track({
+      action: 'ws.annotation.add',
+      entityType: 'annotation',
+      entityId: 'ann-1',
+      source: 'websocket',
+    })
+    await service.list({})
+
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(warn).toHaveBeenCalledWith(
+      'Failed to write audit entry',
+      expect.objectContaining({ message: 'store offline' }),
+    )
+  })
+
+  it('pages the log by sequence', async () => {
+    const service = new AuditService(new MemoryDataService())
+    for (const entityId of ['a', 'b', 'c']) {
+      await service.record({
+        action: 'POST /api/v1/experts',
+        entityType: 'expert',
+        entityId,
+        source: 'http',
+      })
+    }
+
+    const firstPage = await service.list({ limit: 2 })
+    const lastPage = await service.list({
+      limit: 2,
+      afterSequence: firstPage.nextAfterSequence ?? undefined,
+    })
+
+    expect(firstPage.items.map((entry) => entry.entityId)).toEqual(['a', 'b'])
+    expect(firstPage.nextAfterSequence).toBe(2)
+    expect(lastPage).toMatchObject({
+      items: [{ entityId: 'c' }],
+      nextAfterSequence: null,
+    })
+  })
+})
+
+describe('diffRecords', () => {
+  it('lists changed top-level fields with JSON-normalized values', () => {
+    const updatedAt = new Date('2026-03-01T10:00:00.000Z')
+
+    expect(
+      diffRecords(
+        { name: 'North', type: 'substation', tags: ['a'] },
+        { name: 'North', type: 'plant', tags: ['a'], updatedAt },
+      ),
+    ).toEqual([
+      { field: 'type', before: 'substation', after: 'plant' },
+      {
+        field: 'updatedAt',
+        before: undefined,
+        after: '2026-03-01T10:00:00.000Z',
+      },
+    ])
+    expect(diffRecords(null, { id: 'x' })).toEqual([{ field: 'id', before: undefined, after: 'x' }])
+  })
+})
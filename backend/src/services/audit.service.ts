@@ -0,0 +1,175 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  AUDIT_GENESIS_HASH,
+  AuditSequenceConflictError,
+  MAX_AUDIT_PAGE_SIZE,
+  computeAuditHash,
+  findAuditChainBreak,
+  normalizeAuditPageSize,
+  toAuditJson,
+  type AuditChainBreak,
+} from './audit-chain'
+import type { AuthUser } from './auth.service'
+import type { AuditLogQuery, DataService } from './data-service'
+import { currentOrganizationId, DEFAULT_ORGANIZATION_ID } from './organization-context'
+import type { AuditActor, AuditEntry, AuditFieldChange } from '../types'
+import { canonicalJson } from '../utils/canonical-json'
+
+export interface AuditEvent {
+  actor?: AuthUser | null
+  action: string
+  entityType: string
+  entityId: string | null
+  changes?: AuditFieldChange[]
+  ipAddress?: string | null
+  requestId?: string | null
+  source: AuditEntry['source']
+}
+
+export interface AuditPage {
+  items: AuditEntry[]
+  /** Pass as `afterSequence` to fetch the next page; null on the last page. */
+  nextAfterSequence: number | null
+}
+
+export interface AuditVerification {
+  valid: boolean
+  checked: number
+  brokenAt?: AuditChainBreak
+}
+
+interface AuditLogger {
+  warn: (message: string, meta?: Record<string, unknown>) => void
+}
+
+const noopLogger: AuditLogger = {
+  warn: () => undefined,
+}
+
+type AuditDataService = Pick<DataService, 'appendAuditEntry' | 'getLatestAuditEntry' | 'listAuditEntries'>
+
+const MAX_APPEND_ATTEMPTS = 5
+
+function toActor(authUser: AuthUser | null | undefined): AuditActor | null {
+  if (!authUser) {
+    return null
+  }
+  return { uid: authUser.uid, email: authUser.email, technicianId: authUser.technicianId }
+}
+
+function asFields(value: unknown): Record<string, unknown> {
+  const normalized = toAuditJson(value)
+  return normalized && typeof normalized === 'object' && !Array.isArray(normalized)
+    ? (normalized as Record<string, unknown>)
+    : {}
+}
+
+/** Top-level fields that differ between two versions of an entity; null stands for "did not exist". */
+export function diffRecords(before: unknown, after: unknown): AuditFieldChange[] {
+  const beforeFields = asFields(before)
+  const afterFields = asFields(after)
+  return [...new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])]
+    .filter((field) => canonicalJson(beforeFields[field]) !== canonicalJson(afterFields[field]))
+    .sort()
+    .map((field) => ({ field, before: beforeFields[field], after: afterFields[field] }))
+}
+
+/**
+ * Append-only, hash-chained record of data changes. Each entry stores the
+ * hash of the one before it, so editing or removing any entry breaks every
+ * later link and shows up in `verify()`. Each organization has its own chain.
+ */
+export class AuditService {
+  private readonly dataService: AuditDataService
+  private readonly logger: AuditLogger
+  /** Last entry this process wrote, per organization; absent until read from the store. */
+  private readonly heads = new Map<string, AuditEntry | null>()
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(dataService: AuditDataService, logger?: AuditLogger) {
+    this.dataService = dataService
+    this.logger = logger || noopLogger
+  }
+
+  /** Appends are serialized in-process; writers in other processes are caught by the sequence check. */
+  public record(event: AuditEvent): Promise<AuditEntry> {
+    const next = this.queue.then(() => this.append(event))
+    this.queue = next.catch(() => undefined)
+    return next
+  }
+
+  /** Fire-and-forget variant for request and socket handlers; failures are logged, never thrown. */
+  public track(event: AuditEvent): void {
+    this.record(event).catch((error) => {
+      this.logger.warn('Failed to write audit entry', {
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    })
+  }
+
+  public async list(query: AuditLogQuery): Promise<AuditPage> {
+    const limit = normalizeAuditPageSize(query.limit)
+    const items = await this.dataService.listAuditEntries({ ...query, limit })
+    return {
+      items,
+      nextAfterSequence: items.length === limit ? items[items.length - 1].sequence : null,
+    }
+  }
+
+  public async verify(): Promise<AuditVerification> {
+    let previous: AuditEntry | null = null
+    let checked = 0
+    for (;;) {
+      const entries = await this.dataService.listAuditEntries({
+        afterSequence: previous?.sequence,
+        limit: MAX_AUDIT_PAGE_SIZE,
+      })
+      const brokenAt = findAuditChainBreak(entries, previous)
+      if (brokenAt) {
+        const intact = entries.filter((entry) => entry.sequence < brokenAt.sequence).length
+        return { valid: false, checked: checked + intact, brokenAt }
+      }
+      checked += entries.length
+      if (entries.length < MAX_AUDIT_PAGE_SIZE) {
+        return { valid: true, checked }
+      }
+      previous = entries[entries.length - 1]
+    }
+  }
+
+  private async append(event: AuditEvent): Promise<AuditEntry> {
+    const chain = currentOrganizationId() ?? DEFAULT_ORGANIZATION_ID
+    for (let attempt = 1; ; attempt += 1) {
+      const previous = this.heads.has(chain) ? this.heads.get(chain)! : await this.dataService.getLatestAuditEntry()
+      const content: Omit<AuditEntry, 'hash'> = {
+        id: uuidv4(),
+        sequence: (previous?.sequence ?? 0) + 1,
+        occurredAt: new Date(),
+        actor: toAuditJson(toActor(event.actor)),
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        changes: toAuditJson(event.changes ?? []),
+        ipAddress: event.ipAddress ?? null,
+        requestId: event.requestId ?? null,
+        source: event.source,
+        previousHash: previous?.hash ?? AUDIT_GENESIS_HASH,
+      }
+      const entry: AuditEntry = { ...content, hash: computeAuditHash(content) }
+
+      try {
+        await this.dataService.appendAuditEntry(entry)
+        this.heads.set(chain, entry)
+        return entry
+      } catch (error) {
+        this.heads.delete(chain)
+        if (!(error instanceof AuditSequenceConflictError) || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error
+        }
+      }
+    }
+  }
+}
@@ -1,9 +1,13 @@
 import { getApps, initializeApp, applicationDefault } from 'firebase-admin/app'
 import { getAuth, type DecodedIdToken } from 'firebase-admin/auth'
+import { DEFAULT_ORGANIZATION_ID } from './organization-context'
 
 export interface AuthUser {
   uid: string
   email?: string
+  technicianId?: string
+  /** From the `organizationId` claim; users without one belong to the default organization. */
+  organizationId: string
   roles: string[]
 }
 
@@ -67,10 +71,15 @@ export class AuthService {
     const roles = Array.isArray(decoded.roles)
       ? decoded.roles.filter((role): role is string => typeof role === 'string')
       : []
+    const technicianId = typeof decoded.technicianId === 'string' ? decoded.technicianId : undefined
+    const organizationId =
+      typeof decoded.organizationId === 'string' ? decoded.organizationId.trim() : DEFAULT_ORGANIZATION_ID
 
     return {
       uid: decoded.uid,
       email: decoded.email,
+      technicianId,
+      organizationId,
       roles,
     }
   }
@@ -0,0 +1,166 @@
+import { AuthorizationError, AuthorizationService } from './authorization.service'
+import { MemoryDataService } from './memory-data.service'
+import type { Technician } from '../types'
+
+function createTechnician(overrides: Partial<Technician>): Technician {
+  return {
+    id: 'tech_1',
+    name: 'Ada',
+    email: 'ada@example.com',
+    role: 'technician',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+describe('AuthorizationService', () => {
+  const technicians: Technician[] = [
+    createTechnician({}),
+    createTechnician({ id: 'tech_2', email: 'viewer@example.com', role: 'viewer' }),
+  ]
+  const dataService = {
+    getTechnicianById: jest.fn(async (id: string) => technicians.find((technician) => technician.id === id) ?? null),
+    getTechnicianByEmail: jest.fn(
+      async (email: string) => technicians.find((technician) => technician.email === email.toLowerCase()) ?? null,
+    ),
+  }
+  const service = new AuthorizationService(dataService)
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('treats requests without an auth user as admin when auth is disabled', async () => {
+    const actor = await service.resolveActor(null)
+    expect(actor.role).toBe('admin')
+    expect(() => service.assertRole(actor, ['admin'], 'create sites')).not.toThrow()
+  })
+
+  it('prefers token role claims over the technician record', async () => {
+    const actor = await service.resolveActor({
+      uid: 'uid_1',
+      email: 'viewer@example.com',
+      organizationId: 'default',
+      roles: ['admin'],
+    })
+    expect(actor).toEqual({ role: 'admin', uid: 'uid_1', technicianId: 'tech_2' })
+  })
+
+  it('falls back to the technician record and defaults unknown users to viewer', async () => {
+    const technician = await service.resolveActor({
+      uid: 'uid_2',
+      email: 'ADA@example.com',
+      organizationId: 'default',
+      roles: [],
+    })
+    expect(technician).toEqual({ role: 'technician', uid: 'uid_2', technicianId: 'tech_1' })
+
+    const stranger = await service.resolveActor({
+      uid: 'uid_3',
+      email: 'nobody@example.com',
+      organizationId: 'default',
+      roles: [],
+    })
+    expect(stranger).toEqual({ role: 'viewer', uid: 'uid_3', technicianId: null })
+  })
+
+  it('rejects viewers with a structured insufficient_role error', async () => {
+    const actor = await service.resolveActor({
+      uid: 'uid_4',
+      email: 'viewer@example.com',
+      organizationId: 'default',
+      roles: [],
+    })
+
+    try {
+      service.assertCanModifyInspection(actor, { technicianId: 'tech_2' })
+      throw new Error('expected authorization error')
+    } catch (error) {
+      expect(error).toBeInstanceOf(AuthorizationError)
+      expect((error as AuthorizationError).toJSON()).toEqual({
+        error: "Role 'viewer' is not allowed to modify inspections",
+        code: 'insufficient_role',
+        requiredRoles: ['admin', 'technician'],
+      })
+    }
+  })
+
+  it('only lets technicians modify their own inspections', async () => {
+    const actor = await service.resolveActor({
+      uid: 'uid_5',
+      organizationId: 'default',
+      roles: ['technician'],
+      technicianId: 'tech_1',
+    })
+
+    expect(() => service.assertCanModifyInspection(actor, { technicianId: 'tech_1' })).not.toThrow()
+    expect(() => service.assertCanModifyInspection(actor, { technicianId: 'tech_2' })).toThrow(
+      expect.objectContaining({ code: 'not_inspection_owner' }),
+    )
+  })
+
+  it('lets supervisors review inspections other than their own', async () => {
+    const supervisor = await service.resolveActor({
+      uid: 'uid_6',
+      organizationId: 'default',
+      roles: ['supervisor', 'technician'],
+      technicianId: 'tech_1',
+    })
+    expect(supervisor.role).toBe('supervisor')
+
+    expect(() => service.assertCanReviewInspection(supervisor, { technicianId: 'tech_2' })).not.toThrow()
+    expect(() => service.assertCanReviewInspection(supervisor, { technicianId: 'tech_1' })).toThrow(
+      expect.objectContaining({ code: 'self_review' }),
+    )
+    expect(() =>
+      service.assertCanReviewInspection({ ...supervisor, role: 'technician' }, { technicianId: 'tech_2' }),
+    ).toThrow(expect.objectContaining({ code: 'insufficient_role' }))
+  })
+
+  it('resolves technicians beyond the first page of the directory without listing it', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-01T10:00:00.000Z'))
+    const directory = new MemoryDataService()
+    const listTechnicians = jest.spyOn(directory, 'listTechnicians')
+    const veteran = await directory.createTechnician({ name: 'Vera', email: 'vera@example.com', role: 'supervisor' })
+    for (let index = 0; index < 120; index += 1) {
+      jest.setSystemTime(new Date(Date.UTC(2026, 2, 1, 11, index)))
+      await directory.createTechnician({ name: `Tech ${index}`, email: `tech${index}@example.com`, role: 'technician' })
+    }
+    expect((await directory.listTechnicians()).some((technician) => technician.id === veteran.id)).toBe(false)
+    listTechnicians.mockClear()
+
+    const resolver = new AuthorizationService(directory)
+    const byEmail = await resolver.resolveActor({
+      uid: 'uid_7',
+      email: 'Vera@Example.com',
+      organizationId: 'default',
+      roles: [],
+    })
+    const byClaim = await resolver.resolveActor({
+      uid: 'uid_8',
+      organizationId: 'default',
+      roles: [],
+      technicianId: veteran.id,
+    })
+
+    expect(byEmail).toEqual({ role: 'supervisor', uid: 'uid_7', technicianId: veteran.id })
+    expect(byClaim).toEqual({ role: 'supervisor', uid: 'uid_8', technicianId: veteran.id })
+    expect(listTechnicians).not.toHaveBeenCalled()
+  })
+
+  it('ignores deactivated technicians', async () => {
+    const directory = new MemoryDataService()
+    const technician = await directory.createTechnician({ name: 'Ada', email: 'ada@example.com', role: 'admin' })
+    await directory.deactivateTechnician(technician.id)
+
+    const actor = await new AuthorizationService(directory).resolveActor({
+      uid: 'uid_9',
+      email: 'ada@example.com',
+      organizationId: 'default',
+      roles: [],
+      technicianId: technician.id,
+    })
+    expect(actor.role).toBe('viewer')
+  })
+})
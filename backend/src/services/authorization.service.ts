@@ -0,0 +1,107 @@
+import type { AuthUser } from './auth.service'
+import type { DataService } from './data-service'
+import type { Inspection, Technician } from '../types'
+
+export type AccessRole = Technician['role']
+
+export interface AccessActor {
+  role: AccessRole
+  uid: string | null
+  technicianId: string | null
+}
+
+export type AuthorizationErrorCode = 'insufficient_role' | 'not_inspection_owner' | 'self_review'
+
+export class AuthorizationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: AuthorizationErrorCode,
+    public readonly requiredRoles: AccessRole[] = [],
+  ) {
+    super(message)
+    this.name = 'AuthorizationError'
+  }
+
+  public toJSON(): { error: string; code: AuthorizationErrorCode; requiredRoles?: AccessRole[] } {
+    return {
+      error: this.message,
+      code: this.code,
+      ...(this.requiredRoles.length > 0 ? { requiredRoles: this.requiredRoles } : {}),
+    }
+  }
+}
+
+const ROLE_PRECEDENCE: AccessRole[] = ['admin', 'supervisor', 'technician', 'viewer']
+
+export class AuthorizationService {
+  constructor(private readonly dataService: Pick<DataService, 'getTechnicianById' | 'getTechnicianByEmail'>) {}
+
+  /**
+   * Resolves the effective role for a request. Token role claims take precedence,
+   * then the role stored on the matching technician record; unknown callers are viewers.
+   * A null user means auth is disabled and the caller is treated as an admin.
+   */
+  public async resolveActor(authUser: AuthUser | null | undefined): Promise<AccessActor> {
+    if (!authUser) {
+      return { role: 'admin', uid: null, technicianId: null }
+    }
+
+    const technician = await this.findTechnicianForUser(authUser)
+    const claimedRole = ROLE_PRECEDENCE.find((role) => authUser.roles.includes(role))
+
+    return {
+      role: claimedRole || technician?.role || 'viewer',
+      uid: authUser.uid,
+      technicianId: authUser.technicianId || technician?.id || null,
+    }
+  }
+
+  public assertRole(actor: AccessActor, allowedRoles: AccessRole[], action: string): void {
+    if (allowedRoles.includes(actor.role)) {
+      return
+    }
+
+    throw new AuthorizationError(
+      `Role '${actor.role}' is not allowed to ${action}`,
+      'insufficient_role',
+      allowedRoles,
+    )
+  }
+
+  public assertCanActAsTechnician(actor: AccessActor, technicianId: string): void {
+    this.assertRole(actor, ['admin', 'technician'], 'modify inspections')
+    if (actor.role === 'admin' || actor.technicianId === technicianId) {
+      return
+    }
+
+    throw new AuthorizationError(
+      'Technicians can only modify their own inspections',
+      'not_inspection_owner',
+    )
+  }
+
+  public assertCanModifyInspection(actor: AccessActor, inspection: Pick<Inspection, 'technicianId'>): void {
+    this.assertCanActAsTechnician(actor, inspection.technicianId)
+  }
+
+  /** Supervisors and admins review inspections, but never one carried out by their own technician record. */
+  public assertCanReviewInspection(actor: AccessActor, inspection: Pick<Inspection, 'technicianId'>): void {
+    this.assertRole(actor, ['admin', 'supervisor'], 'review inspections')
+    if (actor.technicianId === inspection.technicianId) {
+      throw new AuthorizationError('Technicians cannot review their own inspections', 'self_review')
+    }
+  }
+
+  /** The technician named by the token's claim, else the active one with the caller's email. */
+  private async findTechnicianForUser(authUser: AuthUser): Promise<Technician | null> {
+    if (authUser.technicianId) {
+      const technician = await this.dataService.getTechnicianById(authUser.technicianId)
+      if (technician && !technician.deletedAt) {
+        return technician
+      }
+    }
+
+    const email = authUser.email?.trim()
+    return email ? this.dataService.getTechnicianByEmail(email) : null
+  }
+}
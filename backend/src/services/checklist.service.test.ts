@@ -0,0 +1,179 @@
+import {
+  ChecklistIncompleteError,
+  ChecklistService,
+  ChecklistValidationError,
+  isReadingWithinTolerance,
+} from './checklist.service'
+import type { DataService } from './data-service'
+import { InspectionVersionConflictError, assertInspectionVersion } from './inspection-version'
+import type { ChecklistTemplate, Inspection, Site } from '../types'
+
+function createDataService(images: string[] = []) {
+  const templates: ChecklistTemplate[] = []
+  const inspection = {
+    id: 'insp-1',
+    siteId: 'site-1',
+    status: 'in_progress',
+    images,
+    version: 1,
+  } as unknown as Inspection
+  const statusCalls: unknown[] = []
+
+  const dataService: Pick<
+    DataService,
+    | 'getInspectionById'
+    | 'getSiteById'
+    | 'createChecklistTemplate'
+    | 'getChecklistTemplate'
+    | 'listChecklistTemplates'
+    | 'setInspectionChecklist'
+    | 'updateInspectionStatus'
+  > = {
+    async getInspectionById(id) {
+      return id === inspection.id ? { ...inspection } : null
+    },
+    async getSiteById(siteId) {
+      return siteId === 'site-1' ? ({ id: siteId, type: 'oil_gas' } as Site) : null
+    },
+    async createChecklistTemplate(input) {
+      const template = { id: `tpl-${templates.length + 1}`, ...input, createdAt: new Date(), updatedAt: new Date() }
+      templates.unshift(template)
+      return template
+    },
+    async getChecklistTemplate(templateId) {
+      return templates.find((template) => template.id === templateId) ?? null
+    },
+    async listChecklistTemplates(siteType) {
+      return templates.filter((template) => !siteType || template.siteType === siteType)
+    },
+    async setInspectionChecklist(_id, checklist, expectedVersion) {
+      assertInspectionVersion(inspection.version, expectedVersion)
+      inspection.checklist = checklist
+      inspection.version += 1
+    },
+    async updateInspectionStatus(_id, input) {
+      statusCalls.push(input)
+      return { ...inspection, status: input.status }
+    },
+  }
+
+  return { dataService, inspection, statusCalls }
+}
+
+async function withOilGasTemplate(images: string[] = []) {
+  const context = createDataService(images)
+  const service = new ChecklistService(context.dataService)
+  await service.createTemplate({
+    name: 'Wellhead',
+    siteType: 'oil_gas',
+    items: [
+      { label: 'Casing pressure', required: true, expectedReading: { unit: 'psi', min: 100, max: 200 } },
+      { label: 'Valve tags', required: true, requiresPhoto: true, keywords: ['tag'] },
+      { label: 'Housekeeping', required: false },
+    ],
+  })
+  await service.attachTemplate('insp-1')
+  return { ...context, service }
+}
+
+describe('ChecklistService', () => {
+  it('checks readings against min/max and target tolerances', () => {
+    expect(isReadingWithinTolerance({ min: 10, max: 20 }, 20)).toBe(true)
+    expect(isReadingWithinTolerance({ min: 10, max: 20 }, 21)).toBe(false)
+    expect(isReadingWithinTolerance({ target: 50, tolerance: 2 }, 48.5)).toBe(true)
+    expect(isReadingWithinTolerance({ target: 50, tolerance: 2 }, 47)).toBe(false)
+  })
+
+  it('attaches the template for the site type and enforces readings and photo evidence', async () => {
+    const { service, inspection } = await withOilGasTemplate()
+
+    expect(inspection.checklist?.items.map((item) => [item.id, item.status])).toEqual([
+      ['casing-pressure', 'open'],
+      ['valve-tags', 'open'],
+      ['housekeeping', 'open'],
+    ])
+
+    const checklist = await service.updateItem('insp-1', 'casing-pressure', { reading: 250 })
+    expect(checklist.items[0]).toMatchObject({ status: 'failed', withinTolerance: false, markedBy: 'technician' })
+
+    await expect(service.updateItem('insp-1', 'valve-tags', { status: 'passed' })).rejects.toBeInstanceOf(
+      ChecklistValidationError,
+    )
+    await expect(service.updateItem('insp-1', 'missing', { status: 'passed' })).rejects.toThrow(
+      'Checklist item not found',
+    )
+    await expect(
+      service.createTemplate({
+        name: 'Bad',
+        siteType: 'power',
+        items: [{ label: 'Voltage', required: true, expectedReading: { tolerance: 2 } }],
+      }),
+    ).rejects.toBeInstanceOf(ChecklistValidationError)
+  })
+
+  it('lets the agent mark open items from speech and detected faults', async () => {
+    const { service, inspection } = await withOilGasTemplate(['https://cdn.example.com/frame-3.jpg'])
+
+    const fromSpeech = await service.applyTranscript('insp-1', 'Casing pressure reads 150 psi and the tag looks good')
+    expect(fromSpeech.map((item) => item.id)).toEqual(['casing-pressure', 'valve-tags'])
+    expect(inspection.checklist?.items[0]).toMatchObject({ status: 'passed', reading: 150, markedBy: 'agent' })
+    expect(inspection.checklist?.items[1].photoUrl).toBe('https://cdn.example.com/frame-3.jpg')
+
+    const fromFrame = await service.applyDetectedFaults('insp-1', [
+      {
+        component: 'housekeeping area',
+        faultType: 'debris',
+        confidence: 0.7,
+        description: 'Loose debris near wellhead',
+        recommendedActions: [],
+      },
+    ])
+    expect(fromFrame).toHaveLength(1)
+    expect(inspection.checklist?.items[2]).toMatchObject({ status: 'failed', note: 'debris: Loose debris near wellhead' })
+  })
+
+  it('refuses completion with open required items unless an override reason is given', async () => {
+    const { service, statusCalls } = await withOilGasTemplate()
+
+    await expect(service.completeInspection('insp-1', {})).rejects.toBeInstanceOf(ChecklistIncompleteError)
+    await expect(service.completeInspection('insp-1', {})).rejects.toMatchObject({
+      openItems: ['Casing pressure', 'Valve tags'],
+    })
+
+    await service.completeInspection('insp-1', { summary: 'Gauge offline', overrideReason: 'Gauge removed for calibration' })
+    expect(statusCalls).toEqual([
+      {
+        status: 'completed',
+        summary: 'Gauge offline',
+        checklistOverrideReason: 'Gauge removed for calibration',
+        expectedVersion: 2,
+      },
+    ])
+  })
+
+  it('re-applies an update after a concurrent write unless the caller named a version', async () => {
+    const { service, dataService, inspection } = await withOilGasTemplate()
+    const save = dataService.setInspectionChecklist
+    let concurrentWrites = 1
+    dataService.setInspectionChecklist = async (id, checklist, expectedVersion) => {
+      if (concurrentWrites > 0) {
+        concurrentWrites -= 1
+        inspection.version += 1
+      }
+      return save(id, checklist, expectedVersion)
+    }
+
+    const checklist = await service.updateItem('insp-1', 'casing-pressure', { reading: 150 })
+    expect(checklist.items[0]).toMatchObject({ status: 'passed', reading: 150 })
+    expect(inspection.version).toBe(4)
+
+    await expect(
+      service.updateItem('insp-1', 'housekeeping', { status: 'passed' }, 'technician', 3),
+    ).rejects.toBeInstanceOf(InspectionVersionConflictError)
+    concurrentWrites = 1
+    await expect(
+      service.updateItem('insp-1', 'housekeeping', { status: 'passed' }, 'technician', 4),
+    ).rejects.toMatchObject({ currentVersion: 5 })
+    expect(inspection.checklist?.items[2]).toMatchObject({ status: 'open' })
+  })
+})
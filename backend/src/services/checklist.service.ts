@@ -0,0 +1,408 @@
+import type { DataService } from './data-service'
+import { parseMeterReading } from './anomaly-detection.service'
+import { InspectionVersionConflictError, assertInspectionVersion } from './inspection-version'
+import type {
+  ChecklistItemStatus,
+  ChecklistTemplate,
+  ChecklistTemplateItem,
+  DetectedFault,
+  ExpectedReading,
+  Inspection,
+  InspectionChecklist,
+  InspectionChecklistItem,
+} from '../types'
+
+export class ChecklistValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ChecklistValidationError'
+  }
+}
+
+export class ChecklistIncompleteError extends Error {
+  public readonly openItems: string[]
+
+  constructor(openItems: string[]) {
+    super(`Required checklist items are still open: ${openItems.join(', ')}`)
+    this.name = 'ChecklistIncompleteError'
+    this.openItems = openItems
+  }
+}
+
+export interface ChecklistTemplateInput {
+  name: string
+  siteType: ChecklistTemplate['siteType']
+  items: Array<Omit<ChecklistTemplateItem, 'id' | 'keywords' | 'requiresPhoto'> & {
+    id?: string
+    keywords?: string[]
+    requiresPhoto?: boolean
+  }>
+}
+
+export interface ChecklistItemUpdate {
+  status?: ChecklistItemStatus
+  reading?: number
+  photoUrl?: string
+  note?: string
+}
+
+interface ChecklistServiceOptions {
+  onChecklistUpdated?: (inspectionId: string, checklist: InspectionChecklist) => void
+}
+
+type ChecklistDataService = Pick<
+  DataService,
+  | 'getInspectionById'
+  | 'getSiteById'
+  | 'createChecklistTemplate'
+  | 'getChecklistTemplate'
+  | 'listChecklistTemplates'
+  | 'setInspectionChecklist'
+  | 'updateInspectionStatus'
+>
+
+/** Checklist writes re-read the inspection this many times when another write lands first. */
+const MAX_WRITE_ATTEMPTS = 3
+const AFFIRMATIVE = /\b(ok|okay|good|fine|pass(?:ed|es)?|checked|clear|done)\b/
+const NEGATIVE = /\b(not ok|not okay|fail(?:ed|s)?|broken|damaged|faulty|leak(?:ing|s)?|bad|missing)\b/
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+export function isReadingWithinTolerance(expected: ExpectedReading, value: number): boolean {
+  if (expected.min !== undefined && value < expected.min) return false
+  if (expected.max !== undefined && value > expected.max) return false
+  if (expected.target !== undefined && Math.abs(value - expected.target) > (expected.tolerance ?? 0)) return false
+  return true
+}
+
+export function buildInspectionChecklist(template: ChecklistTemplate): InspectionChecklist {
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    items: template.items.map((item) => ({ ...item, status: 'open' })),
+  }
+}
+
+export function openRequiredItems(checklist: InspectionChecklist): InspectionChecklistItem[] {
+  return checklist.items.filter((item) => item.required && item.status === 'open')
+}
+
+function matchTerms(item: ChecklistTemplateItem): string[] {
+  return [item.label, ...item.keywords].map((term) => term.trim().toLowerCase()).filter(Boolean)
+}
+
+export class ChecklistService {
+  private readonly dataService: ChecklistDataService
+  private readonly options: ChecklistServiceOptions
+
+  constructor(dataService: ChecklistDataService, options: ChecklistServiceOptions = {}) {
+    this.dataService = dataService
+    this.options = options
+  }
+
+  public async createTemplate(input: ChecklistTemplateInput): Promise<ChecklistTemplate> {
+    if (input.items.length === 0) {
+      throw new ChecklistValidationError('A checklist template needs at least one item')
+    }
+
+    const ids = new Set<string>()
+    const items = input.items.map((item) => {
+      const id = item.id || slugify(item.label)
+      if (!id || ids.has(id)) {
+        throw new ChecklistValidationError(`Duplicate or empty checklist item id "${id}"`)
+      }
+      ids.add(id)
+
+      const expected = item.expectedReading
+      if (expected) {
+        if (expected.min !== undefined && expected.max !== undefined && expected.min > expected.max) {
+          throw new ChecklistValidationError(`Item "${item.label}" has min greater than max`)
+        }
+        if (expected.tolerance !== undefined && expected.target === undefined) {
+          throw new ChecklistValidationError(`Item "${item.label}" has a tolerance but no target`)
+        }
+      }
+
+      return {
+        ...item,
+        id,
+        requiresPhoto: item.requiresPhoto ?? false,
+        keywords: item.keywords ?? [],
+      }
+    })
+
+    return this.dataService.createChecklistTemplate({ name: input.name, siteType: input.siteType, items })
+  }
+
+  /**
+   * Attaches a template to an inspection. Without a template id, the newest
+   * template for the site's type is used; returns null when there is none.
+   */
+  public async attachTemplate(
+    inspectionId: string,
+    templateId?: string,
+    expectedVersion?: number,
+  ): Promise<InspectionChecklist | null> {
+    return this.writeInspection(inspectionId, expectedVersion, async (inspection) => {
+      if (inspection.checklist?.items.some((item) => item.status !== 'open')) {
+        throw new ChecklistValidationError('The current checklist already has marked items')
+      }
+
+      let template: ChecklistTemplate | null
+      if (templateId) {
+        template = await this.dataService.getChecklistTemplate(templateId)
+        if (!template) {
+          throw new Error('Checklist template not found')
+        }
+      } else {
+        const site = await this.dataService.getSiteById(inspection.siteId)
+        template = site ? (await this.dataService.listChecklistTemplates(site.type))[0] ?? null : null
+      }
+      if (!template) {
+        return null
+      }
+
+      const checklist = buildInspectionChecklist(template)
+      await this.save(inspection, checklist)
+      return checklist
+    })
+  }
+
+  public async getChecklist(inspectionId: string): Promise<InspectionChecklist | null> {
+    const inspection = await this.requireInspection(inspectionId)
+    return inspection.checklist ?? null
+  }
+
+  public async updateItem(
+    inspectionId: string,
+    itemId: string,
+    update: ChecklistItemUpdate,
+    markedBy: InspectionChecklistItem['markedBy'] = 'technician',
+    expectedVersion?: number,
+  ): Promise<InspectionChecklist> {
+    return this.writeInspection(inspectionId, expectedVersion, async (inspection) => {
+      const checklist = this.requireChecklist(inspection)
+      const index = checklist.items.findIndex((item) => item.id === itemId)
+      if (index < 0) {
+        throw new Error('Checklist item not found')
+      }
+
+      checklist.items[index] = this.applyUpdate(inspection, checklist.items[index], update, markedBy)
+      await this.save(inspection, checklist)
+      return checklist
+    })
+  }
+
+  /**
+   * Marks open items the technician talks about. Items with an expected reading
+   * take the first number spoken after the item's label or keyword; other items
+   * pass or fail on words such as "ok" or "damaged". Anything ambiguous stays open.
+   */
+  public async applyTranscript(inspectionId: string, transcript: string): Promise<InspectionChecklistItem[]> {
+    const text = transcript.toLowerCase()
+    return this.applyAgentMarks(inspectionId, (item) => {
+      const position = matchTerms(item)
+        .map((term) => ({ term, index: text.indexOf(term) }))
+        .find((match) => match.index >= 0)
+      if (!position) {
+        return null
+      }
+
+      if (item.expectedReading) {
+        const parsed = parseMeterReading(text.slice(position.index + position.term.length))
+        return parsed ? { reading: parsed.value, note: `Heard: "${transcript.trim()}"` } : null
+      }
+
+      const status = NEGATIVE.test(text) ? 'failed' : AFFIRMATIVE.test(text) ? 'passed' : null
+      return status ? { status, note: `Heard: "${transcript.trim()}"` } : null
+    })
+  }
+
+  /** Fails open items that a fault detected in the live frame points at. */
+  public async applyDetectedFaults(inspectionId: string, faults: DetectedFault[]): Promise<InspectionChecklistItem[]> {
+    if (faults.length === 0) {
+      return []
+    }
+
+    return this.applyAgentMarks(inspectionId, (item) => {
+      const terms = matchTerms(item)
+      const fault = faults.find((candidate) => {
+        const text = `${candidate.component} ${candidate.faultType}`.toLowerCase()
+        return terms.some((term) => text.includes(term))
+      })
+      return fault ? { status: 'failed', note: `${fault.faultType}: ${fault.description}` } : null
+    })
+  }
+
+  /** Completes the inspection, refusing while required items are open unless a reason is given. */
+  public async completeInspection(
+    inspectionId: string,
+    input: { summary?: string; overrideReason?: string; expectedVersion?: number },
+  ): Promise<Inspection | null> {
+    if (!(await this.dataService.getInspectionById(inspectionId))) {
+      return null
+    }
+
+    // The status write is pinned to the version whose checklist was checked
+    return this.writeInspection(inspectionId, input.expectedVersion, async (inspection) => {
+      const overrideReason = input.overrideReason?.trim()
+      const openItems = inspection.checklist ? openRequiredItems(inspection.checklist) : []
+      if (openItems.length > 0 && !overrideReason) {
+        throw new ChecklistIncompleteError(openItems.map((item) => item.label))
+      }
+
+      return this.dataService.updateInspectionStatus(inspectionId, {
+        status: 'completed',
+        summary: input.summary,
+        checklistOverrideReason: openItems.length > 0 ? overrideReason : undefined,
+        expectedVersion: inspection.version,
+      })
+    })
+  }
+
+  private async applyAgentMarks(
+    inspectionId: string,
+    decide: (item: InspectionChecklistItem) => ChecklistItemUpdate | null,
+  ): Promise<InspectionChecklistItem[]> {
+    return this.writeInspection(inspectionId, undefined, async (inspection) => {
+      if (!inspection.checklist) {
+        return []
+      }
+
+      const checklist = this.requireChecklist(inspection)
+      const marked: InspectionChecklistItem[] = []
+      checklist.items = checklist.items.map((item) => {
+        if (item.status !== 'open') {
+          return item
+        }
+        const update = decide(item)
+        if (!update) {
+          return item
+        }
+        try {
+          const next = this.applyUpdate(inspection, item, update, 'agent')
+          marked.push(next)
+          return next
+        } catch (error) {
+          if (error instanceof ChecklistValidationError) {
+            return item
+          }
+          throw error
+        }
+      })
+
+      if (marked.length > 0) {
+        await this.save(inspection, checklist)
+      }
+      return marked
+    })
+  }
+
+  /**
+   * Read-modify-write against one inspection version. A caller that names the
+   * version it saw gets the conflict back; otherwise the change is re-applied
+   * to a fresh read, since live transcript and fault appends bump the version
+   * all through an inspection.
+   */
+  private async writeInspection<T>(
+    inspectionId: string,
+    expectedVersion: number | undefined,
+    write: (inspection: Inspection) => Promise<T>,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt += 1) {
+      const inspection = await this.requireInspection(inspectionId)
+      try {
+        assertInspectionVersion(inspection.version, expectedVersion)
+        return await write(inspection)
+      } catch (error) {
+        const retry =
+          error instanceof InspectionVersionConflictError &&
+          expectedVersion === undefined &&
+          attempt < MAX_WRITE_ATTEMPTS
+        if (!retry) {
+          throw error
+        }
+      }
+    }
+  }
+
+  private applyUpdate(
+    inspection: Inspection,
+    item: InspectionChecklistItem,
+    update: ChecklistItemUpdate,
+    markedBy: InspectionChecklistItem['markedBy'],
+  ): InspectionChecklistItem {
+    const reading = update.reading ?? (update.status === 'open' ? undefined : item.reading)
+    const withinTolerance =
+      reading !== undefined && item.expectedReading ? isReadingWithinTolerance(item.expectedReading, reading) : undefined
+    const status = update.status ?? (withinTolerance === undefined ? undefined : withinTolerance ? 'passed' : 'failed')
+    if (!status) {
+      throw new ChecklistValidationError(`Provide a status or a reading for "${item.label}"`)
+    }
+
+    if (status === 'open') {
+      return {
+        ...item,
+        status,
+        reading: undefined,
+        withinTolerance: undefined,
+        photoUrl: undefined,
+        note: undefined,
+        markedBy,
+        updatedAt: new Date(),
+      }
+    }
+
+    let photoUrl = update.photoUrl ?? item.photoUrl
+    if (status === 'passed') {
+      if (item.expectedReading && reading === undefined) {
+        throw new ChecklistValidationError(`A reading is required for "${item.label}"`)
+      }
+      if (withinTolerance === false) {
+        throw new ChecklistValidationError(`Reading ${reading} for "${item.label}" is outside tolerance`)
+      }
+      if (item.requiresPhoto) {
+        photoUrl = photoUrl ?? inspection.images[inspection.images.length - 1]
+        if (!photoUrl) {
+          throw new ChecklistValidationError(`Photo evidence is required for "${item.label}"`)
+        }
+      }
+    }
+
+    return {
+      ...item,
+      status,
+      reading,
+      withinTolerance,
+      photoUrl,
+      note: update.note ?? item.note,
+      markedBy,
+      updatedAt: new Date(),
+    }
+  }
+
+  private async save(inspection: Inspection, checklist: InspectionChecklist): Promise<void> {
+    await this.dataService.setInspectionChecklist(inspection.id, checklist, inspection.version)
+    this.options.onChecklistUpdated?.(inspection.id, checklist)
+  }
+
+  private requireChecklist(inspection: Inspection): InspectionChecklist {
+    if (!inspection.checklist) {
+      throw new Error('Checklist not found')
+    }
+    return { ...inspection.checklist, items: [...inspection.checklist.items] }
+  }
+
+  private async requireInspection(inspectionId: string): Promise<Inspection> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      throw new Error('Inspection not found')
+    }
+    return inspection
+  }
+}
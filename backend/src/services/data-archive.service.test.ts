@@ -0,0 +1,148 @@
+import { archiveRecordId, DataArchiveError, DataArchiveService } from './data-archive.service'
+import type { ArchiveRecordMap, ArchiveRecordType, DataService } from './data-service'
+import type { Inspection, Site, Technician } from '../types'
+
+/** Keeps each record kind in an id-keyed map, mirroring how both providers page archives. */
+function createStore() {
+  const tables = new Map<ArchiveRecordType, Map<string, unknown>>()
+  const table = (type: ArchiveRecordType) => {
+    if (!tables.has(type)) tables.set(type, new Map())
+    return tables.get(type) as Map<string, unknown>
+  }
+  const writes: string[] = []
+
+  const dataService: Pick<DataService, 'listArchiveRecords' | 'getArchiveRecord' | 'putArchiveRecord'> = {
+    async listArchiveRecords(type, afterId, limit) {
+      return [...table(type).entries()]
+        .filter(([id]) => afterId === null || id > afterId)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .slice(0, limit)
+        .map(([, record]) => structuredClone(record) as ArchiveRecordMap[typeof type])
+    },
+    async getArchiveRecord(type, id) {
+      const record = table(type).get(id)
+      return record ? (structuredClone(record) as ArchiveRecordMap[typeof type]) : null
+    },
+    async putArchiveRecord(type, record) {
+      const id = archiveRecordId(type, record)
+      writes.push(`${type}:${id}`)
+      table(type).set(id, structuredClone(record))
+    },
+  }
+
+  return { dataService, table, writes }
+}
+
+const technician: Technician = {
+  id: 'tech-1',
+  name: 'Ada',
+  email: 'ada@example.com',
+  role: 'technician',
+  createdAt: new Date('2026-01-01T08:00:00.000Z'),
+  updatedAt: new Date('2026-01-01T08:00:00.000Z'),
+}
+
+const site: Site = {
+  id: 'site-1',
+  name: 'North Substation',
+  type: 'power',
+  location: { latitude: 1, longitude: 2 },
+  technicianIds: ['tech-1'],
+  createdAt: new Date('2026-01-01T08:00:00.000Z'),
+  updatedAt: new Date('2026-01-01T08:00:00.000Z'),
+}
+
+const inspection: Inspection = {
+  id: 'insp-1',
+  technicianId: 'tech-1',
+  siteId: 'site-1',
+  timestamp: new Date('2026-01-02T09:00:00.000Z'),
+  status: 'completed',
+  assetIds: [],
+  images: [],
+  safetyFlags: [],
+  detectedFaults: [],
+  recommendedActions: [],
+  ocrFindings: [],
+  anomalyFindings: [],
+  workflowEvents: [
+    {
+      id: 'evt-1',
+      action: 'create_ticket',
+      status: 'completed',
+      resultMessage: 'Ticket opened',
+      createdAt: new Date('2026-01-02T09:30:00.000Z'),
+    },
+  ],
+  transcript: 'Transformer hum is normal',
+  summary: 'All clear',
+  version: 3,
+}
+
+async function collect(lines: AsyncIterable<string>): Promise<string[]> {
+  const output: string[] = []
+  for await (const line of lines) output.push(line)
+  return output
+}
+
+describe('DataArchiveService', () => {
+  it('exports every record and imports them into an empty store with ids and dates intact', async () => {
+    const source = createStore()
+    await source.dataService.putArchiveRecord('technician', technician)
+    await source.dataService.putArchiveRecord('site', site)
+    await source.dataService.putArchiveRecord('inspection', inspection)
+
+    const lines = await collect(new DataArchiveService(source.dataService).exportLines())
+    expect(JSON.parse(lines[0])).toMatchObject({ type: 'header', format: 'fieldsight-archive', version: 1 })
+    expect(lines.slice(1).map((line) => JSON.parse(line).type)).toEqual(['technician', 'site', 'inspection'])
+
+    const target = createStore()
+    const archive = new DataArchiveService(target.dataService)
+    const result = await archive.importLines(lines)
+
+    expect(result.counts.inspection).toEqual({ create: 1, update: 0, unchanged: 0 })
+    expect(target.table('inspection').get('insp-1')).toEqual(inspection)
+
+    target.writes.length = 0
+    const again = await archive.importLines(lines)
+    expect(again.changes).toEqual([])
+    expect(again.counts.site).toEqual({ create: 0, update: 0, unchanged: 1 })
+    expect(target.writes).toEqual([])
+  })
+
+  it('describes changes without writing them in dry-run mode', async () => {
+    const target = createStore()
+    await target.dataService.putArchiveRecord('site', { ...site, name: 'Old name' })
+    target.writes.length = 0
+
+    const lines = [
+      JSON.stringify({ type: 'header', format: 'fieldsight-archive', version: 1, exportedAt: '2026-02-01T00:00:00.000Z' }),
+      JSON.stringify({ type: 'site', data: site }),
+      JSON.stringify({ type: 'technician', data: technician }),
+    ]
+    const result = await new DataArchiveService(target.dataService).importLines(lines, { dryRun: true })
+
+    expect(result.changes).toEqual([
+      { type: 'site', id: 'site-1', action: 'update', fields: ['name'] },
+      { type: 'technician', id: 'tech-1', action: 'create' },
+    ])
+    expect(target.writes).toEqual([])
+    expect((target.table('site').get('site-1') as Site).name).toBe('Old name')
+  })
+
+  it('rejects archives with a missing header, unsupported version or malformed records', async () => {
+    const archive = new DataArchiveService(createStore().dataService)
+    const header = (version: number) =>
+      JSON.stringify({ type: 'header', format: 'fieldsight-archive', version, exportedAt: '2026-02-01T00:00:00.000Z' })
+
+    await expect(archive.importLines([])).rejects.toThrow('Archive is empty')
+    await expect(archive.importLines([JSON.stringify({ type: 'site', data: site })])).rejects.toThrow(
+      'Line 1 must be a fieldsight-archive header',
+    )
+    await expect(archive.importLines([header(2)])).rejects.toThrow('Archive version 2 is not supported')
+    await expect(archive.importLines([header(1), '{oops'])).rejects.toBeInstanceOf(DataArchiveError)
+    await expect(archive.importLines([header(1), JSON.stringify({ type: 'report', data: {} })])).rejects.toThrow(
+      'Line 2 is missing report inspectionId',
+    )
+  })
+})
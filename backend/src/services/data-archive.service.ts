@@ -0,0 +1,224 @@
+import type { ArchiveRecordMap, ArchiveRecordType, DataService } from './data-service'
+import type { InspectionReport } from './firestore-data.service'
+import { reportContentHash, reportVersionId } from './report-version'
+import { canonicalJson } from '../utils/canonical-json'
+
+export const ARCHIVE_FORMAT = 'fieldsight-archive'
+export const ARCHIVE_VERSION = 1
+
+/** Parents before children, so an import never writes a record ahead of what it references. */
+export const ARCHIVE_RECORD_TYPES: ArchiveRecordType[] = [
+  'technician',
+  'site',
+  'asset',
+  'inspection',
+  'transcript',
+  'report',
+]
+
+const EXPORT_PAGE_SIZE = 200
+const DATE_KEYS = new Set([
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+  'timestamp',
+  'generatedAt',
+  'computedAt',
+  'lastInspectedAt',
+])
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+export interface ArchiveHeader {
+  type: 'header'
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  exportedAt: string
+}
+
+export type ArchiveChangeAction = 'create' | 'update' | 'unchanged'
+
+export interface ArchiveRecordChange {
+  type: ArchiveRecordType
+  id: string
+  action: Exclude<ArchiveChangeAction, 'unchanged'>
+  /** Top-level fields that differ from the stored record; only set for updates. */
+  fields?: string[]
+}
+
+export interface ArchiveImportResult {
+  dryRun: boolean
+  counts: Record<ArchiveRecordType, Record<ArchiveChangeAction, number>>
+  changes: ArchiveRecordChange[]
+}
+
+export class DataArchiveError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DataArchiveError'
+  }
+}
+
+type ArchiveDataService = Pick<DataService, 'listArchiveRecords' | 'getArchiveRecord' | 'putArchiveRecord'>
+
+/** Reports have one record per version, so their id combines the inspection id and version number. */
+export function archiveRecordId<T extends ArchiveRecordType>(type: T, record: ArchiveRecordMap[T]): string {
+  if (type === 'report') {
+    const report = record as ArchiveRecordMap['report']
+    return reportVersionId(report.inspectionId, report.version)
+  }
+  return (record as ArchiveRecordMap[Exclude<ArchiveRecordType, 'report'>]).id
+}
+
+function reviveDates(key: string, value: unknown): unknown {
+  return DATE_KEYS.has(key) && typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+}
+
+function changedFields(existing: object, incoming: object): string[] {
+  const before = existing as Record<string, unknown>
+  const after = incoming as Record<string, unknown>
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((field) => canonicalJson(before[field]) !== canonicalJson(after[field]))
+    .sort()
+}
+
+/**
+ * Moves data between stores as NDJSON: a header line, then one
+ * `{ type, data }` line per record. Workflow events travel inside their
+ * inspection. Imports keep ids, so re-running one is a no-op.
+ */
+export class DataArchiveService {
+  private readonly dataService: ArchiveDataService
+
+  constructor(dataService: ArchiveDataService) {
+    this.dataService = dataService
+  }
+
+  public async *exportLines(): AsyncGenerator<string> {
+    const header: ArchiveHeader = {
+      type: 'header',
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+    }
+    yield JSON.stringify(header)
+
+    for (const type of ARCHIVE_RECORD_TYPES) {
+      let afterId: string | null = null
+      for (;;) {
+        const records: Array<ArchiveRecordMap[typeof type]> = await this.dataService.listArchiveRecords(
+          type,
+          afterId,
+          EXPORT_PAGE_SIZE,
+        )
+        for (const record of records) {
+          yield JSON.stringify({ type, data: record })
+        }
+        if (records.length < EXPORT_PAGE_SIZE) {
+          break
+        }
+        afterId = archiveRecordId(type, records[records.length - 1])
+      }
+    }
+  }
+
+  /**
+   * Upserts every record in the archive. With `dryRun`, nothing is written and
+   * the result only describes what an import would change.
+   */
+  public async importLines(
+    lines: AsyncIterable<string> | Iterable<string>,
+    options: { dryRun?: boolean } = {},
+  ): Promise<ArchiveImportResult> {
+    const dryRun = options.dryRun ?? false
+    const result: ArchiveImportResult = {
+      dryRun,
+      counts: Object.fromEntries(
+        ARCHIVE_RECORD_TYPES.map((type) => [type, { create: 0, update: 0, unchanged: 0 }]),
+      ) as ArchiveImportResult['counts'],
+      changes: [],
+    }
+
+    let lineNumber = 0
+    let sawHeader = false
+    for await (const line of lines) {
+      lineNumber += 1
+      if (!line.trim()) {
+        continue
+      }
+
+      const entry = this.parseLine(line, lineNumber)
+      if (!sawHeader) {
+        this.assertHeader(entry, lineNumber)
+        sawHeader = true
+        continue
+      }
+
+      const { type, record } = this.parseRecord(entry, lineNumber)
+      const id = archiveRecordId(type, record)
+      const existing = await this.dataService.getArchiveRecord(type, id)
+      const fields = existing ? changedFields(existing, record) : []
+      const action: ArchiveChangeAction = !existing ? 'create' : fields.length > 0 ? 'update' : 'unchanged'
+
+      result.counts[type][action] += 1
+      if (action === 'unchanged') {
+        continue
+      }
+      result.changes.push(action === 'update' ? { type, id, action, fields } : { type, id, action })
+      if (!dryRun) {
+        await this.dataService.putArchiveRecord(type, record)
+      }
+    }
+
+    if (!sawHeader) {
+      throw new DataArchiveError('Archive is empty')
+    }
+    return result
+  }
+
+  private parseLine(line: string, lineNumber: number): Record<string, unknown> {
+    let entry: unknown
+    try {
+      entry = JSON.parse(line, reviveDates)
+    } catch {
+      throw new DataArchiveError(`Line ${lineNumber} is not valid JSON`)
+    }
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new DataArchiveError(`Line ${lineNumber} is not a JSON object`)
+    }
+    return entry as Record<string, unknown>
+  }
+
+  private assertHeader(entry: Record<string, unknown>, lineNumber: number): void {
+    if (entry.type !== 'header' || entry.format !== ARCHIVE_FORMAT) {
+      throw new DataArchiveError(`Line ${lineNumber} must be a ${ARCHIVE_FORMAT} header`)
+    }
+    if (entry.version !== ARCHIVE_VERSION) {
+      throw new DataArchiveError(
+        `Archive version ${String(entry.version)} is not supported; expected ${ARCHIVE_VERSION}`,
+      )
+    }
+  }
+
+  private parseRecord(
+    entry: Record<string, unknown>,
+    lineNumber: number,
+  ): { type: ArchiveRecordType; record: ArchiveRecordMap[ArchiveRecordType] } {
+    const type = entry.type as ArchiveRecordType
+    if (!ARCHIVE_RECORD_TYPES.includes(type)) {
+      throw new DataArchiveError(`Line ${lineNumber} has unknown record type ${String(entry.type)}`)
+    }
+
+    const data = entry.data as Record<string, unknown> | undefined
+    const idField = type === 'report' ? 'inspectionId' : 'id'
+    if (!data || typeof data !== 'object' || typeof data[idField] !== 'string' || !data[idField]) {
+      throw new DataArchiveError(`Line ${lineNumber} is missing ${type} ${idField}`)
+    }
+    if (type === 'report') {
+      // Archives exported before report versioning hold one unnumbered report per inspection
+      data.version = typeof data.version === 'number' ? data.version : 1
+      data.contentHash =
+        typeof data.contentHash === 'string' ? data.contentHash : reportContentHash(data as unknown as InspectionReport)
+    }
+    return { type, record: data as unknown as ArchiveRecordMap[ArchiveRecordType] }
+  }
+}
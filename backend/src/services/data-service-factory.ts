@@ -0,0 +1,30 @@
+import type { PartitionedDataService } from './data-service'
+import { FirestoreDataService } from './firestore-data.service'
+import { MemoryDataService } from './memory-data.service'
+import { PostgresDataService } from './postgres-data.service'
+
+export type DataProvider = 'firestore' | 'postgres' | 'memory'
+
+export function isDataProvider(value: string | undefined): value is DataProvider {
+  return value === 'firestore' || value === 'postgres' || value === 'memory'
+}
+
+/** DATA_PROVIDER when set, otherwise Firestore in production and Postgres elsewhere. */
+export function resolveDataProvider(): DataProvider {
+  const configured = process.env.DATA_PROVIDER?.trim().toLowerCase()
+  if (isDataProvider(configured)) {
+    return configured
+  }
+  return process.env.NODE_ENV === 'production' ? 'firestore' : 'postgres'
+}
+
+/** The default organization's data service, which is also the organization directory. */
+export function createDataService(provider: DataProvider = resolveDataProvider()): PartitionedDataService {
+  if (provider === 'firestore') {
+    return new FirestoreDataService()
+  }
+  if (provider === 'memory') {
+    return new MemoryDataService({ snapshotPath: process.env.MEMORY_SNAPSHOT_PATH?.trim() || undefined })
+  }
+  return new PostgresDataService()
+}
@@ -1,55 +1,385 @@
 import type {
+  AssetRiskAssessment,
+  AuditEntry,
+  ChecklistTemplate,
   DetectedFault,
+  ExpertContact,
+  ExpertEscalation,
+  ExpertEscalationStatus,
   Inspection,
+  InspectionAnnotation,
+  InspectionChecklist,
+  InspectionReview,
+  InspectionStatus,
   OcrFinding,
+  Organization,
+  PartOrder,
+  PartOrderStatus,
+  ReadingAnomaly,
+  ReportGenerationJob,
+  ReportJobStatus,
+  ReportTemplate,
+  RetentionDataClass,
+  RetentionPolicy,
   SafetyFlag,
+  ShareSession,
+  ShareSessionStatus,
   Site,
   SiteAsset,
   Technician,
+  TimeEntry,
+  TranscriptEntry,
+  TranscriptSpeaker,
   WorkflowEvent,
 } from '../types'
 import type { InspectionReport } from './firestore-data.service'
 
-interface ListInspectionFilters {
+export interface ListInspectionFilters {
   technicianId?: string
   siteId?: string
-  status?: 'in_progress' | 'completed'
+  assetId?: string
+  status?: InspectionStatus
+}
+
+export type InspectionSortField = 'timestamp' | 'status' | 'siteId' | 'technicianId'
+
+export interface InspectionSearchQuery extends ListInspectionFilters {
+  from?: Date
+  to?: Date
+  /** Full-text search over transcript, summary, fault descriptions and OCR text. */
+  search?: string
+  sortBy?: InspectionSortField
+  sortOrder?: 'asc' | 'desc'
+  limit?: number
+  /** Opaque cursor from the previous page's `nextCursor`. */
+  cursor?: string
+}
+
+export interface InspectionPage {
+  items: Inspection[]
+  nextCursor: string | null
+}
+
+export type UpdateTechnicianInput = Pick<Technician, 'name' | 'email' | 'role'>
+
+export type UpdateSiteInput = Pick<Site, 'name' | 'type' | 'location'>
+
+export interface ListDirectoryOptions {
+  /** Include deactivated records, which listings leave out by default. */
+  includeDeleted?: boolean
 }
 
 interface UpdateInspectionStatusInput {
-  status: 'in_progress' | 'completed'
+  status: InspectionStatus
   summary?: string
+  checklistOverrideReason?: string
+  /** Replaces the stored review in the same write as the status. */
+  review?: InspectionReview
+  expectedVersion?: number
+}
+
+export type UpdateTimeEntryInput = Pick<
+  TimeEntry,
+  'status' | 'resumedAt' | 'endedAt' | 'durationSeconds' | 'notes'
+>
+
+export interface ListPartOrderFilters {
+  inspectionId?: string
+  statuses?: PartOrderStatus[]
 }
 
+export type UpdatePartOrderInput = Pick<
+  PartOrder,
+  'status' | 'statusNote' | 'externalReferenceId' | 'estimatedDelivery'
+>
+
+export type NewReportJob = Pick<ReportGenerationJob, 'inspectionId' | 'provider' | 'maxAttempts' | 'nextAttemptAt'>
+
+export interface ListReportJobFilters {
+  inspectionId?: string
+  statuses?: ReportJobStatus[]
+  /** At most 200. */
+  limit?: number
+}
+
+export interface ReportJobClaim {
+  now: Date
+  /** How long the claimed attempt may run before another worker can take it over. */
+  leaseMs: number
+  /** Claims this job only, and takes it even if its `nextAttemptAt` has not come yet. */
+  jobId?: string
+}
+
+export type UpdateReportJobInput = Pick<ReportGenerationJob, 'status' | 'provider' | 'attempts'> &
+  Partial<Pick<ReportGenerationJob, 'nextAttemptAt' | 'leaseExpiresAt' | 'reportGeneratedAt' | 'error'>>
+
+/** The state an update was decided on; each claim counts an attempt, so it also names the lease holder. */
+export type ReportJobRevision = Pick<ReportGenerationJob, 'status' | 'attempts'>
+
+export interface ListExpertEscalationFilters {
+  inspectionId?: string
+  statuses?: ExpertEscalationStatus[]
+}
+
+/** The state an escalation update was decided on: its status and the expert it was assigned to. */
+export type ExpertEscalationRevision = Pick<ExpertEscalation, 'status' | 'assignedExpertId'>
+
+export type UpdateExpertEscalationInput = Pick<
+  ExpertEscalation,
+  | 'status'
+  | 'assignedExpertId'
+  | 'contactedExpertIds'
+  | 'acknowledgeBy'
+  | 'acknowledgedAt'
+  | 'resolvedAt'
+  | 'resolutionNote'
+>
+
+export interface ListShareSessionFilters {
+  inspectionId?: string
+  statuses?: ShareSessionStatus[]
+}
+
+export type NewTranscriptEntry = Pick<TranscriptEntry, 'speaker' | 'text' | 'source' | 'language'> & {
+  /** Defaults to now. */
+  timestamp?: Date
+}
+
+export interface TranscriptQuery {
+  /** Returns entries after this position; entries always come back in transcript order. */
+  afterSequence?: number
+  limit?: number
+  speaker?: TranscriptSpeaker
+  /** Case-insensitive substring match on the entry text. */
+  search?: string
+}
+
+/** What `purgeInspectionData` removed; counts are of records that existed before the purge. */
+export interface InspectionPurgeResult {
+  transcriptEntries: number
+  images: number
+  ocrFindings: number
+  report: boolean
+}
+
+export interface AuditLogQuery {
+  actorUid?: string
+  action?: string
+  entityType?: string
+  entityId?: string
+  from?: Date
+  to?: Date
+  /** Returns entries after this chain position; entries always come back in chain order. */
+  afterSequence?: number
+  limit?: number
+}
+
+/** Record kinds carried in a data archive, keyed by their archive `type`. */
+export interface ArchiveRecordMap {
+  technician: Technician
+  site: Site
+  asset: SiteAsset
+  inspection: Inspection
+  transcript: TranscriptEntry
+  report: InspectionReport
+}
+
+export type ArchiveRecordType = keyof ArchiveRecordMap
+
 export interface DataService {
+  /** Resolves once the store can serve requests; rejects when it must not (e.g. schema mismatch). */
+  ready?: () => Promise<void>
+  /** Releases connections so short-lived scripts can exit. */
+  close?: () => Promise<void>
   createTechnician: (
     input: Omit<Technician, 'id' | 'createdAt' | 'updatedAt'>,
   ) => Promise<Technician>
-  listTechnicians: () => Promise<Technician[]>
+  listTechnicians: (options?: ListDirectoryOptions) => Promise<Technician[]>
+  /** Resolves deactivated technicians too, so past inspections keep their technician. */
+  getTechnicianById: (technicianId: string) => Promise<Technician | null>
+  /** Matches the email case-insensitively among active technicians; the newest wins if several share it. */
+  getTechnicianByEmail: (email: string) => Promise<Technician | null>
+  updateTechnician: (technicianId: string, input: UpdateTechnicianInput) => Promise<Technician | null>
+  /** Soft-deletes the technician; deactivating twice keeps the first `deletedAt`. */
+  deactivateTechnician: (technicianId: string) => Promise<Technician | null>
   createSite: (input: Omit<Site, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Site>
-  listSites: () => Promise<Site[]>
-  createInspection: (input: { technicianId: string; siteId: string }) => Promise<Inspection>
+  listSites: (options?: ListDirectoryOptions) => Promise<Site[]>
+  /** Resolves deactivated sites too, so past inspections keep their site. */
+  getSiteById: (siteId: string) => Promise<Site | null>
+  updateSite: (siteId: string, input: UpdateSiteInput) => Promise<Site | null>
+  /** Soft-deletes the site; deactivating twice keeps the first `deletedAt`. */
+  deactivateSite: (siteId: string) => Promise<Site | null>
+  setSiteTechnicians: (siteId: string, technicianIds: string[]) => Promise<Site | null>
+  /** Replaces the site's retention overrides; null clears them so the deployment defaults apply. */
+  setSiteRetention: (siteId: string, retention: RetentionPolicy | null) => Promise<Site | null>
+  /** Replaces the site's report branding; null clears it so the organization's template applies. */
+  setSiteReportTemplate: (siteId: string, template: ReportTemplate | null) => Promise<Site | null>
+  createInspection: (input: { technicianId: string; siteId: string; assetIds?: string[] }) => Promise<Inspection>
   getInspectionById: (id: string) => Promise<Inspection | null>
   listInspections: (filters: ListInspectionFilters) => Promise<Inspection[]>
+  searchInspections: (query: InspectionSearchQuery) => Promise<InspectionPage>
+  /**
+   * Every inspection write bumps `version`. Writes given an `expectedVersion`
+   * throw `InspectionVersionConflictError` unless it is still the stored one.
+   */
   updateInspectionStatus: (
     inspectionId: string,
     input: UpdateInspectionStatusInput,
   ) => Promise<Inspection | null>
+  linkInspectionAssets: (
+    inspectionId: string,
+    assetIds: string[],
+    expectedVersion?: number,
+  ) => Promise<Inspection | null>
+  setInspectionChecklist: (
+    inspectionId: string,
+    checklist: InspectionChecklist,
+    expectedVersion?: number,
+  ) => Promise<void>
   appendInspectionSafetyFlags: (inspectionId: string, flags: SafetyFlag[]) => Promise<void>
   appendInspectionDetectedFaults: (inspectionId: string, faults: DetectedFault[]) => Promise<void>
-  appendInspectionTranscript: (inspectionId: string, entry: string) => Promise<void>
+  /** Stores the entry at the next sequence and adds its line to the inspection's `transcript` text. */
+  appendInspectionTranscript: (inspectionId: string, entry: NewTranscriptEntry) => Promise<TranscriptEntry>
+  listTranscriptEntries: (inspectionId: string, query?: TranscriptQuery) => Promise<TranscriptEntry[]>
   appendInspectionImage: (inspectionId: string, imageUrl: string) => Promise<void>
   appendInspectionOcrFinding: (
     inspectionId: string,
     finding: Omit<OcrFinding, 'createdAt'>,
   ) => Promise<void>
+  appendInspectionAnomalyFindings: (inspectionId: string, findings: ReadingAnomaly[]) => Promise<void>
   appendInspectionWorkflowEvent: (
     inspectionId: string,
     event: Omit<WorkflowEvent, 'id' | 'createdAt'>,
   ) => Promise<WorkflowEvent>
+  /**
+   * Removes the given data classes from one inspection in a single write.
+   * Purging transcripts also empties the transcript excerpt of every stored report version.
+   * Storage objects are not touched; that is the caller's job. Null when the
+   * inspection does not exist.
+   */
+  purgeInspectionData: (
+    inspectionId: string,
+    classes: RetentionDataClass[],
+  ) => Promise<InspectionPurgeResult | null>
+  /** Stores the report as the inspection's next version; earlier versions are kept as they were. */
   generateInspectionReport: (inspectionId: string) => Promise<InspectionReport | null>
-  getInspectionReport: (inspectionId: string) => Promise<InspectionReport | null>
+  /** The latest version, or the given one. */
+  getInspectionReport: (inspectionId: string, version?: number) => Promise<InspectionReport | null>
+  /** Every stored version, oldest first. */
+  listInspectionReportVersions: (inspectionId: string) => Promise<InspectionReport[]>
+  /** Stores a `queued` job with no attempts yet. */
+  createReportJob: (input: NewReportJob) => Promise<ReportGenerationJob>
+  getReportJob: (jobId: string) => Promise<ReportGenerationJob | null>
+  /** Newest first. */
+  listReportJobs: (filters: ListReportJobFilters) => Promise<ReportGenerationJob[]>
+  /**
+   * Moves the longest-waiting due job to `processing` and counts the attempt.
+   * A job is due when it is queued and its `nextAttemptAt` has passed, or when
+   * it is processing and its lease has run out. Two callers never claim the
+   * same attempt. Null when nothing is due.
+   */
+  claimReportJob: (claim: ReportJobClaim) => Promise<ReportGenerationJob | null>
+  /**
+   * Replaces the job's state if it still has the `expected` status and attempts;
+   * optional fields left out are cleared. Null when the job is missing or has
+   * moved on, e.g. another worker took over the lease.
+   */
+  updateReportJob: (
+    jobId: string,
+    expected: ReportJobRevision,
+    input: UpdateReportJobInput,
+  ) => Promise<ReportGenerationJob | null>
   createSiteAsset: (input: Omit<SiteAsset, 'id' | 'createdAt' | 'updatedAt'>) => Promise<SiteAsset>
   listSiteAssets: (siteId: string) => Promise<SiteAsset[]>
+  getSiteAsset: (assetId: string) => Promise<SiteAsset | null>
+  updateSiteAssetRisk: (assetId: string, assessment: AssetRiskAssessment) => Promise<void>
   deleteSiteAsset: (assetId: string) => Promise<void>
+  createChecklistTemplate: (
+    input: Omit<ChecklistTemplate, 'id' | 'createdAt' | 'updatedAt'>,
+  ) => Promise<ChecklistTemplate>
+  getChecklistTemplate: (templateId: string) => Promise<ChecklistTemplate | null>
+  listChecklistTemplates: (siteType?: ChecklistTemplate['siteType']) => Promise<ChecklistTemplate[]>
+  deleteChecklistTemplate: (templateId: string) => Promise<boolean>
+  /** Both writes throw `TimeEntryStateError` rather than leave two running entries on an inspection. */
+  createTimeEntry: (input: Omit<TimeEntry, 'id' | 'createdAt' | 'updatedAt'>) => Promise<TimeEntry>
+  updateTimeEntry: (entryId: string, input: UpdateTimeEntryInput) => Promise<TimeEntry | null>
+  listTimeEntries: (inspectionId: string) => Promise<TimeEntry[]>
+  createPartOrder: (input: Omit<PartOrder, 'id' | 'createdAt' | 'updatedAt'>) => Promise<PartOrder>
+  getPartOrderById: (orderId: string) => Promise<PartOrder | null>
+  updatePartOrder: (orderId: string, input: UpdatePartOrderInput) => Promise<PartOrder | null>
+  listPartOrders: (filters: ListPartOrderFilters) => Promise<PartOrder[]>
+  createExpertContact: (
+    input: Omit<ExpertContact, 'id' | 'createdAt' | 'updatedAt'>,
+  ) => Promise<ExpertContact>
+  listExpertContacts: () => Promise<ExpertContact[]>
+  updateExpertContactAvailability: (
+    expertId: string,
+    availability: ExpertContact['availability'],
+  ) => Promise<ExpertContact | null>
+  createExpertEscalation: (
+    input: Omit<ExpertEscalation, 'id' | 'createdAt' | 'updatedAt'>,
+  ) => Promise<ExpertEscalation>
+  getExpertEscalationById: (escalationId: string) => Promise<ExpertEscalation | null>
+  /**
+   * Replaces the escalation's routing state if it still has the `expected` status and
+   * assignee. Null when it is missing or has moved on, e.g. the expert acknowledged it
+   * while it was being re-routed.
+   */
+  updateExpertEscalation: (
+    escalationId: string,
+    expected: ExpertEscalationRevision,
+    input: UpdateExpertEscalationInput,
+  ) => Promise<ExpertEscalation | null>
+  listExpertEscalations: (filters: ListExpertEscalationFilters) => Promise<ExpertEscalation[]>
+  createShareSession: (input: Omit<ShareSession, 'id' | 'createdAt'>) => Promise<ShareSession>
+  getShareSessionById: (sessionId: string) => Promise<ShareSession | null>
+  updateShareSessionStatus: (
+    sessionId: string,
+    status: ShareSessionStatus,
+    endedAt?: Date,
+  ) => Promise<ShareSession | null>
+  listShareSessions: (filters: ListShareSessionFilters) => Promise<ShareSession[]>
+  createAnnotation: (
+    input: Omit<InspectionAnnotation, 'id' | 'createdAt'>,
+  ) => Promise<InspectionAnnotation>
+  listAnnotations: (inspectionId: string) => Promise<InspectionAnnotation[]>
+  deleteAnnotation: (inspectionId: string, annotationId: string) => Promise<boolean>
+  /** Adds an entry at its `sequence`; rejects with AuditSequenceConflictError when that position is taken. */
+  appendAuditEntry: (entry: AuditEntry) => Promise<void>
+  getLatestAuditEntry: () => Promise<AuditEntry | null>
+  listAuditEntries: (query: AuditLogQuery) => Promise<AuditEntry[]>
+  /** Pages every record of a kind in id order, starting after `afterId`. Reports are keyed by inspection id. */
+  listArchiveRecords: <T extends ArchiveRecordType>(
+    type: T,
+    afterId: string | null,
+    limit: number,
+  ) => Promise<Array<ArchiveRecordMap[T]>>
+  getArchiveRecord: <T extends ArchiveRecordType>(type: T, id: string) => Promise<ArchiveRecordMap[T] | null>
+  /** Writes a record as-is, keeping its id and timestamps; replaces any existing record with that id. */
+  putArchiveRecord: <T extends ArchiveRecordType>(type: T, record: ArchiveRecordMap[T]) => Promise<void>
 }
+
+export type NewOrganization = Pick<Organization, 'id' | 'name'> & Partial<Pick<Organization, 'settings'>>
+
+export type UpdateOrganizationInput = Partial<Pick<Organization, 'name' | 'settings'>>
+
+/**
+ * The deployment-wide list of organizations. Each organization's records
+ * live in a partition of their own: a Postgres schema, a Firestore document
+ * path, or a separate in-memory store. The default organization keeps the
+ * partition that existed before organizations did.
+ */
+export interface OrganizationDirectory {
+  ready?: () => Promise<void>
+  close?: () => Promise<void>
+  /** Creates the organization's partition too; throws OrganizationExistsError when the id is taken. */
+  createOrganization: (input: NewOrganization) => Promise<Organization>
+  /** The default organization always resolves, even before anything about it is stored. */
+  getOrganization: (organizationId: string) => Promise<Organization | null>
+  listOrganizations: () => Promise<Organization[]>
+  updateOrganization: (organizationId: string, input: UpdateOrganizationInput) => Promise<Organization | null>
+  /** A data service confined to one organization's partition; it neither sees nor writes anything outside it. */
+  forOrganization: (organizationId: string) => DataService
+}
+
+export type PartitionedDataService = DataService & OrganizationDirectory
@@ -0,0 +1,234 @@
+import {
+  EscalationAccessError,
+  EscalationStateError,
+  ExpertRoutingService,
+  escalationResponseTokenOrganization,
+} from './expert-routing.service'
+import { runInOrganization } from './organization-context'
+import type { DataService } from './data-service'
+import type { ExpertContact, ExpertEscalation } from '../types'
+
+function createExpert(overrides: Partial<ExpertContact>): ExpertContact {
+  return {
+    id: 'expert-1',
+    name: 'Grace',
+    role: 'Senior engineer',
+    specialty: ['general'],
+    availability: 'online',
+    contactMethod: 'email',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+function createDataService(
+  experts: ExpertContact[],
+): Pick<
+  DataService,
+  | 'listExpertContacts'
+  | 'createExpertEscalation'
+  | 'getExpertEscalationById'
+  | 'updateExpertEscalation'
+  | 'listExpertEscalations'
+> {
+  const escalations = new Map<string, ExpertEscalation>()
+  let nextId = 1
+
+  return {
+    async listExpertContacts() {
+      return experts
+    },
+    async createExpertEscalation(input) {
+      const escalation: ExpertEscalation = {
+        id: `esc-${nextId++}`,
+        ...input,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }
+      escalations.set(escalation.id, escalation)
+      return escalation
+    },
+    async getExpertEscalationById(escalationId) {
+      return escalations.get(escalationId) || null
+    },
+    async updateExpertEscalation(escalationId, expected, input) {
+      const current = escalations.get(escalationId)
+      if (!current || current.status !== expected.status || current.assignedExpertId !== expected.assignedExpertId) {
+        return null
+      }
+      const updated = { ...current, ...input, updatedAt: new Date() }
+      escalations.set(escalationId, updated)
+      return updated
+    },
+    async listExpertEscalations(filters) {
+      return Array.from(escalations.values()).filter(
+        (escalation) =>
+          (!filters.inspectionId || escalation.inspectionId === filters.inspectionId) &&
+          (!filters.statuses || filters.statuses.includes(escalation.status)),
+      )
+    },
+  }
+}
+
+describe('ExpertRoutingService', () => {
+  const experts = [
+    createExpert({ id: 'generalist', name: 'Grace' }),
+    createExpert({ id: 'electrician', name: 'Nikola', specialty: ['electrical'] }),
+    createExpert({ id: 'busy-electrician', name: 'Ada', specialty: ['electrical'], availability: 'busy' }),
+    createExpert({ id: 'offline-hydraulics', name: 'Blaise', specialty: ['hydraulic'], availability: 'offline' }),
+  ]
+
+  const originalSecret = process.env.EXPERT_ESCALATION_SECRET
+
+  beforeEach(() => {
+    process.env.EXPERT_ESCALATION_SECRET = 'escalation-secret'
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    if (originalSecret === undefined) {
+      delete process.env.EXPERT_ESCALATION_SECRET
+    } else {
+      process.env.EXPERT_ESCALATION_SECRET = originalSecret
+    }
+  })
+
+  it('routes to an online specialist matching the computed expertise', async () => {
+    const service = new ExpertRoutingService(createDataService(experts))
+
+    const result = await service.escalateToExpert({
+      inspectionId: 'insp-1',
+      reason: 'Breaker keeps tripping',
+      priority: 'high',
+      context: { faultDescription: 'Voltage drop on the main circuit' },
+    })
+
+    expect(result.escalation.requiredExpertise).toEqual(['electrical'])
+    expect(result.escalation.assignedExpertId).toBe('electrician')
+    expect(result.expertContacted).toBe('Nikola')
+    expect(result.escalation.acknowledgeBy).toBeInstanceOf(Date)
+  })
+
+  it('re-escalates to the next expert when the acknowledgement deadline passes', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-01T10:00:00.000Z'))
+    const onEscalationUpdated = jest.fn()
+    const service = new ExpertRoutingService(createDataService(experts), { onEscalationUpdated })
+    const { escalation } = await service.escalateToExpert({
+      inspectionId: 'insp-1',
+      reason: 'Exposed wire near panel',
+      priority: 'critical',
+      context: {},
+    })
+
+    expect(await service.processAcknowledgementTimeouts(new Date('2026-03-01T10:04:00.000Z'))).toEqual([])
+
+    const rerouted = await service.processAcknowledgementTimeouts(new Date('2026-03-01T10:06:00.000Z'))
+
+    expect(rerouted).toHaveLength(1)
+    expect(rerouted[0].id).toBe(escalation.id)
+    expect(rerouted[0].assignedExpertId).toBe('busy-electrician')
+    expect(rerouted[0].contactedExpertIds).toEqual(['electrician', 'busy-electrician'])
+    expect(onEscalationUpdated).toHaveBeenCalledTimes(2)
+  })
+
+  it('leaves an escalation the expert acknowledged while it was being re-routed', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-01T10:00:00.000Z'))
+    const dataService = createDataService(experts)
+    const service = new ExpertRoutingService(dataService)
+    const { escalation } = await service.escalateToExpert({
+      inspectionId: 'insp-1',
+      reason: 'Exposed wire near panel',
+      priority: 'critical',
+      context: {},
+    })
+    jest.spyOn(dataService, 'listExpertContacts').mockImplementationOnce(async () => {
+      await service.acknowledge(escalation.id, service.responseTokenFor(escalation) ?? undefined)
+      return experts
+    })
+
+    expect(await service.processAcknowledgementTimeouts(new Date('2026-03-01T10:06:00.000Z'))).toEqual([])
+    expect(await service.getEscalation(escalation.id)).toMatchObject({
+      status: 'acknowledged',
+      assignedExpertId: 'electrician',
+      contactedExpertIds: ['electrician'],
+    })
+  })
+
+  it('tracks acknowledgement and resolution by the assigned expert', async () => {
+    const onEscalationUpdated = jest.fn()
+    const service = new ExpertRoutingService(createDataService(experts), { onEscalationUpdated })
+    const { escalation } = await service.escalateToExpert({
+      inspectionId: 'insp-1',
+      reason: 'Unclear reading',
+      priority: 'low',
+      context: {},
+    })
+
+    const impostor = service.responseTokenFor({ id: escalation.id, assignedExpertId: 'electrician' })
+    await expect(service.acknowledge(escalation.id, impostor ?? undefined)).rejects.toBeInstanceOf(
+      EscalationAccessError,
+    )
+    await expect(service.acknowledge(escalation.id, undefined)).rejects.toBeInstanceOf(EscalationAccessError)
+
+    const token = service.responseTokenFor(escalation) ?? undefined
+    expect(escalationResponseTokenOrganization(token)).toBe('default')
+    const acknowledged = await service.acknowledge(escalation.id, token)
+    await expect(service.acknowledge(escalation.id, token)).rejects.toBeInstanceOf(EscalationStateError)
+    const resolved = await service.resolveAsExpert(escalation.id, 'Gauge needs recalibration', token)
+
+    expect(acknowledged.status).toBe('acknowledged')
+    expect(resolved.status).toBe('resolved')
+    expect(resolved.resolutionNote).toBe('Gauge needs recalibration')
+    expect(onEscalationUpdated).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: 'resolved' }),
+      null,
+    )
+    await expect(service.resolve(escalation.id, 'again')).rejects.toBeInstanceOf(EscalationStateError)
+  })
+
+  it('voids response tokens from another organization, a re-routed expert or a missing secret', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-01T10:00:00.000Z'))
+    const service = new ExpertRoutingService(createDataService(experts))
+    const { escalation } = await service.escalateToExpert({
+      inspectionId: 'insp-1',
+      reason: 'Exposed wire near panel',
+      priority: 'critical',
+      context: {},
+    })
+    const firstToken = service.responseTokenFor(escalation) ?? undefined
+    const otherOrganization = runInOrganization('acme', () => service.responseTokenFor(escalation)) ?? undefined
+    expect(escalationResponseTokenOrganization(otherOrganization)).toBe('acme')
+    await expect(service.acknowledge(escalation.id, otherOrganization)).rejects.toBeInstanceOf(
+      EscalationAccessError,
+    )
+
+    const [rerouted] = await service.processAcknowledgementTimeouts(new Date('2026-03-01T10:06:00.000Z'))
+    await expect(service.acknowledge(escalation.id, firstToken)).rejects.toBeInstanceOf(EscalationAccessError)
+    expect(await service.acknowledge(escalation.id, service.responseTokenFor(rerouted) ?? undefined)).toMatchObject({
+      status: 'acknowledged',
+      assignedExpertId: 'busy-electrician',
+    })
+
+    delete process.env.EXPERT_ESCALATION_SECRET
+    expect(service.isResponseConfigured()).toBe(false)
+    expect(service.responseTokenFor(rerouted)).toBeNull()
+    await expect(service.resolveAsExpert(escalation.id, 'Fixed', firstToken)).rejects.toBeInstanceOf(
+      EscalationAccessError,
+    )
+  })
+
+  it('keeps escalations queued when no matching expert is available', async () => {
+    const service = new ExpertRoutingService(createDataService([experts[3]]))
+
+    const result = await service.escalateToExpert({
+      inspectionId: 'insp-1',
+      reason: 'Hydraulic cylinder leaking fluid',
+      priority: 'medium',
+      context: {},
+    })
+
+    expect(result.status).toBe('queued')
+    expect(result.escalation.assignedExpertId).toBeUndefined()
+  })
+})
@@ -1,13 +1,18 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { DataService, UpdateExpertEscalationInput } from './data-service'
+import {
+  currentOrganizationId,
+  DEFAULT_ORGANIZATION_ID,
+  runInCurrentScope,
+  type ScopedTaskRunner,
+} from './organization-context'
+import type { ExpertContact, ExpertEscalation, ExpertEscalationContext } from '../types'
+
 export interface ExpertEscalationRequest {
   inspectionId: string
   reason: string
   priority: 'low' | 'medium' | 'high' | 'critical'
-  context: {
-    faultDescription?: string
-    failedAttempts?: number
-    technicianNotes?: string
-    attachedImages?: string[]
-  }
+  context: ExpertEscalationContext
 }
 
 export interface ExpertEscalationResult {
@@ -16,22 +21,59 @@ export interface ExpertEscalationResult {
   expertContacted?: string
   estimatedResponseTime?: string
   message: string
+  escalation: ExpertEscalation
 }
 
-export interface ExpertContact {
-  id: string
-  name: string
-  role: string
-  specialty: string[]
-  availability: 'online' | 'offline' | 'busy'
-  contactMethod: 'email' | 'sms' | 'push'
+export class EscalationStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EscalationStateError'
+  }
+}
+
+export class EscalationAccessError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EscalationAccessError'
+  }
+}
+
+/**
+ * Response tokens start with the organization they were issued in, so the
+ * unauthenticated expert routes know which organization to check them in.
+ */
+export function escalationResponseTokenOrganization(token: string | undefined): string | null {
+  const [organizationId, signature, extra] = token?.split('.') ?? []
+  return organizationId && signature && extra === undefined ? organizationId : null
 }
 
 type EscalationProvider = 'webhook' | 'email' | 'sms' | 'push'
 
+type ExpertRoutingDataService = Pick<
+  DataService,
+  | 'listExpertContacts'
+  | 'createExpertEscalation'
+  | 'getExpertEscalationById'
+  | 'updateExpertEscalation'
+  | 'listExpertEscalations'
+>
+
+interface ExpertRoutingOptions {
+  onEscalationUpdated?: (escalation: ExpertEscalation, expert: ExpertContact | null) => void
+}
+
+const ACK_TIMEOUT_MINUTES_BY_PRIORITY: Record<ExpertEscalation['priority'], number> = {
+  critical: 5,
+  high: 15,
+  medium: 60,
+  low: 240,
+}
+
 export class ExpertRoutingService {
   private readonly webhookUrl: string | undefined
   private readonly provider: EscalationProvider
+  private readonly dataService: ExpertRoutingDataService
+  private readonly onEscalationUpdated?: ExpertRoutingOptions['onEscalationUpdated']
   private readonly expertiseAreas = [
     'electrical',
     'mechanical',
@@ -43,7 +85,9 @@ export class ExpertRoutingService {
     'general',
   ]
 
-  constructor() {
+  constructor(dataService: ExpertRoutingDataService, options: ExpertRoutingOptions = {}) {
+    this.dataService = dataService
+    this.onEscalationUpdated = options.onEscalationUpdated
     this.webhookUrl = process.env.EXPERT_ESCALATION_WEBHOOK?.trim()
     this.provider = this.resolveProvider()
   }
@@ -56,47 +100,150 @@ export class ExpertRoutingService {
     return 'webhook'
   }
 
+  /**
+   * Persists an escalation, routes it to the best available expert for the
+   * computed expertise and starts the acknowledgement clock.
+   */
   public async escalateToExpert(
     request: ExpertEscalationRequest,
   ): Promise<ExpertEscalationResult> {
-    const escalationId = `ESC_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+    const requiredExpertise = this.determineRequiredExpertise(
+      [request.reason, request.context.faultDescription || '', request.context.technicianNotes || ''],
+    )
 
-    if (!this.webhookUrl && this.provider === 'webhook') {
-      return {
-        escalationId,
-        status: 'queued',
-        message: 'Expert escalation queued (no webhook configured). A supervisor will be notified.',
-      }
+    const escalation = await this.dataService.createExpertEscalation({
+      inspectionId: request.inspectionId,
+      reason: request.reason,
+      priority: request.priority,
+      requiredExpertise,
+      status: 'queued',
+      context: request.context,
+      contactedExpertIds: [],
+    })
+
+    return this.routeEscalation(escalation, true)
+  }
+
+  public async getEscalation(escalationId: string): Promise<ExpertEscalation | null> {
+    return this.dataService.getExpertEscalationById(escalationId)
+  }
+
+  public async listEscalations(inspectionId?: string, openOnly = false): Promise<ExpertEscalation[]> {
+    return this.dataService.listExpertEscalations({
+      inspectionId,
+      statuses: openOnly ? ['queued', 'sent', 'acknowledged'] : undefined,
+    })
+  }
+
+  public isResponseConfigured(): boolean {
+    return Boolean(process.env.EXPERT_ESCALATION_SECRET?.trim())
+  }
+
+  /**
+   * The expert's credential for one escalation, sent with the page. It is
+   * signed for the assigned expert, so re-routing to another expert voids it.
+   */
+  public responseTokenFor(escalation: Pick<ExpertEscalation, 'id' | 'assignedExpertId'>): string | null {
+    const secret = process.env.EXPERT_ESCALATION_SECRET?.trim()
+    if (!secret || !escalation.assignedExpertId) {
+      return null
     }
+    const organizationId = currentOrganizationId() ?? DEFAULT_ORGANIZATION_ID
+    const signature = createHmac('sha256', secret)
+      .update(`expert-escalation:${organizationId}:${escalation.id}:${escalation.assignedExpertId}`)
+      .digest('base64url')
+    return `${organizationId}.${signature}`
+  }
 
-    try {
-      const payload = this.buildEscalationPayload(request, escalationId)
-
-      if (this.provider === 'webhook' && this.webhookUrl) {
-        const response = await this.callWebhook(payload)
-        return {
-          escalationId,
-          status: response.ok ? 'sent' : 'queued',
-          estimatedResponseTime: this.getEstimatedResponseTime(request.priority),
-          message: response.ok
-            ? `Escalation sent to expert team. Reference: ${escalationId}`
-            : 'Escalation queued for retry.',
-        }
-      }
+  /** Acknowledges as the expert the response token was issued to. */
+  public async acknowledge(escalationId: string, responseToken: string | undefined): Promise<ExpertEscalation> {
+    const escalation = await this.requireEscalation(escalationId)
+    this.assertResponder(escalation, responseToken)
+    if (escalation.status !== 'queued' && escalation.status !== 'sent') {
+      throw new EscalationStateError(`Escalation ${escalationId} is ${escalation.status} and cannot be acknowledged`)
+    }
 
-      return {
-        escalationId,
-        status: 'queued',
-        estimatedResponseTime: this.getEstimatedResponseTime(request.priority),
-        message: `Escalation queued via ${this.provider}. Reference: ${escalationId}`,
+    const updated = await this.saveEscalation(escalation, {
+      status: 'acknowledged',
+      assignedExpertId: escalation.assignedExpertId,
+      contactedExpertIds: escalation.contactedExpertIds,
+      acknowledgeBy: undefined,
+      acknowledgedAt: new Date(),
+      resolvedAt: undefined,
+      resolutionNote: undefined,
+    })
+    this.notify(updated)
+    return updated
+  }
+
+  /** Resolves as the expert the response token was issued to. */
+  public async resolveAsExpert(
+    escalationId: string,
+    resolutionNote: string,
+    responseToken: string | undefined,
+  ): Promise<ExpertEscalation> {
+    this.assertResponder(await this.requireEscalation(escalationId), responseToken)
+    return this.resolve(escalationId, resolutionNote)
+  }
+
+  public async resolve(escalationId: string, resolutionNote: string): Promise<ExpertEscalation> {
+    const escalation = await this.requireEscalation(escalationId)
+    if (escalation.status === 'resolved') {
+      throw new EscalationStateError(`Escalation ${escalationId} is already resolved`)
+    }
+
+    const updated = await this.saveEscalation(escalation, {
+      status: 'resolved',
+      assignedExpertId: escalation.assignedExpertId,
+      contactedExpertIds: escalation.contactedExpertIds,
+      acknowledgeBy: undefined,
+      acknowledgedAt: escalation.acknowledgedAt,
+      resolvedAt: new Date(),
+      resolutionNote,
+    })
+    this.notify(updated)
+    return updated
+  }
+
+  /**
+   * Re-routes escalations whose assigned expert missed the acknowledgement
+   * deadline, and retries unassigned ones in case an expert came online.
+   */
+  public async processAcknowledgementTimeouts(now: Date = new Date()): Promise<ExpertEscalation[]> {
+    const pending = await this.dataService.listExpertEscalations({ statuses: ['queued', 'sent'] })
+    const rerouted: ExpertEscalation[] = []
+
+    for (const escalation of pending) {
+      const timedOut = Boolean(escalation.acknowledgeBy && escalation.acknowledgeBy.getTime() <= now.getTime())
+      if (escalation.assignedExpertId && !timedOut) {
+        continue
       }
-    } catch (error) {
-      return {
-        escalationId,
-        status: 'queued',
-        message: `Escalation queued locally. ${error instanceof Error ? error.message : 'Will retry.'}`,
+
+      try {
+        const result = await this.routeEscalation(escalation, timedOut)
+        if (result.escalation.assignedExpertId !== escalation.assignedExpertId) {
+          rerouted.push(result.escalation)
+        }
+      } catch (error) {
+        // Acknowledged, resolved or re-routed elsewhere since it was listed
+        if (!(error instanceof EscalationStateError)) {
+          throw error
+        }
       }
     }
+
+    return rerouted
+  }
+
+  public startAcknowledgementMonitor(
+    intervalMs = 60_000,
+    runInScope: ScopedTaskRunner = runInCurrentScope,
+  ): () => void {
+    const timer = setInterval(() => {
+      void runInScope(() => this.processAcknowledgementTimeouts().catch(() => undefined))
+    }, intervalMs)
+    timer.unref()
+    return () => clearInterval(timer)
   }
 
   public shouldEscalate(
@@ -138,6 +285,150 @@ export class ExpertRoutingService {
     return required.length > 0 ? required : ['general']
   }
 
+  /**
+   * Picks the expert covering most of the required expertise, preferring
+   * online over busy experts. Generalists are used when no specialist matches.
+   */
+  public selectExpert(
+    experts: ExpertContact[],
+    requiredExpertise: string[],
+    excludedExpertIds: string[] = [],
+  ): ExpertContact | null {
+    const candidates = experts
+      .filter((expert) => expert.availability !== 'offline' && !excludedExpertIds.includes(expert.id))
+      .map((expert) => {
+        const specialties = expert.specialty.map((value) => value.toLowerCase())
+        const matches = requiredExpertise.filter((area) => specialties.includes(area)).length
+        const generalist = specialties.includes('general')
+        return { expert, matches, generalist }
+      })
+      .filter((candidate) => candidate.matches > 0 || candidate.generalist)
+      .sort((a, b) => {
+        if (b.matches !== a.matches) {
+          return b.matches - a.matches
+        }
+        if (a.expert.availability !== b.expert.availability) {
+          return a.expert.availability === 'online' ? -1 : 1
+        }
+        return a.expert.name.localeCompare(b.expert.name)
+      })
+
+    return candidates[0]?.expert || null
+  }
+
+  private async routeEscalation(
+    escalation: ExpertEscalation,
+    notifyWhenUnassigned: boolean,
+  ): Promise<ExpertEscalationResult> {
+    const experts = await this.dataService.listExpertContacts()
+    const expert = this.selectExpert(experts, escalation.requiredExpertise, escalation.contactedExpertIds)
+
+    if (!expert) {
+      const updated = await this.saveEscalation(escalation, {
+        status: 'queued',
+        assignedExpertId: undefined,
+        contactedExpertIds: escalation.contactedExpertIds,
+        acknowledgeBy: undefined,
+        acknowledgedAt: undefined,
+        resolvedAt: undefined,
+        resolutionNote: undefined,
+      })
+      if (notifyWhenUnassigned) {
+        this.notify(updated)
+      }
+      return {
+        escalationId: updated.id,
+        status: updated.status,
+        message: `No available ${escalation.requiredExpertise.join('/')} expert. Escalation queued for a supervisor.`,
+        escalation: updated,
+      }
+    }
+
+    const acknowledgeBy = new Date(
+      Date.now() + this.getAcknowledgementTimeoutMinutes(escalation.priority) * 60_000,
+    )
+    const delivered = await this.dispatch({ ...escalation, acknowledgeBy }, expert)
+    const updated = await this.saveEscalation(escalation, {
+      status: delivered ? 'sent' : 'queued',
+      assignedExpertId: expert.id,
+      contactedExpertIds: [...escalation.contactedExpertIds, expert.id],
+      acknowledgeBy,
+      acknowledgedAt: undefined,
+      resolvedAt: undefined,
+      resolutionNote: undefined,
+    })
+    this.notify(updated, expert)
+
+    return {
+      escalationId: updated.id,
+      status: updated.status,
+      expertContacted: expert.name,
+      estimatedResponseTime: this.getEstimatedResponseTime(escalation.priority),
+      message: delivered
+        ? `Escalation sent to ${expert.name}. Reference: ${updated.id}`
+        : `Escalation assigned to ${expert.name} and queued for delivery. Reference: ${updated.id}`,
+      escalation: updated,
+    }
+  }
+
+  private async dispatch(escalation: ExpertEscalation, expert: ExpertContact): Promise<boolean> {
+    if (this.provider !== 'webhook' || !this.webhookUrl) {
+      return false
+    }
+
+    const response = await this.callWebhook(this.buildEscalationPayload(escalation, expert))
+    return response.ok
+  }
+
+  private assertResponder(escalation: ExpertEscalation, responseToken: string | undefined): void {
+    const expected = this.responseTokenFor(escalation)
+    const expectedBuffer = Buffer.from(expected ?? '')
+    const actualBuffer = Buffer.from(responseToken ?? '')
+    const valid =
+      Boolean(expected) &&
+      expectedBuffer.length === actualBuffer.length &&
+      timingSafeEqual(expectedBuffer, actualBuffer)
+    if (!valid) {
+      throw new EscalationAccessError('Escalation response token is invalid or no longer assigned')
+    }
+  }
+
+  private notify(escalation: ExpertEscalation, expert: ExpertContact | null = null): void {
+    this.onEscalationUpdated?.(escalation, expert)
+  }
+
+  private async requireEscalation(escalationId: string): Promise<ExpertEscalation> {
+    const escalation = await this.dataService.getExpertEscalationById(escalationId)
+    if (!escalation) {
+      throw new Error('Escalation not found')
+    }
+    return escalation
+  }
+
+  /** Writes over the state the change was decided on, refusing if the escalation has moved on since. */
+  private async saveEscalation(
+    escalation: ExpertEscalation,
+    input: UpdateExpertEscalationInput,
+  ): Promise<ExpertEscalation> {
+    const expected = { status: escalation.status, assignedExpertId: escalation.assignedExpertId }
+    const updated = await this.dataService.updateExpertEscalation(escalation.id, expected, input)
+    if (updated) {
+      return updated
+    }
+    if (!(await this.dataService.getExpertEscalationById(escalation.id))) {
+      throw new Error('Escalation not found')
+    }
+    throw new EscalationStateError(`Escalation ${escalation.id} changed while it was being updated`)
+  }
+
+  private getAcknowledgementTimeoutMinutes(priority: ExpertEscalation['priority']): number {
+    const configured = Number.parseInt(process.env.EXPERT_ACK_TIMEOUT_MINUTES || '', 10)
+    if (Number.isFinite(configured) && configured > 0) {
+      return configured
+    }
+    return ACK_TIMEOUT_MINUTES_BY_PRIORITY[priority]
+  }
+
   private getKeywordsForExpertise(area: string): string[] {
     const keywords: Record<string, string[]> = {
       electrical: ['voltage', 'current', 'circuit', 'wire', 'power', 'electrical', 'fuse', 'breaker'],
@@ -153,15 +444,25 @@ export class ExpertRoutingService {
   }
 
   private buildEscalationPayload(
-    request: ExpertEscalationRequest,
-    escalationId: string,
+    escalation: ExpertEscalation,
+    expert: ExpertContact,
   ): Record<string, unknown> {
     return {
-      escalationId,
-      inspectionId: request.inspectionId,
-      priority: request.priority,
-      reason: request.reason,
-      context: request.context,
+      escalationId: escalation.id,
+      inspectionId: escalation.inspectionId,
+      priority: escalation.priority,
+      reason: escalation.reason,
+      context: escalation.context,
+      requiredExpertise: escalation.requiredExpertise,
+      expert: {
+        id: expert.id,
+        name: expert.name,
+        email: expert.email,
+        contactMethod: expert.contactMethod,
+      },
+      acknowledgeBy: escalation.acknowledgeBy?.toISOString(),
+      // Experts have no account; this token is how they acknowledge and resolve
+      responseToken: this.responseTokenFor({ id: escalation.id, assignedExpertId: expert.id }) ?? undefined,
       requestedAt: new Date().toISOString(),
       source: 'fieldsightlive',
     }
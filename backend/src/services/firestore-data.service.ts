@@ -1,51 +1,257 @@
-import { Firestore, Timestamp } from '@google-cloud/firestore'
+import { type CollectionReference, FieldPath, FieldValue, Firestore, Timestamp } from '@google-cloud/firestore'
 import { v4 as uuidv4 } from 'uuid'
 import type {
+  ArchiveRecordMap,
+  ArchiveRecordType,
+  AuditLogQuery,
+  ExpertEscalationRevision,
+  InspectionPage,
+  InspectionPurgeResult,
+  InspectionSearchQuery,
+  ListDirectoryOptions,
+  ListExpertEscalationFilters,
+  ListInspectionFilters,
+  ListPartOrderFilters,
+  ListReportJobFilters,
+  ListShareSessionFilters,
+  NewOrganization,
+  NewReportJob,
+  NewTranscriptEntry,
+  ReportJobClaim,
+  ReportJobRevision,
+  TranscriptQuery,
+  UpdateExpertEscalationInput,
+  UpdateOrganizationInput,
+  UpdatePartOrderInput,
+  UpdateReportJobInput,
+  UpdateSiteInput,
+  UpdateTechnicianInput,
+  UpdateTimeEntryInput,
+} from './data-service'
+import { AuditSequenceConflictError, normalizeAuditPageSize } from './audit-chain'
+import { archiveRecordId } from './data-archive.service'
+import { buildInspectionReport } from './inspection-report'
+import { readInspectionReview, readInspectionStatus, type StoredInspectionReview } from './inspection-review'
+import { assertInspectionVersion } from './inspection-version'
+import {
+  DEFAULT_ORGANIZATION_ID,
+  OrganizationExistsError,
+  assertOrganizationId,
+  defaultOrganization,
+} from './organization-context'
+import { isReportJobDue, readReportJobStatus, readReportPipelineProvider, reportJobDueAt } from './report-jobs'
+import { readReportTemplate } from './report-template'
+import { reportContentHash, reportVersionId } from './report-version'
+import { readRetentionPolicy } from './retention'
+import {
+  decodeInspectionCursor,
+  inspectionSearchText,
+  normalizeInspectionPageSize,
+  toInspectionPage,
+  tokenizeSearchText,
+} from './inspection-query'
+import { runningTaskConflict } from './time-tracking.service'
+import {
+  MAX_TRANSCRIPT_PAGE_SIZE,
+  formatTranscriptLine,
+  matchesTranscriptQuery,
+  normalizeTranscriptPageSize,
+  parseLegacyTranscript,
+} from './transcript'
+import type {
+  AssetRiskAssessment,
+  AuditEntry,
+  ChecklistTemplate,
+  ChecklistTemplateItem,
   DetectedFault,
+  ExpertContact,
+  ExpertEscalation,
   Inspection,
+  InspectionAnnotation,
+  InspectionChecklist,
+  InspectionChecklistItem,
+  InspectionReview,
+  InspectionStatus,
   OcrFinding,
+  Organization,
+  PartOrder,
+  ReadingAnomaly,
+  ReportGenerationJob,
+  ReportTemplate,
+  RetentionDataClass,
+  RetentionPolicy,
   SafetyFlag,
+  ShareSession,
+  ShareSessionStatus,
   Site,
   SiteAsset,
   Technician,
+  TimeEntry,
+  TranscriptEntry,
   WorkflowEvent,
 } from '../types'
 
 interface CreateInspectionInput {
   technicianId: string
   siteId: string
-}
-
-interface ListInspectionFilters {
-  technicianId?: string
-  siteId?: string
-  status?: 'in_progress' | 'completed'
+  assetIds?: string[]
 }
 
 interface UpdateInspectionStatusInput {
-  status: 'in_progress' | 'completed'
+  status: InspectionStatus
   summary?: string
+  checklistOverrideReason?: string
+  review?: InspectionReview
+  expectedVersion?: number
 }
 
 export interface InspectionReport {
   inspectionId: string
+  /** Starts at 1; every generation stores a new version and never changes an earlier one. */
+  version: number
+  /** See `reportContentHash`. */
+  contentHash: string
   generatedAt: Date
   technicianId: string
   siteId: string
-  status: 'in_progress' | 'completed'
+  status: InspectionStatus
   findings: string[]
   safetySummary: string[]
   workflowSummary: string[]
   recommendedActions: string[]
   imageCount: number
+  totalTrackedMinutes: number
+  timeSummary: string[]
+  openPartOrders: string[]
+  annotationSummary: string[]
+  /** Timestamped `Speaker: "text"` quotes from the transcript. */
+  transcriptExcerpt: string[]
   summaryText: string
 }
 
+const ARCHIVE_COLLECTIONS: Record<ArchiveRecordType, string> = {
+  technician: 'technicians',
+  site: 'sites',
+  asset: 'site_assets',
+  inspection: 'inspections',
+  transcript: 'transcript_entries',
+  report: 'inspectionReports',
+}
+
+function technicianEmailKey(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/** Firestore batches hold at most 500 writes. */
+const LEGACY_TRANSCRIPT_BATCH_SIZE = 400
+const PURGE_BATCH_SIZE = 400
+
+/** gRPC status Firestore reports when `create()` finds the document already there. */
+const ALREADY_EXISTS = 6
+
+const REPORT_VERSION_ATTEMPTS = 3
+
+/** Oldest unfinished jobs a claim looks through; the due one that has waited longest among them wins. */
+const REPORT_JOB_CLAIM_SCAN = 50
+
+/** Documents written before inspections were versioned count as version 1. */
+function storedInspectionVersion(data: Record<string, unknown>): number {
+  return typeof data.version === 'number' ? data.version : 1
+}
+
+/**
+ * The default organization's collections sit at the database root, where
+ * they were before organizations existed. Every other organization's live
+ * under `organizations/{id}`, next to its directory entry.
+ */
 export class FirestoreDataService {
   private readonly db: Firestore
+  private readonly organizationId: string
+  private readonly views: Map<string, FirestoreDataService>
+  /** Inspections whose transcript is known to be stored as entries. */
+  private readonly convertedTranscripts = new Set<string>()
 
-  constructor(db?: Firestore) {
+  /** `partition` is for `forOrganization`; a new service owns the default organization's collections. */
+  constructor(db?: Firestore, partition?: { organizationId: string; views: Map<string, FirestoreDataService> }) {
     this.db = db ?? new Firestore()
+    this.organizationId = partition?.organizationId ?? DEFAULT_ORGANIZATION_ID
+    this.views = partition?.views ?? new Map()
+    this.views.set(this.organizationId, this)
+  }
+
+  public async close(): Promise<void> {
+    await this.db.terminate()
+  }
+
+  public forOrganization(organizationId: string): FirestoreDataService {
+    assertOrganizationId(organizationId)
+    return (
+      this.views.get(organizationId) ??
+      new FirestoreDataService(this.db, { organizationId, views: this.views })
+    )
+  }
+
+  public async createOrganization(input: NewOrganization): Promise<Organization> {
+    assertOrganizationId(input.id)
+    if (input.id === DEFAULT_ORGANIZATION_ID) {
+      throw new OrganizationExistsError(input.id)
+    }
+
+    const now = new Date()
+    const organization: Organization = {
+      id: input.id,
+      name: input.name,
+      settings: input.settings ?? {},
+      createdAt: now,
+      updatedAt: now,
+    }
+    try {
+      await this.db.collection('organizations').doc(organization.id).create(this.serializeDates(organization))
+    } catch (error) {
+      if ((error as { code?: unknown }).code === ALREADY_EXISTS) {
+        throw new OrganizationExistsError(input.id)
+      }
+      throw error
+    }
+    return organization
+  }
+
+  public async getOrganization(organizationId: string): Promise<Organization | null> {
+    const doc = await this.db.collection('organizations').doc(organizationId).get()
+    if (doc.exists) {
+      return this.deserializeOrganization(doc.id, doc.data() as Record<string, unknown>)
+    }
+    return organizationId === DEFAULT_ORGANIZATION_ID ? defaultOrganization() : null
+  }
+
+  public async listOrganizations(): Promise<Organization[]> {
+    const snapshot = await this.db.collection('organizations').orderBy(FieldPath.documentId()).get()
+    const organizations = snapshot.docs.map((doc) => this.deserializeOrganization(doc.id, doc.data()))
+    if (!organizations.some((organization) => organization.id === DEFAULT_ORGANIZATION_ID)) {
+      organizations.push(defaultOrganization())
+    }
+    return organizations.sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  public async updateOrganization(
+    organizationId: string,
+    input: UpdateOrganizationInput,
+  ): Promise<Organization | null> {
+    const ref = this.db.collection('organizations').doc(organizationId)
+    return this.db.runTransaction(async (tx) => {
+      const doc = await tx.get(ref)
+      if (!doc.exists && organizationId !== DEFAULT_ORGANIZATION_ID) {
+        return null
+      }
+
+      const now = new Date()
+      const existing = doc.exists
+        ? this.deserializeOrganization(doc.id, doc.data() as Record<string, unknown>)
+        : { ...defaultOrganization(), createdAt: now }
+      const organization: Organization = { ...existing, ...input, updatedAt: now }
+      tx.set(ref, this.serializeDates(organization))
+      return organization
+    })
   }
 
   public async createTechnician(
@@ -60,13 +266,81 @@ export class FirestoreDataService {
       updatedAt: now,
     }
 
-    await this.db.collection('technicians').doc(id).set(this.serializeDates(technician))
+    await this.collection('technicians')
+      .doc(id)
+      .set({ ...this.serializeDates(technician), emailKey: technicianEmailKey(technician.email) })
     return technician
   }
 
-  public async listTechnicians(): Promise<Technician[]> {
-    const snapshot = await this.db.collection('technicians').orderBy('createdAt', 'desc').limit(100).get()
-    return snapshot.docs.map((doc) => this.deserializeTechnician(doc.data() as Record<string, unknown>))
+  public async listTechnicians(options: ListDirectoryOptions = {}): Promise<Technician[]> {
+    const snapshot = await this.collection('technicians').orderBy('createdAt', 'desc').limit(100).get()
+    // Older documents have no deletedAt field at all, so a `== null` query would skip them
+    return snapshot.docs
+      .map((doc) => this.deserializeTechnician(doc.data() as Record<string, unknown>))
+      .filter((technician) => options.includeDeleted || !technician.deletedAt)
+  }
+
+  public async getTechnicianById(technicianId: string): Promise<Technician | null> {
+    const snap = await this.collection('technicians').doc(technicianId).get()
+    if (!snap.exists) {
+      return null
+    }
+    return this.deserializeTechnician(snap.data() as Record<string, unknown>)
+  }
+
+  /**
+   * Technicians carry `emailKey`, the lower-cased email, because Firestore
+   * equality is case-sensitive. Documents written before the field existed
+   * are found by their email as stored.
+   */
+  public async getTechnicianByEmail(email: string): Promise<Technician | null> {
+    const key = technicianEmailKey(email)
+    const technicians = this.collection('technicians')
+    let snapshot = await technicians.where('emailKey', '==', key).get()
+    if (snapshot.empty) {
+      snapshot = await technicians.where('email', 'in', [...new Set([email.trim(), key])]).get()
+    }
+    const [technician] = snapshot.docs
+      .map((doc) => this.deserializeTechnician(doc.data() as Record<string, unknown>))
+      .filter((candidate) => !candidate.deletedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    return technician ?? null
+  }
+
+  public async updateTechnician(technicianId: string, input: UpdateTechnicianInput): Promise<Technician | null> {
+    const ref = this.collection('technicians').doc(technicianId)
+    const current = await ref.get()
+    if (!current.exists) {
+      return null
+    }
+
+    await ref.set(
+      this.serializeDates({
+        name: input.name,
+        email: input.email,
+        emailKey: technicianEmailKey(input.email),
+        role: input.role,
+        updatedAt: new Date(),
+      }),
+      { merge: true },
+    )
+    const updated = await ref.get()
+    return this.deserializeTechnician(updated.data() as Record<string, unknown>)
+  }
+
+  public async deactivateTechnician(technicianId: string): Promise<Technician | null> {
+    const ref = this.collection('technicians').doc(technicianId)
+    const current = await ref.get()
+    if (!current.exists) {
+      return null
+    }
+
+    if (!current.data()?.deletedAt) {
+      const now = new Date()
+      await ref.set(this.serializeDates({ deletedAt: now, updatedAt: now }), { merge: true })
+    }
+    const updated = await ref.get()
+    return this.deserializeTechnician(updated.data() as Record<string, unknown>)
   }
 
   public async createSite(input: Omit<Site, 'id' | 'createdAt' | 'updatedAt'>): Promise<Site> {
@@ -79,13 +353,100 @@ export class FirestoreDataService {
       updatedAt: now,
     }
 
-    await this.db.collection('sites').doc(id).set(this.serializeDates(site))
+    await this.collection('sites').doc(id).set(this.serializeDates(site))
     return site
   }
 
-  public async listSites(): Promise<Site[]> {
-    const snapshot = await this.db.collection('sites').orderBy('createdAt', 'desc').limit(100).get()
-    return snapshot.docs.map((doc) => this.deserializeSite(doc.data() as Record<string, unknown>))
+  public async listSites(options: ListDirectoryOptions = {}): Promise<Site[]> {
+    const snapshot = await this.collection('sites').orderBy('createdAt', 'desc').limit(100).get()
+    return snapshot.docs
+      .map((doc) => this.deserializeSite(doc.data() as Record<string, unknown>))
+      .filter((site) => options.includeDeleted || !site.deletedAt)
+  }
+
+  public async getSiteById(siteId: string): Promise<Site | null> {
+    const snap = await this.collection('sites').doc(siteId).get()
+    if (!snap.exists) {
+      return null
+    }
+    return this.deserializeSite(snap.data() as Record<string, unknown>)
+  }
+
+  public async updateSite(siteId: string, input: UpdateSiteInput): Promise<Site | null> {
+    const ref = this.collection('sites').doc(siteId)
+    const current = await ref.get()
+    if (!current.exists) {
+      return null
+    }
+
+    await ref.set(
+      this.serializeDates({
+        name: input.name,
+        type: input.type,
+        location: input.location,
+        updatedAt: new Date(),
+      }),
+      { merge: true },
+    )
+    const updated = await ref.get()
+    return this.deserializeSite(updated.data() as Record<string, unknown>)
+  }
+
+  public async deactivateSite(siteId: string): Promise<Site | null> {
+    const ref = this.collection('sites').doc(siteId)
+    const current = await ref.get()
+    if (!current.exists) {
+      return null
+    }
+
+    if (!current.data()?.deletedAt) {
+      const now = new Date()
+      await ref.set(this.serializeDates({ deletedAt: now, updatedAt: now }), { merge: true })
+    }
+    const updated = await ref.get()
+    return this.deserializeSite(updated.data() as Record<string, unknown>)
+  }
+
+  public async setSiteTechnicians(siteId: string, technicianIds: string[]): Promise<Site | null> {
+    const ref = this.collection('sites').doc(siteId)
+    const current = await ref.get()
+    if (!current.exists) {
+      return null
+    }
+
+    await ref.set(this.serializeDates({ technicianIds, updatedAt: new Date() }), { merge: true })
+    const updated = await ref.get()
+    return this.deserializeSite(updated.data() as Record<string, unknown>)
+  }
+
+  public async setSiteRetention(siteId: string, retention: RetentionPolicy | null): Promise<Site | null> {
+    const ref = this.collection('sites').doc(siteId)
+    const current = await ref.get()
+    if (!current.exists) {
+      return null
+    }
+
+    await ref.set(
+      { ...this.serializeDates({ updatedAt: new Date() }), retention: retention ?? FieldValue.delete() },
+      { merge: true },
+    )
+    const updated = await ref.get()
+    return this.deserializeSite(updated.data() as Record<string, unknown>)
+  }
+
+  public async setSiteReportTemplate(siteId: string, template: ReportTemplate | null): Promise<Site | null> {
+    const ref = this.collection('sites').doc(siteId)
+    const current = await ref.get()
+    if (!current.exists) {
+      return null
+    }
+
+    await ref.set(
+      { ...this.serializeDates({ updatedAt: new Date() }), reportTemplate: template ?? FieldValue.delete() },
+      { merge: true },
+    )
+    const updated = await ref.get()
+    return this.deserializeSite(updated.data() as Record<string, unknown>)
   }
 
   public async createInspection(input: CreateInspectionInput): Promise<Inspection> {
@@ -96,21 +457,24 @@ export class FirestoreDataService {
       siteId: input.siteId,
       timestamp: new Date(),
       status: 'in_progress',
+      assetIds: [...new Set(input.assetIds || [])],
       images: [],
       safetyFlags: [],
       detectedFaults: [],
       recommendedActions: [],
       ocrFindings: [],
+      anomalyFindings: [],
       workflowEvents: [],
       transcript: '',
+      version: 1,
     }
 
-    await this.db.collection('inspections').doc(id).set(this.serializeDates(inspection))
+    await this.collection('inspections').doc(id).set({ ...this.serializeDates(inspection), searchTokens: [] })
     return inspection
   }
 
   public async getInspectionById(id: string): Promise<Inspection | null> {
-    const snapshot = await this.db.collection('inspections').doc(id).get()
+    const snapshot = await this.collection('inspections').doc(id).get()
     if (!snapshot.exists) {
       return null
     }
@@ -118,7 +482,7 @@ export class FirestoreDataService {
   }
 
   public async listInspections(filters: ListInspectionFilters): Promise<Inspection[]> {
-    let query: FirebaseFirestore.Query = this.db.collection('inspections')
+    let query: FirebaseFirestore.Query = this.collection('inspections')
 
     if (filters.technicianId) {
       query = query.where('technicianId', '==', filters.technicianId)
@@ -126,6 +490,9 @@ export class FirestoreDataService {
     if (filters.siteId) {
       query = query.where('siteId', '==', filters.siteId)
     }
+    if (filters.assetId) {
+      query = query.where('assetIds', 'array-contains', filters.assetId)
+    }
     if (filters.status) {
       query = query.where('status', '==', filters.status)
     }
@@ -134,26 +501,177 @@ export class FirestoreDataService {
     return snapshot.docs.map((doc) => this.deserializeInspection(doc.data() as Record<string, unknown>))
   }
 
+  /**
+   * Firestore has no full-text index, so inspections carry `searchTokens`, the
+   * words of their transcript, summary, fault descriptions and OCR text. One
+   * `array-contains` filter is allowed per query: it goes to the asset filter or
+   * the first search word, and any remaining words are matched while paging.
+   * Date ranges are queried directly only when sorting by timestamp.
+   */
+  public async searchInspections(query: InspectionSearchQuery): Promise<InspectionPage> {
+    const sortBy = query.sortBy ?? 'timestamp'
+    const sortOrder = query.sortOrder ?? 'desc'
+    const limit = normalizeInspectionPageSize(query.limit)
+    const tokens = tokenizeSearchText(query.search ?? '')
+    let base: FirebaseFirestore.Query = this.collection('inspections')
+
+    if (query.technicianId) {
+      base = base.where('technicianId', '==', query.technicianId)
+    }
+    if (query.siteId) {
+      base = base.where('siteId', '==', query.siteId)
+    }
+    if (query.status) {
+      base = base.where('status', '==', query.status)
+    }
+
+    let residualTokens = tokens
+    if (query.assetId) {
+      base = base.where('assetIds', 'array-contains', query.assetId)
+    } else if (tokens.length > 0) {
+      base = base.where('searchTokens', 'array-contains', tokens[0])
+      residualTokens = tokens.slice(1)
+    }
+
+    const rangeInQuery = sortBy === 'timestamp'
+    if (rangeInQuery && query.from) {
+      base = base.where('timestamp', '>=', query.from)
+    }
+    if (rangeInQuery && query.to) {
+      base = base.where('timestamp', '<=', query.to)
+    }
+
+    base = base.orderBy(sortBy, sortOrder).orderBy(FieldPath.documentId(), sortOrder)
+    let page = base
+    if (query.cursor) {
+      const cursor = decodeInspectionCursor(query.cursor, sortBy, sortOrder)
+      page = page.startAfter(sortBy === 'timestamp' ? new Date(cursor.value) : cursor.value, cursor.id)
+    }
+
+    const matches = (data: Record<string, unknown>, inspection: Inspection): boolean => {
+      const searchTokens = Array.isArray(data.searchTokens) ? data.searchTokens : []
+      return (
+        residualTokens.every((token) => searchTokens.includes(token)) &&
+        (rangeInQuery || !query.from || inspection.timestamp >= query.from) &&
+        (rangeInQuery || !query.to || inspection.timestamp <= query.to)
+      )
+    }
+    const needsScan = residualTokens.length > 0 || (!rangeInQuery && Boolean(query.from || query.to))
+    const batchSize = needsScan ? Math.max(limit * 2, 50) : limit + 1
+
+    const rows: Inspection[] = []
+    for (;;) {
+      const snapshot = await page.limit(batchSize).get()
+      for (const doc of snapshot.docs) {
+        const data = doc.data() as Record<string, unknown>
+        const inspection = this.deserializeInspection(data)
+        if (matches(data, inspection)) {
+          rows.push(inspection)
+        }
+      }
+      if (rows.length > limit || snapshot.size < batchSize) {
+        break
+      }
+      page = base.startAfter(snapshot.docs[snapshot.docs.length - 1])
+    }
+
+    return toInspectionPage(rows, { ...query, sortBy, sortOrder, limit })
+  }
+
   public async updateInspectionStatus(
     inspectionId: string,
     input: UpdateInspectionStatusInput,
   ): Promise<Inspection | null> {
-    const ref = this.db.collection('inspections').doc(inspectionId)
-    const current = await ref.get()
-    if (!current.exists) {
-      return null
-    }
+    const ref = this.collection('inspections').doc(inspectionId)
+    return this.db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) {
+        return null
+      }
 
-    const patch: Record<string, unknown> = {
-      status: input.status,
-    }
-    if (input.summary) {
-      patch.summary = input.summary
-    }
+      const data = snap.data() as Record<string, unknown>
+      const version = storedInspectionVersion(data)
+      assertInspectionVersion(version, input.expectedVersion)
+      const patch: Record<string, unknown> = {
+        status: input.status,
+        version: version + 1,
+      }
+      if (input.summary) {
+        patch.summary = input.summary
+        Object.assign(patch, this.searchTokenPatch(input.summary))
+      }
+      if (input.checklistOverrideReason) {
+        patch.checklistOverrideReason = input.checklistOverrideReason
+      }
+      if (input.review) {
+        patch.review = this.serializeDates(input.review)
+      }
 
-    await ref.set(patch, { merge: true })
-    const updated = await ref.get()
-    return this.deserializeInspection(updated.data() as Record<string, unknown>)
+      tx.set(ref, patch, { merge: true })
+      return this.deserializeInspection({ ...data, ...patch })
+    })
+  }
+
+  public async linkInspectionAssets(
+    inspectionId: string,
+    assetIds: string[],
+    expectedVersion?: number,
+  ): Promise<Inspection | null> {
+    const ref = this.collection('inspections').doc(inspectionId)
+    return this.db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) {
+        return null
+      }
+
+      const data = snap.data() as Record<string, unknown>
+      const version = storedInspectionVersion(data)
+      assertInspectionVersion(version, expectedVersion)
+      const current = Array.isArray(data.assetIds) ? data.assetIds.filter((v): v is string => typeof v === 'string') : []
+      const patch = { assetIds: [...new Set([...current, ...assetIds])], version: version + 1 }
+      tx.set(ref, patch, { merge: true })
+      return this.deserializeInspection({ ...data, ...patch })
+    })
+  }
+
+  public async setInspectionChecklist(
+    inspectionId: string,
+    checklist: InspectionChecklist,
+    expectedVersion?: number,
+  ): Promise<void> {
+    const ref = this.collection('inspections').doc(inspectionId)
+    await this.db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) {
+        throw new Error('Inspection not found')
+      }
+
+      const version = storedInspectionVersion(snap.data() as Record<string, unknown>)
+      assertInspectionVersion(version, expectedVersion)
+      tx.set(
+        ref,
+        {
+          version: version + 1,
+          checklist: {
+            templateId: checklist.templateId,
+            templateName: checklist.templateName,
+            items: checklist.items.map((item) =>
+              this.serializeDates({
+                ...this.serializeChecklistItem(item),
+                status: item.status,
+                reading: item.reading ?? null,
+                withinTolerance: item.withinTolerance ?? null,
+                photoUrl: item.photoUrl ?? null,
+                note: item.note ?? null,
+                markedBy: item.markedBy ?? null,
+                updatedAt: item.updatedAt ?? null,
+              }),
+            ),
+          },
+        },
+        { merge: true },
+      )
+    })
   }
 
   public async appendInspectionSafetyFlags(inspectionId: string, flags: SafetyFlag[]): Promise<void> {
@@ -161,7 +679,7 @@ export class FirestoreDataService {
       return
     }
 
-    const ref = this.db.collection('inspections').doc(inspectionId)
+    const ref = this.collection('inspections').doc(inspectionId)
     await this.db.runTransaction(async (tx) => {
       const snap = await tx.get(ref)
       if (!snap.exists) {
@@ -181,7 +699,7 @@ export class FirestoreDataService {
         }) as unknown as Record<string, unknown>,
       )
       safetyFlags.push(...nextFlags)
-      tx.set(ref, { safetyFlags }, { merge: true })
+      tx.set(ref, { safetyFlags, version: storedInspectionVersion(data) + 1 }, { merge: true })
     })
   }
 
@@ -193,7 +711,7 @@ export class FirestoreDataService {
       return
     }
 
-    const ref = this.db.collection('inspections').doc(inspectionId)
+    const ref = this.collection('inspections').doc(inspectionId)
     await this.db.runTransaction(async (tx) => {
       const snap = await tx.get(ref)
       if (!snap.exists) {
@@ -212,34 +730,97 @@ export class FirestoreDataService {
         recommendedActions: Array.isArray(fault.recommendedActions)
           ? fault.recommendedActions
           : [],
+        assetId: fault.assetId ?? null,
       }))
       detectedFaults.push(...nextFaults)
-      tx.set(ref, { detectedFaults }, { merge: true })
+      tx.set(
+        ref,
+        {
+          detectedFaults,
+          version: storedInspectionVersion(data) + 1,
+          ...this.searchTokenPatch(faults.map((fault) => fault.description).join(' ')),
+        },
+        { merge: true },
+      )
     })
   }
 
-  public async appendInspectionTranscript(inspectionId: string, entry: string): Promise<void> {
-    const trimmed = entry.trim()
-    if (!trimmed) {
-      return
+  public async appendInspectionTranscript(inspectionId: string, entry: NewTranscriptEntry): Promise<TranscriptEntry> {
+    const text = entry.text.trim()
+    if (!text) {
+      throw new Error('Transcript entry text is required')
     }
 
-    const ref = this.db.collection('inspections').doc(inspectionId)
-    await this.db.runTransaction(async (tx) => {
+    await this.convertLegacyTranscript(inspectionId)
+    const ref = this.collection('inspections').doc(inspectionId)
+    const entries = this.collection('transcript_entries')
+    // Every append also rewrites the inspection, so concurrent appends conflict and retry instead of sharing a sequence
+    return this.db.runTransaction(async (tx) => {
       const snap = await tx.get(ref)
       if (!snap.exists) {
         throw new Error('Inspection not found')
       }
+      const last = await tx.get(
+        entries.where('inspectionId', '==', inspectionId).orderBy('sequence', 'desc').limit(1),
+      )
 
+      const next: TranscriptEntry = {
+        id: uuidv4(),
+        inspectionId,
+        sequence: last.empty ? 1 : Number(last.docs[0].data().sequence) + 1,
+        speaker: entry.speaker,
+        text,
+        timestamp: entry.timestamp ?? new Date(),
+        language: entry.language,
+        source: entry.source,
+      }
       const data = snap.data() as Record<string, unknown>
       const currentTranscript = typeof data.transcript === 'string' ? data.transcript : ''
-      const transcript = currentTranscript ? `${currentTranscript}\n${trimmed}` : trimmed
-      tx.set(ref, { transcript }, { merge: true })
+      const line = formatTranscriptLine(next)
+      const transcript = currentTranscript ? `${currentTranscript}\n${line}` : line
+      tx.set(entries.doc(next.id), this.serializeDates(next))
+      tx.set(
+        ref,
+        { transcript, version: storedInspectionVersion(data) + 1, ...this.searchTokenPatch(line) },
+        { merge: true },
+      )
+      return next
     })
   }
 
+  public async listTranscriptEntries(inspectionId: string, query: TranscriptQuery = {}): Promise<TranscriptEntry[]> {
+    await this.convertLegacyTranscript(inspectionId)
+    const limit = normalizeTranscriptPageSize(query.limit)
+    let base: FirebaseFirestore.Query = this.collection('transcript_entries').where('inspectionId', '==', inspectionId)
+    if (query.speaker) {
+      base = base.where('speaker', '==', query.speaker)
+    }
+    base = base.orderBy('sequence', 'asc')
+
+    // Firestore cannot match substrings, so text search is applied while scanning pages
+    const entries: TranscriptEntry[] = []
+    let afterSequence = query.afterSequence
+    for (;;) {
+      const page = afterSequence === undefined ? base : base.where('sequence', '>', afterSequence)
+      const snapshot = await page.limit(limit).get()
+      for (const doc of snapshot.docs) {
+        const entry = this.deserializeTranscriptEntry(doc.data())
+        if (matchesTranscriptQuery(entry, { search: query.search })) {
+          entries.push(entry)
+          if (entries.length === limit) {
+            return entries
+          }
+        }
+      }
+      if (snapshot.size < limit) {
+        return entries
+      }
+      afterSequence = Number(snapshot.docs[snapshot.size - 1].data().sequence)
+    }
+  }
+
   public async appendInspectionImage(inspectionId: string, imageUrl: string): Promise<void> {
-    const ref = this.db.collection('inspections').doc(inspectionId)
+    const ref = this.collection('inspections').doc(inspectionId)
     await this.db.runTransaction(async (tx) => {
       const snap = await tx.get(ref)
       if (!snap.exists) {
@@ -249,12 +830,12 @@ export class FirestoreDataService {
       const data = snap.data() as Record<string, unknown>
       const images = Array.isArray(data.images) ? data.images.filter((v) => typeof v === 'string') : []
       images.push(imageUrl)
-      tx.set(ref, { images }, { merge: true })
+      tx.set(ref, { images, version: storedInspectionVersion(data) + 1 }, { merge: true })
     })
   }
 
   public async appendInspectionOcrFinding(inspectionId: string, finding: Omit<OcrFinding, 'createdAt'>): Promise<void> {
-    const ref = this.db.collection('inspections').doc(inspectionId)
+    const ref = this.collection('inspections').doc(inspectionId)
     await this.db.runTransaction(async (tx) => {
       const snap = await tx.get(ref)
       if (!snap.exists) {
@@ -266,8 +847,45 @@ export class FirestoreDataService {
         ? (data.ocrFindings as Record<string, unknown>[])
         : []
 
-      ocrFindings.push(this.serializeDates({ ...finding, createdAt: new Date() }) as Record<string, unknown>)
-      tx.set(ref, { ocrFindings }, { merge: true })
+      const withDate = { ...finding, assetId: finding.assetId ?? null, createdAt: new Date() }
+      ocrFindings.push(this.serializeDates(withDate) as Record<string, unknown>)
+      tx.set(
+        ref,
+        { ocrFindings, version: storedInspectionVersion(data) + 1, ...this.searchTokenPatch(finding.extractedText) },
+        { merge: true },
+      )
+    })
+  }
+
+  public async appendInspectionAnomalyFindings(inspectionId: string, findings: ReadingAnomaly[]): Promise<void> {
+    const ref = this.collection('inspections').doc(inspectionId)
+    await this.db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) {
+        throw new Error('Inspection not found')
+      }
+
+      const data = snap.data() as Record<string, unknown>
+      const anomalyFindings = Array.isArray(data.anomalyFindings)
+        ? (data.anomalyFindings as Record<string, unknown>[])
+        : []
+
+      for (const finding of findings) {
+        anomalyFindings.push(
+          this.serializeDates({
+            ...finding,
+            explanation: finding.explanation ?? null,
+            baseline: finding.baseline
+              ? {
+                  ...finding.baseline,
+                  ratePerDay: finding.baseline.ratePerDay ?? null,
+                  typicalRatePerDay: finding.baseline.typicalRatePerDay ?? null,
+                }
+              : null,
+          }) as Record<string, unknown>,
+        )
+      }
+      tx.set(ref, { anomalyFindings, version: storedInspectionVersion(data) + 1 }, { merge: true })
     })
   }
 
@@ -275,7 +893,7 @@ export class FirestoreDataService {
     inspectionId: string,
     event: Omit<WorkflowEvent, 'id' | 'createdAt'>,
   ): Promise<WorkflowEvent> {
-    const ref = this.db.collection('inspections').doc(inspectionId)
+    const ref = this.collection('inspections').doc(inspectionId)
     const nextEvent: WorkflowEvent = {
       id: uuidv4(),
       ...event,
@@ -294,83 +912,420 @@ export class FirestoreDataService {
         : []
 
       workflowEvents.push(this.serializeDates(nextEvent) as unknown as Record<string, unknown>)
-      tx.set(ref, { workflowEvents }, { merge: true })
+      tx.set(ref, { workflowEvents, version: storedInspectionVersion(data) + 1 }, { merge: true })
     })
 
     return nextEvent
   }
 
+  public async purgeInspectionData(
+    inspectionId: string,
+    classes: RetentionDataClass[],
+  ): Promise<InspectionPurgeResult | null> {
+    const purge = new Set(classes)
+    const ref = this.collection('inspections').doc(inspectionId)
+    const result = await this.db.runTransaction(async (tx) => {
+      const [snap, reports] = await Promise.all([tx.get(ref), tx.get(this.reportVersionsQuery(inspectionId))])
+      if (!snap.exists) {
+        return null
+      }
+
+      const data = snap.data() as Record<string, unknown>
+      const current = this.deserializeInspection(data)
+      const purged: InspectionPurgeResult = { transcriptEntries: 0, images: 0, ocrFindings: 0, report: false }
+      const patch: Record<string, unknown> = { version: storedInspectionVersion(data) + 1 }
+      if (purge.has('transcripts')) {
+        patch.transcript = ''
+        current.transcript = ''
+      }
+      if (purge.has('images')) {
+        purged.images = current.images.length
+        patch.images = []
+      }
+      if (purge.has('ocr')) {
+        purged.ocrFindings = current.ocrFindings.length
+        patch.ocrFindings = []
+        current.ocrFindings = []
+      }
+      // Tokens from purged text must stop matching, so rebuild them from what is left
+      patch.searchTokens = tokenizeSearchText(inspectionSearchText(current))
+      tx.set(ref, patch, { merge: true })
+
+      for (const report of reports.docs) {
+        if (purge.has('reports')) {
+          tx.delete(report.ref)
+          purged.report = true
+        } else if (purge.has('transcripts')) {
+          tx.set(report.ref, { transcriptExcerpt: [] }, { merge: true })
+        }
+      }
+      return purged
+    })
+
+    if (result && purge.has('transcripts')) {
+      result.transcriptEntries = await this.deleteTranscriptEntries(inspectionId)
+    }
+    return result
+  }
+
   public async generateInspectionReport(inspectionId: string): Promise<InspectionReport | null> {
     const inspection = await this.getInspectionById(inspectionId)
     if (!inspection) {
       return null
     }
 
-    const findings = inspection.detectedFaults.map((fault) =>
-      `${fault.component}: ${fault.faultType} (${Math.round(fault.confidence * 100)}% confidence)`,
-    )
+    const sources = {
+      timeEntries: await this.listTimeEntries(inspectionId),
+      partOrders: await this.listPartOrders({ inspectionId }),
+      annotations: await this.listAnnotations(inspectionId),
+      transcriptEntries: await this.listAllTranscriptEntries(inspectionId),
+    }
 
-    const safetySummary = inspection.safetyFlags.map(
-      (flag) => `${flag.severity.toUpperCase()} - ${flag.description}`,
-    )
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        return await this.db.runTransaction(async (tx) => {
+          const stored = await tx.get(this.reportVersionsQuery(inspectionId))
+          const versions = stored.docs.map((doc) => this.deserializeInspectionReport(doc.data()))
+          const version = Math.max(0, ...versions.map((existing) => existing.version)) + 1
+          const report = buildInspectionReport(inspection, sources, version)
+          for (const doc of stored.docs) {
+            // A report stored before versioning sits under the bare inspection id; give it its version 1 id
+            if (doc.id === inspectionId) {
+              tx.create(this.collection('inspectionReports').doc(reportVersionId(inspectionId, 1)), {
+                ...doc.data(),
+                version: 1,
+                contentHash: this.deserializeInspectionReport(doc.data()).contentHash,
+              })
+              tx.delete(doc.ref)
+            }
+          }
+          // create() rather than set(): a version, once written, is never replaced
+          tx.create(
+            this.collection('inspectionReports').doc(reportVersionId(inspectionId, version)),
+            this.serializeDates(report),
+          )
+          return report
+        })
+      } catch (error) {
+        // Two generations raced for the same version number; take the next one
+        if ((error as { code?: unknown }).code !== ALREADY_EXISTS || attempt >= REPORT_VERSION_ATTEMPTS) {
+          throw error
+        }
+      }
+    }
+  }
 
-    const workflowSummary = inspection.workflowEvents.map((event) => {
-      const status = event.status.toUpperCase()
-      const reference = event.externalReferenceId ? ` (${event.externalReferenceId})` : ''
-      return `${status} - ${event.action}: ${event.resultMessage}${reference}`
-    })
+  public async getInspectionReport(inspectionId: string, version?: number): Promise<InspectionReport | null> {
+    if (version === undefined) {
+      return (await this.listInspectionReportVersions(inspectionId)).pop() ?? null
+    }
 
-    const report: InspectionReport = {
-      inspectionId: inspection.id,
-      generatedAt: new Date(),
-      technicianId: inspection.technicianId,
-      siteId: inspection.siteId,
-      status: inspection.status,
-      findings,
-      safetySummary,
-      workflowSummary,
-      recommendedActions: inspection.recommendedActions,
-      imageCount: inspection.images.length,
-      summaryText:
-        inspection.summary ||
-        `Inspection ${inspection.id} has ${findings.length} findings, ${safetySummary.length} safety flags, and ${inspection.images.length} captured images.`,
-    }
-
-    await this.db
-      .collection('inspectionReports')
-      .doc(inspectionId)
-      .set(this.serializeDates(report), { merge: true })
+    const snapshot = await this.collection('inspectionReports').doc(reportVersionId(inspectionId, version)).get()
+    if (snapshot.exists) {
+      return this.deserializeInspectionReport(snapshot.data() as Record<string, unknown>)
+    }
+    const legacy = version === 1 ? await this.collection('inspectionReports').doc(inspectionId).get() : null
+    return legacy?.exists ? this.deserializeInspectionReport(legacy.data() as Record<string, unknown>) : null
+  }
 
-    return report
+  public async listInspectionReportVersions(inspectionId: string): Promise<InspectionReport[]> {
+    const snapshot = await this.reportVersionsQuery(inspectionId).get()
+    return snapshot.docs
+      .map((doc) => this.deserializeInspectionReport(doc.data()))
+      .sort((a, b) => a.version - b.version)
   }
 
-  public async getInspectionReport(inspectionId: string): Promise<InspectionReport | null> {
-    const snapshot = await this.db.collection('inspectionReports').doc(inspectionId).get()
-    if (!snapshot.exists) {
-      return null
+  public async createReportJob(input: NewReportJob): Promise<ReportGenerationJob> {
+    const now = new Date()
+    const job: ReportGenerationJob = {
+      jobId: uuidv4(),
+      ...input,
+      status: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
     }
 
-    const data = snapshot.data() as Record<string, unknown>
-    return {
-      inspectionId: String(data.inspectionId),
-      generatedAt: this.deserializeDate(data.generatedAt),
-      technicianId: String(data.technicianId),
-      siteId: String(data.siteId),
-      status: data.status === 'completed' ? 'completed' : 'in_progress',
-      findings: Array.isArray(data.findings)
-        ? data.findings.filter((v): v is string => typeof v === 'string')
-        : [],
-      safetySummary: Array.isArray(data.safetySummary)
-        ? data.safetySummary.filter((v): v is string => typeof v === 'string')
-        : [],
-      workflowSummary: Array.isArray(data.workflowSummary)
-        ? data.workflowSummary.filter((v): v is string => typeof v === 'string')
-        : [],
-      recommendedActions: Array.isArray(data.recommendedActions)
-        ? data.recommendedActions.filter((v): v is string => typeof v === 'string')
-        : [],
-      imageCount: Number(data.imageCount ?? 0),
-      summaryText: typeof data.summaryText === 'string' ? data.summaryText : '',
+    await this.collection('report_jobs').doc(job.jobId).set(this.serializeReportJob(job))
+    return job
+  }
+
+  public async getReportJob(jobId: string): Promise<ReportGenerationJob | null> {
+    const snapshot = await this.collection('report_jobs').doc(jobId).get()
+    if (!snapshot.exists) {
+      return null
+    }
+    return this.deserializeReportJob(snapshot.data() as Record<string, unknown>)
+  }
+
+  public async listReportJobs(filters: ListReportJobFilters): Promise<ReportGenerationJob[]> {
+    let query: FirebaseFirestore.Query = this.collection('report_jobs')
+
+    if (filters.inspectionId) {
+      query = query.where('inspectionId', '==', filters.inspectionId)
+    }
+    if (filters.statuses && filters.statuses.length > 0) {
+      query = query.where('status', 'in', filters.statuses)
+    }
+
+    const snapshot = await query.orderBy('createdAt', 'desc').limit(Math.min(filters.limit ?? 200, 200)).get()
+    return snapshot.docs.map((doc) => this.deserializeReportJob(doc.data() as Record<string, unknown>))
+  }
+
+  public async claimReportJob(claim: ReportJobClaim): Promise<ReportGenerationJob | null> {
+    const candidates: FirebaseFirestore.Query = claim.jobId
+      ? this.collection('report_jobs').where('jobId', '==', claim.jobId)
+      : this.collection('report_jobs')
+          .where('status', 'in', ['queued', 'processing'])
+          .orderBy('createdAt', 'asc')
+          .limit(REPORT_JOB_CLAIM_SCAN)
+    // Documents read in a transaction stay locked until it commits, so two workers cannot claim the same job
+    return this.db.runTransaction(async (tx) => {
+      const snapshot = await tx.get(candidates)
+      const [job] = snapshot.docs
+        .map((doc) => this.deserializeReportJob(doc.data() as Record<string, unknown>))
+        .filter((candidate) => isReportJobDue(candidate, claim.now, claim.jobId))
+        .sort((a, b) => reportJobDueAt(a) - reportJobDueAt(b) || a.createdAt.getTime() - b.createdAt.getTime())
+      if (!job) {
+        return null
+      }
+
+      const claimed: ReportGenerationJob = {
+        ...job,
+        status: 'processing',
+        attempts: job.attempts + 1,
+        leaseExpiresAt: new Date(claim.now.getTime() + claim.leaseMs),
+        updatedAt: new Date(),
+      }
+      tx.set(this.collection('report_jobs').doc(job.jobId), this.serializeReportJob(claimed))
+      return claimed
+    })
+  }
+
+  public async updateReportJob(
+    jobId: string,
+    expected: ReportJobRevision,
+    input: UpdateReportJobInput,
+  ): Promise<ReportGenerationJob | null> {
+    const ref = this.collection('report_jobs').doc(jobId)
+    return this.db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) {
+        return null
+      }
+
+      const current = this.deserializeReportJob(snap.data() as Record<string, unknown>)
+      if (current.status !== expected.status || current.attempts !== expected.attempts) {
+        return null
+      }
+      const job: ReportGenerationJob = {
+        ...input,
+        jobId,
+        inspectionId: current.inspectionId,
+        maxAttempts: current.maxAttempts,
+        createdAt: current.createdAt,
+        updatedAt: new Date(),
+      }
+      tx.set(ref, this.serializeReportJob(job))
+      return job
+    })
+  }
+
+  public async appendAuditEntry(entry: AuditEntry): Promise<void> {
+    // Zero-padded sequence ids keep documents in chain order; create() refuses a taken position
+    const ref = this.collection('audit_log').doc(String(entry.sequence).padStart(12, '0'))
+    try {
+      await ref.create({
+        ...entry,
+        actorUid: entry.actor?.uid ?? null,
+        // Stored as text so change values keep their exact JSON form and nested arrays are allowed
+        changes: JSON.stringify(entry.changes),
+      })
+    } catch (error) {
+      // gRPC status 6 is ALREADY_EXISTS
+      if ((error as { code?: number }).code === 6) {
+        throw new AuditSequenceConflictError(entry.sequence)
+      }
+      throw error
+    }
+  }
+
+  public async getLatestAuditEntry(): Promise<AuditEntry | null> {
+    const snapshot = await this.collection('audit_log').orderBy('sequence', 'desc').limit(1).get()
+    return snapshot.empty ? null : this.deserializeAuditEntry(snapshot.docs[0].data())
+  }
+
+  public async listAuditEntries(query: AuditLogQuery): Promise<AuditEntry[]> {
+    const limit = normalizeAuditPageSize(query.limit)
+    let base: FirebaseFirestore.Query = this.collection('audit_log')
+    if (query.actorUid) {
+      base = base.where('actorUid', '==', query.actorUid)
+    }
+    if (query.action) {
+      base = base.where('action', '==', query.action)
+    }
+    if (query.entityType) {
+      base = base.where('entityType', '==', query.entityType)
+    }
+    if (query.entityId) {
+      base = base.where('entityId', '==', query.entityId)
+    }
+    base = base.orderBy('sequence', 'asc')
+
+    // The time range is applied while scanning, since sequence already carries the
+    // inequality; entries are appended in time order, so the scan stops past `to`.
+    const entries: AuditEntry[] = []
+    let afterSequence = query.afterSequence
+    for (;;) {
+      const page = afterSequence === undefined ? base : base.where('sequence', '>', afterSequence)
+      const snapshot = await page.limit(limit).get()
+      for (const doc of snapshot.docs) {
+        const entry = this.deserializeAuditEntry(doc.data())
+        if (query.to && entry.occurredAt > query.to) {
+          return entries
+        }
+        if (!query.from || entry.occurredAt >= query.from) {
+          entries.push(entry)
+          if (entries.length === limit) {
+            return entries
+          }
+        }
+      }
+      if (snapshot.size < limit) {
+        return entries
+      }
+      afterSequence = this.deserializeAuditEntry(snapshot.docs[snapshot.size - 1].data()).sequence
+    }
+  }
+
+  public async listArchiveRecords<T extends ArchiveRecordType>(
+    type: T,
+    afterId: string | null,
+    limit: number,
+  ): Promise<Array<ArchiveRecordMap[T]>> {
+    let query = this.collection(ARCHIVE_COLLECTIONS[type]).orderBy(FieldPath.documentId()).limit(limit)
+    if (afterId) {
+      query = query.startAfter(afterId)
+    }
+    const snapshot = await query.get()
+    return snapshot.docs.map((doc) => this.deserializeArchiveRecord(type, doc.id, doc.data()))
+  }
+
+  public async getArchiveRecord<T extends ArchiveRecordType>(type: T, id: string): Promise<ArchiveRecordMap[T] | null> {
+    if (type === 'report') {
+      const [inspectionId, version] = id.split(':')
+      return (await this.getInspectionReport(inspectionId, Number(version))) as ArchiveRecordMap[T] | null
+    }
+    const snapshot = await this.collection(ARCHIVE_COLLECTIONS[type]).doc(id).get()
+    if (!snapshot.exists) {
+      return null
+    }
+    return this.deserializeArchiveRecord(type, snapshot.id, snapshot.data() as Record<string, unknown>)
+  }
+
+  public async putArchiveRecord<T extends ArchiveRecordType>(type: T, record: ArchiveRecordMap[T]): Promise<void> {
+    const data = this.serializeDates<Record<string, unknown>>({ ...record })
+    if (type === 'inspection') {
+      data.searchTokens = tokenizeSearchText(inspectionSearchText(record as Inspection))
+    } else if (type === 'technician') {
+      data.emailKey = technicianEmailKey((record as Technician).email)
+    }
+    await this.collection(ARCHIVE_COLLECTIONS[type]).doc(archiveRecordId(type, record)).set(data)
+    const report = type === 'report' ? (record as InspectionReport) : null
+    if (report?.version === 1) {
+      // The imported version 1 replaces a report stored before versioning
+      await this.collection('inspectionReports').doc(report.inspectionId).delete()
+    }
+  }
+
+  private async deleteTranscriptEntries(inspectionId: string): Promise<number> {
+    const query = this.collection('transcript_entries').where('inspectionId', '==', inspectionId)
+    let deleted = 0
+    for (;;) {
+      const snapshot = await query.limit(PURGE_BATCH_SIZE).get()
+      if (snapshot.empty) {
+        return deleted
+      }
+      const batch = this.db.batch()
+      snapshot.docs.forEach((doc) => batch.delete(doc.ref))
+      await batch.commit()
+      deleted += snapshot.size
+    }
+  }
+
+  /** Reports quote from the whole transcript, which can run past one page. */
+  private async listAllTranscriptEntries(inspectionId: string): Promise<TranscriptEntry[]> {
+    const entries: TranscriptEntry[] = []
+    for (;;) {
+      const page = await this.listTranscriptEntries(inspectionId, {
+        afterSequence: entries[entries.length - 1]?.sequence,
+        limit: MAX_TRANSCRIPT_PAGE_SIZE,
+      })
+      entries.push(...page)
+      if (page.length < MAX_TRANSCRIPT_PAGE_SIZE) {
+        return entries
+      }
+    }
+  }
+
+  /**
+   * Inspections written before transcript entries existed only have the text.
+   * The first read or append splits it into entries. Legacy ids are derived
+   * from the inspection and position, so concurrent conversions write the same
+   * documents.
+   */
+  private async convertLegacyTranscript(inspectionId: string): Promise<void> {
+    if (this.convertedTranscripts.has(inspectionId)) {
+      return
+    }
+
+    const entries = this.collection('transcript_entries')
+    const [inspection, existing] = await Promise.all([
+      this.collection('inspections').doc(inspectionId).get(),
+      entries.where('inspectionId', '==', inspectionId).limit(1).get(),
+    ])
+    if (!inspection.exists) {
+      return
+    }
+
+    if (existing.empty) {
+      const data = inspection.data() as Record<string, unknown>
+      const legacy = parseLegacyTranscript(
+        inspectionId,
+        typeof data.transcript === 'string' ? data.transcript : '',
+        this.deserializeDate(data.timestamp),
+      )
+      for (let start = 0; start < legacy.length; start += LEGACY_TRANSCRIPT_BATCH_SIZE) {
+        const batch = this.db.batch()
+        for (const entry of legacy.slice(start, start + LEGACY_TRANSCRIPT_BATCH_SIZE)) {
+          batch.set(entries.doc(entry.id), this.serializeDates(entry))
+        }
+        await batch.commit()
+      }
+    }
+    this.convertedTranscripts.add(inspectionId)
+  }
+
+  private searchTokenPatch(text: string): Record<string, unknown> {
+    const tokens = tokenizeSearchText(text)
+    return tokens.length > 0 ? { searchTokens: FieldValue.arrayUnion(...tokens) } : {}
+  }
+
+  /** Every read and write goes through here, so nothing reaches another organization's documents. */
+  private collection(name: string): CollectionReference {
+    if (this.organizationId === DEFAULT_ORGANIZATION_ID) {
+      return this.db.collection(name)
+    }
+    return this.db.collection('organizations').doc(this.organizationId).collection(name)
+  }
+
+  private deserializeOrganization(id: string, data: Record<string, unknown>): Organization {
+    return {
+      id,
+      name: typeof data.name === 'string' ? data.name : id,
+      settings: (data.settings as Organization['settings'] | undefined) ?? {},
+      createdAt: data.createdAt ? (data.createdAt as Timestamp).toDate() : new Date(),
+      updatedAt: data.updatedAt ? (data.updatedAt as Timestamp).toDate() : new Date(),
     }
   }
 
@@ -386,7 +1341,9 @@ export class FirestoreDataService {
     if (value && typeof value === 'object') {
       const output: Record<string, unknown> = {}
       for (const [key, val] of Object.entries(value as Record<string, unknown>)) {
-        output[key] = this.serializeDates(val)
+        if (val !== undefined) {
+          output[key] = this.serializeDates(val)
+        }
       }
       return output as T
     }
@@ -400,7 +1357,8 @@ export class FirestoreDataService {
       technicianId: String(data.technicianId),
       siteId: String(data.siteId),
       timestamp: this.deserializeDate(data.timestamp),
-      status: data.status === 'completed' ? 'completed' : 'in_progress',
+      status: readInspectionStatus(data.status),
+      assetIds: Array.isArray(data.assetIds) ? data.assetIds.filter((v): v is string => typeof v === 'string') : [],
       images: Array.isArray(data.images) ? data.images.filter((v): v is string => typeof v === 'string') : [],
       safetyFlags: Array.isArray(data.safetyFlags)
         ? data.safetyFlags.map((item) => {
@@ -439,6 +1397,7 @@ export class FirestoreDataService {
               recommendedActions: Array.isArray(entry.recommendedActions)
                 ? entry.recommendedActions.filter((v): v is string => typeof v === 'string')
                 : [],
+              assetId: typeof entry.assetId === 'string' ? entry.assetId : undefined,
             }
           })
         : [],
@@ -464,10 +1423,14 @@ export class FirestoreDataService {
                 ? entry.warningLabels.filter((v): v is string => typeof v === 'string')
                 : [],
               confidence: typeof entry.confidence === 'number' ? entry.confidence : 0,
+              assetId: typeof entry.assetId === 'string' ? entry.assetId : undefined,
               createdAt: this.deserializeDate(entry.createdAt),
             }
           })
         : [],
+      anomalyFindings: Array.isArray(data.anomalyFindings)
+        ? data.anomalyFindings.map((item) => this.deserializeReadingAnomaly(item as Record<string, unknown>))
+        : [],
       workflowEvents: Array.isArray(data.workflowEvents)
         ? data.workflowEvents.map((item) => {
             const entry = item as Record<string, unknown>
@@ -495,6 +1458,13 @@ export class FirestoreDataService {
         : [],
       transcript: typeof data.transcript === 'string' ? data.transcript : '',
       summary: typeof data.summary === 'string' ? data.summary : undefined,
+      checklist: data.checklist
+        ? this.deserializeInspectionChecklist(data.checklist as Record<string, unknown>)
+        : undefined,
+      checklistOverrideReason:
+        typeof data.checklistOverrideReason === 'string' ? data.checklistOverrideReason : undefined,
+      review: readInspectionReview(data.review as StoredInspectionReview | undefined),
+      version: storedInspectionVersion(data),
     }
   }
 
@@ -503,7 +1473,7 @@ export class FirestoreDataService {
   ): Promise<SiteAsset> {
     const id = uuidv4()
     const now = new Date()
-    const ref = this.db.collection('site_assets').doc(id)
+    const ref = this.collection('site_assets').doc(id)
     await ref.set({
       id,
       ...input,
@@ -514,30 +1484,848 @@ export class FirestoreDataService {
   }
 
   public async listSiteAssets(siteId: string): Promise<SiteAsset[]> {
-    const snapshot = await this.db
+    const snapshot = await this
       .collection('site_assets')
       .where('siteId', '==', siteId)
       .orderBy('createdAt', 'desc')
       .limit(100)
       .get()
-    return snapshot.docs.map((doc) => {
-      const data = doc.data()
-      return {
-        id: doc.id,
-        siteId: String(data.siteId ?? ''),
-        name: String(data.name ?? ''),
-        assetType: String(data.assetType ?? ''),
-        serialNumber: data.serialNumber ? String(data.serialNumber) : undefined,
-        location: data.location ? String(data.location) : undefined,
-        notes: data.notes ? String(data.notes) : undefined,
-        createdAt: data.createdAt ? (data.createdAt as Timestamp).toDate() : new Date(),
-        updatedAt: data.updatedAt ? (data.updatedAt as Timestamp).toDate() : new Date(),
-      }
+    return snapshot.docs.map((doc) => this.deserializeSiteAsset(doc.id, doc.data()))
+  }
+
+  public async getSiteAsset(assetId: string): Promise<SiteAsset | null> {
+    const snap = await this.collection('site_assets').doc(assetId).get()
+    if (!snap.exists) {
+      return null
+    }
+    return this.deserializeSiteAsset(snap.id, snap.data() as Record<string, unknown>)
+  }
+
+  public async updateSiteAssetRisk(assetId: string, assessment: AssetRiskAssessment): Promise<void> {
+    const ref = this.collection('site_assets').doc(assetId)
+    const snap = await ref.get()
+    if (!snap.exists) {
+      throw new Error('Site asset not found')
+    }
+
+    await ref.update({
+      riskAssessment: this.serializeDates({
+        ...assessment,
+        lastInspectedAt: assessment.lastInspectedAt ?? null,
+      }),
     })
   }
 
   public async deleteSiteAsset(assetId: string): Promise<void> {
-    await this.db.collection('site_assets').doc(assetId).delete()
+    await this.collection('site_assets').doc(assetId).delete()
+  }
+
+  public async createTimeEntry(input: Omit<TimeEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<TimeEntry> {
+    const id = uuidv4()
+    const now = new Date()
+    const entry: TimeEntry = {
+      id,
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    const ref = this.collection('time_entries').doc(id)
+    await this.db.runTransaction(async (tx) => {
+      if (entry.status === 'running') {
+        await this.assertNoOtherRunningTimeEntry(tx, entry.inspectionId, id)
+      }
+      tx.set(
+        ref,
+        this.serializeDates({
+          ...entry,
+          notes: entry.notes ?? null,
+          resumedAt: entry.resumedAt ?? null,
+          endedAt: entry.endedAt ?? null,
+        }),
+      )
+    })
+    return entry
+  }
+
+  public async updateTimeEntry(entryId: string, input: UpdateTimeEntryInput): Promise<TimeEntry | null> {
+    const ref = this.collection('time_entries').doc(entryId)
+    return this.db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) {
+        return null
+      }
+
+      const current = this.deserializeTimeEntry(snap.data() as Record<string, unknown>)
+      if (input.status === 'running') {
+        await this.assertNoOtherRunningTimeEntry(tx, current.inspectionId, entryId)
+      }
+      const changes = this.serializeDates({
+        status: input.status,
+        resumedAt: input.resumedAt ?? null,
+        endedAt: input.endedAt ?? null,
+        durationSeconds: input.durationSeconds,
+        notes: input.notes ?? null,
+        updatedAt: new Date(),
+      })
+      tx.set(ref, changes, { merge: true })
+      return this.deserializeTimeEntry({ ...snap.data(), ...changes })
+    })
+  }
+
+  /** Reading the running entries inside the transaction makes a concurrent start retry or fail. */
+  private async assertNoOtherRunningTimeEntry(
+    tx: FirebaseFirestore.Transaction,
+    inspectionId: string,
+    entryId: string,
+  ): Promise<void> {
+    const running = await tx.get(
+      this.collection('time_entries').where('inspectionId', '==', inspectionId).where('status', '==', 'running'),
+    )
+    if (running.docs.some((doc) => doc.id !== entryId)) {
+      throw runningTaskConflict(inspectionId)
+    }
+  }
+
+  public async listTimeEntries(inspectionId: string): Promise<TimeEntry[]> {
+    const snapshot = await this
+      .collection('time_entries')
+      .where('inspectionId', '==', inspectionId)
+      .orderBy('startedAt', 'asc')
+      .get()
+    return snapshot.docs.map((doc) => this.deserializeTimeEntry(doc.data() as Record<string, unknown>))
+  }
+
+  public async createPartOrder(input: Omit<PartOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<PartOrder> {
+    const id = uuidv4()
+    const now = new Date()
+    const order: PartOrder = {
+      id,
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await this.collection('part_orders').doc(id).set(
+      this.serializeDates({
+        ...order,
+        notes: order.notes ?? null,
+        statusNote: order.statusNote ?? null,
+        externalReferenceId: order.externalReferenceId ?? null,
+        estimatedDelivery: order.estimatedDelivery ?? null,
+      }),
+    )
+    return order
+  }
+
+  public async getPartOrderById(orderId: string): Promise<PartOrder | null> {
+    const snapshot = await this.collection('part_orders').doc(orderId).get()
+    if (!snapshot.exists) {
+      return null
+    }
+    return this.deserializePartOrder(snapshot.data() as Record<string, unknown>)
+  }
+
+  public async updatePartOrder(orderId: string, input: UpdatePartOrderInput): Promise<PartOrder | null> {
+    const ref = this.collection('part_orders').doc(orderId)
+    const current = await ref.get()
+    if (!current.exists) {
+      return null
+    }
+
+    await ref.set(
+      this.serializeDates({
+        status: input.status,
+        statusNote: input.statusNote ?? null,
+        externalReferenceId: input.externalReferenceId ?? null,
+        estimatedDelivery: input.estimatedDelivery ?? null,
+        updatedAt: new Date(),
+      }),
+      { merge: true },
+    )
+    const updated = await ref.get()
+    return this.deserializePartOrder(updated.data() as Record<string, unknown>)
+  }
+
+  public async listPartOrders(filters: ListPartOrderFilters): Promise<PartOrder[]> {
+    let query: FirebaseFirestore.Query = this.collection('part_orders')
+
+    if (filters.inspectionId) {
+      query = query.where('inspectionId', '==', filters.inspectionId)
+    }
+    if (filters.statuses && filters.statuses.length > 0) {
+      query = query.where('status', 'in', filters.statuses)
+    }
+
+    const snapshot = await query.orderBy('createdAt', 'desc').limit(200).get()
+    return snapshot.docs.map((doc) => this.deserializePartOrder(doc.data() as Record<string, unknown>))
+  }
+
+  public async createExpertContact(
+    input: Omit<ExpertContact, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<ExpertContact> {
+    const id = uuidv4()
+    const now = new Date()
+    const expert: ExpertContact = {
+      id,
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await this.collection('experts').doc(id).set(
+      this.serializeDates({
+        ...expert,
+        email: expert.email ?? null,
+      }),
+    )
+    return expert
+  }
+
+  public async listExpertContacts(): Promise<ExpertContact[]> {
+    const snapshot = await this.collection('experts').orderBy('name', 'asc').limit(200).get()
+    return snapshot.docs.map((doc) => this.deserializeExpertContact(doc.data() as Record<string, unknown>))
+  }
+
+  public async updateExpertContactAvailability(
+    expertId: string,
+    availability: ExpertContact['availability'],
+  ): Promise<ExpertContact | null> {
+    const ref = this.collection('experts').doc(expertId)
+    const current = await ref.get()
+    if (!current.exists) {
+      return null
+    }
+
+    await ref.set(this.serializeDates({ availability, updatedAt: new Date() }), { merge: true })
+    const updated = await ref.get()
+    return this.deserializeExpertContact(updated.data() as Record<string, unknown>)
+  }
+
+  public async createExpertEscalation(
+    input: Omit<ExpertEscalation, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<ExpertEscalation> {
+    const id = uuidv4()
+    const now = new Date()
+    const escalation: ExpertEscalation = {
+      id,
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await this.collection('expert_escalations').doc(id).set(
+      this.serializeDates({
+        ...escalation,
+        context: JSON.parse(JSON.stringify(escalation.context)) as Record<string, unknown>,
+        assignedExpertId: escalation.assignedExpertId ?? null,
+        acknowledgeBy: escalation.acknowledgeBy ?? null,
+        acknowledgedAt: escalation.acknowledgedAt ?? null,
+        resolvedAt: escalation.resolvedAt ?? null,
+        resolutionNote: escalation.resolutionNote ?? null,
+      }),
+    )
+    return escalation
+  }
+
+  public async getExpertEscalationById(escalationId: string): Promise<ExpertEscalation | null> {
+    const snapshot = await this.collection('expert_escalations').doc(escalationId).get()
+    if (!snapshot.exists) {
+      return null
+    }
+    return this.deserializeExpertEscalation(snapshot.data() as Record<string, unknown>)
+  }
+
+  public async updateExpertEscalation(
+    escalationId: string,
+    expected: ExpertEscalationRevision,
+    input: UpdateExpertEscalationInput,
+  ): Promise<ExpertEscalation | null> {
+    const ref = this.collection('expert_escalations').doc(escalationId)
+    return this.db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref)
+      if (!snap.exists) {
+        return null
+      }
+
+      const current = this.deserializeExpertEscalation(snap.data() as Record<string, unknown>)
+      if (current.status !== expected.status || current.assignedExpertId !== expected.assignedExpertId) {
+        return null
+      }
+      const changes = this.serializeDates({
+        status: input.status,
+        assignedExpertId: input.assignedExpertId ?? null,
+        contactedExpertIds: input.contactedExpertIds,
+        acknowledgeBy: input.acknowledgeBy ?? null,
+        acknowledgedAt: input.acknowledgedAt ?? null,
+        resolvedAt: input.resolvedAt ?? null,
+        resolutionNote: input.resolutionNote ?? null,
+        updatedAt: new Date(),
+      })
+      tx.set(ref, changes, { merge: true })
+      return this.deserializeExpertEscalation({ ...snap.data(), ...changes })
+    })
+  }
+
+  public async listExpertEscalations(filters: ListExpertEscalationFilters): Promise<ExpertEscalation[]> {
+    let query: FirebaseFirestore.Query = this.collection('expert_escalations')
+
+    if (filters.inspectionId) {
+      query = query.where('inspectionId', '==', filters.inspectionId)
+    }
+    if (filters.statuses && filters.statuses.length > 0) {
+      query = query.where('status', 'in', filters.statuses)
+    }
+
+    const snapshot = await query.orderBy('createdAt', 'desc').limit(200).get()
+    return snapshot.docs.map((doc) => this.deserializeExpertEscalation(doc.data() as Record<string, unknown>))
+  }
+
+  public async createShareSession(input: Omit<ShareSession, 'id' | 'createdAt'>): Promise<ShareSession> {
+    const id = uuidv4()
+    const session: ShareSession = {
+      id,
+      ...input,
+      createdAt: new Date(),
+    }
+
+    await this.collection('share_sessions').doc(id).set(
+      this.serializeDates({
+        ...session,
+        reason: session.reason ?? null,
+        endedAt: session.endedAt ?? null,
+      }),
+    )
+    return session
+  }
+
+  public async getShareSessionById(sessionId: string): Promise<ShareSession | null> {
+    const snapshot = await this.collection('share_sessions').doc(sessionId).get()
+    if (!snapshot.exists) {
+      return null
+    }
+    return this.deserializeShareSession(snapshot.data() as Record<string, unknown>)
+  }
+
+  public async updateShareSessionStatus(
+    sessionId: string,
+    status: ShareSessionStatus,
+    endedAt?: Date,
+  ): Promise<ShareSession | null> {
+    const ref = this.collection('share_sessions').doc(sessionId)
+    const current = await ref.get()
+    if (!current.exists) {
+      return null
+    }
+
+    await ref.set(this.serializeDates({ status, endedAt: endedAt ?? null }), { merge: true })
+    const updated = await ref.get()
+    return this.deserializeShareSession(updated.data() as Record<string, unknown>)
+  }
+
+  public async listShareSessions(filters: ListShareSessionFilters): Promise<ShareSession[]> {
+    let query: FirebaseFirestore.Query = this.collection('share_sessions')
+
+    if (filters.inspectionId) {
+      query = query.where('inspectionId', '==', filters.inspectionId)
+    }
+    if (filters.statuses && filters.statuses.length > 0) {
+      query = query.where('status', 'in', filters.statuses)
+    }
+
+    const snapshot = await query.orderBy('createdAt', 'desc').limit(200).get()
+    return snapshot.docs.map((doc) => this.deserializeShareSession(doc.data() as Record<string, unknown>))
+  }
+
+  public async createAnnotation(
+    input: Omit<InspectionAnnotation, 'id' | 'createdAt'>,
+  ): Promise<InspectionAnnotation> {
+    const id = uuidv4()
+    const annotation: InspectionAnnotation = {
+      id,
+      ...input,
+      createdAt: new Date(),
+    }
+
+    await this.collection('inspection_annotations').doc(id).set(
+      this.serializeDates({
+        ...annotation,
+        snapshotUrl: annotation.snapshotUrl ?? null,
+        authorId: annotation.authorId ?? null,
+        text: annotation.text ?? null,
+      }),
+    )
+    return annotation
+  }
+
+  public async listAnnotations(inspectionId: string): Promise<InspectionAnnotation[]> {
+    const snapshot = await this
+      .collection('inspection_annotations')
+      .where('inspectionId', '==', inspectionId)
+      .orderBy('createdAt', 'asc')
+      .get()
+    return snapshot.docs.map((doc) => this.deserializeAnnotation(doc.data() as Record<string, unknown>))
+  }
+
+  public async deleteAnnotation(inspectionId: string, annotationId: string): Promise<boolean> {
+    const ref = this.collection('inspection_annotations').doc(annotationId)
+    const current = await ref.get()
+    if (!current.exists || current.data()?.inspectionId !== inspectionId) {
+      return false
+    }
+
+    await ref.delete()
+    return true
+  }
+
+  public async createChecklistTemplate(
+    input: Omit<ChecklistTemplate, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<ChecklistTemplate> {
+    const id = uuidv4()
+    const now = new Date()
+    const template: ChecklistTemplate = { id, ...input, createdAt: now, updatedAt: now }
+
+    await this.collection('checklist_templates').doc(id).set(
+      this.serializeDates({
+        ...template,
+        items: template.items.map((item) => this.serializeChecklistItem(item)),
+      }),
+    )
+    return template
+  }
+
+  public async getChecklistTemplate(templateId: string): Promise<ChecklistTemplate | null> {
+    const snap = await this.collection('checklist_templates').doc(templateId).get()
+    if (!snap.exists) {
+      return null
+    }
+    return this.deserializeChecklistTemplate(snap.data() as Record<string, unknown>)
+  }
+
+  public async listChecklistTemplates(siteType?: ChecklistTemplate['siteType']): Promise<ChecklistTemplate[]> {
+    let query: FirebaseFirestore.Query = this.collection('checklist_templates')
+    if (siteType) {
+      query = query.where('siteType', '==', siteType)
+    }
+    const snapshot = await query.orderBy('createdAt', 'desc').get()
+    return snapshot.docs.map((doc) => this.deserializeChecklistTemplate(doc.data() as Record<string, unknown>))
+  }
+
+  public async deleteChecklistTemplate(templateId: string): Promise<boolean> {
+    const ref = this.collection('checklist_templates').doc(templateId)
+    const current = await ref.get()
+    if (!current.exists) {
+      return false
+    }
+
+    await ref.delete()
+    return true
+  }
+
+  private serializeChecklistItem(item: ChecklistTemplateItem): Record<string, unknown> {
+    return {
+      id: item.id,
+      label: item.label,
+      description: item.description ?? null,
+      required: item.required,
+      expectedReading: item.expectedReading
+        ? {
+            unit: item.expectedReading.unit ?? null,
+            min: item.expectedReading.min ?? null,
+            max: item.expectedReading.max ?? null,
+            target: item.expectedReading.target ?? null,
+            tolerance: item.expectedReading.tolerance ?? null,
+          }
+        : null,
+      requiresPhoto: item.requiresPhoto,
+      keywords: item.keywords,
+    }
+  }
+
+  private deserializeChecklistTemplateItem(data: Record<string, unknown>): ChecklistTemplateItem {
+    const expected = data.expectedReading as Record<string, unknown> | null | undefined
+    const toOptionalNumber = (value: unknown) => (typeof value === 'number' ? value : undefined)
+    return {
+      id: String(data.id ?? ''),
+      label: typeof data.label === 'string' ? data.label : '',
+      description: typeof data.description === 'string' ? data.description : undefined,
+      required: data.required === true,
+      expectedReading: expected
+        ? {
+            unit: typeof expected.unit === 'string' ? expected.unit : undefined,
+            min: toOptionalNumber(expected.min),
+            max: toOptionalNumber(expected.max),
+            target: toOptionalNumber(expected.target),
+            tolerance: toOptionalNumber(expected.tolerance),
+          }
+        : undefined,
+      requiresPhoto: data.requiresPhoto === true,
+      keywords: Array.isArray(data.keywords) ? data.keywords.filter((v): v is string => typeof v === 'string') : [],
+    }
+  }
+
+  private deserializeChecklistTemplate(data: Record<string, unknown>): ChecklistTemplate {
+    const siteTypes: ChecklistTemplate['siteType'][] = ['oil_gas', 'power', 'telecom', 'manufacturing', 'solar']
+    return {
+      id: String(data.id),
+      name: typeof data.name === 'string' ? data.name : '',
+      siteType: siteTypes.find((type) => type === data.siteType) ?? 'manufacturing',
+      items: Array.isArray(data.items)
+        ? data.items.map((item) => this.deserializeChecklistTemplateItem(item as Record<string, unknown>))
+        : [],
+      createdAt: this.deserializeDate(data.createdAt),
+      updatedAt: this.deserializeDate(data.updatedAt),
+    }
+  }
+
+  private deserializeInspectionChecklist(data: Record<string, unknown>): InspectionChecklist {
+    const statuses: InspectionChecklistItem['status'][] = ['open', 'passed', 'failed', 'not_applicable']
+    return {
+      templateId: String(data.templateId ?? ''),
+      templateName: typeof data.templateName === 'string' ? data.templateName : '',
+      items: Array.isArray(data.items)
+        ? data.items.map((raw) => {
+            const item = raw as Record<string, unknown>
+            return {
+              ...this.deserializeChecklistTemplateItem(item),
+              status: statuses.find((status) => status === item.status) ?? 'open',
+              reading: typeof item.reading === 'number' ? item.reading : undefined,
+              withinTolerance: typeof item.withinTolerance === 'boolean' ? item.withinTolerance : undefined,
+              photoUrl: typeof item.photoUrl === 'string' ? item.photoUrl : undefined,
+              note: typeof item.note === 'string' ? item.note : undefined,
+              markedBy:
+                item.markedBy === 'technician' || item.markedBy === 'agent' ? item.markedBy : undefined,
+              updatedAt: item.updatedAt ? this.deserializeDate(item.updatedAt) : undefined,
+            }
+          })
+        : [],
+    }
+  }
+
+  private deserializeSiteAsset(id: string, data: Record<string, unknown>): SiteAsset {
+    return {
+      id,
+      siteId: String(data.siteId ?? ''),
+      name: String(data.name ?? ''),
+      assetType: String(data.assetType ?? ''),
+      serialNumber: data.serialNumber ? String(data.serialNumber) : undefined,
+      location: data.location ? String(data.location) : undefined,
+      notes: data.notes ? String(data.notes) : undefined,
+      riskAssessment: data.riskAssessment
+        ? this.deserializeAssetRiskAssessment(data.riskAssessment as Record<string, unknown>)
+        : undefined,
+      createdAt: data.createdAt ? (data.createdAt as Timestamp).toDate() : new Date(),
+      updatedAt: data.updatedAt ? (data.updatedAt as Timestamp).toDate() : new Date(),
+    }
+  }
+
+  private deserializeAssetRiskAssessment(data: Record<string, unknown>): AssetRiskAssessment {
+    const levels: AssetRiskAssessment['riskLevel'][] = ['low', 'medium', 'high', 'critical']
+    const contributions = (data.contributions || {}) as Record<string, unknown>
+    const toNumber = (value: unknown) => (typeof value === 'number' ? value : 0)
+    const toStrings = (value: unknown) =>
+      Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+    return {
+      assetId: String(data.assetId ?? ''),
+      siteId: String(data.siteId ?? ''),
+      riskScore: toNumber(data.riskScore),
+      riskLevel: levels.find((level) => level === data.riskLevel) ?? 'low',
+      inspectionCount: toNumber(data.inspectionCount),
+      lastInspectedAt: data.lastInspectedAt ? this.deserializeDate(data.lastInspectedAt) : undefined,
+      contributions: {
+        faults: toNumber(contributions.faults),
+        safetyFlags: toNumber(contributions.safetyFlags),
+        readingAnomalies: toNumber(contributions.readingAnomalies),
+        recurrence: toNumber(contributions.recurrence),
+      },
+      predictedFailures: Array.isArray(data.predictedFailures)
+        ? (data.predictedFailures as Record<string, unknown>[]).map((failure) => ({
+            component: String(failure.component ?? ''),
+            likelihood: toNumber(failure.likelihood),
+            timeframe: String(failure.timeframe ?? ''),
+            indicators: toStrings(failure.indicators),
+          }))
+        : [],
+      maintenanceRecommendations: toStrings(data.maintenanceRecommendations),
+      sparesToOrder: toStrings(data.sparesToOrder),
+      computedAt: this.deserializeDate(data.computedAt),
+    }
+  }
+
+  private deserializeReadingAnomaly(data: Record<string, unknown>): ReadingAnomaly {
+    const severities: ReadingAnomaly['severity'][] = ['low', 'medium', 'high', 'critical']
+    const baseline = data.baseline as Record<string, unknown> | null | undefined
+    const toNumber = (value: unknown) => (typeof value === 'number' ? value : 0)
+    return {
+      id: String(data.id),
+      assetSerial: typeof data.assetSerial === 'string' ? data.assetSerial : '',
+      metric: typeof data.metric === 'string' ? data.metric : '',
+      rawReading: typeof data.rawReading === 'string' ? data.rawReading : '',
+      value: toNumber(data.value),
+      isAnomaly: data.isAnomaly === true,
+      severity: severities.find((severity) => severity === data.severity) ?? 'low',
+      reasons: Array.isArray(data.reasons) ? data.reasons.filter((v): v is string => typeof v === 'string') : [],
+      baseline: baseline
+        ? {
+            sampleSize: toNumber(baseline.sampleSize),
+            mean: toNumber(baseline.mean),
+            stdDev: toNumber(baseline.stdDev),
+            ewma: toNumber(baseline.ewma),
+            zScore: toNumber(baseline.zScore),
+            ewmaDeviation: toNumber(baseline.ewmaDeviation),
+            ratePerDay: typeof baseline.ratePerDay === 'number' ? baseline.ratePerDay : undefined,
+            typicalRatePerDay:
+              typeof baseline.typicalRatePerDay === 'number' ? baseline.typicalRatePerDay : undefined,
+          }
+        : null,
+      explanation: typeof data.explanation === 'string' ? data.explanation : undefined,
+      createdAt: this.deserializeDate(data.createdAt),
+    }
+  }
+
+  private deserializeAnnotation(data: Record<string, unknown>): InspectionAnnotation {
+    const tools: InspectionAnnotation['tool'][] = ['arrow', 'circle', 'rectangle', 'text', 'highlight']
+    return {
+      id: String(data.id),
+      inspectionId: String(data.inspectionId),
+      snapshotUrl: typeof data.snapshotUrl === 'string' ? data.snapshotUrl : undefined,
+      authorRole: data.authorRole === 'expert' ? 'expert' : 'technician',
+      authorId: typeof data.authorId === 'string' ? data.authorId : undefined,
+      tool: tools.find((tool) => tool === data.tool) ?? 'arrow',
+      color: typeof data.color === 'string' ? data.color : '#ff0000',
+      points: Array.isArray(data.points)
+        ? data.points
+            .filter((point): point is { x: number; y: number } =>
+              typeof point?.x === 'number' && typeof point?.y === 'number',
+            )
+            .map((point) => ({ x: point.x, y: point.y }))
+        : [],
+      text: typeof data.text === 'string' ? data.text : undefined,
+      createdAt: this.deserializeDate(data.createdAt),
+    }
+  }
+
+  private deserializeShareSession(data: Record<string, unknown>): ShareSession {
+    return {
+      id: String(data.id),
+      inspectionId: String(data.inspectionId),
+      hostTechnicianId: String(data.hostTechnicianId),
+      expertEmail: typeof data.expertEmail === 'string' ? data.expertEmail : '',
+      status:
+        data.status === 'active' || data.status === 'completed' || data.status === 'expired'
+          ? data.status
+          : 'pending',
+      accessToken: typeof data.accessToken === 'string' ? data.accessToken : '',
+      reason: typeof data.reason === 'string' ? data.reason : undefined,
+      createdAt: this.deserializeDate(data.createdAt),
+      expiresAt: this.deserializeDate(data.expiresAt),
+      endedAt: data.endedAt ? this.deserializeDate(data.endedAt) : undefined,
+    }
+  }
+
+  private deserializeExpertContact(data: Record<string, unknown>): ExpertContact {
+    return {
+      id: String(data.id),
+      name: typeof data.name === 'string' ? data.name : '',
+      email: typeof data.email === 'string' ? data.email : undefined,
+      role: typeof data.role === 'string' ? data.role : '',
+      specialty: Array.isArray(data.specialty)
+        ? data.specialty.filter((v): v is string => typeof v === 'string')
+        : [],
+      availability:
+        data.availability === 'online' || data.availability === 'busy' ? data.availability : 'offline',
+      contactMethod:
+        data.contactMethod === 'sms' || data.contactMethod === 'push' ? data.contactMethod : 'email',
+      createdAt: this.deserializeDate(data.createdAt),
+      updatedAt: this.deserializeDate(data.updatedAt),
+    }
+  }
+
+  private deserializeExpertEscalation(data: Record<string, unknown>): ExpertEscalation {
+    return {
+      id: String(data.id),
+      inspectionId: String(data.inspectionId),
+      reason: typeof data.reason === 'string' ? data.reason : '',
+      priority:
+        data.priority === 'low' || data.priority === 'high' || data.priority === 'critical'
+          ? data.priority
+          : 'medium',
+      requiredExpertise: Array.isArray(data.requiredExpertise)
+        ? data.requiredExpertise.filter((v): v is string => typeof v === 'string')
+        : [],
+      status:
+        data.status === 'sent' || data.status === 'acknowledged' || data.status === 'resolved'
+          ? data.status
+          : 'queued',
+      context:
+        data.context && typeof data.context === 'object'
+          ? (data.context as ExpertEscalation['context'])
+          : {},
+      assignedExpertId: typeof data.assignedExpertId === 'string' ? data.assignedExpertId : undefined,
+      contactedExpertIds: Array.isArray(data.contactedExpertIds)
+        ? data.contactedExpertIds.filter((v): v is string => typeof v === 'string')
+        : [],
+      acknowledgeBy: data.acknowledgeBy ? this.deserializeDate(data.acknowledgeBy) : undefined,
+      acknowledgedAt: data.acknowledgedAt ? this.deserializeDate(data.acknowledgedAt) : undefined,
+      resolvedAt: data.resolvedAt ? this.deserializeDate(data.resolvedAt) : undefined,
+      resolutionNote: typeof data.resolutionNote === 'string' ? data.resolutionNote : undefined,
+      createdAt: this.deserializeDate(data.createdAt),
+      updatedAt: this.deserializeDate(data.updatedAt),
+    }
+  }
+
+  /** Absent optional fields are stored as null so a whole-document write clears them. */
+  private serializeReportJob(job: ReportGenerationJob): Record<string, unknown> {
+    return this.serializeDates({
+      ...job,
+      nextAttemptAt: job.nextAttemptAt ?? null,
+      leaseExpiresAt: job.leaseExpiresAt ?? null,
+      reportGeneratedAt: job.reportGeneratedAt ?? null,
+      error: job.error ?? null,
+    })
+  }
+
+  private deserializeReportJob(data: Record<string, unknown>): ReportGenerationJob {
+    return {
+      jobId: String(data.jobId),
+      inspectionId: String(data.inspectionId),
+      status: readReportJobStatus(data.status),
+      provider: readReportPipelineProvider(data.provider),
+      attempts: typeof data.attempts === 'number' ? data.attempts : 0,
+      maxAttempts: typeof data.maxAttempts === 'number' ? data.maxAttempts : 1,
+      nextAttemptAt: data.nextAttemptAt ? this.deserializeDate(data.nextAttemptAt) : undefined,
+      leaseExpiresAt: data.leaseExpiresAt ? this.deserializeDate(data.leaseExpiresAt) : undefined,
+      reportGeneratedAt: data.reportGeneratedAt ? this.deserializeDate(data.reportGeneratedAt) : undefined,
+      error: typeof data.error === 'string' ? data.error : undefined,
+      createdAt: this.deserializeDate(data.createdAt),
+      updatedAt: this.deserializeDate(data.updatedAt),
+    }
+  }
+
+  private deserializePartOrder(data: Record<string, unknown>): PartOrder {
+    return {
+      id: String(data.id),
+      inspectionId: String(data.inspectionId),
+      partNumber: typeof data.partNumber === 'string' ? data.partNumber : '',
+      quantity: typeof data.quantity === 'number' ? data.quantity : 1,
+      urgency:
+        data.urgency === 'urgent' || data.urgency === 'critical' || data.urgency === 'routine'
+          ? data.urgency
+          : 'routine',
+      status:
+        data.status === 'ordered' ||
+        data.status === 'shipped' ||
+        data.status === 'delivered' ||
+        data.status === 'cancelled' ||
+        data.status === 'pending'
+          ? data.status
+          : 'pending',
+      supplierProvider:
+        data.supplierProvider === 'sap_ariba' || data.supplierProvider === 'coupa'
+          ? data.supplierProvider
+          : 'generic',
+      notes: typeof data.notes === 'string' ? data.notes : undefined,
+      statusNote: typeof data.statusNote === 'string' ? data.statusNote : undefined,
+      externalReferenceId:
+        typeof data.externalReferenceId === 'string' ? data.externalReferenceId : undefined,
+      estimatedDelivery: data.estimatedDelivery ? this.deserializeDate(data.estimatedDelivery) : undefined,
+      createdAt: this.deserializeDate(data.createdAt),
+      updatedAt: this.deserializeDate(data.updatedAt),
+    }
+  }
+
+  private deserializeTimeEntry(data: Record<string, unknown>): TimeEntry {
+    return {
+      id: String(data.id),
+      inspectionId: String(data.inspectionId),
+      taskName: typeof data.taskName === 'string' ? data.taskName : '',
+      notes: typeof data.notes === 'string' ? data.notes : undefined,
+      status:
+        data.status === 'running' || data.status === 'paused' || data.status === 'completed'
+          ? data.status
+          : 'completed',
+      startedAt: this.deserializeDate(data.startedAt),
+      resumedAt: data.resumedAt ? this.deserializeDate(data.resumedAt) : undefined,
+      endedAt: data.endedAt ? this.deserializeDate(data.endedAt) : undefined,
+      durationSeconds: typeof data.durationSeconds === 'number' ? data.durationSeconds : 0,
+      createdAt: this.deserializeDate(data.createdAt),
+      updatedAt: this.deserializeDate(data.updatedAt),
+    }
+  }
+
+  private deserializeArchiveRecord<T extends ArchiveRecordType>(
+    type: T,
+    id: string,
+    data: Record<string, unknown>,
+  ): ArchiveRecordMap[T] {
+    const deserializers: Record<ArchiveRecordType, () => ArchiveRecordMap[ArchiveRecordType]> = {
+      technician: () => this.deserializeTechnician(data),
+      site: () => this.deserializeSite(data),
+      asset: () => this.deserializeSiteAsset(id, data),
+      inspection: () => this.deserializeInspection(data),
+      transcript: () => this.deserializeTranscriptEntry(data),
+      report: () => this.deserializeInspectionReport(data),
+    }
+    return deserializers[type]() as ArchiveRecordMap[T]
+  }
+
+  private deserializeTranscriptEntry(data: Record<string, unknown>): TranscriptEntry {
+    return {
+      id: String(data.id),
+      inspectionId: String(data.inspectionId),
+      sequence: Number(data.sequence ?? 0),
+      speaker: data.speaker === 'user' || data.speaker === 'agent' ? data.speaker : 'system',
+      text: typeof data.text === 'string' ? data.text : '',
+      timestamp: this.deserializeDate(data.timestamp),
+      language: typeof data.language === 'string' ? data.language : undefined,
+      source: data.source === 'live' || data.source === 'fallback' ? data.source : 'legacy',
+    }
+  }
+
+  private reportVersionsQuery(inspectionId: string) {
+    return this.collection('inspectionReports').where('inspectionId', '==', inspectionId)
+  }
+
+  private deserializeInspectionReport(data: Record<string, unknown>): InspectionReport {
+    const report: InspectionReport = {
+      inspectionId: String(data.inspectionId),
+      version: typeof data.version === 'number' ? data.version : 1,
+      contentHash: '',
+      generatedAt: this.deserializeDate(data.generatedAt),
+      technicianId: String(data.technicianId),
+      siteId: String(data.siteId),
+      status: readInspectionStatus(data.status),
+      findings: Array.isArray(data.findings)
+        ? data.findings.filter((v): v is string => typeof v === 'string')
+        : [],
+      safetySummary: Array.isArray(data.safetySummary)
+        ? data.safetySummary.filter((v): v is string => typeof v === 'string')
+        : [],
+      workflowSummary: Array.isArray(data.workflowSummary)
+        ? data.workflowSummary.filter((v): v is string => typeof v === 'string')
+        : [],
+      recommendedActions: Array.isArray(data.recommendedActions)
+        ? data.recommendedActions.filter((v): v is string => typeof v === 'string')
+        : [],
+      imageCount: Number(data.imageCount ?? 0),
+      totalTrackedMinutes: Number(data.totalTrackedMinutes ?? 0),
+      timeSummary: Array.isArray(data.timeSummary)
+        ? data.timeSummary.filter((v): v is string => typeof v === 'string')
+        : [],
+      openPartOrders: Array.isArray(data.openPartOrders)
+        ? data.openPartOrders.filter((v): v is string => typeof v === 'string')
+        : [],
+      annotationSummary: Array.isArray(data.annotationSummary)
+        ? data.annotationSummary.filter((v): v is string => typeof v === 'string')
+        : [],
+      transcriptExcerpt: Array.isArray(data.transcriptExcerpt)
+        ? data.transcriptExcerpt.filter((v): v is string => typeof v === 'string')
+        : [],
+      summaryText: typeof data.summaryText === 'string' ? data.summaryText : '',
+    }
+    // Reports stored before versioning have no hash; derive it from what is stored
+    report.contentHash = typeof data.contentHash === 'string' ? data.contentHash : reportContentHash(report)
+    return report
   }
 
   private deserializeTechnician(data: Record<string, unknown>): Technician {
@@ -546,11 +2334,12 @@ export class FirestoreDataService {
       name: typeof data.name === 'string' ? data.name : '',
       email: typeof data.email === 'string' ? data.email : '',
       role:
-        data.role === 'admin' || data.role === 'viewer' || data.role === 'technician'
+        data.role === 'admin' || data.role === 'supervisor' || data.role === 'viewer' || data.role === 'technician'
           ? data.role
           : 'technician',
       createdAt: this.deserializeDate(data.createdAt),
       updatedAt: this.deserializeDate(data.updatedAt),
+      deletedAt: data.deletedAt ? this.deserializeDate(data.deletedAt) : undefined,
     }
   }
 
@@ -575,8 +2364,29 @@ export class FirestoreDataService {
       technicianIds: Array.isArray(data.technicianIds)
         ? data.technicianIds.filter((v): v is string => typeof v === 'string')
         : [],
+      retention: readRetentionPolicy(data.retention),
+      reportTemplate: readReportTemplate(data.reportTemplate),
       createdAt: this.deserializeDate(data.createdAt),
       updatedAt: this.deserializeDate(data.updatedAt),
+      deletedAt: data.deletedAt ? this.deserializeDate(data.deletedAt) : undefined,
+    }
+  }
+
+  private deserializeAuditEntry(data: Record<string, unknown>): AuditEntry {
+    return {
+      id: String(data.id),
+      sequence: Number(data.sequence),
+      occurredAt: this.deserializeDate(data.occurredAt),
+      actor: (data.actor as AuditEntry['actor']) ?? null,
+      action: String(data.action),
+      entityType: String(data.entityType),
+      entityId: typeof data.entityId === 'string' ? data.entityId : null,
+      changes: typeof data.changes === 'string' ? (JSON.parse(data.changes) as AuditEntry['changes']) : [],
+      ipAddress: typeof data.ipAddress === 'string' ? data.ipAddress : null,
+      requestId: typeof data.requestId === 'string' ? data.requestId : null,
+      source: data.source === 'websocket' ? 'websocket' : 'http',
+      previousHash: String(data.previousHash),
+      hash: String(data.hash),
     }
   }
 
@@ -0,0 +1,44 @@
+import {
+  decodeInspectionCursor,
+  InspectionQueryError,
+  toInspectionPage,
+  tokenizeSearchText,
+} from './inspection-query'
+import type { Inspection } from '../types'
+
+function inspection(id: string, timestamp: string): Inspection {
+  return { id, siteId: 'site-1', technicianId: 'tech-1', status: 'completed', timestamp: new Date(timestamp) } as Inspection
+}
+
+describe('inspection query helpers', () => {
+  it('trims an over-fetched result to a page with a cursor for the next one', () => {
+    const rows = [
+      inspection('insp-3', '2026-02-03T00:00:00.000Z'),
+      inspection('insp-2', '2026-02-02T00:00:00.000Z'),
+      inspection('insp-1', '2026-02-01T00:00:00.000Z'),
+    ]
+
+    const page = toInspectionPage(rows, { limit: 2, sortBy: 'timestamp', sortOrder: 'desc' })
+    expect(page.items.map((item) => item.id)).toEqual(['insp-3', 'insp-2'])
+    expect(decodeInspectionCursor(page.nextCursor as string, 'timestamp', 'desc')).toEqual({
+      value: '2026-02-02T00:00:00.000Z',
+      id: 'insp-2',
+    })
+
+    expect(toInspectionPage(rows.slice(0, 2), { limit: 2 }).nextCursor).toBeNull()
+    expect(() => decodeInspectionCursor(page.nextCursor as string, 'status', 'desc')).toThrow(
+      'Cursor does not match the requested sort',
+    )
+    expect(() => decodeInspectionCursor('not-a-cursor', 'timestamp', 'desc')).toThrow(InspectionQueryError)
+  })
+
+  it('tokenizes search text into unique lowercase words', () => {
+    expect(tokenizeSearchText('The VALVE is leaking at valve #3, see S/N AB-12')).toEqual([
+      'valve',
+      'leaking',
+      'see',
+      'ab',
+      '12',
+    ])
+  })
+})
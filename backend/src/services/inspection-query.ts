@@ -0,0 +1,105 @@
+import type { InspectionPage, InspectionSearchQuery, InspectionSortField } from './data-service'
+import type { Inspection } from '../types'
+
+export const DEFAULT_INSPECTION_PAGE_SIZE = 20
+export const MAX_INSPECTION_PAGE_SIZE = 100
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'at', 'for', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'was', 'with'])
+
+export class InspectionQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InspectionQueryError'
+  }
+}
+
+interface InspectionCursor {
+  sortBy: InspectionSortField
+  sortOrder: 'asc' | 'desc'
+  value: string
+  id: string
+}
+
+export function normalizeInspectionPageSize(limit?: number): number {
+  if (!limit || !Number.isFinite(limit)) {
+    return DEFAULT_INSPECTION_PAGE_SIZE
+  }
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_INSPECTION_PAGE_SIZE)
+}
+
+export function inspectionSortValue(inspection: Inspection, sortBy: InspectionSortField): string {
+  return sortBy === 'timestamp' ? inspection.timestamp.toISOString() : inspection[sortBy]
+}
+
+export function encodeInspectionCursor(
+  inspection: Inspection,
+  sortBy: InspectionSortField,
+  sortOrder: 'asc' | 'desc',
+): string {
+  const cursor: InspectionCursor = { sortBy, sortOrder, value: inspectionSortValue(inspection, sortBy), id: inspection.id }
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+/**
+ * Decodes a cursor from a previous page. A cursor only continues the sort it
+ * was issued for, so changing `sortBy` or `sortOrder` needs a fresh first page.
+ */
+export function decodeInspectionCursor(
+  cursor: string,
+  sortBy: InspectionSortField,
+  sortOrder: 'asc' | 'desc',
+): Pick<InspectionCursor, 'value' | 'id'> {
+  let decoded: Partial<InspectionCursor>
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Partial<InspectionCursor>
+  } catch {
+    throw new InspectionQueryError('Invalid cursor')
+  }
+
+  if (typeof decoded.value !== 'string' || typeof decoded.id !== 'string') {
+    throw new InspectionQueryError('Invalid cursor')
+  }
+  if (decoded.sortBy !== sortBy || decoded.sortOrder !== sortOrder) {
+    throw new InspectionQueryError('Cursor does not match the requested sort')
+  }
+  if (sortBy === 'timestamp' && Number.isNaN(new Date(decoded.value).getTime())) {
+    throw new InspectionQueryError('Invalid cursor')
+  }
+  return { value: decoded.value, id: decoded.id }
+}
+
+/** Trims a `limit + 1` result to one page, issuing a cursor when more rows exist. */
+export function toInspectionPage(
+  rows: Inspection[],
+  query: Pick<InspectionSearchQuery, 'sortBy' | 'sortOrder' | 'limit'>,
+): InspectionPage {
+  const limit = normalizeInspectionPageSize(query.limit)
+  const items = rows.slice(0, limit)
+  const last = items[items.length - 1]
+  return {
+    items,
+    nextCursor:
+      rows.length > limit && last
+        ? encodeInspectionCursor(last, query.sortBy ?? 'timestamp', query.sortOrder ?? 'desc')
+        : null,
+  }
+}
+
+/** The text full-text search covers: transcript, summary, fault descriptions and OCR text. */
+export function inspectionSearchText(inspection: Inspection): string {
+  return [
+    inspection.transcript,
+    inspection.summary ?? '',
+    ...inspection.detectedFaults.map((fault) => fault.description),
+    ...inspection.ocrFindings.map((finding) => finding.extractedText),
+  ].join(' ')
+}
+
+/** Lowercased, de-duplicated words used by providers without native full-text search. */
+export function tokenizeSearchText(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+  return [...new Set(words)]
+}
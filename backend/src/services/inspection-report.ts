@@ -0,0 +1,55 @@
+import { summarizeAnnotations } from './annotation.service'
+import type { InspectionReport } from './firestore-data.service'
+import { summarizeOpenPartOrders } from './parts-ordering.service'
+import { reportContentHash, type InspectionReportContent } from './report-version'
+import { summarizeTimeEntries } from './time-tracking.service'
+import { summarizeTranscript } from './transcript'
+import type { Inspection, InspectionAnnotation, PartOrder, TimeEntry, TranscriptEntry } from '../types'
+
+export interface InspectionReportSources {
+  timeEntries: TimeEntry[]
+  partOrders: PartOrder[]
+  annotations: InspectionAnnotation[]
+  transcriptEntries: TranscriptEntry[]
+}
+
+/** Assembles a report version for an inspection; every data provider builds reports through this. */
+export function buildInspectionReport(
+  inspection: Inspection,
+  sources: InspectionReportSources,
+  version: number,
+): InspectionReport {
+  const findings = inspection.detectedFaults.map((fault) =>
+    `${fault.component}: ${fault.faultType} (${Math.round(fault.confidence * 100)}% confidence)`,
+  )
+  const safetySummary = inspection.safetyFlags.map(
+    (flag) => `${flag.severity.toUpperCase()} - ${flag.description}`,
+  )
+  const workflowSummary = inspection.workflowEvents.map((event) => {
+    const status = event.status.toUpperCase()
+    const reference = event.externalReferenceId ? ` (${event.externalReferenceId})` : ''
+    return `${status} - ${event.action}: ${event.resultMessage}${reference}`
+  })
+  const timeTracking = summarizeTimeEntries(sources.timeEntries)
+
+  const content: InspectionReportContent = {
+    inspectionId: inspection.id,
+    technicianId: inspection.technicianId,
+    siteId: inspection.siteId,
+    status: inspection.status,
+    findings,
+    safetySummary,
+    workflowSummary,
+    recommendedActions: inspection.recommendedActions,
+    imageCount: inspection.images.length,
+    totalTrackedMinutes: timeTracking.totalMinutes,
+    timeSummary: timeTracking.lines,
+    openPartOrders: summarizeOpenPartOrders(sources.partOrders),
+    annotationSummary: summarizeAnnotations(sources.annotations),
+    transcriptExcerpt: summarizeTranscript(sources.transcriptEntries),
+    summaryText:
+      inspection.summary ||
+      `Inspection ${inspection.id} has ${findings.length} findings, ${safetySummary.length} safety flags, and ${inspection.images.length} captured images.`,
+  }
+  return { ...content, version, contentHash: reportContentHash(content), generatedAt: new Date() }
+}
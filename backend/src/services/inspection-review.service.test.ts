@@ -0,0 +1,111 @@
+import { ChecklistIncompleteError } from './checklist.service'
+import {
+  InspectionReviewService,
+  ReviewCommentError,
+  ReviewTransitionError,
+  type Reviewer,
+} from './inspection-review.service'
+import { MemoryDataService } from './memory-data.service'
+
+const technician: Reviewer = { role: 'technician', uid: 'uid-tech', technicianId: 'tech-1', email: 'ada@example.com' }
+const supervisor: Reviewer = { role: 'supervisor', uid: 'uid-sup', technicianId: 'tech-2', email: 'sam@example.com' }
+
+async function seedInspection(dataService: MemoryDataService) {
+  const inspection = await dataService.createInspection({ technicianId: 'tech-1', siteId: 'site-1' })
+  await dataService.appendInspectionDetectedFaults(inspection.id, [
+    {
+      component: 'valve',
+      faultType: 'corrosion',
+      confidence: 0.9,
+      description: 'Pitting on the flange',
+      recommendedActions: ['Replace gasket'],
+    },
+  ])
+  return inspection
+}
+
+describe('InspectionReviewService', () => {
+  it('takes an inspection through changes requested to a verifiable approval', async () => {
+    const dataService = new MemoryDataService()
+    const service = new InspectionReviewService(dataService)
+    const inspection = await seedInspection(dataService)
+
+    const submitted = await service.submitForReview(inspection.id, technician, { summary: 'Flange checked' })
+    expect(submitted).toMatchObject({
+      status: 'pending_review',
+      review: { reportVersion: 1, submittedBy: { uid: 'uid-tech', email: 'ada@example.com', role: 'technician' } },
+    })
+    expect((await dataService.getInspectionReport(inspection.id))?.status).toBe('pending_review')
+
+    const changes = await service.requestChanges(inspection.id, supervisor, {
+      comments: [{ text: 'Add a photo of the flange', finding: { section: 'findings', index: 0 } }],
+    })
+    expect(changes?.status).toBe('changes_requested')
+    expect(changes?.review?.comments).toEqual([
+      expect.objectContaining({
+        text: 'Add a photo of the flange',
+        reportVersion: 1,
+        finding: { section: 'findings', index: 0, text: expect.stringContaining('corrosion') },
+        author: { uid: 'uid-sup', email: 'sam@example.com', role: 'supervisor' },
+      }),
+    ])
+    await expect(service.approve(inspection.id, supervisor)).rejects.toBeInstanceOf(ReviewTransitionError)
+
+    await service.submitForReview(inspection.id, technician)
+    const approved = await service.approve(inspection.id, supervisor)
+    const approval = approved?.review?.approval
+    expect(approved?.status).toBe('approved')
+    expect(approved?.review?.comments).toHaveLength(1)
+    expect(approval).toMatchObject({ reportVersion: 2, approvedBy: { uid: 'uid-sup', role: 'supervisor' } })
+
+    const verification = await service.verify(inspection.id, approval!.verificationHash)
+    expect(verification).toMatchObject({ valid: true, reasons: [] })
+    expect(await service.verify(inspection.id, 'f'.repeat(64))).toMatchObject({
+      valid: false,
+      reasons: ['Hash does not match the approval of this inspection'],
+    })
+    expect((await service.getSignedReport(inspection.id))?.report.version).toBe(2)
+    await expect(service.submitForReview(inspection.id, technician)).rejects.toBeInstanceOf(ReviewTransitionError)
+  })
+
+  it('rejects submissions with open checklist items and comments on missing findings', async () => {
+    const dataService = new MemoryDataService()
+    const service = new InspectionReviewService(dataService)
+    const inspection = await seedInspection(dataService)
+    await dataService.setInspectionChecklist(inspection.id, {
+      templateId: 'tpl-1',
+      templateName: 'Valve',
+      items: [{ id: 'item-1', label: 'Torque bolts', required: true, requiresPhoto: false, keywords: [], status: 'open' }],
+    })
+
+    await expect(service.submitForReview(inspection.id, technician)).rejects.toBeInstanceOf(ChecklistIncompleteError)
+    await service.submitForReview(inspection.id, technician, { overrideReason: 'Tool unavailable' })
+
+    await expect(
+      service.requestChanges(inspection.id, supervisor, {
+        comments: [{ text: 'Which one?', finding: { section: 'safetySummary', index: 3 } }],
+      }),
+    ).rejects.toBeInstanceOf(ReviewCommentError)
+    await expect(service.requestChanges(inspection.id, supervisor, { comments: [] })).rejects.toBeInstanceOf(
+      ReviewCommentError,
+    )
+  })
+
+  it('stops verifying once the approved report version has been altered', async () => {
+    const dataService = new MemoryDataService()
+    const service = new InspectionReviewService(dataService)
+    const inspection = await seedInspection(dataService)
+    await service.submitForReview(inspection.id, technician)
+    const approved = await service.approve(inspection.id, supervisor)
+    const report = await dataService.getInspectionReport(inspection.id, 1)
+    report!.findings.push('Added after approval')
+    jest.spyOn(dataService, 'getInspectionReport').mockResolvedValue(report)
+
+    const verification = await service.verify(inspection.id, approved!.review!.approval!.verificationHash)
+
+    expect(verification).toMatchObject({
+      valid: false,
+      reasons: ['Report version 1 has changed since it was approved'],
+    })
+  })
+})
@@ -0,0 +1,309 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { AccessActor } from './authorization.service'
+import { ChecklistIncompleteError, openRequiredItems } from './checklist.service'
+import type { DataService } from './data-service'
+import type { InspectionReport } from './firestore-data.service'
+import { approvalVerificationHash } from './inspection-review'
+import { reportContentHash } from './report-version'
+import type {
+  Inspection,
+  InspectionReview,
+  InspectionStatus,
+  ReportApproval,
+  ReviewActor,
+  ReviewComment,
+  ReviewFindingSection,
+} from '../types'
+
+type InspectionReviewDataService = Pick<
+  DataService,
+  'getInspectionById' | 'updateInspectionStatus' | 'generateInspectionReport' | 'getInspectionReport'
+>
+
+/** The resolved caller plus the email from their token, which is what signed reports show. */
+export type Reviewer = AccessActor & { email?: string }
+
+export interface ReviewCommentInput {
+  text: string
+  /** Points the comment at one line of the report version under review. */
+  finding?: { section: ReviewFindingSection; index: number }
+}
+
+export interface SubmitForReviewInput {
+  summary?: string
+  overrideReason?: string
+  expectedVersion?: number
+}
+
+export interface ReviewDecisionInput {
+  comments?: ReviewCommentInput[]
+  expectedVersion?: number
+}
+
+export interface ApprovalVerification {
+  inspectionId: string
+  valid: boolean
+  approval: ReportApproval | null
+  /** Why the hash was not accepted; empty when it was. */
+  reasons: string[]
+}
+
+export class ReviewTransitionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReviewTransitionError'
+  }
+}
+
+export class ReviewCommentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReviewCommentError'
+  }
+}
+
+const SUBMITTABLE_STATUSES: InspectionStatus[] = ['in_progress', 'completed', 'changes_requested']
+
+/** Statuses only the review flow may move an inspection out of. */
+export const REVIEW_LOCKED_STATUSES: InspectionStatus[] = ['pending_review', 'changes_requested', 'approved']
+
+function reviewActor(actor: Reviewer): ReviewActor {
+  return { uid: actor.uid, email: actor.email, role: actor.role }
+}
+
+export class InspectionReviewService {
+  constructor(private readonly dataService: InspectionReviewDataService) {}
+
+  /**
+   * Moves an inspection to `pending_review` and pins the report version the
+   * reviewer will see. The checklist rules of completion apply.
+   */
+  public async submitForReview(
+    inspectionId: string,
+    actor: Reviewer,
+    input: SubmitForReviewInput = {},
+  ): Promise<Inspection | null> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      return null
+    }
+    if (!SUBMITTABLE_STATUSES.includes(inspection.status)) {
+      throw new ReviewTransitionError(`Cannot submit an inspection that is ${inspection.status} for review`)
+    }
+
+    const overrideReason = input.overrideReason?.trim()
+    const openItems = inspection.checklist ? openRequiredItems(inspection.checklist) : []
+    if (openItems.length > 0 && !overrideReason) {
+      throw new ChecklistIncompleteError(openItems.map((item) => item.label))
+    }
+
+    // The status goes first so the report version under review records it
+    const submitted = await this.dataService.updateInspectionStatus(inspectionId, {
+      status: 'pending_review',
+      summary: input.summary,
+      checklistOverrideReason: openItems.length > 0 ? overrideReason : undefined,
+      expectedVersion: input.expectedVersion ?? inspection.version,
+    })
+    if (!submitted) {
+      return null
+    }
+
+    let report: InspectionReport | null
+    try {
+      report = await this.dataService.generateInspectionReport(inspectionId)
+    } catch (error) {
+      await this.dataService
+        .updateInspectionStatus(inspectionId, { status: inspection.status, expectedVersion: submitted.version })
+        .catch(() => undefined)
+      throw error
+    }
+    if (!report) {
+      return null
+    }
+
+    return this.dataService.updateInspectionStatus(inspectionId, {
+      status: 'pending_review',
+      review: {
+        reportVersion: report.version,
+        submittedBy: reviewActor(actor),
+        submittedAt: new Date(),
+        comments: inspection.review?.comments ?? [],
+      },
+      expectedVersion: submitted.version,
+    })
+  }
+
+  public async requestChanges(
+    inspectionId: string,
+    actor: Reviewer,
+    input: ReviewDecisionInput,
+  ): Promise<Inspection | null> {
+    if (!input.comments?.length) {
+      throw new ReviewCommentError('Requesting changes needs at least one comment')
+    }
+    return this.decide(inspectionId, actor, input, (review) => ({ status: 'changes_requested', review }))
+  }
+
+  public async approve(
+    inspectionId: string,
+    actor: Reviewer,
+    input: ReviewDecisionInput = {},
+  ): Promise<Inspection | null> {
+    return this.decide(inspectionId, actor, input, (review, report) => {
+      const signed: Omit<ReportApproval, 'verificationHash'> = {
+        reportVersion: report.version,
+        reportContentHash: reportContentHash(report),
+        approvedBy: reviewActor(actor),
+        approvedAt: review.decidedAt ?? new Date(),
+      }
+      return {
+        status: 'approved',
+        review: {
+          ...review,
+          approval: { ...signed, verificationHash: approvalVerificationHash(inspectionId, signed) },
+        },
+      }
+    })
+  }
+
+  /** Adds reviewer comments without deciding; allowed while a review is open or changes are pending. */
+  public async addComments(
+    inspectionId: string,
+    actor: Reviewer,
+    input: ReviewDecisionInput,
+  ): Promise<Inspection | null> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      return null
+    }
+    if (!inspection.review || !['pending_review', 'changes_requested'].includes(inspection.status)) {
+      throw new ReviewTransitionError(`Cannot comment on an inspection that is ${inspection.status}`)
+    }
+
+    const report = await this.reviewedReport(inspection.id, inspection.review)
+    return this.dataService.updateInspectionStatus(inspectionId, {
+      status: inspection.status,
+      review: {
+        ...inspection.review,
+        comments: [...inspection.review.comments, ...this.buildComments(input.comments ?? [], actor, report)],
+      },
+      expectedVersion: input.expectedVersion ?? inspection.version,
+    })
+  }
+
+  /** The approved report version and its approval, for rendering the signed PDF. */
+  public async getSignedReport(
+    inspectionId: string,
+  ): Promise<{ report: InspectionReport; approval: ReportApproval } | null> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      return null
+    }
+    const approval = inspection.review?.approval
+    if (inspection.status !== 'approved' || !approval) {
+      throw new ReviewTransitionError('Inspection has not been approved')
+    }
+
+    const report = await this.dataService.getInspectionReport(inspectionId, approval.reportVersion)
+    if (!report) {
+      throw new ReviewTransitionError(`Approved report version ${approval.reportVersion} no longer exists`)
+    }
+    return { report, approval }
+  }
+
+  /**
+   * Checks a verification hash against the stored approval, and the approved
+   * report version against the content hash it was signed with.
+   */
+  public async verify(inspectionId: string, hash: string): Promise<ApprovalVerification | null> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      return null
+    }
+
+    const approval = inspection.status === 'approved' ? inspection.review?.approval ?? null : null
+    const reasons: string[] = []
+    if (!approval) {
+      reasons.push('Inspection has not been approved')
+    } else {
+      const { verificationHash, ...signed } = approval
+      if (hash.toLowerCase() !== verificationHash) {
+        reasons.push('Hash does not match the approval of this inspection')
+      }
+      if (approvalVerificationHash(inspectionId, signed) !== verificationHash) {
+        reasons.push('Stored approval no longer matches its verification hash')
+      }
+      const report = await this.dataService.getInspectionReport(inspectionId, approval.reportVersion)
+      if (!report) {
+        reasons.push(`Approved report version ${approval.reportVersion} no longer exists`)
+      } else if (reportContentHash(report) !== approval.reportContentHash) {
+        reasons.push(`Report version ${approval.reportVersion} has changed since it was approved`)
+      }
+    }
+
+    return { inspectionId, valid: reasons.length === 0, approval, reasons }
+  }
+
+  private async decide(
+    inspectionId: string,
+    actor: Reviewer,
+    input: ReviewDecisionInput,
+    outcome: (
+      review: InspectionReview,
+      report: InspectionReport,
+    ) => { status: InspectionStatus; review: InspectionReview },
+  ): Promise<Inspection | null> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      return null
+    }
+    if (inspection.status !== 'pending_review' || !inspection.review) {
+      throw new ReviewTransitionError(`Cannot review an inspection that is ${inspection.status}`)
+    }
+
+    const report = await this.reviewedReport(inspection.id, inspection.review)
+    const review: InspectionReview = {
+      ...inspection.review,
+      decidedBy: reviewActor(actor),
+      decidedAt: new Date(),
+      comments: [...inspection.review.comments, ...this.buildComments(input.comments ?? [], actor, report)],
+    }
+    const { status, review: decided } = outcome(review, report)
+    return this.dataService.updateInspectionStatus(inspectionId, {
+      status,
+      review: decided,
+      expectedVersion: input.expectedVersion ?? inspection.version,
+    })
+  }
+
+  private async reviewedReport(inspectionId: string, review: InspectionReview): Promise<InspectionReport> {
+    const report = await this.dataService.getInspectionReport(inspectionId, review.reportVersion)
+    if (!report) {
+      throw new ReviewTransitionError(`Report version ${review.reportVersion} under review no longer exists`)
+    }
+    return report
+  }
+
+  private buildComments(inputs: ReviewCommentInput[], actor: Reviewer, report: InspectionReport): ReviewComment[] {
+    const createdAt = new Date()
+    return inputs.map((input) => {
+      let finding: ReviewComment['finding']
+      if (input.finding) {
+        const { section, index } = input.finding
+        const text = report[section][index]
+        if (text === undefined) {
+          throw new ReviewCommentError(`Report version ${report.version} has no ${section} line ${index}`)
+        }
+        finding = { section, index, text }
+      }
+      return {
+        id: uuidv4(),
+        author: reviewActor(actor),
+        text: input.text,
+        reportVersion: report.version,
+        finding,
+        createdAt,
+      }
+    })
+  }
+}
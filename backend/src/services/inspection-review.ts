@@ -0,0 +1,66 @@
+import { createHash } from 'crypto'
+import type { InspectionReview, InspectionStatus, ReportApproval, ReviewActor, ReviewComment } from '../types'
+import { canonicalJson } from '../utils/canonical-json'
+
+export const INSPECTION_STATUSES: InspectionStatus[] = [
+  'in_progress',
+  'completed',
+  'pending_review',
+  'changes_requested',
+  'approved',
+]
+
+/** Unknown values read back as `in_progress`, as they did before review states existed. */
+export function readInspectionStatus(value: unknown): InspectionStatus {
+  return INSPECTION_STATUSES.includes(value as InspectionStatus) ? (value as InspectionStatus) : 'in_progress'
+}
+
+/** The hash printed on a signed report; anyone holding it can have the approval re-checked. */
+export function approvalVerificationHash(
+  inspectionId: string,
+  approval: Omit<ReportApproval, 'verificationHash'>,
+): string {
+  const { reportVersion, reportContentHash, approvedBy, approvedAt } = approval
+  return createHash('sha256')
+    .update(
+      canonicalJson({
+        inspectionId,
+        reportVersion,
+        reportContentHash,
+        approvedBy,
+        approvedAt: new Date(approvedAt).toISOString(),
+      }),
+    )
+    .digest('hex')
+}
+
+type StoredDate = Date | string | { toDate: () => Date }
+
+function readDate(value: StoredDate): Date {
+  return value instanceof Date ? value : typeof value === 'string' ? new Date(value) : value.toDate()
+}
+
+type Stored<T> = { [K in keyof T]: T[K] extends Date ? StoredDate : T[K] extends Date | undefined ? StoredDate | undefined : T[K] }
+
+export type StoredInspectionReview = Omit<Stored<InspectionReview>, 'comments' | 'approval'> & {
+  comments: Array<Stored<ReviewComment>>
+  approval?: Stored<ReportApproval>
+}
+
+/** Revives the dates of a review read back from JSON or Firestore. */
+export function readInspectionReview(value: StoredInspectionReview | null | undefined): InspectionReview | undefined {
+  if (!value) {
+    return undefined
+  }
+  return {
+    ...value,
+    submittedAt: readDate(value.submittedAt),
+    decidedAt: value.decidedAt ? readDate(value.decidedAt) : undefined,
+    comments: (value.comments || []).map((comment) => ({ ...comment, createdAt: readDate(comment.createdAt) })),
+    approval: value.approval ? { ...value.approval, approvedAt: readDate(value.approval.approvedAt) } : undefined,
+  }
+}
+
+export function describeReviewActor(actor: ReviewActor): string {
+  return actor.email || actor.uid || 'auth disabled'
+}
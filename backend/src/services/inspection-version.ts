@@ -0,0 +1,35 @@
+/** The inspection changed after the caller read it; `currentVersion` is what is stored now. */
+export class InspectionVersionConflictError extends Error {
+  public readonly currentVersion: number
+
+  constructor(currentVersion: number) {
+    super(`Inspection was changed by another request and is now at version ${currentVersion}`)
+    this.name = 'InspectionVersionConflictError'
+    this.currentVersion = currentVersion
+  }
+}
+
+const ETAG_PATTERN = /^(?:W\/)?"(\d+)"$/
+
+export function inspectionEtag(version: number): string {
+  return `"${version}"`
+}
+
+/**
+ * The version an `If-Match` header asks for. Undefined when the header is
+ * absent or `*`; null when it is not a single inspection ETag.
+ */
+export function parseIfMatch(header: string | undefined): number | null | undefined {
+  const value = header?.trim()
+  if (!value || value === '*') {
+    return undefined
+  }
+  const match = ETAG_PATTERN.exec(value)
+  return match ? Number(match[1]) : null
+}
+
+export function assertInspectionVersion(current: number, expectedVersion: number | undefined): void {
+  if (expectedVersion !== undefined && current !== expectedVersion) {
+    throw new InspectionVersionConflictError(current)
+  }
+}
@@ -0,0 +1,80 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { MemoryDataService } from './memory-data.service'
+
+describe('MemoryDataService', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'fieldsight-memory-'))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('reloads a snapshot with dates intact', async () => {
+    const snapshotPath = join(directory, 'store.json')
+    const first = new MemoryDataService({ snapshotPath })
+    const inspection = await first.createInspection({ technicianId: 'tech-1', siteId: 'site-1' })
+    await first.appendInspectionSafetyFlags(inspection.id, [
+      { type: 'spark', severity: 'critical', description: 'Arcing', timestamp: new Date('2026-03-01T10:00:00.000Z') },
+    ])
+    await first.close()
+
+    expect(JSON.parse(readFileSync(snapshotPath, 'utf8')).inspections[inspection.id].transcript).toBe('')
+
+    const second = new MemoryDataService({ snapshotPath })
+    const reloaded = await second.getInspectionById(inspection.id)
+    expect(reloaded?.timestamp).toEqual(inspection.timestamp)
+    expect(reloaded?.safetyFlags[0].timestamp).toEqual(new Date('2026-03-01T10:00:00.000Z'))
+  })
+
+  it('splits transcripts from older snapshots into entries', async () => {
+    const snapshotPath = join(directory, 'store.json')
+    const first = new MemoryDataService({ snapshotPath })
+    const inspection = await first.createInspection({ technicianId: 'tech-1', siteId: 'site-1' })
+    await first.close()
+    const stored = JSON.parse(readFileSync(snapshotPath, 'utf8'))
+    delete stored.transcriptEntries
+    stored.inspections[inspection.id].transcript = 'user: Panel is hot\nagent: Back away'
+    writeFileSync(snapshotPath, JSON.stringify(stored))
+
+    const second = new MemoryDataService({ snapshotPath })
+    expect(await second.listTranscriptEntries(inspection.id)).toMatchObject([
+      { sequence: 1, speaker: 'user', text: 'Panel is hot', source: 'legacy', timestamp: inspection.timestamp },
+      { sequence: 2, speaker: 'agent', text: 'Back away', source: 'legacy' },
+    ])
+    const next = await second.appendInspectionTranscript(inspection.id, { speaker: 'user', text: 'Done', source: 'live' })
+    expect(next.sequence).toBe(3)
+  })
+
+  it('keeps each organization in its own part of the snapshot', async () => {
+    const snapshotPath = join(directory, 'store.json')
+    const first = new MemoryDataService({ snapshotPath })
+    await first.createOrganization({ id: 'acme', name: 'Acme' })
+    const acme = first.forOrganization('acme')
+    const inspection = await acme.createInspection({ technicianId: 'tech-1', siteId: 'site-1' })
+    await first.close()
+
+    const stored = JSON.parse(readFileSync(snapshotPath, 'utf8'))
+    expect(stored.inspections).toEqual({})
+    expect(Object.keys(stored.organizationData.acme.inspections)).toEqual([inspection.id])
+
+    const second = new MemoryDataService({ snapshotPath })
+    expect(await second.getOrganization('acme')).toMatchObject({ name: 'Acme' })
+    expect(await second.forOrganization('acme').getInspectionById(inspection.id)).toMatchObject({ id: inspection.id })
+    expect(await second.getInspectionById(inspection.id)).toBeNull()
+  })
+
+  it('hands out copies so callers cannot change stored records', async () => {
+    const store = new MemoryDataService()
+    const inspection = await store.createInspection({ technicianId: 'tech-1', siteId: 'site-1' })
+
+    inspection.images.push('https://cdn.example.com/stray.jpg')
+    ;(await store.getInspectionById(inspection.id))?.images.push('https://cdn.example.com/stray.jpg')
+
+    expect((await store.getInspectionById(inspection.id))?.images).toEqual([])
+  })
+})
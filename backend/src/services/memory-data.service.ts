@@ -0,0 +1,1239 @@
+import { existsSync, readFileSync } from 'fs'
+import { rename, writeFile } from 'fs/promises'
+import { v4 as uuidv4 } from 'uuid'
+import type {
+  ArchiveRecordMap,
+  ArchiveRecordType,
+  AuditLogQuery,
+  DataService,
+  ExpertEscalationRevision,
+  InspectionPage,
+  InspectionPurgeResult,
+  InspectionSearchQuery,
+  ListDirectoryOptions,
+  ListExpertEscalationFilters,
+  ListInspectionFilters,
+  ListPartOrderFilters,
+  ListReportJobFilters,
+  ListShareSessionFilters,
+  NewOrganization,
+  NewReportJob,
+  NewTranscriptEntry,
+  OrganizationDirectory,
+  ReportJobClaim,
+  ReportJobRevision,
+  TranscriptQuery,
+  UpdateExpertEscalationInput,
+  UpdateOrganizationInput,
+  UpdatePartOrderInput,
+  UpdateReportJobInput,
+  UpdateSiteInput,
+  UpdateTechnicianInput,
+  UpdateTimeEntryInput,
+} from './data-service'
+import { AuditSequenceConflictError, normalizeAuditPageSize, toAuditJson } from './audit-chain'
+import { archiveRecordId } from './data-archive.service'
+import type { InspectionReport } from './firestore-data.service'
+import { buildInspectionReport } from './inspection-report'
+import { assertInspectionVersion } from './inspection-version'
+import {
+  decodeInspectionCursor,
+  inspectionSearchText,
+  inspectionSortValue,
+  normalizeInspectionPageSize,
+  toInspectionPage,
+  tokenizeSearchText,
+} from './inspection-query'
+import {
+  DEFAULT_ORGANIZATION_ID,
+  OrganizationExistsError,
+  assertOrganizationId,
+  defaultOrganization,
+} from './organization-context'
+import { isReportJobDue, reportJobDueAt } from './report-jobs'
+import { reportContentHash, reportVersionId } from './report-version'
+import { runningTaskConflict } from './time-tracking.service'
+import {
+  formatTranscriptLine,
+  matchesTranscriptQuery,
+  normalizeTranscriptPageSize,
+  parseLegacyTranscript,
+} from './transcript'
+import type {
+  AssetRiskAssessment,
+  AuditEntry,
+  ChecklistTemplate,
+  DetectedFault,
+  ExpertContact,
+  ExpertEscalation,
+  Inspection,
+  InspectionAnnotation,
+  InspectionChecklist,
+  InspectionReview,
+  InspectionStatus,
+  OcrFinding,
+  Organization,
+  PartOrder,
+  ReadingAnomaly,
+  ReportGenerationJob,
+  ReportTemplate,
+  RetentionDataClass,
+  RetentionPolicy,
+  SafetyFlag,
+  ShareSession,
+  ShareSessionStatus,
+  Site,
+  SiteAsset,
+  Technician,
+  TimeEntry,
+  TranscriptEntry,
+  WorkflowEvent,
+} from '../types'
+
+interface MemoryCollections {
+  technicians: Record<string, Technician>
+  sites: Record<string, Site>
+  siteAssets: Record<string, SiteAsset>
+  inspections: Record<string, Inspection>
+  transcriptEntries: Record<string, TranscriptEntry>
+  inspectionReports: Record<string, InspectionReport>
+  reportJobs: Record<string, ReportGenerationJob>
+  checklistTemplates: Record<string, ChecklistTemplate>
+  timeEntries: Record<string, TimeEntry>
+  partOrders: Record<string, PartOrder>
+  expertContacts: Record<string, ExpertContact>
+  expertEscalations: Record<string, ExpertEscalation>
+  shareSessions: Record<string, ShareSession>
+  annotations: Record<string, InspectionAnnotation>
+  /** Keyed by chain sequence. */
+  auditLog: Record<string, AuditEntry>
+}
+
+/** The default organization's collections stay at the top level, where they were before organizations existed. */
+type MemorySnapshot = Partial<MemoryCollections> & {
+  organizations?: Record<string, Organization>
+  organizationData?: Record<string, Partial<MemoryCollections>>
+}
+
+/** Shared by the service and every organization's view of it. */
+interface MemoryStore {
+  organizations: Record<string, Organization>
+  partitions: Record<string, MemoryCollections>
+  views: Map<string, MemoryDataService>
+  pendingWrite: Promise<void>
+}
+
+export interface MemoryDataServiceOptions {
+  /** JSON file the store is loaded from at startup and rewritten to after every change. */
+  snapshotPath?: string
+}
+
+const ARCHIVE_COLLECTIONS: Record<ArchiveRecordType, keyof MemoryCollections> = {
+  technician: 'technicians',
+  site: 'sites',
+  asset: 'siteAssets',
+  inspection: 'inspections',
+  transcript: 'transcriptEntries',
+  report: 'inspectionReports',
+}
+
+const SNAPSHOT_DATE_KEYS = new Set([
+  'createdAt',
+  'updatedAt',
+  'timestamp',
+  'generatedAt',
+  'computedAt',
+  'lastInspectedAt',
+  'startedAt',
+  'resumedAt',
+  'endedAt',
+  'estimatedDelivery',
+  'acknowledgeBy',
+  'acknowledgedAt',
+  'resolvedAt',
+  'expiresAt',
+  'deletedAt',
+  'occurredAt',
+  'submittedAt',
+  'decidedAt',
+  'approvedAt',
+  'nextAttemptAt',
+  'leaseExpiresAt',
+  'reportGeneratedAt',
+])
+
+function emptyCollections(): MemoryCollections {
+  return {
+    technicians: {},
+    sites: {},
+    siteAssets: {},
+    inspections: {},
+    transcriptEntries: {},
+    inspectionReports: {},
+    reportJobs: {},
+    checklistTemplates: {},
+    timeEntries: {},
+    partOrders: {},
+    expertContacts: {},
+    expertEscalations: {},
+    shareSessions: {},
+    annotations: {},
+    auditLog: {},
+  }
+}
+
+/** Deep copy so callers never hold references into the store. */
+function clone<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => clone(item)) as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as T
+  }
+  return value
+}
+
+/** Newest first, with the same row caps as the database providers. */
+function newestFirst<T extends { createdAt: Date }>(records: T[], limit: number): T[] {
+  return [...records].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()).slice(0, limit).map(clone)
+}
+
+/**
+ * Keeps everything in process memory, for local development without a
+ * database and for tests. With a snapshot path the store survives restarts.
+ * Each organization gets its own set of collections.
+ * Behaviour matches the Postgres and Firestore providers; the data service
+ * conformance suite runs against all three.
+ */
+export class MemoryDataService implements DataService, OrganizationDirectory {
+  private readonly snapshotPath?: string
+  private readonly store: MemoryStore
+  private readonly organizationId: string
+
+  /** `partition` is for `forOrganization`; a new service owns the default organization's partition. */
+  constructor(options: MemoryDataServiceOptions = {}, partition?: { store: MemoryStore; organizationId: string }) {
+    this.snapshotPath = options.snapshotPath
+    this.store = partition?.store ?? this.loadSnapshot()
+    this.organizationId = partition?.organizationId ?? DEFAULT_ORGANIZATION_ID
+    this.store.views.set(this.organizationId, this)
+  }
+
+  private get collections(): MemoryCollections {
+    return this.store.partitions[this.organizationId]
+  }
+
+  public async ready(): Promise<void> {
+    return
+  }
+
+  public async close(): Promise<void> {
+    await this.store.pendingWrite
+  }
+
+  public forOrganization(organizationId: string): MemoryDataService {
+    assertOrganizationId(organizationId)
+    const existing = this.store.views.get(organizationId)
+    if (existing) {
+      return existing
+    }
+    this.store.partitions[organizationId] = this.store.partitions[organizationId] ?? emptyCollections()
+    return new MemoryDataService({ snapshotPath: this.snapshotPath }, { store: this.store, organizationId })
+  }
+
+  public async createOrganization(input: NewOrganization): Promise<Organization> {
+    assertOrganizationId(input.id)
+    if (input.id === DEFAULT_ORGANIZATION_ID || this.store.organizations[input.id]) {
+      throw new OrganizationExistsError(input.id)
+    }
+
+    const now = new Date()
+    const organization: Organization = {
+      id: input.id,
+      name: input.name,
+      settings: input.settings ?? {},
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.store.organizations[organization.id] = clone(organization)
+    this.store.partitions[organization.id] = this.store.partitions[organization.id] ?? emptyCollections()
+    await this.persist()
+    return organization
+  }
+
+  public async getOrganization(organizationId: string): Promise<Organization | null> {
+    const organization = this.store.organizations[organizationId]
+    if (organization) {
+      return clone(organization)
+    }
+    return organizationId === DEFAULT_ORGANIZATION_ID ? defaultOrganization() : null
+  }
+
+  public async listOrganizations(): Promise<Organization[]> {
+    const organizations = Object.values(this.store.organizations).map(clone)
+    if (!this.store.organizations[DEFAULT_ORGANIZATION_ID]) {
+      organizations.push(defaultOrganization())
+    }
+    return organizations.sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  public async updateOrganization(
+    organizationId: string,
+    input: UpdateOrganizationInput,
+  ): Promise<Organization | null> {
+    const existing = await this.getOrganization(organizationId)
+    if (!existing) {
+      return null
+    }
+
+    const now = new Date()
+    const stored = Boolean(this.store.organizations[organizationId])
+    const organization: Organization = {
+      ...existing,
+      ...clone(input),
+      createdAt: stored ? existing.createdAt : now,
+      updatedAt: now,
+    }
+    this.store.organizations[organizationId] = clone(organization)
+    await this.persist()
+    return organization
+  }
+
+  public async createTechnician(
+    input: Omit<Technician, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<Technician> {
+    const now = new Date()
+    const technician: Technician = { id: uuidv4(), ...input, createdAt: now, updatedAt: now }
+    this.collections.technicians[technician.id] = clone(technician)
+    await this.persist()
+    return technician
+  }
+
+  public async listTechnicians(options: ListDirectoryOptions = {}): Promise<Technician[]> {
+    const technicians = Object.values(this.collections.technicians)
+    return newestFirst(
+      options.includeDeleted ? technicians : technicians.filter((technician) => !technician.deletedAt),
+      100,
+    )
+  }
+
+  public async getTechnicianById(technicianId: string): Promise<Technician | null> {
+    const technician = this.collections.technicians[technicianId]
+    return technician ? clone(technician) : null
+  }
+
+  public async getTechnicianByEmail(email: string): Promise<Technician | null> {
+    const key = email.trim().toLowerCase()
+    const matches = Object.values(this.collections.technicians).filter(
+      (technician) => !technician.deletedAt && technician.email.toLowerCase() === key,
+    )
+    return newestFirst(matches, 1)[0] ?? null
+  }
+
+  public async updateTechnician(technicianId: string, input: UpdateTechnicianInput): Promise<Technician | null> {
+    const technician = this.collections.technicians[technicianId]
+    if (!technician) {
+      return null
+    }
+
+    Object.assign(technician, clone(input), { updatedAt: new Date() })
+    await this.persist()
+    return clone(technician)
+  }
+
+  public async deactivateTechnician(technicianId: string): Promise<Technician | null> {
+    const technician = this.collections.technicians[technicianId]
+    if (!technician) {
+      return null
+    }
+
+    if (!technician.deletedAt) {
+      const now = new Date()
+      Object.assign(technician, { deletedAt: now, updatedAt: now })
+      await this.persist()
+    }
+    return clone(technician)
+  }
+
+  public async createSite(input: Omit<Site, 'id' | 'createdAt' | 'updatedAt'>): Promise<Site> {
+    const now = new Date()
+    const site: Site = { id: uuidv4(), ...input, createdAt: now, updatedAt: now }
+    this.collections.sites[site.id] = clone(site)
+    await this.persist()
+    return site
+  }
+
+  public async listSites(options: ListDirectoryOptions = {}): Promise<Site[]> {
+    const sites = Object.values(this.collections.sites)
+    return newestFirst(options.includeDeleted ? sites : sites.filter((site) => !site.deletedAt), 100)
+  }
+
+  public async getSiteById(siteId: string): Promise<Site | null> {
+    const site = this.collections.sites[siteId]
+    return site ? clone(site) : null
+  }
+
+  public async updateSite(siteId: string, input: UpdateSiteInput): Promise<Site | null> {
+    const site = this.collections.sites[siteId]
+    if (!site) {
+      return null
+    }
+
+    Object.assign(site, clone(input), { updatedAt: new Date() })
+    await this.persist()
+    return clone(site)
+  }
+
+  public async deactivateSite(siteId: string): Promise<Site | null> {
+    const site = this.collections.sites[siteId]
+    if (!site) {
+      return null
+    }
+
+    if (!site.deletedAt) {
+      const now = new Date()
+      Object.assign(site, { deletedAt: now, updatedAt: now })
+      await this.persist()
+    }
+    return clone(site)
+  }
+
+  public async setSiteTechnicians(siteId: string, technicianIds: string[]): Promise<Site | null> {
+    const site = this.collections.sites[siteId]
+    if (!site) {
+      return null
+    }
+
+    Object.assign(site, { technicianIds: [...technicianIds], updatedAt: new Date() })
+    await this.persist()
+    return clone(site)
+  }
+
+  public async setSiteRetention(siteId: string, retention: RetentionPolicy | null): Promise<Site | null> {
+    const site = this.collections.sites[siteId]
+    if (!site) {
+      return null
+    }
+
+    Object.assign(site, { retention: retention ? clone(retention) : undefined, updatedAt: new Date() })
+    await this.persist()
+    return clone(site)
+  }
+
+  public async setSiteReportTemplate(siteId: string, template: ReportTemplate | null): Promise<Site | null> {
+    const site = this.collections.sites[siteId]
+    if (!site) {
+      return null
+    }
+
+    Object.assign(site, { reportTemplate: template ? clone(template) : undefined, updatedAt: new Date() })
+    await this.persist()
+    return clone(site)
+  }
+
+  public async createInspection(input: {
+    technicianId: string
+    siteId: string
+    assetIds?: string[]
+  }): Promise<Inspection> {
+    const inspection: Inspection = {
+      id: uuidv4(),
+      technicianId: input.technicianId,
+      siteId: input.siteId,
+      timestamp: new Date(),
+      status: 'in_progress',
+      assetIds: [...new Set(input.assetIds || [])],
+      images: [],
+      safetyFlags: [],
+      detectedFaults: [],
+      recommendedActions: [],
+      ocrFindings: [],
+      anomalyFindings: [],
+      workflowEvents: [],
+      transcript: '',
+      version: 1,
+    }
+    this.collections.inspections[inspection.id] = clone(inspection)
+    await this.persist()
+    return inspection
+  }
+
+  public async getInspectionById(id: string): Promise<Inspection | null> {
+    const inspection = this.collections.inspections[id]
+    return inspection ? clone(inspection) : null
+  }
+
+  public async listInspections(filters: ListInspectionFilters): Promise<Inspection[]> {
+    return this.filterInspections(filters)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, 50)
+      .map(clone)
+  }
+
+  public async searchInspections(query: InspectionSearchQuery): Promise<InspectionPage> {
+    const sortBy = query.sortBy ?? 'timestamp'
+    const sortOrder = query.sortOrder ?? 'desc'
+    const direction = sortOrder === 'asc' ? 1 : -1
+    const tokens = tokenizeSearchText(query.search ?? '')
+    const cursor = query.cursor ? decodeInspectionCursor(query.cursor, sortBy, sortOrder) : null
+
+    const compare = (a: { value: string; id: string }, b: { value: string; id: string }): number => {
+      if (a.value !== b.value) return a.value < b.value ? -1 : 1
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+    }
+    const key = (inspection: Inspection) => ({ value: inspectionSortValue(inspection, sortBy), id: inspection.id })
+
+    const rows = this.filterInspections(query)
+      .filter((inspection) => {
+        if (query.from && inspection.timestamp < query.from) return false
+        if (query.to && inspection.timestamp > query.to) return false
+        if (tokens.length > 0) {
+          const words = tokenizeSearchText(inspectionSearchText(inspection))
+          if (!tokens.every((token) => words.includes(token))) return false
+        }
+        return !cursor || compare(key(inspection), cursor) * direction > 0
+      })
+      .sort((a, b) => compare(key(a), key(b)) * direction)
+      .slice(0, normalizeInspectionPageSize(query.limit) + 1)
+      .map(clone)
+
+    return toInspectionPage(rows, { ...query, sortBy, sortOrder })
+  }
+
+  public async updateInspectionStatus(
+    inspectionId: string,
+    input: {
+      status: InspectionStatus
+      summary?: string
+      checklistOverrideReason?: string
+      review?: InspectionReview
+      expectedVersion?: number
+    },
+  ): Promise<Inspection | null> {
+    if (!this.collections.inspections[inspectionId]) {
+      return null
+    }
+
+    const inspection = this.inspectionForWrite(inspectionId, input.expectedVersion)
+    inspection.status = input.status
+    if (input.summary) {
+      inspection.summary = input.summary
+    }
+    if (input.checklistOverrideReason) {
+      inspection.checklistOverrideReason = input.checklistOverrideReason
+    }
+    if (input.review) {
+      inspection.review = clone(input.review)
+    }
+    await this.persist()
+    return clone(inspection)
+  }
+
+  public async linkInspectionAssets(
+    inspectionId: string,
+    assetIds: string[],
+    expectedVersion?: number,
+  ): Promise<Inspection | null> {
+    if (!this.collections.inspections[inspectionId]) {
+      return null
+    }
+
+    const inspection = this.inspectionForWrite(inspectionId, expectedVersion)
+    inspection.assetIds = [...new Set([...inspection.assetIds, ...assetIds])]
+    await this.persist()
+    return clone(inspection)
+  }
+
+  public async setInspectionChecklist(
+    inspectionId: string,
+    checklist: InspectionChecklist,
+    expectedVersion?: number,
+  ): Promise<void> {
+    this.inspectionForWrite(inspectionId, expectedVersion).checklist = clone(checklist)
+    await this.persist()
+  }
+
+  public async appendInspectionSafetyFlags(inspectionId: string, flags: SafetyFlag[]): Promise<void> {
+    if (flags.length === 0) {
+      return
+    }
+
+    this.inspectionForWrite(inspectionId).safetyFlags.push(
+      ...flags.map((flag) => ({
+        type: flag.type,
+        severity: flag.severity,
+        description: flag.description,
+        timestamp: new Date(flag.timestamp),
+      })),
+    )
+    await this.persist()
+  }
+
+  public async appendInspectionDetectedFaults(inspectionId: string, faults: DetectedFault[]): Promise<void> {
+    if (faults.length === 0) {
+      return
+    }
+
+    this.inspectionForWrite(inspectionId).detectedFaults.push(
+      ...faults.map((fault) => ({
+        component: fault.component,
+        faultType: fault.faultType,
+        confidence: fault.confidence,
+        description: fault.description,
+        recommendedActions: Array.isArray(fault.recommendedActions) ? [...fault.recommendedActions] : [],
+        assetId: fault.assetId,
+      })),
+    )
+    await this.persist()
+  }
+
+  public async appendInspectionTranscript(inspectionId: string, entry: NewTranscriptEntry): Promise<TranscriptEntry> {
+    const text = entry.text.trim()
+    if (!text) {
+      throw new Error('Transcript entry text is required')
+    }
+
+    const inspection = this.inspectionForWrite(inspectionId)
+    const last = this.transcriptEntriesOf(inspectionId).pop()
+    const next: TranscriptEntry = {
+      id: uuidv4(),
+      inspectionId,
+      sequence: (last?.sequence ?? 0) + 1,
+      speaker: entry.speaker,
+      text,
+      timestamp: entry.timestamp ?? new Date(),
+      language: entry.language,
+      source: entry.source,
+    }
+    const line = formatTranscriptLine(next)
+    this.collections.transcriptEntries[next.id] = clone(next)
+    inspection.transcript = inspection.transcript ? `${inspection.transcript}\n${line}` : line
+    await this.persist()
+    return next
+  }
+
+  public async listTranscriptEntries(inspectionId: string, query: TranscriptQuery = {}): Promise<TranscriptEntry[]> {
+    return this.transcriptEntriesOf(inspectionId)
+      .filter((entry) => matchesTranscriptQuery(entry, query))
+      .slice(0, normalizeTranscriptPageSize(query.limit))
+      .map(clone)
+  }
+
+  public async appendInspectionImage(inspectionId: string, imageUrl: string): Promise<void> {
+    this.inspectionForWrite(inspectionId).images.push(imageUrl)
+    await this.persist()
+  }
+
+  public async appendInspectionOcrFinding(
+    inspectionId: string,
+    finding: Omit<OcrFinding, 'createdAt'>,
+  ): Promise<void> {
+    this.inspectionForWrite(inspectionId).ocrFindings.push({ ...clone(finding), createdAt: new Date() })
+    await this.persist()
+  }
+
+  public async appendInspectionAnomalyFindings(inspectionId: string, findings: ReadingAnomaly[]): Promise<void> {
+    this.inspectionForWrite(inspectionId).anomalyFindings.push(...clone(findings))
+    await this.persist()
+  }
+
+  public async appendInspectionWorkflowEvent(
+    inspectionId: string,
+    event: Omit<WorkflowEvent, 'id' | 'createdAt'>,
+  ): Promise<WorkflowEvent> {
+    const inspection = this.inspectionForWrite(inspectionId)
+    const nextEvent: WorkflowEvent = { id: uuidv4(), ...event, createdAt: new Date() }
+    inspection.workflowEvents.push(clone(nextEvent))
+    await this.persist()
+    return nextEvent
+  }
+
+  public async purgeInspectionData(
+    inspectionId: string,
+    classes: RetentionDataClass[],
+  ): Promise<InspectionPurgeResult | null> {
+    if (!this.collections.inspections[inspectionId]) {
+      return null
+    }
+
+    const inspection = this.inspectionForWrite(inspectionId)
+    const purge = new Set(classes)
+    const result: InspectionPurgeResult = { transcriptEntries: 0, images: 0, ocrFindings: 0, report: false }
+    if (purge.has('transcripts')) {
+      for (const entry of this.transcriptEntriesOf(inspectionId)) {
+        delete this.collections.transcriptEntries[entry.id]
+        result.transcriptEntries += 1
+      }
+      inspection.transcript = ''
+      for (const report of this.reportVersionsOf(inspectionId)) {
+        report.transcriptExcerpt = []
+      }
+    }
+    if (purge.has('images')) {
+      result.images = inspection.images.length
+      inspection.images = []
+    }
+    if (purge.has('ocr')) {
+      result.ocrFindings = inspection.ocrFindings.length
+      inspection.ocrFindings = []
+    }
+    if (purge.has('reports')) {
+      for (const report of this.reportVersionsOf(inspectionId)) {
+        delete this.collections.inspectionReports[reportVersionId(inspectionId, report.version)]
+        result.report = true
+      }
+    }
+    await this.persist()
+    return result
+  }
+
+  public async generateInspectionReport(inspectionId: string): Promise<InspectionReport | null> {
+    const inspection = await this.getInspectionById(inspectionId)
+    if (!inspection) {
+      return null
+    }
+
+    const sources = {
+      timeEntries: await this.listTimeEntries(inspectionId),
+      partOrders: await this.listPartOrders({ inspectionId }),
+      annotations: await this.listAnnotations(inspectionId),
+      transcriptEntries: this.transcriptEntriesOf(inspectionId),
+    }
+    // Numbered after the last await so concurrent generations cannot take the same version
+    const version = (this.reportVersionsOf(inspectionId).pop()?.version ?? 0) + 1
+    const report = buildInspectionReport(inspection, sources, version)
+    this.collections.inspectionReports[reportVersionId(inspectionId, version)] = clone(report)
+    await this.persist()
+    return report
+  }
+
+  public async getInspectionReport(inspectionId: string, version?: number): Promise<InspectionReport | null> {
+    const report =
+      version === undefined
+        ? this.reportVersionsOf(inspectionId).pop()
+        : this.collections.inspectionReports[reportVersionId(inspectionId, version)]
+    return report ? clone(report) : null
+  }
+
+  public async listInspectionReportVersions(inspectionId: string): Promise<InspectionReport[]> {
+    return this.reportVersionsOf(inspectionId).map((report) => clone(report))
+  }
+
+  public async createReportJob(input: NewReportJob): Promise<ReportGenerationJob> {
+    const now = new Date()
+    const job: ReportGenerationJob = {
+      jobId: uuidv4(),
+      ...input,
+      status: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.collections.reportJobs[job.jobId] = clone(job)
+    await this.persist()
+    return job
+  }
+
+  public async getReportJob(jobId: string): Promise<ReportGenerationJob | null> {
+    const job = this.collections.reportJobs[jobId]
+    return job ? clone(job) : null
+  }
+
+  public async listReportJobs(filters: ListReportJobFilters): Promise<ReportGenerationJob[]> {
+    return newestFirst(
+      Object.values(this.collections.reportJobs).filter(
+        (job) =>
+          (!filters.inspectionId || job.inspectionId === filters.inspectionId) &&
+          (!filters.statuses?.length || filters.statuses.includes(job.status)),
+      ),
+      Math.min(filters.limit ?? 200, 200),
+    )
+  }
+
+  public async claimReportJob(claim: ReportJobClaim): Promise<ReportGenerationJob | null> {
+    const [job] = Object.values(this.collections.reportJobs)
+      .filter((candidate) => isReportJobDue(candidate, claim.now, claim.jobId))
+      .sort((a, b) => reportJobDueAt(a) - reportJobDueAt(b) || a.createdAt.getTime() - b.createdAt.getTime())
+    if (!job) {
+      return null
+    }
+
+    job.status = 'processing'
+    job.attempts += 1
+    job.leaseExpiresAt = new Date(claim.now.getTime() + claim.leaseMs)
+    job.updatedAt = new Date()
+    await this.persist()
+    return clone(job)
+  }
+
+  public async updateReportJob(
+    jobId: string,
+    expected: ReportJobRevision,
+    input: UpdateReportJobInput,
+  ): Promise<ReportGenerationJob | null> {
+    const job = this.collections.reportJobs[jobId]
+    if (!job || job.status !== expected.status || job.attempts !== expected.attempts) {
+      return null
+    }
+
+    this.collections.reportJobs[jobId] = {
+      ...clone(input),
+      jobId,
+      inspectionId: job.inspectionId,
+      maxAttempts: job.maxAttempts,
+      createdAt: job.createdAt,
+      updatedAt: new Date(),
+    }
+    await this.persist()
+    return clone(this.collections.reportJobs[jobId])
+  }
+
+  public async createSiteAsset(input: Omit<SiteAsset, 'id' | 'createdAt' | 'updatedAt'>): Promise<SiteAsset> {
+    const now = new Date()
+    const asset: SiteAsset = { id: uuidv4(), ...input, createdAt: now, updatedAt: now }
+    this.collections.siteAssets[asset.id] = clone(asset)
+    await this.persist()
+    return asset
+  }
+
+  public async listSiteAssets(siteId: string): Promise<SiteAsset[]> {
+    return newestFirst(
+      Object.values(this.collections.siteAssets).filter((asset) => asset.siteId === siteId),
+      100,
+    )
+  }
+
+  public async getSiteAsset(assetId: string): Promise<SiteAsset | null> {
+    const asset = this.collections.siteAssets[assetId]
+    return asset ? clone(asset) : null
+  }
+
+  public async updateSiteAssetRisk(assetId: string, assessment: AssetRiskAssessment): Promise<void> {
+    const asset = this.collections.siteAssets[assetId]
+    if (!asset) {
+      throw new Error('Site asset not found')
+    }
+
+    asset.riskAssessment = clone(assessment)
+    await this.persist()
+  }
+
+  public async deleteSiteAsset(assetId: string): Promise<void> {
+    delete this.collections.siteAssets[assetId]
+    await this.persist()
+  }
+
+  public async createTimeEntry(input: Omit<TimeEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<TimeEntry> {
+    this.assertNoOtherRunningTimeEntry(input)
+    const now = new Date()
+    const entry: TimeEntry = { id: uuidv4(), ...input, createdAt: now, updatedAt: now }
+    this.collections.timeEntries[entry.id] = clone(entry)
+    await this.persist()
+    return entry
+  }
+
+  public async updateTimeEntry(entryId: string, input: UpdateTimeEntryInput): Promise<TimeEntry | null> {
+    const entry = this.collections.timeEntries[entryId]
+    if (!entry) {
+      return null
+    }
+    this.assertNoOtherRunningTimeEntry({ ...entry, status: input.status })
+
+    Object.assign(entry, clone(input), { updatedAt: new Date() })
+    await this.persist()
+    return clone(entry)
+  }
+
+  public async listTimeEntries(inspectionId: string): Promise<TimeEntry[]> {
+    return Object.values(this.collections.timeEntries)
+      .filter((entry) => entry.inspectionId === inspectionId)
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime())
+      .map(clone)
+  }
+
+  private assertNoOtherRunningTimeEntry(entry: Pick<TimeEntry, 'inspectionId' | 'status'> & { id?: string }): void {
+    const conflict =
+      entry.status === 'running' &&
+      Object.values(this.collections.timeEntries).some(
+        (other) => other.inspectionId === entry.inspectionId && other.status === 'running' && other.id !== entry.id,
+      )
+    if (conflict) {
+      throw runningTaskConflict(entry.inspectionId)
+    }
+  }
+
+  public async createPartOrder(input: Omit<PartOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<PartOrder> {
+    const now = new Date()
+    const order: PartOrder = { id: uuidv4(), ...input, createdAt: now, updatedAt: now }
+    this.collections.partOrders[order.id] = clone(order)
+    await this.persist()
+    return order
+  }
+
+  public async getPartOrderById(orderId: string): Promise<PartOrder | null> {
+    const order = this.collections.partOrders[orderId]
+    return order ? clone(order) : null
+  }
+
+  public async updatePartOrder(orderId: string, input: UpdatePartOrderInput): Promise<PartOrder | null> {
+    const order = this.collections.partOrders[orderId]
+    if (!order) {
+      return null
+    }
+
+    Object.assign(order, clone(input), { updatedAt: new Date() })
+    await this.persist()
+    return clone(order)
+  }
+
+  public async listPartOrders(filters: ListPartOrderFilters): Promise<PartOrder[]> {
+    return newestFirst(
+      Object.values(this.collections.partOrders).filter(
+        (order) =>
+          (!filters.inspectionId || order.inspectionId === filters.inspectionId) &&
+          (!filters.statuses?.length || filters.statuses.includes(order.status)),
+      ),
+      200,
+    )
+  }
+
+  public async createExpertContact(
+    input: Omit<ExpertContact, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<ExpertContact> {
+    const now = new Date()
+    const expert: ExpertContact = { id: uuidv4(), ...input, createdAt: now, updatedAt: now }
+    this.collections.expertContacts[expert.id] = clone(expert)
+    await this.persist()
+    return expert
+  }
+
+  public async listExpertContacts(): Promise<ExpertContact[]> {
+    return Object.values(this.collections.expertContacts)
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+      .slice(0, 200)
+      .map(clone)
+  }
+
+  public async updateExpertContactAvailability(
+    expertId: string,
+    availability: ExpertContact['availability'],
+  ): Promise<ExpertContact | null> {
+    const expert = this.collections.expertContacts[expertId]
+    if (!expert) {
+      return null
+    }
+
+    expert.availability = availability
+    expert.updatedAt = new Date()
+    await this.persist()
+    return clone(expert)
+  }
+
+  public async createExpertEscalation(
+    input: Omit<ExpertEscalation, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<ExpertEscalation> {
+    const now = new Date()
+    const escalation: ExpertEscalation = { id: uuidv4(), ...input, createdAt: now, updatedAt: now }
+    this.collections.expertEscalations[escalation.id] = clone(escalation)
+    await this.persist()
+    return escalation
+  }
+
+  public async getExpertEscalationById(escalationId: string): Promise<ExpertEscalation | null> {
+    const escalation = this.collections.expertEscalations[escalationId]
+    return escalation ? clone(escalation) : null
+  }
+
+  public async updateExpertEscalation(
+    escalationId: string,
+    expected: ExpertEscalationRevision,
+    input: UpdateExpertEscalationInput,
+  ): Promise<ExpertEscalation | null> {
+    const escalation = this.collections.expertEscalations[escalationId]
+    if (
+      !escalation ||
+      escalation.status !== expected.status ||
+      escalation.assignedExpertId !== expected.assignedExpertId
+    ) {
+      return null
+    }
+
+    Object.assign(escalation, clone(input), { updatedAt: new Date() })
+    await this.persist()
+    return clone(escalation)
+  }
+
+  public async listExpertEscalations(filters: ListExpertEscalationFilters): Promise<ExpertEscalation[]> {
+    return newestFirst(
+      Object.values(this.collections.expertEscalations).filter(
+        (escalation) =>
+          (!filters.inspectionId || escalation.inspectionId === filters.inspectionId) &&
+          (!filters.statuses?.length || filters.statuses.includes(escalation.status)),
+      ),
+      200,
+    )
+  }
+
+  public async createShareSession(input: Omit<ShareSession, 'id' | 'createdAt'>): Promise<ShareSession> {
+    const session: ShareSession = { id: uuidv4(), ...input, createdAt: new Date() }
+    this.collections.shareSessions[session.id] = clone(session)
+    await this.persist()
+    return session
+  }
+
+  public async getShareSessionById(sessionId: string): Promise<ShareSession | null> {
+    const session = this.collections.shareSessions[sessionId]
+    return session ? clone(session) : null
+  }
+
+  public async updateShareSessionStatus(
+    sessionId: string,
+    status: ShareSessionStatus,
+    endedAt?: Date,
+  ): Promise<ShareSession | null> {
+    const session = this.collections.shareSessions[sessionId]
+    if (!session) {
+      return null
+    }
+
+    session.status = status
+    session.endedAt = endedAt ? new Date(endedAt) : undefined
+    await this.persist()
+    return clone(session)
+  }
+
+  public async listShareSessions(filters: ListShareSessionFilters): Promise<ShareSession[]> {
+    return newestFirst(
+      Object.values(this.collections.shareSessions).filter(
+        (session) =>
+          (!filters.inspectionId || session.inspectionId === filters.inspectionId) &&
+          (!filters.statuses?.length || filters.statuses.includes(session.status)),
+      ),
+      200,
+    )
+  }
+
+  public async createAnnotation(
+    input: Omit<InspectionAnnotation, 'id' | 'createdAt'>,
+  ): Promise<InspectionAnnotation> {
+    const annotation: InspectionAnnotation = { id: uuidv4(), ...input, createdAt: new Date() }
+    this.collections.annotations[annotation.id] = clone(annotation)
+    await this.persist()
+    return annotation
+  }
+
+  public async listAnnotations(inspectionId: string): Promise<InspectionAnnotation[]> {
+    return Object.values(this.collections.annotations)
+      .filter((annotation) => annotation.inspectionId === inspectionId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(clone)
+  }
+
+  public async deleteAnnotation(inspectionId: string, annotationId: string): Promise<boolean> {
+    const annotation = this.collections.annotations[annotationId]
+    if (!annotation || annotation.inspectionId !== inspectionId) {
+      return false
+    }
+
+    delete this.collections.annotations[annotationId]
+    await this.persist()
+    return true
+  }
+
+  public async createChecklistTemplate(
+    input: Omit<ChecklistTemplate, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<ChecklistTemplate> {
+    const now = new Date()
+    const template: ChecklistTemplate = { id: uuidv4(), ...input, createdAt: now, updatedAt: now }
+    this.collections.checklistTemplates[template.id] = clone(template)
+    await this.persist()
+    return template
+  }
+
+  public async getChecklistTemplate(templateId: string): Promise<ChecklistTemplate | null> {
+    const template = this.collections.checklistTemplates[templateId]
+    return template ? clone(template) : null
+  }
+
+  public async listChecklistTemplates(siteType?: ChecklistTemplate['siteType']): Promise<ChecklistTemplate[]> {
+    const templates = Object.values(this.collections.checklistTemplates).filter(
+      (template) => !siteType || template.siteType === siteType,
+    )
+    return newestFirst(templates, templates.length)
+  }
+
+  public async deleteChecklistTemplate(templateId: string): Promise<boolean> {
+    if (!this.collections.checklistTemplates[templateId]) {
+      return false
+    }
+
+    delete this.collections.checklistTemplates[templateId]
+    await this.persist()
+    return true
+  }
+
+  public async appendAuditEntry(entry: AuditEntry): Promise<void> {
+    const key = String(entry.sequence)
+    if (this.collections.auditLog[key]) {
+      throw new AuditSequenceConflictError(entry.sequence)
+    }
+    this.collections.auditLog[key] = clone(entry)
+    await this.persist()
+  }
+
+  public async getLatestAuditEntry(): Promise<AuditEntry | null> {
+    const entries = Object.values(this.collections.auditLog)
+    const latest = entries.reduce<AuditEntry | null>(
+      (current, entry) => (!current || entry.sequence > current.sequence ? entry : current),
+      null,
+    )
+    return latest ? this.readAuditEntry(latest) : null
+  }
+
+  public async listAuditEntries(query: AuditLogQuery): Promise<AuditEntry[]> {
+    return Object.values(this.collections.auditLog)
+      .filter(
+        (entry) =>
+          (query.afterSequence === undefined || entry.sequence > query.afterSequence) &&
+          (!query.actorUid || entry.actor?.uid === query.actorUid) &&
+          (!query.action || entry.action === query.action) &&
+          (!query.entityType || entry.entityType === query.entityType) &&
+          (!query.entityId || entry.entityId === query.entityId) &&
+          (!query.from || entry.occurredAt >= query.from) &&
+          (!query.to || entry.occurredAt <= query.to),
+      )
+      .sort((a, b) => a.sequence - b.sequence)
+      .slice(0, normalizeAuditPageSize(query.limit))
+      .map((entry) => this.readAuditEntry(entry))
+  }
+
+  public async listArchiveRecords<T extends ArchiveRecordType>(
+    type: T,
+    afterId: string | null,
+    limit: number,
+  ): Promise<Array<ArchiveRecordMap[T]>> {
+    const records = this.collections[ARCHIVE_COLLECTIONS[type]] as Record<string, ArchiveRecordMap[T]>
+    return Object.keys(records)
+      .filter((id) => afterId === null || id > afterId)
+      .sort()
+      .slice(0, limit)
+      .map((id) => clone(records[id]))
+  }
+
+  public async getArchiveRecord<T extends ArchiveRecordType>(type: T, id: string): Promise<ArchiveRecordMap[T] | null> {
+    const record = (this.collections[ARCHIVE_COLLECTIONS[type]] as Record<string, ArchiveRecordMap[T]>)[id]
+    return record ? clone(record) : null
+  }
+
+  public async putArchiveRecord<T extends ArchiveRecordType>(type: T, record: ArchiveRecordMap[T]): Promise<void> {
+    const id = archiveRecordId(type, record)
+    ;(this.collections[ARCHIVE_COLLECTIONS[type]] as Record<string, ArchiveRecordMap[T]>)[id] = clone(record)
+    await this.persist()
+  }
+
+  private filterInspections(filters: ListInspectionFilters): Inspection[] {
+    return Object.values(this.collections.inspections).filter(
+      (inspection) =>
+        (!filters.technicianId || inspection.technicianId === filters.technicianId) &&
+        (!filters.siteId || inspection.siteId === filters.siteId) &&
+        (!filters.assetId || inspection.assetIds.includes(filters.assetId)) &&
+        (!filters.status || inspection.status === filters.status),
+    )
+  }
+
+  /** The stored inspection with its version already bumped for the write the caller is about to make. */
+  private inspectionForWrite(inspectionId: string, expectedVersion?: number): Inspection {
+    const inspection = this.collections.inspections[inspectionId]
+    if (!inspection) {
+      throw new Error('Inspection not found')
+    }
+    assertInspectionVersion(inspection.version, expectedVersion)
+    inspection.version += 1
+    return inspection
+  }
+
+  private reportVersionsOf(inspectionId: string): InspectionReport[] {
+    return Object.values(this.collections.inspectionReports)
+      .filter((report) => report.inspectionId === inspectionId)
+      .sort((a, b) => a.version - b.version)
+  }
+
+  private transcriptEntriesOf(inspectionId: string): TranscriptEntry[] {
+    return Object.values(this.collections.transcriptEntries)
+      .filter((entry) => entry.inspectionId === inspectionId)
+      .sort((a, b) => a.sequence - b.sequence)
+  }
+
+  /** Snapshot loading revives date-named keys inside change values too; put them back to stored JSON form. */
+  private readAuditEntry(entry: AuditEntry): AuditEntry {
+    return { ...clone(entry), actor: toAuditJson(entry.actor), changes: toAuditJson(entry.changes) }
+  }
+
+  private loadSnapshot(): MemoryStore {
+    const store: MemoryStore = {
+      organizations: {},
+      partitions: { [DEFAULT_ORGANIZATION_ID]: emptyCollections() },
+      views: new Map(),
+      pendingWrite: Promise.resolve(),
+    }
+    if (!this.snapshotPath || !existsSync(this.snapshotPath)) {
+      return store
+    }
+
+    const { organizations, organizationData, ...defaultData } = JSON.parse(
+      readFileSync(this.snapshotPath, 'utf8'),
+      (key, value: unknown) => (SNAPSHOT_DATE_KEYS.has(key) && typeof value === 'string' ? new Date(value) : value),
+    ) as MemorySnapshot
+    store.organizations = organizations ?? {}
+    store.partitions[DEFAULT_ORGANIZATION_ID] = this.upgradeSnapshot({ ...emptyCollections(), ...defaultData })
+    for (const [organizationId, collections] of Object.entries(organizationData ?? {})) {
+      store.partitions[organizationId] = this.upgradeSnapshot({ ...emptyCollections(), ...collections })
+    }
+    return store
+  }
+
+  /** Brings snapshots written before transcript entries, inspection versions and report versions up to date. */
+  private upgradeSnapshot(collections: MemoryCollections): MemoryCollections {
+    const withEntries = new Set(Object.values(collections.transcriptEntries).map((entry) => entry.inspectionId))
+    for (const inspection of Object.values(collections.inspections)) {
+      inspection.version = inspection.version ?? 1
+      if (withEntries.has(inspection.id)) {
+        continue
+      }
+      for (const entry of parseLegacyTranscript(inspection.id, inspection.transcript, inspection.timestamp)) {
+        collections.transcriptEntries[entry.id] = entry
+      }
+    }
+    const reports = Object.values(collections.inspectionReports)
+    collections.inspectionReports = {}
+    for (const report of reports) {
+      report.transcriptExcerpt = report.transcriptExcerpt ?? []
+      // Reports from before versioning were keyed by inspection id alone and become version 1
+      report.version = report.version ?? 1
+      report.contentHash = report.contentHash ?? reportContentHash(report)
+      collections.inspectionReports[reportVersionId(report.inspectionId, report.version)] = report
+    }
+    return collections
+  }
+
+  /** Writes are queued so snapshots land in order; each goes to a temp file first so a crash never truncates it. */
+  private persist(): Promise<void> {
+    const snapshotPath = this.snapshotPath
+    if (!snapshotPath) {
+      return Promise.resolve()
+    }
+
+    const { [DEFAULT_ORGANIZATION_ID]: defaultData, ...organizationData } = this.store.partitions
+    const snapshot: MemorySnapshot = { ...defaultData, organizations: this.store.organizations, organizationData }
+    const contents = JSON.stringify(snapshot)
+    this.store.pendingWrite = this.store.pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        await writeFile(`${snapshotPath}.tmp`, contents, 'utf8')
+        await rename(`${snapshotPath}.tmp`, snapshotPath)
+      })
+    return this.store.pendingWrite
+  }
+}
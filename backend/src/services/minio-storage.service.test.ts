@@ -1,11 +1,15 @@
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3'
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectsCommand } from '@aws-sdk/client-s3'
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
 import { MinioStorageService } from './minio-storage.service'
 
+const mockSend = jest.fn()
+
 jest.mock('@aws-sdk/client-s3', () => ({
-  S3Client: jest.fn().mockImplementation((config) => ({ config })),
+  S3Client: jest.fn().mockImplementation((config) => ({ config, send: mockSend })),
   PutObjectCommand: jest.fn().mockImplementation((input) => ({ input })),
   GetObjectCommand: jest.fn().mockImplementation((input) => ({ input })),
+  ListObjectsV2Command: jest.fn().mockImplementation((input) => ({ input })),
+  DeleteObjectsCommand: jest.fn().mockImplementation((input) => ({ input })),
 }))
 
 jest.mock('@aws-sdk/s3-request-presigner', () => ({
@@ -93,4 +97,47 @@ describe('MinioStorageService', () => {
     expect(result.url).toBe('https://signed.example/read')
     expect(result.expiresAt).toBeDefined()
   })
+
+  it('should delete every listed snapshot of an inspection, page by page', async () => {
+    process.env.MINIO_BUCKET_NAME = 'fieldsight-dev'
+    process.env.MINIO_ACCESS_KEY = 'minio'
+    process.env.MINIO_SECRET_KEY = 'miniopass'
+
+    mockSend
+      .mockResolvedValueOnce({
+        Contents: [{ Key: 'inspections/insp-44/images/a.jpg' }],
+        IsTruncated: true,
+        NextContinuationToken: 'page-2',
+      })
+      .mockResolvedValueOnce({})
+      .mockResolvedValueOnce({ Contents: [{ Key: 'inspections/insp-44/images/b.jpg' }], IsTruncated: false })
+      .mockResolvedValueOnce({})
+    const service = new MinioStorageService()
+
+    await expect(service.deleteInspectionImages('insp-44')).resolves.toBe(2)
+    expect(mockSend.mock.calls[2][0].input).toEqual({
+      Bucket: 'fieldsight-dev',
+      Prefix: 'inspections/insp-44/images/',
+      ContinuationToken: 'page-2',
+    })
+    expect(DeleteObjectsCommand).toHaveBeenLastCalledWith({
+      Bucket: 'fieldsight-dev',
+      Delete: { Objects: [{ Key: 'inspections/insp-44/images/b.jpg' }], Quiet: true },
+    })
+  })
+
+  it('should read an object into a buffer', async () => {
+    process.env.MINIO_BUCKET_NAME = 'fieldsight-dev'
+    process.env.MINIO_ACCESS_KEY = 'minio'
+    process.env.MINIO_SECRET_KEY = 'miniopass'
+
+    mockSend.mockResolvedValueOnce({ Body: { transformToByteArray: async () => new Uint8Array([1, 2, 3]) } })
+    const service = new MinioStorageService()
+
+    await expect(service.readObject('inspections/insp-44/images/a.jpg')).resolves.toEqual(Buffer.from([1, 2, 3]))
+    expect(GetObjectCommand).toHaveBeenLastCalledWith({
+      Bucket: 'fieldsight-dev',
+      Key: 'inspections/insp-44/images/a.jpg',
+    })
+  })
 })
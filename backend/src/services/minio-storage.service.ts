@@ -1,6 +1,8 @@
 import {
   S3Client,
+  DeleteObjectsCommand,
   GetObjectCommand,
+  ListObjectsV2Command,
 } from '@aws-sdk/client-s3'
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
 import { PutObjectCommand } from '@aws-sdk/client-s3'
@@ -113,4 +115,46 @@ export class MinioStorageService {
       expiresAt: new Date(expiresMs).toISOString(),
     }
   }
+
+  public async readObject(objectPath: string): Promise<Buffer> {
+    if (!this.isConfigured()) {
+      throw new Error('MinIO is not configured')
+    }
+
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucketName, Key: objectPath }))
+    if (!response.Body) {
+      throw new Error(`Object ${objectPath} has no body`)
+    }
+    return Buffer.from(await response.Body.transformToByteArray())
+  }
+
+  /** Deletes every snapshot uploaded for the inspection and returns how many objects were removed. */
+  public async deleteInspectionImages(inspectionId: string): Promise<number> {
+    if (!this.isConfigured()) {
+      throw new Error('MinIO is not configured')
+    }
+
+    let deleted = 0
+    let continuationToken: string | undefined
+    do {
+      // A listing page holds at most 1000 keys, which is also the DeleteObjects limit
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: `inspections/${inspectionId}/images/`,
+          ContinuationToken: continuationToken,
+        }),
+      )
+      const keys = (page.Contents ?? []).flatMap((object) => (object.Key ? [{ Key: object.Key }] : []))
+      if (keys.length > 0) {
+        await this.client.send(
+          new DeleteObjectsCommand({ Bucket: this.bucketName, Delete: { Objects: keys, Quiet: true } }),
+        )
+        deleted += keys.length
+      }
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined
+    } while (continuationToken)
+
+    return deleted
+  }
 }
@@ -0,0 +1,32 @@
+import { MemoryDataService } from './memory-data.service'
+import {
+  createOrganizationScopedDataService,
+  OrganizationScopeError,
+  runInOrganization,
+} from './organization-context'
+
+describe('createOrganizationScopedDataService', () => {
+  it('resolves every call against the organization in scope', async () => {
+    const directory = new MemoryDataService()
+    await directory.createOrganization({ id: 'acme', name: 'Acme' })
+    const dataService = createOrganizationScopedDataService(directory)
+
+    const inspection = await runInOrganization('acme', () =>
+      dataService.createInspection({ technicianId: 'tech-1', siteId: 'site-1' }),
+    )
+
+    await expect(
+      runInOrganization('acme', () => dataService.getInspectionById(inspection.id)),
+    ).resolves.toMatchObject({ id: inspection.id })
+    await expect(
+      runInOrganization('default', () => dataService.getInspectionById(inspection.id)),
+    ).resolves.toBeNull()
+  })
+
+  it('refuses calls made outside any organization and invalid organization ids', async () => {
+    const dataService = createOrganizationScopedDataService(new MemoryDataService())
+
+    expect(() => dataService.listSites()).toThrow(OrganizationScopeError)
+    expect(() => runInOrganization('Not An Id', () => undefined)).toThrow(OrganizationScopeError)
+  })
+})
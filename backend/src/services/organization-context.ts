@@ -0,0 +1,94 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import type { DataService, OrganizationDirectory } from './data-service'
+import type { Organization } from '../types'
+
+export const DEFAULT_ORGANIZATION_ID = 'default'
+
+const ORGANIZATION_ID_PATTERN = /^[a-z][a-z0-9-]{1,38}[a-z0-9]$/
+
+export class OrganizationScopeError extends Error {
+  constructor(message = 'No organization is in scope') {
+    super(message)
+    this.name = 'OrganizationScopeError'
+  }
+}
+
+export class OrganizationExistsError extends Error {
+  constructor(organizationId: string) {
+    super(`Organization ${organizationId} already exists`)
+    this.name = 'OrganizationExistsError'
+  }
+}
+
+/** Runs a task in each organization scope that applies; background jobs pass one that visits every organization. */
+export type ScopedTaskRunner = (task: () => Promise<unknown>) => Promise<void>
+
+export const runInCurrentScope: ScopedTaskRunner = async (task) => {
+  await task()
+}
+
+const scope = new AsyncLocalStorage<string>()
+
+/** 3-40 lowercase letters, digits and hyphens, starting with a letter. */
+export function isOrganizationId(value: string): boolean {
+  return ORGANIZATION_ID_PATTERN.test(value)
+}
+
+export function assertOrganizationId(value: string): void {
+  if (!isOrganizationId(value)) {
+    throw new OrganizationScopeError(`Invalid organization id: ${value}`)
+  }
+}
+
+/** Runs `task`, and everything it schedules, inside one organization's scope. */
+export function runInOrganization<T>(organizationId: string, task: () => T): T {
+  assertOrganizationId(organizationId)
+  return scope.run(organizationId, task)
+}
+
+/** Null outside any scope, e.g. in unit tests that use a data service directly. */
+export function currentOrganizationId(): string | null {
+  return scope.getStore() ?? null
+}
+
+export function requireOrganizationId(): string {
+  const organizationId = scope.getStore()
+  if (!organizationId) {
+    throw new OrganizationScopeError()
+  }
+  return organizationId
+}
+
+/** What the default organization looks like until its name or settings are first saved. */
+export function defaultOrganization(): Organization {
+  return {
+    id: DEFAULT_ORGANIZATION_ID,
+    name: 'Default organization',
+    settings: {},
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  }
+}
+
+/**
+ * A data service that resolves every call against the organization in
+ * scope, so code holding it has no way to name another organization. Calls
+ * made outside any scope throw `OrganizationScopeError` instead of falling
+ * back to a default.
+ */
+export function createOrganizationScopedDataService(directory: OrganizationDirectory): DataService {
+  return new Proxy({} as DataService, {
+    get: (_target, property) => {
+      if (property === 'ready' || property === 'close') {
+        return directory[property]?.bind(directory)
+      }
+      // Keeps the proxy from looking like a promise or leaking through symbol lookups
+      if (typeof property !== 'string' || property === 'then') {
+        return undefined
+      }
+      const scoped = directory.forOrganization(requireOrganizationId()) as unknown as Record<string, unknown>
+      const value = scoped[property]
+      return typeof value === 'function' ? value.bind(scoped) : value
+    },
+  })
+}
@@ -0,0 +1,167 @@
+import {
+  PartOrderTransitionError,
+  PartsOrderingService,
+  summarizeOpenPartOrders,
+} from './parts-ordering.service'
+import type { DataService } from './data-service'
+import { runInOrganization } from './organization-context'
+import type { Inspection, PartOrder } from '../types'
+
+function createDataService(): Pick<
+  DataService,
+  'getInspectionById' | 'createPartOrder' | 'getPartOrderById' | 'updatePartOrder' | 'listPartOrders'
+> {
+  const orders = new Map<string, PartOrder>()
+  let nextId = 1
+
+  return {
+    async getInspectionById(id: string) {
+      return id === 'insp-1' ? ({ id, technicianId: 'tech-1' } as Inspection) : null
+    },
+    async createPartOrder(input) {
+      const order: PartOrder = {
+        id: `order-${nextId++}`,
+        ...input,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }
+      orders.set(order.id, order)
+      return order
+    },
+    async getPartOrderById(orderId) {
+      return orders.get(orderId) || null
+    },
+    async updatePartOrder(orderId, input) {
+      const current = orders.get(orderId)
+      if (!current) {
+        return null
+      }
+      const updated = { ...current, ...input, updatedAt: new Date() }
+      orders.set(orderId, updated)
+      return updated
+    },
+    async listPartOrders(filters) {
+      return Array.from(orders.values()).filter(
+        (order) =>
+          (!filters.inspectionId || order.inspectionId === filters.inspectionId) &&
+          (!filters.statuses || filters.statuses.includes(order.status)),
+      )
+    },
+  }
+}
+
+describe('PartsOrderingService', () => {
+  const envKeys = ['PARTS_ORDER_WEBHOOK', 'PARTS_ORDER_PROVIDER', 'PARTS_ORDER_CALLBACK_TOKEN'] as const
+  const originalEnv = Object.fromEntries(envKeys.map((key) => [key, process.env[key]]))
+  const originalFetch = global.fetch
+
+  afterEach(() => {
+    for (const key of envKeys) {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = originalEnv[key]
+      }
+    }
+    global.fetch = originalFetch
+  })
+
+  it('keeps orders pending with a note when no supplier webhook is configured', async () => {
+    delete process.env.PARTS_ORDER_WEBHOOK
+    const service = new PartsOrderingService(createDataService())
+
+    const order = await service.orderPart('insp-1', 'PUMP-SEAL-3', 2, 'urgent')
+
+    expect(order.status).toBe('pending')
+    expect(order.statusNote).toContain('No supplier webhook configured')
+    expect(await service.listOpenOrders('insp-1')).toHaveLength(1)
+  })
+
+  it('submits a Coupa requisition and stores the supplier reference', async () => {
+    process.env.PARTS_ORDER_WEBHOOK = 'https://supplier.example.com/requisitions'
+    process.env.PARTS_ORDER_PROVIDER = 'coupa'
+    const fetchMock = jest.fn(async () => new Response(JSON.stringify({ id: 4821 }), { status: 201 }))
+    global.fetch = fetchMock as unknown as typeof fetch
+    const service = new PartsOrderingService(createDataService())
+
+    const order = await service.orderPart('insp-1', 'GASKET-9', 1)
+
+    expect(order.status).toBe('ordered')
+    expect(order.supplierProvider).toBe('coupa')
+    expect(order.externalReferenceId).toBe('4821')
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    const payload = JSON.parse(String(init.body)) as Record<string, unknown>
+    expect(payload['external-ref-num']).toBe(order.id)
+    expect(payload['requisition-lines']).toEqual([
+      expect.objectContaining({ 'source-part-num': 'GASKET-9', quantity: 1 }),
+    ])
+  })
+
+  it('moves orders through the lifecycle and rejects invalid transitions', async () => {
+    delete process.env.PARTS_ORDER_WEBHOOK
+    const service = new PartsOrderingService(createDataService())
+    const order = await service.orderPart('insp-1', 'VALVE-2', 1)
+
+    await service.applyStatusUpdate(order.id, { status: 'ordered', externalReferenceId: 'PO-1' })
+    const shipped = await service.applyStatusUpdate(order.id, { status: 'shipped', note: 'On the truck' })
+
+    expect(shipped.status).toBe('shipped')
+    expect(shipped.externalReferenceId).toBe('PO-1')
+    await expect(service.cancelOrder(order.id)).rejects.toBeInstanceOf(PartOrderTransitionError)
+    await expect(service.applyStatusUpdate('missing', { status: 'ordered' })).rejects.toThrow(
+      'Part order not found',
+    )
+  })
+
+  it('verifies callback tokens against the organization in scope', () => {
+    const service = new PartsOrderingService(createDataService())
+    delete process.env.PARTS_ORDER_CALLBACK_TOKEN
+    expect(service.isCallbackConfigured()).toBe(false)
+    expect(service.callbackTokenFor('acme')).toBeNull()
+
+    process.env.PARTS_ORDER_CALLBACK_TOKEN = 'secret-token'
+    const acmeToken = service.callbackTokenFor('acme') as string
+    expect(runInOrganization('acme', () => service.verifyCallbackToken(acmeToken))).toBe(true)
+    expect(runInOrganization('globex', () => service.verifyCallbackToken(acmeToken))).toBe(false)
+    expect(service.verifyCallbackToken(acmeToken)).toBe(false)
+    expect(service.verifyCallbackToken(service.callbackTokenFor('default') as string)).toBe(true)
+    expect(service.verifyCallbackToken('secret-token')).toBe(false)
+    expect(service.verifyCallbackToken(undefined)).toBe(false)
+  })
+
+  it('sends suppliers the ordering organization and its callback token', async () => {
+    process.env.PARTS_ORDER_WEBHOOK = 'https://supplier.example.com/orders'
+    process.env.PARTS_ORDER_CALLBACK_TOKEN = 'secret-token'
+    const fetchMock = jest.fn(async () => new Response('{}', { status: 201 }))
+    global.fetch = fetchMock as unknown as typeof fetch
+    const service = new PartsOrderingService(createDataService())
+
+    await runInOrganization('acme', () => service.orderPart('insp-1', 'GASKET-9', 1))
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    expect(init.headers).toEqual(
+      expect.objectContaining({
+        'X-Organization-Id': 'acme',
+        'X-Callback-Token': service.callbackTokenFor('acme'),
+      }),
+    )
+  })
+
+  it('summarizes only open orders for reports', () => {
+    const base = {
+      inspectionId: 'insp-1',
+      quantity: 1,
+      urgency: 'routine' as const,
+      supplierProvider: 'generic' as const,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    expect(
+      summarizeOpenPartOrders([
+        { ...base, id: 'order-1', partNumber: 'A-1', status: 'ordered', externalReferenceId: 'PO-9' },
+        { ...base, id: 'order-2', partNumber: 'B-2', status: 'delivered' },
+      ]),
+    ).toEqual(['ORDERED - A-1 x1 [routine] (PO-9)'])
+  })
+})
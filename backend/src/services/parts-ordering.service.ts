@@ -1,16 +1,7 @@
-export interface PartOrder {
-  id: string
-  inspectionId: string
-  partNumber: string
-  quantity: number
-  urgency: 'routine' | 'urgent' | 'critical'
-  status: 'pending' | 'ordered' | 'shipped' | 'delivered' | 'cancelled'
-  notes?: string
-  createdAt: string
-  updatedAt: string
-  externalReferenceId?: string
-  estimatedDelivery?: string
-}
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { DataService, UpdatePartOrderInput } from './data-service'
+import { currentOrganizationId, DEFAULT_ORGANIZATION_ID } from './organization-context'
+import type { PartOrder, PartOrderStatus, PartsSupplierProvider } from '../types'
 
 export interface PartAvailability {
   partNumber: string
@@ -21,144 +12,461 @@ export interface PartAvailability {
   price?: number
 }
 
+export interface PartOrderStatusUpdate {
+  status: PartOrderStatus
+  note?: string
+  externalReferenceId?: string
+  estimatedDelivery?: Date
+}
+
+type PartsAuthType = 'none' | 'bearer' | 'basic'
+
+export interface PartsSupplierConfig {
+  url?: string
+  provider: PartsSupplierProvider
+  authType: PartsAuthType
+  authToken?: string
+  authUsername?: string
+  authPassword?: string
+  accountCode?: string
+}
+
+export interface SupplierSubmissionResult {
+  externalReferenceId?: string
+  estimatedDelivery?: Date
+}
+
+/**
+ * Translates an order into a supplier-specific request body and reads the
+ * supplier's reference back out of its response.
+ */
+export interface PartsSupplierAdapter {
+  buildOrderPayload: (order: PartOrder, config: PartsSupplierConfig) => Record<string, unknown>
+  parseOrderResponse: (body: Record<string, unknown> | null) => SupplierSubmissionResult
+}
+
+type PartsOrderingDataService = Pick<
+  DataService,
+  'getInspectionById' | 'createPartOrder' | 'getPartOrderById' | 'updatePartOrder' | 'listPartOrders'
+>
+
+export const OPEN_PART_ORDER_STATUSES: PartOrderStatus[] = ['pending', 'ordered', 'shipped']
+
+const ALLOWED_TRANSITIONS: Record<PartOrderStatus, PartOrderStatus[]> = {
+  pending: ['ordered', 'cancelled'],
+  ordered: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+}
+
+const DELIVERY_DAYS_BY_URGENCY: Record<PartOrder['urgency'], number> = {
+  critical: 1,
+  urgent: 3,
+  routine: 7,
+}
+
+export function summarizeOpenPartOrders(orders: PartOrder[]): string[] {
+  return orders
+    .filter((order) => OPEN_PART_ORDER_STATUSES.includes(order.status))
+    .map((order) => {
+      const reference = order.externalReferenceId ? ` (${order.externalReferenceId})` : ''
+      const eta = order.estimatedDelivery ? `, ETA ${order.estimatedDelivery.toISOString().slice(0, 10)}` : ''
+      return `${order.status.toUpperCase()} - ${order.partNumber} x${order.quantity} [${order.urgency}]${reference}${eta}`
+    })
+}
+
+export class PartOrderTransitionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PartOrderTransitionError'
+  }
+}
+
+class PartsSupplierError extends Error {
+  constructor(
+    message: string,
+    public readonly retriable: boolean,
+  ) {
+    super(message)
+    this.name = 'PartsSupplierError'
+  }
+}
+
+function readString(body: Record<string, unknown> | null, keys: string[]): string | undefined {
+  if (!body) {
+    return undefined
+  }
+  for (const key of keys) {
+    const value = body[key]
+    if (typeof value === 'string' && value.trim().length > 0) {
+      return value.trim()
+    }
+    if (typeof value === 'number') {
+      return String(value)
+    }
+  }
+  return undefined
+}
+
+function readDate(body: Record<string, unknown> | null, keys: string[]): Date | undefined {
+  const raw = readString(body, keys)
+  if (!raw) {
+    return undefined
+  }
+  const parsed = new Date(raw)
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed
+}
+
+const genericAdapter: PartsSupplierAdapter = {
+  buildOrderPayload: (order) => ({
+    event: 'part_order',
+    orderId: order.id,
+    inspectionId: order.inspectionId,
+    partNumber: order.partNumber,
+    quantity: order.quantity,
+    urgency: order.urgency,
+    notes: order.notes,
+    requestedDelivery: order.estimatedDelivery?.toISOString(),
+  }),
+  parseOrderResponse: (body) => ({
+    externalReferenceId: readString(body, ['externalReferenceId', 'referenceId', 'orderId', 'id']),
+    estimatedDelivery: readDate(body, ['estimatedDelivery', 'deliveryDate']),
+  }),
+}
+
+const sapAribaAdapter: PartsSupplierAdapter = {
+  buildOrderPayload: (order, config) => ({
+    Name: `FieldSight ${order.partNumber} for inspection ${order.inspectionId}`,
+    ExternalId: order.id,
+    ImportedNeedByDate: order.estimatedDelivery?.toISOString(),
+    LineItems: [
+      {
+        NumberInCollection: 1,
+        Description: order.notes || `Replacement part ${order.partNumber}`,
+        SupplierPartNumber: order.partNumber,
+        Quantity: order.quantity,
+        AccountingCode: config.accountCode,
+        Priority: order.urgency === 'routine' ? 'Normal' : 'High',
+      },
+    ],
+  }),
+  parseOrderResponse: (body) => ({
+    externalReferenceId: readString(body, ['UniqueName', 'RequisitionId', 'ID', 'id']),
+    estimatedDelivery: readDate(body, ['NeedByDate', 'ImportedNeedByDate']),
+  }),
+}
+
+const coupaAdapter: PartsSupplierAdapter = {
+  buildOrderPayload: (order, config) => ({
+    'external-ref-num': order.id,
+    justification: order.notes || `Inspection ${order.inspectionId} requires ${order.partNumber}`,
+    'requisition-lines': [
+      {
+        'line-num': 1,
+        description: `Replacement part ${order.partNumber}`,
+        'source-part-num': order.partNumber,
+        quantity: order.quantity,
+        'need-by-date': order.estimatedDelivery?.toISOString(),
+        account: config.accountCode ? { code: config.accountCode } : undefined,
+      },
+    ],
+  }),
+  parseOrderResponse: (body) => ({
+    externalReferenceId: readString(body, ['id', 'requisition-id']),
+    estimatedDelivery: readDate(body, ['need-by-date']),
+  }),
+}
+
 export class PartsOrderingService {
-  private readonly webhookUrl: string | undefined
-  private orders: Map<string, PartOrder> = new Map()
+  private readonly requestTimeoutMs = 5000
+  private readonly maxSupplierAttempts = 3
+  private readonly baseRetryDelayMs = 150
+  private readonly dataService: PartsOrderingDataService
+  private readonly adapters: Record<PartsSupplierProvider, PartsSupplierAdapter>
 
-  constructor() {
-    this.webhookUrl = process.env.PARTS_ORDER_WEBHOOK?.trim()
+  constructor(
+    dataService: PartsOrderingDataService,
+    adapters: Partial<Record<PartsSupplierProvider, PartsSupplierAdapter>> = {},
+  ) {
+    this.dataService = dataService
+    this.adapters = {
+      generic: genericAdapter,
+      sap_ariba: sapAribaAdapter,
+      coupa: coupaAdapter,
+      ...adapters,
+    }
   }
 
   public async orderPart(
     inspectionId: string,
     partNumber: string,
     quantity: number,
-    urgency: 'routine' | 'urgent' | 'critical' = 'routine',
-    notes?: string
+    urgency: PartOrder['urgency'] = 'routine',
+    notes?: string,
+    supplierProvider?: PartsSupplierProvider,
   ): Promise<PartOrder> {
-    const orderId = `order_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
-
-    const now = new Date()
-    let estimatedDelivery: string | undefined
-
-    switch (urgency) {
-      case 'critical':
-        estimatedDelivery = new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString()
-        break
-      case 'urgent':
-        estimatedDelivery = new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000).toISOString()
-        break
-      default:
-        estimatedDelivery = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000).toISOString()
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      throw new Error('Inspection not found')
     }
 
-    const order: PartOrder = {
-      id: orderId,
+    const config = this.resolveSupplierConfig(supplierProvider)
+    const estimatedDelivery = new Date(Date.now() + DELIVERY_DAYS_BY_URGENCY[urgency] * 24 * 60 * 60 * 1000)
+
+    const order = await this.dataService.createPartOrder({
       inspectionId,
       partNumber,
       quantity,
       urgency,
       status: 'pending',
+      supplierProvider: config.provider,
       notes,
-      createdAt: now.toISOString(),
-      updatedAt: now.toISOString(),
       estimatedDelivery,
-    }
-
-    this.orders.set(orderId, order)
+    })
 
-    await this.sendOrderToSupplier(order)
+    return this.submitToSupplier(order, config)
+  }
 
-    return order
+  public async getOrder(orderId: string): Promise<PartOrder | null> {
+    return this.dataService.getPartOrderById(orderId)
   }
 
-  public getOrder(orderId: string): PartOrder | undefined {
-    return this.orders.get(orderId)
+  public async getOrdersForInspection(inspectionId: string): Promise<PartOrder[]> {
+    return this.dataService.listPartOrders({ inspectionId })
   }
 
-  public getOrdersForInspection(inspectionId: string): PartOrder[] {
-    return Array.from(this.orders.values()).filter(
-      (order) => order.inspectionId === inspectionId
-    )
+  public async listOpenOrders(inspectionId?: string): Promise<PartOrder[]> {
+    return this.dataService.listPartOrders({ inspectionId, statuses: OPEN_PART_ORDER_STATUSES })
   }
 
-  public async checkAvailability(partNumber: string): Promise<PartAvailability[]> {
-    const mockAvailability: PartAvailability[] = [
-      {
-        partNumber,
-        supplier: 'Primary Parts Co.',
-        inStock: true,
-        quantity: 50,
-        leadTime: '1-2 days',
-        price: this.estimatePrice(partNumber),
-      },
-      {
-        partNumber,
-        supplier: 'FastShip Industrial',
-        inStock: true,
-        quantity: 25,
-        leadTime: '2-3 days',
-        price: this.estimatePrice(partNumber) * 1.15,
-      },
-    ]
+  public async applyStatusUpdate(orderId: string, update: PartOrderStatusUpdate): Promise<PartOrder> {
+    const order = await this.dataService.getPartOrderById(orderId)
+    if (!order) {
+      throw new Error('Part order not found')
+    }
+
+    if (order.status !== update.status && !ALLOWED_TRANSITIONS[order.status].includes(update.status)) {
+      throw new PartOrderTransitionError(
+        `Cannot move order ${orderId} from ${order.status} to ${update.status}`,
+      )
+    }
+
+    return this.saveOrder(orderId, {
+      status: update.status,
+      statusNote: update.note ?? order.statusNote,
+      externalReferenceId: update.externalReferenceId ?? order.externalReferenceId,
+      estimatedDelivery: update.estimatedDelivery ?? order.estimatedDelivery,
+    })
+  }
 
-    return mockAvailability
+  public async cancelOrder(orderId: string, note?: string): Promise<PartOrder> {
+    return this.applyStatusUpdate(orderId, { status: 'cancelled', note: note || 'Cancelled by technician' })
   }
 
-  public cancelOrder(orderId: string): PartOrder | null {
-    const order = this.orders.get(orderId)
-    if (!order) return null
+  public async checkAvailability(partNumber: string): Promise<PartAvailability[]> {
+    const url = this.readEnvString('PARTS_AVAILABILITY_URL')
+    if (!url) {
+      return []
+    }
 
-    if (order.status !== 'pending' && order.status !== 'ordered') {
-      throw new Error(`Cannot cancel order with status: ${order.status}`)
+    const target = new URL(url)
+    target.searchParams.set('partNumber', partNumber)
+    const response = await fetch(target, {
+      headers: this.buildAuthHeaders(this.resolveSupplierConfig()),
+      signal: AbortSignal.timeout(this.requestTimeoutMs),
+    })
+    if (!response.ok) {
+      throw new Error(`Availability lookup returned status ${response.status}`)
     }
 
-    order.status = 'cancelled'
-    order.updatedAt = new Date().toISOString()
-    this.orders.set(orderId, order)
+    const body = (await response.json()) as unknown
+    const items = Array.isArray(body)
+      ? body
+      : Array.isArray((body as { items?: unknown[] })?.items)
+        ? (body as { items: unknown[] }).items
+        : []
 
-    return order
+    return items
+      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+      .map((item) => ({
+        partNumber: typeof item.partNumber === 'string' ? item.partNumber : partNumber,
+        supplier: typeof item.supplier === 'string' ? item.supplier : 'unknown',
+        inStock: item.inStock === true,
+        quantity: typeof item.quantity === 'number' ? item.quantity : undefined,
+        leadTime: typeof item.leadTime === 'string' ? item.leadTime : undefined,
+        price: typeof item.price === 'number' ? item.price : undefined,
+      }))
   }
 
-  private async sendOrderToSupplier(order: PartOrder): Promise<void> {
-    if (!this.webhookUrl) return
+  public isCallbackConfigured(): boolean {
+    return Boolean(this.readEnvString('PARTS_ORDER_CALLBACK_TOKEN'))
+  }
 
-    const payload = {
-      event: 'part_order',
-      orderId: order.id,
-      inspectionId: order.inspectionId,
-      partNumber: order.partNumber,
-      quantity: order.quantity,
-      urgency: order.urgency,
-      notes: order.notes,
-      requestedDelivery: order.estimatedDelivery,
+  /**
+   * Each organization's callback token is derived from `PARTS_ORDER_CALLBACK_TOKEN`,
+   * which never leaves the server, so a supplier holding one organization's
+   * token cannot update another organization's orders.
+   */
+  public callbackTokenFor(organizationId: string): string | null {
+    const secret = this.readEnvString('PARTS_ORDER_CALLBACK_TOKEN')
+    return secret ? createHmac('sha256', secret).update(`parts-order-callback:${organizationId}`).digest('hex') : null
+  }
+
+  /** Checks the token against the organization in scope. */
+  public verifyCallbackToken(token: string | undefined): boolean {
+    const expected = this.callbackTokenFor(currentOrganizationId() ?? DEFAULT_ORGANIZATION_ID)
+    if (!expected || !token) {
+      return false
     }
+    const expectedBuffer = Buffer.from(expected)
+    const actualBuffer = Buffer.from(token)
+    return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer)
+  }
 
+  private async submitToSupplier(order: PartOrder, config: PartsSupplierConfig): Promise<PartOrder> {
+    if (!config.url) {
+      return this.saveOrder(order.id, {
+        status: 'pending',
+        statusNote: 'No supplier webhook configured; order awaits manual placement.',
+        externalReferenceId: order.externalReferenceId,
+        estimatedDelivery: order.estimatedDelivery,
+      })
+    }
+
+    const adapter = this.adapters[config.provider]
     try {
-      const controller = new AbortController()
-      const timeout = setTimeout(() => controller.abort(), 5000)
-
-      const response = await fetch(this.webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-        signal: controller.signal,
+      const body = await this.postWithRetry(config, adapter.buildOrderPayload(order, config), order.id)
+      const submission = adapter.parseOrderResponse(body)
+      return this.saveOrder(order.id, {
+        status: 'ordered',
+        statusNote: `Submitted to ${new URL(config.url).host} (${config.provider}).`,
+        externalReferenceId: submission.externalReferenceId || `PO-${order.id}`,
+        estimatedDelivery: submission.estimatedDelivery || order.estimatedDelivery,
+      })
+    } catch (error) {
+      return this.saveOrder(order.id, {
+        status: 'pending',
+        statusNote: `Supplier submission failed: ${error instanceof Error ? error.message : 'unknown error'}`,
+        externalReferenceId: order.externalReferenceId,
+        estimatedDelivery: order.estimatedDelivery,
       })
+    }
+  }
 
-      if (response.ok) {
-        order.status = 'ordered'
-        order.updatedAt = new Date().toISOString()
-        order.externalReferenceId = `PO-${order.id}`
+  private async postWithRetry(
+    config: PartsSupplierConfig,
+    payload: Record<string, unknown>,
+    idempotencyKey: string,
+  ): Promise<Record<string, unknown> | null> {
+    let lastError: unknown = null
+    for (let attempt = 1; attempt <= this.maxSupplierAttempts; attempt += 1) {
+      try {
+        return await this.postJson(config, payload, idempotencyKey)
+      } catch (error) {
+        lastError = error
+        const retriable = error instanceof PartsSupplierError ? error.retriable : true
+        if (!retriable || attempt === this.maxSupplierAttempts) {
+          break
+        }
+        await this.sleep(this.baseRetryDelayMs * Math.pow(2, attempt - 1))
       }
+    }
 
-      clearTimeout(timeout)
+    throw lastError instanceof Error ? lastError : new Error('Supplier request failed')
+  }
+
+  private async postJson(
+    config: PartsSupplierConfig,
+    payload: Record<string, unknown>,
+    idempotencyKey: string,
+  ): Promise<Record<string, unknown> | null> {
+    const organizationId = currentOrganizationId() ?? DEFAULT_ORGANIZATION_ID
+    const callbackToken = this.callbackTokenFor(organizationId)
+    const response = await fetch(config.url as string, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Idempotency-Key': idempotencyKey,
+        // Suppliers echo these on status callbacks so they land in the ordering organization
+        'X-Organization-Id': organizationId,
+        ...(callbackToken ? { 'X-Callback-Token': callbackToken } : {}),
+        ...this.buildAuthHeaders(config),
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(this.requestTimeoutMs),
+    })
+
+    if (!response.ok) {
+      const status = response.status
+      const retriable = status === 408 || status === 429 || status >= 500
+      throw new PartsSupplierError(`Supplier returned status ${status}`, retriable)
+    }
+
+    const text = await response.text()
+    try {
+      const parsed = JSON.parse(text) as unknown
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as Record<string, unknown>)
+        : null
     } catch {
-      order.status = 'pending'
+      return null
     }
   }
 
-  private estimatePrice(partNumber: string): number {
-    const hash = partNumber.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0)
-    return Math.round((50 + (hash % 500)) * 100) / 100
+  private buildAuthHeaders(config: PartsSupplierConfig): Record<string, string> {
+    if (config.authType === 'bearer' && config.authToken) {
+      return { Authorization: `Bearer ${config.authToken}` }
+    }
+    if (config.authType === 'basic' && config.authUsername && typeof config.authPassword === 'string') {
+      const encoded = Buffer.from(`${config.authUsername}:${config.authPassword}`, 'utf8').toString('base64')
+      return { Authorization: `Basic ${encoded}` }
+    }
+    return {}
+  }
+
+  private resolveSupplierConfig(providerOverride?: PartsSupplierProvider): PartsSupplierConfig {
+    return {
+      url: this.readEnvString('PARTS_ORDER_WEBHOOK'),
+      provider: providerOverride || this.parseProvider(this.readEnvString('PARTS_ORDER_PROVIDER')),
+      authType: this.parseAuthType(this.readEnvString('PARTS_ORDER_AUTH_TYPE')),
+      authToken: this.readEnvString('PARTS_ORDER_AUTH_TOKEN'),
+      authUsername: this.readEnvString('PARTS_ORDER_AUTH_USERNAME'),
+      authPassword: this.readEnvString('PARTS_ORDER_AUTH_PASSWORD'),
+      accountCode: this.readEnvString('PARTS_ORDER_ACCOUNT_CODE'),
+    }
+  }
+
+  private async saveOrder(orderId: string, input: UpdatePartOrderInput): Promise<PartOrder> {
+    const updated = await this.dataService.updatePartOrder(orderId, input)
+    if (!updated) {
+      throw new Error('Part order not found')
+    }
+    return updated
+  }
+
+  private parseProvider(value: string | undefined): PartsSupplierProvider {
+    const normalized = value?.trim().toLowerCase()
+    if (normalized === 'sap_ariba' || normalized === 'coupa') {
+      return normalized
+    }
+    return 'generic'
+  }
+
+  private parseAuthType(value: string | undefined): PartsAuthType {
+    const normalized = value?.trim().toLowerCase()
+    if (normalized === 'bearer' || normalized === 'basic') {
+      return normalized
+    }
+    return 'none'
+  }
+
+  private readEnvString(name: string): string | undefined {
+    const value = process.env[name]?.trim()
+    return value ? value : undefined
+  }
+
+  private async sleep(ms: number): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, ms))
   }
 }
@@ -1,6 +1,11 @@
 import { Pool } from 'pg'
 import { v4 as uuidv4 } from 'uuid'
+import { MIGRATIONS } from '../migrations'
+import { encodeInspectionCursor } from './inspection-query'
+import { InspectionVersionConflictError } from './inspection-version'
 import { PostgresDataService } from './postgres-data.service'
+import { migrationChecksum } from './postgres-migrator'
+import type { Inspection } from '../types'
 
 const mockQuery = jest.fn()
 
@@ -15,9 +20,16 @@ jest.mock('uuid', () => ({
 }))
 
 function queueSchemaQueries(): void {
-  for (let i = 0; i < 5; i += 1) {
-    mockQuery.mockResolvedValueOnce({ rowCount: 0, rows: [] })
-  }
+  mockQuery.mockResolvedValueOnce({ rowCount: 1, rows: [{ exists: true }] })
+  mockQuery.mockResolvedValueOnce({
+    rowCount: MIGRATIONS.length,
+    rows: MIGRATIONS.map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      checksum: migrationChecksum(migration),
+      applied_at: new Date('2026-01-01T00:00:00.000Z'),
+    })),
+  })
 }
 
 function createService(): PostgresDataService {
@@ -41,7 +53,7 @@ describe('PostgresDataService', () => {
     delete process.env.POSTGRES_URL
   })
 
-  it('should initialize schema using configured postgres connection', async () => {
+  it('should verify the schema version using configured postgres connection', async () => {
     const service = createService()
     mockQuery.mockResolvedValueOnce({ rowCount: 0, rows: [] })
 
@@ -50,11 +62,18 @@ describe('PostgresDataService', () => {
     expect(mockedPool).toHaveBeenCalledWith({
       connectionString: 'postgresql://localhost:5432/fieldsightlive_test',
     })
-    expect(mockQuery.mock.calls[0][0]).toContain('CREATE TABLE IF NOT EXISTS technicians')
-    expect(mockQuery.mock.calls[1][0]).toContain('CREATE TABLE IF NOT EXISTS sites')
-    expect(mockQuery.mock.calls[2][0]).toContain('CREATE TABLE IF NOT EXISTS inspections')
-    expect(mockQuery.mock.calls[3][0]).toContain('CREATE TABLE IF NOT EXISTS inspection_reports')
-    expect(mockQuery.mock.calls[4][0]).toContain('CREATE TABLE IF NOT EXISTS site_assets')
+    expect(mockQuery.mock.calls[0][0]).toContain("to_regclass('schema_migrations')")
+    expect(mockQuery.mock.calls[1][0]).toContain('FROM schema_migrations')
+    expect(mockQuery.mock.calls[2][0]).toContain('FROM technicians')
+  })
+
+  it('should refuse to serve when the database schema is behind the code', async () => {
+    mockQuery.mockResolvedValueOnce({ rowCount: 1, rows: [{ exists: false }] })
+    const service = new PostgresDataService()
+
+    await expect(service.ready()).rejects.toThrow('Database schema is at version 0, behind this build')
+    await expect(service.listTechnicians()).rejects.toThrow('behind this build')
+    expect(mockQuery).toHaveBeenCalledTimes(1)
   })
 
   it('should create inspection and return normalized inspection payload', async () => {
@@ -72,8 +91,8 @@ describe('PostgresDataService', () => {
     expect(inspection.images).toEqual([])
     expect(inspection.ocrFindings).toEqual([])
 
-    const insertSql = String(mockQuery.mock.calls[5][0])
-    const insertParams = mockQuery.mock.calls[5][1] as unknown[]
+    const insertSql = String(mockQuery.mock.calls[2][0])
+    const insertParams = mockQuery.mock.calls[2][1] as unknown[]
     expect(insertSql).toContain('INSERT INTO inspections')
     expect(insertParams[1]).toBe('tech-1')
     expect(insertParams[2]).toBe('site-1')
@@ -126,12 +145,58 @@ describe('PostgresDataService', () => {
     expect(results[0].safetyFlags[0].timestamp).toBeInstanceOf(Date)
     expect(results[0].detectedFaults[0].recommendedActions).toEqual([])
 
-    const listSql = String(mockQuery.mock.calls[5][0])
-    const listParams = mockQuery.mock.calls[5][1] as unknown[]
+    const listSql = String(mockQuery.mock.calls[2][0])
+    const listParams = mockQuery.mock.calls[2][1] as unknown[]
     expect(listSql).toContain('WHERE technician_id = $1 AND status = $2')
     expect(listParams).toEqual(['tech-1', 'completed'])
   })
 
+  it('should filter inspections by linked asset', async () => {
+    const service = createService()
+    mockQuery.mockResolvedValueOnce({ rowCount: 0, rows: [] })
+
+    await service.listInspections({ siteId: 'site-1', assetId: 'asset-1' })
+
+    const listSql = String(mockQuery.mock.calls[2][0])
+    const listParams = mockQuery.mock.calls[2][1] as unknown[]
+    expect(listSql).toContain('WHERE site_id = $1 AND $2 = ANY(asset_ids)')
+    expect(listParams).toEqual(['site-1', 'asset-1'])
+  })
+
+  it('should search inspections with full-text, date range and keyset cursor', async () => {
+    const service = createService()
+    const cursor = encodeInspectionCursor(
+      { id: 'insp-9', timestamp: new Date('2026-02-20T00:00:00.000Z') } as Inspection,
+      'timestamp',
+      'desc',
+    )
+    mockQuery.mockResolvedValueOnce({ rowCount: 0, rows: [] })
+
+    const page = await service.searchInspections({
+      siteId: 'site-1',
+      from: new Date('2026-01-01T00:00:00.000Z'),
+      search: 'valve leak',
+      cursor,
+      limit: 10,
+    })
+
+    const searchSql = String(mockQuery.mock.calls[2][0])
+    const searchParams = mockQuery.mock.calls[2][1] as unknown[]
+    expect(searchSql).toContain(
+      "WHERE site_id = $1 AND timestamp >= $2 AND search_vector @@ websearch_to_tsquery('english', $3) AND (timestamp, id) < ($4::timestamptz, $5)",
+    )
+    expect(searchSql).toContain('ORDER BY timestamp DESC, id DESC')
+    expect(searchParams).toEqual([
+      'site-1',
+      '2026-01-01T00:00:00.000Z',
+      'valve leak',
+      '2026-02-20T00:00:00.000Z',
+      'insp-9',
+      11,
+    ])
+    expect(page).toEqual({ items: [], nextCursor: null })
+  })
+
   it('should throw not-found error when appending faults to missing inspection', async () => {
     const service = createService()
     mockQuery.mockResolvedValueOnce({ rowCount: 0, rows: [] })
@@ -149,6 +214,90 @@ describe('PostgresDataService', () => {
     ).rejects.toThrow('Inspection not found')
   })
 
+  it('should update status only at the expected version and report the stored one on conflict', async () => {
+    const service = createService()
+    mockQuery
+      .mockResolvedValueOnce({ rowCount: 0, rows: [] })
+      .mockResolvedValueOnce({ rowCount: 1, rows: [{ version: 7 }] })
+      .mockResolvedValueOnce({ rowCount: 0, rows: [] })
+      .mockResolvedValueOnce({ rowCount: 0, rows: [] })
+
+    const conflict = service.updateInspectionStatus('insp-1', { status: 'completed', expectedVersion: 6 })
+    await expect(conflict).rejects.toBeInstanceOf(InspectionVersionConflictError)
+    await expect(conflict).rejects.toMatchObject({ currentVersion: 7 })
+    const [updateSql, updateParams] = mockQuery.mock.calls[2]
+    expect(updateSql).toContain('version = version + 1')
+    expect(updateSql).toContain('($5::integer IS NULL OR version = $5)')
+    expect(updateParams).toEqual(['insp-1', 'completed', null, null, 6, null])
+
+    await expect(
+      service.updateInspectionStatus('missing-insp', { status: 'completed', expectedVersion: 1 }),
+    ).resolves.toBeNull()
+  })
+
+  it('should purge only the requested data classes in one statement', async () => {
+    const service = createService()
+    mockQuery
+      .mockResolvedValueOnce({ rowCount: 1, rows: [{ transcript_entries: 3, images: 2, ocr_findings: 0, report: false }] })
+      .mockResolvedValueOnce({ rowCount: 0, rows: [] })
+
+    await expect(service.purgeInspectionData('insp-1', ['transcripts', 'images'])).resolves.toEqual({
+      transcriptEntries: 3,
+      images: 2,
+      ocrFindings: 0,
+      report: false,
+    })
+    const [purgeSql, purgeParams] = mockQuery.mock.calls[2]
+    expect(purgeSql).toContain('version = i.version + 1')
+    expect(purgeSql).toContain('DELETE FROM transcript_entries')
+    expect(purgeParams).toEqual(['insp-1', true, true, false, false])
+
+    await expect(service.purgeInspectionData('missing-insp', ['reports'])).resolves.toBeNull()
+  })
+
+  it('should append a transcript entry at the next sequence and keep the search text in step', async () => {
+    mockedUuid.mockReturnValue('tr-7')
+    const service = createService()
+    mockQuery.mockResolvedValueOnce({
+      rowCount: 1,
+      rows: [
+        {
+          id: 'tr-7',
+          inspection_id: 'insp-1',
+          sequence: 4,
+          speaker: 'user',
+          text: 'Valve is stuck',
+          timestamp: '2026-02-21T10:00:00.000Z',
+          language: 'en',
+          source: 'live',
+        },
+      ],
+    })
+
+    const entry = await service.appendInspectionTranscript('insp-1', {
+      speaker: 'user',
+      text: ' Valve is stuck ',
+      source: 'live',
+      language: 'en',
+    })
+
+    expect(entry).toEqual({
+      id: 'tr-7',
+      inspectionId: 'insp-1',
+      sequence: 4,
+      speaker: 'user',
+      text: 'Valve is stuck',
+      timestamp: new Date('2026-02-21T10:00:00.000Z'),
+      language: 'en',
+      source: 'live',
+    })
+    const sql = String(mockQuery.mock.calls[2][0])
+    const params = mockQuery.mock.calls[2][1] as unknown[]
+    expect(sql).toContain('transcript_entry_count = transcript_entry_count + 1')
+    expect(sql).toContain('INSERT INTO transcript_entries')
+    expect(params.slice(0, 5)).toEqual(['insp-1', 'user: Valve is stuck', 'tr-7', 'user', 'Valve is stuck'])
+  })
+
   it('should generate and persist report with findings, safety and workflow summary', async () => {
     const service = createService()
     mockQuery
@@ -196,6 +345,95 @@ describe('PostgresDataService', () => {
           },
         ],
       })
+      .mockResolvedValueOnce({
+        rowCount: 1,
+        rows: [
+          {
+            id: 'time-1',
+            inspection_id: 'insp-22',
+            task_name: 'Pump teardown',
+            notes: null,
+            status: 'completed',
+            started_at: '2026-02-22T08:00:00.000Z',
+            resumed_at: null,
+            ended_at: '2026-02-22T09:30:00.000Z',
+            duration_seconds: 5400,
+            created_at: '2026-02-22T08:00:00.000Z',
+            updated_at: '2026-02-22T09:30:00.000Z',
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        rowCount: 2,
+        rows: [
+          {
+            id: 'order-1',
+            inspection_id: 'insp-22',
+            part_number: 'PUMP-SEAL-3',
+            quantity: 2,
+            urgency: 'urgent',
+            status: 'shipped',
+            supplier_provider: 'generic',
+            notes: null,
+            status_note: null,
+            external_reference_id: 'PO-77',
+            estimated_delivery: '2026-02-25T00:00:00.000Z',
+            created_at: '2026-02-22T08:20:00.000Z',
+            updated_at: '2026-02-23T08:20:00.000Z',
+          },
+          {
+            id: 'order-2',
+            inspection_id: 'insp-22',
+            part_number: 'GASKET-9',
+            quantity: 1,
+            urgency: 'routine',
+            status: 'delivered',
+            supplier_provider: 'generic',
+            notes: null,
+            status_note: null,
+            external_reference_id: null,
+            estimated_delivery: null,
+            created_at: '2026-02-22T08:25:00.000Z',
+            updated_at: '2026-02-24T08:25:00.000Z',
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        rowCount: 1,
+        rows: [
+          {
+            id: 'ann-1',
+            inspection_id: 'insp-22',
+            snapshot_url: 'https://cdn.example.com/snapshots/insp-22/frame-1.jpg',
+            author_role: 'expert',
+            author_id: 'expert@example.com',
+            tool: 'arrow',
+            color: '#ff0000',
+            points: [
+              { x: 0.1, y: 0.2 },
+              { x: 0.4, y: 0.5 },
+            ],
+            text: null,
+            created_at: '2026-02-22T08:30:00.000Z',
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        rowCount: 1,
+        rows: [
+          {
+            id: 'tr-1',
+            inspection_id: 'insp-22',
+            sequence: 1,
+            speaker: 'agent',
+            text: 'overheating detected',
+            timestamp: '2026-02-22T08:12:30.000Z',
+            language: null,
+            source: 'legacy',
+          },
+        ],
+      })
+      .mockResolvedValueOnce({ rowCount: 1, rows: [{ version: 2 }] })
       .mockResolvedValueOnce({ rowCount: 1, rows: [] })
 
     const report = await service.generateInspectionReport('insp-22')
@@ -208,8 +446,18 @@ describe('PostgresDataService', () => {
       'COMPLETED - create_ticket: Ticket created (TCK-111)',
     )
     expect(report?.imageCount).toBe(2)
+    expect(report?.totalTrackedMinutes).toBe(90)
+    expect(report?.timeSummary).toEqual(['Pump teardown: 1h 30m (completed)'])
+    expect(report?.openPartOrders).toEqual([
+      'SHIPPED - PUMP-SEAL-3 x2 [urgent] (PO-77), ETA 2026-02-25',
+    ])
+    expect(report?.annotationSummary).toEqual(['frame-1.jpg: 1 annotation (arrow by expert)'])
+    expect(report?.transcriptExcerpt).toEqual(['08:12:30 Agent: "overheating detected"'])
+
+    expect(report?.version).toBe(3)
 
-    const upsertSql = String(mockQuery.mock.calls[6][0])
-    expect(upsertSql).toContain('INSERT INTO inspection_reports')
+    const insertSql = String(mockQuery.mock.calls[8][0])
+    expect(insertSql).toContain('INSERT INTO inspection_reports')
+    expect(insertSql).not.toContain('ON CONFLICT')
   })
 })
@@ -1,15 +1,83 @@
 import { Pool } from 'pg'
 import { v4 as uuidv4 } from 'uuid'
-import type { DataService } from './data-service'
+import type {
+  ArchiveRecordMap,
+  ArchiveRecordType,
+  AuditLogQuery,
+  DataService,
+  ExpertEscalationRevision,
+  InspectionPage,
+  InspectionPurgeResult,
+  InspectionSearchQuery,
+  InspectionSortField,
+  ListExpertEscalationFilters,
+  ListDirectoryOptions,
+  ListInspectionFilters,
+  ListPartOrderFilters,
+  ListReportJobFilters,
+  ListShareSessionFilters,
+  NewOrganization,
+  NewReportJob,
+  NewTranscriptEntry,
+  OrganizationDirectory,
+  ReportJobClaim,
+  ReportJobRevision,
+  TranscriptQuery,
+  UpdateExpertEscalationInput,
+  UpdateOrganizationInput,
+  UpdatePartOrderInput,
+  UpdateReportJobInput,
+  UpdateSiteInput,
+  UpdateTechnicianInput,
+  UpdateTimeEntryInput,
+} from './data-service'
+import { AuditSequenceConflictError, normalizeAuditPageSize } from './audit-chain'
 import type { InspectionReport } from './firestore-data.service'
+import { PostgresMigrator } from './postgres-migrator'
+import { buildInspectionReport } from './inspection-report'
+import { readInspectionReview, type StoredInspectionReview } from './inspection-review'
+import { decodeInspectionCursor, normalizeInspectionPageSize, toInspectionPage } from './inspection-query'
+import { InspectionVersionConflictError } from './inspection-version'
+import {
+  DEFAULT_ORGANIZATION_ID,
+  OrganizationExistsError,
+  assertOrganizationId,
+  defaultOrganization,
+} from './organization-context'
+import { readReportJobStatus, readReportPipelineProvider } from './report-jobs'
+import { readReportTemplate } from './report-template'
+import { reportContentHash } from './report-version'
+import { readRetentionPolicy } from './retention'
+import { runningTaskConflict } from './time-tracking.service'
+import { MAX_TRANSCRIPT_PAGE_SIZE, formatTranscriptLine, normalizeTranscriptPageSize } from './transcript'
 import type {
+  AssetRiskAssessment,
+  AuditEntry,
+  ChecklistTemplate,
   DetectedFault,
+  ExpertContact,
+  ExpertEscalation,
   Inspection,
+  InspectionAnnotation,
+  InspectionChecklist,
+  InspectionReview,
+  InspectionStatus,
   OcrFinding,
+  Organization,
+  PartOrder,
+  ReadingAnomaly,
+  ReportGenerationJob,
+  ReportTemplate,
+  RetentionDataClass,
+  RetentionPolicy,
   SafetyFlag,
+  ShareSession,
+  ShareSessionStatus,
   Site,
   SiteAsset,
   Technician,
+  TimeEntry,
+  TranscriptEntry,
   WorkflowEvent,
 } from '../types'
 
@@ -18,26 +86,385 @@ interface PgInspectionRow {
   technician_id: string
   site_id: string
   timestamp: Date
-  status: 'in_progress' | 'completed'
+  status: InspectionStatus
+  asset_ids: string[] | null
   images: string[]
   safety_flags: Array<Omit<SafetyFlag, 'timestamp'> & { timestamp: string | Date }>
   detected_faults: DetectedFault[]
   recommended_actions: string[]
   ocr_findings: Array<Omit<OcrFinding, 'createdAt'> & { createdAt: string | Date }>
+  anomaly_findings: Array<Omit<ReadingAnomaly, 'createdAt'> & { createdAt: string | Date }> | null
   workflow_events: Array<Omit<WorkflowEvent, 'createdAt'> & { createdAt: string | Date }>
   transcript: string
   summary: string | null
+  checklist: SerializedInspectionChecklist | null
+  checklist_override_reason: string | null
+  review: StoredInspectionReview | null
+  version: number
+}
+
+type SerializedInspectionChecklist = Omit<InspectionChecklist, 'items'> & {
+  items: Array<Omit<InspectionChecklist['items'][number], 'updatedAt'> & { updatedAt?: string | Date }>
+}
+
+interface PgOrganizationRow {
+  id: string
+  name: string
+  settings: Organization['settings'] | null
+  created_at: Date
+  updated_at: Date
+}
+
+interface PgTechnicianRow {
+  id: string
+  name: string
+  email: string
+  role: Technician['role']
+  created_at: Date
+  updated_at: Date
+  deleted_at: Date | null
+}
+
+interface PgSiteRow {
+  id: string
+  name: string
+  type: Site['type']
+  location: Site['location']
+  technician_ids: string[] | null
+  retention: RetentionPolicy | null
+  report_template: ReportTemplate | null
+  created_at: Date
+  updated_at: Date
+  deleted_at: Date | null
+}
+
+interface PgAuditLogRow {
+  sequence: string | number
+  id: string
+  occurred_at: Date
+  actor: AuditEntry['actor']
+  action: string
+  entity_type: string
+  entity_id: string | null
+  changes: AuditEntry['changes'] | null
+  ip_address: string | null
+  request_id: string | null
+  source: AuditEntry['source']
+  previous_hash: string
+  hash: string
+}
+
+interface PgTranscriptEntryRow {
+  id: string
+  inspection_id: string
+  sequence: number
+  speaker: TranscriptEntry['speaker']
+  text: string
+  timestamp: Date
+  language: string | null
+  source: TranscriptEntry['source']
+}
+
+interface PgInspectionReportRow {
+  inspection_id: string
+  version: number
+  /** Null for reports stored before versioning. */
+  content_hash: string | null
+  generated_at: Date
+  technician_id: string
+  site_id: string
+  status: InspectionReport['status']
+  findings: string[] | null
+  safety_summary: string[] | null
+  workflow_summary: string[] | null
+  recommended_actions: string[] | null
+  image_count: number | null
+  total_tracked_minutes: number | null
+  time_summary: string[] | null
+  open_part_orders: string[] | null
+  annotation_summary: string[] | null
+  transcript_excerpt: string[] | null
+  summary_text: string | null
+}
+
+interface PgChecklistTemplateRow {
+  id: string
+  name: string
+  site_type: ChecklistTemplate['siteType']
+  items: ChecklistTemplate['items'] | null
+  created_at: Date
+  updated_at: Date
+}
+
+interface PgPartOrderRow {
+  id: string
+  inspection_id: string
+  part_number: string
+  quantity: number
+  urgency: PartOrder['urgency']
+  status: PartOrder['status']
+  supplier_provider: PartOrder['supplierProvider']
+  notes: string | null
+  status_note: string | null
+  external_reference_id: string | null
+  estimated_delivery: Date | null
+  created_at: Date
+  updated_at: Date
+}
+
+interface PgReportJobRow {
+  id: string
+  inspection_id: string
+  status: string
+  provider: string
+  attempts: number
+  max_attempts: number
+  next_attempt_at: Date | null
+  lease_expires_at: Date | null
+  report_generated_at: Date | null
+  error: string | null
+  created_at: Date
+  updated_at: Date
+}
+
+interface PgExpertContactRow {
+  id: string
+  name: string
+  email: string | null
+  role: string
+  specialty: string[] | null
+  availability: ExpertContact['availability']
+  contact_method: ExpertContact['contactMethod']
+  created_at: Date
+  updated_at: Date
+}
+
+interface PgExpertEscalationRow {
+  id: string
+  inspection_id: string
+  reason: string
+  priority: ExpertEscalation['priority']
+  required_expertise: string[] | null
+  status: ExpertEscalation['status']
+  context: ExpertEscalation['context'] | null
+  assigned_expert_id: string | null
+  contacted_expert_ids: string[] | null
+  acknowledge_by: Date | null
+  acknowledged_at: Date | null
+  resolved_at: Date | null
+  resolution_note: string | null
+  created_at: Date
+  updated_at: Date
+}
+
+interface PgShareSessionRow {
+  id: string
+  inspection_id: string
+  host_technician_id: string
+  expert_email: string
+  status: ShareSessionStatus
+  access_token: string
+  reason: string | null
+  created_at: Date
+  expires_at: Date
+  ended_at: Date | null
+}
+
+interface PgAnnotationRow {
+  id: string
+  inspection_id: string
+  snapshot_url: string | null
+  author_role: InspectionAnnotation['authorRole']
+  author_id: string | null
+  tool: InspectionAnnotation['tool']
+  color: string
+  points: InspectionAnnotation['points'] | null
+  text: string | null
+  created_at: Date
+}
+
+type SerializedAssetRiskAssessment = Omit<AssetRiskAssessment, 'lastInspectedAt' | 'computedAt'> & {
+  lastInspectedAt?: string | Date
+  computedAt: string | Date
+}
+
+interface PgSiteAssetRow {
+  id: string
+  site_id: string
+  name: string
+  asset_type: string
+  serial_number: string | null
+  location: string | null
+  notes: string | null
+  risk_assessment: SerializedAssetRiskAssessment | null
+  created_at: Date
+  updated_at: Date
+}
+
+interface PgTimeEntryRow {
+  id: string
+  inspection_id: string
+  task_name: string
+  notes: string | null
+  status: TimeEntry['status']
+  started_at: Date
+  resumed_at: Date | null
+  ended_at: Date | null
+  duration_seconds: number
+  created_at: Date
+  updated_at: Date
+}
+
+const REPORT_VERSION_ATTEMPTS = 3
+
+const ARCHIVE_TABLES: Record<ArchiveRecordType, { table: string; key: string }> = {
+  technician: { table: 'technicians', key: 'id' },
+  site: { table: 'sites', key: 'id' },
+  asset: { table: 'site_assets', key: 'id' },
+  inspection: { table: 'inspections', key: 'id' },
+  transcript: { table: 'transcript_entries', key: 'id' },
+  // Matches reportVersionId, so archive ids sort and page the same way in every store
+  report: { table: 'inspection_reports', key: `inspection_id || ':' || lpad(version::text, 6, '0')` },
+}
+
+const INSPECTION_SORT_COLUMNS: Record<InspectionSortField, string> = {
+  timestamp: 'timestamp',
+  status: 'status',
+  siteId: 'site_id',
+  technicianId: 'technician_id',
+}
+
+/** Migration 13's partial unique index allows one running time entry per inspection. */
+function isRunningTimeEntryViolation(error: unknown): boolean {
+  // 23505 is unique_violation
+  const { code, constraint } = error as { code?: string; constraint?: string }
+  return code === '23505' && constraint === 'idx_time_entries_running'
+}
+
+/** The schema holding an organization's tables; null for the default organization, which keeps the database default. */
+export function organizationSchema(organizationId: string): string | null {
+  assertOrganizationId(organizationId)
+  return organizationId === DEFAULT_ORGANIZATION_ID ? null : `org_${organizationId.replace(/-/g, '_')}`
+}
+
+/** A pool whose connections resolve table names in the organization's schema and nowhere else. */
+export function createOrganizationPool(organizationId: string): Pool {
+  const schema = organizationSchema(organizationId)
+  return new Pool({
+    connectionString: process.env.POSTGRES_URL?.trim() || undefined,
+    ...(schema ? { options: `-c search_path=${schema}` } : {}),
+  })
 }
 
-export class PostgresDataService implements DataService {
+/**
+ * Each organization's tables live in a schema of their own, reached through
+ * a pool pinned to that schema, so no query can name another organization's
+ * rows. The default organization keeps the tables that predate organizations.
+ */
+export class PostgresDataService implements DataService, OrganizationDirectory {
   private readonly pool: Pool
   private readonly initPromise: Promise<void>
+  private readonly organizationId: string
+  private readonly views: Map<string, PostgresDataService>
+
+  /** `partition` is for `forOrganization`; a new service owns the default organization's schema. */
+  constructor(partition?: { organizationId: string; views: Map<string, PostgresDataService> }) {
+    this.organizationId = partition?.organizationId ?? DEFAULT_ORGANIZATION_ID
+    this.views = partition?.views ?? new Map()
+    this.views.set(this.organizationId, this)
+    this.pool = createOrganizationPool(this.organizationId)
+    this.initPromise = this.prepareSchema()
+  }
+
+  public async ready(): Promise<void> {
+    await this.initPromise
+  }
+
+  public async close(): Promise<void> {
+    await Promise.all([...this.views.values()].map((view) => view.pool.end()))
+  }
+
+  public forOrganization(organizationId: string): PostgresDataService {
+    assertOrganizationId(organizationId)
+    return this.views.get(organizationId) ?? new PostgresDataService({ organizationId, views: this.views })
+  }
+
+  /** Creates and migrates the schema before listing the organization, so a failed attempt can simply be retried. */
+  public async createOrganization(input: NewOrganization): Promise<Organization> {
+    const schema = organizationSchema(input.id)
+    if (!schema || (await this.readOrganizationRow(input.id))) {
+      throw new OrganizationExistsError(input.id)
+    }
+
+    const directory = this.directory()
+    await directory.pool.query(`CREATE SCHEMA IF NOT EXISTS ${schema}`)
+    const pool = createOrganizationPool(input.id)
+    try {
+      await new PostgresMigrator(pool).up()
+    } finally {
+      await pool.end()
+    }
+
+    const now = new Date()
+    const result = await directory.pool.query(
+      `INSERT INTO organizations (id, name, settings, created_at, updated_at)
+       VALUES ($1, $2, $3::jsonb, $4, $4)
+       ON CONFLICT (id) DO NOTHING
+       RETURNING id, name, settings, created_at, updated_at`,
+      [input.id, input.name, JSON.stringify(input.settings ?? {}), now],
+    )
+    if (!result.rows[0]) {
+      throw new OrganizationExistsError(input.id)
+    }
+    return this.mapOrganizationRow(result.rows[0] as PgOrganizationRow)
+  }
+
+  public async getOrganization(organizationId: string): Promise<Organization | null> {
+    const row = await this.readOrganizationRow(organizationId)
+    if (row) {
+      return this.mapOrganizationRow(row)
+    }
+    return organizationId === DEFAULT_ORGANIZATION_ID ? defaultOrganization() : null
+  }
+
+  public async listOrganizations(): Promise<Organization[]> {
+    const directory = this.directory()
+    await directory.initPromise
+    const result = await directory.pool.query(
+      'SELECT id, name, settings, created_at, updated_at FROM organizations ORDER BY id',
+    )
+    const organizations = result.rows.map((row) => this.mapOrganizationRow(row as PgOrganizationRow))
+    if (!organizations.some((organization) => organization.id === DEFAULT_ORGANIZATION_ID)) {
+      organizations.push(defaultOrganization())
+    }
+    return organizations.sort((a, b) => a.id.localeCompare(b.id))
+  }
 
-  constructor() {
-    this.pool = new Pool({
-      connectionString: process.env.POSTGRES_URL?.trim() || undefined,
-    })
-    this.initPromise = this.initializeSchema()
+  public async updateOrganization(
+    organizationId: string,
+    input: UpdateOrganizationInput,
+  ): Promise<Organization | null> {
+    const existing = await this.getOrganization(organizationId)
+    if (!existing) {
+      return null
+    }
+
+    const now = new Date()
+    // The default organization has no row until it is first saved
+    const result = await this.directory().pool.query(
+      `INSERT INTO organizations (id, name, settings, created_at, updated_at)
+       VALUES ($1, $2, $3::jsonb, $4, $4)
+       ON CONFLICT (id) DO UPDATE
+       SET name = EXCLUDED.name, settings = EXCLUDED.settings, updated_at = EXCLUDED.updated_at
+       RETURNING id, name, settings, created_at, updated_at`,
+      [
+        organizationId,
+        input.name ?? existing.name,
+        JSON.stringify(input.settings ?? existing.settings),
+        now,
+      ],
+    )
+    return this.mapOrganizationRow(result.rows[0] as PgOrganizationRow)
   }
 
   public async createTechnician(
@@ -61,23 +488,74 @@ export class PostgresDataService implements DataService {
     }
   }
 
-  public async listTechnicians(): Promise<Technician[]> {
+  public async listTechnicians(options: ListDirectoryOptions = {}): Promise<Technician[]> {
     await this.initPromise
     const result = await this.pool.query(
-      `SELECT id, name, email, role, created_at, updated_at
+      `SELECT id, name, email, role, created_at, updated_at, deleted_at
        FROM technicians
+       ${options.includeDeleted ? '' : 'WHERE deleted_at IS NULL'}
        ORDER BY created_at DESC
        LIMIT 100`,
     )
 
-    return result.rows.map((row) => ({
-      id: row.id,
-      name: row.name,
-      email: row.email,
-      role: row.role,
-      createdAt: new Date(row.created_at),
-      updatedAt: new Date(row.updated_at),
-    }))
+    return result.rows.map((row) => this.mapTechnicianRow(row as PgTechnicianRow))
+  }
+
+  public async getTechnicianById(technicianId: string): Promise<Technician | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `SELECT id, name, email, role, created_at, updated_at, deleted_at
+       FROM technicians
+       WHERE id = $1`,
+      [technicianId],
+    )
+
+    return result.rows[0] ? this.mapTechnicianRow(result.rows[0] as PgTechnicianRow) : null
+  }
+
+  public async getTechnicianByEmail(email: string): Promise<Technician | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `SELECT id, name, email, role, created_at, updated_at, deleted_at
+       FROM technicians
+       WHERE LOWER(email) = $1 AND deleted_at IS NULL
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [email.trim().toLowerCase()],
+    )
+
+    return result.rows[0] ? this.mapTechnicianRow(result.rows[0] as PgTechnicianRow) : null
+  }
+
+  public async updateTechnician(technicianId: string, input: UpdateTechnicianInput): Promise<Technician | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE technicians
+       SET name = $2,
+           email = $3,
+           role = $4,
+           updated_at = $5
+       WHERE id = $1
+       RETURNING *`,
+      [technicianId, input.name, input.email, input.role, new Date()],
+    )
+
+    return result.rows[0] ? this.mapTechnicianRow(result.rows[0] as PgTechnicianRow) : null
+  }
+
+  public async deactivateTechnician(technicianId: string): Promise<Technician | null> {
+    await this.initPromise
+    const now = new Date()
+    const result = await this.pool.query(
+      `UPDATE technicians
+       SET deleted_at = COALESCE(deleted_at, $2),
+           updated_at = CASE WHEN deleted_at IS NULL THEN $2 ELSE updated_at END
+       WHERE id = $1
+       RETURNING *`,
+      [technicianId, now],
+    )
+
+    return result.rows[0] ? this.mapTechnicianRow(result.rows[0] as PgTechnicianRow) : null
   }
 
   public async createSite(input: Omit<Site, 'id' | 'createdAt' | 'updatedAt'>): Promise<Site> {
@@ -86,14 +564,16 @@ export class PostgresDataService implements DataService {
     const now = new Date()
 
     await this.pool.query(
-      `INSERT INTO sites (id, name, type, location, technician_ids, created_at, updated_at)
-       VALUES ($1, $2, $3, $4::jsonb, $5, $6, $7)`,
+      `INSERT INTO sites (id, name, type, location, technician_ids, retention, report_template, created_at, updated_at)
+       VALUES ($1, $2, $3, $4::jsonb, $5, $6::jsonb, $7::jsonb, $8, $9)`,
       [
         id,
         input.name,
         input.type,
         JSON.stringify(input.location),
         input.technicianIds,
+        input.retention ? JSON.stringify(input.retention) : null,
+        input.reportTemplate ? JSON.stringify(input.reportTemplate) : null,
         now,
         now,
       ],
@@ -107,38 +587,121 @@ export class PostgresDataService implements DataService {
     }
   }
 
-  public async listSites(): Promise<Site[]> {
+  public async listSites(options: ListDirectoryOptions = {}): Promise<Site[]> {
     await this.initPromise
     const result = await this.pool.query(
-      `SELECT id, name, type, location, technician_ids, created_at, updated_at
+      `SELECT id, name, type, location, technician_ids, retention, report_template, created_at, updated_at, deleted_at
        FROM sites
+       ${options.includeDeleted ? '' : 'WHERE deleted_at IS NULL'}
        ORDER BY created_at DESC
        LIMIT 100`,
     )
 
-    return result.rows.map((row) => ({
-      id: row.id,
-      name: row.name,
-      type: row.type,
-      location: row.location,
-      technicianIds: row.technician_ids || [],
-      createdAt: new Date(row.created_at),
-      updatedAt: new Date(row.updated_at),
-    }))
+    return result.rows.map((row) => this.mapSiteRow(row as PgSiteRow))
+  }
+
+  public async getSiteById(siteId: string): Promise<Site | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `SELECT id, name, type, location, technician_ids, retention, report_template, created_at, updated_at, deleted_at
+       FROM sites
+       WHERE id = $1`,
+      [siteId],
+    )
+
+    return result.rows[0] ? this.mapSiteRow(result.rows[0] as PgSiteRow) : null
+  }
+
+  public async updateSite(siteId: string, input: UpdateSiteInput): Promise<Site | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE sites
+       SET name = $2,
+           type = $3,
+           location = $4::jsonb,
+           updated_at = $5
+       WHERE id = $1
+       RETURNING *`,
+      [siteId, input.name, input.type, JSON.stringify(input.location), new Date()],
+    )
+
+    return result.rows[0] ? this.mapSiteRow(result.rows[0] as PgSiteRow) : null
+  }
+
+  public async deactivateSite(siteId: string): Promise<Site | null> {
+    await this.initPromise
+    const now = new Date()
+    const result = await this.pool.query(
+      `UPDATE sites
+       SET deleted_at = COALESCE(deleted_at, $2),
+           updated_at = CASE WHEN deleted_at IS NULL THEN $2 ELSE updated_at END
+       WHERE id = $1
+       RETURNING *`,
+      [siteId, now],
+    )
+
+    return result.rows[0] ? this.mapSiteRow(result.rows[0] as PgSiteRow) : null
+  }
+
+  public async setSiteTechnicians(siteId: string, technicianIds: string[]): Promise<Site | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE sites
+       SET technician_ids = $2,
+           updated_at = $3
+       WHERE id = $1
+       RETURNING *`,
+      [siteId, technicianIds, new Date()],
+    )
+
+    return result.rows[0] ? this.mapSiteRow(result.rows[0] as PgSiteRow) : null
+  }
+
+  public async setSiteRetention(siteId: string, retention: RetentionPolicy | null): Promise<Site | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE sites
+       SET retention = $2::jsonb,
+           updated_at = $3
+       WHERE id = $1
+       RETURNING *`,
+      [siteId, retention ? JSON.stringify(retention) : null, new Date()],
+    )
+
+    return result.rows[0] ? this.mapSiteRow(result.rows[0] as PgSiteRow) : null
+  }
+
+  public async setSiteReportTemplate(siteId: string, template: ReportTemplate | null): Promise<Site | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE sites
+       SET report_template = $2::jsonb,
+           updated_at = $3
+       WHERE id = $1
+       RETURNING *`,
+      [siteId, template ? JSON.stringify(template) : null, new Date()],
+    )
+
+    return result.rows[0] ? this.mapSiteRow(result.rows[0] as PgSiteRow) : null
   }
 
-  public async createInspection(input: { technicianId: string; siteId: string }): Promise<Inspection> {
+  public async createInspection(input: {
+    technicianId: string
+    siteId: string
+    assetIds?: string[]
+  }): Promise<Inspection> {
     await this.initPromise
     const id = uuidv4()
     const now = new Date()
+    const assetIds = [...new Set(input.assetIds || [])]
 
     await this.pool.query(
       `INSERT INTO inspections (
          id, technician_id, site_id, timestamp, status, images, safety_flags, detected_faults,
-         recommended_actions, ocr_findings, workflow_events, transcript, summary
+         recommended_actions, ocr_findings, workflow_events, transcript, summary, asset_ids
        ) VALUES (
          $1, $2, $3, $4, 'in_progress', $5, $6::jsonb, $7::jsonb,
-         $8, $9::jsonb, $10::jsonb, $11, NULL
+         $8, $9::jsonb, $10::jsonb, $11, NULL, $12
        )`,
       [
         id,
@@ -152,6 +715,7 @@ export class PostgresDataService implements DataService {
         JSON.stringify([]),
         JSON.stringify([]),
         '',
+        assetIds,
       ],
     )
 
@@ -161,13 +725,16 @@ export class PostgresDataService implements DataService {
       siteId: input.siteId,
       timestamp: now,
       status: 'in_progress',
+      assetIds,
       images: [],
       safetyFlags: [],
       detectedFaults: [],
       recommendedActions: [],
       ocrFindings: [],
+      anomalyFindings: [],
       workflowEvents: [],
       transcript: '',
+      version: 1,
     }
   }
 
@@ -185,58 +752,148 @@ export class PostgresDataService implements DataService {
     return this.mapInspectionRow(result.rows[0] as PgInspectionRow)
   }
 
-  public async listInspections(filters: {
-    technicianId?: string
-    siteId?: string
-    status?: 'in_progress' | 'completed'
-  }): Promise<Inspection[]> {
+  public async listInspections(filters: ListInspectionFilters): Promise<Inspection[]> {
     await this.initPromise
-    const conditions: string[] = []
-    const values: Array<string> = []
+    const values: Array<string | number> = []
+    const conditions = this.inspectionFilterConditions(filters, values)
 
-    if (filters.technicianId) {
-      values.push(filters.technicianId)
-      conditions.push(`technician_id = $${values.length}`)
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const result = await this.pool.query(
+      `SELECT * FROM inspections ${whereClause} ORDER BY timestamp DESC LIMIT 50`,
+      values,
+    )
+
+    return result.rows.map((row) => this.mapInspectionRow(row as PgInspectionRow))
+  }
+
+  public async searchInspections(query: InspectionSearchQuery): Promise<InspectionPage> {
+    await this.initPromise
+    const sortBy = query.sortBy ?? 'timestamp'
+    const sortOrder = query.sortOrder ?? 'desc'
+    const column = INSPECTION_SORT_COLUMNS[sortBy]
+    const direction = sortOrder === 'asc' ? 'ASC' : 'DESC'
+    const values: Array<string | number> = []
+    const conditions = this.inspectionFilterConditions(query, values)
+
+    if (query.from) {
+      values.push(query.from.toISOString())
+      conditions.push(`timestamp >= $${values.length}`)
     }
-    if (filters.siteId) {
-      values.push(filters.siteId)
-      conditions.push(`site_id = $${values.length}`)
+    if (query.to) {
+      values.push(query.to.toISOString())
+      conditions.push(`timestamp <= $${values.length}`)
     }
-    if (filters.status) {
-      values.push(filters.status)
-      conditions.push(`status = $${values.length}`)
+    if (query.search?.trim()) {
+      values.push(query.search.trim())
+      conditions.push(`search_vector @@ websearch_to_tsquery('english', $${values.length})`)
+    }
+    if (query.cursor) {
+      const cursor = decodeInspectionCursor(query.cursor, sortBy, sortOrder)
+      values.push(cursor.value, cursor.id)
+      const cast = sortBy === 'timestamp' ? '::timestamptz' : ''
+      conditions.push(
+        `(${column}, id) ${sortOrder === 'asc' ? '>' : '<'} ($${values.length - 1}${cast}, $${values.length})`,
+      )
     }
 
+    values.push(normalizeInspectionPageSize(query.limit) + 1)
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
     const result = await this.pool.query(
-      `SELECT * FROM inspections ${whereClause} ORDER BY timestamp DESC LIMIT 50`,
+      `SELECT * FROM inspections ${whereClause}
+       ORDER BY ${column} ${direction}, id ${direction}
+       LIMIT $${values.length}`,
       values,
     )
 
-    return result.rows.map((row) => this.mapInspectionRow(row as PgInspectionRow))
+    return toInspectionPage(
+      result.rows.map((row) => this.mapInspectionRow(row as PgInspectionRow)),
+      query,
+    )
   }
 
   public async updateInspectionStatus(
     inspectionId: string,
-    input: { status: 'in_progress' | 'completed'; summary?: string },
+    input: {
+      status: InspectionStatus
+      summary?: string
+      checklistOverrideReason?: string
+      review?: InspectionReview
+      expectedVersion?: number
+    },
   ): Promise<Inspection | null> {
     await this.initPromise
     const result = await this.pool.query(
       `UPDATE inspections
        SET status = $2,
-           summary = COALESCE($3, summary)
-       WHERE id = $1
+           summary = COALESCE($3, summary),
+           checklist_override_reason = COALESCE($4, checklist_override_reason),
+           review = COALESCE($6::jsonb, review),
+           version = version + 1
+       WHERE id = $1 AND ($5::integer IS NULL OR version = $5)
+       RETURNING *`,
+      [
+        inspectionId,
+        input.status,
+        input.summary || null,
+        input.checklistOverrideReason || null,
+        input.expectedVersion ?? null,
+        input.review ? JSON.stringify(input.review) : null,
+      ],
+    )
+
+    if (result.rowCount === 0) {
+      await this.assertNoVersionConflict(inspectionId, input.expectedVersion)
+      return null
+    }
+
+    return this.mapInspectionRow(result.rows[0] as PgInspectionRow)
+  }
+
+  public async linkInspectionAssets(
+    inspectionId: string,
+    assetIds: string[],
+    expectedVersion?: number,
+  ): Promise<Inspection | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE inspections
+       SET asset_ids = ARRAY(
+         SELECT DISTINCT unnest(COALESCE(asset_ids, ARRAY[]::text[]) || $2::text[])
+       ),
+           version = version + 1
+       WHERE id = $1 AND ($3::integer IS NULL OR version = $3)
        RETURNING *`,
-      [inspectionId, input.status, input.summary || null],
+      [inspectionId, assetIds, expectedVersion ?? null],
     )
 
     if (result.rowCount === 0) {
+      await this.assertNoVersionConflict(inspectionId, expectedVersion)
       return null
     }
 
     return this.mapInspectionRow(result.rows[0] as PgInspectionRow)
   }
 
+  public async setInspectionChecklist(
+    inspectionId: string,
+    checklist: InspectionChecklist,
+    expectedVersion?: number,
+  ): Promise<void> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE inspections
+       SET checklist = $2::jsonb,
+           version = version + 1
+       WHERE id = $1 AND ($3::integer IS NULL OR version = $3)`,
+      [inspectionId, JSON.stringify(checklist), expectedVersion ?? null],
+    )
+
+    if (result.rowCount === 0) {
+      await this.assertNoVersionConflict(inspectionId, expectedVersion)
+      throw new Error('Inspection not found')
+    }
+  }
+
   public async appendInspectionSafetyFlags(inspectionId: string, flags: SafetyFlag[]): Promise<void> {
     if (flags.length === 0) {
       return
@@ -252,7 +909,8 @@ export class PostgresDataService implements DataService {
 
     const result = await this.pool.query(
       `UPDATE inspections
-       SET safety_flags = COALESCE(safety_flags, '[]'::jsonb) || $2::jsonb
+       SET safety_flags = COALESCE(safety_flags, '[]'::jsonb) || $2::jsonb,
+           version = version + 1
        WHERE id = $1`,
       [inspectionId, JSON.stringify(payload)],
     )
@@ -277,11 +935,13 @@ export class PostgresDataService implements DataService {
       confidence: fault.confidence,
       description: fault.description,
       recommendedActions: Array.isArray(fault.recommendedActions) ? fault.recommendedActions : [],
+      assetId: fault.assetId,
     }))
 
     const result = await this.pool.query(
       `UPDATE inspections
-       SET detected_faults = COALESCE(detected_faults, '[]'::jsonb) || $2::jsonb
+       SET detected_faults = COALESCE(detected_faults, '[]'::jsonb) || $2::jsonb,
+           version = version + 1
        WHERE id = $1`,
       [inspectionId, JSON.stringify(payload)],
     )
@@ -291,33 +951,84 @@ export class PostgresDataService implements DataService {
     }
   }
 
-  public async appendInspectionTranscript(inspectionId: string, entry: string): Promise<void> {
-    const trimmed = entry.trim()
-    if (!trimmed) {
-      return
+  public async appendInspectionTranscript(inspectionId: string, entry: NewTranscriptEntry): Promise<TranscriptEntry> {
+    const text = entry.text.trim()
+    if (!text) {
+      throw new Error('Transcript entry text is required')
     }
 
     await this.initPromise
+    // The row lock taken by the UPDATE serializes appends, so the returned count is a free sequence
     const result = await this.pool.query(
-      `UPDATE inspections
-       SET transcript = CASE
-         WHEN COALESCE(transcript, '') = '' THEN $2
-         ELSE transcript || E'\\n' || $2
-       END
-       WHERE id = $1`,
-      [inspectionId, trimmed],
+      `WITH target AS (
+         UPDATE inspections
+         SET transcript = CASE
+               WHEN COALESCE(transcript, '') = '' THEN $2
+               ELSE transcript || E'\\n' || $2
+             END,
+             transcript_entry_count = transcript_entry_count + 1,
+             version = version + 1
+         WHERE id = $1
+         RETURNING transcript_entry_count
+       )
+       INSERT INTO transcript_entries (id, inspection_id, sequence, speaker, text, timestamp, language, source)
+       SELECT $3, $1, transcript_entry_count, $4, $5, $6, $7, $8 FROM target
+       RETURNING *`,
+      [
+        inspectionId,
+        formatTranscriptLine({ speaker: entry.speaker, text }),
+        uuidv4(),
+        entry.speaker,
+        text,
+        entry.timestamp ?? new Date(),
+        entry.language || null,
+        entry.source,
+      ],
     )
 
     if (result.rowCount === 0) {
       throw new Error('Inspection not found')
     }
+
+    return this.mapTranscriptEntryRow(result.rows[0] as PgTranscriptEntryRow)
+  }
+
+  public async listTranscriptEntries(inspectionId: string, query: TranscriptQuery = {}): Promise<TranscriptEntry[]> {
+    await this.initPromise
+    const conditions = ['inspection_id = $1']
+    const values: Array<string | number> = [inspectionId]
+
+    if (query.afterSequence !== undefined) {
+      values.push(query.afterSequence)
+      conditions.push(`sequence > $${values.length}`)
+    }
+    if (query.speaker) {
+      values.push(query.speaker)
+      conditions.push(`speaker = $${values.length}`)
+    }
+    if (query.search) {
+      values.push(query.search)
+      conditions.push(`strpos(lower(text), lower($${values.length})) > 0`)
+    }
+
+    values.push(normalizeTranscriptPageSize(query.limit))
+    const result = await this.pool.query(
+      `SELECT * FROM transcript_entries
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY sequence ASC
+       LIMIT $${values.length}`,
+      values,
+    )
+
+    return result.rows.map((row) => this.mapTranscriptEntryRow(row as PgTranscriptEntryRow))
   }
 
   public async appendInspectionImage(inspectionId: string, imageUrl: string): Promise<void> {
     await this.initPromise
     const result = await this.pool.query(
       `UPDATE inspections
-       SET images = array_append(COALESCE(images, ARRAY[]::text[]), $2)
+       SET images = array_append(COALESCE(images, ARRAY[]::text[]), $2),
+           version = version + 1
        WHERE id = $1`,
       [inspectionId, imageUrl],
     )
@@ -339,7 +1050,8 @@ export class PostgresDataService implements DataService {
 
     const result = await this.pool.query(
       `UPDATE inspections
-       SET ocr_findings = COALESCE(ocr_findings, '[]'::jsonb) || $2::jsonb
+       SET ocr_findings = COALESCE(ocr_findings, '[]'::jsonb) || $2::jsonb,
+           version = version + 1
        WHERE id = $1`,
       [inspectionId, JSON.stringify([withDate])],
     )
@@ -349,6 +1061,29 @@ export class PostgresDataService implements DataService {
     }
   }
 
+  public async appendInspectionAnomalyFindings(
+    inspectionId: string,
+    findings: ReadingAnomaly[],
+  ): Promise<void> {
+    await this.initPromise
+    const payload = findings.map((finding) => ({
+      ...finding,
+      createdAt: finding.createdAt.toISOString(),
+    }))
+
+    const result = await this.pool.query(
+      `UPDATE inspections
+       SET anomaly_findings = COALESCE(anomaly_findings, '[]'::jsonb) || $2::jsonb,
+           version = version + 1
+       WHERE id = $1`,
+      [inspectionId, JSON.stringify(payload)],
+    )
+
+    if (result.rowCount === 0) {
+      throw new Error('Inspection not found')
+    }
+  }
+
   public async appendInspectionWorkflowEvent(
     inspectionId: string,
     event: Omit<WorkflowEvent, 'id' | 'createdAt'>,
@@ -362,7 +1097,8 @@ export class PostgresDataService implements DataService {
 
     const result = await this.pool.query(
       `UPDATE inspections
-       SET workflow_events = COALESCE(workflow_events, '[]'::jsonb) || $2::jsonb
+       SET workflow_events = COALESCE(workflow_events, '[]'::jsonb) || $2::jsonb,
+           version = version + 1
        WHERE id = $1`,
       [inspectionId, JSON.stringify([{ ...nextEvent, createdAt: nextEvent.createdAt.toISOString() }])],
     )
@@ -374,6 +1110,69 @@ export class PostgresDataService implements DataService {
     return nextEvent
   }
 
+  public async purgeInspectionData(
+    inspectionId: string,
+    classes: RetentionDataClass[],
+  ): Promise<InspectionPurgeResult | null> {
+    await this.initPromise
+    const purge = new Set(classes)
+    // CTEs share one snapshot, so `target` holds the counts from before the purge
+    const result = await this.pool.query(
+      `WITH target AS (
+         SELECT id,
+                COALESCE(cardinality(images), 0) AS image_count,
+                jsonb_array_length(COALESCE(ocr_findings, '[]'::jsonb)) AS ocr_count
+         FROM inspections
+         WHERE id = $1
+         FOR UPDATE
+       ),
+       purged AS (
+         UPDATE inspections i
+         SET transcript = CASE WHEN $2 THEN '' ELSE i.transcript END,
+             images = CASE WHEN $3 THEN ARRAY[]::text[] ELSE i.images END,
+             ocr_findings = CASE WHEN $4 THEN '[]'::jsonb ELSE i.ocr_findings END,
+             version = i.version + 1
+         FROM target
+         WHERE i.id = target.id
+       ),
+       removed_entries AS (
+         DELETE FROM transcript_entries
+         WHERE $2 AND inspection_id IN (SELECT id FROM target)
+         RETURNING id
+       ),
+       removed_report AS (
+         DELETE FROM inspection_reports
+         WHERE $5 AND inspection_id IN (SELECT id FROM target)
+         RETURNING inspection_id
+       ),
+       cleared_excerpt AS (
+         UPDATE inspection_reports
+         SET transcript_excerpt = ARRAY[]::text[]
+         WHERE $2 AND NOT $5 AND inspection_id IN (SELECT id FROM target)
+       )
+       SELECT
+         (SELECT count(*) FROM removed_entries)::integer AS transcript_entries,
+         CASE WHEN $3 THEN target.image_count ELSE 0 END AS images,
+         CASE WHEN $4 THEN target.ocr_count ELSE 0 END AS ocr_findings,
+         EXISTS (SELECT 1 FROM removed_report) AS report
+       FROM target`,
+      [inspectionId, purge.has('transcripts'), purge.has('images'), purge.has('ocr'), purge.has('reports')],
+    )
+
+    const row = result.rows[0] as
+      | { transcript_entries: number; images: number; ocr_findings: number; report: boolean }
+      | undefined
+    if (!row) {
+      return null
+    }
+    return {
+      transcriptEntries: Number(row.transcript_entries),
+      images: Number(row.images),
+      ocrFindings: Number(row.ocr_findings),
+      report: row.report,
+    }
+  }
+
   public async generateInspectionReport(inspectionId: string): Promise<InspectionReport | null> {
     await this.initPromise
     const inspection = await this.getInspectionById(inspectionId)
@@ -381,96 +1180,188 @@ export class PostgresDataService implements DataService {
       return null
     }
 
-    const findings = inspection.detectedFaults.map((fault) =>
-      `${fault.component}: ${fault.faultType} (${Math.round(fault.confidence * 100)}% confidence)`,
-    )
-    const safetySummary = inspection.safetyFlags.map(
-      (flag) => `${flag.severity.toUpperCase()} - ${flag.description}`,
+    const sources = {
+      timeEntries: await this.listTimeEntries(inspectionId),
+      partOrders: await this.listPartOrders({ inspectionId }),
+      annotations: await this.listAnnotations(inspectionId),
+      transcriptEntries: await this.listAllTranscriptEntries(inspectionId),
+    }
+
+    for (let attempt = 1; ; attempt += 1) {
+      const latest = await this.pool.query(
+        `SELECT COALESCE(MAX(version), 0) AS version FROM inspection_reports WHERE inspection_id = $1`,
+        [inspectionId],
+      )
+      const report = buildInspectionReport(inspection, sources, Number(latest.rows[0].version) + 1)
+      try {
+        await this.writeInspectionReport(report, false)
+        return report
+      } catch (error) {
+        // 23505 is unique_violation: a concurrent generation took this version first
+        if ((error as { code?: string }).code !== '23505' || attempt >= REPORT_VERSION_ATTEMPTS) {
+          throw error
+        }
+      }
+    }
+  }
+
+  public async getInspectionReport(inspectionId: string, version?: number): Promise<InspectionReport | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `SELECT * FROM inspection_reports
+       WHERE inspection_id = $1 AND ($2::integer IS NULL OR version = $2)
+       ORDER BY version DESC
+       LIMIT 1`,
+      [inspectionId, version ?? null],
     )
-    const workflowSummary = inspection.workflowEvents.map((event) => {
-      const status = event.status.toUpperCase()
-      const reference = event.externalReferenceId ? ` (${event.externalReferenceId})` : ''
-      return `${status} - ${event.action}: ${event.resultMessage}${reference}`
-    })
 
-    const report: InspectionReport = {
-      inspectionId: inspection.id,
-      generatedAt: new Date(),
-      technicianId: inspection.technicianId,
-      siteId: inspection.siteId,
-      status: inspection.status,
-      findings,
-      safetySummary,
-      workflowSummary,
-      recommendedActions: inspection.recommendedActions,
-      imageCount: inspection.images.length,
-      summaryText:
-        inspection.summary ||
-        `Inspection ${inspection.id} has ${findings.length} findings, ${safetySummary.length} safety flags, and ${inspection.images.length} captured images.`,
+    if (result.rowCount === 0) {
+      return null
     }
 
+    return this.mapInspectionReportRow(result.rows[0] as PgInspectionReportRow)
+  }
+
+  public async listInspectionReportVersions(inspectionId: string): Promise<InspectionReport[]> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `SELECT * FROM inspection_reports WHERE inspection_id = $1 ORDER BY version ASC`,
+      [inspectionId],
+    )
+
+    return result.rows.map((row) => this.mapInspectionReportRow(row as PgInspectionReportRow))
+  }
+
+  public async createReportJob(input: NewReportJob): Promise<ReportGenerationJob> {
+    await this.initPromise
+    const id = uuidv4()
+    const now = new Date()
+
     await this.pool.query(
-      `INSERT INTO inspection_reports (
-         inspection_id, generated_at, technician_id, site_id, status, findings,
-         safety_summary, workflow_summary, recommended_actions, image_count, summary_text
-       ) VALUES (
-         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11
-       )
-       ON CONFLICT (inspection_id)
-       DO UPDATE SET
-         generated_at = EXCLUDED.generated_at,
-         technician_id = EXCLUDED.technician_id,
-         site_id = EXCLUDED.site_id,
-         status = EXCLUDED.status,
-         findings = EXCLUDED.findings,
-         safety_summary = EXCLUDED.safety_summary,
-         workflow_summary = EXCLUDED.workflow_summary,
-         recommended_actions = EXCLUDED.recommended_actions,
-         image_count = EXCLUDED.image_count,
-         summary_text = EXCLUDED.summary_text`,
-      [
-        report.inspectionId,
-        report.generatedAt,
-        report.technicianId,
-        report.siteId,
-        report.status,
-        report.findings,
-        report.safetySummary,
-        report.workflowSummary,
-        report.recommendedActions,
-        report.imageCount,
-        report.summaryText,
-      ],
+      `INSERT INTO report_jobs (
+         id, inspection_id, status, provider, attempts, max_attempts, next_attempt_at, created_at, updated_at
+       ) VALUES ($1, $2, 'queued', $3, 0, $4, $5, $6, $7)`,
+      [id, input.inspectionId, input.provider, input.maxAttempts, input.nextAttemptAt || null, now, now],
     )
 
-    return report
+    return {
+      jobId: id,
+      ...input,
+      status: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  public async getReportJob(jobId: string): Promise<ReportGenerationJob | null> {
+    await this.initPromise
+    const result = await this.pool.query(`SELECT * FROM report_jobs WHERE id = $1 LIMIT 1`, [jobId])
+
+    if (result.rowCount === 0) {
+      return null
+    }
+
+    return this.mapReportJobRow(result.rows[0] as PgReportJobRow)
+  }
+
+  public async listReportJobs(filters: ListReportJobFilters): Promise<ReportGenerationJob[]> {
+    await this.initPromise
+    const conditions: string[] = []
+    const values: Array<string | string[] | number> = []
+
+    if (filters.inspectionId) {
+      values.push(filters.inspectionId)
+      conditions.push(`inspection_id = $${values.length}`)
+    }
+    if (filters.statuses && filters.statuses.length > 0) {
+      values.push(filters.statuses)
+      conditions.push(`status = ANY($${values.length})`)
+    }
+    values.push(Math.min(filters.limit ?? 200, 200))
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const result = await this.pool.query(
+      `SELECT * FROM report_jobs ${whereClause} ORDER BY created_at DESC LIMIT $${values.length}`,
+      values,
+    )
+
+    return result.rows.map((row) => this.mapReportJobRow(row as PgReportJobRow))
   }
 
-  public async getInspectionReport(inspectionId: string): Promise<InspectionReport | null> {
+  public async claimReportJob(claim: ReportJobClaim): Promise<ReportGenerationJob | null> {
     await this.initPromise
+    // SKIP LOCKED lets concurrent workers pass over a job another one is claiming
     const result = await this.pool.query(
-      `SELECT * FROM inspection_reports WHERE inspection_id = $1 LIMIT 1`,
-      [inspectionId],
+      `UPDATE report_jobs
+       SET status = 'processing',
+           attempts = attempts + 1,
+           lease_expires_at = $2,
+           updated_at = $3
+       WHERE id = (
+         SELECT id FROM report_jobs
+         WHERE ($4::text IS NULL OR id = $4)
+           AND (
+             (status = 'queued' AND ($4::text IS NOT NULL OR next_attempt_at IS NULL OR next_attempt_at <= $1))
+             OR (status = 'processing' AND (lease_expires_at IS NULL OR lease_expires_at <= $1))
+           )
+         ORDER BY COALESCE(
+                    CASE WHEN status = 'processing' THEN lease_expires_at ELSE next_attempt_at END,
+                    created_at
+                  ),
+                  created_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [claim.now, new Date(claim.now.getTime() + claim.leaseMs), new Date(), claim.jobId ?? null],
     )
 
     if (result.rowCount === 0) {
       return null
     }
 
-    const row = result.rows[0]
-    return {
-      inspectionId: row.inspection_id,
-      generatedAt: new Date(row.generated_at),
-      technicianId: row.technician_id,
-      siteId: row.site_id,
-      status: row.status,
-      findings: row.findings || [],
-      safetySummary: row.safety_summary || [],
-      workflowSummary: row.workflow_summary || [],
-      recommendedActions: row.recommended_actions || [],
-      imageCount: Number(row.image_count || 0),
-      summaryText: row.summary_text || '',
+    return this.mapReportJobRow(result.rows[0] as PgReportJobRow)
+  }
+
+  public async updateReportJob(
+    jobId: string,
+    expected: ReportJobRevision,
+    input: UpdateReportJobInput,
+  ): Promise<ReportGenerationJob | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE report_jobs
+       SET status = $2,
+           provider = $3,
+           attempts = $4,
+           next_attempt_at = $5,
+           lease_expires_at = $6,
+           report_generated_at = $7,
+           error = $8,
+           updated_at = $9
+       WHERE id = $1 AND status = $10 AND attempts = $11
+       RETURNING *`,
+      [
+        jobId,
+        input.status,
+        input.provider,
+        input.attempts,
+        input.nextAttemptAt || null,
+        input.leaseExpiresAt || null,
+        input.reportGeneratedAt || null,
+        input.error || null,
+        new Date(),
+        expected.status,
+        expected.attempts,
+      ],
+    )
+
+    if (result.rowCount === 0) {
+      return null
     }
+
+    return this.mapReportJobRow(result.rows[0] as PgReportJobRow)
   }
 
   public async createSiteAsset(
@@ -497,7 +1388,7 @@ export class PostgresDataService implements DataService {
   public async listSiteAssets(siteId: string): Promise<SiteAsset[]> {
     await this.initPromise
     const result = await this.pool.query(
-      `SELECT id, site_id, name, asset_type, serial_number, location, notes, created_at, updated_at
+      `SELECT id, site_id, name, asset_type, serial_number, location, notes, risk_assessment, created_at, updated_at
        FROM site_assets
        WHERE site_id = $1
        ORDER BY created_at DESC
@@ -505,17 +1396,33 @@ export class PostgresDataService implements DataService {
       [siteId],
     )
 
-    return result.rows.map((row) => ({
-      id: row.id,
-      siteId: row.site_id,
-      name: row.name,
-      assetType: row.asset_type,
-      serialNumber: row.serial_number || undefined,
-      location: row.location || undefined,
-      notes: row.notes || undefined,
-      createdAt: new Date(row.created_at),
-      updatedAt: new Date(row.updated_at),
-    }))
+    return result.rows.map((row) => this.mapSiteAssetRow(row as PgSiteAssetRow))
+  }
+
+  public async getSiteAsset(assetId: string): Promise<SiteAsset | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `SELECT id, site_id, name, asset_type, serial_number, location, notes, risk_assessment, created_at, updated_at
+       FROM site_assets
+       WHERE id = $1`,
+      [assetId],
+    )
+
+    return result.rows[0] ? this.mapSiteAssetRow(result.rows[0] as PgSiteAssetRow) : null
+  }
+
+  public async updateSiteAssetRisk(assetId: string, assessment: AssetRiskAssessment): Promise<void> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE site_assets
+       SET risk_assessment = $2::jsonb
+       WHERE id = $1`,
+      [assetId, JSON.stringify(assessment)],
+    )
+
+    if (result.rowCount === 0) {
+      throw new Error('Site asset not found')
+    }
   }
 
   public async deleteSiteAsset(assetId: string): Promise<void> {
@@ -523,109 +1430,1267 @@ export class PostgresDataService implements DataService {
     await this.pool.query(`DELETE FROM site_assets WHERE id = $1`, [assetId])
   }
 
-  private mapInspectionRow(row: PgInspectionRow): Inspection {
+  public async createTimeEntry(input: Omit<TimeEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<TimeEntry> {
+    await this.initPromise
+    const id = uuidv4()
+    const now = new Date()
+
+    try {
+      await this.pool.query(
+        `INSERT INTO time_entries (
+           id, inspection_id, task_name, notes, status, started_at, resumed_at, ended_at,
+           duration_seconds, created_at, updated_at
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          id,
+          input.inspectionId,
+          input.taskName,
+          input.notes || null,
+          input.status,
+          input.startedAt,
+          input.resumedAt || null,
+          input.endedAt || null,
+          input.durationSeconds,
+          now,
+          now,
+        ],
+      )
+    } catch (error) {
+      if (isRunningTimeEntryViolation(error)) {
+        throw runningTaskConflict(input.inspectionId)
+      }
+      throw error
+    }
+
     return {
-      id: row.id,
-      technicianId: row.technician_id,
-      siteId: row.site_id,
-      timestamp: new Date(row.timestamp),
-      status: row.status,
-      images: row.images || [],
-      safetyFlags: (row.safety_flags || []).map((item) => ({
-        ...item,
-        timestamp: new Date(item.timestamp),
-      })),
-      detectedFaults: (row.detected_faults || []).map((item) => ({
-        ...item,
-        recommendedActions: Array.isArray(item.recommendedActions)
-          ? item.recommendedActions
-          : [],
-      })),
-      recommendedActions: row.recommended_actions || [],
-      ocrFindings: (row.ocr_findings || []).map((item) => ({
-        ...item,
-        createdAt: new Date(item.createdAt),
-      })),
-      workflowEvents: (row.workflow_events || []).map((item) => ({
-        ...item,
-        createdAt: new Date(item.createdAt),
-      })),
-      transcript: row.transcript || '',
-      summary: row.summary || undefined,
+      id,
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  public async updateTimeEntry(entryId: string, input: UpdateTimeEntryInput): Promise<TimeEntry | null> {
+    await this.initPromise
+    let result
+    try {
+      result = await this.pool.query(
+        `UPDATE time_entries
+         SET status = $2,
+             resumed_at = $3,
+             ended_at = $4,
+             duration_seconds = $5,
+             notes = $6,
+             updated_at = $7
+         WHERE id = $1
+         RETURNING *`,
+        [
+          entryId,
+          input.status,
+          input.resumedAt || null,
+          input.endedAt || null,
+          input.durationSeconds,
+          input.notes || null,
+          new Date(),
+        ],
+      )
+    } catch (error) {
+      if (isRunningTimeEntryViolation(error)) {
+        const entry = await this.pool.query(`SELECT inspection_id FROM time_entries WHERE id = $1`, [entryId])
+        throw runningTaskConflict(String(entry.rows[0]?.inspection_id))
+      }
+      throw error
+    }
+
+    if (result.rowCount === 0) {
+      return null
+    }
+
+    return this.mapTimeEntryRow(result.rows[0] as PgTimeEntryRow)
+  }
+
+  public async listTimeEntries(inspectionId: string): Promise<TimeEntry[]> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `SELECT * FROM time_entries WHERE inspection_id = $1 ORDER BY started_at ASC`,
+      [inspectionId],
+    )
+
+    return result.rows.map((row) => this.mapTimeEntryRow(row as PgTimeEntryRow))
+  }
+
+  public async createPartOrder(input: Omit<PartOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<PartOrder> {
+    await this.initPromise
+    const id = uuidv4()
+    const now = new Date()
+
+    await this.pool.query(
+      `INSERT INTO part_orders (
+         id, inspection_id, part_number, quantity, urgency, status, supplier_provider, notes,
+         status_note, external_reference_id, estimated_delivery, created_at, updated_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+      [
+        id,
+        input.inspectionId,
+        input.partNumber,
+        input.quantity,
+        input.urgency,
+        input.status,
+        input.supplierProvider,
+        input.notes || null,
+        input.statusNote || null,
+        input.externalReferenceId || null,
+        input.estimatedDelivery || null,
+        now,
+        now,
+      ],
+    )
+
+    return {
+      id,
+      ...input,
+      createdAt: now,
+      updatedAt: now,
     }
   }
 
-  private async initializeSchema(): Promise<void> {
-    await this.pool.query(`
-      CREATE TABLE IF NOT EXISTS technicians (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        email TEXT NOT NULL,
-        role TEXT NOT NULL,
-        created_at TIMESTAMPTZ NOT NULL,
-        updated_at TIMESTAMPTZ NOT NULL
-      );
-    `)
-
-    await this.pool.query(`
-      CREATE TABLE IF NOT EXISTS sites (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL,
-        location JSONB NOT NULL,
-        technician_ids TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
-        created_at TIMESTAMPTZ NOT NULL,
-        updated_at TIMESTAMPTZ NOT NULL
-      );
-    `)
-
-    await this.pool.query(`
-      CREATE TABLE IF NOT EXISTS inspections (
-        id TEXT PRIMARY KEY,
-        technician_id TEXT NOT NULL,
-        site_id TEXT NOT NULL,
-        timestamp TIMESTAMPTZ NOT NULL,
-        status TEXT NOT NULL,
-        images TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
-        safety_flags JSONB NOT NULL DEFAULT '[]'::jsonb,
-        detected_faults JSONB NOT NULL DEFAULT '[]'::jsonb,
-        recommended_actions TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
-        ocr_findings JSONB NOT NULL DEFAULT '[]'::jsonb,
-        workflow_events JSONB NOT NULL DEFAULT '[]'::jsonb,
-        transcript TEXT NOT NULL DEFAULT '',
-        summary TEXT
-      );
-    `)
-
-    await this.pool.query(`
-      CREATE TABLE IF NOT EXISTS inspection_reports (
-        inspection_id TEXT PRIMARY KEY,
-        generated_at TIMESTAMPTZ NOT NULL,
-        technician_id TEXT NOT NULL,
-        site_id TEXT NOT NULL,
-        status TEXT NOT NULL,
-        findings TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
-        safety_summary TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
-        workflow_summary TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
-        recommended_actions TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
-        image_count INTEGER NOT NULL DEFAULT 0,
-        summary_text TEXT NOT NULL DEFAULT ''
-      );
-    `)
-
-    await this.pool.query(`
-      CREATE TABLE IF NOT EXISTS site_assets (
-        id TEXT PRIMARY KEY,
-        site_id TEXT NOT NULL,
-        name TEXT NOT NULL,
-        asset_type TEXT NOT NULL,
-        serial_number TEXT,
-        location TEXT,
-        notes TEXT,
-        created_at TIMESTAMPTZ NOT NULL,
-        updated_at TIMESTAMPTZ NOT NULL
-      );
-      CREATE INDEX IF NOT EXISTS idx_site_assets_site_id ON site_assets(site_id);
-    `)
+  public async getPartOrderById(orderId: string): Promise<PartOrder | null> {
+    await this.initPromise
+    const result = await this.pool.query(`SELECT * FROM part_orders WHERE id = $1 LIMIT 1`, [orderId])
+
+    if (result.rowCount === 0) {
+      return null
+    }
+
+    return this.mapPartOrderRow(result.rows[0] as PgPartOrderRow)
+  }
+
+  public async updatePartOrder(orderId: string, input: UpdatePartOrderInput): Promise<PartOrder | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE part_orders
+       SET status = $2,
+           status_note = $3,
+           external_reference_id = $4,
+           estimated_delivery = $5,
+           updated_at = $6
+       WHERE id = $1
+       RETURNING *`,
+      [
+        orderId,
+        input.status,
+        input.statusNote || null,
+        input.externalReferenceId || null,
+        input.estimatedDelivery || null,
+        new Date(),
+      ],
+    )
+
+    if (result.rowCount === 0) {
+      return null
+    }
+
+    return this.mapPartOrderRow(result.rows[0] as PgPartOrderRow)
+  }
+
+  public async listPartOrders(filters: ListPartOrderFilters): Promise<PartOrder[]> {
+    await this.initPromise
+    const conditions: string[] = []
+    const values: Array<string | string[]> = []
+
+    if (filters.inspectionId) {
+      values.push(filters.inspectionId)
+      conditions.push(`inspection_id = $${values.length}`)
+    }
+    if (filters.statuses && filters.statuses.length > 0) {
+      values.push(filters.statuses)
+      conditions.push(`status = ANY($${values.length})`)
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const result = await this.pool.query(
+      `SELECT * FROM part_orders ${whereClause} ORDER BY created_at DESC LIMIT 200`,
+      values,
+    )
+
+    return result.rows.map((row) => this.mapPartOrderRow(row as PgPartOrderRow))
+  }
+
+  public async createExpertContact(
+    input: Omit<ExpertContact, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<ExpertContact> {
+    await this.initPromise
+    const id = uuidv4()
+    const now = new Date()
+
+    await this.pool.query(
+      `INSERT INTO expert_contacts (
+         id, name, email, role, specialty, availability, contact_method, created_at, updated_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        id,
+        input.name,
+        input.email || null,
+        input.role,
+        input.specialty,
+        input.availability,
+        input.contactMethod,
+        now,
+        now,
+      ],
+    )
+
+    return {
+      id,
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  public async listExpertContacts(): Promise<ExpertContact[]> {
+    await this.initPromise
+    const result = await this.pool.query(`SELECT * FROM expert_contacts ORDER BY name ASC LIMIT 200`)
+    return result.rows.map((row) => this.mapExpertContactRow(row as PgExpertContactRow))
+  }
+
+  public async updateExpertContactAvailability(
+    expertId: string,
+    availability: ExpertContact['availability'],
+  ): Promise<ExpertContact | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE expert_contacts
+       SET availability = $2,
+           updated_at = $3
+       WHERE id = $1
+       RETURNING *`,
+      [expertId, availability, new Date()],
+    )
+
+    if (result.rowCount === 0) {
+      return null
+    }
+
+    return this.mapExpertContactRow(result.rows[0] as PgExpertContactRow)
+  }
+
+  public async createExpertEscalation(
+    input: Omit<ExpertEscalation, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<ExpertEscalation> {
+    await this.initPromise
+    const id = uuidv4()
+    const now = new Date()
+
+    await this.pool.query(
+      `INSERT INTO expert_escalations (
+         id, inspection_id, reason, priority, required_expertise, status, context,
+         assigned_expert_id, contacted_expert_ids, acknowledge_by, acknowledged_at,
+         resolved_at, resolution_note, created_at, updated_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9, $10, $11, $12, $13, $14, $15)`,
+      [
+        id,
+        input.inspectionId,
+        input.reason,
+        input.priority,
+        input.requiredExpertise,
+        input.status,
+        JSON.stringify(input.context),
+        input.assignedExpertId || null,
+        input.contactedExpertIds,
+        input.acknowledgeBy || null,
+        input.acknowledgedAt || null,
+        input.resolvedAt || null,
+        input.resolutionNote || null,
+        now,
+        now,
+      ],
+    )
+
+    return {
+      id,
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  public async getExpertEscalationById(escalationId: string): Promise<ExpertEscalation | null> {
+    await this.initPromise
+    const result = await this.pool.query(`SELECT * FROM expert_escalations WHERE id = $1 LIMIT 1`, [
+      escalationId,
+    ])
+
+    if (result.rowCount === 0) {
+      return null
+    }
+
+    return this.mapExpertEscalationRow(result.rows[0] as PgExpertEscalationRow)
+  }
+
+  public async updateExpertEscalation(
+    escalationId: string,
+    expected: ExpertEscalationRevision,
+    input: UpdateExpertEscalationInput,
+  ): Promise<ExpertEscalation | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE expert_escalations
+       SET status = $2,
+           assigned_expert_id = $3,
+           contacted_expert_ids = $4,
+           acknowledge_by = $5,
+           acknowledged_at = $6,
+           resolved_at = $7,
+           resolution_note = $8,
+           updated_at = $9
+       WHERE id = $1 AND status = $10 AND assigned_expert_id IS NOT DISTINCT FROM $11
+       RETURNING *`,
+      [
+        escalationId,
+        input.status,
+        input.assignedExpertId || null,
+        input.contactedExpertIds,
+        input.acknowledgeBy || null,
+        input.acknowledgedAt || null,
+        input.resolvedAt || null,
+        input.resolutionNote || null,
+        new Date(),
+        expected.status,
+        expected.assignedExpertId || null,
+      ],
+    )
+
+    if (result.rowCount === 0) {
+      return null
+    }
+
+    return this.mapExpertEscalationRow(result.rows[0] as PgExpertEscalationRow)
+  }
+
+  public async listExpertEscalations(filters: ListExpertEscalationFilters): Promise<ExpertEscalation[]> {
+    await this.initPromise
+    const conditions: string[] = []
+    const values: Array<string | string[]> = []
+
+    if (filters.inspectionId) {
+      values.push(filters.inspectionId)
+      conditions.push(`inspection_id = $${values.length}`)
+    }
+    if (filters.statuses && filters.statuses.length > 0) {
+      values.push(filters.statuses)
+      conditions.push(`status = ANY($${values.length})`)
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const result = await this.pool.query(
+      `SELECT * FROM expert_escalations ${whereClause} ORDER BY created_at DESC LIMIT 200`,
+      values,
+    )
+
+    return result.rows.map((row) => this.mapExpertEscalationRow(row as PgExpertEscalationRow))
+  }
+
+  public async createShareSession(input: Omit<ShareSession, 'id' | 'createdAt'>): Promise<ShareSession> {
+    await this.initPromise
+    const id = uuidv4()
+    const now = new Date()
+
+    await this.pool.query(
+      `INSERT INTO share_sessions (
+         id, inspection_id, host_technician_id, expert_email, status, access_token, reason,
+         created_at, expires_at, ended_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        id,
+        input.inspectionId,
+        input.hostTechnicianId,
+        input.expertEmail,
+        input.status,
+        input.accessToken,
+        input.reason || null,
+        now,
+        input.expiresAt,
+        input.endedAt || null,
+      ],
+    )
+
+    return {
+      id,
+      ...input,
+      createdAt: now,
+    }
+  }
+
+  public async getShareSessionById(sessionId: string): Promise<ShareSession | null> {
+    await this.initPromise
+    const result = await this.pool.query(`SELECT * FROM share_sessions WHERE id = $1 LIMIT 1`, [sessionId])
+
+    if (result.rowCount === 0) {
+      return null
+    }
+
+    return this.mapShareSessionRow(result.rows[0] as PgShareSessionRow)
+  }
+
+  public async updateShareSessionStatus(
+    sessionId: string,
+    status: ShareSessionStatus,
+    endedAt?: Date,
+  ): Promise<ShareSession | null> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `UPDATE share_sessions
+       SET status = $2,
+           ended_at = $3
+       WHERE id = $1
+       RETURNING *`,
+      [sessionId, status, endedAt || null],
+    )
+
+    if (result.rowCount === 0) {
+      return null
+    }
+
+    return this.mapShareSessionRow(result.rows[0] as PgShareSessionRow)
+  }
+
+  public async listShareSessions(filters: ListShareSessionFilters): Promise<ShareSession[]> {
+    await this.initPromise
+    const conditions: string[] = []
+    const values: Array<string | string[]> = []
+
+    if (filters.inspectionId) {
+      values.push(filters.inspectionId)
+      conditions.push(`inspection_id = $${values.length}`)
+    }
+    if (filters.statuses && filters.statuses.length > 0) {
+      values.push(filters.statuses)
+      conditions.push(`status = ANY($${values.length})`)
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const result = await this.pool.query(
+      `SELECT * FROM share_sessions ${whereClause} ORDER BY created_at DESC LIMIT 200`,
+      values,
+    )
+
+    return result.rows.map((row) => this.mapShareSessionRow(row as PgShareSessionRow))
+  }
+
+  public async createAnnotation(
+    input: Omit<InspectionAnnotation, 'id' | 'createdAt'>,
+  ): Promise<InspectionAnnotation> {
+    await this.initPromise
+    const id = uuidv4()
+    const now = new Date()
+
+    await this.pool.query(
+      `INSERT INTO inspection_annotations (
+         id, inspection_id, snapshot_url, author_role, author_id, tool, color, points, text, created_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9, $10)`,
+      [
+        id,
+        input.inspectionId,
+        input.snapshotUrl || null,
+        input.authorRole,
+        input.authorId || null,
+        input.tool,
+        input.color,
+        JSON.stringify(input.points),
+        input.text || null,
+        now,
+      ],
+    )
+
+    return {
+      id,
+      ...input,
+      createdAt: now,
+    }
+  }
+
+  public async listAnnotations(inspectionId: string): Promise<InspectionAnnotation[]> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `SELECT * FROM inspection_annotations WHERE inspection_id = $1 ORDER BY created_at ASC`,
+      [inspectionId],
+    )
+
+    return result.rows.map((row) => this.mapAnnotationRow(row as PgAnnotationRow))
+  }
+
+  public async deleteAnnotation(inspectionId: string, annotationId: string): Promise<boolean> {
+    await this.initPromise
+    const result = await this.pool.query(
+      `DELETE FROM inspection_annotations WHERE id = $1 AND inspection_id = $2`,
+      [annotationId, inspectionId],
+    )
+    return (result.rowCount || 0) > 0
+  }
+
+  public async createChecklistTemplate(
+    input: Omit<ChecklistTemplate, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<ChecklistTemplate> {
+    await this.initPromise
+    const id = uuidv4()
+    const now = new Date()
+
+    await this.pool.query(
+      `INSERT INTO checklist_templates (id, name, site_type, items, created_at, updated_at)
+       VALUES ($1, $2, $3, $4::jsonb, $5, $6)`,
+      [id, input.name, input.siteType, JSON.stringify(input.items), now, now],
+    )
+
+    return {
+      id,
+      ...input,
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  public async getChecklistTemplate(templateId: string): Promise<ChecklistTemplate | null> {
+    await this.initPromise
+    const result = await this.pool.query(`SELECT * FROM checklist_templates WHERE id = $1`, [templateId])
+    return result.rows[0] ? this.mapChecklistTemplateRow(result.rows[0] as PgChecklistTemplateRow) : null
+  }
+
+  public async listChecklistTemplates(siteType?: ChecklistTemplate['siteType']): Promise<ChecklistTemplate[]> {
+    await this.initPromise
+    const result = siteType
+      ? await this.pool.query(
+          `SELECT * FROM checklist_templates WHERE site_type = $1 ORDER BY created_at DESC`,
+          [siteType],
+        )
+      : await this.pool.query(`SELECT * FROM checklist_templates ORDER BY created_at DESC`)
+
+    return result.rows.map((row) => this.mapChecklistTemplateRow(row as PgChecklistTemplateRow))
+  }
+
+  public async deleteChecklistTemplate(templateId: string): Promise<boolean> {
+    await this.initPromise
+    const result = await this.pool.query(`DELETE FROM checklist_templates WHERE id = $1`, [templateId])
+    return (result.rowCount || 0) > 0
+  }
+
+  public async appendAuditEntry(entry: AuditEntry): Promise<void> {
+    await this.initPromise
+    try {
+      await this.pool.query(
+        `INSERT INTO audit_log (
+           sequence, id, occurred_at, actor, action, entity_type, entity_id, changes,
+           ip_address, request_id, source, previous_hash, hash
+         ) VALUES ($1, $2, $3, $4::jsonb, $5, $6, $7, $8::jsonb, $9, $10, $11, $12, $13)`,
+        [
+          entry.sequence,
+          entry.id,
+          entry.occurredAt,
+          entry.actor ? JSON.stringify(entry.actor) : null,
+          entry.action,
+          entry.entityType,
+          entry.entityId,
+          JSON.stringify(entry.changes),
+          entry.ipAddress,
+          entry.requestId,
+          entry.source,
+          entry.previousHash,
+          entry.hash,
+        ],
+      )
+    } catch (error) {
+      // 23505 is unique_violation: another writer took this chain position first
+      if ((error as { code?: string }).code === '23505') {
+        throw new AuditSequenceConflictError(entry.sequence)
+      }
+      throw error
+    }
+  }
+
+  public async getLatestAuditEntry(): Promise<AuditEntry | null> {
+    await this.initPromise
+    const result = await this.pool.query(`SELECT * FROM audit_log ORDER BY sequence DESC LIMIT 1`)
+
+    return result.rows[0] ? this.mapAuditLogRow(result.rows[0] as PgAuditLogRow) : null
+  }
+
+  public async listAuditEntries(query: AuditLogQuery): Promise<AuditEntry[]> {
+    await this.initPromise
+    const conditions: string[] = []
+    const values: Array<string | number | Date> = []
+
+    if (query.afterSequence !== undefined) {
+      values.push(query.afterSequence)
+      conditions.push(`sequence > $${values.length}`)
+    }
+    if (query.actorUid) {
+      values.push(query.actorUid)
+      conditions.push(`actor->>'uid' = $${values.length}`)
+    }
+    if (query.action) {
+      values.push(query.action)
+      conditions.push(`action = $${values.length}`)
+    }
+    if (query.entityType) {
+      values.push(query.entityType)
+      conditions.push(`entity_type = $${values.length}`)
+    }
+    if (query.entityId) {
+      values.push(query.entityId)
+      conditions.push(`entity_id = $${values.length}`)
+    }
+    if (query.from) {
+      values.push(query.from)
+      conditions.push(`occurred_at >= $${values.length}`)
+    }
+    if (query.to) {
+      values.push(query.to)
+      conditions.push(`occurred_at <= $${values.length}`)
+    }
+
+    values.push(normalizeAuditPageSize(query.limit))
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    const result = await this.pool.query(
+      `SELECT * FROM audit_log ${whereClause} ORDER BY sequence ASC LIMIT $${values.length}`,
+      values,
+    )
+
+    return result.rows.map((row) => this.mapAuditLogRow(row as PgAuditLogRow))
+  }
+
+  public async listArchiveRecords<T extends ArchiveRecordType>(
+    type: T,
+    afterId: string | null,
+    limit: number,
+  ): Promise<Array<ArchiveRecordMap[T]>> {
+    await this.initPromise
+    const { table, key } = ARCHIVE_TABLES[type]
+    const result = await this.pool.query(
+      `SELECT * FROM ${table}
+       WHERE $1::text IS NULL OR ${key} > $1
+       ORDER BY ${key} ASC
+       LIMIT $2`,
+      [afterId, limit],
+    )
+
+    return result.rows.map((row) => this.mapArchiveRow(type, row))
+  }
+
+  public async getArchiveRecord<T extends ArchiveRecordType>(type: T, id: string): Promise<ArchiveRecordMap[T] | null> {
+    await this.initPromise
+    const { table, key } = ARCHIVE_TABLES[type]
+    const result = await this.pool.query(`SELECT * FROM ${table} WHERE ${key} = $1 LIMIT 1`, [id])
+
+    return result.rows[0] ? this.mapArchiveRow(type, result.rows[0]) : null
+  }
+
+  public async putArchiveRecord<T extends ArchiveRecordType>(type: T, record: ArchiveRecordMap[T]): Promise<void> {
+    await this.initPromise
+    switch (type) {
+      case 'technician': {
+        const technician = record as Technician
+        await this.pool.query(
+          `INSERT INTO technicians (id, name, email, role, created_at, updated_at, deleted_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           ON CONFLICT (id) DO UPDATE SET
+             name = EXCLUDED.name,
+             email = EXCLUDED.email,
+             role = EXCLUDED.role,
+             created_at = EXCLUDED.created_at,
+             updated_at = EXCLUDED.updated_at,
+             deleted_at = EXCLUDED.deleted_at`,
+          [
+            technician.id,
+            technician.name,
+            technician.email,
+            technician.role,
+            technician.createdAt,
+            technician.updatedAt,
+            technician.deletedAt || null,
+          ],
+        )
+        return
+      }
+      case 'site': {
+        const site = record as Site
+        await this.pool.query(
+          `INSERT INTO sites (
+             id, name, type, location, technician_ids, created_at, updated_at, deleted_at, retention, report_template
+           ) VALUES ($1, $2, $3, $4::jsonb, $5, $6, $7, $8, $9::jsonb, $10::jsonb)
+           ON CONFLICT (id) DO UPDATE SET
+             name = EXCLUDED.name,
+             type = EXCLUDED.type,
+             location = EXCLUDED.location,
+             technician_ids = EXCLUDED.technician_ids,
+             retention = EXCLUDED.retention,
+             report_template = EXCLUDED.report_template,
+             created_at = EXCLUDED.created_at,
+             updated_at = EXCLUDED.updated_at,
+             deleted_at = EXCLUDED.deleted_at`,
+          [
+            site.id,
+            site.name,
+            site.type,
+            JSON.stringify(site.location),
+            site.technicianIds,
+            site.createdAt,
+            site.updatedAt,
+            site.deletedAt || null,
+            site.retention ? JSON.stringify(site.retention) : null,
+            site.reportTemplate ? JSON.stringify(site.reportTemplate) : null,
+          ],
+        )
+        return
+      }
+      case 'asset': {
+        const asset = record as SiteAsset
+        await this.pool.query(
+          `INSERT INTO site_assets (
+             id, site_id, name, asset_type, serial_number, location, notes, risk_assessment, created_at, updated_at
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9, $10)
+           ON CONFLICT (id) DO UPDATE SET
+             site_id = EXCLUDED.site_id,
+             name = EXCLUDED.name,
+             asset_type = EXCLUDED.asset_type,
+             serial_number = EXCLUDED.serial_number,
+             location = EXCLUDED.location,
+             notes = EXCLUDED.notes,
+             risk_assessment = EXCLUDED.risk_assessment,
+             created_at = EXCLUDED.created_at,
+             updated_at = EXCLUDED.updated_at`,
+          [
+            asset.id,
+            asset.siteId,
+            asset.name,
+            asset.assetType,
+            asset.serialNumber || null,
+            asset.location || null,
+            asset.notes || null,
+            asset.riskAssessment ? JSON.stringify(asset.riskAssessment) : null,
+            asset.createdAt,
+            asset.updatedAt,
+          ],
+        )
+        return
+      }
+      case 'inspection': {
+        const inspection = record as Inspection
+        await this.pool.query(
+          `INSERT INTO inspections (
+             id, technician_id, site_id, timestamp, status, asset_ids, images, safety_flags, detected_faults,
+             recommended_actions, ocr_findings, anomaly_findings, workflow_events, transcript, summary,
+             checklist, checklist_override_reason, version, review
+           ) VALUES (
+             $1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9::jsonb,
+             $10, $11::jsonb, $12::jsonb, $13::jsonb, $14, $15,
+             $16::jsonb, $17, $18, $19::jsonb
+           )
+           ON CONFLICT (id) DO UPDATE SET
+             technician_id = EXCLUDED.technician_id,
+             site_id = EXCLUDED.site_id,
+             timestamp = EXCLUDED.timestamp,
+             status = EXCLUDED.status,
+             asset_ids = EXCLUDED.asset_ids,
+             images = EXCLUDED.images,
+             safety_flags = EXCLUDED.safety_flags,
+             detected_faults = EXCLUDED.detected_faults,
+             recommended_actions = EXCLUDED.recommended_actions,
+             ocr_findings = EXCLUDED.ocr_findings,
+             anomaly_findings = EXCLUDED.anomaly_findings,
+             workflow_events = EXCLUDED.workflow_events,
+             transcript = EXCLUDED.transcript,
+             summary = EXCLUDED.summary,
+             checklist = EXCLUDED.checklist,
+             checklist_override_reason = EXCLUDED.checklist_override_reason,
+             version = EXCLUDED.version,
+             review = EXCLUDED.review`,
+          [
+            inspection.id,
+            inspection.technicianId,
+            inspection.siteId,
+            inspection.timestamp,
+            inspection.status,
+            inspection.assetIds,
+            inspection.images,
+            JSON.stringify(inspection.safetyFlags),
+            JSON.stringify(inspection.detectedFaults),
+            inspection.recommendedActions,
+            JSON.stringify(inspection.ocrFindings),
+            JSON.stringify(inspection.anomalyFindings),
+            JSON.stringify(inspection.workflowEvents),
+            inspection.transcript,
+            inspection.summary || null,
+            inspection.checklist ? JSON.stringify(inspection.checklist) : null,
+            inspection.checklistOverrideReason || null,
+            inspection.version ?? 1,
+            inspection.review ? JSON.stringify(inspection.review) : null,
+          ],
+        )
+        return
+      }
+      case 'transcript': {
+        const entry = record as TranscriptEntry
+        await this.pool.query(
+          `INSERT INTO transcript_entries (id, inspection_id, sequence, speaker, text, timestamp, language, source)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+           ON CONFLICT (id) DO UPDATE SET
+             inspection_id = EXCLUDED.inspection_id,
+             sequence = EXCLUDED.sequence,
+             speaker = EXCLUDED.speaker,
+             text = EXCLUDED.text,
+             timestamp = EXCLUDED.timestamp,
+             language = EXCLUDED.language,
+             source = EXCLUDED.source`,
+          [
+            entry.id,
+            entry.inspectionId,
+            entry.sequence,
+            entry.speaker,
+            entry.text,
+            entry.timestamp,
+            entry.language || null,
+            entry.source,
+          ],
+        )
+        await this.pool.query(
+          `UPDATE inspections SET transcript_entry_count = GREATEST(transcript_entry_count, $2) WHERE id = $1`,
+          [entry.inspectionId, entry.sequence],
+        )
+        return
+      }
+      case 'report':
+        await this.writeInspectionReport(record as InspectionReport, true)
+        return
+    }
+  }
+
+  /** Reports quote from the whole transcript, which can run past one page. */
+  /** A conditional update that matched no row either lost the version race or found no inspection. */
+  private async assertNoVersionConflict(inspectionId: string, expectedVersion: number | undefined): Promise<void> {
+    if (expectedVersion === undefined) {
+      return
+    }
+    const result = await this.pool.query(`SELECT version FROM inspections WHERE id = $1`, [inspectionId])
+    if (result.rows[0]) {
+      throw new InspectionVersionConflictError(Number(result.rows[0].version))
+    }
+  }
+
+  private async listAllTranscriptEntries(inspectionId: string): Promise<TranscriptEntry[]> {
+    const entries: TranscriptEntry[] = []
+    for (;;) {
+      const page = await this.listTranscriptEntries(inspectionId, {
+        afterSequence: entries[entries.length - 1]?.sequence,
+        limit: MAX_TRANSCRIPT_PAGE_SIZE,
+      })
+      entries.push(...page)
+      if (page.length < MAX_TRANSCRIPT_PAGE_SIZE) {
+        return entries
+      }
+    }
+  }
+
+  /** New versions are plain inserts so a taken version fails; only archive imports replace one. */
+  private async writeInspectionReport(report: InspectionReport, replace: boolean): Promise<void> {
+    const onConflict = `
+       ON CONFLICT (inspection_id, version)
+       DO UPDATE SET
+         content_hash = EXCLUDED.content_hash,
+         generated_at = EXCLUDED.generated_at,
+         technician_id = EXCLUDED.technician_id,
+         site_id = EXCLUDED.site_id,
+         status = EXCLUDED.status,
+         findings = EXCLUDED.findings,
+         safety_summary = EXCLUDED.safety_summary,
+         workflow_summary = EXCLUDED.workflow_summary,
+         recommended_actions = EXCLUDED.recommended_actions,
+         image_count = EXCLUDED.image_count,
+         total_tracked_minutes = EXCLUDED.total_tracked_minutes,
+         time_summary = EXCLUDED.time_summary,
+         open_part_orders = EXCLUDED.open_part_orders,
+         annotation_summary = EXCLUDED.annotation_summary,
+         transcript_excerpt = EXCLUDED.transcript_excerpt,
+         summary_text = EXCLUDED.summary_text`
+    await this.pool.query(
+      `INSERT INTO inspection_reports (
+         inspection_id, generated_at, technician_id, site_id, status, findings,
+         safety_summary, workflow_summary, recommended_actions, image_count,
+         total_tracked_minutes, time_summary, open_part_orders, annotation_summary, transcript_excerpt, summary_text,
+         version, content_hash
+       ) VALUES (
+         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18
+       )${replace ? onConflict : ''}`,
+      [
+        report.inspectionId,
+        report.generatedAt,
+        report.technicianId,
+        report.siteId,
+        report.status,
+        report.findings,
+        report.safetySummary,
+        report.workflowSummary,
+        report.recommendedActions,
+        report.imageCount,
+        report.totalTrackedMinutes,
+        report.timeSummary,
+        report.openPartOrders,
+        report.annotationSummary,
+        report.transcriptExcerpt,
+        report.summaryText,
+        report.version,
+        report.contentHash,
+      ],
+    )
+  }
+
+  private mapArchiveRow<T extends ArchiveRecordType>(type: T, row: unknown): ArchiveRecordMap[T] {
+    const mappers: Record<ArchiveRecordType, (value: unknown) => ArchiveRecordMap[ArchiveRecordType]> = {
+      technician: (value) => this.mapTechnicianRow(value as PgTechnicianRow),
+      site: (value) => this.mapSiteRow(value as PgSiteRow),
+      asset: (value) => this.mapSiteAssetRow(value as PgSiteAssetRow),
+      inspection: (value) => this.mapInspectionRow(value as PgInspectionRow),
+      transcript: (value) => this.mapTranscriptEntryRow(value as PgTranscriptEntryRow),
+      report: (value) => this.mapInspectionReportRow(value as PgInspectionReportRow),
+    }
+    return mappers[type](row) as ArchiveRecordMap[T]
+  }
+
+  private mapTechnicianRow(row: PgTechnicianRow): Technician {
+    return {
+      id: row.id,
+      name: row.name,
+      email: row.email,
+      role: row.role,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
+    }
+  }
+
+  private mapSiteRow(row: PgSiteRow): Site {
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type,
+      location: row.location,
+      technicianIds: row.technician_ids || [],
+      retention: readRetentionPolicy(row.retention),
+      reportTemplate: readReportTemplate(row.report_template),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      deletedAt: row.deleted_at ? new Date(row.deleted_at) : undefined,
+    }
+  }
+
+  private mapAuditLogRow(row: PgAuditLogRow): AuditEntry {
+    return {
+      id: row.id,
+      sequence: Number(row.sequence),
+      occurredAt: new Date(row.occurred_at),
+      actor: row.actor,
+      action: row.action,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      changes: row.changes || [],
+      ipAddress: row.ip_address,
+      requestId: row.request_id,
+      source: row.source,
+      previousHash: row.previous_hash,
+      hash: row.hash,
+    }
+  }
+
+  private mapTranscriptEntryRow(row: PgTranscriptEntryRow): TranscriptEntry {
+    return {
+      id: row.id,
+      inspectionId: row.inspection_id,
+      sequence: Number(row.sequence),
+      speaker: row.speaker,
+      text: row.text,
+      timestamp: new Date(row.timestamp),
+      language: row.language || undefined,
+      source: row.source,
+    }
+  }
+
+  private mapInspectionReportRow(row: PgInspectionReportRow): InspectionReport {
+    const report: InspectionReport = {
+      inspectionId: row.inspection_id,
+      version: Number(row.version),
+      contentHash: '',
+      generatedAt: new Date(row.generated_at),
+      technicianId: row.technician_id,
+      siteId: row.site_id,
+      status: row.status,
+      findings: row.findings || [],
+      safetySummary: row.safety_summary || [],
+      workflowSummary: row.workflow_summary || [],
+      recommendedActions: row.recommended_actions || [],
+      imageCount: Number(row.image_count || 0),
+      totalTrackedMinutes: Number(row.total_tracked_minutes || 0),
+      timeSummary: row.time_summary || [],
+      openPartOrders: row.open_part_orders || [],
+      annotationSummary: row.annotation_summary || [],
+      transcriptExcerpt: row.transcript_excerpt || [],
+      summaryText: row.summary_text || '',
+    }
+    // Reports stored before versioning have no hash; derive it from what is stored
+    report.contentHash = row.content_hash || reportContentHash(report)
+    return report
+  }
+
+  private mapChecklistTemplateRow(row: PgChecklistTemplateRow): ChecklistTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      siteType: row.site_type,
+      items: row.items || [],
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    }
+  }
+
+  private mapShareSessionRow(row: PgShareSessionRow): ShareSession {
+    return {
+      id: row.id,
+      inspectionId: row.inspection_id,
+      hostTechnicianId: row.host_technician_id,
+      expertEmail: row.expert_email,
+      status: row.status,
+      accessToken: row.access_token,
+      reason: row.reason || undefined,
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+      endedAt: row.ended_at ? new Date(row.ended_at) : undefined,
+    }
+  }
+
+  private mapAnnotationRow(row: PgAnnotationRow): InspectionAnnotation {
+    return {
+      id: row.id,
+      inspectionId: row.inspection_id,
+      snapshotUrl: row.snapshot_url || undefined,
+      authorRole: row.author_role,
+      authorId: row.author_id || undefined,
+      tool: row.tool,
+      color: row.color,
+      points: row.points || [],
+      text: row.text || undefined,
+      createdAt: new Date(row.created_at),
+    }
+  }
+
+  private mapExpertContactRow(row: PgExpertContactRow): ExpertContact {
+    return {
+      id: row.id,
+      name: row.name,
+      email: row.email || undefined,
+      role: row.role,
+      specialty: row.specialty || [],
+      availability: row.availability,
+      contactMethod: row.contact_method,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    }
+  }
+
+  private mapExpertEscalationRow(row: PgExpertEscalationRow): ExpertEscalation {
+    return {
+      id: row.id,
+      inspectionId: row.inspection_id,
+      reason: row.reason,
+      priority: row.priority,
+      requiredExpertise: row.required_expertise || [],
+      status: row.status,
+      context: row.context || {},
+      assignedExpertId: row.assigned_expert_id || undefined,
+      contactedExpertIds: row.contacted_expert_ids || [],
+      acknowledgeBy: row.acknowledge_by ? new Date(row.acknowledge_by) : undefined,
+      acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at) : undefined,
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+      resolutionNote: row.resolution_note || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    }
+  }
+
+  private mapReportJobRow(row: PgReportJobRow): ReportGenerationJob {
+    return {
+      jobId: row.id,
+      inspectionId: row.inspection_id,
+      status: readReportJobStatus(row.status),
+      provider: readReportPipelineProvider(row.provider),
+      attempts: Number(row.attempts),
+      maxAttempts: Number(row.max_attempts),
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      leaseExpiresAt: row.lease_expires_at ? new Date(row.lease_expires_at) : undefined,
+      reportGeneratedAt: row.report_generated_at ? new Date(row.report_generated_at) : undefined,
+      error: row.error || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    }
+  }
+
+  private mapPartOrderRow(row: PgPartOrderRow): PartOrder {
+    return {
+      id: row.id,
+      inspectionId: row.inspection_id,
+      partNumber: row.part_number,
+      quantity: Number(row.quantity),
+      urgency: row.urgency,
+      status: row.status,
+      supplierProvider: row.supplier_provider,
+      notes: row.notes || undefined,
+      statusNote: row.status_note || undefined,
+      externalReferenceId: row.external_reference_id || undefined,
+      estimatedDelivery: row.estimated_delivery ? new Date(row.estimated_delivery) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    }
+  }
+
+  private mapTimeEntryRow(row: PgTimeEntryRow): TimeEntry {
+    return {
+      id: row.id,
+      inspectionId: row.inspection_id,
+      taskName: row.task_name,
+      notes: row.notes || undefined,
+      status: row.status,
+      startedAt: new Date(row.started_at),
+      resumedAt: row.resumed_at ? new Date(row.resumed_at) : undefined,
+      endedAt: row.ended_at ? new Date(row.ended_at) : undefined,
+      durationSeconds: Number(row.duration_seconds || 0),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    }
+  }
+
+  private mapSiteAssetRow(row: PgSiteAssetRow): SiteAsset {
+    const risk = row.risk_assessment
+    return {
+      id: row.id,
+      siteId: row.site_id,
+      name: row.name,
+      assetType: row.asset_type,
+      serialNumber: row.serial_number || undefined,
+      location: row.location || undefined,
+      notes: row.notes || undefined,
+      riskAssessment: risk
+        ? {
+            ...risk,
+            lastInspectedAt: risk.lastInspectedAt ? new Date(risk.lastInspectedAt) : undefined,
+            computedAt: new Date(risk.computedAt),
+          }
+        : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    }
+  }
+
+  private inspectionFilterConditions(filters: ListInspectionFilters, values: Array<string | number>): string[] {
+    const conditions: string[] = []
+    if (filters.technicianId) {
+      values.push(filters.technicianId)
+      conditions.push(`technician_id = $${values.length}`)
+    }
+    if (filters.siteId) {
+      values.push(filters.siteId)
+      conditions.push(`site_id = $${values.length}`)
+    }
+    if (filters.assetId) {
+      values.push(filters.assetId)
+      conditions.push(`$${values.length} = ANY(asset_ids)`)
+    }
+    if (filters.status) {
+      values.push(filters.status)
+      conditions.push(`status = $${values.length}`)
+    }
+    return conditions
+  }
+
+  private mapInspectionRow(row: PgInspectionRow): Inspection {
+    return {
+      id: row.id,
+      technicianId: row.technician_id,
+      siteId: row.site_id,
+      timestamp: new Date(row.timestamp),
+      status: row.status,
+      assetIds: row.asset_ids || [],
+      images: row.images || [],
+      safetyFlags: (row.safety_flags || []).map((item) => ({
+        ...item,
+        timestamp: new Date(item.timestamp),
+      })),
+      detectedFaults: (row.detected_faults || []).map((item) => ({
+        ...item,
+        recommendedActions: Array.isArray(item.recommendedActions)
+          ? item.recommendedActions
+          : [],
+      })),
+      recommendedActions: row.recommended_actions || [],
+      ocrFindings: (row.ocr_findings || []).map((item) => ({
+        ...item,
+        createdAt: new Date(item.createdAt),
+      })),
+      anomalyFindings: (row.anomaly_findings || []).map((item) => ({
+        ...item,
+        createdAt: new Date(item.createdAt),
+      })),
+      workflowEvents: (row.workflow_events || []).map((item) => ({
+        ...item,
+        createdAt: new Date(item.createdAt),
+      })),
+      transcript: row.transcript || '',
+      summary: row.summary || undefined,
+      checklist: row.checklist
+        ? {
+            ...row.checklist,
+            items: row.checklist.items.map((item) => ({
+              ...item,
+              updatedAt: item.updatedAt ? new Date(item.updatedAt) : undefined,
+            })),
+          }
+        : undefined,
+      checklistOverrideReason: row.checklist_override_reason || undefined,
+      review: readInspectionReview(row.review),
+      version: row.version,
+    }
+  }
+
+  /** The organization directory is only ever read from the default schema. */
+  private directory(): PostgresDataService {
+    return this.views.get(DEFAULT_ORGANIZATION_ID) ?? this.forOrganization(DEFAULT_ORGANIZATION_ID)
+  }
+
+  private async readOrganizationRow(organizationId: string): Promise<PgOrganizationRow | null> {
+    const directory = this.directory()
+    await directory.initPromise
+    const result = await directory.pool.query(
+      'SELECT id, name, settings, created_at, updated_at FROM organizations WHERE id = $1',
+      [organizationId],
+    )
+    return (result.rows[0] as PgOrganizationRow | undefined) ?? null
+  }
+
+  private mapOrganizationRow(row: PgOrganizationRow): Organization {
+    return {
+      id: row.id,
+      name: row.name,
+      settings: row.settings ?? {},
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    }
+  }
+
+  /**
+   * Verifies the database is at this build's schema version. Pending migrations
+   * are applied first only when POSTGRES_MIGRATE_ON_START=true.
+   */
+  private async prepareSchema(): Promise<void> {
+    const migrator = new PostgresMigrator(this.pool)
+    if (process.env.POSTGRES_MIGRATE_ON_START?.trim().toLowerCase() === 'true') {
+      await migrator.up()
+    }
+    await migrator.assertCurrent()
   }
 }
@@ -0,0 +1,137 @@
+import type { Pool } from 'pg'
+import {
+  MigrationError,
+  migrationChecksum,
+  PostgresMigrator,
+  SchemaVersionError,
+  type Migration,
+} from './postgres-migrator'
+
+const migrations: Migration[] = [
+  { version: 1, name: 'create_widgets', up: 'CREATE TABLE widgets (id TEXT)', down: 'DROP TABLE widgets' },
+  { version: 2, name: 'add_widget_color', up: 'ALTER TABLE widgets ADD COLUMN color TEXT', down: 'ALTER TABLE widgets DROP COLUMN color' },
+]
+
+interface Row {
+  version: number
+  name: string
+  checksum: string
+  applied_at: Date
+}
+
+/** A pool whose schema_migrations table lives in memory; every other statement is just recorded. */
+function createPool(initial: Row[] = [], options: { failOn?: string } = {}) {
+  const rows = [...initial]
+  const statements: string[] = []
+  let tableExists = initial.length > 0
+  let pending: Row[] = []
+
+  const query = jest.fn(async (sql: string, params: unknown[] = []) => {
+    statements.push(sql.trim().split('\n')[0].trim())
+    if (options.failOn && sql.includes(options.failOn)) {
+      throw new Error('syntax error')
+    }
+    if (sql.includes('to_regclass')) {
+      return { rows: [{ exists: tableExists }] }
+    }
+    if (sql.includes('CREATE TABLE IF NOT EXISTS schema_migrations')) {
+      tableExists = true
+    } else if (sql.startsWith('SELECT version')) {
+      return { rows: [...rows].sort((a, b) => a.version - b.version) }
+    } else if (sql.startsWith('INSERT INTO schema_migrations')) {
+      const [version, name, checksum, appliedAt] = params as [number, string, string, Date]
+      pending.push({ version, name, checksum, applied_at: appliedAt })
+    } else if (sql.startsWith('DELETE FROM schema_migrations')) {
+      const index = rows.findIndex((row) => row.version === params[0])
+      rows.splice(index, 1)
+    } else if (sql === 'COMMIT') {
+      rows.push(...pending)
+      pending = []
+    } else if (sql === 'ROLLBACK') {
+      pending = []
+    }
+    return { rows: [] }
+  })
+  const release = jest.fn()
+  const pool = { query, connect: jest.fn(async () => ({ query, release })) } as unknown as Pool
+
+  return { pool, rows, statements, release }
+}
+
+function appliedRow(migration: Migration, checksum = migrationChecksum(migration)): Row {
+  return { version: migration.version, name: migration.name, checksum, applied_at: new Date('2026-01-01T00:00:00.000Z') }
+}
+
+describe('PostgresMigrator', () => {
+  it('applies pending migrations in order under an advisory lock and records their checksums', async () => {
+    const { pool, rows, statements, release } = createPool()
+    const migrator = new PostgresMigrator(pool, migrations)
+
+    await expect(migrator.assertCurrent()).rejects.toBeInstanceOf(SchemaVersionError)
+
+    const applied = await migrator.up()
+
+    expect(applied.map((migration) => migration.version)).toEqual([1, 2])
+    expect(rows.map((row) => [row.version, row.checksum])).toEqual([
+      [1, migrationChecksum(migrations[0])],
+      [2, migrationChecksum(migrations[1])],
+    ])
+    expect(statements.filter((sql) => !sql.startsWith('SELECT version'))).toEqual([
+      "SELECT to_regclass('schema_migrations') IS NOT NULL AS exists",
+      'SELECT pg_advisory_lock($1)',
+      'CREATE TABLE IF NOT EXISTS schema_migrations (',
+      "SELECT to_regclass('schema_migrations') IS NOT NULL AS exists",
+      'BEGIN',
+      'CREATE TABLE widgets (id TEXT)',
+      'INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES ($1, $2, $3, $4)',
+      'COMMIT',
+      'BEGIN',
+      'ALTER TABLE widgets ADD COLUMN color TEXT',
+      'INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES ($1, $2, $3, $4)',
+      'COMMIT',
+      'SELECT pg_advisory_unlock($1)',
+    ])
+    expect(release).toHaveBeenCalledTimes(1)
+    await expect(migrator.assertCurrent()).resolves.toMatchObject({ currentVersion: 2, latestVersion: 2 })
+  })
+
+  it('rolls back a failed migration and keeps earlier ones', async () => {
+    const { pool, rows } = createPool([], { failOn: 'ADD COLUMN color' })
+    const migrator = new PostgresMigrator(pool, migrations)
+
+    await expect(migrator.up()).rejects.toThrow('syntax error')
+    expect(rows.map((row) => row.version)).toEqual([1])
+  })
+
+  it('rolls back the newest migrations first', async () => {
+    const { pool, rows, statements } = createPool(migrations.map((migration) => appliedRow(migration)))
+    const migrator = new PostgresMigrator(pool, migrations)
+
+    const reverted = await migrator.down(2)
+
+    expect(reverted.map((migration) => migration.version)).toEqual([2, 1])
+    expect(statements).toContain('ALTER TABLE widgets DROP COLUMN color')
+    expect(statements.indexOf('ALTER TABLE widgets DROP COLUMN color')).toBeLessThan(statements.indexOf('DROP TABLE widgets'))
+    expect(rows).toEqual([])
+  })
+
+  it('refuses a database that is ahead of the code or has modified migrations', async () => {
+    const ahead = createPool([
+      ...migrations.map((migration) => appliedRow(migration)),
+      { version: 3, name: 'from_the_future', checksum: 'x', applied_at: new Date() },
+    ])
+    await expect(new PostgresMigrator(ahead.pool, migrations).assertCurrent()).rejects.toThrow(
+      'Database schema is at version 3, ahead of this build (2)',
+    )
+    await expect(new PostgresMigrator(ahead.pool, migrations).up()).rejects.toBeInstanceOf(MigrationError)
+
+    const modified = createPool([appliedRow(migrations[0], 'stale'), appliedRow(migrations[1])])
+    const status = await new PostgresMigrator(modified.pool, migrations).status()
+    expect(status.modified.map((row) => row.version)).toEqual([1])
+    await expect(new PostgresMigrator(modified.pool, migrations).assertCurrent()).rejects.toThrow(
+      'Applied migrations were modified after running: 1',
+    )
+
+    expect(() => new PostgresMigrator(ahead.pool, [migrations[1]])).toThrow('must be contiguous from 1')
+  })
+})
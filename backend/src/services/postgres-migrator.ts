@@ -0,0 +1,246 @@
+import { createHash } from 'crypto'
+import type { Pool, PoolClient } from 'pg'
+import { MIGRATIONS } from '../migrations'
+
+export interface Migration {
+  version: number
+  name: string
+  up: string
+  down: string
+}
+
+export interface AppliedMigration {
+  version: number
+  name: string
+  checksum: string
+  appliedAt: Date
+}
+
+export interface MigrationStatus {
+  currentVersion: number
+  latestVersion: number
+  applied: AppliedMigration[]
+  pending: Migration[]
+  /** Versions recorded in the database that this build does not know about. */
+  unknown: AppliedMigration[]
+  /** Applied migrations whose SQL has changed since they ran. */
+  modified: AppliedMigration[]
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MigrationError'
+  }
+}
+
+export class SchemaVersionError extends Error {
+  public readonly status: MigrationStatus
+
+  constructor(message: string, status: MigrationStatus) {
+    super(message)
+    this.name = 'SchemaVersionError'
+    this.status = status
+  }
+}
+
+interface PgMigrationRow {
+  version: number
+  name: string
+  checksum: string
+  applied_at: Date
+}
+
+type MigratorPool = Pick<Pool, 'query' | 'connect'>
+
+// Arbitrary application-wide key so only one migrator runs at a time
+const MIGRATION_LOCK_KEY = 4_815_162_342
+
+/** Whitespace-insensitive SHA-256 of a migration's up and down SQL. */
+export function migrationChecksum(migration: Migration): string {
+  const normalize = (sql: string) => sql.replace(/\s+/g, ' ').trim()
+  return createHash('sha256')
+    .update(`${normalize(migration.up)}\n--down--\n${normalize(migration.down)}`)
+    .digest('hex')
+}
+
+function assertOrdered(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new MigrationError(
+        `Migration versions must be contiguous from 1; found ${migration.version} at position ${index + 1}`,
+      )
+    }
+  })
+}
+
+export class PostgresMigrator {
+  private readonly pool: MigratorPool
+  private readonly migrations: Migration[]
+
+  constructor(pool: MigratorPool, migrations: Migration[] = MIGRATIONS) {
+    assertOrdered(migrations)
+    this.pool = pool
+    this.migrations = migrations
+  }
+
+  public async status(): Promise<MigrationStatus> {
+    const applied = await this.readApplied(this.pool)
+    return this.compare(applied)
+  }
+
+  /**
+   * Refuses to continue unless the database is exactly at this build's latest
+   * version with unmodified migrations. Called before the service handles requests.
+   */
+  public async assertCurrent(): Promise<MigrationStatus> {
+    const status = await this.status()
+    if (status.modified.length > 0) {
+      throw new SchemaVersionError(
+        `Applied migrations were modified after running: ${status.modified.map((item) => item.version).join(', ')}`,
+        status,
+      )
+    }
+    if (status.unknown.length > 0) {
+      throw new SchemaVersionError(
+        `Database schema is at version ${status.currentVersion}, ahead of this build (${status.latestVersion})`,
+        status,
+      )
+    }
+    if (status.pending.length > 0) {
+      throw new SchemaVersionError(
+        `Database schema is at version ${status.currentVersion}, behind this build (${status.latestVersion}); run "npm run migrate -- up"`,
+        status,
+      )
+    }
+    return status
+  }
+
+  /** Applies pending migrations in order, each in its own transaction. */
+  public async up(targetVersion = this.latestVersion()): Promise<Migration[]> {
+    return this.withLock(async (client) => {
+      const status = this.compare(await this.readApplied(client))
+      this.assertConsistent(status)
+      if (targetVersion < status.currentVersion) {
+        throw new MigrationError(`Target version ${targetVersion} is below the current version ${status.currentVersion}`)
+      }
+
+      const toApply = status.pending.filter((migration) => migration.version <= targetVersion)
+      for (const migration of toApply) {
+        await this.inTransaction(client, async () => {
+          await client.query(migration.up)
+          await client.query(
+            'INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES ($1, $2, $3, $4)',
+            [migration.version, migration.name, migrationChecksum(migration), new Date()],
+          )
+        })
+      }
+      return toApply
+    })
+  }
+
+  /** Rolls back the most recent `steps` migrations, newest first. */
+  public async down(steps = 1): Promise<Migration[]> {
+    return this.withLock(async (client) => {
+      const status = this.compare(await this.readApplied(client))
+      this.assertConsistent(status)
+
+      const toRevert = status.applied
+        .slice(-steps)
+        .reverse()
+        .map((applied) => this.migrations[applied.version - 1])
+      for (const migration of toRevert) {
+        await this.inTransaction(client, async () => {
+          await client.query(migration.down)
+          await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version])
+        })
+      }
+      return toRevert
+    })
+  }
+
+  private latestVersion(): number {
+    return this.migrations.length
+  }
+
+  private compare(applied: AppliedMigration[]): MigrationStatus {
+    const latestVersion = this.latestVersion()
+    const appliedVersions = new Set(applied.map((item) => item.version))
+    const known = applied.filter((item) => item.version <= latestVersion)
+
+    return {
+      currentVersion: applied.reduce((max, item) => Math.max(max, item.version), 0),
+      latestVersion,
+      applied: known,
+      pending: this.migrations.filter((migration) => !appliedVersions.has(migration.version)),
+      unknown: applied.filter((item) => item.version > latestVersion),
+      modified: known.filter((item) => item.checksum !== migrationChecksum(this.migrations[item.version - 1])),
+    }
+  }
+
+  private assertConsistent(status: MigrationStatus): void {
+    if (status.unknown.length > 0) {
+      throw new MigrationError(
+        `Database has migrations this build does not know about: ${status.unknown.map((item) => item.version).join(', ')}`,
+      )
+    }
+    if (status.modified.length > 0) {
+      throw new MigrationError(
+        `Applied migrations were modified after running: ${status.modified.map((item) => item.version).join(', ')}`,
+      )
+    }
+  }
+
+  private async readApplied(queryable: Pick<Pool | PoolClient, 'query'>): Promise<AppliedMigration[]> {
+    const exists = await queryable.query(`SELECT to_regclass('schema_migrations') IS NOT NULL AS exists`)
+    if (!exists.rows[0]?.exists) {
+      return []
+    }
+
+    const result = await queryable.query(
+      'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version ASC',
+    )
+    return result.rows.map((row) => {
+      const migration = row as PgMigrationRow
+      return {
+        version: Number(migration.version),
+        name: migration.name,
+        checksum: migration.checksum,
+        appliedAt: new Date(migration.applied_at),
+      }
+    })
+  }
+
+  private async withLock<T>(run: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect()
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY])
+      try {
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            checksum TEXT NOT NULL,
+            applied_at TIMESTAMPTZ NOT NULL
+          )
+        `)
+        return await run(client)
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY])
+      }
+    } finally {
+      client.release()
+    }
+  }
+
+  private async inTransaction(client: PoolClient, run: () => Promise<void>): Promise<void> {
+    await client.query('BEGIN')
+    try {
+      await run()
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { computeAssetRisk, PredictiveMaintenanceService } from './predictive-maintenance.service'
+import type { DataService } from './data-service'
+import type { AssetRiskAssessment, DetectedFault, Inspection, SiteAsset } from '../types'
+
+const now = new Date('2026-03-01T00:00:00.000Z')
+
+function asset(overrides: Partial<SiteAsset>): SiteAsset {
+  return {
+    id: 'asset-1',
+    siteId: 'site-1',
+    name: 'Feed pump',
+    assetType: 'centrifugal pump',
+    serialNumber: 'SN-100',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  }
+}
+
+function fault(faultType: string, component = 'bearing housing'): DetectedFault {
+  return {
+    component,
+    faultType,
+    confidence: 0.8,
+    description: `${faultType} observed`,
+    recommendedActions: [],
+  }
+}
+
+function inspection(id: string, daysAgo: number, overrides: Partial<Inspection>): Inspection {
+  return {
+    id,
+    technicianId: 'tech-1',
+    siteId: 'site-1',
+    timestamp: new Date(now.getTime() - daysAgo * 86_400_000),
+    status: 'completed',
+    assetIds: [],
+    images: [],
+    safetyFlags: [],
+    detectedFaults: [],
+    recommendedActions: [],
+    ocrFindings: [],
+    anomalyFindings: [],
+    workflowEvents: [],
+    transcript: '',
+    version: 1,
+    ...overrides,
+  }
+}
+
+function readsSerial(serial: string): Pick<Inspection, 'ocrFindings'> {
+  return {
+    ocrFindings: [
+      {
+        imageUrl: 'https://cdn.example.com/frame.jpg',
+        extractedText: serial,
+        serialNumbers: [serial],
+        partCodes: [],
+        meterReadings: [],
+        warningLabels: [],
+        confidence: 0.9,
+        createdAt: now,
+      },
+    ],
+  }
+}
+
+describe('computeAssetRisk', () => {
+  it('attributes serial-matched inspections and named faults, with recurrence and decay', () => {
+    const inspections = [
+      inspection('insp-1', 0, {
+        ...readsSerial(' sn-100 '),
+        detectedFaults: [fault('vibration')],
+        safetyFlags: [{ type: 'leak', severity: 'critical', description: 'Oil leak', timestamp: now }],
+      }),
+      inspection('insp-2', 90, { ...readsSerial('SN-100'), detectedFaults: [fault('vibration')] }),
+      inspection('insp-3', 10, {
+        detectedFaults: [fault('corrosion', 'Feed pump flange'), fault('crack', 'Cooling tower')],
+        safetyFlags: [{ type: 'spark', severity: 'high', description: 'Unrelated', timestamp: now }],
+      }),
+      inspection('insp-4', 0, { siteId: 'site-2', ...readsSerial('SN-100'), detectedFaults: [fault('leak')] }),
+    ]
+
+    const assessment = computeAssetRisk(asset({}), inspections, now)
+
+    expect(assessment.inspectionCount).toBe(3)
+    expect(assessment.lastInspectedAt).toEqual(now)
+    expect(assessment.contributions.faults).toBeCloseTo(8 + 4 + 8 * Math.pow(0.5, 10 / 90), 2)
+    expect(assessment.contributions.safetyFlags).toBe(12)
+    expect(assessment.contributions.recurrence).toBe(8)
+    expect(assessment.riskLevel).toBe('high')
+    expect(assessment.predictedFailures.map((failure) => failure.component)).toContain('generic')
+    expect(assessment.sparesToOrder).toEqual(['Bearings', 'Lubricant'])
+  })
+
+  it('scores an asset with no history as low risk', () => {
+    const assessment = computeAssetRisk(asset({}), [inspection('insp-1', 0, {})], now)
+
+    expect(assessment).toMatchObject({ riskScore: 0, riskLevel: 'low', inspectionCount: 0, predictedFailures: [] })
+    expect(assessment.maintenanceRecommendations).toEqual([
+      'Continue regular inspection schedule',
+      'Monitor equipment performance trends',
+    ])
+  })
+})
+
+describe('PredictiveMaintenanceService', () => {
+  function createDataService(assets: SiteAsset[], inspections: Inspection[]): Pick<
+    DataService,
+    'getInspectionById' | 'listInspections' | 'listSiteAssets' | 'getSiteAsset' | 'updateSiteAssetRisk'
+  > & { stored: Map<string, AssetRiskAssessment> } {
+    const stored = new Map<string, AssetRiskAssessment>()
+    const withRisk = (item: SiteAsset) => ({ ...item, riskAssessment: stored.get(item.id) ?? item.riskAssessment })
+
+    return {
+      stored,
+      async getInspectionById(id) {
+        return inspections.find((item) => item.id === id) ?? null
+      },
+      async listInspections(filters) {
+        return inspections.filter((item) => item.siteId === filters.siteId)
+      },
+      async listSiteAssets(siteId) {
+        return assets.filter((item) => item.siteId === siteId).map(withRisk)
+      },
+      async getSiteAsset(assetId) {
+        const found = assets.find((item) => item.id === assetId)
+        return found ? withRisk(found) : null
+      },
+      async updateSiteAssetRisk(assetId, assessment) {
+        stored.set(assetId, assessment)
+      },
+    }
+  }
+
+  it('rescores the site when an inspection completes and ranks the riskiest asset first', async () => {
+    const quiet = asset({ id: 'asset-quiet', name: 'Spare motor', serialNumber: 'SN-200' })
+    const noisy = asset({ id: 'asset-noisy' })
+    const dataService = createDataService(
+      [quiet, noisy],
+      [inspection('insp-1', 1, { ...readsSerial('SN-100'), detectedFaults: [fault('leak')] })],
+    )
+    const service = new PredictiveMaintenanceService(dataService)
+
+    const assessments = await service.recalculateForInspection('insp-1')
+    expect(assessments).toHaveLength(2)
+    expect(dataService.stored.get('asset-noisy')?.riskScore).toBeGreaterThan(0)
+
+    const ranked = await service.rankSiteAssets('site-1')
+    expect(ranked.map((item) => item.id)).toEqual(['asset-noisy', 'asset-quiet'])
+    await expect(service.getAssetRisk('site-1', 'asset-noisy')).resolves.toBe(
+      dataService.stored.get('asset-noisy'),
+    )
+  })
+
+  it('rejects assets that belong to another site', async () => {
+    const service = new PredictiveMaintenanceService(createDataService([asset({ siteId: 'site-2' })], []))
+
+    await expect(service.getAssetRisk('site-1', 'asset-1')).rejects.toThrow('Site asset not found')
+    await expect(service.recalculateForInspection('missing')).rejects.toThrow('Inspection not found')
+  })
+})
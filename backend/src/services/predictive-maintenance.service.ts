@@ -1,18 +1,14 @@
-import type { Inspection, DetectedFault } from '../types'
-
-export interface PredictiveMaintenanceResult {
-  riskScore: number
-  riskLevel: 'low' | 'medium' | 'high' | 'critical'
-  predictedFailures: Array<{
-    component: string
-    likelihood: number
-    timeframe: string
-    indicators: string[]
-  }>
-  maintenanceRecommendations: string[]
-  lastMaintenanceSuggestions: string[]
-  sparesToOrder: string[]
-}
+import type { DataService } from './data-service'
+import type {
+  AssetRiskAssessment,
+  DetectedFault,
+  Inspection,
+  PredictedFailure,
+  ReadingAnomaly,
+  RiskLevel,
+  SafetyFlag,
+  SiteAsset,
+} from '../types'
 
 interface MaintenancePattern {
   faultPattern: string[]
@@ -81,142 +77,315 @@ const MAINTENANCE_PATTERNS: Record<string, MaintenancePattern[]> = {
   ],
 }
 
-export class PredictiveMaintenanceService {
-  public async analyzeForPredictiveMaintenance(
-    inspection: Inspection,
-    faults: DetectedFault[],
-  ): Promise<PredictiveMaintenanceResult> {
-    const riskFactors = this.calculateRiskFactors(faults)
-    const riskScore = this.calculateRiskScore(riskFactors)
-    const riskLevel = this.determineRiskLevel(riskScore)
-
-    const predictedFailures = this.predictFailures(faults)
-    const recommendations = this.generateRecommendations(faults, predictedFailures)
-    const spares = this.identifySpares(faults)
-
-    return {
-      riskScore,
-      riskLevel,
-      predictedFailures,
-      maintenanceRecommendations: recommendations.maintenance,
-      lastMaintenanceSuggestions: recommendations.lastMaintenance,
-      sparesToOrder: spares,
-    }
-  }
+const SEVERITY_WEIGHTS: Record<RiskLevel, number> = {
+  critical: 1.0,
+  high: 0.75,
+  medium: 0.5,
+  low: 0.25,
+}
 
-  private calculateRiskFactors(faults: DetectedFault[]): number[] {
-    const severityMap: Record<string, number> = {
-      critical: 1.0,
-      high: 0.75,
-      medium: 0.5,
-      low: 0.25,
-    }
+const FAULT_POINTS = 10
+const SAFETY_FLAG_POINTS = 12
+const ANOMALY_POINTS = 15
+const RECURRENCE_POINTS = 8
+const HALF_LIFE_DAYS = 90
+// Points at which the score reaches ~63; more evidence keeps raising it but never past 100.
+const SCORE_SCALE = 40
+const DAY_MS = 86_400_000
 
-    return faults.map((fault) => {
-      const severity = severityMap[Object.keys(fault).find((k) => k === 'severity') || 'medium'] || 0.5
-      const confidence = fault.confidence || 0.5
-      return severity * confidence
-    })
+type PredictiveMaintenanceDataService = Pick<
+  DataService,
+  'getInspectionById' | 'listInspections' | 'listSiteAssets' | 'getSiteAsset' | 'updateSiteAssetRisk'
+>
+
+export interface AssetEvidence {
+  inspection: Inspection
+  faults: DetectedFault[]
+  safetyFlags: SafetyFlag[]
+  anomalies: ReadingAnomaly[]
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function normalizeSerial(serial: string): string {
+  return serial.trim().toUpperCase()
+}
+
+export function determineRiskLevel(score: number): RiskLevel {
+  if (score >= 75) return 'critical'
+  if (score >= 50) return 'high'
+  if (score >= 25) return 'medium'
+  return 'low'
+}
+
+/**
+ * Picks out what an inspection says about one asset. Inspections that target
+ * the asset or read its serial number (OCR or a scored meter reading) count in
+ * full, safety flags included. Faults tagged with another asset are skipped;
+ * untagged faults count when they name the asset or when the inspection
+ * targets no other asset.
+ */
+export function collectAssetEvidence(asset: SiteAsset, inspection: Inspection): AssetEvidence | null {
+  if (inspection.siteId !== asset.siteId) {
+    return null
   }
 
-  private calculateRiskScore(factors: number[]): number {
-    if (factors.length === 0) return 0
+  const serial = asset.serialNumber ? normalizeSerial(asset.serialNumber) : ''
+  const linked =
+    inspection.assetIds.includes(asset.id) ||
+    (serial !== '' &&
+      (inspection.ocrFindings.some((finding) =>
+        finding.serialNumbers.some((value) => normalizeSerial(value) === serial),
+      ) ||
+        inspection.anomalyFindings.some((finding) => finding.assetSerial === serial)))
+  const targetsOthers = inspection.assetIds.some((assetId) => assetId !== asset.id)
 
-    const avgRisk = factors.reduce((a, b) => a + b, 0) / factors.length
-    const maxRisk = Math.max(...factors)
-    const countRisk = Math.min(factors.length / 5, 1)
+  const name = asset.name.trim().toLowerCase()
+  const faults = inspection.detectedFaults.filter((fault) => {
+    if (fault.assetId) {
+      return fault.assetId === asset.id
+    }
+    const text = `${fault.component} ${fault.description}`.toLowerCase()
+    const named = (name !== '' && text.includes(name)) || (serial !== '' && text.toUpperCase().includes(serial))
+    return named || (linked && !targetsOthers)
+  })
 
-    return Math.min(100, (avgRisk * 40 + maxRisk * 40 + countRisk * 20))
+  if (!linked) {
+    return faults.length > 0 ? { inspection, faults, safetyFlags: [], anomalies: [] } : null
   }
 
-  private determineRiskLevel(score: number): PredictiveMaintenanceResult['riskLevel'] {
-    if (score >= 75) return 'critical'
-    if (score >= 50) return 'high'
-    if (score >= 25) return 'medium'
-    return 'low'
+  return {
+    inspection,
+    faults,
+    safetyFlags: inspection.safetyFlags,
+    anomalies: inspection.anomalyFindings.filter((finding) => finding.isAnomaly && finding.assetSerial === serial),
   }
+}
 
-  private predictFailures(faults: DetectedFault[]): PredictiveMaintenanceResult['predictedFailures'] {
-    const predictions: PredictiveMaintenanceResult['predictedFailures'] = []
-    const faultText = faults.map((f) => `${f.faultType} ${f.component}`).join(' ').toLowerCase()
+/**
+ * Scores an asset from every inspection that mentions it. Each fault, safety
+ * flag and anomalous reading earns points scaled by confidence or severity and
+ * halved every 90 days; fault types seen in more than one inspection earn a
+ * recurrence bonus. The total is mapped onto 0-100 with a saturating curve.
+ */
+export function computeAssetRisk(
+  asset: SiteAsset,
+  inspections: Inspection[],
+  now: Date = new Date(),
+): AssetRiskAssessment {
+  const evidence = inspections
+    .map((inspection) => collectAssetEvidence(asset, inspection))
+    .filter((item): item is AssetEvidence => item !== null)
+    .sort((a, b) => a.inspection.timestamp.getTime() - b.inspection.timestamp.getTime())
 
-    for (const [equipmentType, patterns] of Object.entries(MAINTENANCE_PATTERNS)) {
-      for (const pattern of patterns) {
-        const matchCount = pattern.faultPattern.filter((p) => faultText.includes(p)).length
+  const contributions = { faults: 0, safetyFlags: 0, readingAnomalies: 0, recurrence: 0 }
+  const faultOccurrences = new Map<string, { inspections: Set<string>; decay: number }>()
 
-        if (matchCount > 0) {
-          predictions.push({
-            component: equipmentType,
-            likelihood: Math.min(0.95, 0.3 + matchCount * 0.2),
-            timeframe: pattern.typicalTimeToFailure,
-            indicators: pattern.faultPattern,
-          })
-        }
-      }
+  for (const item of evidence) {
+    const ageDays = Math.max(0, (now.getTime() - item.inspection.timestamp.getTime()) / DAY_MS)
+    const decay = Math.pow(0.5, ageDays / HALF_LIFE_DAYS)
+
+    for (const fault of item.faults) {
+      contributions.faults += FAULT_POINTS * (fault.confidence || 0.5) * decay
+      const key = fault.faultType.trim().toLowerCase()
+      const occurrence = faultOccurrences.get(key) || { inspections: new Set<string>(), decay: 0 }
+      occurrence.inspections.add(item.inspection.id)
+      occurrence.decay = Math.max(occurrence.decay, decay)
+      faultOccurrences.set(key, occurrence)
+    }
+    for (const flag of item.safetyFlags) {
+      contributions.safetyFlags += SAFETY_FLAG_POINTS * SEVERITY_WEIGHTS[flag.severity] * decay
     }
+    for (const anomaly of item.anomalies) {
+      contributions.readingAnomalies += ANOMALY_POINTS * SEVERITY_WEIGHTS[anomaly.severity] * decay
+    }
+  }
 
-    return predictions.slice(0, 5)
+  for (const occurrence of faultOccurrences.values()) {
+    if (occurrence.inspections.size > 1) {
+      contributions.recurrence += RECURRENCE_POINTS * (occurrence.inspections.size - 1) * occurrence.decay
+    }
   }
 
-  private generateRecommendations(
-    faults: DetectedFault[],
-    predictions: PredictiveMaintenanceResult['predictedFailures'],
-  ): { maintenance: string[]; lastMaintenance: string[] } {
-    const maintenance: string[] = []
-    const lastMaintenance: string[] = []
+  const total = contributions.faults + contributions.safetyFlags + contributions.readingAnomalies + contributions.recurrence
+  const riskScore = Math.round(100 * (1 - Math.exp(-total / SCORE_SCALE)))
+  const faults = evidence.flatMap((item) => item.faults)
+  const anomalies = evidence.flatMap((item) => item.anomalies)
+  const predictedFailures = predictFailures(asset.assetType, faults)
 
-    for (const prediction of predictions) {
-      const pattern = Object.values(MAINTENANCE_PATTERNS)
-        .flat()
-        .find((p) => prediction.indicators.some((i) => p.faultPattern.includes(i)))
+  return {
+    assetId: asset.id,
+    siteId: asset.siteId,
+    riskScore,
+    riskLevel: determineRiskLevel(riskScore),
+    inspectionCount: evidence.length,
+    lastInspectedAt: evidence.length > 0 ? evidence[evidence.length - 1].inspection.timestamp : undefined,
+    contributions: {
+      faults: round(contributions.faults),
+      safetyFlags: round(contributions.safetyFlags),
+      readingAnomalies: round(contributions.readingAnomalies),
+      recurrence: round(contributions.recurrence),
+    },
+    predictedFailures,
+    maintenanceRecommendations: generateRecommendations(asset.assetType, faults, anomalies, predictedFailures),
+    sparesToOrder: identifySpares(faults),
+    computedAt: now,
+  }
+}
 
-      if (pattern) {
-        maintenance.push(pattern.recommendedAction)
-      }
-    }
+function patternsFor(assetType: string): Array<MaintenancePattern & { component: string }> {
+  const type = assetType.toLowerCase()
+  return Object.entries(MAINTENANCE_PATTERNS)
+    .filter(([equipmentType]) => equipmentType === 'generic' || type.includes(equipmentType))
+    .flatMap(([equipmentType, patterns]) => patterns.map((pattern) => ({ ...pattern, component: equipmentType })))
+}
 
-    for (const fault of faults) {
-      if (fault.recommendedActions) {
-        maintenance.push(...fault.recommendedActions)
-      }
-    }
+function predictFailures(assetType: string, faults: DetectedFault[]): PredictedFailure[] {
+  const faultText = faults.map((f) => `${f.faultType} ${f.component} ${f.description}`).join(' ').toLowerCase()
+  if (!faultText.trim()) {
+    return []
+  }
 
-    if (maintenance.length === 0) {
-      maintenance.push('Continue regular inspection schedule')
-      maintenance.push('Monitor equipment performance trends')
+  const predictions: PredictedFailure[] = []
+  for (const pattern of patternsFor(assetType)) {
+    const indicators = pattern.faultPattern.filter((p) => faultText.includes(p))
+    if (indicators.length > 0) {
+      predictions.push({
+        component: pattern.component,
+        likelihood: Math.min(0.95, 0.3 + indicators.length * 0.2),
+        timeframe: pattern.typicalTimeToFailure,
+        indicators,
+      })
     }
+  }
+
+  return predictions.sort((a, b) => b.likelihood - a.likelihood).slice(0, 5)
+}
 
-    lastMaintenance.push('Review maintenance logs for last service date')
-    lastMaintenance.push('Check spare parts inventory')
-    lastMaintenance.push('Schedule preventive maintenance window')
+function generateRecommendations(
+  assetType: string,
+  faults: DetectedFault[],
+  anomalies: ReadingAnomaly[],
+  predictions: PredictedFailure[],
+): string[] {
+  const maintenance: string[] = []
+  const patterns = patternsFor(assetType)
 
-    return {
-      maintenance: [...new Set(maintenance)].slice(0, 5),
-      lastMaintenance: [...new Set(lastMaintenance)].slice(0, 3),
+  for (const prediction of predictions) {
+    const pattern = patterns.find((p) => prediction.indicators.some((i) => p.faultPattern.includes(i)))
+    if (pattern) {
+      maintenance.push(pattern.recommendedAction)
     }
   }
 
-  private identifySpares(faults: DetectedFault[]): string[] {
-    const spares: string[] = []
+  for (const fault of faults) {
+    maintenance.push(...fault.recommendedActions)
+  }
 
-    const faultText = faults.map((f) => f.faultType.toLowerCase()).join(' ')
+  if (anomalies.length > 0) {
+    maintenance.push(`Verify ${[...new Set(anomalies.map((a) => a.metric))].join(', ')} against calibrated gauges`)
+  }
+
+  if (maintenance.length === 0) {
+    maintenance.push('Continue regular inspection schedule')
+    maintenance.push('Monitor equipment performance trends')
+  }
+
+  return [...new Set(maintenance)].slice(0, 5)
+}
+
+function identifySpares(faults: DetectedFault[]): string[] {
+  const spares: string[] = []
+
+  const faultText = faults.map((f) => f.faultType.toLowerCase()).join(' ')
+
+  if (faultText.includes('seal') || faultText.includes('leak')) {
+    spares.push('Seal kit', 'Gaskets')
+  }
+  if (faultText.includes('bearing') || faultText.includes('vibration')) {
+    spares.push('Bearings', 'Lubricant')
+  }
+  if (faultText.includes('filter')) {
+    spares.push('Filter elements')
+  }
+  if (faultText.includes('belt')) {
+    spares.push('Drive belts')
+  }
+  if (faultText.includes('fuse') || faultText.includes('electrical')) {
+    spares.push('Fuses', 'Circuit breakers')
+  }
 
-    if (faultText.includes('seal') || faultText.includes('leak')) {
-      spares.push('Seal kit', 'Gaskets')
+  return spares
+}
+
+export class PredictiveMaintenanceService {
+  private readonly dataService: PredictiveMaintenanceDataService
+
+  constructor(dataService: PredictiveMaintenanceDataService) {
+    this.dataService = dataService
+  }
+
+  /** Returns the stored assessment, scoring the asset first if it has never been scored. */
+  public async getAssetRisk(siteId: string, assetId: string): Promise<AssetRiskAssessment> {
+    const asset = await this.dataService.getSiteAsset(assetId)
+    if (!asset || asset.siteId !== siteId) {
+      throw new Error('Site asset not found')
     }
-    if (faultText.includes('bearing') || faultText.includes('vibration')) {
-      spares.push('Bearings', 'Lubricant')
+    if (asset.riskAssessment) {
+      return asset.riskAssessment
     }
-    if (faultText.includes('filter')) {
-      spares.push('Filter elements')
+
+    const inspections = await this.dataService.listInspections({ siteId })
+    const assessment = computeAssetRisk(asset, inspections)
+    await this.dataService.updateSiteAssetRisk(asset.id, assessment)
+    return assessment
+  }
+
+  /**
+   * Rescores every asset at the inspection's site. Called when an inspection
+   * completes; rescoring the whole site also lets older evidence decay.
+   */
+  public async recalculateForInspection(inspectionId: string): Promise<AssetRiskAssessment[]> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      throw new Error('Inspection not found')
     }
-    if (faultText.includes('belt')) {
-      spares.push('Drive belts')
+    return this.recalculateSite(inspection.siteId)
+  }
+
+  public async recalculateSite(siteId: string): Promise<AssetRiskAssessment[]> {
+    const [assets, inspections] = await Promise.all([
+      this.dataService.listSiteAssets(siteId),
+      this.dataService.listInspections({ siteId }),
+    ])
+    const now = new Date()
+
+    const assessments: AssetRiskAssessment[] = []
+    for (const asset of assets) {
+      const assessment = computeAssetRisk(asset, inspections, now)
+      await this.dataService.updateSiteAssetRisk(asset.id, assessment)
+      assessments.push(assessment)
     }
-    if (faultText.includes('fuse') || faultText.includes('electrical')) {
-      spares.push('Fuses', 'Circuit breakers')
+    return assessments
+  }
+
+  /** Site assets riskiest first, so supervisors can schedule maintenance in order. */
+  public async rankSiteAssets(siteId: string): Promise<SiteAsset[]> {
+    let assets = await this.dataService.listSiteAssets(siteId)
+    if (assets.some((asset) => !asset.riskAssessment)) {
+      const assessments = await this.recalculateSite(siteId)
+      const byAsset = new Map(assessments.map((assessment) => [assessment.assetId, assessment]))
+      assets = assets.map((asset) => ({ ...asset, riskAssessment: byAsset.get(asset.id) ?? asset.riskAssessment }))
     }
 
-    return spares.length > 0 ? spares : ['General consumables']
+    return assets.sort((a, b) => {
+      const scoreDiff = (b.riskAssessment?.riskScore ?? 0) - (a.riskAssessment?.riskScore ?? 0)
+      if (scoreDiff !== 0) {
+        return scoreDiff
+      }
+      return (b.riskAssessment?.inspectionCount ?? 0) - (a.riskAssessment?.inspectionCount ?? 0)
+    })
   }
 }
@@ -0,0 +1,91 @@
+import { MemoryDataService } from './memory-data.service'
+import { REPORT_CSV_COLUMNS, ReportExportService } from './report-export.service'
+
+const PIXEL_PNG_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg=='
+
+async function seedReport(dataService: MemoryDataService) {
+  const site = await dataService.createSite({
+    name: 'North <substation>',
+    type: 'power',
+    location: { latitude: 51.5, longitude: -0.12 },
+    technicianIds: [],
+  })
+  await dataService.setSiteReportTemplate(site.id, {
+    headerText: 'Acme Grid',
+    footerText: 'Confidential',
+    accentColor: '#aa0000',
+    logoDataUrl: PIXEL_PNG_DATA_URL,
+  })
+  const inspection = await dataService.createInspection({ technicianId: 'tech-1', siteId: site.id })
+  await dataService.appendInspectionSafetyFlags(inspection.id, [
+    { type: 'exposed_wire', severity: 'critical', description: 'Bare conductor, "live"', timestamp: new Date() },
+  ])
+  await dataService.appendInspectionDetectedFaults(inspection.id, [
+    { component: 'Breaker', faultType: 'corrosion', confidence: 0.82, description: '=HYPERLINK("x")', recommendedActions: [] },
+  ])
+  await dataService.appendInspectionWorkflowEvent(inspection.id, {
+    action: 'create_ticket',
+    status: 'completed',
+    resultMessage: 'Ticket created',
+    externalReferenceId: 'wf_1',
+  })
+  const report = await dataService.generateInspectionReport(inspection.id)
+  return { report: report!, inspection }
+}
+
+describe('ReportExportService', () => {
+  it('renders an escaped, branded HTML document', async () => {
+    const dataService = new MemoryDataService()
+    const { report } = await seedReport(dataService)
+
+    const html = (await new ReportExportService(dataService).renderHtml(report)).toString('utf8')
+
+    expect(html).toMatch(/^<!DOCTYPE html>/)
+    expect(html).toContain('North &lt;substation&gt;')
+    expect(html).toContain('Bare conductor, &quot;live&quot;')
+    expect(html).toContain('<span>Acme Grid</span>')
+    expect(html).toContain('<footer>Confidential</footer>')
+    expect(html).toContain(`src="${PIXEL_PNG_DATA_URL}"`)
+    expect(html).toContain('h1,h2{color:#aa0000}')
+    expect(html).toContain('<h2>Recommended Actions</h2>')
+  })
+
+  it('writes one CSV row per finding, safety flag and workflow event', async () => {
+    const dataService = new MemoryDataService()
+    const { report, inspection } = await seedReport(dataService)
+
+    const csv = (await new ReportExportService(dataService).renderCsv(report)).toString('utf8')
+    const lines = csv.trimEnd().split('\r\n')
+
+    expect(lines[0]).toBe(REPORT_CSV_COLUMNS.join(','))
+    expect(lines).toHaveLength(4)
+    expect(lines[1]).toMatch(new RegExp(`^finding,${inspection.id},1,[^,]+,Breaker,corrosion,,0.82,,,"'=HYPERLINK\\(""x""\\)"$`))
+    expect(lines[2]).toMatch(/^safety_flag,.*,exposed_wire,,critical,,,,"Bare conductor, ""live"""$/)
+    expect(lines[3]).toMatch(/^workflow_event,.*,create_ticket,,,,completed,wf_1,Ticket created$/)
+  })
+
+  it('falls back to the report lines when the inspection is gone', async () => {
+    const { report } = await seedReport(new MemoryDataService())
+
+    const csv = (await new ReportExportService().renderCsv(report)).toString('utf8')
+
+    expect(csv.trimEnd().split('\r\n').slice(1)).toEqual([
+      `finding,${report.inspectionId},1,,,,,,,,Breaker: corrosion (82% confidence)`,
+      `safety_flag,${report.inspectionId},1,,,,,,,,"CRITICAL - Bare conductor, ""live"""`,
+      `workflow_event,${report.inspectionId},1,,,,,,,,COMPLETED - create_ticket: Ticket created (wf_1)`,
+    ])
+  })
+
+  it('packages a Word document', async () => {
+    const dataService = new MemoryDataService()
+    const { report } = await seedReport(dataService)
+
+    const docx = await new ReportExportService(dataService).renderDocx(report)
+
+    expect(docx.subarray(0, 4)).toEqual(Buffer.from([0x50, 0x4b, 0x03, 0x04]))
+    expect(docx.toString('latin1')).toContain('word/document.xml')
+    expect(docx.toString('latin1')).toContain('word/header1.xml')
+    expect(docx.toString('latin1')).toMatch(/word\/media\/[^"]+\.png/)
+  })
+})
@@ -0,0 +1,420 @@
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx'
+import type { DataService } from './data-service'
+import type { InspectionReport } from './firestore-data.service'
+import { decodeLogo, effectiveReportTemplate } from './report-template'
+import type { Inspection, ReportTemplate, Site } from '../types'
+
+type ReportExportDataService = Pick<DataService, 'getInspectionById' | 'getSiteById'>
+
+export interface ReportExportServiceOptions {
+  /** Same branding source as the PDF; a site's own template wins field by field. */
+  resolveOrganizationTemplate?: () => Promise<ReportTemplate | undefined>
+}
+
+type EffectiveTemplate = ReturnType<typeof effectiveReportTemplate>
+
+interface ReportExportContent {
+  inspection: Inspection | null
+  site: Site | null
+  template: EffectiveTemplate
+}
+
+/** A titled block of report lines, rendered the same way in every format. */
+interface ReportSection {
+  title: string
+  lines: string[]
+}
+
+interface ReportTable {
+  title: string
+  headers: string[]
+  rows: string[][]
+}
+
+export const REPORT_CSV_COLUMNS = [
+  'record_type',
+  'inspection_id',
+  'report_version',
+  'occurred_at',
+  'category',
+  'detail',
+  'severity',
+  'confidence',
+  'status',
+  'reference',
+  'description',
+] as const
+
+type ReportCsvRow = Partial<Record<(typeof REPORT_CSV_COLUMNS)[number], string | number>>
+
+const LOGO_MAX_WIDTH = 120
+const LOGO_MAX_HEIGHT = 32
+
+function formatTimestamp(value: Date): string {
+  return new Date(value).toISOString().replace('T', ' ').slice(0, 19) + ' UTC'
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/** Quotes where RFC 4180 needs it, and keeps spreadsheets from running cells that look like formulas. */
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) {
+    return ''
+  }
+  let text = String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Pixel size of a PNG or JPEG; null for anything else. */
+function imageSize(image: Buffer): { width: number; height: number } | null {
+  if (image.length >= 24 && image.readUInt32BE(0) === 0x89504e47) {
+    return { width: image.readUInt32BE(16), height: image.readUInt32BE(20) }
+  }
+  if (image[0] !== 0xff || image[1] !== 0xd8) {
+    return null
+  }
+  let offset = 2
+  while (offset + 9 < image.length && image[offset] === 0xff) {
+    const marker = image[offset + 1]
+    // Start-of-frame markers carry the size; C4, C8 and CC share the range but are not frames
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: image.readUInt16BE(offset + 5), width: image.readUInt16BE(offset + 7) }
+    }
+    offset += 2 + image.readUInt16BE(offset + 2)
+  }
+  return null
+}
+
+/**
+ * Renders reports as HTML, Word and CSV. The HTML and Word documents follow the
+ * PDF layout and branding; the CSV has one row per finding, safety flag and
+ * workflow event.
+ */
+export class ReportExportService {
+  private readonly resolveOrganizationTemplate?: ReportExportServiceOptions['resolveOrganizationTemplate']
+
+  constructor(
+    private readonly dataService?: ReportExportDataService,
+    options: ReportExportServiceOptions = {},
+  ) {
+    this.resolveOrganizationTemplate = options.resolveOrganizationTemplate
+  }
+
+  public async renderHtml(report: InspectionReport): Promise<Buffer> {
+    const content = await this.loadContent(report)
+    const { template } = content
+    const logo = template.logoDataUrl ? `<img class="logo" src="${template.logoDataUrl}" alt="">` : ''
+    const header = template.headerText ? `<span>${escapeHtml(template.headerText)}</span>` : ''
+    const body = [
+      logo || header ? `<header>${logo}${header}</header>` : '',
+      `<h1>${escapeHtml(template.title)}</h1>`,
+      '<table class="overview"><tbody>',
+      ...this.overview(report, content).map(
+        ([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`,
+      ),
+      '</tbody></table>',
+      '<h2>Summary</h2>',
+      `<p>${escapeHtml(report.summaryText)}</p>`,
+      ...this.tablesOrSections(report, content).map((block) =>
+        'headers' in block ? this.htmlTable(block) : this.htmlSection(block),
+      ),
+      ...this.sections(report).map((section) => this.htmlSection(section)),
+      template.footerText ? `<footer>${escapeHtml(template.footerText)}</footer>` : '',
+    ]
+
+    const html = [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escapeHtml(`${template.title} ${report.inspectionId}`)}</title>`,
+      `<style>${this.htmlStyle(template)}</style>`,
+      '</head>',
+      '<body>',
+      ...body.filter(Boolean),
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n')
+    return Buffer.from(html, 'utf8')
+  }
+
+  public async renderDocx(report: InspectionReport): Promise<Buffer> {
+    const content = await this.loadContent(report)
+    const { template } = content
+    const accent = template.accentColor.slice(1)
+    const heading = (text: string, level: (typeof HeadingLevel)[keyof typeof HeadingLevel]) =>
+      new Paragraph({ heading: level, children: [new TextRun({ text, color: accent })] })
+
+    const children: Array<Paragraph | Table> = [
+      heading(template.title, HeadingLevel.HEADING_1),
+      ...this.overview(report, content).map(
+        ([label, value]) =>
+          new Paragraph({ children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)] }),
+      ),
+      heading('Summary', HeadingLevel.HEADING_2),
+      new Paragraph(report.summaryText),
+    ]
+    for (const block of [...this.tablesOrSections(report, content), ...this.sections(report)]) {
+      children.push(heading(block.title, HeadingLevel.HEADING_2))
+      if ('headers' in block) {
+        children.push(this.docxTable(block, accent))
+      } else {
+        const lines = block.lines.length > 0 ? block.lines : ['None']
+        children.push(...lines.map((line) => new Paragraph({ text: line, bullet: { level: 0 } })))
+      }
+    }
+
+    const headerRuns: Array<ImageRun | TextRun> = []
+    const logo = decodeLogo(template)
+    const logoSize = logo && imageSize(logo)
+    if (logo && logoSize) {
+      const scale = Math.min(LOGO_MAX_WIDTH / logoSize.width, LOGO_MAX_HEIGHT / logoSize.height, 1)
+      headerRuns.push(
+        new ImageRun({
+          type: logo[0] === 0x89 ? 'png' : 'jpg',
+          data: logo,
+          transformation: {
+            width: Math.max(1, Math.round(logoSize.width * scale)),
+            height: Math.max(1, Math.round(logoSize.height * scale)),
+          },
+        }),
+      )
+    }
+    if (template.headerText) {
+      const spacing = headerRuns.length > 0 ? '  ' : ''
+      headerRuns.push(new TextRun({ text: `${spacing}${template.headerText}`, color: '555555' }))
+    }
+    const footerRuns: TextRun[] = []
+    if (template.footerText) {
+      footerRuns.push(new TextRun({ text: template.footerText, color: '555555', size: 16 }))
+    }
+    if (template.showPageNumbers) {
+      footerRuns.push(
+        new TextRun({
+          children: [`${footerRuns.length > 0 ? '    ' : ''}Page `, PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES],
+          color: '555555',
+          size: 16,
+        }),
+      )
+    }
+
+    const header = new Header({ children: [new Paragraph({ children: headerRuns })] })
+    const footer = new Footer({ children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: footerRuns })] })
+    const document = new Document({
+      title: `${template.title} ${report.inspectionId}`,
+      sections: [
+        {
+          headers: headerRuns.length > 0 ? { default: header } : {},
+          footers: footerRuns.length > 0 ? { default: footer } : {},
+          children,
+        },
+      ],
+    })
+    return Packer.toBuffer(document)
+  }
+
+  /**
+   * One row per detected fault, safety flag and workflow event. Without the
+   * inspection record the report's own summary lines are used as descriptions.
+   */
+  public async renderCsv(report: InspectionReport): Promise<Buffer> {
+    const inspection = (await this.dataService?.getInspectionById(report.inspectionId)) ?? null
+    const base: ReportCsvRow = { inspection_id: report.inspectionId, report_version: report.version }
+    const rows: ReportCsvRow[] = inspection
+      ? [
+          ...inspection.detectedFaults.map((fault) => ({
+            ...base,
+            record_type: 'finding',
+            occurred_at: new Date(inspection.timestamp).toISOString(),
+            category: fault.component,
+            detail: fault.faultType,
+            confidence: fault.confidence,
+            reference: fault.assetId,
+            description: fault.description,
+          })),
+          ...inspection.safetyFlags.map((flag) => ({
+            ...base,
+            record_type: 'safety_flag',
+            occurred_at: new Date(flag.timestamp).toISOString(),
+            category: flag.type,
+            severity: flag.severity,
+            description: flag.description,
+          })),
+          ...inspection.workflowEvents.map((event) => ({
+            ...base,
+            record_type: 'workflow_event',
+            occurred_at: new Date(event.createdAt).toISOString(),
+            category: event.action,
+            status: event.status,
+            reference: event.externalReferenceId,
+            description: event.resultMessage,
+          })),
+        ]
+      : [
+          ...report.findings.map((line) => ({ ...base, record_type: 'finding', description: line })),
+          ...report.safetySummary.map((line) => ({ ...base, record_type: 'safety_flag', description: line })),
+          ...report.workflowSummary.map((line) => ({ ...base, record_type: 'workflow_event', description: line })),
+        ]
+
+    const lines = [
+      REPORT_CSV_COLUMNS.join(','),
+      ...rows.map((row) => REPORT_CSV_COLUMNS.map((column) => csvCell(row[column])).join(',')),
+    ]
+    return Buffer.from(`${lines.join('\r\n')}\r\n`, 'utf8')
+  }
+
+  private async loadContent(report: InspectionReport): Promise<ReportExportContent> {
+    const [inspection, site, organizationTemplate] = await Promise.all([
+      this.dataService?.getInspectionById(report.inspectionId) ?? null,
+      this.dataService?.getSiteById(report.siteId) ?? null,
+      this.resolveOrganizationTemplate?.().catch(() => undefined),
+    ])
+    return { inspection, site, template: effectiveReportTemplate(organizationTemplate, site?.reportTemplate) }
+  }
+
+  private overview(report: InspectionReport, content: ReportExportContent): Array<[string, string]> {
+    const { site } = content
+    return [
+      ['Inspection', report.inspectionId],
+      ['Version', String(report.version)],
+      ['Generated', formatTimestamp(report.generatedAt)],
+      ['Status', report.status],
+      ['Technician', report.technicianId],
+      ['Site', site ? `${site.name} (${site.id})` : report.siteId],
+      ['Images captured', String(report.imageCount)],
+      ['Time tracked', `${report.totalTrackedMinutes} min`],
+    ]
+  }
+
+  /** Safety flags and faults as tables when the inspection is still there, as the report's lines otherwise. */
+  private tablesOrSections(
+    report: InspectionReport,
+    content: ReportExportContent,
+  ): Array<ReportTable | ReportSection> {
+    const { inspection } = content
+    if (!inspection) {
+      return [
+        { title: 'Safety Flags', lines: report.safetySummary },
+        { title: 'Findings', lines: report.findings },
+      ]
+    }
+    return [
+      {
+        title: 'Safety Flags',
+        headers: ['Severity', 'Type', 'Description', 'Observed'],
+        rows: inspection.safetyFlags.map((flag) => [
+          flag.severity.toUpperCase(),
+          flag.type.replace(/_/g, ' '),
+          flag.description,
+          formatTimestamp(flag.timestamp),
+        ]),
+      },
+      {
+        title: 'Detected Faults',
+        headers: ['Component', 'Fault', 'Confidence', 'Description'],
+        rows: inspection.detectedFaults.map((fault) => [
+          fault.component,
+          fault.faultType,
+          `${Math.round(fault.confidence * 100)}%`,
+          fault.description,
+        ]),
+      },
+    ]
+  }
+
+  private sections(report: InspectionReport): ReportSection[] {
+    return [
+      { title: 'Workflow Actions', lines: report.workflowSummary },
+      { title: 'Time Tracking', lines: report.timeSummary },
+      { title: 'Open Part Orders', lines: report.openPartOrders },
+      { title: 'Annotations', lines: report.annotationSummary },
+      { title: 'Transcript', lines: report.transcriptExcerpt },
+      { title: 'Recommended Actions', lines: report.recommendedActions },
+    ]
+  }
+
+  private htmlStyle(template: EffectiveTemplate): string {
+    return [
+      'body{font-family:Helvetica,Arial,sans-serif;font-size:14px;color:#111}',
+      'body{max-width:880px;margin:24px auto;padding:0 16px}',
+      'header{display:flex;align-items:center;justify-content:space-between;color:#555;font-size:12px}',
+      '.logo{max-width:120px;max-height:32px}',
+      `h1,h2{color:${template.accentColor}}`,
+      'table{border-collapse:collapse;width:100%;margin-bottom:16px}',
+      'th,td{border:1px solid #ddd;padding:4px;text-align:left;vertical-align:top}',
+      `thead th{background:${template.accentColor};color:#fff}`,
+      '.overview th{width:160px;color:#555;font-weight:normal;border:none}',
+      '.overview td{border:none}',
+      'footer{margin-top:24px;color:#555;font-size:12px}',
+    ].join('')
+  }
+
+  private htmlTable(table: ReportTable): string {
+    const head = table.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')
+    const rows =
+      table.rows.length > 0
+        ? table.rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+        : [`<tr><td colspan="${table.headers.length}">None</td></tr>`]
+    return [
+      `<h2>${escapeHtml(table.title)}</h2>`,
+      `<table><thead><tr>${head}</tr></thead><tbody>`,
+      ...rows,
+      '</tbody></table>',
+    ].join('\n')
+  }
+
+  private htmlSection(section: ReportSection): string {
+    const lines = section.lines.length > 0 ? section.lines : ['None']
+    return [
+      `<h2>${escapeHtml(section.title)}</h2>`,
+      '<ul>',
+      ...lines.map((line) => `<li>${escapeHtml(line)}</li>`),
+      '</ul>',
+    ].join('\n')
+  }
+
+  private docxTable(table: ReportTable, accent: string): Table {
+    const cell = (text: string, header = false) =>
+      new TableCell({
+        children: [
+          new Paragraph({ children: [new TextRun({ text, bold: header, color: header ? 'FFFFFF' : undefined })] }),
+        ],
+        shading: header ? { type: ShadingType.CLEAR, color: 'auto', fill: accent } : undefined,
+      })
+    const rows = table.rows.length > 0 ? table.rows : [['None', ...table.headers.slice(1).map(() => '')]]
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({ tableHeader: true, children: table.headers.map((header) => cell(header, true)) }),
+        ...rows.map((row) => new TableRow({ children: row.map((text) => cell(text)) })),
+      ],
+    })
+  }
+}
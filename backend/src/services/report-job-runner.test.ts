@@ -0,0 +1,113 @@
+import type { InspectionReport } from './firestore-data.service'
+import { MemoryDataService } from './memory-data.service'
+import { ReportJobRunner, ReportJobStateError } from './report-job-runner'
+import { readReportJobPolicy, reportJobRetryDelayMs } from './report-jobs'
+
+const policy = { maxAttempts: 3, retryBaseMs: 1_000, retryMaxMs: 3_000, leaseMs: 60_000 }
+
+function setup() {
+  const dataService = new MemoryDataService()
+  const generateInspectionReport = jest.spyOn(dataService, 'generateInspectionReport')
+  return { dataService, generateInspectionReport, runner: new ReportJobRunner(dataService, { policy }) }
+}
+
+describe('ReportJobRunner', () => {
+  it('retries failed attempts with exponential backoff and dead-letters the job when they run out', async () => {
+    const { dataService, generateInspectionReport, runner } = setup()
+    generateInspectionReport.mockRejectedValue(new Error('database unavailable'))
+    const job = await dataService.createReportJob({ inspectionId: 'insp-1', provider: 'local', maxAttempts: 3 })
+
+    const first = await runner.runNext()
+    expect(first).toEqual(expect.objectContaining({ status: 'queued', attempts: 1, error: 'database unavailable' }))
+    expect(first!.nextAttemptAt!.getTime() - Date.now()).toBeGreaterThan(900)
+    expect(await runner.runNext()).toBeNull()
+
+    const second = await runner.runNext(new Date(Date.now() + 1_500))
+    expect(second).toEqual(expect.objectContaining({ status: 'queued', attempts: 2 }))
+    expect(await runner.runNext(new Date(Date.now() + 1_500))).toBeNull()
+
+    const third = await runner.runNext(new Date(Date.now() + 2_500))
+    expect(third).toEqual(expect.objectContaining({ status: 'dead_letter', attempts: 3 }))
+    expect(third?.nextAttemptAt).toBeUndefined()
+    expect(await runner.runNext(new Date(Date.now() + 60_000))).toBeNull()
+    expect(generateInspectionReport).toHaveBeenCalledTimes(3)
+    expect((await dataService.getReportJob(job.jobId))?.status).toBe('dead_letter')
+  })
+
+  it('fails a job for a missing inspection without retrying it', async () => {
+    const { dataService, generateInspectionReport, runner } = setup()
+    generateInspectionReport.mockResolvedValue(null)
+    await dataService.createReportJob({ inspectionId: 'insp-missing', provider: 'queue', maxAttempts: 3 })
+
+    expect(await runner.drain()).toBe(1)
+    const [job] = await dataService.listReportJobs({ statuses: ['failed'] })
+    expect(job).toEqual(expect.objectContaining({ attempts: 1, error: 'Inspection not found' }))
+  })
+
+  it('takes over a job whose lease ran out and runs a named job ahead of its backoff', async () => {
+    const { dataService, generateInspectionReport, runner } = setup()
+    generateInspectionReport.mockResolvedValue({ inspectionId: 'insp-2' } as InspectionReport)
+    const stalled = await dataService.createReportJob({ inspectionId: 'insp-2', provider: 'local', maxAttempts: 3 })
+    await dataService.claimReportJob({ now: new Date(), leaseMs: 60_000 })
+    expect(await runner.runNext()).toBeNull()
+
+    const resumed = await runner.runNext(new Date(Date.now() + 61_000))
+    expect(resumed).toEqual(expect.objectContaining({ jobId: stalled.jobId, status: 'completed', attempts: 2 }))
+
+    const later = await dataService.createReportJob({
+      inspectionId: 'insp-2',
+      provider: 'pubsub',
+      maxAttempts: 3,
+      nextAttemptAt: new Date(Date.now() + 60_000),
+    })
+    expect(await runner.runNext()).toBeNull()
+    expect(await runner.run(later.jobId)).toEqual(expect.objectContaining({ status: 'completed', attempts: 1 }))
+    expect(await runner.run(later.jobId)).toBeNull()
+  })
+
+  it('requeues only failed and dead-lettered jobs', async () => {
+    const { dataService, runner } = setup()
+    const job = await dataService.createReportJob({ inspectionId: 'insp-3', provider: 'pubsub', maxAttempts: 3 })
+
+    await expect(runner.requeue(job.jobId, 'local')).rejects.toThrow(ReportJobStateError)
+    await dataService.updateReportJob(
+      job.jobId,
+      { status: 'queued', attempts: 0 },
+      { status: 'dead_letter', provider: 'pubsub', attempts: 3, error: 'x' },
+    )
+
+    const requeued = await runner.requeue(job.jobId, 'local')
+    expect(requeued).toEqual(expect.objectContaining({ status: 'queued', provider: 'local', attempts: 0 }))
+    expect(requeued?.error).toBeUndefined()
+    expect(await runner.requeue('job-missing', 'local')).toBeNull()
+  })
+
+  it('drops the outcome of an attempt whose lease another runner took over', async () => {
+    const { dataService, generateInspectionReport, runner } = setup()
+    const job = await dataService.createReportJob({ inspectionId: 'insp-4', provider: 'queue', maxAttempts: 3 })
+    generateInspectionReport
+      .mockImplementationOnce(async () => {
+        // The first attempt outlives its lease, and a second runner claims the job and completes it
+        await runner.runNext(new Date(Date.now() + 61_000))
+        throw new Error('timed out')
+      })
+      .mockResolvedValueOnce({ inspectionId: 'insp-4' } as InspectionReport)
+
+    const stale = await runner.runNext()
+    expect(stale).toEqual(expect.objectContaining({ status: 'completed', attempts: 2 }))
+    expect(await dataService.getReportJob(job.jobId)).toEqual(
+      expect.objectContaining({ status: 'completed', attempts: 2 }),
+    )
+    expect((await dataService.getReportJob(job.jobId))?.error).toBeUndefined()
+  })
+})
+
+describe('report job policy', () => {
+  it('reads positive whole numbers from the environment and caps the backoff', () => {
+    const read = readReportJobPolicy({ REPORT_JOB_MAX_ATTEMPTS: '2', REPORT_JOB_RETRY_BASE_SECONDS: 'soon' })
+
+    expect(read).toEqual({ maxAttempts: 2, retryBaseMs: 30_000, retryMaxMs: 3_600_000, leaseMs: 300_000 })
+    const delays = [1, 2, 3, 4].map((attempts) => reportJobRetryDelayMs(policy, attempts))
+    expect(delays).toEqual([1_000, 2_000, 3_000, 3_000])
+  })
+})
@@ -0,0 +1,191 @@
+import type { DataService } from './data-service'
+import { runInCurrentScope, type ScopedTaskRunner } from './organization-context'
+import {
+  REQUEUEABLE_REPORT_JOB_STATUSES,
+  readReportJobPolicy,
+  reportJobRetryDelayMs,
+  type ReportJobPolicy,
+} from './report-jobs'
+import type { ReportGenerationJob, ReportPipelineProvider } from '../types'
+
+export class ReportJobStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReportJobStateError'
+  }
+}
+
+/** A failure that retrying cannot fix, so the job fails without using up its attempts. */
+class PermanentReportJobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentReportJobError'
+  }
+}
+
+type ReportJobDataService = Pick<
+  DataService,
+  'generateInspectionReport' | 'getReportJob' | 'claimReportJob' | 'updateReportJob'
+>
+
+interface ReportJobLogger {
+  info: (message: string, meta?: Record<string, unknown>) => void
+  warn: (message: string, meta?: Record<string, unknown>) => void
+}
+
+export interface ReportJobRunnerOptions {
+  /** Defaults to the `REPORT_JOB_*` variables. */
+  policy?: ReportJobPolicy
+  logger?: ReportJobLogger
+}
+
+const noopLogger: ReportJobLogger = {
+  info: () => undefined,
+  warn: () => undefined,
+}
+
+/** Jobs one `drain` call runs at most, so a busy organization cannot hold up the others. */
+const DRAIN_LIMIT = 100
+
+/**
+ * Works report jobs off the durable queue. Runners in the API and in any
+ * number of worker processes can share one queue: each attempt is claimed by
+ * one runner, and a runner that stops mid-attempt loses the job to another
+ * once its lease runs out. Failed attempts are retried with exponential
+ * backoff until `maxAttempts` is used up, which dead-letters the job.
+ */
+export class ReportJobRunner {
+  private readonly policy: ReportJobPolicy
+  private readonly logger: ReportJobLogger
+
+  constructor(
+    private readonly dataService: ReportJobDataService,
+    options: ReportJobRunnerOptions = {},
+  ) {
+    this.policy = options.policy ?? readReportJobPolicy()
+    this.logger = options.logger ?? noopLogger
+  }
+
+  public getPolicy(): ReportJobPolicy {
+    return { ...this.policy }
+  }
+
+  /** Runs the longest-waiting due job; null when nothing is due. */
+  public async runNext(now: Date = new Date()): Promise<ReportGenerationJob | null> {
+    const job = await this.dataService.claimReportJob({ now, leaseMs: this.policy.leaseMs })
+    return job ? this.process(job) : null
+  }
+
+  /** Runs one job now, ahead of its backoff; null when it is finished or another runner holds it. */
+  public async run(jobId: string, now: Date = new Date()): Promise<ReportGenerationJob | null> {
+    const job = await this.dataService.claimReportJob({ now, leaseMs: this.policy.leaseMs, jobId })
+    return job ? this.process(job) : null
+  }
+
+  /** Runs due jobs until none is left; returns how many ran. */
+  public async drain(): Promise<number> {
+    let processed = 0
+    while (processed < DRAIN_LIMIT && (await this.runNext())) {
+      processed += 1
+    }
+    return processed
+  }
+
+  /** Sends a failed or dead-lettered job back to the queue with a fresh set of attempts. */
+  public async requeue(jobId: string, provider: ReportPipelineProvider): Promise<ReportGenerationJob | null> {
+    const job = await this.dataService.getReportJob(jobId)
+    if (!job) {
+      return null
+    }
+    if (!REQUEUEABLE_REPORT_JOB_STATUSES.includes(job.status)) {
+      throw new ReportJobStateError(`Only failed or dead-lettered jobs can be requeued; this one is ${job.status}`)
+    }
+
+    const requeued = await this.dataService.updateReportJob(
+      jobId,
+      { status: job.status, attempts: job.attempts },
+      { status: 'queued', provider, attempts: 0 },
+    )
+    if (!requeued) {
+      throw new ReportJobStateError('The job changed while it was being requeued; reload it and try again')
+    }
+    this.logger.info('Report job requeued', { jobId, inspectionId: job.inspectionId, previousStatus: job.status })
+    return requeued
+  }
+
+  /** Drains the queue every `intervalMs` until the returned function is called. */
+  public startPolling(intervalMs: number, runInScope: ScopedTaskRunner = runInCurrentScope): () => void {
+    let running = false
+    const timer = setInterval(() => {
+      if (running) {
+        return
+      }
+      running = true
+      void runInScope(() =>
+        this.drain().catch((error) => {
+          this.logger.warn('Report job polling failed', {
+            message: error instanceof Error ? error.message : 'Unknown error',
+          })
+        }),
+      ).finally(() => {
+        running = false
+      })
+    }, intervalMs)
+    timer.unref()
+    return () => clearInterval(timer)
+  }
+
+  private async process(job: ReportGenerationJob): Promise<ReportGenerationJob | null> {
+    const state = { provider: job.provider, attempts: job.attempts }
+    const claimed = { status: job.status, attempts: job.attempts }
+    try {
+      const report = await this.dataService.generateInspectionReport(job.inspectionId)
+      if (!report) {
+        throw new PermanentReportJobError('Inspection not found')
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Report generation failed'
+      const permanent = error instanceof PermanentReportJobError
+      const retry = !permanent && job.attempts < job.maxAttempts
+      const status = permanent ? 'failed' : retry ? 'queued' : 'dead_letter'
+      this.logger.warn('Report job attempt failed', {
+        jobId: job.jobId,
+        inspectionId: job.inspectionId,
+        attempt: job.attempts,
+        status,
+        error: message,
+      })
+      return this.settle(
+        job,
+        await this.dataService.updateReportJob(job.jobId, claimed, {
+          ...state,
+          status,
+          error: message,
+          nextAttemptAt: retry ? new Date(Date.now() + reportJobRetryDelayMs(this.policy, job.attempts)) : undefined,
+        }),
+      )
+    }
+
+    const completed = await this.dataService.updateReportJob(job.jobId, claimed, {
+      ...state,
+      status: 'completed',
+      reportGeneratedAt: new Date(),
+    })
+    if (completed) {
+      this.logger.info('Report job completed', { jobId: job.jobId, inspectionId: job.inspectionId })
+    }
+    return this.settle(job, completed)
+  }
+
+  /** A null update means the lease ran out and another runner claimed the job; its outcome stands. */
+  private async settle(
+    job: ReportGenerationJob,
+    saved: ReportGenerationJob | null,
+  ): Promise<ReportGenerationJob | null> {
+    if (saved) {
+      return saved
+    }
+    this.logger.warn('Report job lease lost; discarding this attempt', { jobId: job.jobId, attempt: job.attempts })
+    return this.dataService.getReportJob(job.jobId)
+  }
+}
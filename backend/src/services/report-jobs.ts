@@ -0,0 +1,77 @@
+import type { ReportGenerationJob, ReportJobStatus, ReportPipelineProvider } from '../types'
+
+export const REPORT_JOB_STATUSES: ReportJobStatus[] = ['queued', 'processing', 'completed', 'failed', 'dead_letter']
+
+/** Jobs an admin may send back to the queue. */
+export const REQUEUEABLE_REPORT_JOB_STATUSES: ReportJobStatus[] = ['failed', 'dead_letter']
+
+export interface ReportJobPolicy {
+  maxAttempts: number
+  /** Wait before the second attempt; it doubles for each attempt after that. */
+  retryBaseMs: number
+  retryMaxMs: number
+  leaseMs: number
+}
+
+const DEFAULT_POLICY: ReportJobPolicy = {
+  maxAttempts: 5,
+  retryBaseMs: 30_000,
+  retryMaxMs: 60 * 60 * 1000,
+  leaseMs: 5 * 60 * 1000,
+}
+
+function positiveInteger(raw: string | undefined): number | null {
+  const value = Number(raw?.trim())
+  return raw?.trim() && Number.isInteger(value) && value > 0 ? value : null
+}
+
+/**
+ * From `REPORT_JOB_MAX_ATTEMPTS`, `REPORT_JOB_RETRY_BASE_SECONDS`,
+ * `REPORT_JOB_RETRY_MAX_SECONDS` and `REPORT_JOB_LEASE_SECONDS`; unset or
+ * invalid values keep the defaults.
+ */
+export function readReportJobPolicy(env: NodeJS.ProcessEnv = process.env): ReportJobPolicy {
+  const seconds = (name: string, fallbackMs: number) => {
+    const value = positiveInteger(env[name])
+    return value === null ? fallbackMs : value * 1000
+  }
+  return {
+    maxAttempts: positiveInteger(env.REPORT_JOB_MAX_ATTEMPTS) ?? DEFAULT_POLICY.maxAttempts,
+    retryBaseMs: seconds('REPORT_JOB_RETRY_BASE_SECONDS', DEFAULT_POLICY.retryBaseMs),
+    retryMaxMs: seconds('REPORT_JOB_RETRY_MAX_SECONDS', DEFAULT_POLICY.retryMaxMs),
+    leaseMs: seconds('REPORT_JOB_LEASE_SECONDS', DEFAULT_POLICY.leaseMs),
+  }
+}
+
+/** How long to wait after a job's `attempts`-th attempt failed. */
+export function reportJobRetryDelayMs(policy: ReportJobPolicy, attempts: number): number {
+  return Math.min(policy.retryBaseMs * 2 ** Math.max(0, attempts - 1), policy.retryMaxMs)
+}
+
+/** Whether `claimReportJob` may take the job at `now`. */
+export function isReportJobDue(job: ReportGenerationJob, now: Date, jobId?: string): boolean {
+  if (jobId !== undefined && job.jobId !== jobId) {
+    return false
+  }
+  if (job.status === 'processing') {
+    return !job.leaseExpiresAt || job.leaseExpiresAt.getTime() <= now.getTime()
+  }
+  return (
+    job.status === 'queued' &&
+    (jobId !== undefined || !job.nextAttemptAt || job.nextAttemptAt.getTime() <= now.getTime())
+  )
+}
+
+/** When a job became due, so the longest-waiting one is claimed first. */
+export function reportJobDueAt(job: ReportGenerationJob): number {
+  const dueAt = job.status === 'processing' ? job.leaseExpiresAt : job.nextAttemptAt
+  return (dueAt ?? job.createdAt).getTime()
+}
+
+export function readReportJobStatus(value: unknown): ReportJobStatus {
+  return REPORT_JOB_STATUSES.includes(value as ReportJobStatus) ? (value as ReportJobStatus) : 'queued'
+}
+
+export function readReportPipelineProvider(value: unknown): ReportPipelineProvider {
+  return value === 'queue' || value === 'pubsub' ? value : 'local'
+}
@@ -0,0 +1,112 @@
+import { MemoryDataService } from './memory-data.service'
+import { ReportPdfService, snapshotObjectPath } from './report-pdf.service'
+
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64',
+)
+
+function countMatches(pdf: Buffer, pattern: RegExp): number {
+  return pdf.toString('latin1').match(pattern)?.length ?? 0
+}
+
+async function seedReport(dataService: MemoryDataService) {
+  const site = await dataService.createSite({
+    name: 'North substation',
+    type: 'power',
+    location: { latitude: 51.5, longitude: -0.12 },
+    technicianIds: [],
+  })
+  const inspection = await dataService.createInspection({ technicianId: 'tech-1', siteId: site.id })
+  const imageUrl = `https://storage.googleapis.com/bucket/inspections/${inspection.id}/images/a.png?X-Goog-Signature=abc`
+  await dataService.appendInspectionImage(inspection.id, imageUrl)
+  await dataService.appendInspectionSafetyFlags(inspection.id, [
+    { type: 'exposed_wire', severity: 'critical', description: 'Bare conductor', timestamp: new Date() },
+  ])
+  await dataService.appendInspectionDetectedFaults(inspection.id, [
+    { component: 'Breaker', faultType: 'corrosion', confidence: 0.82, description: 'Rust', recommendedActions: [] },
+  ])
+  await dataService.appendInspectionOcrFinding(inspection.id, {
+    imageUrl,
+    extractedText: 'SN-1 42kV',
+    serialNumbers: ['SN-1'],
+    partCodes: [],
+    meterReadings: ['42kV'],
+    warningLabels: [],
+    confidence: 0.9,
+  })
+  await dataService.createAnnotation({
+    inspectionId: inspection.id,
+    snapshotUrl: imageUrl,
+    authorRole: 'expert',
+    tool: 'rectangle',
+    color: '#ff0000',
+    points: [
+      { x: 0.1, y: 0.1 },
+      { x: 0.6, y: 0.6 },
+    ],
+  })
+  const report = await dataService.generateInspectionReport(inspection.id)
+  return { report: report!, inspection }
+}
+
+describe('ReportPdfService', () => {
+  it('embeds snapshots read from storage and the template logo', async () => {
+    const dataService = new MemoryDataService()
+    const { report, inspection } = await seedReport(dataService)
+    const storage = { isConfigured: () => true, readObject: jest.fn().mockResolvedValue(PIXEL_PNG) }
+    const service = new ReportPdfService(dataService, storage, {
+      resolveOrganizationTemplate: async () => ({
+        logoDataUrl: `data:image/png;base64,${PIXEL_PNG.toString('base64')}`,
+        footerText: 'Confidential',
+      }),
+    })
+
+    const pdf = await service.renderInspectionReportPdf(report)
+
+    expect(pdf.subarray(0, 4).toString()).toBe('%PDF')
+    expect(storage.readObject).toHaveBeenCalledWith(`inspections/${inspection.id}/images/a.png`)
+    // Logo and snapshot once each, however many pages repeat the logo; the RGBA pixel adds an alpha mask to both
+    expect(countMatches(pdf, /\/Subtype \/Image/g)).toBe(4)
+  })
+
+  it('still renders when snapshots cannot be read or are not images', async () => {
+    const dataService = new MemoryDataService()
+    const { report } = await seedReport(dataService)
+    const unreadable = { isConfigured: () => true, readObject: jest.fn().mockRejectedValue(new Error('gone')) }
+    const notAnImage = { isConfigured: () => true, readObject: jest.fn().mockResolvedValue(Buffer.from('GIF89a')) }
+
+    for (const storage of [unreadable, notAnImage, undefined]) {
+      const pdf = await new ReportPdfService(dataService, storage).renderInspectionReportPdf(report)
+      expect(pdf.subarray(0, 4).toString()).toBe('%PDF')
+      expect(countMatches(pdf, /\/Subtype \/Image/g)).toBe(0)
+    }
+  })
+
+  it('stamps signed copies with the approval verification hash', async () => {
+    const dataService = new MemoryDataService()
+    const { report } = await seedReport(dataService)
+    const verificationHash = 'c'.repeat(64)
+
+    const pdf = await new ReportPdfService(dataService).renderInspectionReportPdf(report, {
+      approval: {
+        reportVersion: report.version,
+        reportContentHash: report.contentHash,
+        approvedBy: { uid: 'uid-sup', email: 'sam@example.com', role: 'supervisor' },
+        approvedAt: new Date('2026-03-01T10:00:00.000Z'),
+        verificationHash,
+      },
+    })
+
+    expect(pdf.toString('latin1')).toContain(`(verification-hash:${verificationHash})`)
+    expect(pdf.toString('latin1')).toContain('(Approved by sam@example.com)')
+  })
+
+  it('finds the storage object behind signed and bare snapshot URLs', () => {
+    expect(snapshotObjectPath('https://minio.local/bucket/inspections/i-1/images/a%20b.jpg?sig=1')).toBe(
+      'inspections/i-1/images/a b.jpg',
+    )
+    expect(snapshotObjectPath('inspections/i-1/images/a.jpg')).toBe('inspections/i-1/images/a.jpg')
+    expect(snapshotObjectPath('https://cdn.example.com/elsewhere.jpg')).toBeNull()
+  })
+})
@@ -1,45 +1,691 @@
 import PDFDocument from 'pdfkit'
+import type { DataService } from './data-service'
 import type { InspectionReport } from './firestore-data.service'
+import { decodeLogo, effectiveReportTemplate, DEFAULT_REPORT_TEMPLATE } from './report-template'
+import { describeReviewActor } from './inspection-review'
+import type { InspectionAnnotation, Inspection, ReportApproval, ReportTemplate, SafetyFlag, Site } from '../types'
+
+type ReportPdfDataService = Pick<DataService, 'getInspectionById' | 'getSiteById' | 'listAnnotations'>
+
+interface ReportImageStore {
+  isConfigured?: () => boolean
+  readObject?: (objectPath: string) => Promise<Buffer>
+}
+
+interface ReportPdfLogger {
+  info: (message: string, meta?: Record<string, unknown>) => void
+  warn: (message: string, meta?: Record<string, unknown>) => void
+}
+
+export interface ReportPdfServiceOptions {
+  logger?: ReportPdfLogger
+  /** Branding for the organization in scope; a site's own template wins field by field. */
+  resolveOrganizationTemplate?: () => Promise<ReportTemplate | undefined>
+  /** Slippy-map tile URL with `{z}`, `{x}` and `{y}`; `REPORT_MAP_TILE_URL` by default. */
+  mapTileUrl?: string
+  maxSnapshots?: number
+}
+
+export interface RenderReportPdfOptions {
+  /** Renders a signed copy: the approval block is added and the verification hash goes into the PDF metadata. */
+  approval?: ReportApproval
+}
+
+type EffectiveTemplate = ReturnType<typeof effectiveReportTemplate>
+
+interface ReportSnapshot {
+  url: string
+  /** Null when the image could not be read from storage or is not a PNG or JPEG. */
+  image: Buffer | null
+  annotations: InspectionAnnotation[]
+}
+
+interface MapThumbnail {
+  /** Null when no tile server is configured or it could not be reached; a plain locator is drawn instead. */
+  tile: Buffer | null
+  /** Where the site falls inside the tile, as fractions of its width and height. */
+  markerX: number
+  markerY: number
+}
+
+interface ReportPdfContent {
+  inspection: Inspection | null
+  site: Site | null
+  template: EffectiveTemplate
+  logo: Buffer | null
+  snapshots: ReportSnapshot[]
+  map: MapThumbnail | null
+}
+
+/** An image PDFKit has already parsed; drawing it again reuses the embedded copy. */
+interface OpenedImage {
+  width: number
+  height: number
+}
+
+interface TableColumn {
+  header: string
+  /** Share of the content width. */
+  width: number
+}
+
+const noopLogger: ReportPdfLogger = {
+  info: () => undefined,
+  warn: () => undefined,
+}
+
+const SEVERITY_COLORS: Record<SafetyFlag['severity'], string> = {
+  critical: '#b91c1c',
+  high: '#ea580c',
+  medium: '#ca8a04',
+  low: '#2563eb',
+}
+
+const DEFAULT_MAX_SNAPSHOTS = 20
+const MAP_ZOOM = 15
+const MAP_SIZE = 132
+const SNAPSHOT_MAX_HEIGHT = 300
+const REMOTE_FETCH_TIMEOUT_MS = 5000
+const MUTED_TEXT = '#555555'
+const CELL_PADDING = 4
+
+/** Storage object path of an uploaded snapshot; stored URLs are signed and expire, the path does not. */
+export function snapshotObjectPath(imageUrl: string): string | null {
+  let pathname = imageUrl
+  try {
+    pathname = new URL(imageUrl).pathname
+  } catch {
+    // Already a bare object path
+  }
+  const start = pathname.indexOf('inspections/')
+  return start >= 0 ? decodeURIComponent(pathname.slice(start)) : null
+}
+
+function formatTimestamp(value: Date): string {
+  return `${value.toISOString().slice(0, 16).replace('T', ' ')} UTC`
+}
+
+function fileName(imageUrl: string): string {
+  const path = snapshotObjectPath(imageUrl) ?? imageUrl.split('?')[0]
+  return path.slice(path.lastIndexOf('/') + 1) || imageUrl
+}
 
 export class ReportPdfService {
-  public async renderInspectionReportPdf(report: InspectionReport): Promise<Buffer> {
+  private readonly logger: ReportPdfLogger
+  private readonly resolveOrganizationTemplate?: ReportPdfServiceOptions['resolveOrganizationTemplate']
+  private readonly mapTileUrl: string | undefined
+  private readonly maxSnapshots: number
+
+  constructor(
+    private readonly dataService?: ReportPdfDataService,
+    private readonly storage?: ReportImageStore,
+    options: ReportPdfServiceOptions = {},
+  ) {
+    this.logger = options.logger || noopLogger
+    this.resolveOrganizationTemplate = options.resolveOrganizationTemplate
+    this.mapTileUrl = options.mapTileUrl ?? (process.env.REPORT_MAP_TILE_URL?.trim() || undefined)
+    this.maxSnapshots = options.maxSnapshots ?? DEFAULT_MAX_SNAPSHOTS
+  }
+
+  /**
+   * Renders the stored report with the live inspection behind it: snapshots
+   * with their annotations drawn on, safety, fault and OCR tables, and a
+   * location thumbnail, branded with the site's or organization's template.
+   * Anything that cannot be loaded is left out rather than failing the PDF.
+   */
+  public async renderInspectionReportPdf(report: InspectionReport, options: RenderReportPdfOptions = {}): Promise<Buffer> {
+    const content = await this.loadContent(report)
+    return this.render(report, content, options.approval)
+  }
+
+  private async loadContent(report: InspectionReport): Promise<ReportPdfContent> {
+    const [inspection, site, annotations, organizationTemplate] = await Promise.all([
+      this.dataService?.getInspectionById(report.inspectionId) ?? null,
+      this.dataService?.getSiteById(report.siteId) ?? null,
+      this.dataService?.listAnnotations(report.inspectionId) ?? [],
+      this.resolveOrganizationTemplate?.().catch((error) => {
+        this.logger.warn('Could not load the organization report template', {
+          message: error instanceof Error ? error.message : 'Unknown error',
+        })
+        return undefined
+      }),
+    ])
+    const template = effectiveReportTemplate(organizationTemplate, site?.reportTemplate)
+
+    return {
+      inspection,
+      site,
+      template,
+      logo: this.usableImage(decodeLogo(template)),
+      snapshots: await this.loadSnapshots(inspection?.images ?? [], annotations),
+      map: site ? await this.loadMapThumbnail(site.location.latitude, site.location.longitude) : null,
+    }
+  }
+
+  private async loadSnapshots(images: string[], annotations: InspectionAnnotation[]): Promise<ReportSnapshot[]> {
+    const snapshots: ReportSnapshot[] = []
+    for (const url of images.slice(0, this.maxSnapshots)) {
+      const objectPath = snapshotObjectPath(url)
+      const drawn = annotations.filter(
+        (annotation) =>
+          annotation.snapshotUrl &&
+          (annotation.snapshotUrl === url || (objectPath && snapshotObjectPath(annotation.snapshotUrl) === objectPath)),
+      )
+      snapshots.push({ url, image: objectPath ? await this.readSnapshot(objectPath) : null, annotations: drawn })
+    }
+    return snapshots
+  }
+
+  private async readSnapshot(objectPath: string): Promise<Buffer | null> {
+    if (!this.storage?.readObject || this.storage.isConfigured?.() === false) {
+      return null
+    }
+    try {
+      return this.usableImage(await this.storage.readObject(objectPath))
+    } catch (error) {
+      this.logger.warn('Could not read snapshot for PDF report', {
+        objectPath,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+      return null
+    }
+  }
+
+  private async loadMapThumbnail(latitude: number, longitude: number): Promise<MapThumbnail> {
+    const tiles = 2 ** MAP_ZOOM
+    const latitudeRadians = (Math.max(-85, Math.min(85, latitude)) * Math.PI) / 180
+    const tileX = ((longitude + 180) / 360) * tiles
+    const tileY = ((1 - Math.log(Math.tan(latitudeRadians) + 1 / Math.cos(latitudeRadians)) / Math.PI) / 2) * tiles
+    const thumbnail = { tile: null, markerX: tileX % 1, markerY: tileY % 1 }
+    if (!this.mapTileUrl) {
+      return thumbnail
+    }
+
+    const url = this.mapTileUrl
+      .replace('{z}', String(MAP_ZOOM))
+      .replace('{x}', String(Math.floor(tileX)))
+      .replace('{y}', String(Math.floor(tileY)))
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': 'FieldSightLive report renderer' },
+        signal: AbortSignal.timeout(REMOTE_FETCH_TIMEOUT_MS),
+      })
+      if (!response.ok) {
+        throw new Error(`Map tile request returned status ${response.status}`)
+      }
+      return { ...thumbnail, tile: this.usableImage(Buffer.from(await response.arrayBuffer())) }
+    } catch (error) {
+      this.logger.warn('Could not load map tile for PDF report', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+      return thumbnail
+    }
+  }
+
+  /** PDFKit embeds PNG and JPEG only; anything else is dropped up front instead of failing mid-render. */
+  private usableImage(buffer: Buffer | null): Buffer | null {
+    if (!buffer) {
+      return null
+    }
+    const isPng = buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+    const isJpeg = buffer[0] === 0xff && buffer[1] === 0xd8
+    return isPng || isJpeg ? buffer : null
+  }
+
+  private render(report: InspectionReport, content: ReportPdfContent, approval?: ReportApproval): Promise<Buffer> {
     return new Promise((resolve, reject) => {
-      const doc = new PDFDocument({ margin: 48, size: 'A4' })
+      const doc = new PDFDocument({
+        size: 'A4',
+        margins: { top: 72, bottom: 60, left: 48, right: 48 },
+        bufferPages: true,
+        info: {
+          Title: `${content.template.title} ${report.inspectionId}`,
+          ...(approval
+            ? {
+                Subject: `Approved by ${describeReviewActor(approval.approvedBy)}`,
+                Keywords: `verification-hash:${approval.verificationHash}`,
+              }
+            : {}),
+        },
+      })
       const chunks: Buffer[] = []
 
       doc.on('data', (chunk) => chunks.push(Buffer.from(chunk)))
       doc.on('end', () => resolve(Buffer.concat(chunks)))
       doc.on('error', reject)
 
-      doc.fontSize(18).text('FieldSight Live - Inspection Report')
-      doc.moveDown(0.5)
-      doc.fontSize(10)
-      doc.text(`Inspection ID: ${report.inspectionId}`)
-      doc.text(`Generated At: ${report.generatedAt.toISOString()}`)
-      doc.text(`Status: ${report.status}`)
-      doc.text(`Technician ID: ${report.technicianId}`)
-      doc.text(`Site ID: ${report.siteId}`)
-      doc.text(`Images Captured: ${report.imageCount}`)
-      doc.moveDown()
+      try {
+        this.writeOverview(doc, report, content)
+        this.writeSection(doc, content.template, 'Summary', [report.summaryText], false)
+        this.writeSafetyTable(doc, report, content)
+        this.writeFaultTable(doc, report, content)
+        this.writeOcrTable(doc, content)
+        this.writeSnapshots(doc, content)
+        this.writeSection(doc, content.template, 'Workflow Actions', report.workflowSummary)
+        this.writeSection(doc, content.template, 'Time Tracking', report.timeSummary)
+        this.writeSection(doc, content.template, 'Open Part Orders', report.openPartOrders)
+        this.writeSection(doc, content.template, 'Annotations', report.annotationSummary)
+        this.writeSection(doc, content.template, 'Transcript', report.transcriptExcerpt)
+        this.writeSection(doc, content.template, 'Recommended Actions', report.recommendedActions)
+        if (approval) {
+          this.writeApproval(doc, report, content, approval)
+        }
+        this.writePageFurniture(doc, content)
+        doc.end()
+      } catch (error) {
+        reject(error)
+      }
+    })
+  }
+
+  private writeOverview(doc: PDFKit.PDFDocument, report: InspectionReport, content: ReportPdfContent): void {
+    const left = doc.page.margins.left
+    const width = this.contentWidth(doc)
+    const site = content.site
 
-      this.writeSection(doc, 'Summary', [report.summaryText])
-      this.writeSection(doc, 'Findings', report.findings)
-      this.writeSection(doc, 'Safety Flags', report.safetySummary)
-      this.writeSection(doc, 'Workflow Actions', report.workflowSummary)
-      this.writeSection(doc, 'Recommended Actions', report.recommendedActions)
+    doc.fillColor(content.template.accentColor).fontSize(18).text(content.template.title, left, doc.y, { width })
+    doc.moveDown(0.5)
 
-      doc.end()
+    const top = doc.y
+    const detailsWidth = content.map ? width - MAP_SIZE - 16 : width
+    const location = site
+      ? `${site.location.latitude.toFixed(5)}, ${site.location.longitude.toFixed(5)}` +
+        (site.location.address ? ` (${site.location.address})` : '')
+      : null
+    const details: Array<[string, string]> = [
+      ['Inspection', report.inspectionId],
+      ['Generated', formatTimestamp(report.generatedAt)],
+      ['Status', report.status],
+      ['Technician', report.technicianId],
+      ['Site', site ? `${site.name} (${site.id})` : report.siteId],
+      ...(location ? [['Location', location] as [string, string]] : []),
+      ['Images captured', String(report.imageCount)],
+      ['Time tracked', `${report.totalTrackedMinutes} min`],
+    ]
+    doc.fontSize(10)
+    for (const [label, value] of details) {
+      doc.fillColor(MUTED_TEXT).text(`${label}: `, left, doc.y, { width: detailsWidth, continued: true })
+      doc.fillColor('black').text(value)
+    }
+    const detailsBottom = doc.y
+
+    if (content.map) {
+      this.drawMap(doc, content.map, left + width - MAP_SIZE, top)
+    }
+    doc.x = left
+    doc.y = Math.max(detailsBottom, content.map ? top + MAP_SIZE : 0)
+    doc.moveDown()
+  }
+
+  private drawMap(doc: PDFKit.PDFDocument, map: MapThumbnail, x: number, y: number): void {
+    doc.save()
+    doc.rect(x, y, MAP_SIZE, MAP_SIZE).clip()
+    if (map.tile) {
+      doc.image(map.tile, x, y, { width: MAP_SIZE, height: MAP_SIZE })
+    } else {
+      doc.rect(x, y, MAP_SIZE, MAP_SIZE).fill('#eef2f6')
+      doc.lineWidth(0.5).strokeColor('#c5ced8')
+      for (let offset = MAP_SIZE / 4; offset < MAP_SIZE; offset += MAP_SIZE / 4) {
+        doc.moveTo(x + offset, y).lineTo(x + offset, y + MAP_SIZE).stroke()
+        doc.moveTo(x, y + offset).lineTo(x + MAP_SIZE, y + offset).stroke()
+      }
+    }
+    const markerX = x + map.markerX * MAP_SIZE
+    const markerY = y + map.markerY * MAP_SIZE
+    doc.circle(markerX, markerY, 5).fillAndStroke('#d62828', 'white')
+    doc.restore()
+    doc.lineWidth(0.5).strokeColor('#999999').rect(x, y, MAP_SIZE, MAP_SIZE).stroke()
+  }
+
+  private writeSafetyTable(doc: PDFKit.PDFDocument, report: InspectionReport, content: ReportPdfContent): void {
+    const flags = content.inspection?.safetyFlags
+    if (!flags) {
+      this.writeSection(doc, content.template, 'Safety Flags', report.safetySummary)
+      return
+    }
+
+    this.writeHeading(doc, content.template, 'Safety Flags')
+    this.drawTable(
+      doc,
+      content.template,
+      [
+        { header: 'Severity', width: 0.14 },
+        { header: 'Type', width: 0.2 },
+        { header: 'Description', width: 0.44 },
+        { header: 'Observed', width: 0.22 },
+      ],
+      flags.map((flag) => [
+        flag.severity.toUpperCase(),
+        flag.type.replace(/_/g, ' '),
+        flag.description,
+        formatTimestamp(new Date(flag.timestamp)),
+      ]),
+      (row, column) => (column === 0 ? SEVERITY_COLORS[flags[row].severity] : undefined),
+    )
+  }
+
+  private writeFaultTable(doc: PDFKit.PDFDocument, report: InspectionReport, content: ReportPdfContent): void {
+    const faults = content.inspection?.detectedFaults
+    if (!faults) {
+      this.writeSection(doc, content.template, 'Findings', report.findings)
+      return
+    }
+
+    this.writeHeading(doc, content.template, 'Detected Faults')
+    this.drawTable(
+      doc,
+      content.template,
+      [
+        { header: 'Component', width: 0.2 },
+        { header: 'Fault', width: 0.2 },
+        { header: 'Confidence', width: 0.14 },
+        { header: 'Description', width: 0.46 },
+      ],
+      faults.map((fault) => [
+        fault.component,
+        fault.faultType,
+        `${Math.round(fault.confidence * 100)}%`,
+        fault.description,
+      ]),
+    )
+  }
+
+  private writeOcrTable(doc: PDFKit.PDFDocument, content: ReportPdfContent): void {
+    const findings = content.inspection?.ocrFindings
+    if (!findings || findings.length === 0) {
+      return
+    }
+
+    this.writeHeading(doc, content.template, 'OCR Readings')
+    this.drawTable(
+      doc,
+      content.template,
+      [
+        { header: 'Captured', width: 0.18 },
+        { header: 'Serial numbers', width: 0.2 },
+        { header: 'Meter readings', width: 0.24 },
+        { header: 'Warning labels', width: 0.24 },
+        { header: 'Confidence', width: 0.14 },
+      ],
+      findings.map((finding) => [
+        formatTimestamp(new Date(finding.createdAt)),
+        finding.serialNumbers.join(', ') || '-',
+        finding.meterReadings.join(', ') || '-',
+        finding.warningLabels.join(', ') || '-',
+        `${Math.round(finding.confidence * 100)}%`,
+      ]),
+    )
+  }
+
+  private writeSnapshots(doc: PDFKit.PDFDocument, content: ReportPdfContent): void {
+    const total = content.inspection?.images.length ?? 0
+    if (total === 0) {
+      return
+    }
+
+    this.writeHeading(doc, content.template, 'Snapshots')
+    const left = doc.page.margins.left
+    const width = this.contentWidth(doc)
+
+    content.snapshots.forEach((snapshot, index) => {
+      const labels = snapshot.annotations.flatMap((annotation) => (annotation.text ? [`"${annotation.text}"`] : []))
+      const noun = snapshot.annotations.length === 1 ? 'annotation' : 'annotations'
+      const caption = [
+        `Snapshot ${index + 1} of ${total}`,
+        fileName(snapshot.url),
+        ...(snapshot.annotations.length > 0 ? [`${snapshot.annotations.length} ${noun} ${labels.join(', ')}`.trim()] : []),
+      ].join(' - ')
+
+      if (!snapshot.image) {
+        this.ensureSpace(doc, 40)
+        doc.fontSize(9).fillColor(MUTED_TEXT).text(`${caption} (image unavailable)`, left, doc.y, { width })
+        doc.fillColor('black').moveDown()
+        return
+      }
+
+      const image = this.openImage(doc, snapshot.image)
+      const scale = Math.min(width / image.width, SNAPSHOT_MAX_HEIGHT / image.height, 1)
+      const drawnWidth = image.width * scale
+      const drawnHeight = image.height * scale
+      this.ensureSpace(doc, drawnHeight + 30)
+      const top = doc.y
+      this.drawImage(doc, image, left, top, { width: drawnWidth, height: drawnHeight })
+      this.drawAnnotations(doc, snapshot.annotations, left, top, drawnWidth, drawnHeight)
+      doc.fontSize(9).fillColor(MUTED_TEXT).text(caption, left, top + drawnHeight + 4, { width })
+      doc.fillColor('black').moveDown()
     })
+
+    if (total > content.snapshots.length) {
+      doc.fontSize(9).fillColor(MUTED_TEXT)
+      doc.text(`${total - content.snapshots.length} more snapshots are not shown.`, left, doc.y, { width })
+      doc.fillColor('black').moveDown()
+    }
+  }
+
+  /** Mirrors the live overlay: points are fractions of the image, so they scale with it. */
+  private drawAnnotations(
+    doc: PDFKit.PDFDocument,
+    annotations: InspectionAnnotation[],
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+  ): void {
+    doc.save()
+    doc.rect(x, y, width, height).clip()
+    for (const annotation of annotations) {
+      const points = annotation.points.map((point) => ({ x: x + point.x * width, y: y + point.y * height }))
+      const start = points[0]
+      const end = points[points.length - 1]
+      if (!start) {
+        continue
+      }
+      doc.lineWidth(2).strokeColor(annotation.color).fillColor(annotation.color)
+
+      switch (annotation.tool) {
+        case 'arrow': {
+          const angle = Math.atan2(end.y - start.y, end.x - start.x)
+          doc.moveTo(start.x, start.y).lineTo(end.x, end.y).stroke()
+          doc
+            .moveTo(end.x, end.y)
+            .lineTo(end.x - 10 * Math.cos(angle - Math.PI / 6), end.y - 10 * Math.sin(angle - Math.PI / 6))
+            .moveTo(end.x, end.y)
+            .lineTo(end.x - 10 * Math.cos(angle + Math.PI / 6), end.y - 10 * Math.sin(angle + Math.PI / 6))
+            .stroke()
+          break
+        }
+        case 'circle':
+          doc.circle(start.x, start.y, Math.hypot(end.x - start.x, end.y - start.y)).stroke()
+          break
+        case 'rectangle':
+          doc.rect(start.x, start.y, end.x - start.x, end.y - start.y).stroke()
+          break
+        case 'highlight':
+          doc.fillOpacity(0.3).rect(start.x, start.y, end.x - start.x, end.y - start.y).fill()
+          doc.fillOpacity(1)
+          break
+        case 'text':
+          if (annotation.text) {
+            doc.fontSize(10).text(annotation.text, start.x, start.y, { lineBreak: false })
+          }
+          break
+      }
+    }
+    doc.restore()
+    doc.fillColor('black').strokeColor('black')
   }
 
-  private writeSection(doc: PDFKit.PDFDocument, title: string, lines: string[]): void {
-    doc.fontSize(12).text(title)
-    doc.moveDown(0.3)
+  private writeApproval(
+    doc: PDFKit.PDFDocument,
+    report: InspectionReport,
+    content: ReportPdfContent,
+    approval: ReportApproval,
+  ): void {
+    this.writeHeading(doc, content.template, 'Approval')
+    const details: Array<[string, string]> = [
+      ['Approved by', `${describeReviewActor(approval.approvedBy)} (${approval.approvedBy.role})`],
+      ['Approved at', formatTimestamp(approval.approvedAt)],
+      ['Report version', String(approval.reportVersion)],
+      ['Content hash', approval.reportContentHash],
+      ['Verification hash', approval.verificationHash],
+    ]
+    doc.fontSize(10)
+    for (const [label, value] of details) {
+      doc.fillColor(MUTED_TEXT).text(`${label}: `, { continued: true })
+      doc.fillColor('black').text(value)
+    }
+    doc
+      .moveDown(0.3)
+      .fillColor(MUTED_TEXT)
+      .fontSize(8)
+      .text(`Check this approval at /api/v1/inspections/${report.inspectionId}/review/verify?hash=<verification hash>`)
+    doc.fillColor('black').moveDown()
+  }
+
+  private writeHeading(doc: PDFKit.PDFDocument, template: EffectiveTemplate, title: string): void {
+    this.ensureSpace(doc, 48)
+    doc.x = doc.page.margins.left
+    doc.fontSize(12).fillColor(template.accentColor).text(title)
+    doc.fillColor('black').moveDown(0.3)
+  }
+
+  private writeSection(
+    doc: PDFKit.PDFDocument,
+    template: EffectiveTemplate,
+    title: string,
+    lines: string[],
+    bulleted = true,
+  ): void {
+    this.writeHeading(doc, template, title)
     const values = lines.length > 0 ? lines : ['None']
     doc.fontSize(10)
     for (const line of values) {
-      doc.text(`- ${line}`)
+      doc.text(bulleted ? `- ${line}` : line)
     }
     doc.moveDown()
   }
+
+  private drawTable(
+    doc: PDFKit.PDFDocument,
+    template: EffectiveTemplate,
+    columns: TableColumn[],
+    rows: string[][],
+    cellColor?: (row: number, column: number) => string | undefined,
+  ): void {
+    const left = doc.page.margins.left
+    const widths = columns.map((column) => column.width * this.contentWidth(doc))
+    doc.fontSize(9)
+
+    const rowHeight = (cells: string[]) =>
+      Math.max(...cells.map((cell, index) => doc.heightOfString(cell, { width: widths[index] - CELL_PADDING * 2 }))) +
+      CELL_PADDING * 2
+
+    const drawRow = (cells: string[], y: number, height: number, fill: (column: number) => string | undefined) => {
+      let x = left
+      cells.forEach((cell, index) => {
+        const background = fill(index)
+        if (background) {
+          doc.rect(x, y, widths[index], height).fill(background)
+        }
+        doc.lineWidth(0.5).strokeColor('#c8c8c8').rect(x, y, widths[index], height).stroke()
+        doc.fillColor(background ? 'white' : 'black')
+        doc.text(cell, x + CELL_PADDING, y + CELL_PADDING, { width: widths[index] - CELL_PADDING * 2 })
+        x += widths[index]
+      })
+    }
+
+    const headers = columns.map((column) => column.header)
+    const drawHeader = () => {
+      const height = rowHeight(headers)
+      drawRow(headers, doc.y, height, () => template.accentColor)
+      return height
+    }
+
+    if (rows.length === 0) {
+      doc.fontSize(10).text('None', left)
+      doc.moveDown()
+      return
+    }
+
+    let y = doc.y
+    y += drawHeader()
+    rows.forEach((cells, rowIndex) => {
+      const height = rowHeight(cells)
+      if (y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage()
+        doc.y = doc.page.margins.top
+        y = doc.y + drawHeader()
+      }
+      drawRow(cells, y, height, (column) => cellColor?.(rowIndex, column))
+      y += height
+    })
+
+    doc.fillColor('black')
+    doc.x = left
+    doc.y = y
+    doc.moveDown()
+  }
+
+  /** Logo, header, footer and page numbers, drawn once every page exists so totals are known. */
+  private writePageFurniture(doc: PDFKit.PDFDocument, content: ReportPdfContent): void {
+    const { template } = content
+    const logo = content.logo && this.openImage(doc, content.logo)
+    const range = doc.bufferedPageRange()
+    for (let index = range.start; index < range.start + range.count; index += 1) {
+      doc.switchToPage(index)
+      const left = doc.page.margins.left
+      const width = this.contentWidth(doc)
+      // Writing inside the bottom margin would otherwise start a new page
+      const bottomMargin = doc.page.margins.bottom
+      doc.page.margins.bottom = 0
+
+      if (logo) {
+        this.drawImage(doc, logo, left, 24, { fit: [120, 32] })
+      }
+      if (template.headerText) {
+        doc.fontSize(9).fillColor(MUTED_TEXT)
+        doc.text(template.headerText, left + 130, 32, { width: width - 130, align: 'right', lineBreak: false })
+      }
+      const footerY = doc.page.height - 40
+      if (template.footerText) {
+        doc.fontSize(8).fillColor(MUTED_TEXT).text(template.footerText, left, footerY, { width, lineBreak: false })
+      }
+      if (template.showPageNumbers ?? DEFAULT_REPORT_TEMPLATE.showPageNumbers) {
+        doc.fontSize(8).fillColor(MUTED_TEXT)
+        doc.text(`Page ${index - range.start + 1} of ${range.count}`, left, footerY, {
+          width,
+          align: 'right',
+          lineBreak: false,
+        })
+      }
+
+      doc.page.margins.bottom = bottomMargin
+      doc.fillColor('black')
+    }
+  }
+
+  private ensureSpace(doc: PDFKit.PDFDocument, height: number): void {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage()
+    }
+  }
+
+  private contentWidth(doc: PDFKit.PDFDocument): number {
+    return doc.page.width - doc.page.margins.left - doc.page.margins.right
+  }
+
+  private openImage(doc: PDFKit.PDFDocument, image: Buffer): OpenedImage {
+    // openImage is public in PDFKit but missing from its type definitions
+    return (doc as unknown as { openImage: (src: Buffer) => OpenedImage }).openImage(image)
+  }
+
+  private drawImage(
+    doc: PDFKit.PDFDocument,
+    image: OpenedImage,
+    x: number,
+    y: number,
+    options: PDFKit.Mixins.ImageOption,
+  ): void {
+    doc.image(image as unknown as Buffer, x, y, options)
+  }
 }
@@ -1,10 +1,12 @@
-import type { DataService } from './data-service'
 import type { InspectionReport } from './firestore-data.service'
+import { MemoryDataService } from './memory-data.service'
 import { ReportPipelineService } from './report-pipeline.service'
 
 function createReport(inspectionId: string): InspectionReport {
   return {
     inspectionId,
+    version: 1,
+    contentHash: 'hash',
     generatedAt: new Date(),
     technicianId: 'tech-1',
     siteId: 'site-1',
@@ -14,10 +16,21 @@ function createReport(inspectionId: string): InspectionReport {
     workflowSummary: [],
     recommendedActions: [],
     imageCount: 0,
+    totalTrackedMinutes: 0,
+    timeSummary: [],
+    openPartOrders: [],
+    annotationSummary: [],
+    transcriptExcerpt: [],
     summaryText: 'ok',
   }
 }
 
+function createDataService(generate: (inspectionId: string) => Promise<InspectionReport | null>) {
+  const dataService = new MemoryDataService()
+  const generateInspectionReport = jest.spyOn(dataService, 'generateInspectionReport').mockImplementation(generate)
+  return { dataService, generateInspectionReport }
+}
+
 async function waitForStatus(
   service: ReportPipelineService,
   jobId: string,
@@ -26,7 +39,7 @@ async function waitForStatus(
 ): Promise<void> {
   const deadline = Date.now() + timeoutMs
   while (Date.now() < deadline) {
-    const job = service.getReportJob(jobId)
+    const job = await service.getReportJob(jobId)
     if (job?.status === status) {
       return
     }
@@ -48,10 +61,10 @@ describe('ReportPipelineService', () => {
     process.env.REPORT_PIPELINE_PROVIDER = 'local'
     delete process.env.REPORT_PUBSUB_TOPIC
 
-    const generateInspectionReport = jest.fn(async (inspectionId: string) => createReport(inspectionId))
-    const service = new ReportPipelineService({
-      generateInspectionReport,
-    } as unknown as DataService)
+    const { dataService, generateInspectionReport } = createDataService(async (inspectionId) =>
+      createReport(inspectionId),
+    )
+    const service = new ReportPipelineService(dataService)
 
     const job = await service.enqueueReportGeneration('insp-local-1')
     expect(job.status).toBe('queued')
@@ -59,7 +72,7 @@ describe('ReportPipelineService', () => {
 
     await waitForStatus(service, job.jobId, 'completed')
 
-    const finalJob = service.getReportJob(job.jobId)
+    const finalJob = await service.getReportJob(job.jobId)
     expect(finalJob?.status).toBe('completed')
     expect(finalJob?.reportGeneratedAt).toBeDefined()
     expect(generateInspectionReport).toHaveBeenCalledWith('insp-local-1')
@@ -69,33 +82,76 @@ describe('ReportPipelineService', () => {
     process.env.REPORT_PIPELINE_PROVIDER = 'local'
     delete process.env.REPORT_PUBSUB_TOPIC
 
-    const generateInspectionReport = jest.fn(async () => null)
-    const service = new ReportPipelineService({
-      generateInspectionReport,
-    } as unknown as DataService)
+    const { dataService } = createDataService(async () => null)
+    const service = new ReportPipelineService(dataService)
 
     const job = await service.enqueueReportGeneration('insp-missing')
     await waitForStatus(service, job.jobId, 'failed')
 
-    const finalJob = service.getReportJob(job.jobId)
+    const finalJob = await service.getReportJob(job.jobId)
     expect(finalJob?.status).toBe('failed')
+    expect(finalJob?.attempts).toBe(1)
     expect(finalJob?.error).toContain('Inspection not found')
   })
 
+  it('should persist jobs so another service instance can see them', async () => {
+    process.env.REPORT_PIPELINE_PROVIDER = 'local'
+    const { dataService } = createDataService(async (inspectionId) => createReport(inspectionId))
+
+    const job = await new ReportPipelineService(dataService).enqueueReportGeneration('insp-durable-1')
+    await waitForStatus(new ReportPipelineService(dataService), job.jobId, 'completed')
+
+    expect(await dataService.getReportJob(job.jobId)).toEqual(
+      expect.objectContaining({ status: 'completed', attempts: 1, reportGeneratedAt: expect.any(Date) }),
+    )
+  })
+
+  it('should leave queue provider jobs for the worker processes', async () => {
+    process.env.REPORT_PIPELINE_PROVIDER = 'queue'
+    const { dataService, generateInspectionReport } = createDataService(async (inspectionId) =>
+      createReport(inspectionId),
+    )
+    const service = new ReportPipelineService(dataService)
+
+    const job = await service.enqueueReportGeneration('insp-queue-1')
+    await new Promise((resolve) => setImmediate(resolve))
+
+    expect(service.runsQueueInProcess()).toBe(false)
+    expect(job.provider).toBe('queue')
+    expect((await service.getReportJob(job.jobId))?.status).toBe('queued')
+    expect(generateInspectionReport).not.toHaveBeenCalled()
+  })
+
+  it('should requeue a failed job and run it again', async () => {
+    process.env.REPORT_PIPELINE_PROVIDER = 'local'
+    const { dataService, generateInspectionReport } = createDataService(async () => null)
+    const service = new ReportPipelineService(dataService)
+    const job = await service.enqueueReportGeneration('insp-requeue-1')
+    await waitForStatus(service, job.jobId, 'failed')
+
+    generateInspectionReport.mockImplementation(async (inspectionId) => createReport(inspectionId))
+    const requeued = await service.requeueReportJob(job.jobId)
+
+    expect(requeued).toEqual(expect.objectContaining({ status: 'queued', attempts: 0 }))
+    await waitForStatus(service, job.jobId, 'completed')
+    await expect(service.requeueReportJob(job.jobId)).rejects.toThrow('Only failed or dead-lettered jobs')
+    expect(await service.requeueReportJob('job-missing')).toBeNull()
+  })
+
   it('should fall back to local pipeline when pubsub provider is selected but topic is missing', async () => {
     process.env.REPORT_PIPELINE_PROVIDER = 'pubsub'
     delete process.env.REPORT_PUBSUB_TOPIC
 
-    const generateInspectionReport = jest.fn(async (inspectionId: string) => createReport(inspectionId))
-    const service = new ReportPipelineService({
-      generateInspectionReport,
-    } as unknown as DataService)
+    const { dataService, generateInspectionReport } = createDataService(async (inspectionId) =>
+      createReport(inspectionId),
+    )
+    const service = new ReportPipelineService(dataService)
 
     const job = await service.enqueueReportGeneration('insp-fallback-1')
     expect(job.provider).toBe('local')
 
     await waitForStatus(service, job.jobId, 'completed')
-    const latestJob = service.getLatestReportJobForInspection('insp-fallback-1')
+    const latestJob = await service.getLatestReportJobForInspection('insp-fallback-1')
     expect(latestJob?.jobId).toBe(job.jobId)
   })
 
@@ -103,10 +159,10 @@ describe('ReportPipelineService', () => {
     process.env.REPORT_PIPELINE_PROVIDER = 'pubsub'
     process.env.REPORT_PUBSUB_TOPIC = 'projects/test-project/topics/report-jobs'
 
-    const generateInspectionReport = jest.fn(async (inspectionId: string) => createReport(inspectionId))
-    const service = new ReportPipelineService({
-      generateInspectionReport,
-    } as unknown as DataService)
+    const { dataService, generateInspectionReport } = createDataService(async (inspectionId) =>
+      createReport(inspectionId),
+    )
+    const service = new ReportPipelineService(dataService)
 
     jest
       .spyOn(
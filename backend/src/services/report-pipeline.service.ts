@@ -1,22 +1,11 @@
 import { GoogleAuth } from 'google-auth-library'
-import { v4 as uuidv4 } from 'uuid'
-import type { DataService } from './data-service'
-
-export type ReportPipelineProvider = 'local' | 'pubsub'
-export type ReportJobStatus = 'queued' | 'processing' | 'completed' | 'failed'
-
-export interface ReportGenerationJob {
-  jobId: string
-  inspectionId: string
-  status: ReportJobStatus
-  provider: ReportPipelineProvider
-  createdAt: string
-  updatedAt: string
-  reportGeneratedAt?: string
-  error?: string
-}
+import type { DataService, ListReportJobFilters } from './data-service'
+import { currentOrganizationId, DEFAULT_ORGANIZATION_ID } from './organization-context'
+import { ReportJobRunner } from './report-job-runner'
+import type { ReportGenerationJob, ReportPipelineProvider } from '../types'
 
 interface ReportPubSubPayload {
+  organizationId: string
   inspectionId: string
   jobId: string
   requestedAt: string
@@ -27,46 +16,65 @@ interface ReportPipelineLogger {
   warn: (message: string, meta?: Record<string, unknown>) => void
 }
 
+type ReportPipelineDataService = Pick<
+  DataService,
+  | 'generateInspectionReport'
+  | 'createReportJob'
+  | 'getReportJob'
+  | 'listReportJobs'
+  | 'claimReportJob'
+  | 'updateReportJob'
+>
+
 const noopLogger: ReportPipelineLogger = {
   info: () => undefined,
   warn: () => undefined,
 }
 
+/**
+ * Queues report generation as durable jobs. With the `local` provider the
+ * API works its own queue; with `queue` it only stores jobs for separate
+ * worker processes; with `pubsub` it publishes each job for the Cloud
+ * Function, and queue runners pick the job up if the function has not
+ * settled it within one lease.
+ */
 export class ReportPipelineService {
-  private readonly jobs = new Map<string, ReportGenerationJob>()
-  private readonly latestJobByInspectionId = new Map<string, string>()
   private readonly googleAuth = new GoogleAuth({
     scopes: ['https://www.googleapis.com/auth/cloud-platform'],
   })
   private readonly configuredProvider: ReportPipelineProvider
   private readonly pubSubTopic: string | null
   private readonly logger: ReportPipelineLogger
+  private readonly runner: ReportJobRunner
 
   constructor(
-    private readonly dataService: DataService,
+    private readonly dataService: ReportPipelineDataService,
     logger?: ReportPipelineLogger,
+    runner?: ReportJobRunner,
   ) {
     const providerValue = process.env.REPORT_PIPELINE_PROVIDER?.trim().toLowerCase()
-    this.configuredProvider = providerValue === 'pubsub' ? 'pubsub' : 'local'
+    this.configuredProvider = providerValue === 'pubsub' || providerValue === 'queue' ? providerValue : 'local'
     const topic = process.env.REPORT_PUBSUB_TOPIC?.trim()
     this.pubSubTopic = topic && topic.length > 0 ? topic : null
     this.logger = logger || noopLogger
+    this.runner = runner ?? new ReportJobRunner(dataService, { logger: this.logger })
+  }
+
+  /** Whether this process should poll the queue; under `queue` separate workers do. */
+  public runsQueueInProcess(): boolean {
+    return this.configuredProvider !== 'queue'
   }
 
   public async enqueueReportGeneration(inspectionId: string): Promise<ReportGenerationJob> {
-    const now = new Date().toISOString()
     const provider = this.resolveProvider()
-    const job: ReportGenerationJob = {
-      jobId: uuidv4(),
+    const policy = this.runner.getPolicy()
+    const job = await this.dataService.createReportJob({
       inspectionId,
-      status: 'queued',
       provider,
-      createdAt: now,
-      updatedAt: now,
-    }
-
-    this.jobs.set(job.jobId, job)
-    this.latestJobByInspectionId.set(inspectionId, job.jobId)
+      maxAttempts: policy.maxAttempts,
+      // Queue runners leave a published job to the Cloud Function for one lease
+      nextAttemptAt: provider === 'pubsub' ? new Date(Date.now() + policy.leaseMs) : undefined,
+    })
 
     if (provider === 'pubsub') {
       try {
@@ -75,97 +83,75 @@ export class ReportPipelineService {
           inspectionId: job.inspectionId,
           jobId: job.jobId,
         })
+        return job
       } catch (error) {
         this.logger.warn('Pub/Sub queue failed; falling back to local report processing', {
           inspectionId: job.inspectionId,
           jobId: job.jobId,
           error: error instanceof Error ? error.message : 'Unknown error',
         })
-        this.updateJob(job.jobId, {
-          provider: 'local',
-          updatedAt: new Date().toISOString(),
-        })
+        const fallback = await this.dataService.updateReportJob(
+          job.jobId,
+          { status: 'queued', attempts: 0 },
+          { status: 'queued', provider: 'local', attempts: 0 },
+        )
         this.scheduleLocalProcessing(job.jobId)
+        return fallback ?? job
       }
-      const persistedJob = this.jobs.get(job.jobId)
-      return persistedJob ? this.copyJob(persistedJob) : this.copyJob(job)
     }
 
-    this.scheduleLocalProcessing(job.jobId)
-    this.logger.info('Report job queued on local pipeline', {
+    if (provider === 'local') {
+      this.scheduleLocalProcessing(job.jobId)
+    }
+    this.logger.info(`Report job queued on ${provider} pipeline`, {
       inspectionId: job.inspectionId,
       jobId: job.jobId,
     })
-    return this.copyJob(job)
+    return job
   }
 
-  public getReportJob(jobId: string): ReportGenerationJob | null {
-    const job = this.jobs.get(jobId)
-    return job ? this.copyJob(job) : null
+  public async getReportJob(jobId: string): Promise<ReportGenerationJob | null> {
+    return this.dataService.getReportJob(jobId)
   }
 
-  public getLatestReportJobForInspection(inspectionId: string): ReportGenerationJob | null {
-    const jobId = this.latestJobByInspectionId.get(inspectionId)
-    if (!jobId) {
-      return null
-    }
-    return this.getReportJob(jobId)
+  public async getLatestReportJobForInspection(inspectionId: string): Promise<ReportGenerationJob | null> {
+    const [job] = await this.dataService.listReportJobs({ inspectionId, limit: 1 })
+    return job ?? null
   }
 
-  private resolveProvider(): ReportPipelineProvider {
-    if (this.configuredProvider === 'pubsub' && this.pubSubTopic) {
-      return 'pubsub'
-    }
-    return 'local'
-  }
-
-  private scheduleLocalProcessing(jobId: string): void {
-    setImmediate(() => {
-      void this.runLocalProcessing(jobId)
-    })
+  public async listReportJobs(filters: ListReportJobFilters): Promise<ReportGenerationJob[]> {
+    return this.dataService.listReportJobs(filters)
   }
 
-  private async runLocalProcessing(jobId: string): Promise<void> {
-    const current = this.jobs.get(jobId)
-    if (!current) {
-      return
+  /** Throws `ReportJobStateError` unless the job failed or was dead-lettered. Requeued jobs skip Pub/Sub. */
+  public async requeueReportJob(jobId: string): Promise<ReportGenerationJob | null> {
+    const provider = this.configuredProvider === 'queue' ? 'queue' : 'local'
+    const job = await this.runner.requeue(jobId, provider)
+    if (job && provider === 'local') {
+      this.scheduleLocalProcessing(job.jobId)
     }
+    return job
+  }
 
-    this.updateJob(jobId, {
-      status: 'processing',
-      updatedAt: new Date().toISOString(),
-      error: undefined,
-    })
-
-    try {
-      const report = await this.dataService.generateInspectionReport(current.inspectionId)
-      if (!report) {
-        throw new Error('Inspection not found')
-      }
+  private organizationId(): string {
+    return currentOrganizationId() ?? DEFAULT_ORGANIZATION_ID
+  }
 
-      this.updateJob(jobId, {
-        status: 'completed',
-        updatedAt: new Date().toISOString(),
-        reportGeneratedAt: new Date().toISOString(),
-        error: undefined,
-      })
-    } catch (error) {
-      this.updateJob(jobId, {
-        status: 'failed',
-        updatedAt: new Date().toISOString(),
-        error: error instanceof Error ? error.message : 'Report generation failed',
-      })
+  private resolveProvider(): ReportPipelineProvider {
+    if (this.configuredProvider === 'pubsub' && !this.pubSubTopic) {
+      return 'local'
     }
+    return this.configuredProvider
   }
 
-  private updateJob(jobId: string, patch: Partial<ReportGenerationJob>): void {
-    const current = this.jobs.get(jobId)
-    if (!current) {
-      return
-    }
-    this.jobs.set(jobId, {
-      ...current,
-      ...patch,
+  private scheduleLocalProcessing(jobId: string): void {
+    setImmediate(() => {
+      this.runner.run(jobId).catch((error) => {
+        this.logger.warn('Local report processing failed', {
+          jobId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      })
     })
   }
 
@@ -182,9 +168,10 @@ export class ReportPipelineService {
 
     const normalizedTopic = this.normalizeTopicPath(topic)
     const payload: ReportPubSubPayload = {
+      organizationId: this.organizationId(),
       inspectionId: job.inspectionId,
       jobId: job.jobId,
-      requestedAt: job.createdAt,
+      requestedAt: job.createdAt.toISOString(),
     }
     const base64Payload = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64')
 
@@ -225,10 +212,4 @@ export class ReportPipelineService {
 
     return `projects/${projectId}/topics/${trimmed}`
   }
-
-  private copyJob(job: ReportGenerationJob): ReportGenerationJob {
-    return {
-      ...job,
-    }
-  }
 }
@@ -0,0 +1,37 @@
+import type { InspectionReport } from './firestore-data.service'
+import { createReportRendererRegistry } from './report-renderer'
+
+describe('ReportRendererRegistry', () => {
+  const pdf = { renderInspectionReportPdf: jest.fn(async () => Buffer.from('%PDF')) }
+  const documents = {
+    renderHtml: jest.fn(async () => Buffer.from('<html>')),
+    renderDocx: jest.fn(async () => Buffer.from('PK')),
+    renderCsv: jest.fn(async () => Buffer.from('record_type')),
+  }
+
+  it('registers the built-in formats with JSON first', async () => {
+    const registry = createReportRendererRegistry(pdf, documents)
+
+    expect(registry.formats()).toEqual(['json', 'pdf', 'html', 'docx', 'csv'])
+    expect(registry.mediaTypes()[0]).toBe('application/json')
+    expect(registry.get('PDF')?.mediaType).toBe('application/pdf')
+    expect(registry.byMediaType('text/csv')?.format).toBe('csv')
+    expect(registry.get('xlsx')).toBeNull()
+
+    const report = { inspectionId: 'insp-1', version: 2 } as InspectionReport
+    expect(JSON.parse((await registry.get('json')!.render(report)).toString())).toEqual(report)
+    await registry.get('docx')!.render(report)
+    expect(documents.renderDocx).toHaveBeenCalledWith(report)
+  })
+
+  it('lets a registered renderer add a format or replace a built-in one', async () => {
+    const registry = createReportRendererRegistry(pdf, documents)
+    const markdown = { format: 'md', mediaType: 'text/markdown', render: async () => Buffer.from('# Report') }
+    const csv = { format: 'csv', mediaType: 'text/csv', render: async () => Buffer.from('custom') }
+
+    registry.register(markdown).register(csv)
+
+    expect(registry.formats()).toEqual(['json', 'pdf', 'html', 'docx', 'csv', 'md'])
+    expect(registry.get('csv')).toBe(csv)
+  })
+})
@@ -0,0 +1,75 @@
+import type { InspectionReport } from './firestore-data.service'
+
+/** Turns a stored report version into one downloadable file format. */
+export interface ReportRenderer {
+  /** Lower-case path suffix, as in `report.<format>`; also the file extension. */
+  format: string
+  /** Matched against the `Accept` header and sent as `Content-Type`. */
+  mediaType: string
+  render: (report: InspectionReport) => Promise<Buffer>
+}
+
+interface ReportPdfRenderer {
+  renderInspectionReportPdf: (report: InspectionReport) => Promise<Buffer>
+}
+
+interface ReportDocumentRenderer {
+  renderHtml: (report: InspectionReport) => Promise<Buffer>
+  renderDocx: (report: InspectionReport) => Promise<Buffer>
+  renderCsv: (report: InspectionReport) => Promise<Buffer>
+}
+
+export class ReportRendererRegistry {
+  private readonly renderers = new Map<string, ReportRenderer>()
+
+  constructor(renderers: ReportRenderer[] = []) {
+    for (const renderer of renderers) {
+      this.register(renderer)
+    }
+  }
+
+  /** A renderer registered for a format that is already taken replaces the earlier one. */
+  public register(renderer: ReportRenderer): this {
+    this.renderers.set(renderer.format.toLowerCase(), renderer)
+    return this
+  }
+
+  public get(format: string): ReportRenderer | null {
+    return this.renderers.get(format.toLowerCase()) ?? null
+  }
+
+  public byMediaType(mediaType: string): ReportRenderer | null {
+    return [...this.renderers.values()].find((renderer) => renderer.mediaType === mediaType) ?? null
+  }
+
+  /** In registration order, which is the order of preference when `Accept` allows several. */
+  public formats(): string[] {
+    return [...this.renderers.keys()]
+  }
+
+  public mediaTypes(): string[] {
+    return [...this.renderers.values()].map((renderer) => renderer.mediaType)
+  }
+}
+
+/** JSON first, so clients that accept anything keep getting the report as JSON. */
+export function createReportRendererRegistry(
+  pdf: ReportPdfRenderer,
+  documents: ReportDocumentRenderer,
+): ReportRendererRegistry {
+  return new ReportRendererRegistry([
+    {
+      format: 'json',
+      mediaType: 'application/json',
+      render: async (report) => Buffer.from(JSON.stringify(report, null, 2)),
+    },
+    { format: 'pdf', mediaType: 'application/pdf', render: (report) => pdf.renderInspectionReportPdf(report) },
+    { format: 'html', mediaType: 'text/html', render: (report) => documents.renderHtml(report) },
+    {
+      format: 'docx',
+      mediaType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      render: (report) => documents.renderDocx(report),
+    },
+    { format: 'csv', mediaType: 'text/csv', render: (report) => documents.renderCsv(report) },
+  ])
+}
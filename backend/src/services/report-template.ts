@@ -0,0 +1,60 @@
+import type { ReportTemplate } from '../types'
+
+/** Roughly 500 KB of image once decoded. */
+export const MAX_LOGO_DATA_URL_LENGTH = 700_000
+
+export const LOGO_DATA_URL_PATTERN = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+={0,2}$/
+
+export const ACCENT_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/
+
+export const DEFAULT_REPORT_TEMPLATE: Required<Omit<ReportTemplate, 'logoDataUrl' | 'headerText' | 'footerText'>> = {
+  title: 'FieldSight Live - Inspection Report',
+  accentColor: '#1f4e79',
+  showPageNumbers: true,
+}
+
+const TEXT_FIELDS = ['title', 'headerText', 'footerText'] as const
+
+/** Keeps the fields that are well formed; undefined when nothing valid is left. */
+export function readReportTemplate(value: unknown): ReportTemplate | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined
+  }
+
+  const raw = value as Record<string, unknown>
+  const template: ReportTemplate = {}
+  for (const field of TEXT_FIELDS) {
+    const text = raw[field]
+    if (typeof text === 'string' && text.trim().length > 0) {
+      template[field] = text.trim()
+    }
+  }
+  if (
+    typeof raw.logoDataUrl === 'string' &&
+    raw.logoDataUrl.length <= MAX_LOGO_DATA_URL_LENGTH &&
+    LOGO_DATA_URL_PATTERN.test(raw.logoDataUrl)
+  ) {
+    template.logoDataUrl = raw.logoDataUrl
+  }
+  if (typeof raw.accentColor === 'string' && ACCENT_COLOR_PATTERN.test(raw.accentColor)) {
+    template.accentColor = raw.accentColor
+  }
+  if (typeof raw.showPageNumbers === 'boolean') {
+    template.showPageNumbers = raw.showPageNumbers
+  }
+  return Object.keys(template).length > 0 ? template : undefined
+}
+
+/** The site's template wins field by field over the organization's, which wins over the built-in look. */
+export function effectiveReportTemplate(
+  organization?: ReportTemplate,
+  site?: ReportTemplate,
+): ReportTemplate & typeof DEFAULT_REPORT_TEMPLATE {
+  return { ...DEFAULT_REPORT_TEMPLATE, ...readReportTemplate(organization), ...readReportTemplate(site) }
+}
+
+/** Decodes a template logo; null when the template has none or it is malformed. */
+export function decodeLogo(template: ReportTemplate): Buffer | null {
+  const match = template.logoDataUrl?.match(/^data:image\/(?:png|jpeg);base64,(.+)$/)
+  return match ? Buffer.from(match[1], 'base64') : null
+}
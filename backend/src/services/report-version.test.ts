@@ -0,0 +1,64 @@
+import type { InspectionReport } from './firestore-data.service'
+import { diffInspectionReports, reportContentHash, reportVersionId } from './report-version'
+
+function report(overrides: Partial<InspectionReport> = {}): InspectionReport {
+  const base: InspectionReport = {
+    inspectionId: 'insp-1',
+    version: 1,
+    contentHash: '',
+    generatedAt: new Date('2026-03-01T10:00:00.000Z'),
+    technicianId: 'tech-1',
+    siteId: 'site-1',
+    status: 'in_progress',
+    findings: ['pump: vibration (50% confidence)'],
+    safetySummary: [],
+    workflowSummary: [],
+    recommendedActions: [],
+    imageCount: 1,
+    totalTrackedMinutes: 0,
+    timeSummary: [],
+    openPartOrders: [],
+    annotationSummary: [],
+    transcriptExcerpt: [],
+    summaryText: 'One finding',
+    ...overrides,
+  }
+  return { ...base, contentHash: reportContentHash(base) }
+}
+
+describe('report versions', () => {
+  it('hashes content only, so an unchanged regeneration keeps its hash', () => {
+    const first = report()
+    const again = report({ version: 2, generatedAt: new Date('2026-03-02T10:00:00.000Z') })
+
+    expect(again.contentHash).toBe(first.contentHash)
+    expect(report({ imageCount: 2 }).contentHash).not.toBe(first.contentHash)
+  })
+
+  it('diffs scalar fields by value and list fields by added and removed lines', () => {
+    const from = report()
+    const to = report({
+      version: 2,
+      status: 'completed',
+      findings: ['pump: vibration (50% confidence)', 'valve: leak (80% confidence)'],
+    })
+
+    expect(diffInspectionReports(from, to)).toMatchObject({
+      from: { version: 1 },
+      to: { version: 2 },
+      identical: false,
+      changes: [
+        { field: 'findings', added: ['valve: leak (80% confidence)'], removed: [] },
+        { field: 'status', before: 'in_progress', after: 'completed' },
+      ],
+    })
+    expect(diffInspectionReports(from, report({ version: 3 }))).toMatchObject({ identical: true, changes: [] })
+  })
+
+  it('pads version ids so they sort in version order', () => {
+    expect([reportVersionId('insp-1', 10), reportVersionId('insp-1', 9)].sort()).toEqual([
+      'insp-1:000009',
+      'insp-1:000010',
+    ])
+  })
+})
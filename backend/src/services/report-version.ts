@@ -0,0 +1,89 @@
+import { createHash } from 'crypto'
+import type { InspectionReport } from './firestore-data.service'
+import { canonicalJson } from '../utils/canonical-json'
+
+/** Report fields that identify a version rather than describe the inspection. */
+type ReportVersionFields = 'version' | 'contentHash' | 'generatedAt'
+
+export type InspectionReportContent = Omit<InspectionReport, ReportVersionFields>
+
+export interface InspectionReportVersionSummary {
+  inspectionId: string
+  version: number
+  contentHash: string
+  generatedAt: Date
+  status: InspectionReport['status']
+}
+
+export interface ReportFieldChange {
+  field: keyof InspectionReportContent
+  /** Scalar fields: the value in each version. */
+  before?: unknown
+  after?: unknown
+  /** List fields: lines only the newer or only the older version has, in their own order. */
+  added?: string[]
+  removed?: string[]
+}
+
+export interface InspectionReportDiff {
+  inspectionId: string
+  from: InspectionReportVersionSummary
+  to: InspectionReportVersionSummary
+  /** Same content hash; only the version number and generation time differ. */
+  identical: boolean
+  changes: ReportFieldChange[]
+}
+
+/**
+ * SHA-256 over the canonical JSON of the report content. Version number and
+ * generation time are left out, so regenerating an unchanged inspection gives
+ * the same hash.
+ */
+export function reportContentHash(report: InspectionReportContent | InspectionReport): string {
+  const { version, contentHash, generatedAt, ...content } = report as InspectionReport
+  return createHash('sha256').update(canonicalJson(content)).digest('hex')
+}
+
+/** Record id of one report version; zero padding keeps versions in order when ids are sorted as text. */
+export function reportVersionId(inspectionId: string, version: number): string {
+  return `${inspectionId}:${String(version).padStart(6, '0')}`
+}
+
+export function summarizeReportVersion(report: InspectionReport): InspectionReportVersionSummary {
+  return {
+    inspectionId: report.inspectionId,
+    version: report.version,
+    contentHash: report.contentHash,
+    generatedAt: report.generatedAt,
+    status: report.status,
+  }
+}
+
+export function diffInspectionReports(from: InspectionReport, to: InspectionReport): InspectionReportDiff {
+  const { version, contentHash, generatedAt, ...content } = from
+  const changes: ReportFieldChange[] = []
+  for (const field of Object.keys(content).sort() as Array<keyof InspectionReportContent>) {
+    const before = from[field]
+    const after = to[field]
+    if (canonicalJson(before) === canonicalJson(after)) {
+      continue
+    }
+    if (Array.isArray(before) && Array.isArray(after)) {
+      changes.push({
+        field,
+        added: after.filter((line) => !before.includes(line)),
+        removed: before.filter((line) => !after.includes(line)),
+      })
+    } else {
+      changes.push({ field, before, after })
+    }
+  }
+
+  return {
+    inspectionId: from.inspectionId,
+    from: summarizeReportVersion(from),
+    to: summarizeReportVersion(to),
+    identical: from.contentHash === to.contentHash,
+    changes,
+  }
+}
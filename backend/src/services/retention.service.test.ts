@@ -0,0 +1,124 @@
+import { createHash } from 'crypto'
+import { MemoryDataService } from './memory-data.service'
+import { ErasureError, RetentionService } from './retention.service'
+import { canonicalJson } from '../utils/canonical-json'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+async function seedInspection(dataService: MemoryDataService, technicianId: string, siteId: string) {
+  const inspection = await dataService.createInspection({ technicianId, siteId })
+  await dataService.appendInspectionTranscript(inspection.id, { speaker: 'user', text: 'Ada on site', source: 'live' })
+  await dataService.appendInspectionImage(inspection.id, `https://cdn.example.com/inspections/${inspection.id}/a.jpg`)
+  await dataService.createAnnotation({
+    inspectionId: inspection.id,
+    snapshotUrl: `https://cdn.example.com/inspections/${inspection.id}/a.jpg`,
+    authorRole: 'expert',
+    tool: 'circle',
+    color: '#ff0000',
+    points: [{ x: 0.5, y: 0.5 }],
+  })
+  await dataService.generateInspectionReport(inspection.id)
+  return inspection
+}
+
+describe('RetentionService', () => {
+  it('purges each class once the site or default retention runs out, and only once', async () => {
+    const dataService = new MemoryDataService()
+    const storage = { isConfigured: () => true, deleteInspectionImages: jest.fn().mockResolvedValue(2) }
+    const service = new RetentionService(dataService, storage, { defaults: { transcripts: 30 } })
+    const strictSite = await dataService.createSite({
+      name: 'Strict',
+      type: 'power',
+      location: { latitude: 0, longitude: 0 },
+      technicianIds: [],
+    })
+    await dataService.setSiteRetention(strictSite.id, { transcripts: 60, images: 10 })
+    const defaultSite = await dataService.createSite({
+      name: 'Default',
+      type: 'power',
+      location: { latitude: 0, longitude: 0 },
+      technicianIds: [],
+    })
+    const strict = await seedInspection(dataService, 'tech-1', strictSite.id)
+    const standard = await seedInspection(dataService, 'tech-1', defaultSite.id)
+
+    const tooEarly = await service.purgeExpired(new Date(Date.now() + 5 * DAY_MS))
+    expect(tooEarly.inspectionsPurged).toBe(0)
+
+    const summary = await service.purgeExpired(new Date(Date.now() + 40 * DAY_MS))
+
+    expect(summary).toMatchObject({
+      inspectionsChecked: 2,
+      inspectionsPurged: 2,
+      removed: { transcriptEntries: 1, images: 1, ocrFindings: 0, reports: 0, annotations: 1, storageObjects: 2 },
+      failures: [],
+    })
+    expect(storage.deleteInspectionImages).toHaveBeenCalledTimes(1)
+    expect(storage.deleteInspectionImages).toHaveBeenCalledWith(strict.id)
+    expect(await dataService.getInspectionById(strict.id)).toMatchObject({ images: [], transcript: 'user: Ada on site' })
+    expect(await dataService.listAnnotations(strict.id)).toEqual([])
+    expect(await dataService.getInspectionById(standard.id)).toMatchObject({ images: [expect.any(String)], transcript: '' })
+
+    const again = await service.purgeExpired(new Date(Date.now() + 40 * DAY_MS))
+    expect(again.inspectionsPurged).toBe(0)
+  })
+
+  it('erases everything tied to a technician and issues a verifiable certificate', async () => {
+    const dataService = new MemoryDataService()
+    const service = new RetentionService(dataService, undefined, { defaults: {} })
+    const technician = await dataService.createTechnician({ name: 'Ada Field', email: 'ada@example.com', role: 'technician' })
+    const site = await dataService.createSite({
+      name: 'North',
+      type: 'power',
+      location: { latitude: 0, longitude: 0 },
+      technicianIds: [technician.id, 'tech-other'],
+    })
+    const inspection = await seedInspection(dataService, technician.id, site.id)
+    await dataService.createAnnotation({
+      inspectionId: inspection.id,
+      authorRole: 'technician',
+      authorId: technician.id,
+      tool: 'text',
+      color: '#00ff00',
+      points: [{ x: 0.1, y: 0.1 }],
+      text: 'Ada was here',
+    })
+    const admin = { uid: 'admin-1', email: 'admin@example.com', organizationId: 'default', roles: ['admin'] }
+
+    const certificate = await service.eraseTechnician(technician.id, admin)
+
+    expect(certificate).toMatchObject({
+      technicianId: technician.id,
+      requestedBy: { uid: 'admin-1', email: 'admin@example.com' },
+      inspectionIds: [inspection.id],
+      removed: { transcriptEntries: 1, images: 1, reports: 1, annotations: 2, storageObjects: 0 },
+    })
+    const { hash, ...signed } = certificate!
+    expect(hash).toBe(
+      createHash('sha256')
+        .update(canonicalJson({ ...signed, issuedAt: signed.issuedAt.toISOString() }))
+        .digest('hex'),
+    )
+    expect(JSON.stringify(certificate)).not.toContain('Ada')
+    expect(await dataService.getTechnicianById(technician.id)).toMatchObject({
+      name: 'Erased technician',
+      email: `erased-${technician.id}@erased.invalid`,
+      deletedAt: expect.any(Date),
+    })
+    expect((await dataService.getSiteById(site.id))?.technicianIds).toEqual(['tech-other'])
+    expect(await dataService.getInspectionReport(inspection.id)).toBeNull()
+    expect(await dataService.listTranscriptEntries(inspection.id)).toEqual([])
+    await expect(service.eraseTechnician('missing')).resolves.toBeNull()
+  })
+
+  it('keeps the technician identifiable when some inspection data could not be erased', async () => {
+    const dataService = new MemoryDataService()
+    const technician = await dataService.createTechnician({ name: 'Ada Field', email: 'ada@example.com', role: 'technician' })
+    await seedInspection(dataService, technician.id, 'site-1')
+    jest.spyOn(dataService, 'purgeInspectionData').mockRejectedValueOnce(new Error('store offline'))
+    const service = new RetentionService(dataService, undefined, { defaults: {} })
+
+    await expect(service.eraseTechnician(technician.id)).rejects.toBeInstanceOf(ErasureError)
+    expect(await dataService.getTechnicianById(technician.id)).toMatchObject({ name: 'Ada Field' })
+  })
+})
@@ -0,0 +1,341 @@
+import { createHash } from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import type { AuthUser } from './auth.service'
+import type { DataService, InspectionPurgeResult } from './data-service'
+import { runInCurrentScope, type ScopedTaskRunner } from './organization-context'
+import {
+  RETENTION_DATA_CLASSES,
+  effectiveRetention,
+  expiredDataClasses,
+  readRetentionDefaults,
+} from './retention'
+import type { Inspection, RetentionDataClass, RetentionPolicy } from '../types'
+import { canonicalJson } from '../utils/canonical-json'
+
+/** Removed across every inspection a purge or erasure touched. */
+export interface RetentionRemovalTotals {
+  transcriptEntries: number
+  images: number
+  ocrFindings: number
+  reports: number
+  annotations: number
+  storageObjects: number
+}
+
+export interface RetentionPurgeSummary {
+  ranAt: Date
+  inspectionsChecked: number
+  inspectionsPurged: number
+  removed: RetentionRemovalTotals
+  /** Inspections that could not be purged this run; the next run tries them again. */
+  failures: Array<{ inspectionId: string; error: string }>
+}
+
+/**
+ * Proof that an erasure request was carried out. It names the technician by
+ * id only, and `hash` covers every other field so an edited copy can be told
+ * apart from the one recorded in the audit log.
+ */
+export interface ErasureCertificate {
+  id: string
+  technicianId: string
+  requestedBy: { uid: string; email?: string } | null
+  issuedAt: Date
+  inspectionIds: string[]
+  removed: RetentionRemovalTotals
+  anonymizedFields: string[]
+  /** What was deliberately kept, so the certificate does not overstate the erasure. */
+  retained: string[]
+  hash: string
+}
+
+export class ErasureError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ErasureError'
+  }
+}
+
+interface RetentionStorage {
+  isConfigured?: () => boolean
+  deleteInspectionImages?: (inspectionId: string) => Promise<number>
+}
+
+interface RetentionLogger {
+  info: (message: string, meta?: Record<string, unknown>) => void
+  warn: (message: string, meta?: Record<string, unknown>) => void
+}
+
+export interface RetentionServiceOptions {
+  /** Defaults to the `RETENTION_<CLASS>_DAYS` variables. */
+  defaults?: RetentionPolicy
+  logger?: RetentionLogger
+}
+
+type RetentionDataService = Pick<
+  DataService,
+  | 'getSiteById'
+  | 'listSites'
+  | 'setSiteTechnicians'
+  | 'getTechnicianById'
+  | 'updateTechnician'
+  | 'deactivateTechnician'
+  | 'searchInspections'
+  | 'purgeInspectionData'
+  | 'getInspectionReport'
+  | 'setInspectionChecklist'
+  | 'listAnnotations'
+  | 'deleteAnnotation'
+>
+
+const noopLogger: RetentionLogger = {
+  info: () => undefined,
+  warn: () => undefined,
+}
+
+const PAGE_SIZE = 100
+const DAY_MS = 24 * 60 * 60 * 1000
+const ERASED_TECHNICIAN_NAME = 'Erased technician'
+const ERASURE_RETAINED = [
+  'Inspection records with their status, summary, safety flags, faults and workflow events',
+  'Time entries, part orders and escalations, which name the technician by id only',
+  'Audit log entries, which are hash-chained and cannot be edited',
+]
+
+function emptyTotals(): RetentionRemovalTotals {
+  return { transcriptEntries: 0, images: 0, ocrFindings: 0, reports: 0, annotations: 0, storageObjects: 0 }
+}
+
+function addPurge(totals: RetentionRemovalTotals, purged: InspectionPurgeResult): void {
+  totals.transcriptEntries += purged.transcriptEntries
+  totals.images += purged.images
+  totals.ocrFindings += purged.ocrFindings
+  totals.reports += purged.report ? 1 : 0
+}
+
+function certificateHash(certificate: Omit<ErasureCertificate, 'hash'>): string {
+  return createHash('sha256')
+    .update(canonicalJson({ ...certificate, issuedAt: certificate.issuedAt.toISOString() }))
+    .digest('hex')
+}
+
+/**
+ * Deletes inspection data once its retention period runs out, and erases
+ * everything tied to a technician on request. Retention runs per data class:
+ * the deployment defaults apply unless the inspection's site overrides them.
+ */
+export class RetentionService {
+  private readonly defaults: RetentionPolicy
+  private readonly logger: RetentionLogger
+
+  constructor(
+    private readonly dataService: RetentionDataService,
+    private readonly storage?: RetentionStorage,
+    options: RetentionServiceOptions = {},
+  ) {
+    this.defaults = options.defaults ?? readRetentionDefaults()
+    this.logger = options.logger ?? noopLogger
+  }
+
+  public getDefaults(): RetentionPolicy {
+    return { ...this.defaults }
+  }
+
+  /** Purges every class whose retention period ended on or before `now`. Safe to run repeatedly. */
+  public async purgeExpired(now: Date = new Date()): Promise<RetentionPurgeSummary> {
+    const summary: RetentionPurgeSummary = {
+      ranAt: now,
+      inspectionsChecked: 0,
+      inspectionsPurged: 0,
+      removed: emptyTotals(),
+      failures: [],
+    }
+    const policies = new Map<string, RetentionPolicy>()
+
+    // Retention is at least a day, so anything newer cannot have expired
+    await this.forEachInspection({ to: new Date(now.getTime() - DAY_MS) }, async (inspection) => {
+      summary.inspectionsChecked += 1
+      try {
+        if (!policies.has(inspection.siteId)) {
+          const site = await this.dataService.getSiteById(inspection.siteId)
+          policies.set(inspection.siteId, effectiveRetention(this.defaults, site?.retention))
+        }
+        const expired = expiredDataClasses(policies.get(inspection.siteId) ?? {}, inspection.timestamp, now)
+        const classes = await this.classesWithData(inspection, expired)
+        if (classes.length === 0) {
+          return
+        }
+        await this.purgeInspection(inspection, classes, summary.removed)
+        summary.inspectionsPurged += 1
+      } catch (error) {
+        summary.failures.push({
+          inspectionId: inspection.id,
+          error: error instanceof Error ? error.message : 'Failed to purge inspection',
+        })
+      }
+    })
+
+    this.logger.info('Retention purge finished', {
+      inspectionsChecked: summary.inspectionsChecked,
+      inspectionsPurged: summary.inspectionsPurged,
+      failures: summary.failures.length,
+    })
+    return summary
+  }
+
+  /**
+   * Removes every transcript, image, OCR result and report from the
+   * technician's inspections, unassigns them from sites, replaces their name
+   * and email, and deactivates them. Null when the technician does not exist.
+   */
+  public async eraseTechnician(
+    technicianId: string,
+    requestedBy?: AuthUser | null,
+    now: Date = new Date(),
+  ): Promise<ErasureCertificate | null> {
+    const technician = await this.dataService.getTechnicianById(technicianId)
+    if (!technician) {
+      return null
+    }
+
+    const removed = emptyTotals()
+    const inspectionIds: string[] = []
+    const failed: string[] = []
+    await this.forEachInspection({ technicianId }, async (inspection) => {
+      inspectionIds.push(inspection.id)
+      try {
+        await this.purgeInspection(inspection, RETENTION_DATA_CLASSES, removed, technicianId)
+      } catch (error) {
+        failed.push(inspection.id)
+        this.logger.warn('Failed to erase inspection data', {
+          inspectionId: inspection.id,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    })
+    if (failed.length > 0) {
+      // Anonymizing now would leave the remaining data with no way to find it again
+      throw new ErasureError(`Could not erase data for inspections ${failed.join(', ')}; retry the request`)
+    }
+
+    for (const site of await this.dataService.listSites({ includeDeleted: true })) {
+      if (site.technicianIds.includes(technicianId)) {
+        await this.dataService.setSiteTechnicians(
+          site.id,
+          site.technicianIds.filter((id) => id !== technicianId),
+        )
+      }
+    }
+    await this.dataService.updateTechnician(technicianId, {
+      name: ERASED_TECHNICIAN_NAME,
+      email: `erased-${technicianId}@erased.invalid`,
+      role: technician.role,
+    })
+    await this.dataService.deactivateTechnician(technicianId)
+
+    const certificate: Omit<ErasureCertificate, 'hash'> = {
+      id: uuidv4(),
+      technicianId,
+      requestedBy: requestedBy ? { uid: requestedBy.uid, email: requestedBy.email } : null,
+      issuedAt: now,
+      inspectionIds,
+      removed,
+      anonymizedFields: ['technician.name', 'technician.email', 'site.technicianIds'],
+      retained: ERASURE_RETAINED,
+    }
+    this.logger.info('Technician data erased', { certificateId: certificate.id, inspections: inspectionIds.length })
+    return { ...certificate, hash: certificateHash(certificate) }
+  }
+
+  public startPurgeSchedule(intervalMs: number, runInScope: ScopedTaskRunner = runInCurrentScope): () => void {
+    const timer = setInterval(() => {
+      void runInScope(() =>
+        this.purgeExpired().catch((error) => {
+          this.logger.warn('Retention purge failed', {
+            message: error instanceof Error ? error.message : 'Unknown error',
+          })
+        }),
+      )
+    }, intervalMs)
+    timer.unref()
+    return () => clearInterval(timer)
+  }
+
+  private async forEachInspection(
+    query: { technicianId?: string; to?: Date },
+    visit: (inspection: Inspection) => Promise<void>,
+  ): Promise<void> {
+    let cursor: string | undefined
+    do {
+      const page = await this.dataService.searchInspections({
+        ...query,
+        sortBy: 'timestamp',
+        sortOrder: 'asc',
+        limit: PAGE_SIZE,
+        cursor,
+      })
+      for (const inspection of page.items) {
+        await visit(inspection)
+      }
+      cursor = page.nextCursor ?? undefined
+    } while (cursor)
+  }
+
+  /** Skips classes that hold nothing, so repeated runs do not rewrite already-purged inspections. */
+  private async classesWithData(
+    inspection: Inspection,
+    classes: RetentionDataClass[],
+  ): Promise<RetentionDataClass[]> {
+    const withData: RetentionDataClass[] = []
+    for (const dataClass of classes) {
+      const hasData =
+        dataClass === 'transcripts'
+          ? inspection.transcript.length > 0
+          : dataClass === 'images'
+            ? inspection.images.length > 0
+            : dataClass === 'ocr'
+              ? inspection.ocrFindings.length > 0
+              : Boolean(await this.dataService.getInspectionReport(inspection.id))
+      if (hasData) {
+        withData.push(dataClass)
+      }
+    }
+    return withData
+  }
+
+  /**
+   * Images also take the annotations drawn on them, checklist photo links and
+   * the stored objects. An erasure also takes every annotation the technician wrote.
+   */
+  private async purgeInspection(
+    inspection: Inspection,
+    classes: RetentionDataClass[],
+    totals: RetentionRemovalTotals,
+    erasedTechnicianId?: string,
+  ): Promise<void> {
+    const purgesImages = classes.includes('images')
+    if (purgesImages || erasedTechnicianId) {
+      for (const annotation of await this.dataService.listAnnotations(inspection.id)) {
+        const drawnOnImage = purgesImages && Boolean(annotation.snapshotUrl)
+        const writtenByErased = Boolean(erasedTechnicianId) && annotation.authorId === erasedTechnicianId
+        if ((drawnOnImage || writtenByErased) && (await this.dataService.deleteAnnotation(inspection.id, annotation.id))) {
+          totals.annotations += 1
+        }
+      }
+    }
+    if (purgesImages && inspection.checklist?.items.some((item) => item.photoUrl)) {
+      await this.dataService.setInspectionChecklist(inspection.id, {
+        ...inspection.checklist,
+        items: inspection.checklist.items.map((item) => ({ ...item, photoUrl: undefined })),
+      })
+    }
+
+    const purged = await this.dataService.purgeInspectionData(inspection.id, classes)
+    if (purged) {
+      addPurge(totals, purged)
+    }
+    if (purgesImages && this.storage?.deleteInspectionImages && this.storage.isConfigured?.() !== false) {
+      totals.storageObjects += await this.storage.deleteInspectionImages(inspection.id)
+    }
+  }
+}
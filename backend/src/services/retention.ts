@@ -0,0 +1,46 @@
+import type { RetentionDataClass, RetentionPolicy } from '../types'
+
+export const RETENTION_DATA_CLASSES: RetentionDataClass[] = ['transcripts', 'images', 'ocr', 'reports']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Keeps whole, positive day counts for known classes; undefined when nothing valid is left. */
+export function readRetentionPolicy(value: unknown): RetentionPolicy | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined
+  }
+
+  const policy: RetentionPolicy = {}
+  for (const dataClass of RETENTION_DATA_CLASSES) {
+    const days = (value as Record<string, unknown>)[dataClass]
+    if (typeof days === 'number' && Number.isInteger(days) && days > 0) {
+      policy[dataClass] = days
+    }
+  }
+  return Object.keys(policy).length > 0 ? policy : undefined
+}
+
+/** Deployment-wide defaults from `RETENTION_<CLASS>_DAYS`; unset or invalid values keep that class indefinitely. */
+export function readRetentionDefaults(env: NodeJS.ProcessEnv = process.env): RetentionPolicy {
+  const configured: Record<string, number> = {}
+  for (const dataClass of RETENTION_DATA_CLASSES) {
+    const raw = env[`RETENTION_${dataClass.toUpperCase()}_DAYS`]?.trim()
+    if (raw) {
+      configured[dataClass] = Number(raw)
+    }
+  }
+  return readRetentionPolicy(configured) ?? {}
+}
+
+/** The site's overrides win class by class. */
+export function effectiveRetention(defaults: RetentionPolicy, site?: RetentionPolicy): RetentionPolicy {
+  return { ...defaults, ...site }
+}
+
+/** Classes whose retention period has run out for an inspection started at `startedAt`. */
+export function expiredDataClasses(policy: RetentionPolicy, startedAt: Date, now: Date): RetentionDataClass[] {
+  return RETENTION_DATA_CLASSES.filter((dataClass) => {
+    const days = policy[dataClass]
+    return days !== undefined && startedAt.getTime() + days * DAY_MS <= now.getTime()
+  })
+}
@@ -83,4 +83,25 @@ export class StorageService {
       expiresAt: new Date(expiresMs).toISOString(),
     }
   }
+
+  public async readObject(objectPath: string): Promise<Buffer> {
+    if (!this.isConfigured()) {
+      throw new Error('GCS_BUCKET_NAME is not configured')
+    }
+
+    const [contents] = await this.storage.bucket(this.bucketName).file(objectPath).download()
+    return contents
+  }
+
+  /** Deletes every snapshot uploaded for the inspection and returns how many objects were removed. */
+  public async deleteInspectionImages(inspectionId: string): Promise<number> {
+    if (!this.isConfigured()) {
+      throw new Error('GCS_BUCKET_NAME is not configured')
+    }
+
+    const bucket = this.storage.bucket(this.bucketName)
+    const [files] = await bucket.getFiles({ prefix: `inspections/${inspectionId}/images/` })
+    await Promise.all(files.map((file) => file.delete({ ignoreNotFound: true })))
+    return files.length
+  }
 }
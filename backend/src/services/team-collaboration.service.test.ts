@@ -0,0 +1,100 @@
+import { ShareSessionAccessError, TeamCollaborationService } from './team-collaboration.service'
+import type { DataService } from './data-service'
+import { runInOrganization } from './organization-context'
+import type { ShareSession } from '../types'
+
+function createDataService(): Pick<
+  DataService,
+  'createShareSession' | 'getShareSessionById' | 'updateShareSessionStatus' | 'listShareSessions'
+> {
+  const sessions = new Map<string, ShareSession>()
+  let nextId = 1
+
+  return {
+    async createShareSession(input) {
+      const session: ShareSession = { id: `share-${nextId++}`, ...input, createdAt: new Date() }
+      sessions.set(session.id, session)
+      return session
+    },
+    async getShareSessionById(sessionId) {
+      return sessions.get(sessionId) || null
+    },
+    async updateShareSessionStatus(sessionId, status, endedAt) {
+      const current = sessions.get(sessionId)
+      if (!current) {
+        return null
+      }
+      const updated = { ...current, status, endedAt }
+      sessions.set(sessionId, updated)
+      return updated
+    },
+    async listShareSessions(filters) {
+      return Array.from(sessions.values()).filter(
+        (session) =>
+          (!filters.inspectionId || session.inspectionId === filters.inspectionId) &&
+          (!filters.statuses || filters.statuses.includes(session.status)),
+      )
+    },
+  }
+}
+
+function readToken(inviteUrl: string): string {
+  return new URL(inviteUrl).searchParams.get('token') || ''
+}
+
+describe('TeamCollaborationService', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('creates an invite link without exposing the token on the public session', async () => {
+    const service = new TeamCollaborationService(createDataService())
+
+    const invite = await service.createSession('insp-1', 'tech-1', 'expert@example.com', 15)
+
+    expect(invite.sessionUrl).toBe(`http://localhost:3000/share/${invite.id}`)
+    expect(readToken(invite.inviteUrl)).not.toBe('')
+    expect(invite).not.toHaveProperty('accessToken')
+    expect((await service.listSessions('insp-1'))[0]).not.toHaveProperty('accessToken')
+  })
+
+  it('names the organization in links to sessions outside the default organization', async () => {
+    const service = new TeamCollaborationService(createDataService())
+
+    const invite = await runInOrganization('acme', () =>
+      service.createSession('insp-1', 'tech-1', 'expert@example.com'),
+    )
+
+    expect(invite.sessionUrl).toBe(`http://localhost:3000/share/${invite.id}?org=acme`)
+    expect(new URL(invite.inviteUrl).searchParams.get('org')).toBe('acme')
+    expect(readToken(invite.inviteUrl)).not.toBe('')
+  })
+
+  it('activates the session when an expert joins with the invite token', async () => {
+    const service = new TeamCollaborationService(createDataService())
+    const invite = await service.createSession('insp-1', 'tech-1', 'expert@example.com')
+
+    await expect(service.joinSession(invite.id, 'wrong-token')).rejects.toBeInstanceOf(ShareSessionAccessError)
+
+    const joined = await service.joinSession(invite.id, readToken(invite.inviteUrl))
+    expect(joined.status).toBe('active')
+  })
+
+  it('revokes sessions once expiresAt passes', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-01T10:00:00.000Z'))
+    const onSessionClosed = jest.fn()
+    const service = new TeamCollaborationService(createDataService(), { onSessionClosed })
+    const invite = await service.createSession('insp-1', 'tech-1', 'expert@example.com', 10)
+    await service.joinSession(invite.id, readToken(invite.inviteUrl))
+
+    expect(await service.expireSessions(new Date('2026-03-01T10:05:00.000Z'))).toEqual([])
+
+    const expired = await service.expireSessions(new Date('2026-03-01T10:10:00.000Z'))
+
+    expect(expired.map((session) => session.status)).toEqual(['expired'])
+    expect(onSessionClosed).toHaveBeenCalledWith(expect.objectContaining({ id: invite.id, status: 'expired' }))
+    await expect(service.joinSession(invite.id, readToken(invite.inviteUrl))).rejects.toThrow(
+      'Share session is expired',
+    )
+  })
+})
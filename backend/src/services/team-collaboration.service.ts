@@ -1,21 +1,48 @@
-export interface ShareSession {
-  id: string
-  inspectionId: string
-  hostTechnicianId: string
-  expertEmail: string
-  status: 'pending' | 'active' | 'completed' | 'expired'
-  createdAt: string
-  expiresAt: string
-  sessionUrl?: string
-  reason?: string
+import { randomBytes, timingSafeEqual } from 'crypto'
+import type { DataService } from './data-service'
+import {
+  currentOrganizationId,
+  DEFAULT_ORGANIZATION_ID,
+  runInCurrentScope,
+  type ScopedTaskRunner,
+} from './organization-context'
+import type { ShareSession } from '../types'
+
+export type PublicShareSession = Omit<ShareSession, 'accessToken'> & { sessionUrl: string }
+
+export interface ShareSessionInvite extends PublicShareSession {
+  inviteUrl: string
 }
 
+export class ShareSessionAccessError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ShareSessionAccessError'
+  }
+}
+
+type TeamCollaborationDataService = Pick<
+  DataService,
+  'createShareSession' | 'getShareSessionById' | 'updateShareSessionStatus' | 'listShareSessions'
+>
+
+interface TeamCollaborationOptions {
+  onSessionClosed?: (session: ShareSession) => void
+}
+
+const MAX_SESSION_MINUTES = 240
+
 export class TeamCollaborationService {
   private readonly webhookUrl: string | undefined
-  private activeSessions: Map<string, ShareSession> = new Map()
+  private readonly baseUrl: string
+  private readonly dataService: TeamCollaborationDataService
+  private readonly onSessionClosed?: TeamCollaborationOptions['onSessionClosed']
 
-  constructor() {
+  constructor(dataService: TeamCollaborationDataService, options: TeamCollaborationOptions = {}) {
+    this.dataService = dataService
+    this.onSessionClosed = options.onSessionClosed
     this.webhookUrl = process.env.COLLAB_SESSION_WEBHOOK?.trim()
+    this.baseUrl = (process.env.SHARE_SESSION_BASE_URL?.trim() || 'http://localhost:3000').replace(/\/+$/, '')
   }
 
   public async createSession(
@@ -24,86 +51,161 @@ export class TeamCollaborationService {
     expertEmail: string,
     durationMinutes: number = 30,
     reason?: string
-  ): Promise<ShareSession> {
-    const sessionId = `share_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
-
-    const now = new Date()
-    const expiresAt = new Date(now.getTime() + durationMinutes * 60000)
-
-    const session: ShareSession = {
-      id: sessionId,
+  ): Promise<ShareSessionInvite> {
+    const minutes = Math.min(Math.max(Math.round(durationMinutes), 1), MAX_SESSION_MINUTES)
+    const session = await this.dataService.createShareSession({
       inspectionId,
       hostTechnicianId,
       expertEmail,
       status: 'pending',
-      createdAt: now.toISOString(),
-      expiresAt: expiresAt.toISOString(),
-      sessionUrl: `${process.env.NEXT_PUBLIC_API_URL?.replace('/api', '')}/share/${sessionId}`,
+      accessToken: randomBytes(24).toString('base64url'),
       reason,
-    }
-
-    this.activeSessions.set(sessionId, session)
+      expiresAt: new Date(Date.now() + minutes * 60000),
+    })
 
-    await this.notifyExpert(session)
+    const invite = {
+      ...this.toPublicSession(session),
+      inviteUrl: this.buildInviteUrl(session),
+    }
+    await this.notifyExpert(invite)
 
-    return session
+    return invite
   }
 
-  public async activateSession(sessionId: string): Promise<ShareSession | null> {
-    const session = this.activeSessions.get(sessionId)
-    if (!session) return null
+  /**
+   * Validates an expert's access token and marks the session active on first join.
+   * Expired sessions are revoked here as well as by the expiry sweep.
+   */
+  public async joinSession(sessionId: string, accessToken: string | undefined): Promise<ShareSession> {
+    const session = await this.dataService.getShareSessionById(sessionId)
+    if (!session || !this.tokensMatch(session.accessToken, accessToken)) {
+      throw new ShareSessionAccessError('Share session not found or access token invalid')
+    }
 
-    session.status = 'active'
-    this.activeSessions.set(sessionId, session)
+    if (session.status === 'completed' || session.status === 'expired') {
+      throw new ShareSessionAccessError(`Share session is ${session.status}`)
+    }
 
+    if (this.isExpired(session)) {
+      const expired = await this.dataService.updateShareSessionStatus(session.id, 'expired', new Date())
+      if (expired) this.onSessionClosed?.(expired)
+      throw new ShareSessionAccessError('Share session is expired')
+    }
+
+    if (session.status === 'pending') {
+      return (await this.dataService.updateShareSessionStatus(session.id, 'active')) || session
+    }
     return session
   }
 
   public async endSession(sessionId: string): Promise<ShareSession | null> {
-    const session = this.activeSessions.get(sessionId)
+    const session = await this.dataService.getShareSessionById(sessionId)
     if (!session) return null
+    if (session.status === 'completed' || session.status === 'expired') return session
 
-    session.status = 'completed'
-    this.activeSessions.set(sessionId, session)
+    const ended = await this.dataService.updateShareSessionStatus(sessionId, 'completed', new Date())
+    if (ended) this.onSessionClosed?.(ended)
+    return ended
+  }
 
-    return session
+  public async getSession(sessionId: string): Promise<ShareSession | null> {
+    return this.dataService.getShareSessionById(sessionId)
   }
 
-  public getSession(sessionId: string): ShareSession | undefined {
-    return this.activeSessions.get(sessionId)
+  public async listSessions(inspectionId: string): Promise<PublicShareSession[]> {
+    const sessions = await this.dataService.listShareSessions({ inspectionId })
+    return sessions.map((session) => this.toPublicSession(session))
   }
 
-  public getActiveSessions(technicianId?: string): ShareSession[] {
-    const sessions = Array.from(this.activeSessions.values())
-    
+  public async getActiveSessions(technicianId?: string): Promise<ShareSession[]> {
+    const sessions = await this.dataService.listShareSessions({ statuses: ['active'] })
+
     if (technicianId) {
-      return sessions.filter(
-        (s) => s.hostTechnicianId === technicianId && s.status === 'active'
-      )
+      return sessions.filter((s) => s.hostTechnicianId === technicianId)
     }
 
-    return sessions.filter((s) => s.status === 'active')
+    return sessions
   }
 
-  public isSessionExpired(sessionId: string): boolean {
-    const session = this.activeSessions.get(sessionId)
-    if (!session) return true
+  public isExpired(session: Pick<ShareSession, 'expiresAt'>, now: Date = new Date()): boolean {
+    return session.expiresAt.getTime() <= now.getTime()
+  }
+
+  /**
+   * Marks every open session past its `expiresAt` as expired so connected
+   * viewers are disconnected through `onSessionClosed`.
+   */
+  public async expireSessions(now: Date = new Date()): Promise<ShareSession[]> {
+    const open = await this.dataService.listShareSessions({ statuses: ['pending', 'active'] })
+    const expired: ShareSession[] = []
+
+    for (const session of open) {
+      if (!this.isExpired(session, now)) continue
+      const updated = await this.dataService.updateShareSessionStatus(session.id, 'expired', now)
+      if (!updated) continue
+      expired.push(updated)
+      this.onSessionClosed?.(updated)
+    }
 
-    return new Date(session.expiresAt) < new Date()
+    return expired
   }
 
-  private async notifyExpert(session: ShareSession): Promise<void> {
-    if (!this.webhookUrl) return
+  public startExpiryMonitor(intervalMs = 15_000, runInScope: ScopedTaskRunner = runInCurrentScope): () => void {
+    const timer = setInterval(() => {
+      void runInScope(() => this.expireSessions().catch(() => undefined))
+    }, intervalMs)
+    timer.unref()
+    return () => clearInterval(timer)
+  }
 
-    const payload = {
-      event: 'session_invite',
-      sessionId: session.id,
+  public toPublicSession(session: ShareSession): PublicShareSession {
+    const organizationId = this.sharedOrganizationId()
+    const query = organizationId ? `?org=${organizationId}` : ''
+    return {
+      id: session.id,
       inspectionId: session.inspectionId,
-      expertEmail: session.expertEmail,
       hostTechnicianId: session.hostTechnicianId,
-      sessionUrl: session.sessionUrl,
+      expertEmail: session.expertEmail,
+      status: session.status,
       reason: session.reason,
+      createdAt: session.createdAt,
       expiresAt: session.expiresAt,
+      endedAt: session.endedAt,
+      sessionUrl: `${this.baseUrl}/share/${session.id}${query}`,
+    }
+  }
+
+  private buildInviteUrl(session: ShareSession): string {
+    const organizationId = this.sharedOrganizationId()
+    const org = organizationId ? `&org=${organizationId}` : ''
+    return `${this.baseUrl}/share/${session.id}?token=${encodeURIComponent(session.accessToken)}${org}`
+  }
+
+  /** Experts join without an account, so the link has to say which organization the session lives in. */
+  private sharedOrganizationId(): string | null {
+    const organizationId = currentOrganizationId()
+    return organizationId && organizationId !== DEFAULT_ORGANIZATION_ID ? organizationId : null
+  }
+
+  private tokensMatch(expected: string, actual: string | undefined): boolean {
+    if (!actual) return false
+    const expectedBuffer = Buffer.from(expected)
+    const actualBuffer = Buffer.from(actual)
+    return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer)
+  }
+
+  private async notifyExpert(invite: ShareSessionInvite): Promise<void> {
+    if (!this.webhookUrl) return
+
+    const payload = {
+      event: 'session_invite',
+      sessionId: invite.id,
+      inspectionId: invite.inspectionId,
+      expertEmail: invite.expertEmail,
+      hostTechnicianId: invite.hostTechnicianId,
+      sessionUrl: invite.inviteUrl,
+      reason: invite.reason,
+      expiresAt: invite.expiresAt.toISOString(),
     }
 
     try {
@@ -0,0 +1,115 @@
+import { TimeEntryStateError, TimeTrackingService, summarizeTimeEntries } from './time-tracking.service'
+import type { DataService } from './data-service'
+import type { Inspection, TimeEntry } from '../types'
+
+function createDataService(): Pick<
+  DataService,
+  'getInspectionById' | 'createTimeEntry' | 'updateTimeEntry' | 'listTimeEntries'
+> {
+  const entries = new Map<string, TimeEntry>()
+  let nextId = 1
+
+  return {
+    async getInspectionById(id: string) {
+      return id === 'insp-1' ? ({ id, technicianId: 'tech-1' } as Inspection) : null
+    },
+    async createTimeEntry(input) {
+      const entry: TimeEntry = {
+        id: `time-${nextId++}`,
+        ...input,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }
+      entries.set(entry.id, entry)
+      return entry
+    },
+    async updateTimeEntry(entryId, input) {
+      const current = entries.get(entryId)
+      if (!current) {
+        return null
+      }
+      const updated = { ...current, ...input, updatedAt: new Date() }
+      entries.set(entryId, updated)
+      return updated
+    },
+    async listTimeEntries(inspectionId) {
+      return Array.from(entries.values()).filter((entry) => entry.inspectionId === inspectionId)
+    },
+  }
+}
+
+describe('TimeTrackingService', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('accumulates duration across pause and resume before completing', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-01T10:00:00.000Z'))
+    const service = new TimeTrackingService(createDataService())
+
+    const started = await service.startTask('insp-1', 'Pump teardown')
+    jest.setSystemTime(new Date('2026-03-01T10:20:00.000Z'))
+    const paused = await service.pauseTask('insp-1', started.id)
+    jest.setSystemTime(new Date('2026-03-01T11:00:00.000Z'))
+    await service.resumeTask('insp-1', started.id)
+    jest.setSystemTime(new Date('2026-03-01T11:10:00.000Z'))
+    const completed = await service.completeTask('insp-1', started.id)
+
+    expect(paused?.durationSeconds).toBe(20 * 60)
+    expect(completed?.status).toBe('completed')
+    expect(completed?.durationSeconds).toBe(30 * 60)
+
+    const summary = await service.getSummary('insp-1')
+    expect(summary.totalDuration).toBe(30)
+    expect(summary.tasks).toHaveLength(1)
+  })
+
+  it('rejects a second running task for the same inspection', async () => {
+    const service = new TimeTrackingService(createDataService())
+
+    await service.startTask('insp-1', 'Visual check')
+
+    await expect(service.startTask('insp-1', 'Torque check')).rejects.toBeInstanceOf(TimeEntryStateError)
+  })
+
+  it('throws not found for unknown inspections', async () => {
+    const service = new TimeTrackingService(createDataService())
+
+    await expect(service.startTask('missing', 'Visual check')).rejects.toThrow('Inspection not found')
+  })
+
+  it('summarizes running entries up to the given time', () => {
+    const summary = summarizeTimeEntries(
+      [
+        {
+          id: 'time-1',
+          inspectionId: 'insp-1',
+          taskName: 'Logged work',
+          status: 'completed',
+          startedAt: new Date('2026-03-01T08:00:00.000Z'),
+          endedAt: new Date('2026-03-01T09:00:00.000Z'),
+          durationSeconds: 3600,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+        {
+          id: 'time-2',
+          inspectionId: 'insp-1',
+          taskName: 'Live work',
+          status: 'running',
+          startedAt: new Date('2026-03-01T10:00:00.000Z'),
+          resumedAt: new Date('2026-03-01T10:00:00.000Z'),
+          durationSeconds: 0,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ],
+      new Date('2026-03-01T10:15:00.000Z'),
+    )
+
+    expect(summary).toEqual({
+      totalMinutes: 75,
+      lines: ['Logged work: 1h (completed)', 'Live work: 15m (running)'],
+    })
+  })
+})
@@ -1,15 +1,5 @@
-import type { DataService } from './data-service'
-
-export interface TimeEntry {
-  id: string
-  inspectionId: string
-  taskName: string
-  startTime: string
-  endTime?: string
-  duration?: number
-  notes?: string
-  status: 'running' | 'paused' | 'completed'
-}
+import type { DataService, UpdateTimeEntryInput } from './data-service'
+import type { TimeEntry } from '../types'
 
 export interface TimeTrackingSummary {
   inspectionId: string
@@ -17,85 +7,159 @@ export interface TimeTrackingSummary {
   tasks: TimeEntry[]
 }
 
+export class TimeEntryStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TimeEntryStateError'
+  }
+}
+
+export function runningTaskConflict(inspectionId: string): TimeEntryStateError {
+  return new TimeEntryStateError(`Task already running for inspection ${inspectionId}`)
+}
+
+type TimeTrackingDataService = Pick<
+  DataService,
+  'getInspectionById' | 'createTimeEntry' | 'updateTimeEntry' | 'listTimeEntries'
+>
+
+export function getTimeEntryElapsedSeconds(entry: TimeEntry, now: Date = new Date()): number {
+  if (entry.status !== 'running' || !entry.resumedAt) {
+    return entry.durationSeconds
+  }
+  const runningSeconds = Math.max(0, Math.floor((now.getTime() - entry.resumedAt.getTime()) / 1000))
+  return entry.durationSeconds + runningSeconds
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes}m`
+  }
+
+  const hours = Math.floor(minutes / 60)
+  const mins = minutes % 60
+
+  if (hours < 24) {
+    return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`
+  }
+
+  const days = Math.floor(hours / 24)
+  const remainingHours = hours % 24
+
+  return `${days}d ${remainingHours}h`
+}
+
+export function summarizeTimeEntries(
+  entries: TimeEntry[],
+  now: Date = new Date(),
+): { totalMinutes: number; lines: string[] } {
+  let totalSeconds = 0
+  const lines = entries.map((entry) => {
+    const seconds = getTimeEntryElapsedSeconds(entry, now)
+    totalSeconds += seconds
+    return `${entry.taskName}: ${formatDuration(Math.floor(seconds / 60))} (${entry.status})`
+  })
+
+  return {
+    totalMinutes: Math.floor(totalSeconds / 60),
+    lines,
+  }
+}
+
 export class TimeTrackingService {
-  private readonly dataService: DataService
-  private activeSessions: Map<string, TimeEntry> = new Map()
-  private completedEntries: Map<string, TimeEntry[]> = new Map()
+  private readonly dataService: TimeTrackingDataService
 
-  constructor(dataService: DataService) {
+  constructor(dataService: TimeTrackingDataService) {
     this.dataService = dataService
   }
 
   public async startTask(inspectionId: string, taskName: string, notes?: string): Promise<TimeEntry> {
-    if (this.activeSessions.has(inspectionId)) {
-      throw new Error(`Task already running for inspection ${inspectionId}`)
+    await this.ensureInspectionExists(inspectionId)
+
+    const active = await this.getActiveTask(inspectionId)
+    if (active) {
+      throw runningTaskConflict(inspectionId)
     }
 
-    const entry: TimeEntry = {
-      id: `time_${Date.now()}`,
+    const now = new Date()
+    return this.dataService.createTimeEntry({
       inspectionId,
       taskName,
-      startTime: new Date().toISOString(),
       notes,
       status: 'running',
-    }
-
-    this.activeSessions.set(inspectionId, entry)
-
-    return entry
+      startedAt: now,
+      resumedAt: now,
+      durationSeconds: 0,
+    })
   }
 
-  public async pauseTask(inspectionId: string): Promise<TimeEntry | null> {
-    const entry = this.activeSessions.get(inspectionId)
-    if (!entry) return null
-
-    entry.status = 'paused'
-    entry.endTime = new Date().toISOString()
-    entry.duration = Math.floor(
-      (new Date(entry.endTime).getTime() - new Date(entry.startTime).getTime()) / 60000
-    )
-
-    const entries = this.completedEntries.get(inspectionId) || []
-    entries.push(entry)
-    this.completedEntries.set(inspectionId, entries)
-    
-    this.activeSessions.delete(inspectionId)
+  public async resumeTask(inspectionId: string, entryId: string): Promise<TimeEntry> {
+    const entries = await this.listEntriesForInspection(inspectionId)
+    const entry = this.findEntry(entries, entryId)
+    if (entry.status !== 'paused') {
+      throw new TimeEntryStateError(`Time entry ${entryId} is ${entry.status} and cannot be resumed`)
+    }
+    if (entries.some((candidate) => candidate.status === 'running')) {
+      throw runningTaskConflict(inspectionId)
+    }
 
-    return entry
+    return this.saveEntry(entry, {
+      status: 'running',
+      resumedAt: new Date(),
+      endedAt: undefined,
+      durationSeconds: entry.durationSeconds,
+      notes: entry.notes,
+    })
   }
 
-  public async completeTask(inspectionId: string): Promise<TimeEntry | null> {
-    let entry = this.activeSessions.get(inspectionId)
-
+  public async pauseTask(inspectionId: string, entryId?: string): Promise<TimeEntry | null> {
+    const entries = await this.listEntriesForInspection(inspectionId)
+    const entry = entryId
+      ? this.findEntry(entries, entryId)
+      : entries.find((candidate) => candidate.status === 'running')
     if (!entry) {
-      const entries = this.completedEntries.get(inspectionId) || []
-      entry = entries.find((e) => e.status === 'running')
+      return null
+    }
+    if (entry.status !== 'running') {
+      throw new TimeEntryStateError(`Time entry ${entry.id} is ${entry.status} and cannot be paused`)
     }
 
-    if (!entry) return null
-
-    entry.status = 'completed'
-    entry.endTime = new Date().toISOString()
-    entry.duration = Math.floor(
-      (new Date(entry.endTime).getTime() - new Date(entry.startTime).getTime()) / 60000
-    )
+    const now = new Date()
+    return this.saveEntry(entry, {
+      status: 'paused',
+      resumedAt: undefined,
+      endedAt: now,
+      durationSeconds: getTimeEntryElapsedSeconds(entry, now),
+      notes: entry.notes,
+    })
+  }
 
-    const entries = this.completedEntries.get(inspectionId) || []
-    const existingIndex = entries.findIndex((e) => e.id === entry!.id)
-    if (existingIndex >= 0) {
-      entries[existingIndex] = entry
-    } else {
-      entries.push(entry)
+  public async completeTask(inspectionId: string, entryId?: string): Promise<TimeEntry | null> {
+    const entries = await this.listEntriesForInspection(inspectionId)
+    const entry = entryId
+      ? this.findEntry(entries, entryId)
+      : entries.find((candidate) => candidate.status === 'running') ||
+        entries.find((candidate) => candidate.status === 'paused')
+    if (!entry) {
+      return null
+    }
+    if (entry.status === 'completed') {
+      throw new TimeEntryStateError(`Time entry ${entry.id} is already completed`)
     }
-    this.completedEntries.set(inspectionId, entries)
-    
-    this.activeSessions.delete(inspectionId)
 
-    return entry
+    const now = new Date()
+    return this.saveEntry(entry, {
+      status: 'completed',
+      resumedAt: undefined,
+      endedAt: entry.status === 'running' ? now : entry.endedAt || now,
+      durationSeconds: getTimeEntryElapsedSeconds(entry, now),
+      notes: entry.notes,
+    })
   }
 
-  public getActiveTask(inspectionId: string): TimeEntry | undefined {
-    return this.activeSessions.get(inspectionId)
+  public async getActiveTask(inspectionId: string): Promise<TimeEntry | undefined> {
+    const entries = await this.dataService.listTimeEntries(inspectionId)
+    return entries.find((entry) => entry.status === 'running')
   }
 
   public async logTime(
@@ -104,54 +168,63 @@ export class TimeTrackingService {
     duration: number,
     notes?: string
   ): Promise<TimeEntry> {
-    const entry: TimeEntry = {
-      id: `time_${Date.now()}`,
+    await this.ensureInspectionExists(inspectionId)
+
+    const endedAt = new Date()
+    return this.dataService.createTimeEntry({
       inspectionId,
       taskName,
-      duration,
-      startTime: new Date(Date.now() - duration * 60000).toISOString(),
-      endTime: new Date().toISOString(),
       notes,
       status: 'completed',
-    }
-
-    const entries = this.completedEntries.get(inspectionId) || []
-    entries.push(entry)
-    this.completedEntries.set(inspectionId, entries)
+      startedAt: new Date(endedAt.getTime() - duration * 60000),
+      endedAt,
+      durationSeconds: Math.round(duration * 60),
+    })
+  }
 
-    return entry
+  public async listEntries(inspectionId: string): Promise<TimeEntry[]> {
+    return this.listEntriesForInspection(inspectionId)
   }
 
   public async getSummary(inspectionId: string): Promise<TimeTrackingSummary> {
-    const activeEntry = this.activeSessions.get(inspectionId)
-    const completedEntries = this.completedEntries.get(inspectionId) || []
-    
-    const entries = activeEntry ? [activeEntry, ...completedEntries] : completedEntries
-
-    const totalDuration = entries.reduce((sum, entry) => sum + (entry.duration || 0), 0)
+    const entries = await this.listEntriesForInspection(inspectionId)
 
     return {
       inspectionId,
-      totalDuration,
+      totalDuration: summarizeTimeEntries(entries).totalMinutes,
       tasks: entries,
     }
   }
 
   public formatDuration(minutes: number): string {
-    if (minutes < 60) {
-      return `${minutes}m`
-    }
+    return formatDuration(minutes)
+  }
 
-    const hours = Math.floor(minutes / 60)
-    const mins = minutes % 60
+  private async listEntriesForInspection(inspectionId: string): Promise<TimeEntry[]> {
+    await this.ensureInspectionExists(inspectionId)
+    return this.dataService.listTimeEntries(inspectionId)
+  }
 
-    if (hours < 24) {
-      return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`
+  private async ensureInspectionExists(inspectionId: string): Promise<void> {
+    const inspection = await this.dataService.getInspectionById(inspectionId)
+    if (!inspection) {
+      throw new Error('Inspection not found')
     }
+  }
 
-    const days = Math.floor(hours / 24)
-    const remainingHours = hours % 24
+  private findEntry(entries: TimeEntry[], entryId: string): TimeEntry {
+    const entry = entries.find((candidate) => candidate.id === entryId)
+    if (!entry) {
+      throw new Error('Time entry not found')
+    }
+    return entry
+  }
 
-    return `${days}d ${remainingHours}h`
+  private async saveEntry(entry: TimeEntry, input: UpdateTimeEntryInput): Promise<TimeEntry> {
+    const updated = await this.dataService.updateTimeEntry(entry.id, input)
+    if (!updated) {
+      throw new Error('Time entry not found')
+    }
+    return updated
   }
 }
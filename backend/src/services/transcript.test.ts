@@ -0,0 +1,43 @@
+import { legacyTranscriptEntryId, parseLegacyTranscript, summarizeTranscript } from './transcript'
+
+describe('parseLegacyTranscript', () => {
+  it('starts an entry at each speaker prefix and folds other lines into the one before', () => {
+    const startedAt = new Date('2026-02-21T10:00:00.000Z')
+
+    const entries = parseLegacyTranscript(
+      'insp-1',
+      'Session notes\nuser: Check the valve\nagent: Step 1: isolate\nStep 2: vent\nuser: Done',
+      startedAt,
+    )
+
+    expect(entries.map(({ sequence, speaker, text }) => ({ sequence, speaker, text }))).toEqual([
+      { sequence: 1, speaker: 'system', text: 'Session notes' },
+      { sequence: 2, speaker: 'user', text: 'Check the valve' },
+      { sequence: 3, speaker: 'agent', text: 'Step 1: isolate\nStep 2: vent' },
+      { sequence: 4, speaker: 'user', text: 'Done' },
+    ])
+    expect(entries[0]).toMatchObject({ inspectionId: 'insp-1', timestamp: startedAt, source: 'legacy' })
+    expect(parseLegacyTranscript('insp-1', '  ', startedAt)).toEqual([])
+  })
+
+  it('derives the same ids as the Postgres migration', () => {
+    // SELECT md5('insp-1:1')::uuid
+    expect(legacyTranscriptEntryId('insp-1', 1)).toBe('0796ca50-eff1-5ec0-6881-2a679d3a9c9e')
+    expect(parseLegacyTranscript('insp-1', 'user: hi', new Date())[0].id).toBe(legacyTranscriptEntryId('insp-1', 1))
+  })
+})
+
+describe('summarizeTranscript', () => {
+  it('quotes who said what and leaves out system lines', () => {
+    const timestamp = new Date('2026-02-21T10:04:09.000Z')
+    const base = { inspectionId: 'insp-1', timestamp, source: 'live' as const }
+
+    expect(
+      summarizeTranscript([
+        { ...base, id: 'b', sequence: 2, speaker: 'agent', text: 'Isolate the feed first' },
+        { ...base, id: 'c', sequence: 3, speaker: 'system', text: 'Context set' },
+        { ...base, id: 'a', sequence: 1, speaker: 'user', text: 'Breaker is warm' },
+      ]),
+    ).toEqual(['10:04:09 Technician: "Breaker is warm"', '10:04:09 Agent: "Isolate the feed first"'])
+  })
+})
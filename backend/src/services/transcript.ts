@@ -0,0 +1,89 @@
+import { createHash } from 'crypto'
+import type { TranscriptQuery } from './data-service'
+import type { TranscriptEntry, TranscriptSpeaker } from '../types'
+
+export const DEFAULT_TRANSCRIPT_PAGE_SIZE = 100
+export const MAX_TRANSCRIPT_PAGE_SIZE = 500
+/** Entries quoted in a report; the full transcript stays available through the API. */
+export const REPORT_TRANSCRIPT_LIMIT = 100
+
+const LEGACY_SPEAKER_PATTERN = /^(user|agent): /
+const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  user: 'Technician',
+  agent: 'Agent',
+  system: 'System',
+}
+
+export function normalizeTranscriptPageSize(limit?: number): number {
+  if (!limit || !Number.isFinite(limit) || limit < 1) {
+    return DEFAULT_TRANSCRIPT_PAGE_SIZE
+  }
+  return Math.min(Math.floor(limit), MAX_TRANSCRIPT_PAGE_SIZE)
+}
+
+/** The line an entry adds to `Inspection.transcript`. */
+export function formatTranscriptLine(entry: Pick<TranscriptEntry, 'speaker' | 'text'>): string {
+  return `${entry.speaker}: ${entry.text}`
+}
+
+export function matchesTranscriptQuery(entry: TranscriptEntry, query: TranscriptQuery): boolean {
+  return (
+    (query.afterSequence === undefined || entry.sequence > query.afterSequence) &&
+    (!query.speaker || entry.speaker === query.speaker) &&
+    (!query.search || entry.text.toLowerCase().includes(query.search.toLowerCase()))
+  )
+}
+
+/** Same value as the Postgres migration's `md5(inspection_id || ':' || sequence)::uuid`, so every store agrees. */
+export function legacyTranscriptEntryId(inspectionId: string, sequence: number): string {
+  const hex = createHash('md5').update(`${inspectionId}:${sequence}`).digest('hex')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+/**
+ * Splits an old single-string transcript into entries. Each `user: ` or
+ * `agent: ` line starts an entry and any other line continues the one
+ * before it, since agent replies could span lines. The old format kept no
+ * times, so every entry takes the inspection's start time.
+ */
+export function parseLegacyTranscript(inspectionId: string, transcript: string, timestamp: Date): TranscriptEntry[] {
+  const entries: TranscriptEntry[] = []
+  if (!transcript.trim()) {
+    return entries
+  }
+
+  for (const line of transcript.split('\n')) {
+    const speaker = LEGACY_SPEAKER_PATTERN.exec(line)?.[1] as TranscriptSpeaker | undefined
+    const current = entries[entries.length - 1]
+    if (current && !speaker) {
+      current.text = `${current.text}\n${line}`
+      continue
+    }
+
+    const sequence = entries.length + 1
+    entries.push({
+      id: legacyTranscriptEntryId(inspectionId, sequence),
+      inspectionId,
+      sequence,
+      speaker: speaker ?? 'system',
+      text: speaker ? line.slice(speaker.length + 2) : line,
+      timestamp: new Date(timestamp.getTime()),
+      source: 'legacy',
+    })
+  }
+  return entries
+}
+
+/** Report lines quoting who said what, oldest first. */
+export function summarizeTranscript(entries: TranscriptEntry[]): string[] {
+  const quoted = entries
+    .filter((entry) => entry.speaker !== 'system')
+    .sort((a, b) => a.sequence - b.sequence)
+  const lines = quoted
+    .slice(0, REPORT_TRANSCRIPT_LIMIT)
+    .map((entry) => `${entry.timestamp.toISOString().slice(11, 19)} ${SPEAKER_LABELS[entry.speaker]}: "${entry.text}"`)
+  if (quoted.length > REPORT_TRANSCRIPT_LIMIT) {
+    lines.push(`... ${quoted.length - REPORT_TRANSCRIPT_LIMIT} more entries in the full transcript`)
+  }
+  return lines
+}
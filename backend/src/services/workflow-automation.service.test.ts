@@ -1,4 +1,5 @@
 import { WorkflowAutomationService } from './workflow-automation.service'
+import { runInOrganization } from './organization-context'
 
 describe('WorkflowAutomationService', () => {
   const envBackup = { ...process.env }
@@ -306,4 +307,47 @@ describe('WorkflowAutomationService', () => {
     expect(record.short_description).toBe('Proxy payload test')
     expect(record.u_workflow_action).toBe('notify_supervisor')
   })
+
+  it('should use organization webhook settings instead of the environment once they exist', async () => {
+    process.env.WORKFLOW_TICKET_WEBHOOK_URL = 'https://env.example.com/workflow'
+    process.env.WORKFLOW_NOTIFY_WEBHOOK_URL = 'https://env.example.com/notify'
+    const service = new WorkflowAutomationService({
+      resolveSettings: async () => ({
+        ticket: { url: 'https://jira.acme.example.com', provider: 'jira', jiraProjectKey: 'ACME' },
+      }),
+    })
+
+    const postJsonSpy = jest
+      .spyOn(
+        service as unknown as {
+          postJson: (...args: unknown[]) => Promise<unknown>
+        },
+        'postJson',
+      )
+      .mockResolvedValue({
+        statusCode: 201,
+        bodyText: '{"key":"ACME-1"}',
+        bodyJson: { key: 'ACME-1' },
+      })
+
+    const ticket = await service.runAction({ inspectionId: 'insp-9', action: 'create_ticket' })
+    const notify = await service.runAction({ inspectionId: 'insp-9', action: 'notify_supervisor' })
+
+    expect(ticket.externalReferenceId).toBe('ACME-1')
+    expect(postJsonSpy).toHaveBeenCalledTimes(1)
+    expect(postJsonSpy.mock.calls[0][0]).toBe('https://jira.acme.example.com/rest/api/3/issue')
+    expect(notify.resultMessage).toContain('no webhook configured')
+  })
+
+  it('should keep idempotent results apart per organization', async () => {
+    delete process.env.WORKFLOW_TICKET_WEBHOOK_URL
+    const service = new WorkflowAutomationService()
+    const input = { inspectionId: 'insp-10', action: 'create_ticket' as const, idempotencyKey: 'shared-key' }
+
+    const defaultResult = await runInOrganization('default', () => service.runAction(input))
+    const acmeResult = await runInOrganization('acme', () => service.runAction(input))
+
+    expect(acmeResult.externalReferenceId).not.toBe(defaultResult.externalReferenceId)
+    await expect(runInOrganization('acme', () => service.runAction(input))).resolves.toEqual(acmeResult)
+  })
 })
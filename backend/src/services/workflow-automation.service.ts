@@ -2,7 +2,8 @@ import http from 'http'
 import https from 'https'
 import { randomUUID } from 'crypto'
 import { URL } from 'url'
-import type { WorkflowActionType } from '../types'
+import { DEFAULT_ORGANIZATION_ID, currentOrganizationId } from './organization-context'
+import type { OrganizationSettings, WorkflowActionType, WorkflowWebhookSettings } from '../types'
 
 type WorkflowProvider = 'generic' | 'jira' | 'servicenow'
 type WorkflowAuthType = 'none' | 'bearer' | 'basic'
@@ -51,6 +52,14 @@ interface WorkflowWebhookConfig {
   serviceNowTable?: string
 }
 
+export interface WorkflowAutomationServiceOptions {
+  /**
+   * Webhook settings of the organization in scope. Undefined means it has
+   * none stored and the `WORKFLOW_*` variables apply.
+   */
+  resolveSettings?: () => Promise<OrganizationSettings['workflow'] | undefined>
+}
+
 class WorkflowWebhookError extends Error {
   constructor(
     message: string,
@@ -68,6 +77,11 @@ export class WorkflowAutomationService {
   private readonly idempotencyResultTtlMs = 60 * 60 * 1000
   private readonly maxIdempotencyEntries = 1000
   private readonly idempotencyCache = new Map<string, CachedWorkflowResult>()
+  private readonly resolveSettings?: WorkflowAutomationServiceOptions['resolveSettings']
+
+  constructor(options: WorkflowAutomationServiceOptions = {}) {
+    this.resolveSettings = options.resolveSettings
+  }
 
   public async runAction(input: WorkflowActionInput): Promise<WorkflowActionResult> {
     const idempotencyKey = this.resolveIdempotencyKey(input)
@@ -93,7 +107,7 @@ export class WorkflowAutomationService {
 
       case 'create_ticket':
         return this.handleWebhookOrLocal(
-          this.resolveWebhookConfig('create_ticket', input),
+          await this.resolveWebhookConfig('create_ticket', input),
           input,
           idempotencyKey,
           'ticket',
@@ -102,7 +116,7 @@ export class WorkflowAutomationService {
 
       case 'notify_supervisor':
         return this.handleWebhookOrLocal(
-          this.resolveWebhookConfig('notify_supervisor', input),
+          await this.resolveWebhookConfig('notify_supervisor', input),
           input,
           idempotencyKey,
           'notification',
@@ -385,10 +399,15 @@ export class WorkflowAutomationService {
     }
   }
 
-  private resolveWebhookConfig(
+  private async resolveWebhookConfig(
     action: 'create_ticket' | 'notify_supervisor',
     input: WorkflowActionInput,
-  ): WorkflowWebhookConfig {
+  ): Promise<WorkflowWebhookConfig> {
+    const settings = await this.resolveSettings?.()
+    if (settings) {
+      return this.toWebhookConfig(action === 'create_ticket' ? settings.ticket : settings.notify, input)
+    }
+
     const prefix = action === 'create_ticket' ? 'WORKFLOW_TICKET' : 'WORKFLOW_NOTIFY'
     const rawUrl = this.readEnvString(`${prefix}_WEBHOOK_URL`)
     const metadataProvider = this.getMetadataString(input.metadata, 'workflowProvider')
@@ -411,6 +430,33 @@ export class WorkflowAutomationService {
     }
   }
 
+  private toWebhookConfig(
+    settings: WorkflowWebhookSettings | undefined,
+    input: WorkflowActionInput,
+  ): WorkflowWebhookConfig {
+    const metadataProvider = this.getMetadataString(input.metadata, 'workflowProvider')
+    const provider = this.parseProvider(metadataProvider || settings?.provider)
+    const serviceNowTable = settings?.serviceNowTable || 'incident'
+
+    return {
+      url: this.normalizeProviderUrl(settings?.url, provider, serviceNowTable),
+      provider,
+      authType: settings?.authType ?? 'none',
+      authToken: settings?.authToken,
+      authUsername: settings?.authUsername,
+      authPassword: settings?.authPassword,
+      jiraProjectKey: settings?.jiraProjectKey,
+      jiraIssueType: settings?.jiraIssueType,
+      jiraUseAdfDescription: settings?.jiraUseAdf ?? true,
+      serviceNowTable,
+    }
+  }
+
+  /** Idempotency keys come from clients, so two organizations may well pick the same one. */
+  private idempotencyCacheKey(idempotencyKey: string): string {
+    return `${currentOrganizationId() ?? DEFAULT_ORGANIZATION_ID}:${idempotencyKey}`
+  }
+
   private resolveIdempotencyKey(input: WorkflowActionInput): string {
     if (typeof input.idempotencyKey === 'string' && input.idempotencyKey.trim().length > 0) {
       return input.idempotencyKey.trim()
@@ -426,7 +472,7 @@ export class WorkflowAutomationService {
 
   private getCachedCompletedResult(idempotencyKey: string): WorkflowActionResult | null {
     this.pruneIdempotencyCache()
-    const cached = this.idempotencyCache.get(idempotencyKey)
+    const cached = this.idempotencyCache.get(this.idempotencyCacheKey(idempotencyKey))
     if (!cached) {
       return null
     }
@@ -440,7 +486,7 @@ export class WorkflowAutomationService {
     result: WorkflowActionResult,
   ): WorkflowActionResult {
     this.pruneIdempotencyCache()
-    this.idempotencyCache.set(idempotencyKey, {
+    this.idempotencyCache.set(this.idempotencyCacheKey(idempotencyKey), {
       result: {
         ...result,
       },
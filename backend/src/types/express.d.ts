@@ -4,6 +4,8 @@ declare global {
   namespace Express {
     interface Request {
       authUser?: AuthUser | null
+      /** From the caller's `X-Request-Id` header when it is usable, otherwise generated. */
+      requestId?: string
     }
   }
 }
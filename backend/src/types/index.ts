@@ -1,10 +1,65 @@
+/**
+ * A customer whose technicians, sites and inspections are kept apart from
+ * every other organization's. Deployments start with the `default` one.
+ */
+export interface Organization {
+  /** Lowercase slug; also names the organization's Postgres schema and Firestore path. */
+  id: string
+  name: string
+  settings: OrganizationSettings
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface OrganizationSettings {
+  /**
+   * Webhooks for ticket and supervisor workflow actions. Once set, they
+   * replace the `WORKFLOW_*` variables, which only ever apply to the default
+   * organization; an action without a webhook is handled locally.
+   */
+  workflow?: {
+    ticket?: WorkflowWebhookSettings
+    notify?: WorkflowWebhookSettings
+  }
+  /** Branding for PDF reports; a site's own template wins field by field. */
+  report?: ReportTemplate
+}
+
+/** Branding for PDF reports. Unset fields fall back to the organization's template, then to the built-in look. */
+export interface ReportTemplate {
+  /** Heading on the first page. */
+  title?: string
+  /** PNG or JPEG as a `data:` URL, drawn in the page header. */
+  logoDataUrl?: string
+  headerText?: string
+  footerText?: string
+  /** `#rrggbb` used for headings and table headers. */
+  accentColor?: string
+  showPageNumbers?: boolean
+}
+
+export interface WorkflowWebhookSettings {
+  url: string
+  provider?: 'generic' | 'jira' | 'servicenow'
+  authType?: 'none' | 'bearer' | 'basic'
+  authToken?: string
+  authUsername?: string
+  authPassword?: string
+  jiraProjectKey?: string
+  jiraIssueType?: string
+  jiraUseAdf?: boolean
+  serviceNowTable?: string
+}
+
 export interface Technician {
   id: string
   name: string
   email: string
-  role: 'admin' | 'technician' | 'viewer'
+  role: 'admin' | 'supervisor' | 'technician' | 'viewer'
   createdAt: Date
   updatedAt: Date
+  /** Set when the technician is deactivated; they drop out of listings but still resolve by id. */
+  deletedAt?: Date
 }
 
 export interface Site {
@@ -17,10 +72,21 @@ export interface Site {
     address?: string
   }
   technicianIds: string[]
+  /** Per-class overrides of the deployment's retention defaults. */
+  retention?: RetentionPolicy
+  reportTemplate?: ReportTemplate
   createdAt: Date
   updatedAt: Date
+  /** Set when the site is deactivated; it drops out of listings but still resolves by id. */
+  deletedAt?: Date
 }
 
+/** Kinds of inspection data that retention policies and erasure requests remove. */
+export type RetentionDataClass = 'transcripts' | 'images' | 'ocr' | 'reports'
+
+/** Days a data class is kept after the inspection started. A class with no entry is kept indefinitely. */
+export type RetentionPolicy = Partial<Record<RetentionDataClass, number>>
+
 export interface SiteAsset {
   id: string
   siteId: string
@@ -29,24 +95,353 @@ export interface SiteAsset {
   serialNumber?: string
   location?: string
   notes?: string
+  riskAssessment?: AssetRiskAssessment
   createdAt: Date
   updatedAt: Date
 }
 
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical'
+
+export interface PredictedFailure {
+  component: string
+  likelihood: number
+  timeframe: string
+  indicators: string[]
+}
+
+export interface AssetRiskAssessment {
+  assetId: string
+  siteId: string
+  riskScore: number
+  riskLevel: RiskLevel
+  inspectionCount: number
+  lastInspectedAt?: Date
+  /** Recency-weighted points from each evidence source; riskScore saturates over their sum. */
+  contributions: {
+    faults: number
+    safetyFlags: number
+    readingAnomalies: number
+    recurrence: number
+  }
+  predictedFailures: PredictedFailure[]
+  maintenanceRecommendations: string[]
+  sparesToOrder: string[]
+  computedAt: Date
+}
+
+/**
+ * `completed` is the technician's own sign-off. The review states take an
+ * inspection through a supervisor instead: `pending_review` once submitted,
+ * then `changes_requested` back to the technician or `approved`.
+ */
+export type InspectionStatus = 'in_progress' | 'completed' | 'pending_review' | 'changes_requested' | 'approved'
+
 export interface Inspection {
   id: string
   technicianId: string
   siteId: string
   timestamp: Date
-  status: 'in_progress' | 'completed'
+  status: InspectionStatus
+  /** Site assets this inspection covers, chosen up front or matched from OCR serials and faults. */
+  assetIds: string[]
   images: string[]
   safetyFlags: SafetyFlag[]
   detectedFaults: DetectedFault[]
   recommendedActions: string[]
   ocrFindings: OcrFinding[]
+  anomalyFindings: ReadingAnomaly[]
   workflowEvents: WorkflowEvent[]
+  /** Plain-text rendering of the transcript entries, one `speaker: text` line each; kept for full-text search. */
   transcript: string
   summary?: string
+  checklist?: InspectionChecklist
+  /** Why the inspection was completed with required checklist items still open. */
+  checklistOverrideReason?: string
+  /** Set once the inspection is first submitted for review. */
+  review?: InspectionReview
+  /** Starts at 1 and goes up on every write; served as the ETag that `If-Match` is checked against. */
+  version: number
+}
+
+export interface ReviewActor {
+  uid: string | null
+  email?: string
+  role: Technician['role']
+}
+
+/** Report lists a review comment can point into. */
+export type ReviewFindingSection = 'findings' | 'safetySummary' | 'recommendedActions'
+
+export interface ReviewComment {
+  id: string
+  author: ReviewActor
+  text: string
+  /** Report version the comment was written against. */
+  reportVersion: number
+  /** The line the comment is about, copied from that report version; absent for general comments. */
+  finding?: {
+    section: ReviewFindingSection
+    index: number
+    text: string
+  }
+  createdAt: Date
+}
+
+export interface ReportApproval {
+  reportVersion: number
+  reportContentHash: string
+  approvedBy: ReviewActor
+  approvedAt: Date
+  /** SHA-256 over the inspection id and the fields above; printed on the signed PDF. */
+  verificationHash: string
+}
+
+export interface InspectionReview {
+  /** Report version generated on the latest submission; the one being reviewed. */
+  reportVersion: number
+  submittedBy: ReviewActor
+  submittedAt: Date
+  decidedBy?: ReviewActor
+  decidedAt?: Date
+  /** Every comment across all rounds of review, oldest first. */
+  comments: ReviewComment[]
+  approval?: ReportApproval
+}
+
+/** Where a report job was sent: the API's own worker, a separate queue worker, or Pub/Sub. */
+export type ReportPipelineProvider = 'local' | 'queue' | 'pubsub'
+
+/** `failed` is final; `dead_letter` means every attempt was used up. Admins can requeue either. */
+export type ReportJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'dead_letter'
+
+export interface ReportGenerationJob {
+  jobId: string
+  inspectionId: string
+  status: ReportJobStatus
+  provider: ReportPipelineProvider
+  /** Attempts started so far, including the one in progress. */
+  attempts: number
+  maxAttempts: number
+  /** A queued job is not picked up before this; absent means straight away. */
+  nextAttemptAt?: Date
+  /** While processing, when another worker may take the job over from one that stopped. */
+  leaseExpiresAt?: Date
+  reportGeneratedAt?: Date
+  /** Why the latest attempt failed. */
+  error?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type TranscriptSpeaker = 'user' | 'agent' | 'system'
+
+/**
+ * `live` lines come from the streaming session, `fallback` lines from the
+ * request/response path, and `legacy` lines were converted from the old
+ * single-string transcript.
+ */
+export type TranscriptSource = 'live' | 'fallback' | 'legacy'
+
+export interface TranscriptEntry {
+  id: string
+  inspectionId: string
+  /** Position in the inspection's transcript, starting at 1. */
+  sequence: number
+  speaker: TranscriptSpeaker
+  text: string
+  timestamp: Date
+  /** Language the session was running in, when the client reported one. */
+  language?: string
+  source: TranscriptSource
+}
+
+export interface ExpectedReading {
+  unit?: string
+  min?: number
+  max?: number
+  target?: number
+  /** Allowed absolute deviation from `target`. */
+  tolerance?: number
+}
+
+export interface ChecklistTemplateItem {
+  id: string
+  label: string
+  description?: string
+  required: boolean
+  expectedReading?: ExpectedReading
+  requiresPhoto: boolean
+  /** Extra words the agent listens for, besides the label, when marking this item. */
+  keywords: string[]
+}
+
+export interface ChecklistTemplate {
+  id: string
+  name: string
+  siteType: Site['type']
+  items: ChecklistTemplateItem[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type ChecklistItemStatus = 'open' | 'passed' | 'failed' | 'not_applicable'
+
+export interface InspectionChecklistItem extends ChecklistTemplateItem {
+  status: ChecklistItemStatus
+  reading?: number
+  withinTolerance?: boolean
+  photoUrl?: string
+  note?: string
+  markedBy?: 'technician' | 'agent'
+  updatedAt?: Date
+}
+
+export interface InspectionChecklist {
+  templateId: string
+  templateName: string
+  items: InspectionChecklistItem[]
+}
+
+export interface TimeEntry {
+  id: string
+  inspectionId: string
+  taskName: string
+  notes?: string
+  status: 'running' | 'paused' | 'completed'
+  startedAt: Date
+  resumedAt?: Date
+  endedAt?: Date
+  durationSeconds: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type PartOrderStatus = 'pending' | 'ordered' | 'shipped' | 'delivered' | 'cancelled'
+
+export type PartsSupplierProvider = 'generic' | 'sap_ariba' | 'coupa'
+
+export interface PartOrder {
+  id: string
+  inspectionId: string
+  partNumber: string
+  quantity: number
+  urgency: 'routine' | 'urgent' | 'critical'
+  status: PartOrderStatus
+  supplierProvider: PartsSupplierProvider
+  notes?: string
+  statusNote?: string
+  externalReferenceId?: string
+  estimatedDelivery?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ExpertContact {
+  id: string
+  name: string
+  email?: string
+  role: string
+  specialty: string[]
+  availability: 'online' | 'offline' | 'busy'
+  contactMethod: 'email' | 'sms' | 'push'
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type ExpertEscalationStatus = 'queued' | 'sent' | 'acknowledged' | 'resolved'
+
+export interface ExpertEscalationContext {
+  faultDescription?: string
+  failedAttempts?: number
+  technicianNotes?: string
+  attachedImages?: string[]
+}
+
+export interface ExpertEscalation {
+  id: string
+  inspectionId: string
+  reason: string
+  priority: 'low' | 'medium' | 'high' | 'critical'
+  requiredExpertise: string[]
+  status: ExpertEscalationStatus
+  context: ExpertEscalationContext
+  assignedExpertId?: string
+  contactedExpertIds: string[]
+  acknowledgeBy?: Date
+  acknowledgedAt?: Date
+  resolvedAt?: Date
+  resolutionNote?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type ShareSessionStatus = 'pending' | 'active' | 'completed' | 'expired'
+
+export interface ShareSession {
+  id: string
+  inspectionId: string
+  hostTechnicianId: string
+  expertEmail: string
+  status: ShareSessionStatus
+  accessToken: string
+  reason?: string
+  createdAt: Date
+  expiresAt: Date
+  endedAt?: Date
+}
+
+export type AnnotationTool = 'arrow' | 'circle' | 'rectangle' | 'text' | 'highlight'
+
+/** Position as a fraction (0-1) of the video frame, so it is independent of resolution. */
+export interface AnnotationPoint {
+  x: number
+  y: number
+}
+
+export interface InspectionAnnotation {
+  id: string
+  inspectionId: string
+  snapshotUrl?: string
+  authorRole: 'technician' | 'expert'
+  authorId?: string
+  tool: AnnotationTool
+  color: string
+  points: AnnotationPoint[]
+  text?: string
+  createdAt: Date
+}
+
+export interface AuditActor {
+  uid: string
+  email?: string
+  technicianId?: string
+}
+
+/** One top-level field of an entity before and after a change; values are JSON-normalized. */
+export interface AuditFieldChange {
+  field: string
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditEntry {
+  id: string
+  /** Position in the hash chain, starting at 1. */
+  sequence: number
+  occurredAt: Date
+  /** Null when auth is disabled or the change came from a supplier callback. */
+  actor: AuditActor | null
+  /** Method and route template for HTTP changes (`PATCH /api/v1/sites/:siteId`), or `ws.*` for WebSocket side effects. */
+  action: string
+  entityType: string
+  entityId: string | null
+  changes: AuditFieldChange[]
+  ipAddress: string | null
+  requestId: string | null
+  source: 'http' | 'websocket'
+  /** Hash of the previous entry; the first entry links to a run of zeros. */
+  previousHash: string
+  hash: string
 }
 
 export type WorkflowActionType = 
@@ -84,6 +479,46 @@ export interface OcrFinding {
   meterReadings: string[]
   warningLabels: string[]
   confidence: number
+  /** Site asset whose serial number appears in `serialNumbers`. */
+  assetId?: string
+  createdAt: Date
+}
+
+export type AssetTimelineEntryType = 'inspection' | 'fault' | 'reading' | 'workflow_event'
+
+export interface AssetTimelineEntry {
+  type: AssetTimelineEntryType
+  inspectionId: string
+  occurredAt: Date
+  summary: string
+  fault?: DetectedFault
+  reading?: OcrFinding
+  workflowEvent?: WorkflowEvent
+}
+
+export interface ReadingBaseline {
+  sampleSize: number
+  mean: number
+  stdDev: number
+  ewma: number
+  zScore: number
+  ewmaDeviation: number
+  ratePerDay?: number
+  typicalRatePerDay?: number
+}
+
+/** Outcome of comparing one OCR meter reading against prior readings of the same asset. */
+export interface ReadingAnomaly {
+  id: string
+  assetSerial: string
+  metric: string
+  rawReading: string
+  value: number
+  isAnomaly: boolean
+  severity: 'low' | 'medium' | 'high' | 'critical'
+  reasons: string[]
+  baseline: ReadingBaseline | null
+  explanation?: string
   createdAt: Date
 }
 
@@ -100,6 +535,7 @@ export interface DetectedFault {
   confidence: number
   description: string
   recommendedActions: string[]
+  assetId?: string
 }
 
 export interface WebSocketMessage {
@@ -0,0 +1,13 @@
+/** JSON with sorted keys and no undefined fields, so equal records serialize identically. */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.fromEntries(
+        Object.entries(val as Record<string, unknown>)
+          .filter(([, entry]) => entry !== undefined)
+          .sort(([a], [b]) => a.localeCompare(b)),
+      )
+    }
+    return val
+  })
+}
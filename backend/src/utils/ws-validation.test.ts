@@ -40,4 +40,20 @@ describe('incomingMessageSchema', () => {
 
     expect(result.success).toBe(true)
   })
+
+  it('should reject annotation points outside the normalized frame', () => {
+    const result = incomingMessageSchema.safeParse({
+      type: 'annotation',
+      annotation: {
+        tool: 'arrow',
+        color: '#ff0000',
+        points: [
+          { x: 0.1, y: 0.2 },
+          { x: 640, y: 480 },
+        ],
+      },
+    })
+
+    expect(result.success).toBe(false)
+  })
 })
@@ -3,6 +3,7 @@ import { z } from 'zod'
 const joinSessionSchema = z.object({
   type: z.literal('join_session'),
   sessionId: z.string().min(1).max(128),
+  accessToken: z.string().min(1).max(256).optional(),
 })
 
 const videoFrameSchema = z.object({
@@ -32,6 +33,25 @@ const interruptSchema = z.object({
 const inspectionContextSchema = z.object({
   type: z.literal('inspection_context'),
   inspectionId: z.string().min(1).max(128),
+  /** Recorded on the transcript entries of this session. */
+  language: z
+    .string()
+    .regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/)
+    .optional(),
+})
+
+const annotationSchema = z.object({
+  type: z.literal('annotation'),
+  annotation: z.object({
+    tool: z.enum(['arrow', 'circle', 'rectangle', 'text', 'highlight']),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+    points: z
+      .array(z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) }))
+      .min(1)
+      .max(500),
+    text: z.string().trim().max(200).optional(),
+    snapshotUrl: z.string().url().optional(),
+  }),
 })
 
 export const incomingMessageSchema = z.discriminatedUnion('type', [
@@ -41,6 +61,7 @@ export const incomingMessageSchema = z.discriminatedUnion('type', [
   audioStreamEndSchema,
   interruptSchema,
   inspectionContextSchema,
+  annotationSchema,
 ])
 
 export type IncomingMessage = z.infer<typeof incomingMessageSchema>
@@ -0,0 +1,89 @@
+import 'dotenv/config'
+import {
+  createDataService,
+  isDataProvider,
+  resolveDataProvider,
+  type DataProvider,
+} from '../services/data-service-factory'
+import { createOrganizationScopedDataService, runInOrganization } from '../services/organization-context'
+import { ReportJobRunner } from '../services/report-job-runner'
+import { logger } from '../utils/logger'
+
+const USAGE = 'Usage: npm run worker:reports -- [--once] [--interval <seconds>] [--provider firestore|postgres|memory]'
+
+interface CliOptions {
+  once: boolean
+  intervalMs: number
+  provider: DataProvider
+}
+
+function parseArgs(args: string[]): CliOptions {
+  let once = false
+  let intervalSeconds = Number(process.env.REPORT_WORKER_POLL_SECONDS ?? 5)
+  let provider = resolveDataProvider()
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index]
+    if (arg === '--once') {
+      once = true
+    } else if (arg === '--interval') {
+      intervalSeconds = Number(args[++index])
+    } else if (arg === '--provider') {
+      const value = args[++index]?.trim().toLowerCase()
+      if (!isDataProvider(value)) {
+        throw new Error('--provider must be firestore, postgres or memory')
+      }
+      provider = value
+    } else {
+      throw new Error(USAGE)
+    }
+  }
+  if (!Number.isFinite(intervalSeconds) || intervalSeconds <= 0) {
+    throw new Error('--interval must be a positive number of seconds')
+  }
+
+  return { once, intervalMs: intervalSeconds * 1000, provider }
+}
+
+/**
+ * Works the report job queue outside the API, for `REPORT_PIPELINE_PROVIDER=queue`
+ * or to run Pub/Sub jobs without cloud services. Visits every organization on
+ * each pass; with `--once` it runs the jobs that are due and exits.
+ */
+async function main(args: string[]): Promise<void> {
+  const options = parseArgs(args)
+  const directory = createDataService(options.provider)
+  const runner = new ReportJobRunner(createOrganizationScopedDataService(directory), { logger })
+  const ready = new Set<string>()
+  let stopped = false
+  const stop = () => {
+    stopped = true
+  }
+  process.once('SIGINT', stop)
+  process.once('SIGTERM', stop)
+
+  try {
+    await directory.ready?.()
+    logger.info(`Report worker polling the ${options.provider} queue`, { intervalMs: options.intervalMs })
+    while (!stopped) {
+      for (const organization of await directory.listOrganizations()) {
+        if (!ready.has(organization.id)) {
+          await directory.forOrganization(organization.id).ready?.()
+          ready.add(organization.id)
+        }
+        await runInOrganization(organization.id, () => runner.drain())
+      }
+      if (options.once) {
+        break
+      }
+      await new Promise((resolve) => setTimeout(resolve, options.intervalMs))
+    }
+  } finally {
+    await directory.close?.()
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -3,12 +3,14 @@
 import { useState } from 'react'
 import { HistoryPanel } from '@/components/HistoryPanel'
 import { ReportPanel } from '@/components/ReportPanel'
+import { TranscriptHistoryPanel } from '@/components/TranscriptHistoryPanel'
 import { useAppStore } from '@/lib/store'
 import { useTranslation } from '@/hooks/useTranslation'
 import {
   inspectionService,
   type Inspection,
   type InspectionReport,
+  type ReportFormat,
   type WorkflowActionEvent,
 } from '@/services/inspection-service'
 
@@ -47,13 +49,13 @@ export default function HistoryPage() {
 
   const workflowEvents = getSortedWorkflowEvents(selectedInspection?.workflowEvents)
 
-  async function downloadPdf() {
+  async function downloadReport(format: ReportFormat) {
     if (!report) return
-    const blob = await inspectionService.downloadReportPdf(report.inspectionId)
+    const blob = await inspectionService.downloadReport(report.inspectionId, format)
     const url = URL.createObjectURL(blob)
     const anchor = document.createElement('a')
     anchor.href = url
-    anchor.download = `inspection-report-${report.inspectionId}.pdf`
+    anchor.download = `inspection-report-${report.inspectionId}.${format}`
     document.body.appendChild(anchor)
     anchor.click()
     anchor.remove()
@@ -103,6 +105,8 @@ export default function HistoryPage() {
         )}
       </div>
 
+      <TranscriptHistoryPanel inspectionId={selectedInspection?.id} />
+
       <ReportPanel
         report={report}
         onRefresh={() => {
@@ -110,8 +114,8 @@ export default function HistoryPage() {
             void openReport(report.inspectionId)
           }
         }}
-        onDownloadPdf={() => {
-          void downloadPdf()
+        onDownload={(format) => {
+          void downloadReport(format)
         }}
       />
     </div>
@@ -3,13 +3,19 @@
 import Link from 'next/link'
 import { useCallback, useEffect, useState } from 'react'
 import { VideoPlayer } from '@/components/VideoPlayer'
+import { AROverlay, type Annotation } from '@/components/AROverlay'
 import { Controls } from '@/components/Controls'
 import { Transcript } from '@/components/Transcript'
+import { ChecklistPanel } from '@/components/ChecklistPanel'
 import { useWebRTC } from '@/hooks/useWebRTC'
 import { useAudioCapture } from '@/hooks/useAudioCapture'
 import { useInspectionSession } from '@/hooks/useInspectionSession'
 import { getWebSocketService, WebSocketMessage } from '@/services/websocket'
-import { inspectionService } from '@/services/inspection-service'
+import {
+  inspectionService,
+  type ChecklistItemUpdate,
+  type InspectionChecklist,
+} from '@/services/inspection-service'
 import { useAppStore } from '@/lib/store'
 import { useTranslation } from '@/hooks/useTranslation'
 import { 
@@ -27,6 +33,7 @@ import {
   FileText,
   History,
   ScanText,
+  Pencil,
   Sparkles,
   User,
   MapPin
@@ -45,12 +52,16 @@ export default function LivePage() {
   const addDetectedFault = useAppStore((state) => state.addDetectedFault)
   const technicianId = useAppStore((state) => state.selection.technicianId)
   const siteId = useAppStore((state) => state.selection.siteId)
+  const language = useAppStore((state) => state.language)
 
   const { stream, videoRef, startStream, stopStream, switchCamera, captureFrame, state: webRTCState, facingMode } = useWebRTC()
   const { startRecording, stopRecording, state: audioState } = useAudioCapture()
   const inspection = useInspectionSession()
   const wsService = getWebSocketService()
   const [lastSnapshotUrl, setLastSnapshotUrl] = useState<string | null>(null)
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [isAnnotating, setIsAnnotating] = useState(false)
+  const [checklist, setChecklist] = useState<InspectionChecklist | null>(null)
   const [pendingVoiceConfirmation, setPendingVoiceConfirmation] = useState<{
     action: string
     expiresAt: number
@@ -67,13 +78,31 @@ export default function LivePage() {
     if (!sessionId) setSessionId(`session_${Date.now()}`)
   }, [sessionId, setSessionId])
 
+  useEffect(() => {
+    const inspectionId = inspection.inspectionId
+    if (!inspectionId || inspection.isOffline || inspectionId.startsWith('offline_')) {
+      setChecklist(null)
+      return
+    }
+    let cancelled = false
+    void inspectionService.getChecklist(inspectionId)
+      .then((loaded) => { if (!cancelled) setChecklist(loaded) })
+      .catch(() => { if (!cancelled) setChecklist(null) })
+    return () => { cancelled = true }
+  }, [inspection.inspectionId, inspection.isOffline])
+
+  useEffect(() => {
+    // Transcript entries record the language in effect when they were spoken
+    if (inspection.inspectionId) wsService.sendInspectionContext(inspection.inspectionId, language)
+  }, [inspection.inspectionId, language, wsService])
+
   useEffect(() => {
     const unsubscribe = wsService.onMessage((message: WebSocketMessage) => {
       switch (message.type) {
         case 'connected':
           setConnected(true)
           addMessage({ type: 'system', text: t.status.connected })
-          if (inspection.inspectionId) wsService.sendInspectionContext(inspection.inspectionId)
+          if (inspection.inspectionId) wsService.sendInspectionContext(inspection.inspectionId, language)
           break
         case 'live_transcript':
           if (typeof message.text === 'string' && message.text.trim().length > 0) {
@@ -91,6 +120,28 @@ export default function LivePage() {
             addMessage({ type: 'system', text: `WF_CONFIRM|${message.status || 'expired'}|${message.action || 'workflow_action'}|Voice confirmation ${message.status || 'expired'}` })
           }
           break
+        case 'expert_escalation': {
+          const expert = typeof message.expertName === 'string' ? ` (${message.expertName})` : ''
+          const note = typeof message.resolutionNote === 'string' ? `: ${message.resolutionNote}` : ''
+          addMessage({ type: 'system', text: `Expert escalation ${message.status || 'updated'}${expert}${note}` })
+          break
+        }
+        case 'annotation_added': {
+          const annotation = message.annotation as Annotation | undefined
+          if (annotation) {
+            setAnnotations((current) => current.some((item) => item.id === annotation.id) ? current : [...current, annotation])
+            if (annotation.authorRole === 'expert') addMessage({ type: 'system', text: `Expert added a ${annotation.tool} annotation` })
+          }
+          break
+        }
+        case 'annotation_removed':
+          setAnnotations((current) => current.filter((item) => item.id !== message.annotationId))
+          break
+        case 'checklist_updated':
+          if (message.inspectionId === inspection.inspectionId && message.checklist) {
+            setChecklist(message.checklist as InspectionChecklist)
+          }
+          break
         case 'gemini_response':
           addMessage({ type: 'agent', text: (message.text as string) || '' })
           if (Array.isArray(message.safetyFlags) && message.safetyFlags.length) {
@@ -111,7 +162,7 @@ export default function LivePage() {
       }
     })
     return () => unsubscribe()
-  }, [wsService, setConnected, addMessage, addSafetyFlag, addDetectedFault, inspection.inspectionId])
+  }, [wsService, setConnected, addMessage, addSafetyFlag, addDetectedFault, inspection.inspectionId, language])
 
   const confirmationSecondsLeft = pendingVoiceConfirmation ? Math.max(0, Math.ceil((pendingVoiceConfirmation.expiresAt - confirmationNow) / 1000)) : 0
 
@@ -187,6 +238,14 @@ export default function LivePage() {
       .catch((error) => addMessage({ type: 'system', text: `OCR failed: ${error instanceof Error ? error.message : 'Unknown error'}` }))
   }, [addMessage, inspection.inspectionId, inspection.isOffline, lastSnapshotUrl])
 
+  const handleAddAnnotation = useCallback((annotation: Annotation) => {
+    if (!inspection.inspectionId) {
+      addMessage({ type: 'system', text: 'Start inspection first.' })
+      return
+    }
+    wsService.sendAnnotation({ ...annotation, snapshotUrl: lastSnapshotUrl || undefined })
+  }, [addMessage, inspection.inspectionId, lastSnapshotUrl, wsService])
+
   const handleInterrupt = useCallback(() => {
     wsService.sendInterrupt()
     addMessage({ type: 'system', text: 'Interrupted' })
@@ -212,23 +271,44 @@ export default function LivePage() {
     if (!inspection.inspectionId) {
       try {
         const inspectionId = await inspection.startInspection({ technicianId, siteId })
-        wsService.sendInspectionContext(inspectionId)
+        wsService.sendInspectionContext(inspectionId, language)
         addMessage({ type: 'system', text: `Inspection started: ${inspectionId}` })
       } catch (error) {
         addMessage({ type: 'system', text: `Inspection failed: ${error instanceof Error ? error.message : 'Unknown error'}` })
       }
     }
-  }, [addMessage, inspection, siteId, startStream, technicianId])
+  }, [addMessage, inspection, language, siteId, startStream, technicianId])
+
+  const handleUpdateChecklistItem = useCallback((itemId: string, update: ChecklistItemUpdate) => {
+    if (!inspection.inspectionId) return
+    const photoUrl = update.status === 'passed' && lastSnapshotUrl ? lastSnapshotUrl : undefined
+    void inspectionService.updateChecklistItem(inspection.inspectionId, itemId, { ...update, photoUrl })
+      .then(setChecklist)
+      .catch((error) => addMessage({ type: 'system', text: `Checklist update failed: ${error instanceof Error ? error.message : 'Unknown error'}` }))
+  }, [addMessage, inspection.inspectionId, lastSnapshotUrl])
 
   const handleStopCamera = useCallback(() => {
     stopStream()
     const hadInspection = Boolean(inspection.inspectionId)
-    void inspection.completeInspection('Inspection closed from camera stop.')
-      .then((report) => {
-        if (!hadInspection && !report) return
-        addMessage({ type: 'system', text: report ? `Inspection completed. Report: ${report.inspectionId}` : 'Inspection queued for completion.' })
+    const summary = 'Inspection closed from camera stop.'
+    const announce = (report: Awaited<ReturnType<typeof inspection.completeInspection>>) => {
+      if (!hadInspection && !report) return
+      addMessage({ type: 'system', text: report ? `Inspection completed. Report: ${report.inspectionId}` : 'Inspection queued for completion.' })
+    }
+    void inspection.completeInspection(summary)
+      .then(announce)
+      .catch((error) => {
+        if (!(error instanceof Error) || !error.message.startsWith('Required checklist items are still open')) return
+        // The backend refuses to close an inspection with open required items unless a reason is recorded
+        const overrideReason = window.prompt(`${error.message}. Enter a reason to complete anyway:`)?.trim()
+        if (!overrideReason) {
+          addMessage({ type: 'system', text: `Inspection left open: ${error.message}` })
+          return
+        }
+        void inspection.completeInspection(summary, overrideReason)
+          .then(announce)
+          .catch((retryError) => addMessage({ type: 'system', text: `Completion failed: ${retryError instanceof Error ? retryError.message : 'Unknown error'}` }))
       })
-      .catch(() => {})
   }, [addMessage, inspection, stopStream])
 
   const handleSyncOfflineQueue = useCallback(() => {
@@ -363,13 +443,23 @@ export default function LivePage() {
       <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 lg:gap-6">
         {/* Video & Controls */}
         <div className="space-y-4 lg:space-y-5">
-          <VideoPlayer
-            ref={videoRef}
-            stream={stream}
-            isStreaming={webRTCState.isStreaming}
-            isLoading={webRTCState.isLoading}
-            error={webRTCState.error}
-          />
+          <div className="relative">
+            <VideoPlayer
+              ref={videoRef}
+              stream={stream}
+              isStreaming={webRTCState.isStreaming}
+              isLoading={webRTCState.isLoading}
+              error={webRTCState.error}
+            />
+            {webRTCState.isStreaming && (
+              <AROverlay
+                mediaRef={videoRef}
+                annotations={annotations}
+                onAddAnnotation={handleAddAnnotation}
+                isActive={isAnnotating}
+              />
+            )}
+          </div>
           
           <Controls
             isStreaming={webRTCState.isStreaming}
@@ -395,6 +485,14 @@ export default function LivePage() {
               <ScanText className="w-4 h-4" />
               Run OCR
             </button>
+            <button
+              onClick={() => setIsAnnotating((current) => !current)}
+              disabled={!inspection.inspectionId || !webRTCState.isStreaming}
+              className="btn-secondary text-sm justify-center"
+            >
+              <Pencil className="w-4 h-4" />
+              {isAnnotating ? 'Done Annotating' : 'Annotate'}
+            </button>
             {!inspection.isOffline && inspection.pendingSyncCount > 0 && (
               <button
                 onClick={handleSyncOfflineQueue}
@@ -406,6 +504,14 @@ export default function LivePage() {
               </button>
             )}
           </div>
+
+          {inspection.inspectionId && (
+            <ChecklistPanel
+              checklist={checklist}
+              disabled={inspection.isOffline}
+              onUpdateItem={handleUpdateChecklistItem}
+            />
+          )}
         </div>
 
         {/* Transcript */}
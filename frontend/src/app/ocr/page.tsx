@@ -1,9 +1,9 @@
 'use client'
 
 import { useState } from 'react'
-import { inspectionService, type InspectionOcrResult } from '@/services/inspection-service'
+import { inspectionService, type InspectionOcrResult, type ReadingAnomaly } from '@/services/inspection-service'
 import { useTranslation } from '@/hooks/useTranslation'
-import { ScanText, Camera, Upload, AlertCircle, CheckCircle2, Loader2, Image } from 'lucide-react'
+import { ScanText, Camera, Upload, AlertCircle, CheckCircle2, Loader2, Image, TrendingUp } from 'lucide-react'
 
 export default function OcrPage() {
   const t = useTranslation()
@@ -235,6 +235,8 @@ export default function OcrPage() {
               color="red"
             />
           </div>
+
+          <ReadingAnomalies anomalies={result.anomalies ?? []} />
         </div>
       )}
     </div>
@@ -276,3 +278,51 @@ function ResultList({ title, items, icon, color }: {
     </div>
   )
 }
+
+function ReadingAnomalies({ anomalies }: { anomalies: ReadingAnomaly[] }) {
+  const severityClasses = {
+    low: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300',
+    medium: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+    high: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300',
+    critical: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold flex items-center gap-2">
+        <TrendingUp className="w-4 h-4 text-amber-500" />
+        Reading Trends
+      </h3>
+      {anomalies.length === 0 ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          No readings could be compared. Trend checks need a serial number and a meter reading.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {anomalies.map((anomaly) => (
+            <li key={anomaly.id} className="p-3 rounded-xl border border-slate-200 dark:border-slate-800 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-mono">{anomaly.rawReading}</span>
+                <span className="text-xs text-slate-500">{anomaly.assetSerial}</span>
+                <span className={`text-xs px-2 py-0.5 rounded-full ${severityClasses[anomaly.severity]}`}>
+                  {anomaly.isAnomaly ? `${anomaly.severity} anomaly` : 'normal'}
+                </span>
+              </div>
+              {anomaly.baseline && (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Baseline {anomaly.baseline.mean} ± {anomaly.baseline.stdDev} over {anomaly.baseline.sampleSize} readings, EWMA {anomaly.baseline.ewma}, z {anomaly.baseline.zScore}
+                </p>
+              )}
+              <ul className="text-xs list-disc pl-4">
+                {anomaly.reasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+              {anomaly.explanation && <p className="text-xs italic">{anomaly.explanation}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -10,6 +10,7 @@ const wsServiceMock = {
   sendAudioEnd: jest.fn(),
   sendInspectionContext: jest.fn(),
   sendInterrupt: jest.fn(),
+  sendAnnotation: jest.fn(),
   onMessage: jest.fn(() => () => undefined),
   isConnected: true,
 }
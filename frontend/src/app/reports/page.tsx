@@ -2,7 +2,7 @@
 
 import { useState } from 'react'
 import { ReportPanel } from '@/components/ReportPanel'
-import { inspectionService, type InspectionReport } from '@/services/inspection-service'
+import { inspectionService, type InspectionReport, type ReportFormat } from '@/services/inspection-service'
 import { useTranslation } from '@/hooks/useTranslation'
 
 export default function ReportsPage() {
@@ -30,13 +30,13 @@ export default function ReportsPage() {
     }
   }
 
-  async function downloadPdf() {
+  async function downloadReport(format: ReportFormat) {
     if (!report) return
-    const blob = await inspectionService.downloadReportPdf(report.inspectionId)
+    const blob = await inspectionService.downloadReport(report.inspectionId, format)
     const url = URL.createObjectURL(blob)
     const anchor = document.createElement('a')
     anchor.href = url
-    anchor.download = `inspection-report-${report.inspectionId}.pdf`
+    anchor.download = `inspection-report-${report.inspectionId}.${format}`
     document.body.appendChild(anchor)
     anchor.click()
     anchor.remove()
@@ -75,8 +75,8 @@ export default function ReportsPage() {
         onRefresh={() => {
           void loadReport()
         }}
-        onDownloadPdf={() => {
-          void downloadPdf()
+        onDownload={(format) => {
+          void downloadReport(format)
         }}
       />
     </div>
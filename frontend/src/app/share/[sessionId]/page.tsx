@@ -0,0 +1,223 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { AROverlay, type Annotation } from '@/components/AROverlay'
+import {
+  createWebSocketService,
+  type DetectedFault,
+  type SafetyFlag,
+  type WebSocketMessage,
+} from '@/services/websocket'
+
+interface SharedSessionInfo {
+  id: string
+  inspectionId: string
+  expertEmail: string
+  reason?: string
+  expiresAt: string
+}
+
+type ViewerStatus = 'connecting' | 'live' | 'ended' | 'denied'
+
+export default function ShareSessionPage() {
+  const params = useParams<{ sessionId: string }>()
+  const sessionId = params?.sessionId
+  const wsService = useMemo(
+    () => createWebSocketService(process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:8080/ws'),
+    [],
+  )
+  const [status, setStatus] = useState<ViewerStatus>('connecting')
+  const [statusMessage, setStatusMessage] = useState<string | null>(null)
+  const [session, setSession] = useState<SharedSessionInfo | null>(null)
+  const [frame, setFrame] = useState<string | null>(null)
+  const [transcript, setTranscript] = useState<Array<{ id: number; speaker: 'technician' | 'agent'; text: string }>>([])
+  const [safetyFlags, setSafetyFlags] = useState<SafetyFlag[]>([])
+  const [detectedFaults, setDetectedFaults] = useState<DetectedFault[]>([])
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [isAnnotating, setIsAnnotating] = useState(false)
+  const frameRef = useRef<HTMLImageElement>(null)
+
+  useEffect(() => {
+    if (!sessionId) return
+    const params = new URLSearchParams(window.location.search)
+    const accessToken = params.get('token')
+    if (!accessToken) {
+      setStatus('denied')
+      setStatusMessage('This link is missing its invite token.')
+      return
+    }
+
+    let nextLineId = 0
+    const appendLine = (speaker: 'technician' | 'agent', text: string) => {
+      if (text.trim().length === 0) return
+      nextLineId += 1
+      const id = nextLineId
+      setTranscript((current) => [...current.slice(-199), { id, speaker, text }])
+    }
+
+    const unsubscribe = wsService.onMessage((message: WebSocketMessage) => {
+      switch (message.type) {
+        case 'share_session_joined': {
+          setStatus('live')
+          setStatusMessage(null)
+          setSession(message.session as SharedSessionInfo)
+          const inspection = message.inspection as {
+            safetyFlags?: SafetyFlag[]
+            detectedFaults?: DetectedFault[]
+          } | null
+          setSafetyFlags(inspection?.safetyFlags ?? [])
+          setDetectedFaults(inspection?.detectedFaults ?? [])
+          setAnnotations(Array.isArray(message.annotations) ? (message.annotations as Annotation[]) : [])
+          break
+        }
+        case 'annotation_added': {
+          const annotation = message.annotation as Annotation | undefined
+          if (annotation) {
+            setAnnotations((current) => current.some((item) => item.id === annotation.id) ? current : [...current, annotation])
+          }
+          break
+        }
+        case 'annotation_removed':
+          setAnnotations((current) => current.filter((item) => item.id !== message.annotationId))
+          break
+        case 'share_session_ended':
+          setStatus('ended')
+          setStatusMessage(`Session ${typeof message.status === 'string' ? message.status : 'ended'}.`)
+          wsService.disconnect()
+          break
+        case 'video_frame':
+          if (typeof message.frame === 'string') setFrame(message.frame)
+          break
+        case 'live_transcript':
+          if (typeof message.text === 'string') appendLine('technician', message.text)
+          break
+        case 'gemini_response_chunk':
+          if (typeof message.textChunk === 'string') appendLine('agent', message.textChunk)
+          break
+        case 'gemini_response':
+          if (typeof message.text === 'string') appendLine('agent', message.text)
+          if (Array.isArray(message.safetyFlags) && message.safetyFlags.length > 0) {
+            setSafetyFlags((current) => [...current, ...(message.safetyFlags as SafetyFlag[])])
+          }
+          if (Array.isArray(message.detectedFaults) && message.detectedFaults.length > 0) {
+            setDetectedFaults((current) => [...current, ...(message.detectedFaults as DetectedFault[])])
+          }
+          break
+        case 'error':
+          if (message.code === 'share_session_denied') {
+            setStatus('denied')
+            setStatusMessage(typeof message.message === 'string' ? message.message : 'Access denied.')
+            wsService.disconnect()
+          }
+          break
+      }
+    })
+
+    wsService.connect(sessionId, { accessToken, organizationId: params.get('org') ?? undefined })
+    return () => {
+      unsubscribe()
+      wsService.disconnect()
+    }
+  }, [sessionId, wsService])
+
+  const handleAddAnnotation = useCallback((annotation: Annotation) => {
+    wsService.sendAnnotation(annotation)
+  }, [wsService])
+
+  return (
+    <div className="p-6 space-y-6">
+      <header className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-bold">Shared Inspection</h1>
+          <p className="text-muted-foreground text-sm">
+            {session
+              ? `Inspection ${session.inspectionId.slice(0, 8)}... · expires ${new Date(session.expiresAt).toLocaleTimeString()}`
+              : 'Joining remote expert session...'}
+          </p>
+          {session?.reason && <p className="text-xs text-muted-foreground">Reason: {session.reason}</p>}
+        </div>
+        <span className="text-xs px-2 py-1 rounded bg-secondary">{status}</span>
+      </header>
+
+      {statusMessage && <p className="text-sm text-destructive">{statusMessage}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 rounded-lg border bg-card p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold">Technician View</h2>
+            <button
+              onClick={() => setIsAnnotating((current) => !current)}
+              disabled={status !== 'live' || !frame}
+              className="text-xs px-2 py-1 rounded border disabled:opacity-50"
+            >
+              {isAnnotating ? 'Done Annotating' : 'Annotate'}
+            </button>
+          </div>
+          {frame ? (
+            <div className="relative">
+              <img ref={frameRef} src={frame} alt="Latest frame from technician" className="w-full rounded border" />
+              <AROverlay
+                mediaRef={frameRef}
+                annotations={annotations}
+                onAddAnnotation={handleAddAnnotation}
+                isActive={isAnnotating && status === 'live'}
+              />
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">Waiting for the technician to share a frame.</p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="rounded-lg border bg-card p-4 space-y-2">
+            <h2 className="text-sm font-semibold">Safety Flags</h2>
+            {safetyFlags.length === 0 ? (
+              <p className="text-xs text-muted-foreground">None reported.</p>
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {safetyFlags.map((flag, index) => (
+                  <li key={`${flag.type}-${index}`}>
+                    <span className="font-medium">{flag.severity.toUpperCase()}</span> {flag.description}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="rounded-lg border bg-card p-4 space-y-2">
+            <h2 className="text-sm font-semibold">Detected Faults</h2>
+            {detectedFaults.length === 0 ? (
+              <p className="text-xs text-muted-foreground">None detected.</p>
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {detectedFaults.map((fault, index) => (
+                  <li key={`${fault.component}-${index}`}>
+                    <span className="font-medium">{fault.component}</span>: {fault.description} (
+                    {Math.round(fault.confidence * 100)}%)
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-lg border bg-card p-4 space-y-2">
+        <h2 className="text-sm font-semibold">Transcript</h2>
+        {transcript.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No conversation yet.</p>
+        ) : (
+          <ul className="max-h-72 overflow-auto space-y-1 text-xs">
+            {transcript.map((line) => (
+              <li key={line.id}>
+                <span className="font-medium">{line.speaker === 'technician' ? 'Technician' : 'Assistant'}:</span>{' '}
+                {line.text}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
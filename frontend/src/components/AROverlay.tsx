@@ -1,25 +1,29 @@
 'use client'
 
 import { useRef, useState, useCallback, useEffect } from 'react'
+import type { AnnotationShape } from '@/services/websocket'
 
-export type AnnotationTool = 'none' | 'arrow' | 'circle' | 'rectangle' | 'text' | 'highlight'
+export type AnnotationTool = 'none' | AnnotationShape
 
 export interface Annotation {
   id: string
-  tool: AnnotationTool
+  tool: AnnotationShape
   color: string
+  /** Fractions (0-1) of the video frame, so shapes line up at any resolution. */
   points: { x: number; y: number }[]
   text?: string
+  authorRole?: 'technician' | 'expert'
+  snapshotUrl?: string
 }
 
 interface AROverlayProps {
-  videoRef: React.RefObject<HTMLVideoElement | null>
+  mediaRef: React.RefObject<HTMLVideoElement | HTMLImageElement | null>
   annotations: Annotation[]
   onAddAnnotation: (annotation: Annotation) => void
   isActive: boolean
 }
 
-export function AROverlay({ videoRef, annotations, onAddAnnotation, isActive }: AROverlayProps) {
+export function AROverlay({ mediaRef, annotations, onAddAnnotation, isActive }: AROverlayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [isDrawing, setIsDrawing] = useState(false)
   const [currentTool, setCurrentTool] = useState<AnnotationTool>('arrow')
@@ -30,11 +34,12 @@ export function AROverlay({ videoRef, annotations, onAddAnnotation, isActive }:
 
   const drawAnnotations = useCallback(() => {
     const canvas = canvasRef.current
-    const video = videoRef.current
-    if (!canvas || !video) return
+    const media = mediaRef.current
+    if (!canvas || !media) return
 
-    canvas.width = video.videoWidth || 640
-    canvas.height = video.videoHeight || 480
+    const isVideo = media instanceof HTMLVideoElement
+    canvas.width = (isVideo ? media.videoWidth : media.naturalWidth) || 640
+    canvas.height = (isVideo ? media.videoHeight : media.naturalHeight) || 480
 
     const ctx = canvas.getContext('2d')
     if (!ctx) return
@@ -48,7 +53,7 @@ export function AROverlay({ videoRef, annotations, onAddAnnotation, isActive }:
     if (currentAnnotation) {
       drawAnnotation(ctx, currentAnnotation)
     }
-  }, [videoRef, annotations, currentAnnotation])
+  }, [mediaRef, annotations, currentAnnotation])
 
   useEffect(() => {
     drawAnnotations()
@@ -61,7 +66,8 @@ export function AROverlay({ videoRef, annotations, onAddAnnotation, isActive }:
     ctx.lineCap = 'round'
     ctx.lineJoin = 'round'
 
-    const points = annotation.points
+    const { width, height } = ctx.canvas
+    const points = annotation.points.map((point) => ({ x: point.x * width, y: point.y * height }))
 
     switch (annotation.tool) {
       case 'arrow':
@@ -142,32 +148,24 @@ export function AROverlay({ videoRef, annotations, onAddAnnotation, isActive }:
     }
   }
 
-  const getCanvasCoordinates = (e: React.MouseEvent | React.TouchEvent): { x: number; y: number } => {
+  const getNormalizedCoordinates = (e: React.MouseEvent | React.TouchEvent): { x: number; y: number } => {
     const canvas = canvasRef.current
     if (!canvas) return { x: 0, y: 0 }
 
     const rect = canvas.getBoundingClientRect()
-    const scaleX = canvas.width / rect.width
-    const scaleY = canvas.height / rect.height
-
-    if ('touches' in e) {
-      const touch = e.touches[0]
-      return {
-        x: (touch.clientX - rect.left) * scaleX,
-        y: (touch.clientY - rect.top) * scaleY,
-      }
-    }
+    const clamp = (value: number) => Math.min(Math.max(value, 0), 1)
+    const { clientX, clientY } = 'touches' in e ? e.touches[0] : e
 
     return {
-      x: (e.clientX - rect.left) * scaleX,
-      y: (e.clientY - rect.top) * scaleY,
+      x: clamp((clientX - rect.left) / rect.width),
+      y: clamp((clientY - rect.top) / rect.height),
     }
   }
 
   const handleStart = (e: React.MouseEvent | React.TouchEvent) => {
     if (!isActive || currentTool === 'none') return
 
-    const point = getCanvasCoordinates(e)
+    const point = getNormalizedCoordinates(e)
     setIsDrawing(true)
 
     setCurrentAnnotation({
@@ -181,7 +179,7 @@ export function AROverlay({ videoRef, annotations, onAddAnnotation, isActive }:
   const handleMove = (e: React.MouseEvent | React.TouchEvent) => {
     if (!isDrawing || !currentAnnotation) return
 
-    const point = getCanvasCoordinates(e)
+    const point = getNormalizedCoordinates(e)
     setCurrentAnnotation({
       ...currentAnnotation,
       points: [...currentAnnotation.points, point],
@@ -199,13 +197,11 @@ export function AROverlay({ videoRef, annotations, onAddAnnotation, isActive }:
     setCurrentAnnotation(null)
   }
 
-  if (!isActive) return null
-
   return (
-    <div className="relative">
+    <div className="absolute inset-0 z-30">
       <canvas
         ref={canvasRef}
-        className="absolute inset-0 w-full h-full pointer-events-auto"
+        className={`absolute inset-0 w-full h-full ${isActive ? 'pointer-events-auto' : 'pointer-events-none'}`}
         onMouseDown={handleStart}
         onMouseMove={handleMove}
         onMouseUp={handleEnd}
@@ -216,96 +212,98 @@ export function AROverlay({ videoRef, annotations, onAddAnnotation, isActive }:
       />
 
       {/* Toolbar */}
-      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/70 backdrop-blur-sm rounded-xl p-2">
-        <button
-          onClick={() => setCurrentTool('none')}
-          className={`p-2 rounded-lg transition-colors ${
-            currentTool === 'none' ? 'bg-white/20' : 'hover:bg-white/10'
-          }`}
-          title="Select"
-        >
-          <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122" />
-          </svg>
-        </button>
-
-        <button
-          onClick={() => setCurrentTool('arrow')}
-          className={`p-2 rounded-lg transition-colors ${
-            currentTool === 'arrow' ? 'bg-white/20' : 'hover:bg-white/10'
-          }`}
-          title="Arrow"
-        >
-          <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" />
-          </svg>
-        </button>
-
-        <button
-          onClick={() => setCurrentTool('circle')}
-          className={`p-2 rounded-lg transition-colors ${
-            currentTool === 'circle' ? 'bg-white/20' : 'hover:bg-white/10'
-          }`}
-          title="Circle"
-        >
-          <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 22c5.523 0 10-4.477 10-10S17.523 2 12 2 2 6.477 2 12s4.477 10 10 10z" />
-          </svg>
-        </button>
-
-        <button
-          onClick={() => setCurrentTool('rectangle')}
-          className={`p-2 rounded-lg transition-colors ${
-            currentTool === 'rectangle' ? 'bg-white/20' : 'hover:bg-white/10'
-          }`}
-          title="Rectangle"
-        >
-          <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 18h16M4 6v12M20 6v12" />
-          </svg>
-        </button>
-
-        <button
-          onClick={() => setCurrentTool('highlight')}
-          className={`p-2 rounded-lg transition-colors ${
-            currentTool === 'highlight' ? 'bg-white/20' : 'hover:bg-white/10'
-          }`}
-          title="Highlight"
-        >
-          <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 126 4h6m-h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-          </svg>
-        </button>
-
-        <div className="w-px h-6 bg-white/20 mx-1" />
-
-        {colors.map((color) => (
+      {isActive && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/70 backdrop-blur-sm rounded-xl p-2">
+          <button
+            onClick={() => setCurrentTool('none')}
+            className={`p-2 rounded-lg transition-colors ${
+              currentTool === 'none' ? 'bg-white/20' : 'hover:bg-white/10'
+            }`}
+            title="Select"
+          >
+            <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122" />
+            </svg>
+          </button>
+
+          <button
+            onClick={() => setCurrentTool('arrow')}
+            className={`p-2 rounded-lg transition-colors ${
+              currentTool === 'arrow' ? 'bg-white/20' : 'hover:bg-white/10'
+            }`}
+            title="Arrow"
+          >
+            <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 8l4 4m0 0l-4 4m4-4H3" />
+            </svg>
+          </button>
+
           <button
-            key={color}
-            onClick={() => setCurrentColor(color)}
-            className={`w-6 h-6 rounded-full border-2 transition-transform ${
-              currentColor === color ? 'scale-125 border-white' : 'border-transparent'
+            onClick={() => setCurrentTool('circle')}
+            className={`p-2 rounded-lg transition-colors ${
+              currentTool === 'circle' ? 'bg-white/20' : 'hover:bg-white/10'
             }`}
-            style={{ backgroundColor: color }}
-          />
-        ))}
-
-        <div className="w-px h-6 bg-white/20 mx-1" />
-
-        <button
-          onClick={() => onAddAnnotation({
-            id: `ann_${Date.now()}`,
-            tool: 'text',
-            color: currentColor,
-            points: [{ x: 20, y: 20 }],
-            text: 'Label',
-          })}
-          className="p-2 rounded-lg hover:bg-white/10 transition-colors"
-          title="Add Text"
-        >
-          <span className="text-white text-sm font-bold">T</span>
-        </button>
-      </div>
+            title="Circle"
+          >
+            <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 22c5.523 0 10-4.477 10-10S17.523 2 12 2 2 6.477 2 12s4.477 10 10 10z" />
+            </svg>
+          </button>
+
+          <button
+            onClick={() => setCurrentTool('rectangle')}
+            className={`p-2 rounded-lg transition-colors ${
+              currentTool === 'rectangle' ? 'bg-white/20' : 'hover:bg-white/10'
+            }`}
+            title="Rectangle"
+          >
+            <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 18h16M4 6v12M20 6v12" />
+            </svg>
+          </button>
+
+          <button
+            onClick={() => setCurrentTool('highlight')}
+            className={`p-2 rounded-lg transition-colors ${
+              currentTool === 'highlight' ? 'bg-white/20' : 'hover:bg-white/10'
+            }`}
+            title="Highlight"
+          >
+            <svg className="w-5 h-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 126 4h6m-h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+          </button>
+
+          <div className="w-px h-6 bg-white/20 mx-1" />
+
+          {colors.map((color) => (
+            <button
+              key={color}
+              onClick={() => setCurrentColor(color)}
+              className={`w-6 h-6 rounded-full border-2 transition-transform ${
+                currentColor === color ? 'scale-125 border-white' : 'border-transparent'
+              }`}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+
+          <div className="w-px h-6 bg-white/20 mx-1" />
+
+          <button
+            onClick={() => onAddAnnotation({
+              id: `ann_${Date.now()}`,
+              tool: 'text',
+              color: currentColor,
+              points: [{ x: 0.05, y: 0.08 }],
+              text: 'Label',
+            })}
+            className="p-2 rounded-lg hover:bg-white/10 transition-colors"
+            title="Add Text"
+          >
+            <span className="text-white text-sm font-bold">T</span>
+          </button>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState } from 'react'
+import { CheckCircle2, ClipboardList, XCircle } from 'lucide-react'
+import type {
+  ChecklistItemUpdate,
+  InspectionChecklist,
+  InspectionChecklistItem,
+} from '@/services/inspection-service'
+
+interface ChecklistPanelProps {
+  checklist: InspectionChecklist | null
+  disabled?: boolean
+  onUpdateItem: (itemId: string, update: ChecklistItemUpdate) => void
+}
+
+const STATUS_STYLES: Record<InspectionChecklistItem['status'], string> = {
+  open: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300',
+  passed: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  not_applicable: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400',
+}
+
+function describeExpectedReading(item: InspectionChecklistItem): string | null {
+  const expected = item.expectedReading
+  if (!expected) return null
+  const unit = expected.unit ? ` ${expected.unit}` : ''
+  if (expected.target !== undefined) return `${expected.target} ± ${expected.tolerance ?? 0}${unit}`
+  if (expected.min !== undefined && expected.max !== undefined) return `${expected.min}–${expected.max}${unit}`
+  if (expected.min !== undefined) return `≥ ${expected.min}${unit}`
+  if (expected.max !== undefined) return `≤ ${expected.max}${unit}`
+  return unit.trim() || null
+}
+
+export function ChecklistPanel({ checklist, disabled = false, onUpdateItem }: ChecklistPanelProps) {
+  const [readings, setReadings] = useState<Record<string, string>>({})
+
+  if (!checklist) {
+    return (
+      <div className="card-elevated p-4 lg:p-5">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h2 className="font-semibold">Checklist</h2>
+        </div>
+        <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">No checklist template for this site type.</p>
+      </div>
+    )
+  }
+
+  const openRequired = checklist.items.filter((item) => item.required && item.status === 'open').length
+  const done = checklist.items.filter((item) => item.status !== 'open').length
+
+  const submitReading = (item: InspectionChecklistItem) => {
+    const value = Number(readings[item.id])
+    if (!readings[item.id] || Number.isNaN(value)) return
+    onUpdateItem(item.id, { reading: value })
+    setReadings((current) => ({ ...current, [item.id]: '' }))
+  }
+
+  return (
+    <div className="card-elevated p-4 lg:p-5 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h2 className="font-semibold">{checklist.templateName}</h2>
+        </div>
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          {done}/{checklist.items.length} done{openRequired > 0 ? ` · ${openRequired} required open` : ''}
+        </span>
+      </div>
+
+      <ul className="space-y-2">
+        {checklist.items.map((item) => {
+          const expected = describeExpectedReading(item)
+          return (
+            <li key={item.id} className="p-3 rounded-xl border border-slate-200 dark:border-slate-700 space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {item.label}
+                    {item.required && <span className="text-red-500"> *</span>}
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {[
+                      expected ? `Expected ${expected}` : null,
+                      item.requiresPhoto ? 'Photo required' : null,
+                      item.reading !== undefined ? `Read ${item.reading}` : null,
+                      item.markedBy === 'agent' ? 'Marked by agent' : null,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                  {item.note && <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{item.note}</p>}
+                </div>
+                <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${STATUS_STYLES[item.status]}`}>
+                  {item.status.replace('_', ' ')}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                {item.expectedReading && (
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    value={readings[item.id] ?? ''}
+                    onChange={(event) => setReadings((current) => ({ ...current, [item.id]: event.target.value }))}
+                    onKeyDown={(event) => event.key === 'Enter' && submitReading(item)}
+                    onBlur={() => submitReading(item)}
+                    disabled={disabled}
+                    placeholder="Reading"
+                    aria-label={`${item.label} reading`}
+                    className="w-24 text-xs px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-transparent"
+                  />
+                )}
+                <button
+                  onClick={() => onUpdateItem(item.id, { status: 'passed' })}
+                  disabled={disabled || item.status === 'passed'}
+                  className="btn-ghost text-xs text-emerald-600 dark:text-emerald-400"
+                >
+                  <CheckCircle2 className="w-3.5 h-3.5" />
+                  Pass
+                </button>
+                <button
+                  onClick={() => onUpdateItem(item.id, { status: 'failed' })}
+                  disabled={disabled || item.status === 'failed'}
+                  className="btn-ghost text-xs text-red-600 dark:text-red-400"
+                >
+                  <XCircle className="w-3.5 h-3.5" />
+                  Fail
+                </button>
+                {!item.required && (
+                  <button
+                    onClick={() => onUpdateItem(item.id, { status: 'not_applicable' })}
+                    disabled={disabled || item.status === 'not_applicable'}
+                    className="btn-ghost text-xs"
+                  >
+                    N/A
+                  </button>
+                )}
+                {item.status !== 'open' && (
+                  <button
+                    onClick={() => onUpdateItem(item.id, { status: 'open' })}
+                    disabled={disabled}
+                    className="btn-ghost text-xs"
+                  >
+                    Reset
+                  </button>
+                )}
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
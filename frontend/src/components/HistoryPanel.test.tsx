@@ -2,26 +2,33 @@ import { render, screen, waitFor, fireEvent } from '@testing-library/react'
 import { HistoryPanel } from './HistoryPanel'
 
 const listInspectionsMock = jest.fn()
+const listOpenPartOrdersMock = jest.fn()
 
 jest.mock('@/services/inspection-service', () => ({
   inspectionService: {
     listInspections: (...args: unknown[]) => listInspectionsMock(...args),
+    listOpenPartOrders: (...args: unknown[]) => listOpenPartOrdersMock(...args),
   },
 }))
 
 describe('HistoryPanel', () => {
   beforeEach(() => {
     listInspectionsMock.mockReset()
+    listOpenPartOrdersMock.mockReset()
+    listOpenPartOrdersMock.mockResolvedValue([])
   })
 
   it('should load and render inspection history', async () => {
-    listInspectionsMock.mockResolvedValue([
-      {
-        id: 'abc12345xyz',
-        status: 'completed',
-        timestamp: new Date().toISOString(),
-      },
-    ])
+    listInspectionsMock.mockResolvedValue({
+      items: [
+        {
+          id: 'abc12345xyz',
+          status: 'completed',
+          timestamp: new Date().toISOString(),
+        },
+      ],
+      nextCursor: null,
+    })
 
     const onOpenReport = jest.fn()
     render(
@@ -36,8 +43,26 @@ describe('HistoryPanel', () => {
     expect(onOpenReport).toHaveBeenCalledWith('abc12345xyz')
   })
 
+  it('should show open part order counts per inspection', async () => {
+    listInspectionsMock.mockResolvedValue({
+      items: [{ id: 'abc12345xyz', status: 'in_progress', timestamp: new Date().toISOString() }],
+      nextCursor: null,
+    })
+    listOpenPartOrdersMock.mockResolvedValue([
+      { id: 'order-1', inspectionId: 'abc12345xyz', status: 'ordered' },
+      { id: 'order-2', inspectionId: 'abc12345xyz', status: 'shipped' },
+      { id: 'order-3', inspectionId: 'other', status: 'pending' },
+    ])
+
+    render(<HistoryPanel technicianId="" siteId="" onOpenReport={jest.fn()} />)
+
+    await waitFor(() => {
+      expect(screen.getByText('2')).toBeInTheDocument()
+    })
+  })
+
   it('should render empty state when no items', async () => {
-    listInspectionsMock.mockResolvedValue([])
+    listInspectionsMock.mockResolvedValue({ items: [], nextCursor: null })
 
     render(<HistoryPanel technicianId="" siteId="" onOpenReport={jest.fn()} />)
 
@@ -45,4 +70,35 @@ describe('HistoryPanel', () => {
       expect(screen.getByText('No inspections found for current filters.')).toBeInTheDocument()
     })
   })
+
+  it('should search and append the next page', async () => {
+    listInspectionsMock
+      .mockResolvedValueOnce({ items: [], nextCursor: null })
+      .mockResolvedValueOnce({
+        items: [{ id: 'first-page-1', status: 'completed', timestamp: new Date().toISOString() }],
+        nextCursor: 'cursor-2',
+      })
+      .mockResolvedValueOnce({
+        items: [{ id: 'second-page-1', status: 'in_progress', timestamp: new Date().toISOString() }],
+        nextCursor: null,
+      })
+
+    render(<HistoryPanel technicianId="" siteId="site-1" onOpenReport={jest.fn()} />)
+    await waitFor(() => expect(listInspectionsMock).toHaveBeenCalledTimes(1))
+
+    fireEvent.change(screen.getByLabelText('Search inspections'), { target: { value: ' valve leak ' } })
+    fireEvent.click(screen.getByText('Search'))
+
+    await waitFor(() => expect(screen.getByText('Load more')).toBeInTheDocument())
+    expect(listInspectionsMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({ siteId: 'site-1', search: 'valve leak', sortBy: 'timestamp', sortOrder: 'desc' }),
+    )
+
+    fireEvent.click(screen.getByText('Load more'))
+
+    await waitFor(() => expect(screen.getByText('in_progress')).toBeInTheDocument())
+    expect(screen.getByText('completed')).toBeInTheDocument()
+    expect(listInspectionsMock).toHaveBeenLastCalledWith(expect.objectContaining({ cursor: 'cursor-2' }))
+    expect(screen.queryByText('Load more')).not.toBeInTheDocument()
+  })
 })
@@ -1,11 +1,11 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { inspectionService } from '@/services/inspection-service'
+import { useEffect, useState, type FormEvent } from 'react'
+import { inspectionService, type InspectionListQuery, type InspectionStatus } from '@/services/inspection-service'
 
 interface InspectionItem {
   id: string
-  status: 'in_progress' | 'completed'
+  status: InspectionStatus
   technicianId?: string
   siteId?: string
   timestamp?: string
@@ -18,24 +18,57 @@ interface HistoryPanelProps {
   onOpenReport: (inspectionId: string) => void
 }
 
+type SortOption = `${NonNullable<InspectionListQuery['sortBy']>}:${NonNullable<InspectionListQuery['sortOrder']>}`
+
+const PAGE_SIZE = 20
+
+const SORT_OPTIONS: Array<{ value: SortOption; label: string }> = [
+  { value: 'timestamp:desc', label: 'Newest first' },
+  { value: 'timestamp:asc', label: 'Oldest first' },
+  { value: 'status:asc', label: 'Status' },
+  { value: 'siteId:asc', label: 'Site' },
+]
+
+function toIsoBoundary(date: string, endOfDay: boolean): string | undefined {
+  if (!date) return undefined
+  return new Date(`${date}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).toISOString()
+}
+
 export function HistoryPanel({ technicianId, siteId, onOpenReport }: HistoryPanelProps) {
   const [items, setItems] = useState<InspectionItem[]>([])
+  const [openOrderCounts, setOpenOrderCounts] = useState<Record<string, number>>({})
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [sort, setSort] = useState<SortOption>('timestamp:desc')
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
 
   useEffect(() => {
     void loadHistory()
-  }, [technicianId, siteId])
+  }, [technicianId, siteId, search, from, to, sort])
 
-  async function loadHistory() {
+  async function loadHistory(cursor?: string) {
     setLoading(true)
     setError(null)
+    const [sortBy, sortOrder] = sort.split(':') as [InspectionListQuery['sortBy'], InspectionListQuery['sortOrder']]
     try {
-      const list = await inspectionService.listInspections({
+      const page = await inspectionService.listInspections({
         technicianId: technicianId || undefined,
         siteId: siteId || undefined,
+        search: search || undefined,
+        from: toIsoBoundary(from, false),
+        to: toIsoBoundary(to, true),
+        sortBy,
+        sortOrder,
+        limit: PAGE_SIZE,
+        cursor,
       })
-      setItems(list)
+      setItems((current) => (cursor ? [...current, ...page.items] : page.items))
+      setNextCursor(page.nextCursor)
+      if (!cursor) setOpenOrderCounts(await loadOpenOrderCounts())
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load history')
     } finally {
@@ -43,6 +76,23 @@ export function HistoryPanel({ technicianId, siteId, onOpenReport }: HistoryPane
     }
   }
 
+  function submitSearch(event: FormEvent) {
+    event.preventDefault()
+    setSearch(searchInput.trim())
+  }
+
+  async function loadOpenOrderCounts(): Promise<Record<string, number>> {
+    try {
+      const orders = await inspectionService.listOpenPartOrders()
+      return orders.reduce<Record<string, number>>((counts, order) => {
+        counts[order.inspectionId] = (counts[order.inspectionId] ?? 0) + 1
+        return counts
+      }, {})
+    } catch {
+      return {}
+    }
+  }
+
   return (
     <div className="rounded-lg border bg-card p-4 space-y-3">
       <div className="flex items-center justify-between">
@@ -56,6 +106,46 @@ export function HistoryPanel({ technicianId, siteId, onOpenReport }: HistoryPane
         </button>
       </div>
 
+      <form onSubmit={submitSearch} className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(event) => setSearchInput(event.target.value)}
+          placeholder="Search transcripts, faults, OCR text..."
+          aria-label="Search inspections"
+          className="flex-1 min-w-40 px-2 py-1 rounded border bg-transparent"
+        />
+        <input
+          type="date"
+          value={from}
+          onChange={(event) => setFrom(event.target.value)}
+          aria-label="From date"
+          className="px-2 py-1 rounded border bg-transparent"
+        />
+        <input
+          type="date"
+          value={to}
+          onChange={(event) => setTo(event.target.value)}
+          aria-label="To date"
+          className="px-2 py-1 rounded border bg-transparent"
+        />
+        <select
+          value={sort}
+          onChange={(event) => setSort(event.target.value as SortOption)}
+          aria-label="Sort inspections"
+          className="px-2 py-1 rounded border bg-transparent"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button type="submit" className="px-2 py-1 rounded bg-secondary hover:bg-secondary/80">
+          Search
+        </button>
+      </form>
+
       {error && <p className="text-xs text-destructive">{error}</p>}
       {items.length === 0 ? (
         <p className="text-xs text-muted-foreground">No inspections found for current filters.</p>
@@ -68,6 +158,7 @@ export function HistoryPanel({ technicianId, siteId, onOpenReport }: HistoryPane
                 <th className="text-left px-2 py-2">Status</th>
                 <th className="text-left px-2 py-2">Time</th>
                 <th className="text-left px-2 py-2">Workflow</th>
+                <th className="text-left px-2 py-2">Open Parts</th>
                 <th className="text-left px-2 py-2">Action</th>
               </tr>
             </thead>
@@ -80,6 +171,7 @@ export function HistoryPanel({ technicianId, siteId, onOpenReport }: HistoryPane
                     {item.timestamp ? new Date(item.timestamp).toLocaleString() : '-'}
                   </td>
                   <td className="px-2 py-2">{item.workflowEvents?.length ?? 0}</td>
+                  <td className="px-2 py-2">{openOrderCounts[item.id] ?? 0}</td>
                   <td className="px-2 py-2">
                     <button
                       onClick={() => onOpenReport(item.id)}
@@ -94,6 +186,15 @@ export function HistoryPanel({ technicianId, siteId, onOpenReport }: HistoryPane
           </table>
         </div>
       )}
+      {nextCursor && (
+        <button
+          onClick={() => void loadHistory(nextCursor)}
+          className="w-full text-xs px-2 py-1 rounded bg-secondary hover:bg-secondary/80"
+          disabled={loading}
+        >
+          {loading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
     </div>
   )
 }
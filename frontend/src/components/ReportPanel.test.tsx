@@ -3,7 +3,7 @@ import { ReportPanel } from './ReportPanel'
 
 describe('ReportPanel', () => {
   it('should render empty state when no report', () => {
-    render(<ReportPanel report={null} onRefresh={jest.fn()} onDownloadPdf={jest.fn()} />)
+    render(<ReportPanel report={null} onRefresh={jest.fn()} onDownload={jest.fn()} />)
 
     expect(
       screen.getByText('Complete an inspection to preview and download the generated report.'),
@@ -12,7 +12,7 @@ describe('ReportPanel', () => {
 
   it('should render report details and invoke actions', () => {
     const onRefresh = jest.fn()
-    const onDownloadPdf = jest.fn()
+    const onDownload = jest.fn()
 
     render(
       <ReportPanel
@@ -25,10 +25,12 @@ describe('ReportPanel', () => {
           workflowSummary: ['COMPLETED - create_ticket: Ticket created (wf_123)'],
           recommendedActions: ['Wear gloves'],
           imageCount: 2,
+          totalTrackedMinutes: 45,
+          timeSummary: ['Valve alignment: 45m (completed)'],
           summaryText: 'Inspection summary text',
         }}
         onRefresh={onRefresh}
-        onDownloadPdf={onDownloadPdf}
+        onDownload={onDownload}
       />,
     )
 
@@ -37,11 +39,15 @@ describe('ReportPanel', () => {
     expect(screen.getByText('HIGH - PPE missing')).toBeInTheDocument()
     expect(screen.getByText('COMPLETED - create_ticket: Ticket created (wf_123)')).toBeInTheDocument()
     expect(screen.getByText('Wear gloves')).toBeInTheDocument()
+    expect(screen.getByText('Valve alignment: 45m (completed)')).toBeInTheDocument()
 
     fireEvent.click(screen.getByText('Refresh'))
-    fireEvent.click(screen.getByText('Download PDF'))
+    fireEvent.click(screen.getByText('Download'))
+    fireEvent.change(screen.getByLabelText('Report format'), { target: { value: 'docx' } })
+    fireEvent.click(screen.getByText('Download'))
 
     expect(onRefresh).toHaveBeenCalledTimes(1)
-    expect(onDownloadPdf).toHaveBeenCalledTimes(1)
+    expect(onDownload).toHaveBeenNthCalledWith(1, 'pdf')
+    expect(onDownload).toHaveBeenNthCalledWith(2, 'docx')
   })
 })
@@ -1,27 +1,34 @@
 'use client'
 
-import type { InspectionReport } from '@/services/inspection-service'
+import { useState } from 'react'
+import type { InspectionReport, ReportFormat } from '@/services/inspection-service'
 
 interface ReportPanelProps {
   report: InspectionReport | null
   onRefresh: () => void
-  onDownloadPdf: () => void
+  onDownload: (format: ReportFormat) => void
 }
 
-export function ReportPanel({ report, onRefresh, onDownloadPdf }: ReportPanelProps) {
-  const downloadJson = () => {
-    if (!report) return
-    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
-    triggerDownload(blob, `inspection-report-${report.inspectionId}.json`)
-  }
+const REPORT_FORMATS: Array<{ value: ReportFormat; label: string }> = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'docx', label: 'Word (DOCX)' },
+  { value: 'html', label: 'HTML' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+]
+
+export function ReportPanel({ report, onRefresh, onDownload }: ReportPanelProps) {
+  const [format, setFormat] = useState<ReportFormat>('pdf')
 
   const downloadTxt = () => {
     if (!report) return
     const text = [
       `Inspection Report: ${report.inspectionId}`,
+      ...(report.version ? [`Version: ${report.version}`] : []),
       `Generated At: ${new Date(report.generatedAt).toLocaleString()}`,
       `Status: ${report.status}`,
       `Images Captured: ${report.imageCount}`,
+      `Time Tracked: ${report.totalTrackedMinutes ?? 0} min`,
       '',
       'Summary',
       report.summaryText,
@@ -35,6 +42,18 @@ export function ReportPanel({ report, onRefresh, onDownloadPdf }: ReportPanelPro
       'Workflow Actions',
       ...(report.workflowSummary.length > 0 ? report.workflowSummary : ['- None']),
       '',
+      'Time Tracking',
+      ...(report.timeSummary && report.timeSummary.length > 0 ? report.timeSummary : ['- None']),
+      '',
+      'Open Part Orders',
+      ...(report.openPartOrders && report.openPartOrders.length > 0 ? report.openPartOrders : ['- None']),
+      '',
+      'Annotations',
+      ...(report.annotationSummary && report.annotationSummary.length > 0 ? report.annotationSummary : ['- None']),
+      '',
+      'Transcript',
+      ...(report.transcriptExcerpt && report.transcriptExcerpt.length > 0 ? report.transcriptExcerpt : ['- None']),
+      '',
       'Recommended Actions',
       ...(report.recommendedActions.length > 0 ? report.recommendedActions : ['- None']),
     ].join('\n')
@@ -55,13 +74,6 @@ export function ReportPanel({ report, onRefresh, onDownloadPdf }: ReportPanelPro
           >
             Refresh
           </button>
-          <button
-            onClick={onDownloadPdf}
-            className="text-xs px-2 py-1 rounded bg-secondary hover:bg-secondary/80"
-            disabled={!report}
-          >
-            Download PDF
-          </button>
           <button
             onClick={downloadTxt}
             className="text-xs px-2 py-1 rounded bg-secondary hover:bg-secondary/80"
@@ -69,12 +81,25 @@ export function ReportPanel({ report, onRefresh, onDownloadPdf }: ReportPanelPro
           >
             Download TXT
           </button>
+          <select
+            value={format}
+            onChange={(event) => setFormat(event.target.value as ReportFormat)}
+            aria-label="Report format"
+            className="text-xs px-2 py-1 rounded border bg-transparent"
+            disabled={!report}
+          >
+            {REPORT_FORMATS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
           <button
-            onClick={downloadJson}
+            onClick={() => onDownload(format)}
             className="text-xs px-2 py-1 rounded bg-primary text-primary-foreground"
             disabled={!report}
           >
-            Download JSON
+            Download
           </button>
         </div>
       </div>
@@ -89,15 +114,20 @@ export function ReportPanel({ report, onRefresh, onDownloadPdf }: ReportPanelPro
             <p className="text-xs text-muted-foreground">Summary</p>
             <p>{report.summaryText}</p>
           </div>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
             <Metric label="Findings" value={report.findings.length} />
             <Metric label="Safety Flags" value={report.safetySummary.length} />
             <Metric label="Workflow" value={report.workflowSummary.length} />
             <Metric label="Images" value={report.imageCount} />
+            <Metric label="Minutes Tracked" value={report.totalTrackedMinutes ?? 0} />
           </div>
           <ListBlock title="Findings" items={report.findings} />
           <ListBlock title="Safety Flags" items={report.safetySummary} />
           <ListBlock title="Workflow Actions" items={report.workflowSummary} />
+          <ListBlock title="Time Tracking" items={report.timeSummary ?? []} />
+          <ListBlock title="Open Part Orders" items={report.openPartOrders ?? []} />
+          <ListBlock title="Annotations" items={report.annotationSummary ?? []} />
+          <ListBlock title="Transcript" items={report.transcriptExcerpt ?? []} />
           <ListBlock title="Recommended Actions" items={report.recommendedActions} />
         </div>
       )}
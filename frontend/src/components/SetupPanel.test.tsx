@@ -0,0 +1,87 @@
+import { render, screen, waitFor, fireEvent } from '@testing-library/react'
+import { SetupPanel } from './SetupPanel'
+
+const apiRequestMock = jest.fn()
+
+jest.mock('@/services/api-client', () => ({
+  apiRequest: (...args: unknown[]) => apiRequestMock(...args),
+}))
+
+const technician = { id: 'tech-1', name: 'Ada', email: 'ada@example.com', role: 'technician' }
+const otherTechnician = { id: 'tech-2', name: 'Grace', email: 'grace@example.com', role: 'technician' }
+const site = { id: 'site-1', name: 'North Substation', type: 'power', technicianIds: ['tech-1'] }
+
+function mockDirectory() {
+  apiRequestMock.mockImplementation(async (path: string, options?: { method?: string; body?: unknown }) => {
+    if (path === '/api/v1/technicians') return [technician, otherTechnician]
+    if (path === '/api/v1/sites') return [site]
+    if (path === '/api/v1/technicians/tech-1' && options?.method === 'PATCH') {
+      return { ...technician, ...(options.body as object) }
+    }
+    if (path === '/api/v1/sites/site-1/technicians') {
+      return { ...site, ...(options?.body as object) }
+    }
+    return undefined
+  })
+}
+
+describe('SetupPanel', () => {
+  beforeEach(() => {
+    apiRequestMock.mockReset()
+    mockDirectory()
+  })
+
+  it('should edit the selected technician', async () => {
+    render(
+      <SetupPanel
+        technicianId="tech-1"
+        siteId="site-1"
+        onTechnicianChange={jest.fn()}
+        onSiteChange={jest.fn()}
+        canAccessApi
+      />,
+    )
+
+    fireEvent.click(await screen.findByText('Edit technician'))
+    fireEvent.change(screen.getByLabelText('Technician role'), { target: { value: 'admin' } })
+    fireEvent.click(screen.getByText('Save'))
+
+    await waitFor(() => {
+      expect(apiRequestMock).toHaveBeenCalledWith('/api/v1/technicians/tech-1', {
+        method: 'PATCH',
+        body: { name: 'Ada', email: 'ada@example.com', role: 'admin' },
+      })
+    })
+    expect(await screen.findByText('Edit technician')).toBeInTheDocument()
+  })
+
+  it('should reassign site technicians and deactivate the selected site', async () => {
+    const onSiteChange = jest.fn()
+    jest.spyOn(window, 'confirm').mockReturnValue(true)
+    render(
+      <SetupPanel
+        technicianId="tech-1"
+        siteId="site-1"
+        onTechnicianChange={jest.fn()}
+        onSiteChange={onSiteChange}
+        canAccessApi
+      />,
+    )
+
+    fireEvent.click(await screen.findByLabelText('Grace'))
+    fireEvent.click(screen.getByText('Save site'))
+
+    await waitFor(() => {
+      expect(apiRequestMock).toHaveBeenCalledWith('/api/v1/sites/site-1/technicians', {
+        method: 'PUT',
+        body: { technicianIds: ['tech-1', 'tech-2'] },
+      })
+    })
+
+    fireEvent.click(screen.getAllByText('Deactivate')[1])
+    await waitFor(() => {
+      expect(apiRequestMock).toHaveBeenCalledWith('/api/v1/sites/site-1', { method: 'DELETE' })
+    })
+    expect(onSiteChange).toHaveBeenCalledWith('')
+  })
+})
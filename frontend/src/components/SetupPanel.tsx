@@ -7,15 +7,22 @@ interface Technician {
   id: string
   name: string
   email: string
-  role: 'admin' | 'technician' | 'viewer'
+  role: 'admin' | 'supervisor' | 'technician' | 'viewer'
 }
 
 interface Site {
   id: string
   name: string
   type: 'oil_gas' | 'power' | 'telecom' | 'manufacturing' | 'solar'
+  technicianIds: string[]
 }
 
+type TechnicianDraft = Pick<Technician, 'name' | 'email' | 'role'>
+type SiteDraft = Pick<Site, 'name' | 'type'>
+
+const SITE_TYPES: Site['type'][] = ['power', 'oil_gas', 'telecom', 'manufacturing', 'solar']
+const TECHNICIAN_ROLES: Technician['role'][] = ['technician', 'supervisor', 'admin', 'viewer']
+
 interface SetupPanelProps {
   technicianId: string
   siteId: string
@@ -41,6 +48,12 @@ export function SetupPanel({
   const [newTechEmail, setNewTechEmail] = useState('')
   const [newSiteName, setNewSiteName] = useState('')
   const [newSiteType, setNewSiteType] = useState<Site['type']>('power')
+  const [techDraft, setTechDraft] = useState<TechnicianDraft | null>(null)
+  const [siteDraft, setSiteDraft] = useState<SiteDraft | null>(null)
+  const [assignedIds, setAssignedIds] = useState<string[] | null>(null)
+
+  const selectedTechnician = technicians.find((tech) => tech.id === technicianId)
+  const selectedSite = sites.find((site) => site.id === siteId)
 
   useEffect(() => {
     if (!canAccessApi) {
@@ -50,6 +63,15 @@ export function SetupPanel({
     void loadData()
   }, [canAccessApi, accessMessage])
 
+  useEffect(() => {
+    setTechDraft(null)
+  }, [technicianId])
+
+  useEffect(() => {
+    setSiteDraft(null)
+    setAssignedIds(null)
+  }, [siteId])
+
   async function loadData() {
     if (!canAccessApi) {
       setError(accessMessage || 'Sign in to load setup data.')
@@ -107,6 +129,41 @@ export function SetupPanel({
     }
   }
 
+  async function saveTechnician() {
+    if (!selectedTechnician || !techDraft) return
+    setLoading(true)
+    setError(null)
+    try {
+      const saved = await apiRequest<Technician>(`/api/v1/technicians/${selectedTechnician.id}`, {
+        method: 'PATCH',
+        body: techDraft,
+      })
+      setTechnicians((current) => current.map((tech) => (tech.id === saved.id ? saved : tech)))
+      setTechDraft(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update technician')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function deactivateTechnician() {
+    if (!selectedTechnician) return
+    if (!window.confirm(`Deactivate ${selectedTechnician.name}? Past inspections keep their record.`)) return
+    setLoading(true)
+    setError(null)
+    try {
+      await apiRequest<void>(`/api/v1/technicians/${selectedTechnician.id}`, { method: 'DELETE' })
+      const remaining = technicians.filter((tech) => tech.id !== selectedTechnician.id)
+      setTechnicians(remaining)
+      onTechnicianChange(remaining[0]?.id || '')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to deactivate technician')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   async function createSite() {
     if (!canAccessApi) {
       setError(accessMessage || 'Sign in to create sites.')
@@ -139,6 +196,56 @@ export function SetupPanel({
     }
   }
 
+  async function saveSite() {
+    if (!selectedSite || (!siteDraft && !assignedIds)) return
+    setLoading(true)
+    setError(null)
+    try {
+      let saved = selectedSite
+      if (siteDraft) {
+        saved = await apiRequest<Site>(`/api/v1/sites/${selectedSite.id}`, { method: 'PATCH', body: siteDraft })
+      }
+      if (assignedIds) {
+        saved = await apiRequest<Site>(`/api/v1/sites/${selectedSite.id}/technicians`, {
+          method: 'PUT',
+          body: { technicianIds: assignedIds },
+        })
+      }
+      setSites((current) => current.map((site) => (site.id === saved.id ? saved : site)))
+      setSiteDraft(null)
+      setAssignedIds(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update site')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function deactivateSite() {
+    if (!selectedSite) return
+    if (!window.confirm(`Deactivate ${selectedSite.name}? Past inspections keep their record.`)) return
+    setLoading(true)
+    setError(null)
+    try {
+      await apiRequest<void>(`/api/v1/sites/${selectedSite.id}`, { method: 'DELETE' })
+      const remaining = sites.filter((site) => site.id !== selectedSite.id)
+      setSites(remaining)
+      onSiteChange(remaining[0]?.id || '')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to deactivate site')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function toggleAssignment(id: string) {
+    const current = assignedIds ?? selectedSite?.technicianIds ?? []
+    setAssignedIds(current.includes(id) ? current.filter((value) => value !== id) : [...current, id])
+  }
+
+  const disabled = !canAccessApi || loading
+  const siteAssignments = assignedIds ?? selectedSite?.technicianIds ?? []
+
   return (
     <div className="rounded-lg border bg-card p-4 space-y-3">
       <div className="flex items-center justify-between">
@@ -161,7 +268,7 @@ export function SetupPanel({
             className="w-full rounded border px-2 py-2 text-sm"
             value={technicianId}
             onChange={(e) => onTechnicianChange(e.target.value)}
-            disabled={!canAccessApi || loading}
+            disabled={disabled}
           >
             <option value="">Select technician</option>
             {technicians.map((tech) => (
@@ -170,25 +277,92 @@ export function SetupPanel({
               </option>
             ))}
           </select>
+          {selectedTechnician && !techDraft && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setTechDraft({
+                  name: selectedTechnician.name,
+                  email: selectedTechnician.email,
+                  role: selectedTechnician.role,
+                })}
+                className="px-2 py-1 text-xs rounded bg-secondary"
+                disabled={disabled}
+              >
+                Edit technician
+              </button>
+              <button
+                onClick={() => void deactivateTechnician()}
+                className="px-2 py-1 text-xs rounded bg-destructive text-destructive-foreground"
+                disabled={disabled}
+              >
+                Deactivate
+              </button>
+            </div>
+          )}
+          {techDraft && (
+            <div className="flex flex-wrap gap-2 rounded border p-2">
+              <input
+                aria-label="Technician name"
+                className="flex-1 rounded border px-2 py-1 text-xs"
+                value={techDraft.name}
+                onChange={(e) => setTechDraft({ ...techDraft, name: e.target.value })}
+                disabled={disabled}
+              />
+              <input
+                aria-label="Technician email"
+                className="flex-1 rounded border px-2 py-1 text-xs"
+                value={techDraft.email}
+                onChange={(e) => setTechDraft({ ...techDraft, email: e.target.value })}
+                disabled={disabled}
+              />
+              <select
+                aria-label="Technician role"
+                className="rounded border px-2 py-1 text-xs"
+                value={techDraft.role}
+                onChange={(e) => setTechDraft({ ...techDraft, role: e.target.value as Technician['role'] })}
+                disabled={disabled}
+              >
+                {TECHNICIAN_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => void saveTechnician()}
+                className="px-2 py-1 text-xs rounded bg-primary text-primary-foreground"
+                disabled={disabled || !techDraft.name || !techDraft.email}
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setTechDraft(null)}
+                className="px-2 py-1 text-xs rounded bg-secondary"
+                disabled={loading}
+              >
+                Cancel
+              </button>
+            </div>
+          )}
           <div className="flex gap-2">
             <input
               className="flex-1 rounded border px-2 py-1 text-xs"
               placeholder="Name"
               value={newTechName}
               onChange={(e) => setNewTechName(e.target.value)}
-              disabled={!canAccessApi || loading}
+              disabled={disabled}
             />
             <input
               className="flex-1 rounded border px-2 py-1 text-xs"
               placeholder="Email"
               value={newTechEmail}
               onChange={(e) => setNewTechEmail(e.target.value)}
-              disabled={!canAccessApi || loading}
+              disabled={disabled}
             />
             <button
               onClick={() => void createTechnician()}
               className="px-2 py-1 text-xs rounded bg-primary text-primary-foreground"
-              disabled={!canAccessApi || loading}
+              disabled={disabled}
             >
               Add
             </button>
@@ -201,7 +375,7 @@ export function SetupPanel({
             className="w-full rounded border px-2 py-2 text-sm"
             value={siteId}
             onChange={(e) => onSiteChange(e.target.value)}
-            disabled={!canAccessApi || loading}
+            disabled={disabled}
           >
             <option value="">Select site</option>
             {sites.map((site) => (
@@ -210,30 +384,109 @@ export function SetupPanel({
               </option>
             ))}
           </select>
+          {selectedSite && (
+            <div className="space-y-2 rounded border p-2">
+              {siteDraft ? (
+                <div className="flex gap-2">
+                  <input
+                    aria-label="Site name"
+                    className="flex-1 rounded border px-2 py-1 text-xs"
+                    value={siteDraft.name}
+                    onChange={(e) => setSiteDraft({ ...siteDraft, name: e.target.value })}
+                    disabled={disabled}
+                  />
+                  <select
+                    aria-label="Site type"
+                    className="rounded border px-2 py-1 text-xs"
+                    value={siteDraft.type}
+                    onChange={(e) => setSiteDraft({ ...siteDraft, type: e.target.value as Site['type'] })}
+                    disabled={disabled}
+                  >
+                    {SITE_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setSiteDraft({ name: selectedSite.name, type: selectedSite.type })}
+                    className="px-2 py-1 text-xs rounded bg-secondary"
+                    disabled={disabled}
+                  >
+                    Edit site
+                  </button>
+                  <button
+                    onClick={() => void deactivateSite()}
+                    className="px-2 py-1 text-xs rounded bg-destructive text-destructive-foreground"
+                    disabled={disabled}
+                  >
+                    Deactivate
+                  </button>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">Assigned technicians</p>
+              {technicians.length === 0 && <p className="text-xs text-muted-foreground">No technicians yet.</p>}
+              {technicians.map((tech) => (
+                <label key={tech.id} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={siteAssignments.includes(tech.id)}
+                    onChange={() => toggleAssignment(tech.id)}
+                    disabled={disabled}
+                  />
+                  {tech.name}
+                </label>
+              ))}
+              {(siteDraft || assignedIds) && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => void saveSite()}
+                    className="px-2 py-1 text-xs rounded bg-primary text-primary-foreground"
+                    disabled={disabled || (siteDraft !== null && !siteDraft.name)}
+                  >
+                    Save site
+                  </button>
+                  <button
+                    onClick={() => {
+                      setSiteDraft(null)
+                      setAssignedIds(null)
+                    }}
+                    className="px-2 py-1 text-xs rounded bg-secondary"
+                    disabled={loading}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
           <div className="flex gap-2">
             <input
               className="flex-1 rounded border px-2 py-1 text-xs"
               placeholder="Site name"
               value={newSiteName}
               onChange={(e) => setNewSiteName(e.target.value)}
-              disabled={!canAccessApi || loading}
+              disabled={disabled}
             />
             <select
               className="rounded border px-2 py-1 text-xs"
               value={newSiteType}
               onChange={(e) => setNewSiteType(e.target.value as Site['type'])}
-              disabled={!canAccessApi || loading}
+              disabled={disabled}
             >
-              <option value="power">power</option>
-              <option value="oil_gas">oil_gas</option>
-              <option value="telecom">telecom</option>
-              <option value="manufacturing">manufacturing</option>
-              <option value="solar">solar</option>
+              {SITE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
             </select>
             <button
               onClick={() => void createSite()}
               className="px-2 py-1 text-xs rounded bg-primary text-primary-foreground"
-              disabled={!canAccessApi || loading}
+              disabled={disabled}
             >
               Add
             </button>
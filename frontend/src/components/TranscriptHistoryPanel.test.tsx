@@ -0,0 +1,65 @@
+import { render, screen, waitFor, fireEvent } from '@testing-library/react'
+import { TranscriptHistoryPanel } from './TranscriptHistoryPanel'
+
+const listTranscriptMock = jest.fn()
+
+jest.mock('@/services/inspection-service', () => ({
+  inspectionService: {
+    listTranscript: (...args: unknown[]) => listTranscriptMock(...args),
+  },
+}))
+
+function entry(sequence: number, speaker: 'user' | 'agent', text: string) {
+  return {
+    id: `entry-${sequence}`,
+    inspectionId: 'insp-1',
+    sequence,
+    speaker,
+    text,
+    timestamp: '2026-03-01T10:00:00.000Z',
+    source: 'live',
+  }
+}
+
+describe('TranscriptHistoryPanel', () => {
+  beforeEach(() => {
+    listTranscriptMock.mockReset()
+  })
+
+  it('should prompt for an inspection before loading anything', () => {
+    render(<TranscriptHistoryPanel />)
+
+    expect(screen.getByText('Open an inspection report to view its transcript.')).toBeInTheDocument()
+    expect(listTranscriptMock).not.toHaveBeenCalled()
+  })
+
+  it('should search, filter by speaker and append the next page', async () => {
+    listTranscriptMock
+      .mockResolvedValueOnce({ items: [entry(1, 'user', 'Starting'), entry(2, 'agent', 'Hello')], nextAfterSequence: null })
+      .mockResolvedValueOnce({ items: [entry(1, 'user', 'Starting')], nextAfterSequence: null })
+      .mockResolvedValueOnce({ items: [entry(4, 'user', 'The breaker trips')], nextAfterSequence: 4 })
+      .mockResolvedValueOnce({ items: [entry(9, 'user', 'Breaker replaced')], nextAfterSequence: null })
+
+    render(<TranscriptHistoryPanel inspectionId="insp-1" />)
+    await waitFor(() => expect(screen.getByText('Hello')).toBeInTheDocument())
+
+    fireEvent.change(screen.getByLabelText('Filter by speaker'), { target: { value: 'user' } })
+    await waitFor(() => expect(screen.queryByText('Hello')).not.toBeInTheDocument())
+    fireEvent.change(screen.getByLabelText('Search transcript'), { target: { value: ' breaker ' } })
+    fireEvent.click(screen.getByText('Search transcript'))
+
+    await waitFor(() => expect(screen.getByText('The breaker trips')).toBeInTheDocument())
+    expect(screen.queryByText('Starting')).not.toBeInTheDocument()
+    expect(listTranscriptMock).toHaveBeenLastCalledWith(
+      'insp-1',
+      expect.objectContaining({ speaker: 'user', search: 'breaker', afterSequence: undefined }),
+    )
+
+    fireEvent.click(screen.getByText('Load more'))
+
+    await waitFor(() => expect(screen.getByText('Breaker replaced')).toBeInTheDocument())
+    expect(screen.getByText('The breaker trips')).toBeInTheDocument()
+    expect(listTranscriptMock).toHaveBeenLastCalledWith('insp-1', expect.objectContaining({ afterSequence: 4 }))
+    expect(screen.queryByText('Load more')).not.toBeInTheDocument()
+  })
+})
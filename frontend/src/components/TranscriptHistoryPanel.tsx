@@ -0,0 +1,135 @@
+'use client'
+
+import { useEffect, useState, type FormEvent } from 'react'
+import {
+  inspectionService,
+  type TranscriptEntry,
+  type TranscriptSpeaker,
+} from '@/services/inspection-service'
+
+interface TranscriptHistoryPanelProps {
+  inspectionId?: string
+}
+
+const PAGE_SIZE = 50
+
+const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  user: 'Technician',
+  agent: 'Agent',
+  system: 'System',
+}
+
+export function TranscriptHistoryPanel({ inspectionId }: TranscriptHistoryPanelProps) {
+  const [entries, setEntries] = useState<TranscriptEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [speaker, setSpeaker] = useState<TranscriptSpeaker | ''>('')
+  const [nextAfterSequence, setNextAfterSequence] = useState<number | null>(null)
+
+  useEffect(() => {
+    setEntries([])
+    setNextAfterSequence(null)
+    if (inspectionId) {
+      void loadTranscript(inspectionId)
+    }
+  }, [inspectionId, search, speaker])
+
+  async function loadTranscript(id: string, afterSequence?: number) {
+    setLoading(true)
+    setError(null)
+    try {
+      const page = await inspectionService.listTranscript(id, {
+        afterSequence,
+        limit: PAGE_SIZE,
+        speaker: speaker || undefined,
+        search: search || undefined,
+      })
+      setEntries((current) => (afterSequence !== undefined ? [...current, ...page.items] : page.items))
+      setNextAfterSequence(page.nextAfterSequence)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transcript')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function submitSearch(event: FormEvent) {
+    event.preventDefault()
+    setSearch(searchInput.trim())
+  }
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">Transcript</h2>
+        <span className="text-xs text-muted-foreground">
+          {entries.length} entr{entries.length === 1 ? 'y' : 'ies'}
+        </span>
+      </div>
+
+      {!inspectionId ? (
+        <p className="text-xs text-muted-foreground">Open an inspection report to view its transcript.</p>
+      ) : (
+        <>
+          <form onSubmit={submitSearch} className="flex flex-wrap items-center gap-2 text-xs">
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(event) => setSearchInput(event.target.value)}
+              placeholder="Search what was said..."
+              aria-label="Search transcript"
+              className="flex-1 min-w-40 px-2 py-1 rounded border bg-transparent"
+            />
+            <select
+              value={speaker}
+              onChange={(event) => setSpeaker(event.target.value as TranscriptSpeaker | '')}
+              aria-label="Filter by speaker"
+              className="px-2 py-1 rounded border bg-transparent"
+            >
+              <option value="">All speakers</option>
+              {(Object.keys(SPEAKER_LABELS) as TranscriptSpeaker[]).map((value) => (
+                <option key={value} value={value}>
+                  {SPEAKER_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className="px-2 py-1 rounded bg-secondary hover:bg-secondary/80">
+              Search transcript
+            </button>
+          </form>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          {entries.length === 0 && !loading ? (
+            <p className="text-xs text-muted-foreground">No transcript entries match.</p>
+          ) : (
+            <ul className="max-h-72 overflow-auto space-y-2">
+              {entries.map((entry) => (
+                <li key={entry.id} className="rounded border p-2 text-xs">
+                  <p className="flex items-center justify-between text-muted-foreground">
+                    <span className="font-medium text-foreground">{SPEAKER_LABELS[entry.speaker]}</span>
+                    <span>
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                      {entry.language ? ` · ${entry.language}` : ''}
+                    </span>
+                  </p>
+                  <p className="whitespace-pre-wrap">{entry.text}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+          {nextAfterSequence !== null && (
+            <button
+              onClick={() => void loadTranscript(inspectionId, nextAfterSequence)}
+              className="w-full text-xs px-2 py-1 rounded bg-secondary hover:bg-secondary/80"
+              disabled={loading}
+            >
+              {loading ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
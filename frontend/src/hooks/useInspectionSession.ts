@@ -199,7 +199,7 @@ export function useInspectionSession() {
     }
   }, [state.inspectionId, state.isOffline])
 
-  const completeInspection = useCallback(async (summary?: string): Promise<InspectionReport | null> => {
+  const completeInspection = useCallback(async (summary?: string, overrideReason?: string): Promise<InspectionReport | null> => {
     if (!state.inspectionId) {
       return null
     }
@@ -218,7 +218,7 @@ export function useInspectionSession() {
     }
 
     try {
-      await inspectionService.completeInspection(state.inspectionId, { summary })
+      await inspectionService.completeInspection(state.inspectionId, { summary, overrideReason })
       const report = await inspectionService.generateReport(state.inspectionId)
       setState((prev) => ({
         ...prev,
@@ -35,7 +35,7 @@ export interface User {
   id: string
   name: string
   email: string
-  role: 'admin' | 'technician' | 'viewer'
+  role: 'admin' | 'supervisor' | 'technician' | 'viewer'
 }
 
 export interface WorkspaceSelection {
@@ -9,8 +9,23 @@ export function setAuthTokenProvider(provider: AuthTokenProvider): void {
 }
 
 interface RequestOptions {
-  method?: 'GET' | 'POST' | 'PATCH'
+  method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE'
   body?: unknown
+  /** Inspection version the write was based on; sent as an `If-Match` ETag. */
+  ifMatch?: number
+}
+
+/** A non-2xx response. `code` and `currentVersion` come from the JSON error body when present. */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string,
+    public readonly currentVersion?: number,
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
 }
 
 interface BlobRequestOptions {
@@ -25,23 +40,28 @@ async function buildAuthHeaders(baseHeaders: Record<string, string> = {}): Promi
   }
 }
 
-async function readResponseError(response: Response): Promise<string> {
-  const payload = (await response.clone().json().catch(() => ({}))) as { error?: string }
+async function readResponseError(response: Response): Promise<ApiError> {
+  const payload = (await response.clone().json().catch(() => ({}))) as {
+    error?: string
+    code?: string
+    currentVersion?: number
+  }
   if (payload.error) {
-    return payload.error
+    return new ApiError(payload.error, response.status, payload.code, payload.currentVersion)
   }
 
   const text = await response.text().catch(() => '')
   if (text.trim().length > 0) {
-    return text
+    return new ApiError(text, response.status)
   }
 
-  return `Request failed: ${response.status}`
+  return new ApiError(`Request failed: ${response.status}`, response.status)
 }
 
 export async function apiRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
   const headers = await buildAuthHeaders({
     'Content-Type': 'application/json',
+    ...(options.ifMatch !== undefined ? { 'If-Match': `"${options.ifMatch}"` } : {}),
   })
 
   const response = await fetch(`${API_BASE_URL}${path}`, {
@@ -51,7 +71,7 @@ export async function apiRequest<T>(path: string, options: RequestOptions = {}):
   })
 
   if (!response.ok) {
-    throw new Error(await readResponseError(response))
+    throw await readResponseError(response)
   }
 
   if (response.status === 204) {
@@ -69,7 +89,7 @@ export async function apiRequestBlob(path: string, options: BlobRequestOptions =
   })
 
   if (!response.ok) {
-    throw new Error(await readResponseError(response))
+    throw await readResponseError(response)
   }
 
   return response.blob()
@@ -1,12 +1,59 @@
 import { apiRequest, apiRequestBlob, uploadFileToSignedUrl } from './api-client'
 
+/** `pending_review`, `changes_requested` and `approved` are set only through the supervisor review endpoints. */
+export type InspectionStatus = 'in_progress' | 'completed' | 'pending_review' | 'changes_requested' | 'approved'
+
 export interface Inspection {
   id: string
-  status: 'in_progress' | 'completed'
+  status: InspectionStatus
   technicianId?: string
   siteId?: string
+  assetIds?: string[]
   timestamp?: string
   workflowEvents?: WorkflowActionEvent[]
+  anomalyFindings?: ReadingAnomaly[]
+  checklist?: InspectionChecklist
+  checklistOverrideReason?: string
+  /** Bumped by every server-side write; send it back to make a write conditional. */
+  version?: number
+}
+
+export type ChecklistItemStatus = 'open' | 'passed' | 'failed' | 'not_applicable'
+
+export interface InspectionChecklistItem {
+  id: string
+  label: string
+  description?: string
+  required: boolean
+  expectedReading?: {
+    unit?: string
+    min?: number
+    max?: number
+    target?: number
+    tolerance?: number
+  }
+  requiresPhoto: boolean
+  keywords: string[]
+  status: ChecklistItemStatus
+  reading?: number
+  withinTolerance?: boolean
+  photoUrl?: string
+  note?: string
+  markedBy?: 'technician' | 'agent'
+  updatedAt?: string
+}
+
+export interface InspectionChecklist {
+  templateId: string
+  templateName: string
+  items: InspectionChecklistItem[]
+}
+
+export interface ChecklistItemUpdate {
+  status?: ChecklistItemStatus
+  reading?: number
+  photoUrl?: string
+  note?: string
 }
 
 interface SignedUploadResponse {
@@ -16,18 +63,51 @@ interface SignedUploadResponse {
   expiresAt: string
 }
 
+/** Formats the backend renders a report in, served from `report.<format>`. */
+export type ReportFormat = 'pdf' | 'docx' | 'html' | 'csv' | 'json'
+
 export interface InspectionReport {
   inspectionId: string
+  version?: number
+  contentHash?: string
   generatedAt: string
-  status: 'in_progress' | 'completed'
+  status: InspectionStatus
   findings: string[]
   safetySummary: string[]
   workflowSummary: string[]
   recommendedActions: string[]
   imageCount: number
+  totalTrackedMinutes?: number
+  timeSummary?: string[]
+  openPartOrders?: string[]
+  annotationSummary?: string[]
+  transcriptExcerpt?: string[]
   summaryText: string
 }
 
+export interface ReadingAnomaly {
+  id: string
+  assetSerial: string
+  metric: string
+  rawReading: string
+  value: number
+  isAnomaly: boolean
+  severity: 'low' | 'medium' | 'high' | 'critical'
+  reasons: string[]
+  baseline: {
+    sampleSize: number
+    mean: number
+    stdDev: number
+    ewma: number
+    zScore: number
+    ewmaDeviation: number
+    ratePerDay?: number
+    typicalRatePerDay?: number
+  } | null
+  explanation?: string
+  createdAt: string
+}
+
 export interface InspectionOcrResult {
   imageUrl: string
   extractedText: string
@@ -36,6 +116,8 @@ export interface InspectionOcrResult {
   meterReadings: string[]
   warningLabels: string[]
   confidence: number
+  assetId?: string
+  anomalies?: ReadingAnomaly[]
 }
 
 export type WorkflowActionType =
@@ -55,6 +137,66 @@ export interface WorkflowActionEvent {
   createdAt: string
 }
 
+export interface PartOrder {
+  id: string
+  inspectionId: string
+  partNumber: string
+  quantity: number
+  urgency: 'routine' | 'urgent' | 'critical'
+  status: 'pending' | 'ordered' | 'shipped' | 'delivered' | 'cancelled'
+  supplierProvider: 'generic' | 'sap_ariba' | 'coupa'
+  notes?: string
+  statusNote?: string
+  externalReferenceId?: string
+  estimatedDelivery?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface InspectionListQuery {
+  technicianId?: string
+  siteId?: string
+  status?: InspectionStatus
+  /** ISO date or date-time; inclusive. */
+  from?: string
+  to?: string
+  search?: string
+  sortBy?: 'timestamp' | 'status' | 'siteId' | 'technicianId'
+  sortOrder?: 'asc' | 'desc'
+  limit?: number
+  cursor?: string
+}
+
+export interface InspectionPage {
+  items: Inspection[]
+  nextCursor: string | null
+}
+
+export type TranscriptSpeaker = 'user' | 'agent' | 'system'
+
+export interface TranscriptEntry {
+  id: string
+  inspectionId: string
+  sequence: number
+  speaker: TranscriptSpeaker
+  text: string
+  timestamp: string
+  language?: string
+  source: 'live' | 'fallback' | 'legacy'
+}
+
+export interface TranscriptQuery {
+  afterSequence?: number
+  limit?: number
+  speaker?: TranscriptSpeaker
+  search?: string
+}
+
+export interface TranscriptPage {
+  items: TranscriptEntry[]
+  nextAfterSequence: number | null
+}
+
 interface CreateInspectionInput {
   technicianId: string
   siteId: string
@@ -62,6 +204,10 @@ interface CreateInspectionInput {
 
 interface CompleteInspectionInput {
   summary?: string
+  /** Required by the backend while required checklist items are still open. */
+  overrideReason?: string
+  /** Fails with a 409 `version_conflict` if the inspection has changed since this version. */
+  expectedVersion?: number
 }
 
 export class InspectionService {
@@ -72,37 +218,75 @@ export class InspectionService {
     })
   }
 
-  public async listInspections(filters?: {
-    technicianId?: string
-    siteId?: string
-    status?: 'in_progress' | 'completed'
-  }): Promise<Inspection[]> {
+  public async listInspections(query: InspectionListQuery = {}): Promise<InspectionPage> {
     const params = new URLSearchParams()
-    if (filters?.technicianId) params.set('technicianId', filters.technicianId)
-    if (filters?.siteId) params.set('siteId', filters.siteId)
-    if (filters?.status) params.set('status', filters.status)
-    const query = params.toString()
-    const path = query ? `/api/v1/inspections?${query}` : '/api/v1/inspections'
-    return apiRequest<Inspection[]>(path)
+    if (query.technicianId) params.set('technicianId', query.technicianId)
+    if (query.siteId) params.set('siteId', query.siteId)
+    if (query.status) params.set('status', query.status)
+    if (query.from) params.set('from', query.from)
+    if (query.to) params.set('to', query.to)
+    if (query.search) params.set('q', query.search)
+    if (query.sortBy) params.set('sortBy', query.sortBy)
+    if (query.sortOrder) params.set('sortOrder', query.sortOrder)
+    if (query.limit) params.set('limit', String(query.limit))
+    if (query.cursor) params.set('cursor', query.cursor)
+    const search = params.toString()
+    const path = search ? `/api/v1/inspections?${search}` : '/api/v1/inspections'
+    return apiRequest<InspectionPage>(path)
+  }
+
+  public async listOpenPartOrders(): Promise<PartOrder[]> {
+    return apiRequest<PartOrder[]>('/api/v1/parts-orders?status=open')
   }
 
   public async getInspection(inspectionId: string): Promise<Inspection> {
     return apiRequest<Inspection>(`/api/v1/inspections/${inspectionId}`)
   }
 
+  public async listTranscript(inspectionId: string, query: TranscriptQuery = {}): Promise<TranscriptPage> {
+    const params = new URLSearchParams()
+    if (query.afterSequence !== undefined) params.set('afterSequence', String(query.afterSequence))
+    if (query.limit) params.set('limit', String(query.limit))
+    if (query.speaker) params.set('speaker', query.speaker)
+    if (query.search) params.set('q', query.search)
+    const search = params.toString()
+    const path = `/api/v1/inspections/${inspectionId}/transcript`
+    return apiRequest<TranscriptPage>(search ? `${path}?${search}` : path)
+  }
+
   public async completeInspection(
     inspectionId: string,
     input: CompleteInspectionInput,
   ): Promise<Inspection> {
     return apiRequest<Inspection>(`/api/v1/inspections/${inspectionId}/status`, {
       method: 'PATCH',
+      ifMatch: input.expectedVersion,
       body: {
         status: 'completed',
         summary: input.summary,
+        overrideReason: input.overrideReason,
       },
     })
   }
 
+  public async getChecklist(inspectionId: string): Promise<InspectionChecklist> {
+    return apiRequest<InspectionChecklist>(`/api/v1/inspections/${inspectionId}/checklist`)
+  }
+
+  public async updateChecklistItem(
+    inspectionId: string,
+    itemId: string,
+    update: ChecklistItemUpdate,
+  ): Promise<InspectionChecklist> {
+    return apiRequest<InspectionChecklist>(
+      `/api/v1/inspections/${inspectionId}/checklist/items/${encodeURIComponent(itemId)}`,
+      {
+        method: 'PATCH',
+        body: update,
+      },
+    )
+  }
+
   public async uploadSnapshot(inspectionId: string, frameDataUrl: string): Promise<string> {
     const blob = this.dataUrlToBlob(frameDataUrl)
     const signed = await apiRequest<SignedUploadResponse>(
@@ -139,7 +323,11 @@ export class InspectionService {
   }
 
   public async downloadReportPdf(inspectionId: string): Promise<Blob> {
-    return apiRequestBlob(`/api/v1/inspections/${inspectionId}/report.pdf`)
+    return this.downloadReport(inspectionId, 'pdf')
+  }
+
+  public async downloadReport(inspectionId: string, format: ReportFormat): Promise<Blob> {
+    return apiRequestBlob(`/api/v1/inspections/${inspectionId}/report.${format}`)
   }
 
   public async runOcr(inspectionId: string, imageUrl?: string): Promise<InspectionOcrResult> {
@@ -1,15 +1,31 @@
 import { OfflineSyncQueueService } from './offline-sync-queue'
-import { inspectionService } from './inspection-service'
+import { ApiError } from './api-client'
+import { inspectionService, type InspectionReport } from './inspection-service'
 
 jest.mock('./inspection-service', () => ({
   inspectionService: {
     createInspection: jest.fn(),
+    getInspection: jest.fn(),
     uploadSnapshot: jest.fn(),
     completeInspection: jest.fn(),
     generateReport: jest.fn(),
   },
 }))
 
+function report(inspectionId: string): InspectionReport {
+  return {
+    inspectionId,
+    generatedAt: new Date().toISOString(),
+    status: 'completed',
+    findings: [],
+    safetySummary: [],
+    workflowSummary: [],
+    recommendedActions: [],
+    imageCount: 1,
+    summaryText: 'done',
+  }
+}
+
 function setOnlineStatus(isOnline: boolean): void {
   Object.defineProperty(window.navigator, 'onLine', {
     configurable: true,
@@ -35,21 +51,16 @@ describe('OfflineSyncQueueService', () => {
     mockedInspectionService.uploadSnapshot.mockResolvedValueOnce(
       'https://storage.example/snapshot-1.jpg',
     )
-    mockedInspectionService.completeInspection.mockResolvedValueOnce({
+    mockedInspectionService.getInspection.mockResolvedValueOnce({
       id: 'insp-remote-1',
-      status: 'completed',
+      status: 'in_progress',
+      version: 2,
     })
-    mockedInspectionService.generateReport.mockResolvedValueOnce({
-      inspectionId: 'insp-remote-1',
-      generatedAt: new Date().toISOString(),
+    mockedInspectionService.completeInspection.mockResolvedValueOnce({
+      id: 'insp-remote-1',
       status: 'completed',
-      findings: [],
-      safetySummary: [],
-      workflowSummary: [],
-      recommendedActions: [],
-      imageCount: 1,
-      summaryText: 'done',
     })
+    mockedInspectionService.generateReport.mockResolvedValueOnce(report('insp-remote-1'))
 
     const localInspectionId = service.createOfflineInspectionId()
     service.enqueueCreateInspection(localInspectionId, {
@@ -71,6 +82,7 @@ describe('OfflineSyncQueueService', () => {
       processed: 3,
       remaining: 0,
       failed: 0,
+      conflicts: 0,
     })
     expect(mockedInspectionService.createInspection).toHaveBeenCalledWith({
       technicianId: 'tech-1',
@@ -82,6 +94,7 @@ describe('OfflineSyncQueueService', () => {
     )
     expect(mockedInspectionService.completeInspection).toHaveBeenCalledWith('insp-remote-1', {
       summary: 'Inspection complete.',
+      expectedVersion: 2,
     })
     expect(mockedInspectionService.generateReport).toHaveBeenCalledWith('insp-remote-1')
     expect(onInspectionIdMapped).toHaveBeenCalledWith(localInspectionId, 'insp-remote-1')
@@ -104,6 +117,7 @@ describe('OfflineSyncQueueService', () => {
       processed: 0,
       remaining: 1,
       failed: 0,
+      conflicts: 0,
     })
     expect(mockedInspectionService.createInspection).not.toHaveBeenCalled()
     expect(service.getPendingCount()).toBe(1)
@@ -132,4 +146,59 @@ describe('OfflineSyncQueueService', () => {
     expect(secondAttempt.remaining).toBe(0)
     expect(mockedInspectionService.createInspection).toHaveBeenCalledTimes(2)
   })
+
+  it('should re-read and retry a completion that conflicts with another write', async () => {
+    mockedInspectionService.getInspection
+      .mockResolvedValueOnce({ id: 'insp-4', status: 'in_progress', version: 3 })
+      .mockResolvedValueOnce({ id: 'insp-4', status: 'in_progress', version: 4 })
+    mockedInspectionService.completeInspection
+      .mockRejectedValueOnce(new ApiError('Inspection was changed', 409, 'version_conflict', 4))
+      .mockResolvedValueOnce({ id: 'insp-4', status: 'completed', version: 5 })
+    mockedInspectionService.generateReport.mockResolvedValueOnce(report('insp-4'))
+    service.enqueueCompleteInspection('insp-4', 'Queued while offline.')
+
+    const result = await service.flush()
+
+    expect(result).toEqual({
+      processed: 1,
+      remaining: 0,
+      failed: 0,
+      conflicts: 1,
+    })
+    expect(mockedInspectionService.completeInspection).toHaveBeenLastCalledWith('insp-4', {
+      summary: 'Queued while offline.',
+      expectedVersion: 4,
+    })
+  })
+
+  it('should not complete an inspection another client already completed', async () => {
+    mockedInspectionService.getInspection.mockResolvedValueOnce({
+      id: 'insp-5',
+      status: 'completed',
+      version: 7,
+    })
+    mockedInspectionService.generateReport.mockResolvedValueOnce(report('insp-5'))
+    service.enqueueCompleteInspection('insp-5')
+
+    const result = await service.flush()
+
+    expect(result.processed).toBe(1)
+    expect(mockedInspectionService.completeInspection).not.toHaveBeenCalled()
+    expect(mockedInspectionService.generateReport).toHaveBeenCalledWith('insp-5')
+  })
+
+  it('should not complete an inspection that has moved on to review', async () => {
+    mockedInspectionService.getInspection.mockResolvedValueOnce({
+      id: 'insp-6',
+      status: 'pending_review',
+      version: 9,
+    })
+    mockedInspectionService.generateReport.mockResolvedValueOnce(report('insp-6'))
+    service.enqueueCompleteInspection('insp-6')
+
+    const result = await service.flush()
+
+    expect(result).toMatchObject({ processed: 1, failed: 0 })
+    expect(mockedInspectionService.completeInspection).not.toHaveBeenCalled()
+  })
 })
@@ -1,8 +1,12 @@
-import { inspectionService, type InspectionReport } from './inspection-service'
+import { ApiError } from './api-client'
+import { inspectionService, type InspectionReport, type InspectionStatus } from './inspection-service'
 
 const OFFLINE_QUEUE_STORAGE_KEY = 'fieldsightlive.offline.queue.v1'
 const OFFLINE_INSPECTION_MAP_KEY = 'fieldsightlive.offline.inspection-map.v1'
 const MAX_OPERATION_ATTEMPTS = 5
+const MAX_CONFLICT_RETRIES = 3
+/** Every status an inspection can reach once it has been completed, review states included. */
+const COMPLETED_STATUSES: InspectionStatus[] = ['completed', 'pending_review', 'changes_requested', 'approved']
 
 interface BaseOfflineOperation {
   id: string
@@ -48,6 +52,8 @@ export interface SyncResult {
   processed: number
   remaining: number
   failed: number
+  /** Writes that lost a race with another client and were re-applied against the latest version. */
+  conflicts: number
 }
 
 export class OfflineSyncQueueService {
@@ -110,6 +116,7 @@ export class OfflineSyncQueueService {
         processed: 0,
         remaining: this.getPendingCount(),
         failed: 0,
+        conflicts: 0,
       }
     }
 
@@ -118,12 +125,14 @@ export class OfflineSyncQueueService {
         processed: 0,
         remaining: this.getPendingCount(),
         failed: 0,
+        conflicts: 0,
       }
     }
 
     this.isFlushing = true
     let processed = 0
     let failed = 0
+    let conflicts = 0
 
     try {
       const queue = this.readQueue()
@@ -132,7 +141,7 @@ export class OfflineSyncQueueService {
       while (queue.length > 0) {
         const current = queue[0]
         try {
-          await this.executeOperation(current, inspectionIdMap, callbacks)
+          conflicts += await this.executeOperation(current, inspectionIdMap, callbacks)
           queue.shift()
           this.writeQueue(queue)
           this.writeInspectionIdMap(inspectionIdMap)
@@ -163,6 +172,7 @@ export class OfflineSyncQueueService {
         processed,
         remaining: queue.length,
         failed,
+        conflicts,
       }
     } finally {
       this.isFlushing = false
@@ -173,11 +183,11 @@ export class OfflineSyncQueueService {
     operation: OfflineOperation,
     inspectionIdMap: InspectionIdMap,
     callbacks: SyncCallbacks,
-  ): Promise<void> {
+  ): Promise<number> {
     switch (operation.type) {
       case 'create_inspection': {
         if (inspectionIdMap[operation.localInspectionId]) {
-          return
+          return 0
         }
         const inspection = await inspectionService.createInspection({
           technicianId: operation.technicianId,
@@ -185,21 +195,50 @@ export class OfflineSyncQueueService {
         })
         inspectionIdMap[operation.localInspectionId] = inspection.id
         callbacks.onInspectionIdMapped?.(operation.localInspectionId, inspection.id)
-        return
+        return 0
       }
 
       case 'upload_snapshot': {
         const inspectionId = this.resolveInspectionId(operation.inspectionId, inspectionIdMap)
         await inspectionService.uploadSnapshot(inspectionId, operation.frameDataUrl)
-        return
+        return 0
       }
 
       case 'complete_inspection': {
         const inspectionId = this.resolveInspectionId(operation.inspectionId, inspectionIdMap)
-        await inspectionService.completeInspection(inspectionId, { summary: operation.summary })
+        const conflicts = await this.completeAtLatestVersion(inspectionId, operation.summary)
         const report = await inspectionService.generateReport(inspectionId)
         callbacks.onReportGenerated?.(report)
-        return
+        return conflicts
+      }
+    }
+  }
+
+  /**
+   * Reads the inspection and completes it at that version. If another client
+   * changed it in between, the 409 makes it read and try again, up to
+   * MAX_CONFLICT_RETRIES times. An inspection that was already completed, or
+   * has moved on to review, is left alone. Returns the conflicts resolved.
+   */
+  private async completeAtLatestVersion(inspectionId: string, summary?: string): Promise<number> {
+    let conflicts = 0
+    for (;;) {
+      const inspection = await inspectionService.getInspection(inspectionId)
+      if (COMPLETED_STATUSES.includes(inspection.status)) {
+        return conflicts
+      }
+
+      try {
+        await inspectionService.completeInspection(inspectionId, {
+          summary,
+          expectedVersion: inspection.version,
+        })
+        return conflicts
+      } catch (error) {
+        if (!this.isVersionConflict(error) || conflicts >= MAX_CONFLICT_RETRIES) {
+          throw error
+        }
+        conflicts += 1
       }
     }
   }
@@ -313,6 +352,10 @@ export class OfflineSyncQueueService {
     )
   }
 
+  private isVersionConflict(error: unknown): boolean {
+    return error instanceof ApiError && error.status === 409 && error.code === 'version_conflict'
+  }
+
   private isOfflineOperation(value: unknown): value is OfflineOperation {
     if (!value || typeof value !== 'object') {
       return false
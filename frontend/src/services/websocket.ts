@@ -33,6 +33,13 @@ export type WebSocketMessageType =
   | 'interrupt'
   | 'live_transcript'
   | 'workflow_confirmation'
+  | 'expert_escalation'
+  | 'share_session_joined'
+  | 'share_session_ended'
+  | 'annotation'
+  | 'annotation_added'
+  | 'annotation_removed'
+  | 'checklist_updated'
   | 'gemini_response_chunk'
   | 'gemini_response'
   | 'error'
@@ -44,14 +51,33 @@ export interface WebSocketMessage {
 
 type MessageHandler = (message: WebSocketMessage) => void
 
+export type AnnotationShape = 'arrow' | 'circle' | 'rectangle' | 'text' | 'highlight'
+
+export interface AnnotationPayload {
+  tool: AnnotationShape
+  color: string
+  points: { x: number; y: number }[]
+  text?: string
+  snapshotUrl?: string
+}
+
+export interface WebSocketConnectOptions {
+  /** Share-session invite token; connects as a read-only expert viewer. */
+  accessToken?: string
+  /** Organization that issued the invite; signed-in users get theirs from the auth token instead. */
+  organizationId?: string
+}
+
 export interface WebSocketService {
-  connect: (sessionId?: string) => void
+  connect: (sessionId?: string, options?: WebSocketConnectOptions) => void
   disconnect: () => void
   sendVideoFrame: (frame: string) => void
   sendAudio: (payload: { pcmBase64: string; sampleRate: number; mimeType: string }) => void
   sendAudioEnd: () => void
-  sendInspectionContext: (inspectionId: string) => void
+  /** `language` is stored on the transcript entries spoken after this point. */
+  sendInspectionContext: (inspectionId: string, language?: string) => void
   sendInterrupt: () => void
+  sendAnnotation: (annotation: AnnotationPayload) => void
   onMessage: (handler: MessageHandler) => () => void
   isConnected: boolean
 }
@@ -90,21 +116,23 @@ export function createWebSocketService(url: string): WebSocketService {
     return Array.from(candidates)
   }
 
-  const withTokenIfPresent = (baseUrl: string, token: string | null): string => {
-    if (!token) {
+  const withTokenIfPresent = (baseUrl: string, token: string | null, options?: WebSocketConnectOptions): string => {
+    if (!token && !options?.accessToken && !options?.organizationId) {
       return baseUrl
     }
 
     try {
       const parsed = new URL(baseUrl)
-      parsed.searchParams.set('token', token)
+      if (token) parsed.searchParams.set('token', token)
+      if (options?.accessToken) parsed.searchParams.set('shareToken', options.accessToken)
+      if (options?.organizationId) parsed.searchParams.set('organizationId', options.organizationId)
       return parsed.toString()
     } catch {
       return baseUrl
     }
   }
 
-  const connect = (sessionId?: string) => {
+  const connect = (sessionId?: string, options?: WebSocketConnectOptions) => {
     if (ws?.readyState === WebSocket.OPEN || ws?.readyState === WebSocket.CONNECTING) {
       console.log('WebSocket already connected or connecting')
       return
@@ -113,7 +141,9 @@ export function createWebSocketService(url: string): WebSocketService {
     intentionalDisconnect = false
     const wsUrl = url || process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:8080/ws'
     void wsAuthTokenProvider().then((token) => {
-      const candidates = buildCandidateUrls(wsUrl).map((candidate) => withTokenIfPresent(candidate, token))
+      const candidates = buildCandidateUrls(wsUrl).map((candidate) =>
+        withTokenIfPresent(candidate, token, options),
+      )
 
       const tryConnect = (index: number): void => {
         if (index >= candidates.length) {
@@ -121,7 +151,7 @@ export function createWebSocketService(url: string): WebSocketService {
             const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000)
             reconnectTimeout = setTimeout(() => {
               reconnectAttempts += 1
-              connect(sessionId)
+              connect(sessionId, options)
             }, delay)
           }
           return
@@ -139,7 +169,7 @@ export function createWebSocketService(url: string): WebSocketService {
           console.log('WebSocket connected:', candidateUrl)
 
           if (sessionId) {
-            socket.send(JSON.stringify({ type: 'join_session', sessionId }))
+            socket.send(JSON.stringify({ type: 'join_session', sessionId, accessToken: options?.accessToken }))
           }
         }
 
@@ -182,7 +212,7 @@ export function createWebSocketService(url: string): WebSocketService {
             const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000)
             reconnectTimeout = setTimeout(() => {
               reconnectAttempts += 1
-              connect(sessionId)
+              connect(sessionId, options)
             }, delay)
           }
         }
@@ -239,11 +269,12 @@ export function createWebSocketService(url: string): WebSocketService {
     }))
   }
 
-  const sendInspectionContext = (inspectionId: string) => {
+  const sendInspectionContext = (inspectionId: string, language?: string) => {
     if (ws?.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify({
         type: 'inspection_context',
         inspectionId,
+        language,
       }))
     }
   }
@@ -254,6 +285,21 @@ export function createWebSocketService(url: string): WebSocketService {
     }
   }
 
+  const sendAnnotation = (annotation: AnnotationPayload) => {
+    if (ws?.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({
+        type: 'annotation',
+        annotation: {
+          tool: annotation.tool,
+          color: annotation.color,
+          points: annotation.points,
+          text: annotation.text,
+          snapshotUrl: annotation.snapshotUrl,
+        },
+      }))
+    }
+  }
+
   const onMessage = (handler: MessageHandler) => {
     messageHandlers.add(handler)
     return () => {
@@ -269,6 +315,7 @@ export function createWebSocketService(url: string): WebSocketService {
     sendAudioEnd,
     sendInspectionContext,
     sendInterrupt,
+    sendAnnotation,
     onMessage,
     get isConnected(): boolean {
       return ws?.readyState === WebSocket.OPEN